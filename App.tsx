@@ -1,4 +1,4 @@
-import React, { useState, useEffect, lazy, Suspense, useMemo } from "react";
+import React, { useState, useEffect, lazy, Suspense, useMemo, useRef } from "react";
 import Layout from "./components/Layout";
 import LandingPage from "./components/LandingPage";
 import Authentication from "./components/Authentication";
@@ -9,21 +9,31 @@ import ResetPassword from "./components/ResetPassword";
 import { EnvironmentBanner } from "./components/EnvironmentBanner";
 import { safeIngest } from "./utils/analyticsIngest";
 import { getMentorsCircleId, getMenteesHubId } from "./utils/chatGroups";
+import {
+  closeMatch,
+  createMatchProposal,
+  pauseMatch,
+  respondToMatch,
+  resumeMatch,
+  submitClosureFeedback,
+} from "./utils/matchLifecycle";
+import type { MatchLifecycleActions } from "./components/MatchLifecyclePanel";
 import {
   Role,
   User,
   Match,
-  MatchStatus,
+  MatchingWeights,
   CalendarEvent,
   Notification,
   ProgramSettings,
   BlogPost,
 } from "./types";
-import { getBlogPosts } from "./services/database";
+import { getBlogPosts, subscribeToBlogPosts } from "./services/database";
 import { parseDurationToHours } from "./services/utils";
 import { useOrganizationData } from "./hooks/useOrganizationData";
 import {
   createMatch,
+  updateMatch,
   createRating,
   updateRating,
   deleteRating,
@@ -40,7 +50,6 @@ import {
   updateUserProfileForSession,
   incrementMentorHours,
   updateOrganization,
-  createChatMessage,
 } from "./services/database";
 
 // Lazy load heavy components for code splitting
@@ -56,6 +65,7 @@ const Referrals = lazy(() => import("./components/Referrals"));
 const NotificationsView = lazy(() => import("./components/NotificationsView"));
 const UserManagement = lazy(() => import("./components/UserManagement"));
 const PlatformOperatorManagement = lazy(() => import("./components/PlatformOperatorManagement"));
+const ModerationQueue = lazy(() => import("./components/ModerationQueue"));
 const VideoCallPage = lazy(() => import("./components/VideoCallPage"));
 
 // Keep these as regular imports (smaller, needed for initial render)
@@ -75,6 +85,30 @@ import { useGoalActions } from "./hooks/useGoalActions";
 import { useFCM } from "./hooks/useFCM";
 import { getFCMStorageUserId } from "./utils/fcmOwner";
 import { consumeVideoCallReturnPage } from "./utils/videoCallNavigation";
+import { clearImpersonationSession } from "./utils/impersonationSession";
+import { getTotpGraceDaysLeft, getTotpPolicyStatus } from "./utils/securityPolicy";
+import { clampInvitationExpiryDays, getInvitationExpiry } from "./utils/invitations";
+import {
+  formatEventTime,
+  getEventLocalDateTime,
+  resolveTimeZone,
+} from "./utils/timeZones";
+import {
+  planRecurringDelete,
+  planRecurringEdit,
+  RecurrenceEditPlan,
+  RecurrenceEditScope,
+} from "./utils/recurrence";
+import {
+  PUBLIC_ROUTE_PATHS,
+  blogPostPath,
+  pageToPath,
+  pathToBlogSlug,
+  pathToPage,
+  pathToPublicRoute,
+  setPostLoginPage,
+  consumePostLoginPage,
+} from "./utils/routes";
 import { getCloudFunctionUrl } from "./services/cloudFunctionsUrl";
 import { getErrorMessage, getErrorCode, formatError } from "./utils/errors";
 import { logger } from "./services/logger";
@@ -122,6 +156,8 @@ const getInitialAuthState = () => {
   // Check URL params for org-signup route to determine initial route
   // Note: Auth clearing will happen in useEffect after mount, not here
   let initialPublicRoute: PublicRoute | "hidden" = "landing";
+  // Page key from the URL (deep link, refresh, or email/push notification link)
+  let requestedPage: string | null = null;
 
   if (typeof window !== "undefined") {
     const urlParams = new URLSearchParams(window.location.search);
@@ -149,6 +185,11 @@ const getInitialAuthState = () => {
     else if (inviteToken || orgCode) {
       initialPublicRoute = "org-signup";
     }
+    else {
+      requestedPage = pathToPage(pathname);
+      // Signed-out visitors following an app link log in first, then land on the page
+      initialPublicRoute = requestedPage ? "auth" : pathToPublicRoute(pathname) ?? "landing";
+    }
   }
 
   const isAuthenticated = !!(storedUserId && storedOrgId);
@@ -169,11 +210,17 @@ const getInitialAuthState = () => {
     publicRoute: isAuthenticated
       ? ("hidden" as const)
       : initialPublicRoute,
-    // Only restore lastPage if authenticated, not onboarding, and not impersonating
-    currentPage: shouldUseLastPage ? lastPage : "dashboard",
+    // The URL wins; otherwise restore lastPage if authenticated, not onboarding, and not impersonating
+    currentPage: isAuthenticated && requestedPage
+      ? requestedPage
+      : shouldUseLastPage ? lastPage : "dashboard",
+    postLoginPage: isAuthenticated ? null : requestedPage,
   };
 };
 
+/** Section pages that also open a single item from a deep link, e.g. "my-goals:<goalId>". */
+const DEEP_LINKED_PAGES = new Set(["my-goals", "calendar"]);
+
 const App: React.FC = () => {
   // Compute initial state synchronously from localStorage to prevent flash
   const initialAuthState = React.useMemo(() => getInitialAuthState(), []);
@@ -182,6 +229,10 @@ const App: React.FC = () => {
   const [publicRoute, setPublicRoute] = useState<PublicRoute | "hidden">(
     initialAuthState.publicRoute
   );
+  // Article shown on the blog route (/blog/<slug>); null shows the post list
+  const [blogSlug, setBlogSlug] = useState<string | null>(() =>
+    typeof window !== "undefined" ? pathToBlogSlug(window.location.pathname) : null
+  );
 
   // Check URL params on mount for reset-password route
   useEffect(() => {
@@ -211,9 +262,71 @@ const App: React.FC = () => {
   }, []);
   const [authInitialMode, setAuthInitialMode] = useState<
     "login" | "org-signup" | "participant-signup" | "choose"
-  >("choose");
+  >(initialAuthState.postLoginPage ? "login" : "choose");
   const [currentPage, setCurrentPage] = useState(initialAuthState.currentPage);
 
+  // Return signed-out visitors to the page they asked for once they log in
+  useEffect(() => {
+    if (initialAuthState.postLoginPage) {
+      setPostLoginPage(initialAuthState.postLoginPage);
+    }
+  }, []);
+
+  // Keep the address bar in step with the current page so refresh, deep links and
+  // back/forward work. Signup and password reset keep their query-driven URLs.
+  const hasSyncedUrlRef = React.useRef(false);
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    let targetPath: string | undefined;
+    let alreadyThere: boolean;
+    if (publicRoute === "hidden") {
+      targetPath = pageToPath(currentPage);
+      alreadyThere = pathToPage(pathname) === currentPage;
+    } else {
+      targetPath =
+        publicRoute === "blog" && blogSlug
+          ? blogPostPath(blogSlug)
+          : (PUBLIC_ROUTE_PATHS as Record<string, string>)[publicRoute];
+      alreadyThere =
+        pathToPublicRoute(pathname) === publicRoute && pathToBlogSlug(pathname) === blogSlug;
+    }
+    if (!targetPath || alreadyThere) {
+      hasSyncedUrlRef.current = true;
+      return;
+    }
+    if (hasSyncedUrlRef.current) {
+      window.history.pushState(null, "", targetPath);
+    } else {
+      // First sync replaces the entry and keeps query params (e.g. checkout status) for the page
+      window.history.replaceState(null, "", targetPath + search + hash);
+      hasSyncedUrlRef.current = true;
+    }
+  }, [currentPage, publicRoute, blogSlug]);
+
+  // Browser back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const { pathname } = window.location;
+      const page = pathToPage(pathname);
+      const isSignedIn = !!(localStorage.getItem("userId") && localStorage.getItem("organizationId"));
+      if (isSignedIn) {
+        if (!page) {
+          window.history.replaceState(null, "", pageToPath("dashboard"));
+        }
+        setCurrentPage(page ?? "dashboard");
+      } else if (page) {
+        setPostLoginPage(page);
+        setAuthInitialMode("login");
+        setPublicRoute("auth");
+      } else {
+        setBlogSlug(pathToBlogSlug(pathname));
+        setPublicRoute(pathToPublicRoute(pathname) ?? "landing");
+      }
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
   // Get userId and organizationId from localStorage (set during authentication)
   const [userId, setUserId] = useState<string | null>(initialAuthState.userId);
   const [organizationId, setOrganizationId] = useState<string | null>(
@@ -246,6 +359,7 @@ const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [blogPosts, setBlogPosts] = useState<BlogPost[]>([]);
+  const [blogPostsLoaded, setBlogPostsLoaded] = useState(false);
 
   // Impersonation state - track original operator for access control
   const [originalOperator, setOriginalOperator] = useState<User | null>(null);
@@ -255,18 +369,29 @@ const App: React.FC = () => {
   });
   const [originalOperatorLoading, setOriginalOperatorLoading] = useState(false);
 
-  // Load published blog posts for public pages
+  // Load published blog posts for public pages; platform operators also need drafts and
+  // scheduled posts for ManageBlog (the org data hook skips blog posts for them)
+  const canManageBlog =
+    organizationId === "platform" || String(currentUser?.role) === Role.PLATFORM_OPERATOR;
   useEffect(() => {
+    if (canManageBlog) {
+      return subscribeToBlogPosts((posts) => {
+        setBlogPosts(posts);
+        setBlogPostsLoaded(true);
+      });
+    }
     const loadBlogPosts = async () => {
       try {
         const posts = await getBlogPosts(true); // Only published posts
         setBlogPosts(posts);
       } catch (error) {
         logger.error("Error loading blog posts", error);
+      } finally {
+        setBlogPostsLoaded(true);
       }
     };
     loadBlogPosts();
-  }, []);
+  }, [canManageBlog]);
 
   // Sync blog posts when data is loaded via organization hook
   useEffect(() => {
@@ -386,6 +511,7 @@ const App: React.FC = () => {
           localStorage.removeItem('originalOperatorId');
           localStorage.removeItem('originalOrganizationId');
           localStorage.removeItem('originalOperatorIdToken');
+          clearImpersonationSession();
 
           // Reload to reinitialize with original operator's context
           window.location.href = `${window.location.pathname}?${urlParams.toString()}`;
@@ -401,6 +527,7 @@ const App: React.FC = () => {
           localStorage.removeItem('originalOperatorId');
           localStorage.removeItem('originalOrganizationId');
           localStorage.removeItem('originalOperatorIdToken');
+          clearImpersonationSession();
         }
       }
 
@@ -650,6 +777,49 @@ const App: React.FC = () => {
     }
   }, [loadedUser?.id, loadedUser?.onboardingCompleted, getOnboardingComplete, setOnboardingComplete]);
 
+  // Org-enforced 2FA: once the grace period is over, Settings > Security is the only page until
+  // TOTP is set up (onboarding still comes first). Operators impersonating are never redirected.
+  const totpPolicyStatus = useMemo(
+    () =>
+      currentUser && !isImpersonating
+        ? getTotpPolicyStatus(organization?.securityPolicy, currentUser)
+        : "not_required",
+    [currentUser, isImpersonating, organization?.securityPolicy]
+  );
+  useEffect(() => {
+    const isOnboardingPage =
+      currentPage === "mentor-onboarding" ||
+      currentPage === "mentee-onboarding" ||
+      currentPage === "setup";
+    if (
+      totpPolicyStatus === "enforced" &&
+      publicRoute === "hidden" &&
+      !isOnboardingPage &&
+      currentPage !== "settings:security"
+    ) {
+      setCurrentPage("settings:security");
+    }
+  }, [totpPolicyStatus, publicRoute, currentPage]);
+
+  // One reminder per session while inside the grace period
+  const totpGraceReminderShown = useRef(false);
+  useEffect(() => {
+    if (
+      totpPolicyStatus !== "grace" ||
+      totpGraceReminderShown.current ||
+      !organization?.securityPolicy ||
+      !currentUser
+    ) {
+      return;
+    }
+    totpGraceReminderShown.current = true;
+    const daysLeft = getTotpGraceDaysLeft(organization.securityPolicy, currentUser);
+    addToast(
+      `Your organization requires two-factor authentication. Set it up in Settings > Security within ${daysLeft} ${daysLeft === 1 ? "day" : "days"}.`,
+      "info"
+    );
+  }, [totpPolicyStatus, organization?.securityPolicy, currentUser, addToast]);
+
   // Action hooks
   const { handleAddBlogPost, handleUpdateBlogPost, handleDeleteBlogPost } =
     useBlogActions(addToast);
@@ -771,6 +941,25 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUpdateInvitationExpiry = async (days: number) => {
+    if (!organizationId) throw new Error("Organization ID required");
+    try {
+      await updateOrganization(organizationId, { invitationExpiryDays: clampInvitationExpiryDays(days) });
+      await refreshData();
+      addToast("Invitation expiry updated", "success");
+    } catch (error) {
+      addToast(getErrorMessage(error) || "Failed to update invitation expiry", "error");
+      throw error;
+    }
+  };
+
+  const handleUpdateMatchingWeights = async (matchingWeights: MatchingWeights) => {
+    if (!organizationId) throw new Error("Organization ID required");
+    await updateOrganization(organizationId, { matchingWeights });
+    await refreshData();
+    addToast("Matching weights saved", "success");
+  };
+
   const handleUpdateUser = async (updatedUser: User) => {
     try {
       if (!updatedUser.id) throw new Error("User ID is required");
@@ -832,8 +1021,8 @@ const App: React.FC = () => {
             : "mentee-onboarding"
         );
       } else {
-        // Default to dashboard - useEffect will handle redirect based on onboarding status
-        setCurrentPage("dashboard");
+        // Page requested before login, else dashboard - useEffect will handle redirect based on onboarding status
+        setCurrentPage(consumePostLoginPage() ?? "dashboard");
       }
     }
   };
@@ -876,7 +1065,7 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCreateMatch = async (mentorId: string, menteeId: string) => {
+  const handleCreateMatch = async (mentorId: string, menteeId: string, durationWeeks?: number) => {
     try {
       if (!organizationId) throw new Error("Organization ID is required");
 
@@ -901,78 +1090,13 @@ const App: React.FC = () => {
         throw new Error("Selected user is not a mentee");
       }
 
-      const newMatch: Omit<Match, "id"> = {
-        organizationId,
-        mentorId,
-        menteeId,
-        status: MatchStatus.ACTIVE,
-        startDate: new Date().toISOString().split("T")[0],
-      };
-      await createMatch(newMatch);
-      addToast("Match created successfully", "success");
-
-      if (organizationId && mentor && mentee) {
-        // Create initial welcoming message in the chat
-        // For DMs, each user has their own chat view identified by the other user's ID
-        // - Mentee views chat with chatId = mentorId
-        // - Mentor views chat with chatId = menteeId
-        // We need to create the message in both chat views so both users can see it
-        const welcomeMessage = `Hi ${mentee.name}! 👋 I'm ${mentor.name}, ${mentor.title} at ${mentor.company}. ${mentor.skills && mentor.skills.length > 0 ? `I specialize in ${mentor.skills.slice(0, 3).join(", ")}.` : ""} I'm excited to be your mentor and help you on your journey! ${mentee.goals && mentee.goals.length > 0 ? `I see you're looking to grow in ${mentee.goals.slice(0, 2).join(" and ")}.` : ""} Let's get started!`;
-
-        // Create message in mentor's chat view (chatId = menteeId)
-        createChatMessage({
-          organizationId,
-          chatId: menteeId, // Mentor's view: chat with mentee
-          chatType: 'dm',
-          senderId: mentorId,
-          text: welcomeMessage,
-          type: 'text',
-          timestamp: new Date().toISOString(),
-        }).catch((err) =>
-          logger.error("Error creating initial chat message for mentor view", err)
-        );
-
-        // Create message in mentee's chat view (chatId = mentorId)
-        createChatMessage({
-          organizationId,
-          chatId: mentorId, // Mentee's view: chat with mentor
-          chatType: 'dm',
-          senderId: mentorId,
-          text: welcomeMessage,
-          type: 'text',
-          timestamp: new Date().toISOString(),
-        }).catch((err) =>
-          logger.error("Error creating initial chat message for mentee view", err)
-        );
-
-        // Create notification for mentee with mentor introduction and chat link
-        createNotification({
-          organizationId,
-          userId: menteeId,
-          type: "match",
-          title: "New Mentor Match",
-          body: `You've been matched with ${mentor.name}, ${mentor.title} at ${mentor.company}. ${mentor.skills && mentor.skills.length > 0 ? `Specializes in ${mentor.skills.slice(0, 3).join(", ")}.` : ""} Reach out to start your mentorship journey!`,
-          isRead: false,
-          timestamp: new Date().toISOString(),
-          chatId: mentorId, // Link to mentor's chat
-        }).catch((err) =>
-          logger.error("Error creating notification for mentee", err)
-        );
+      if (!currentUser) throw new Error("User must be logged in");
 
-        // Create notification for mentor with mentee introduction and chat link
-        createNotification({
-          organizationId,
-          userId: mentorId,
-          type: "match",
-          title: "New Mentee Match",
-          body: `You've been matched with ${mentee.name}, ${mentee.title} at ${mentee.company}. ${mentee.goals && mentee.goals.length > 0 ? `Looking to grow in: ${mentee.goals.slice(0, 3).join(", ")}.` : ""} Ready to guide them on their journey!`,
-          isRead: false,
-          timestamp: new Date().toISOString(),
-          chatId: menteeId, // Link to mentee's chat
-        }).catch((err) =>
-          logger.error("Error creating notification for mentor", err)
-        );
-      }
+      // Both sides accept or decline the proposal; onMatchUpdated welcomes them once it is ACTIVE
+      await createMatch(
+        createMatchProposal({ organizationId, mentorId, menteeId, durationWeeks, proposedBy: currentUser.id })
+      );
+      addToast("Match proposed. The mentor and mentee have been asked to accept it.", "success");
     } catch (error: unknown) {
       const errorMessage = getErrorMessage(error);
       const errorCode = getErrorCode(error);
@@ -1023,6 +1147,58 @@ const App: React.FC = () => {
     }
   };
 
+  // Applies a lifecycle transition from utils/matchLifecycle; emails and notifications come from onMatchUpdated
+  const handleMatchTransition = async (
+    match: Match,
+    getUpdates: () => Partial<Match>,
+    successMessage: string,
+    onSaved?: () => Promise<unknown>
+  ) => {
+    try {
+      await updateMatch(match.id, getUpdates());
+      addToast(successMessage, "success");
+    } catch (error: unknown) {
+      logger.error("Error updating match", error);
+      addToast(getErrorMessage(error) || "Failed to update match", "error");
+      return;
+    }
+    await onSaved?.().catch((err) => logger.error("Error after updating match", err));
+  };
+
+  const matchActions: MatchLifecycleActions | undefined = currentUser
+    ? {
+        onRespond: (match, decision, reason) =>
+          handleMatchTransition(
+            match,
+            () => respondToMatch(match, currentUser.id, decision, reason),
+            decision === "accepted" ? "Match accepted" : "Match declined"
+          ),
+        onPause: (match, reason) =>
+          handleMatchTransition(match, () => pauseMatch(match, currentUser.id, reason), "Match paused"),
+        onResume: (match) =>
+          handleMatchTransition(match, () => resumeMatch(match), "Match resumed"),
+        onClose: (match, reason) =>
+          handleMatchTransition(match, () => closeMatch(match, currentUser.id, reason), "Mentorship ended"),
+        onSubmitFeedback: (match, outcomeSummary, rating) =>
+          handleMatchTransition(
+            match,
+            () => submitClosureFeedback(match, currentUser.id, outcomeSummary, rating),
+            "Thanks for your feedback",
+            // The rating for the other side also goes through the usual admin approval
+            () =>
+              createRating({
+                organizationId: match.organizationId,
+                fromUserId: currentUser.id,
+                toUserId: match.mentorId === currentUser.id ? match.menteeId : match.mentorId,
+                score: rating,
+                comment: outcomeSummary.trim(),
+                isApproved: false,
+                date: new Date().toISOString().split("T")[0],
+              })
+          ),
+      }
+    : undefined;
+
   const handleAddEvent = async (
     event: Omit<CalendarEvent, "id" | "createdAt">
   ) => {
@@ -1093,28 +1269,30 @@ const App: React.FC = () => {
       const participants = event.participants || [];
       participants.forEach((participantId) => {
         if (participantId !== currentUser?.id) {
-          // Parse date string (YYYY-MM-DD) as local date to avoid timezone issues
-          // When parsing "2025-12-26", new Date() treats it as UTC midnight,
-          // which causes .toLocaleDateString() to return wrong day for timezones west of UTC
-          const dateParts = event.date.split("-");
-          const eventDate =
-            dateParts.length === 3
-              ? new Date(
-                parseInt(dateParts[0]),
-                parseInt(dateParts[1]) - 1,
-                parseInt(dateParts[2])
-              )
-              : new Date(event.date);
+          // Word the date and time on the recipient's wall clock, not the scheduler's
+          const recipientTimeZone = resolveTimeZone(
+            users.find((u) => u.id === participantId)?.timezone
+          );
+          const local = getEventLocalDateTime(event, recipientTimeZone);
+          const dateParts = local.date.split("-");
+          const eventDate = new Date(
+            parseInt(dateParts[0]),
+            parseInt(dateParts[1]) - 1,
+            parseInt(dateParts[2])
+          );
           createNotification({
             organizationId,
             userId: participantId,
             type: "meeting",
             title: "New Meeting Scheduled",
             body: `${currentUser?.name || "Someone"} scheduled "${event.title
-              }" on ${eventDate.toLocaleDateString()} at ${event.startTime
-              }`,
+              }" on ${eventDate.toLocaleDateString()} at ${formatEventTime(
+                event,
+                recipientTimeZone
+              )}`,
             isRead: false,
             timestamp: new Date().toISOString(),
+            eventId,
           }).catch((err) =>
             logger.error("Error creating meeting notification", err)
           );
@@ -1190,6 +1368,69 @@ const App: React.FC = () => {
     }
   };
 
+  // Writes the series/override changes for an edit or delete of one recurring occurrence
+  const applyRecurrenceEditPlan = async (
+    seriesId: string,
+    plan: RecurrenceEditPlan
+  ) => {
+    if (!organizationId) throw new Error("Organization ID is required");
+    if (plan.seriesUpdates) {
+      await updateCalendarEvent(seriesId, plan.seriesUpdates);
+    }
+    if (plan.newEvent) {
+      await createCalendarEvent({ ...plan.newEvent, organizationId });
+    }
+    if (plan.deleteSeries) {
+      // One-off overrides of the series' occurrences go with it
+      const overrides = calendarEvents.filter(
+        (e) => e.recurringEventId === seriesId
+      );
+      await Promise.all(overrides.map((e) => deleteCalendarEvent(e.id)));
+      await deleteCalendarEvent(seriesId);
+    }
+  };
+
+  const handleUpdateRecurringEvent = async (
+    seriesId: string,
+    occurrenceDate: string,
+    scope: RecurrenceEditScope,
+    updates: Partial<CalendarEvent>
+  ) => {
+    try {
+      const series = await getCalendarEvent(seriesId);
+      if (!series) throw new Error("This recurring event no longer exists");
+      await applyRecurrenceEditPlan(
+        seriesId,
+        planRecurringEdit(series, occurrenceDate, scope, updates)
+      );
+      addToast("Event updated successfully", "success");
+      await refreshData();
+    } catch (error: unknown) {
+      logger.error("Error updating recurring event", error);
+      addToast(getErrorMessage(error) || "Failed to update event", "error");
+    }
+  };
+
+  const handleDeleteRecurringEvent = async (
+    seriesId: string,
+    occurrenceDate: string,
+    scope: RecurrenceEditScope
+  ) => {
+    try {
+      const series = await getCalendarEvent(seriesId);
+      if (!series) throw new Error("This recurring event no longer exists");
+      await applyRecurrenceEditPlan(
+        seriesId,
+        planRecurringDelete(series, occurrenceDate, scope)
+      );
+      addToast("Event deleted successfully", "success");
+      await refreshData();
+    } catch (error: unknown) {
+      logger.error("Error deleting recurring event", error);
+      addToast(getErrorMessage(error) || "Failed to delete event", "error");
+    }
+  };
+
   const handleDeleteEvent = async (eventId: string) => {
     try {
       if (!organizationId) throw new Error("Organization ID is required");
@@ -1243,14 +1484,19 @@ const App: React.FC = () => {
       let invitationId: string;
       let createdInvitation: any;
 
-      // If an invitation ID is provided, reuse that invitation
-      if (inviteData.invitationId) {
-        invitationId = inviteData.invitationId;
-        createdInvitation = await getInvitation(invitationId);
-
-        if (!createdInvitation) {
-          throw new Error("Failed to retrieve existing invitation");
-        }
+      // If an invitation ID is provided, reuse that invitation while it's still pending;
+      // used, expired and revoked tokens are dead, so those get a fresh invitation below
+      const previousInvitation = inviteData.invitationId ? await getInvitation(inviteData.invitationId) : null;
+      if (inviteData.invitationId && !previousInvitation) {
+        throw new Error("Failed to retrieve existing invitation");
+      }
+      if (previousInvitation?.status === "Accepted") {
+        addToast("This invitation has already been accepted.", "error");
+        return;
+      }
+      if (previousInvitation?.status === "Pending") {
+        invitationId = previousInvitation.id;
+        createdInvitation = previousInvitation;
       } else {
         // Check if there's already an existing invitation for this email
         const existingInvitation = await getInvitationByEmail(
@@ -1272,6 +1518,7 @@ const App: React.FC = () => {
             status: "Pending",
             sentDate: new Date().toISOString().split("T")[0],
             inviterId: currentUser.id,
+            expiresAt: getInvitationExpiry(organization),
           });
 
           // Get the created invitation to retrieve the link
@@ -1283,12 +1530,7 @@ const App: React.FC = () => {
         }
       }
 
-      if (createdInvitation?.status === "Accepted") {
-        addToast("This invitation has already been accepted.", "error");
-        return;
-      }
-
-      if (createdInvitation && createdInvitation.invitationLink) {
+      if (createdInvitation &&createdInvitation.invitationLink) {
         // Send invitation email via Cloud Function (same URL rules as videoCallSession: Vite proxy in dev, or emulator when VITE_FUNCTIONS_USE_EMULATOR=true)
         try {
           const functionsUrl = getCloudFunctionUrl("sendInvitationEmail");
@@ -1392,7 +1634,11 @@ const App: React.FC = () => {
   }, [currentPage]);
 
   const renderContent = () => {
-    switch (currentPage) {
+    // Goal and event deep links ("my-goals:<goalId>", "calendar:<eventId>") render their section page
+    const separator = currentPage.indexOf(":");
+    const pageKey = separator === -1 ? currentPage : currentPage.slice(0, separator);
+    const pageParam = separator === -1 ? undefined : currentPage.slice(separator + 1);
+    switch (DEEP_LINKED_PAGES.has(pageKey) ? pageKey : currentPage) {
       case "setup":
         return <OrganizationSetup onComplete={handleSetupComplete} initialSettings={programSettings} organizationId={organizationId ?? null} />;
       case "mentor-onboarding":
@@ -1470,6 +1716,7 @@ const App: React.FC = () => {
                   }
                 }}
                 onNavigate={setCurrentPage}
+                matchActions={matchActions}
               />
             </ErrorBoundary>
           </Suspense>
@@ -1498,6 +1745,9 @@ const App: React.FC = () => {
                 users={users}
                 matches={matches}
                 onCreateMatch={handleCreateMatch}
+                organizationId={organizationId || undefined}
+                matchingWeights={organization?.matchingWeights}
+                onUpdateMatchingWeights={handleUpdateMatchingWeights}
               />
             </ErrorBoundary>
           </Suspense>
@@ -1514,6 +1764,7 @@ const App: React.FC = () => {
                 onAddGoal={handleAddGoal}
                 onUpdateGoal={handleUpdateGoal}
                 onDeleteGoal={handleDeleteGoal}
+                initialGoalId={pageParam}
               />
             </ErrorBoundary>
           </Suspense>
@@ -1617,9 +1868,12 @@ const App: React.FC = () => {
                 onAddEvent={handleAddEvent}
                 onUpdateEvent={handleUpdateEvent}
                 onDeleteEvent={handleDeleteEvent}
+                onUpdateRecurringEvent={handleUpdateRecurringEvent}
+                onDeleteRecurringEvent={handleDeleteRecurringEvent}
                 onNavigate={setCurrentPage}
                 users={users}
                 matches={matches}
+                initialEventId={pageParam}
               />
             </ErrorBoundary>
           </Suspense>
@@ -1652,7 +1906,10 @@ const App: React.FC = () => {
                 addToast={addToast}
                 organizationCode={organization?.organizationCode}
                 organizationId={organizationId || undefined}
+                organization={organization}
                 onUpdateOrganizationCode={handleUpdateOrganizationCode}
+                users={users}
+                onUpdateInvitationExpiry={handleUpdateInvitationExpiry}
               />
             </ErrorBoundary>
           </Suspense>
@@ -1674,6 +1931,39 @@ const App: React.FC = () => {
             </ErrorBoundary>
           </Suspense>
         );
+      case "moderation": {
+        // Org admins moderate their own organization; platform operators see every organization's reports.
+        // If impersonating, use the original operator's role for access control
+        const userForModerationCheck = isImpersonating ? originalOperator : currentUser;
+        if (!userForModerationCheck || !organizationId) {
+          return <div className="p-8 text-center">Access denied.</div>;
+        }
+        const moderationRoleStr = String(userForModerationCheck.role);
+        const canModerateAllOrgs = userForModerationCheck.role === Role.PLATFORM_OPERATOR ||
+          moderationRoleStr === "PLATFORM_OPERATOR";
+        const canModerateOrg = userForModerationCheck.role === Role.ADMIN ||
+          moderationRoleStr === "ADMIN" ||
+          moderationRoleStr === "ORGANIZATION_ADMIN";
+        if (!canModerateAllOrgs && !canModerateOrg) {
+          return <div className="p-8 text-center">Access denied.</div>;
+        }
+        return (
+          <Suspense
+            fallback={<LoadingSpinner message="Loading moderation queue..." />}
+          >
+            <ErrorBoundary title="Moderation Queue Error">
+              <ModerationQueue
+                currentUser={userForModerationCheck}
+                users={users}
+                organizationId={organizationId}
+                isPlatformOperator={canModerateAllOrgs}
+                onNavigate={setCurrentPage}
+                addToast={addToast}
+              />
+            </ErrorBoundary>
+          </Suspense>
+        );
+      }
       case "platform-operator-management":
         // Check platform admin access - handle both enum and string role representations
         // If impersonating, MUST use original operator's role for access control
@@ -1774,14 +2064,17 @@ const App: React.FC = () => {
                   initialTab={tab || "profile"}
                   organizationId={organizationId ?? undefined}
                   programSettings={programSettings}
+                  notificationDefaults={organization?.notificationDefaults}
+                  securityPolicy={organization?.securityPolicy}
                   matches={matches}
                   goals={goals}
                   ratings={ratings}
                   calendarEvents={calendarEvents}
                   users={users}
-                  onUpdateOrganization={(orgId, updates) =>
-                    updateOrganization(orgId, updates)
-                  }
+                  onUpdateOrganization={async (orgId, updates) => {
+                    await updateOrganization(orgId, updates);
+                    await refreshData();
+                  }}
                   onLogout={handleLogout}
                   onNavigate={(page) => setCurrentPage(page)}
                 />
@@ -1798,6 +2091,14 @@ const App: React.FC = () => {
   };
 
   const handlePublicNavigate = (page: string) => {
+    // "blog:<slug>" opens a single article
+    if (page.startsWith("blog:")) {
+      setBlogSlug(page.slice("blog:".length) || null);
+      setPublicRoute("blog");
+      window.scrollTo(0, 0);
+      return;
+    }
+    setBlogSlug(null);
     const validPublicRoutes = [
       "landing",
       "auth",
@@ -1927,6 +2228,8 @@ const App: React.FC = () => {
             setPublicRoute("auth");
           }}
           blogPosts={blogPosts.filter((p) => p.published)}
+          blogSlug={blogSlug}
+          blogPostsLoading={!blogPostsLoaded}
         />
       </CommonLayout>
     );
@@ -2022,6 +2325,31 @@ const App: React.FC = () => {
     );
   }
 
+  // Suspended by a moderator or deactivated by SCIM provisioning (platform operators
+  // impersonating such a user still get through)
+  if ((currentUser.suspended || currentUser.deactivated) && !isImpersonating) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-white dark:bg-slate-900">
+        <div className="text-center max-w-md mx-auto p-8">
+          <div className="text-red-600 dark:text-red-400 mb-4 text-lg font-semibold">
+            {currentUser.suspended ? "Account Suspended" : "Account Deactivated"}
+          </div>
+          <p className="text-slate-600 dark:text-slate-400 mb-6">
+            {currentUser.suspended
+              ? "Your account has been suspended by a moderator. Please contact your program administrator."
+              : "Your organization has deactivated your account. Please contact your program administrator."}
+          </p>
+          <button
+            onClick={handleLogout}
+            className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700"
+          >
+            Log Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (currentPage.startsWith("video-call:")) {
     const meetingId = currentPage.slice("video-call:".length);
     if (!meetingId.trim()) {
@@ -153,26 +153,57 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         userDoc = userSnapshot.empty ? null : userSnapshot.docs[0];
       }
 
-      if (userDoc) {
-        // Update existing user with Google ID if not set
-        const existingData = userDoc.data();
-        if (existingData && !existingData.googleId) {
-          await userDoc.ref.update({ googleId });
-          // Refresh the document snapshot to get updated data
-          const updatedDoc = await userDoc.ref.get();
-          userDoc = updatedDoc as FirebaseFirestore.QueryDocumentSnapshot;
+      // Use Firebase Auth UID as doc ID for new users when available so Firestore rules work (request.auth.uid == doc path)
+      const userRole = invitationRole === Role.MENTOR ? Role.MENTOR : Role.MENTEE;
+      const userRef = userDoc
+        ? userDoc.ref
+        : firebaseAuthUid
+          ? db.collection('users').doc(firebaseAuthUid)
+          : db.collection('users').doc();
+      const newUser = {
+        organizationId,
+        name,
+        email,
+        role: userRole,
+        avatar: picture || `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`,
+        title: '',
+        company: '',
+        skills: [],
+        bio: '',
+        googleId,
+        ...(firebaseAuthUid ? { firebaseAuthUid } : {}),
+        createdAt: Timestamp.now(),
+      };
+      const existingData = userDoc?.data();
+
+      // Claim the invitation and write the profile in one transaction; the token is single use
+      const claimed = await db.runTransaction(async (tx) => {
+        const current = await tx.get(invitationDoc.ref);
+        if (current.data()?.status !== 'Pending') return false;
+        tx.update(invitationDoc.ref, {
+          status: 'Accepted',
+          acceptedAt: new Date().toISOString(),
+          acceptedUserId: userRef.id,
+        });
+        if (!userDoc) {
+          tx.set(userRef, newUser);
+        } else if (existingData && !existingData.googleId) {
+          tx.update(userRef, { googleId });
         }
+        return true;
+      });
+      if (!claimed) {
+        return res.status(409).json({ error: 'This invitation has already been used' });
+      }
 
-        // Mark invitation as accepted
-        await invitationDoc.ref.update({ status: 'Accepted' });
-
-        const userData = userDoc.data();
+      if (userDoc) {
+        const userData = (await userRef.get()).data();
         if (!userData) {
           return res.status(500).json({ error: 'User document has no data' });
         }
         return res.json({
           user: {
-            id: userDoc.id,
+            id: userRef.id,
             organizationId: userData.organizationId,
             name: userData.name,
             email: userData.email,
@@ -188,52 +219,26 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           organizationId,
           token: 'mock-token',
         });
-      } else {
-        // Create new user with role from invitation
-        // Use Firebase Auth UID as doc ID when available so Firestore rules work (request.auth.uid == doc path)
-        const userRole = invitationRole === Role.MENTOR ? Role.MENTOR : Role.MENTEE;
-        const userRef = firebaseAuthUid 
-          ? db.collection('users').doc(firebaseAuthUid)
-          : db.collection('users').doc();
-        await userRef.set({
-          organizationId,
-          name,
-          email,
-          role: userRole,
-          avatar: picture || `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`,
-          title: '',
-          company: '',
-          skills: [],
-          bio: '',
-          googleId,
-          ...(firebaseAuthUid ? { firebaseAuthUid } : {}),
-          createdAt: Timestamp.now(),
-        });
-
-        // Mark invitation as accepted
-        await invitationDoc.ref.update({ status: 'Accepted' });
+      }
 
-        const userData = {
+      return res.json({
+        user: {
           id: userRef.id,
           organizationId,
           name,
           email,
           role: userRole,
-          avatar: picture || `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`,
+          avatar: newUser.avatar,
           title: '',
           company: '',
           skills: [],
           bio: '',
           googleId,
           createdAt: new Date().toISOString(),
-        };
-
-        return res.json({
-          user: userData,
-          organizationId,
-          token: 'mock-token',
-        });
-      }
+        },
+        organizationId,
+        token: 'mock-token',
+      });
     }
 
     // If creating new organization
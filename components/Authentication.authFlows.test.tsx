@@ -54,7 +54,8 @@ vi.mock("../services/database", () => ({
   getOrganizationByCode: vi.fn(),
   getInvitationByToken: vi.fn(),
   getInvitationByEmail: vi.fn(),
-  updateInvitation: vi.fn(),
+  markInvitationOpened: vi.fn(),
+  signUpWithInvitation: vi.fn(),
   getOrganization: vi.fn(),
 }));
 
@@ -68,6 +69,12 @@ vi.mock("../services/totpService", () => ({
   verifyTotpLogin: vi.fn(),
 }));
 
+vi.mock("../services/ssoService", () => ({
+  consumeSsoRedirect: vi.fn().mockReturnValue(null),
+  discoverSso: vi.fn().mockResolvedValue({ sso: false }),
+  startSso: vi.fn(),
+}));
+
 function emailInput() {
   return screen.getAllByPlaceholderText(/you@example.com/i)[0];
 }
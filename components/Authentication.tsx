@@ -12,7 +12,7 @@ import {
   EyeOff,
 } from "lucide-react";
 import { Logo } from "./Logo";
-import { signOut } from "firebase/auth";
+import { signInWithCustomToken, signInWithEmailAndPassword, signOut } from "firebase/auth";
 import { auth } from "../services/firebase";
 import { signInWithGoogle, initializeGoogleAuth } from "../services/googleAuth";
 import {
@@ -22,8 +22,10 @@ import {
   findUserByEmail,
   getInvitationByToken,
   getInvitationByEmail,
-  updateInvitation,
+  markInvitationOpened,
+  signUpWithInvitation,
   getOrganization,
+  getUser,
 } from "../services/database";
 import { resolveCanonicalFirestoreUserId } from "../utils/resolveCanonicalUserId";
 import { Role, User, Invitation, Organization } from "../types";
@@ -33,7 +35,8 @@ import {
   isEmailAlreadyInUseOnSignupError,
 } from "../services/firebaseAuth";
 import { logger } from "../services/logger";
-import { verifyTotpLogin } from "../services/totpService";
+import { checkTrustedDevice, verifyTotpLogin } from "../services/totpService";
+import { consumeSsoRedirect, discoverSso, startSso } from "../services/ssoService";
 
 // Helper function to convert hex to RGB
 const hexToRgb = (hex: string): { r: number; g: number; b: number } | null => {
@@ -95,6 +98,8 @@ const Authentication: React.FC<AuthenticationProps> = ({
   const [pendingTotpUser, setPendingTotpUser] = useState<{ user: User } | null>(null);
   const [totpCode, setTotpCode] = useState("");
   const [totpVerifying, setTotpVerifying] = useState(false);
+  const [totpUseBackupCode, setTotpUseBackupCode] = useState(false);
+  const [totpRememberDevice, setTotpRememberDevice] = useState(false);
 
   // Check for invitation token in URL on mount
   useEffect(() => {
@@ -109,6 +114,7 @@ const Authentication: React.FC<AuthenticationProps> = ({
         .then(async (inv) => {
           if (inv) {
             setInvitation(inv);
+            void markInvitationOpened(inv);
             // Load organization for branding
             const org = await getOrganization(inv.organizationId);
             if (org) {
@@ -182,6 +188,64 @@ const Authentication: React.FC<AuthenticationProps> = ({
     };
   }, []);
 
+  /** Last step of email and SSO login once Firebase Auth is signed in: the TOTP prompt, or the session. */
+  const completeLogin = async (user: User) => {
+    const sessionUserId = await resolveCanonicalFirestoreUserId(user);
+    if (user.totpEnabled) {
+      // A device trusted within the last 30 days skips the code step
+      const idToken = await auth.currentUser?.getIdToken();
+      const trusted = idToken
+        ? await checkTrustedDevice(idToken, sessionUserId).catch(() => false)
+        : false;
+      if (!trusted) {
+        setPendingTotpUser({ user });
+        setTotpCode("");
+        setTotpUseBackupCode(false);
+        setTotpRememberDevice(false);
+        setError(null);
+        setIsLoading(false);
+        return;
+      }
+    }
+
+    localStorage.setItem("authToken", "simulated-token");
+    localStorage.setItem("organizationId", user.organizationId);
+    localStorage.setItem("userId", sessionUserId);
+
+    onLogin(false, false);
+  };
+
+  // Back from the organization's identity provider (see services/ssoService.ts)
+  useEffect(() => {
+    const result = consumeSsoRedirect();
+    if (!result) return;
+    setMode("login");
+    if (!result.token) {
+      setError(result.error || "Single sign-on failed");
+      return;
+    }
+    const token = result.token;
+    setIsLoading(true);
+    (async () => {
+      try {
+        const credential = await signInWithCustomToken(auth, token);
+        let user = await getUser(credential.user.uid);
+        if (!user && credential.user.email) {
+          user = await findUserByEmail(credential.user.email);
+        }
+        if (!user) {
+          throw new Error("Your account could not be found. Please contact your administrator.");
+        }
+        await completeLogin(user);
+      } catch (err: unknown) {
+        logger.error("SSO login error", err);
+        setError(getErrorMessage(err) || "Single sign-on failed");
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -225,19 +289,7 @@ const Authentication: React.FC<AuthenticationProps> = ({
           },
         });
 
-        // Set trial period for new organization (14 days)
-        const trialEndDate = new Date();
-        trialEndDate.setDate(trialEndDate.getDate() + 14);
-        
-        // Update organization with trial information
-        const { updateOrganization } = await import("../services/database");
-        await updateOrganization(orgId, {
-          trialEnd: trialEndDate.toISOString(),
-          subscriptionStatus: "trialing",
-        }).catch((err) => {
-          logger.error("Failed to set trial period", err);
-          // Don't fail organization creation if trial setup fails
-        });
+        // The 14-day trial is started server-side by the onOrganizationCreated trigger
 
         if (!formData.password?.trim()) {
           throw new Error(
@@ -351,41 +403,48 @@ const Authentication: React.FC<AuthenticationProps> = ({
           );
         }
 
-        // Create User
-        const userData = {
-          name: formData.name,
-          email: formData.email,
-          role:
-            invitationToUse?.role ||
-            (participantRole === "MENTOR" ? Role.MENTOR : Role.MENTEE),
-          organizationId: org.id,
-          bio: "",
-          skills: [],
-          avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(
-            formData.name
-          )}&background=random`,
-          title: "",
-          company: org.name,
-        };
-        const userId = await createUser(userData);
-
-        const { createFirebaseAuthAccount } = await import("../services/firebaseAuth");
-        const authUid = await createFirebaseAuthAccount(
-          formData.email.trim(),
-          formData.password.trim(),
-          userId,
-          userData as Record<string, unknown>
-        );
-        if (!authUid) {
-          throw new Error(
-            "We could not finish creating your account. Please check your email isn’t already registered, then try again."
-          );
-        }
-        const sessionUserId = authUid;
-
-        // Mark invitation as accepted (only if using invitation)
+        let sessionUserId: string;
         if (invitationToUse) {
-          await updateInvitation(invitationToUse.id, { status: "Accepted" });
+          // The server claims the invitation before it creates the account and profile, so a
+          // token that was already used (or revoked) never leaves a profile behind
+          const { uid } = await signUpWithInvitation({
+            token: invitationToUse.token,
+            name: formData.name,
+            email: formData.email.trim(),
+            password: formData.password.trim(),
+          });
+          await signInWithEmailAndPassword(auth, formData.email.trim(), formData.password.trim());
+          sessionUserId = uid;
+        } else {
+          // Create User
+          const userData = {
+            name: formData.name,
+            email: formData.email,
+            role: participantRole === "MENTOR" ? Role.MENTOR : Role.MENTEE,
+            organizationId: org.id,
+            bio: "",
+            skills: [],
+            avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(
+              formData.name
+            )}&background=random`,
+            title: "",
+            company: org.name,
+          };
+          const userId = await createUser(userData);
+
+          const { createFirebaseAuthAccount } = await import("../services/firebaseAuth");
+          const authUid = await createFirebaseAuthAccount(
+            formData.email.trim(),
+            formData.password.trim(),
+            userId,
+            userData as Record<string, unknown>
+          );
+          if (!authUid) {
+            throw new Error(
+              "We could not finish creating your account. Please check your email isn’t already registered, then try again."
+            );
+          }
+          sessionUserId = authUid;
         }
 
         localStorage.setItem("authToken", "simulated-token");
@@ -394,6 +453,13 @@ const Authentication: React.FC<AuthenticationProps> = ({
 
         onLogin(false, true, participantRole);
       } else {
+        // Organizations with SSO sign their domain in through their own identity provider
+        const sso = await discoverSso(formData.email);
+        if (sso.sso && sso.organizationId) {
+          startSso(sso.organizationId, formData.email);
+          return;
+        }
+
         // Login — scope by org code when provided to avoid matching the wrong org for duplicate emails
         let user: User | null = null;
         if (formData.orgCode?.trim()) {
@@ -455,20 +521,7 @@ const Authentication: React.FC<AuthenticationProps> = ({
           }
         }
 
-        if (user.totpEnabled) {
-          setPendingTotpUser({ user });
-          setTotpCode("");
-          setError(null);
-          setIsLoading(false);
-          return;
-        }
-
-        localStorage.setItem("authToken", "simulated-token");
-        localStorage.setItem("organizationId", user.organizationId);
-        const sessionUserId = await resolveCanonicalFirestoreUserId(user);
-        localStorage.setItem("userId", sessionUserId);
-
-        onLogin(false, false);
+        await completeLogin(user);
       }
     } catch (err: unknown) {
       logger.error("Authentication error", err);
@@ -719,11 +772,7 @@ const Authentication: React.FC<AuthenticationProps> = ({
           }
         }
 
-        // Mark invitation as accepted (only if using invitation)
-        if (invitationToUse) {
-          await updateInvitation(invitationToUse.id, { status: "Accepted" });
-        }
-
+        // authGoogle has already marked the invitation accepted
         const userForSession = {
           ...joinedUser,
           firebaseAuthUid: firebaseAuthUid ?? joinedUser.firebaseAuthUid,
@@ -813,19 +862,7 @@ const Authentication: React.FC<AuthenticationProps> = ({
           },
         });
 
-        // Set trial period for new organization (14 days)
-        const trialEndDate = new Date();
-        trialEndDate.setDate(trialEndDate.getDate() + 14);
-        
-        // Update organization with trial information
-        const { updateOrganization } = await import("../services/database");
-        await updateOrganization(orgId, {
-          trialEnd: trialEndDate.toISOString(),
-          subscriptionStatus: "trialing",
-        }).catch((err) => {
-          logger.error("Failed to set trial period", err);
-          // Don't fail organization creation if trial setup fails
-        });
+        // The 14-day trial is started server-side by the onOrganizationCreated trigger
 
         if (!formData.password?.trim()) {
           throw new Error(
@@ -1118,27 +1155,65 @@ const Authentication: React.FC<AuthenticationProps> = ({
               )}
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">
-                  Verification code
+                  {totpUseBackupCode ? "Backup code" : "Verification code"}
                 </label>
-                <input
-                  type="text"
-                  inputMode="numeric"
-                  pattern="[0-9]*"
-                  maxLength={6}
-                  placeholder="000000"
-                  className={INPUT_CLASS + " w-full text-center text-lg tracking-widest"}
-                  value={totpCode}
-                  onChange={(e) => {
-                    setTotpCode(e.target.value.replace(/\D/g, ""));
+                {totpUseBackupCode ? (
+                  <input
+                    type="text"
+                    autoComplete="off"
+                    maxLength={9}
+                    placeholder="xxxx-xxxx"
+                    className={INPUT_CLASS + " w-full text-center text-lg tracking-widest font-mono"}
+                    value={totpCode}
+                    onChange={(e) => {
+                      setTotpCode(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ""));
+                      setError(null);
+                    }}
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    maxLength={6}
+                    placeholder="000000"
+                    className={INPUT_CLASS + " w-full text-center text-lg tracking-widest"}
+                    value={totpCode}
+                    onChange={(e) => {
+                      setTotpCode(e.target.value.replace(/\D/g, ""));
+                      setError(null);
+                    }}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setTotpUseBackupCode(!totpUseBackupCode);
+                    setTotpCode("");
                     setError(null);
                   }}
-                />
+                  className="mt-2 text-sm text-emerald-600 hover:text-emerald-700 font-medium"
+                >
+                  {totpUseBackupCode ? "Use authenticator app instead" : "Lost your phone? Use a backup code"}
+                </button>
               </div>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={totpRememberDevice}
+                  onChange={(e) => setTotpRememberDevice(e.target.checked)}
+                  className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+                />
+                Trust this device for 30 days
+              </label>
               <div className="flex gap-3">
                 <button
                   onClick={async () => {
-                    if (totpCode.length !== 6) {
-                      setError("Please enter a 6-digit code");
+                    const codeReady = totpUseBackupCode
+                      ? totpCode.replace(/-/g, "").length === 8
+                      : totpCode.length === 6;
+                    if (!codeReady) {
+                      setError(totpUseBackupCode ? "Please enter an 8-character backup code" : "Please enter a 6-digit code");
                       return;
                     }
                     setTotpVerifying(true);
@@ -1146,10 +1221,13 @@ const Authentication: React.FC<AuthenticationProps> = ({
                     try {
                       const idToken = await auth.currentUser?.getIdToken();
                       if (!idToken) throw new Error("Session expired. Please sign in again.");
-                      await verifyTotpLogin(totpCode, idToken);
                       const totpSessionId = await resolveCanonicalFirestoreUserId(
                         pendingTotpUser.user
                       );
+                      await verifyTotpLogin(totpCode, idToken, {
+                        userId: totpSessionId,
+                        rememberDevice: totpRememberDevice,
+                      });
                       localStorage.setItem("authToken", "simulated-token");
                       localStorage.setItem("organizationId", pendingTotpUser.user.organizationId);
                       localStorage.setItem("userId", totpSessionId);
@@ -1162,7 +1240,10 @@ const Authentication: React.FC<AuthenticationProps> = ({
                       setTotpVerifying(false);
                     }
                   }}
-                  disabled={totpVerifying || totpCode.length !== 6}
+                  disabled={
+                    totpVerifying ||
+                    (totpUseBackupCode ? totpCode.replace(/-/g, "").length !== 8 : totpCode.length !== 6)
+                  }
                   className={BUTTON_PRIMARY + " flex-1 py-2.5 disabled:opacity-50"}
                 >
                   {totpVerifying ? "Verifying..." : "Verify"}
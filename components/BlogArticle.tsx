@@ -0,0 +1,117 @@
+import React, { useEffect } from "react";
+import { ArrowLeft, Calendar, Clock, Tag } from "lucide-react";
+import { BlogPost } from "../types";
+import { sanitizeHtml } from "../utils/sanitizeHtml";
+import { getReadTimeFromContent } from "../utils/resourceUtils";
+import { getBlogPostDate } from "../utils/blogPosts";
+
+interface BlogArticleProps {
+  post: BlogPost | undefined;
+  onBack: () => void;
+}
+
+const BlogArticle: React.FC<BlogArticleProps> = ({ post, onBack }) => {
+  // Tab title and description for readers and crawlers that run JS; link previews come from
+  // the blogArticlePage function, which injects Open Graph tags before the app loads
+  useEffect(() => {
+    if (!post) return;
+    const previousTitle = document.title;
+    const description = document.querySelector<HTMLMetaElement>('meta[name="description"]');
+    const previousDescription = description?.content;
+    document.title = `${post.title} | Meant2Grow`;
+    if (description && post.excerpt) description.content = post.excerpt;
+    return () => {
+      document.title = previousTitle;
+      if (description && previousDescription !== undefined) description.content = previousDescription;
+    };
+  }, [post]);
+
+  const backLink = (
+    <button
+      type="button"
+      onClick={onBack}
+      className="inline-flex items-center text-sm font-medium text-emerald-600 hover:text-emerald-700 transition-colors"
+    >
+      <ArrowLeft className="w-4 h-4 mr-2" /> All articles
+    </button>
+  );
+
+  if (!post) {
+    return (
+      <div className="max-w-3xl mx-auto px-6 py-24 text-center animate-in fade-in">
+        <h1 className="text-3xl font-bold text-slate-900 mb-4">Article not found</h1>
+        <p className="text-slate-600 mb-8">
+          This article may have been moved or is not published yet.
+        </p>
+        {backLink}
+      </div>
+    );
+  }
+
+  // Posts written before article bodies existed only have an excerpt
+  const body = post.content?.trim() ? post.content : `<p>${post.excerpt}</p>`;
+  const publishedOn = new Date(getBlogPostDate(post)).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  return (
+    <article className="max-w-3xl mx-auto px-6 py-12 animate-in fade-in">
+      <div className="mb-8">{backLink}</div>
+
+      <span className="text-emerald-600 font-bold tracking-wider text-sm uppercase mb-3 block">
+        {post.category}
+      </span>
+      <h1 className="text-4xl md:text-5xl font-bold text-slate-900 mb-6 leading-tight">{post.title}</h1>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3 text-sm text-slate-500 mb-8">
+        {post.authorName && (
+          <div className="flex items-center gap-3">
+            {post.authorAvatar ? (
+              <img src={post.authorAvatar} alt="" className="w-10 h-10 rounded-full object-cover" />
+            ) : (
+              <div className="w-10 h-10 rounded-full bg-emerald-100 text-emerald-700 flex items-center justify-center font-bold">
+                {post.authorName.charAt(0).toUpperCase()}
+              </div>
+            )}
+            <div>
+              <p className="font-semibold text-slate-900">{post.authorName}</p>
+              {post.authorTitle && <p className="text-xs text-slate-500">{post.authorTitle}</p>}
+            </div>
+          </div>
+        )}
+        <span className="flex items-center">
+          <Calendar className="w-4 h-4 mr-1.5" /> {publishedOn}
+        </span>
+        <span className="flex items-center">
+          <Clock className="w-4 h-4 mr-1.5" /> {getReadTimeFromContent(body)}
+        </span>
+      </div>
+
+      {post.imageUrl && (
+        <div className="rounded-2xl overflow-hidden mb-10 aspect-[16/9] bg-slate-200">
+          <img src={post.imageUrl} alt={post.title} className="w-full h-full object-cover" />
+        </div>
+      )}
+
+      <div
+        className="prose prose-slate prose-lg max-w-none text-slate-700"
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(body) }}
+      />
+
+      {post.tags && post.tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-10 pt-6 border-t border-slate-200">
+          <Tag className="w-4 h-4 text-slate-400" />
+          {post.tags.map((tag) => (
+            <span key={tag} className="text-xs px-3 py-1 bg-slate-100 text-slate-600 rounded-full">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+};
+
+export default BlogArticle;
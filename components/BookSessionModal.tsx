@@ -0,0 +1,380 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { X, Clock, CheckCircle, Video } from "lucide-react";
+import {
+  CalendarBusyTimes,
+  CalendarEvent,
+  Match,
+  MatchStatus,
+  User,
+} from "../types";
+import { INPUT_CLASS, BUTTON_PRIMARY } from "../styles/common";
+import {
+  bookMentorSession,
+  getBusyTimes,
+  updateCalendarEvent,
+} from "../services/database";
+import {
+  BOOKING_HORIZON_DAYS,
+  BOOKING_NOTICE_HOURS,
+  BookableSlot,
+  getAvailableSlots,
+  getSessionStarts,
+  getUserEventRanges,
+  toTimeRanges,
+} from "../utils/availability";
+import {
+  getTimeZoneAbbreviation,
+  resolveTimeZone,
+  utcToZonedDateTime,
+} from "../utils/timeZones";
+import { getErrorMessage } from "../utils/errors";
+import { logger } from "../services/logger";
+
+interface BookSessionModalProps {
+  currentUser: User;
+  users: User[];
+  matches: Match[];
+  events: CalendarEvent[];
+  onClose: () => void;
+  onBooked?: (event: CalendarEvent) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Mentee view of their mentors' open availability slots; booking goes through bookMentorSession. */
+const BookSessionModal: React.FC<BookSessionModalProps> = ({
+  currentUser,
+  users,
+  matches,
+  events,
+  onClose,
+  onBooked,
+}) => {
+  const viewerTimeZone = resolveTimeZone(currentUser.timezone);
+  const mentors = useMemo(
+    () =>
+      matches
+        .filter((m) => m.menteeId === currentUser.id && m.status === MatchStatus.ACTIVE)
+        .map((m) => users.find((u) => u.id === m.mentorId))
+        .filter((u): u is User => !!u),
+    [matches, users, currentUser.id],
+  );
+  const [mentorId, setMentorId] = useState(mentors[0]?.id || "");
+  const [busyTimes, setBusyTimes] = useState<CalendarBusyTimes | null>(null);
+  const [loadingBusyTimes, setLoadingBusyTimes] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<BookableSlot | null>(null);
+  const [title, setTitle] = useState("");
+  const [notes, setNotes] = useState("");
+  const [booking, setBooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bookedEvent, setBookedEvent] = useState<CalendarEvent | null>(null);
+
+  const mentor = mentors.find((m) => m.id === mentorId);
+
+  useEffect(() => {
+    if (!mentorId) return;
+    let cancelled = false;
+    setLoadingBusyTimes(true);
+    setSelectedSlot(null);
+    getBusyTimes(mentorId)
+      .then((result) => {
+        if (!cancelled) setBusyTimes(result);
+      })
+      .catch((err) => {
+        logger.error("Error loading mentor busy times", err);
+        if (!cancelled) setBusyTimes(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingBusyTimes(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mentorId]);
+
+  const slots = useMemo(() => {
+    if (!mentor?.availability) return [];
+    const now = Date.now();
+    const from = new Date(now + BOOKING_NOTICE_HOURS * 60 * 60 * 1000);
+    const to = new Date(now + BOOKING_HORIZON_DAYS * DAY_MS);
+    return getAvailableSlots({
+      availability: mentor.availability,
+      busy: [
+        ...getUserEventRanges(events, mentor.id, from, to),
+        ...toTimeRanges(busyTimes?.intervals || []),
+      ],
+      // Count sessions in the whole first and last week, not just the bookable range
+      sessionStarts: getSessionStarts(
+        events,
+        mentor.id,
+        new Date(from.getTime() - 7 * DAY_MS),
+        new Date(to.getTime() + 7 * DAY_MS),
+      ),
+      from,
+      to,
+    });
+  }, [mentor, events, busyTimes]);
+
+  const slotsByDate = useMemo(() => {
+    const groups = new Map<string, BookableSlot[]>();
+    for (const slot of slots) {
+      const { date } = utcToZonedDateTime(new Date(slot.startsAt), viewerTimeZone);
+      groups.set(date, [...(groups.get(date) || []), slot]);
+    }
+    return Array.from(groups.entries());
+  }, [slots, viewerTimeZone]);
+
+  const formatSlotTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString("en-US", {
+      timeZone: viewerTimeZone,
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const formatDateHeading = (date: string) =>
+    new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+      timeZone: "UTC",
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+    });
+
+  const handleBook = async () => {
+    if (!mentor || !selectedSlot) return;
+    setBooking(true);
+    setError(null);
+    try {
+      const event = await bookMentorSession({
+        mentorId: mentor.id,
+        menteeId: currentUser.id,
+        startsAt: selectedSlot.startsAt,
+        title: title.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      setBookedEvent(event);
+      onBooked?.(event);
+
+      // Add it to the mentee's own connected calendars; the booking stands even if this fails
+      try {
+        const { createEventInAllCalendars } = await import(
+          "../services/unifiedCalendarService"
+        );
+        const calendarEventIds = await createEventInAllCalendars(
+          event,
+          currentUser.id,
+          event.googleMeetLink,
+        );
+        const updates: Partial<CalendarEvent> = {};
+        if (calendarEventIds.google) {
+          updates.googleCalendarEventId = calendarEventIds.google;
+          updates.syncedToGoogle = true;
+        }
+        if (calendarEventIds.outlook) {
+          updates.outlookCalendarEventId = calendarEventIds.outlook;
+          updates.syncedToOutlook = true;
+        }
+        if (calendarEventIds.apple) {
+          updates.appleCalendarEventId = calendarEventIds.apple;
+          updates.syncedToApple = true;
+        }
+        if (Object.keys(updates).length > 0) {
+          await updateCalendarEvent(event.id, updates);
+        }
+      } catch (syncError) {
+        logger.error("Failed to sync booked session to calendars", syncError);
+      }
+    } catch (err: unknown) {
+      logger.error("Error booking session", err);
+      setError(getErrorMessage(err) || "Failed to book session");
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="book-session-title"
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in p-0 sm:p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !booking) onClose();
+      }}
+    >
+      <div className="bg-white dark:bg-slate-900 rounded-none sm:rounded-xl shadow-2xl max-w-lg w-full h-full sm:h-auto sm:max-h-[90vh] flex flex-col border-0 sm:border border-slate-200 dark:border-slate-800">
+        <div className="flex justify-between items-center p-4 sm:p-5 border-b border-slate-200 dark:border-slate-800">
+          <h2
+            id="book-session-title"
+            className="text-lg font-bold text-slate-900 dark:text-white"
+          >
+            Book a Session
+          </h2>
+          <button
+            onClick={onClose}
+            disabled={booking}
+            aria-label="Close"
+            className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-lg min-h-[44px] min-w-[44px] flex items-center justify-center"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {bookedEvent ? (
+          <div className="p-6 text-center space-y-3">
+            <CheckCircle className="w-12 h-12 text-emerald-500 mx-auto" />
+            <p className="font-semibold text-slate-900 dark:text-white">
+              Session booked with {mentor?.name}
+            </p>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {new Date(bookedEvent.startsAt || "").toLocaleString("en-US", {
+                timeZone: viewerTimeZone,
+                weekday: "long",
+                month: "short",
+                day: "numeric",
+                hour: "numeric",
+                minute: "2-digit",
+                timeZoneName: "short",
+              })}
+            </p>
+            {bookedEvent.googleMeetLink && (
+              <a
+                href={bookedEvent.googleMeetLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center text-sm text-emerald-600 dark:text-emerald-400 hover:underline"
+              >
+                <Video className="w-4 h-4 mr-1" />
+                Video link
+              </a>
+            )}
+            <button onClick={onClose} className={BUTTON_PRIMARY + " w-full mt-2"}>
+              Done
+            </button>
+          </div>
+        ) : mentors.length === 0 ? (
+          <p className="p-6 text-sm text-slate-500 dark:text-slate-400">
+            You can book sessions once you have an active match with a mentor.
+          </p>
+        ) : (
+          <div className="p-4 sm:p-5 space-y-4 overflow-y-auto flex-1">
+            {mentors.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                  Mentor
+                </label>
+                <select
+                  value={mentorId}
+                  onChange={(e) => setMentorId(e.target.value)}
+                  className={INPUT_CLASS}
+                >
+                  {mentors.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {!mentor?.availability?.windows.length ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                {mentor?.name} hasn't published availability yet. Send them a message
+                to find a time.
+              </p>
+            ) : loadingBusyTimes ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                Loading availability...
+              </p>
+            ) : slotsByDate.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">
+                No open slots in the next {BOOKING_HORIZON_DAYS} days.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center">
+                  <Clock className="w-3.5 h-3.5 mr-1" />
+                  {mentor.availability.sessionMinutes}-minute sessions, shown in{" "}
+                  {getTimeZoneAbbreviation(new Date(), viewerTimeZone)}
+                </p>
+                {slotsByDate.map(([date, daySlots]) => (
+                  <div key={date}>
+                    <p className="text-sm font-semibold text-slate-800 dark:text-slate-200 mb-1.5">
+                      {formatDateHeading(date)}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {daySlots.map((slot) => (
+                        <button
+                          key={slot.startsAt}
+                          onClick={() => setSelectedSlot(slot)}
+                          aria-pressed={selectedSlot?.startsAt === slot.startsAt}
+                          className={`px-3 py-1.5 text-sm rounded-lg border min-h-[36px] ${
+                            selectedSlot?.startsAt === slot.startsAt
+                              ? "bg-emerald-600 border-emerald-600 text-white"
+                              : "border-slate-300 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+                          }`}
+                        >
+                          {formatSlotTime(slot.startsAt)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {selectedSlot && (
+              <div className="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-800">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    Title (optional)
+                  </label>
+                  <input
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder={`Mentorship Session: ${currentUser.name} & ${mentor?.name}`}
+                    maxLength={120}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    What would you like to discuss? (optional)
+                  </label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+              </div>
+            )}
+
+            {error && (
+              <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            )}
+
+            <button
+              onClick={handleBook}
+              disabled={!selectedSlot || booking}
+              className={
+                BUTTON_PRIMARY +
+                " w-full disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+              }
+            >
+              {booking
+                ? "Booking..."
+                : selectedSlot
+                  ? `Book ${formatSlotTime(selectedSlot.startsAt)}`
+                  : "Choose a time"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookSessionModal;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from "react";
-import { CalendarEvent, User, Match, MatchStatus } from "../types";
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { CalendarEvent, User, Match, MatchStatus, RecurrenceRule } from "../types";
 import { INPUT_CLASS, BUTTON_PRIMARY } from "../styles/common";
 import {
   Settings,
@@ -13,6 +13,8 @@ import {
   Trash2,
   CalendarX,
   CalendarClock,
+  Repeat,
+  CalendarCheck,
 } from "lucide-react";
 import {
   getCalendarCredentials,
@@ -22,22 +24,54 @@ import {
   createCalendarEvent,
   createNotification,
   createChatMessage,
+  saveBusyTimes,
 } from "../services/database";
 import {
   generateGoogleCalendarLink,
 } from "../services/calendarDeepLinks";
 import { getErrorMessage } from "../utils/errors";
+import {
+  formatEventTime,
+  getEventLocalDateTime,
+  getEventStart,
+  getTimeZoneAbbreviation,
+  resolveTimeZone,
+  toEventTiming,
+  utcToZonedDateTime,
+  zonedDateTimeToUtc,
+} from "../utils/timeZones";
+import {
+  describeRecurrence,
+  expandCalendarEvents,
+  RecurrenceEditScope,
+} from "../utils/recurrence";
+import { toBusyIntervals } from "../utils/availability";
+import BookSessionModal from "./BookSessionModal";
 import { logger } from "../services/logger";
 
+type RepeatOption = "none" | "DAILY" | "WEEKLY" | "BIWEEKLY" | "MONTHLY";
+
 interface CalendarViewProps {
   events: CalendarEvent[];
   currentUser: User;
   onAddEvent: (e: Omit<CalendarEvent, "id" | "createdAt">) => void;
   onUpdateEvent?: (eventId: string, updates: Partial<CalendarEvent>) => void;
   onDeleteEvent?: (eventId: string) => void;
+  onUpdateRecurringEvent?: (
+    seriesId: string,
+    occurrenceDate: string,
+    scope: RecurrenceEditScope,
+    updates: Partial<CalendarEvent>,
+  ) => Promise<void>;
+  onDeleteRecurringEvent?: (
+    seriesId: string,
+    occurrenceDate: string,
+    scope: RecurrenceEditScope,
+  ) => Promise<void>;
   onNavigate: (page: string, tab?: string) => void;
   users: User[];
   matches: Match[];
+  initialEventId?: string; // Deep link (/calendar/<eventId>): open this event's details
 }
 
 const CalendarView: React.FC<CalendarViewProps> = ({
@@ -46,11 +80,15 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   onAddEvent,
   onUpdateEvent,
   onDeleteEvent,
+  onUpdateRecurringEvent,
+  onDeleteRecurringEvent,
   onNavigate,
   users,
   matches,
+  initialEventId,
 }) => {
   const [isAddEventOpen, setIsAddEventOpen] = useState(false);
+  const [isBookingOpen, setIsBookingOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
   const [newEvent, setNewEvent] = useState({
     title: "",
@@ -60,6 +98,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     type: "Virtual",
     participants: [] as string[],
     notes: "",
+    repeat: "none" as RepeatOption,
+    repeatEnd: "count" as "count" | "until",
+    repeatCount: 8,
+    repeatUntil: "",
   });
   const [showSuccess, setShowSuccess] = useState(false);
   const [showParticipantDropdown, setShowParticipantDropdown] = useState(false);
@@ -72,6 +114,57 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   const [requestSent, setRequestSent] = useState<
     "cancel" | "reschedule" | null
   >(null);
+  // Events are entered and shown on the viewer's own wall clock
+  const viewerTimeZone = resolveTimeZone(currentUser.timezone);
+  // Editing or deleting one occurrence of a series waits here until the user picks a scope
+  const [pendingRecurringAction, setPendingRecurringAction] = useState<
+    { kind: "update"; updates: Partial<CalendarEvent> } | { kind: "delete" } | null
+  >(null);
+  const [recurringScope, setRecurringScope] =
+    useState<RecurrenceEditScope>("this");
+
+  // Series are stored once; expand their occurrences around the visible month
+  const expandedEvents = useMemo(
+    () =>
+      expandCalendarEvents(
+        events,
+        new Date(currentYear, currentMonth - 1, 1),
+        new Date(currentYear, currentMonth + 2, 1),
+      ),
+    [events, currentMonth, currentYear],
+  );
+
+  // Deep link: once the event has loaded, show its month and open its details (a series opens
+  // at its next occurrence)
+  const openedEventIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!initialEventId || openedEventIdRef.current === initialEventId) return;
+    const event = events.find((e) => e.id === initialEventId);
+    if (!event) return;
+    const now = new Date();
+    const target =
+      expandCalendarEvents([event], now, new Date(now.getFullYear() + 1, now.getMonth(), 1))[0] ?? event;
+    const [year, month] = getEventLocalDateTime(target, viewerTimeZone).date.split("-").map(Number);
+    setCurrentYear(year);
+    setCurrentMonth(month - 1);
+    setViewingEvent(target);
+    setRequestSent(null);
+    openedEventIdRef.current = initialEventId;
+  }, [initialEventId, events, viewerTimeZone]);
+
+  const buildRecurrence = (): RecurrenceRule | undefined => {
+    if (newEvent.repeat === "none") return undefined;
+    const rule: RecurrenceRule =
+      newEvent.repeat === "BIWEEKLY"
+        ? { frequency: "WEEKLY", interval: 2 }
+        : { frequency: newEvent.repeat };
+    if (newEvent.repeatEnd === "until" && newEvent.repeatUntil) {
+      rule.until = newEvent.repeatUntil;
+    } else {
+      rule.count = Math.max(1, newEvent.repeatCount || 1);
+    }
+    return rule;
+  };
 
   useEffect(() => {
     // Check if any calendar is connected
@@ -92,11 +185,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       participants.push(currentUser.id);
     }
 
+    const recurrence = buildRecurrence();
     const event: Omit<CalendarEvent, "id" | "createdAt"> = {
       organizationId: currentUser.organizationId,
       title: newEvent.title,
-      date: newEvent.date,
-      startTime: newEvent.time,
+      ...toEventTiming(newEvent.date, newEvent.time, viewerTimeZone),
       duration: newEvent.duration,
       type: newEvent.type,
       createdBy: currentUser.id, // Track who created/scheduled the event
@@ -104,6 +197,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       ...(currentUser.role === "MENTEE" && { menteeId: currentUser.id }),
       participants, // Always include participants array with creator
       ...(newEvent.notes?.trim() && { notes: newEvent.notes.trim() }),
+      ...(recurrence && { recurrence }),
     };
 
     // Create event in Firestore first
@@ -120,6 +214,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       type: "Virtual",
       participants: [],
       notes: "",
+      repeat: "none",
+      repeatEnd: "count",
+      repeatCount: 8,
+      repeatUntil: "",
     });
     setShowSuccess(true);
     setTimeout(() => setShowSuccess(false), 3000);
@@ -165,6 +263,15 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         }
       }
 
+      // Mentees booking this mentor's availability need to see when their other calendars are busy
+      if (currentUser.role === "MENTOR") {
+        await saveBusyTimes(
+          currentUser.id,
+          currentUser.organizationId,
+          toBusyIntervals(syncedEvents),
+        );
+      }
+
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 3000);
     } catch (error: unknown) {
@@ -185,7 +292,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
   };
 
   // Filter events to only show those where current user is creator or participant
-  const visibleEvents = events.filter((ev) => {
+  const visibleEvents = expandedEvents.filter((ev) => {
     // User is the creator (createdBy, mentorId, or menteeId matches)
     if (
       ev.createdBy === currentUser.id ||
@@ -232,14 +339,24 @@ const CalendarView: React.FC<CalendarViewProps> = ({
 
   const handleEditEvent = (event: CalendarEvent) => {
     setEditingEvent(event);
+    const local = getEventLocalDateTime(event, viewerTimeZone);
     setNewEvent({
       title: event.title,
-      date: event.date,
-      time: event.startTime,
+      date: local.date,
+      time: local.time,
       duration: event.duration,
       type: event.type,
       participants: event.participants || [],
       notes: event.notes || "",
+      repeat: !event.recurrence
+        ? "none"
+        : event.recurrence.frequency === "WEEKLY" &&
+            event.recurrence.interval === 2
+          ? "BIWEEKLY"
+          : event.recurrence.frequency,
+      repeatEnd: event.recurrence?.until ? "until" : "count",
+      repeatCount: event.recurrence?.count ?? 8,
+      repeatUntil: event.recurrence?.until ?? "",
     });
     setIsAddEventOpen(true);
   };
@@ -250,15 +367,41 @@ const CalendarView: React.FC<CalendarViewProps> = ({
       return;
     }
 
+    if (editingEvent.occurrenceDate && onUpdateRecurringEvent) {
+      // Express the change on the series' wall clock so date shifts line up with its occurrences
+      const seriesTimeZone = resolveTimeZone(editingEvent.timeZone);
+      const local = utcToZonedDateTime(
+        zonedDateTimeToUtc(newEvent.date, newEvent.time, viewerTimeZone),
+        seriesTimeZone,
+      );
+      const recurrence = buildRecurrence();
+      setRecurringScope("this");
+      setPendingRecurringAction({
+        kind: "update",
+        updates: {
+          title: newEvent.title,
+          ...toEventTiming(local.date, local.time, seriesTimeZone),
+          duration: newEvent.duration,
+          type: newEvent.type,
+          participants:
+            newEvent.participants.length > 0 ? newEvent.participants : undefined,
+          notes: newEvent.notes?.trim() || undefined,
+          ...(recurrence && { recurrence }),
+        },
+      });
+      return;
+    }
+
+    const recurrence = buildRecurrence();
     const updates: Partial<CalendarEvent> = {
       title: newEvent.title,
-      date: newEvent.date,
-      startTime: newEvent.time,
+      ...toEventTiming(newEvent.date, newEvent.time, viewerTimeZone),
       duration: newEvent.duration,
       type: newEvent.type,
       participants:
         newEvent.participants.length > 0 ? newEvent.participants : undefined,
       notes: newEvent.notes?.trim() || undefined,
+      ...(recurrence && { recurrence }),
     };
 
     try {
@@ -275,6 +418,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         type: "Virtual",
         participants: [],
         notes: "",
+        repeat: "none",
+        repeatEnd: "count",
+        repeatCount: 8,
+        repeatUntil: "",
       });
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 3000);
@@ -285,6 +432,35 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     }
   };
 
+  const confirmRecurringAction = async () => {
+    if (!editingEvent?.occurrenceDate || !pendingRecurringAction) return;
+    const { id, occurrenceDate } = editingEvent;
+    if (pendingRecurringAction.kind === "delete") {
+      await onDeleteRecurringEvent?.(id, occurrenceDate, recurringScope);
+    } else {
+      const updates = { ...pendingRecurringAction.updates };
+      // A single changed occurrence becomes a one-off event, so it can't carry a rule
+      if (recurringScope === "this") delete updates.recurrence;
+      await onUpdateRecurringEvent?.(id, occurrenceDate, recurringScope, updates);
+    }
+    setPendingRecurringAction(null);
+    setIsAddEventOpen(false);
+    setEditingEvent(null);
+    setNewEvent({
+      title: "",
+      date: "",
+      time: "10:00",
+      duration: "1h",
+      type: "Virtual",
+      participants: [],
+      notes: "",
+      repeat: "none",
+      repeatEnd: "count",
+      repeatCount: 8,
+      repeatUntil: "",
+    });
+  };
+
   const handleViewEvent = (event: CalendarEvent) => {
     setViewingEvent(event);
     setRequestSent(null);
@@ -299,7 +475,9 @@ const CalendarView: React.FC<CalendarViewProps> = ({
 
     const label = type === "cancel" ? "cancel" : "reschedule";
     const emoji = type === "cancel" ? "❌" : "📅";
-    const dateStr = new Date(ev.date + "T00:00:00").toLocaleDateString(
+    const local = getEventLocalDateTime(ev, viewerTimeZone);
+    const timeStr = formatEventTime(ev, viewerTimeZone);
+    const dateStr = new Date(local.date + "T00:00:00").toLocaleDateString(
       "en-US",
       {
         weekday: "short",
@@ -309,8 +487,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
     );
     const text =
       type === "cancel"
-        ? `${emoji} ${currentUser.name} requested to cancel: "${ev.title}" on ${dateStr} at ${ev.startTime}.`
-        : `${emoji} ${currentUser.name} requested to reschedule: "${ev.title}" (${dateStr} at ${ev.startTime}). Please coordinate in chat.`;
+        ? `${emoji} ${currentUser.name} requested to cancel: "${ev.title}" on ${dateStr} at ${timeStr}.`
+        : `${emoji} ${currentUser.name} requested to reschedule: "${ev.title}" (${dateStr} at ${timeStr}). Please coordinate in chat.`;
 
     try {
       // Notify creator (chatId links to chat with participant for quick navigation)
@@ -382,6 +560,17 @@ const CalendarView: React.FC<CalendarViewProps> = ({
               <span className="sm:hidden">Connect</span>
             </button>
           )}
+          {currentUser.role === "MENTEE" && (
+            <button
+              onClick={() => setIsBookingOpen(true)}
+              aria-label="Book a session with your mentor"
+              className="flex items-center justify-center px-4 py-2.5 border border-emerald-300 dark:border-emerald-700 rounded-lg text-sm font-medium text-emerald-700 dark:text-emerald-300 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 min-h-[44px] touch-manipulation focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            >
+              <CalendarCheck className="w-4 h-4 mr-2" aria-hidden="true" />
+              <span className="hidden sm:inline">Book Session</span>
+              <span className="sm:hidden">Book</span>
+            </button>
+          )}
           <button
             onClick={() => setIsAddEventOpen(true)}
             aria-label="Add new event"
@@ -517,7 +706,8 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                 // Parse date string (YYYY-MM-DD) as local date to avoid timezone issues
                 // When parsing "2025-12-26", new Date() treats it as UTC midnight,
                 // which causes .getDate() to return wrong day for timezones west of UTC
-                const dateParts = e.date.split("-");
+                // Place events on the viewer's local date, which can differ from the scheduler's
+                const dateParts = getEventLocalDateTime(e, viewerTimeZone).date.split("-");
                 const eDate =
                   dateParts.length === 3
                     ? new Date(
@@ -583,9 +773,12 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                         (!ev.createdBy &&
                           (ev.mentorId === currentUser.id ||
                             ev.menteeId === currentUser.id));
-                      const isHovered = hoveredEventId === ev.id;
+                      const eventKey = ev.occurrenceDate
+                        ? `${ev.id}:${ev.occurrenceDate}`
+                        : ev.id;
+                      const isHovered = hoveredEventId === eventKey;
 
-                      const eventChipLabel = `${ev.title} at ${ev.startTime}${participantNames ? ` with ${participantNames}${extraCount > 0 ? ` and ${extraCount} more` : ""}` : ""}. Click to ${canEdit ? "edit" : "view details"}`;
+                      const eventChipLabel = `${ev.title} at ${formatEventTime(ev, viewerTimeZone)}${participantNames ? ` with ${participantNames}${extraCount > 0 ? ` and ${extraCount} more` : ""}` : ""}. Click to ${canEdit ? "edit" : "view details"}`;
 
                       const activateEventChip = () => {
                         if (canEdit && onUpdateEvent) {
@@ -597,12 +790,12 @@ const CalendarView: React.FC<CalendarViewProps> = ({
 
                       return (
                         <div
-                          key={ev.id}
+                          key={eventKey}
                           role="button"
                           tabIndex={0}
                           aria-label={eventChipLabel}
                           className="text-[10px] sm:text-xs bg-indigo-100 text-indigo-800 dark:bg-indigo-900/50 dark:text-indigo-200 px-1.5 py-1 rounded truncate border border-indigo-200 dark:border-indigo-800 group relative cursor-pointer hover:z-10 w-full text-left min-h-[32px] touch-manipulation focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                          onMouseEnter={() => setHoveredEventId(ev.id)}
+                          onMouseEnter={() => setHoveredEventId(eventKey)}
                           onMouseLeave={() => setHoveredEventId(null)}
                           onClick={(e) => {
                             e.stopPropagation();
@@ -620,7 +813,13 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                           }}
                         >
                           <div className="truncate font-medium">
-                            {ev.startTime} {ev.title}
+                            {ev.recurrence && (
+                              <Repeat
+                                className="inline w-3 h-3 mr-0.5"
+                                aria-hidden="true"
+                              />
+                            )}
+                            {getEventLocalDateTime(ev, viewerTimeZone).time} {ev.title}
                           </div>
                           {participantNames && (
                             <div className="text-[9px] sm:text-[10px] text-indigo-600 dark:text-indigo-300 truncate">
@@ -633,7 +832,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                           <div
                             role="tooltip"
                             className={`${isHovered ? "block" : "hidden"} absolute left-0 top-full mt-1 bg-slate-900 text-white text-[10px] sm:text-xs rounded px-2 py-1.5 z-20 whitespace-nowrap shadow-lg min-w-[200px] sm:min-w-[250px]`}
-                            onMouseEnter={() => setHoveredEventId(ev.id)}
+                            onMouseEnter={() => setHoveredEventId(eventKey)}
                             onMouseLeave={() => setHoveredEventId(null)}
                           >
                             {ev.participants && ev.participants.length > 0 && (
@@ -765,6 +964,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                     type: "Virtual",
                     participants: [],
                     notes: "",
+                    repeat: "none",
+                    repeatEnd: "count",
+                    repeatCount: 8,
+                    repeatUntil: "",
                   });
                 }}
                 aria-label="Close event modal"
@@ -830,7 +1033,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                       htmlFor="event-time"
                       className="block text-xs font-medium text-slate-500 uppercase mb-1"
                     >
-                      Time
+                      Time ({viewerTimeZone.replace(/_/g, " ")})
                     </label>
                     <input
                       id="event-time"
@@ -845,7 +1048,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                       aria-describedby="event-time-description"
                     />
                     <span id="event-time-description" className="sr-only">
-                      Select the start time for your event
+                      Select the start time for your event in {viewerTimeZone}
                     </span>
                   </div>
                 </div>
@@ -900,6 +1103,81 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                   </div>
                 </div>
 
+                {/* Recurrence */}
+                <div>
+                  <label
+                    htmlFor="event-repeat"
+                    className="block text-xs font-medium text-slate-500 uppercase mb-1"
+                  >
+                    Repeat
+                  </label>
+                  <select
+                    id="event-repeat"
+                    className={INPUT_CLASS}
+                    value={newEvent.repeat}
+                    onChange={(e) =>
+                      setNewEvent({
+                        ...newEvent,
+                        repeat: e.target.value as RepeatOption,
+                      })
+                    }
+                  >
+                    <option value="none">Does not repeat</option>
+                    <option value="DAILY">Daily</option>
+                    <option value="WEEKLY">Weekly</option>
+                    <option value="BIWEEKLY">Every 2 weeks</option>
+                    <option value="MONTHLY">Monthly</option>
+                  </select>
+                  {newEvent.repeat !== "none" && (
+                    <div className="grid grid-cols-2 gap-4 mt-2">
+                      <select
+                        aria-label="Repeat ends"
+                        className={INPUT_CLASS}
+                        value={newEvent.repeatEnd}
+                        onChange={(e) =>
+                          setNewEvent({
+                            ...newEvent,
+                            repeatEnd: e.target.value as "count" | "until",
+                          })
+                        }
+                      >
+                        <option value="count">After</option>
+                        <option value="until">On date</option>
+                      </select>
+                      {newEvent.repeatEnd === "count" ? (
+                        <input
+                          type="number"
+                          min={1}
+                          max={104}
+                          aria-label="Number of occurrences"
+                          className={INPUT_CLASS}
+                          value={newEvent.repeatCount}
+                          onChange={(e) =>
+                            setNewEvent({
+                              ...newEvent,
+                              repeatCount: parseInt(e.target.value, 10) || 1,
+                            })
+                          }
+                        />
+                      ) : (
+                        <input
+                          type="date"
+                          aria-label="Last date"
+                          className={INPUT_CLASS}
+                          min={newEvent.date}
+                          value={newEvent.repeatUntil}
+                          onChange={(e) =>
+                            setNewEvent({
+                              ...newEvent,
+                              repeatUntil: e.target.value,
+                            })
+                          }
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+
                 {/* Participants Multi-Select */}
                 <div>
                   <label
@@ -1043,6 +1321,11 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                 {editingEvent && onDeleteEvent && (
                   <button
                     onClick={() => {
+                      if (editingEvent.occurrenceDate && onDeleteRecurringEvent) {
+                        setRecurringScope("this");
+                        setPendingRecurringAction({ kind: "delete" });
+                        return;
+                      }
                       if (
                         confirm("Delete this event? This cannot be undone.")
                       ) {
@@ -1057,6 +1340,10 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                           type: "Virtual",
                           participants: [],
                           notes: "",
+                          repeat: "none",
+                          repeatEnd: "count",
+                          repeatCount: 8,
+                          repeatUntil: "",
                         });
                       }
                     }}
@@ -1114,7 +1401,7 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                   <dt className="text-slate-500 dark:text-slate-500">Date</dt>
                   <dd>
                     {new Date(
-                      viewingEvent.date + "T00:00:00",
+                      getEventLocalDateTime(viewingEvent, viewerTimeZone).date + "T00:00:00",
                     ).toLocaleDateString("en-US", {
                       weekday: "short",
                       month: "short",
@@ -1125,9 +1412,27 @@ const CalendarView: React.FC<CalendarViewProps> = ({
                 <div className="flex justify-between">
                   <dt className="text-slate-500 dark:text-slate-500">Time</dt>
                   <dd>
-                    {viewingEvent.startTime} · {viewingEvent.duration}
+                    {formatEventTime(viewingEvent, viewerTimeZone)} · {viewingEvent.duration}
                   </dd>
                 </div>
+                {viewingEvent.timeZone && viewingEvent.timeZone !== viewerTimeZone && (
+                  <div className="flex justify-between">
+                    <dt className="text-slate-500 dark:text-slate-500">Scheduled as</dt>
+                    <dd>
+                      {viewingEvent.startTime}{" "}
+                      {getTimeZoneAbbreviation(
+                        getEventStart(viewingEvent),
+                        viewingEvent.timeZone,
+                      )}
+                    </dd>
+                  </div>
+                )}
+                {viewingEvent.recurrence && (
+                  <div className="flex justify-between">
+                    <dt className="text-slate-500 dark:text-slate-500">Repeats</dt>
+                    <dd>{describeRecurrence(viewingEvent.recurrence)}</dd>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <dt className="text-slate-500 dark:text-slate-500">Type</dt>
                   <dd>{viewingEvent.type}</dd>
@@ -1214,6 +1519,83 @@ const CalendarView: React.FC<CalendarViewProps> = ({
         </div>
       )}
 
+      {pendingRecurringAction && (
+        <div
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="recurring-scope-title"
+          className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setPendingRecurringAction(null);
+          }}
+        >
+          <div
+            className="bg-white dark:bg-slate-900 rounded-xl shadow-2xl max-w-sm w-full border border-slate-200 dark:border-slate-800 p-4 sm:p-5"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2
+              id="recurring-scope-title"
+              className="text-base font-semibold text-slate-900 dark:text-white mb-3"
+            >
+              {pendingRecurringAction.kind === "delete"
+                ? "Delete recurring event"
+                : "Edit recurring event"}
+            </h2>
+            <div className="space-y-2 mb-4" role="radiogroup">
+              {(
+                [
+                  ["this", "This event"],
+                  ["following", "This and following events"],
+                  ["all", "All events"],
+                ] as Array<[RecurrenceEditScope, string]>
+              ).map(([scope, label]) => (
+                <label
+                  key={scope}
+                  className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name="recurring-scope"
+                    value={scope}
+                    checked={recurringScope === scope}
+                    onChange={() => setRecurringScope(scope)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPendingRecurringAction(null)}
+                className="flex-1 px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmRecurringAction}
+                className={
+                  pendingRecurringAction.kind === "delete"
+                    ? "flex-1 px-3 py-2 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700"
+                    : BUTTON_PRIMARY + " flex-1"
+                }
+              >
+                {pendingRecurringAction.kind === "delete" ? "Delete" : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isBookingOpen && (
+        <BookSessionModal
+          currentUser={currentUser}
+          users={users}
+          matches={matches}
+          events={events}
+          onClose={() => setIsBookingOpen(false)}
+        />
+      )}
+
       {showSuccess && (
         <div className="fixed bottom-6 right-6 bg-emerald-800 text-white px-4 py-3 rounded-lg shadow-lg flex items-center animate-in slide-in-from-bottom-4 fade-in z-50">
           <CheckCircle className="w-5 h-5 mr-2" />
@@ -10,6 +10,8 @@ import {
   Match,
   MatchStatus,
   PrivateMessageRequest,
+  ReportedMessage,
+  BlockRecord,
 } from "../types";
 import { INPUT_CLASS, BUTTON_PRIMARY } from "../styles/common";
 import {
@@ -63,6 +65,10 @@ import {
   setTypingStatus,
   clearTypingStatus,
   subscribeToTypingStatus,
+  createReport,
+  blockUser as persistBlock,
+  unblockUser as removeBlock,
+  subscribeToBlocksForUser,
 } from "../services/database";
 import { Unsubscribe } from "../services/database";
 import { logger } from "../services/logger";
@@ -77,6 +83,7 @@ import {
 } from "../utils/chatGroups";
 import { parseVideoCallMessage, formatVideoCallChatMessage } from "../utils/videoCallMarkers";
 import { isVerboseChatLogging } from "../utils/environment";
+import { resolveTimeZone, toEventTiming } from "../utils/timeZones";
 import { requestVideoCallSession } from "../services/videoCallApi";
 import {
   setVideoCallReturnPage,
@@ -1189,7 +1196,23 @@ const Chat: React.FC<ChatProps> = ({
   // New States for Actions
   const [pinnedChats, setPinnedChats] = useState<string[]>([]);
   const [mutedChats, setMutedChats] = useState<string[]>([]);
-  const [blockedUsers, setBlockedUsers] = useState<string[]>([]);
+  const [blocks, setBlocks] = useState<BlockRecord[]>([]);
+  // Users the current user has blocked / users who have blocked the current user
+  const blockedUsers = useMemo(
+    () => blocks.filter((b) => b.blockerId === currentUser.id).map((b) => b.blockedId),
+    [blocks, currentUser.id]
+  );
+  const blockedByUsers = useMemo(
+    () => blocks.filter((b) => b.blockedId === currentUser.id).map((b) => b.blockerId),
+    [blocks, currentUser.id]
+  );
+  const blockedUsersKey = blockedUsers.join(",");
+
+  useEffect(() => {
+    if (!organizationId) return;
+    const unsubscribe = subscribeToBlocksForUser(currentUser.id, organizationId, setBlocks);
+    return () => unsubscribe();
+  }, [currentUser.id, organizationId]);
   const [inputText, setInputText] = useState("");
   const [attachment, setAttachment] = useState<File | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
@@ -1572,7 +1595,7 @@ const Chat: React.FC<ChatProps> = ({
         delete unsubscribeMessagesRef.current[activeChatId];
       }
     };
-  }, [activeChatId, organizationId, currentUser.id, currentUser.createdAt, currentUser.role, users, MOCK_GROUPS, matches, approvedPrivateMessagePartners]);
+  }, [activeChatId, organizationId, currentUser.id, currentUser.createdAt, currentUser.role, users, MOCK_GROUPS, matches, approvedPrivateMessagePartners, blockedUsersKey]);
 
   // Subscribe to typing status for active chat
   useEffect(() => {
@@ -1894,6 +1917,10 @@ const Chat: React.FC<ChatProps> = ({
   const chatPartner =
     !isGroup && activeChat && !('type' in activeChat) ? users.find((u) => u.id === activeChat.id) : null;
   const isBlocked = chatPartner && blockedUsers.includes(chatPartner.id);
+  const isBlockedByPartner = !!chatPartner && blockedByUsers.includes(chatPartner.id);
+  // Moderators can mute a user for a period; mutedUntil is an ISO date string
+  const isMuted =
+    !!currentUser.mutedUntil && new Date(currentUser.mutedUntil).getTime() > Date.now();
   const isPlatformGroup =
     isMentorsCircleId(activeChatId || "", organizationId) ||
     isMenteesHubId(activeChatId || "", organizationId);
@@ -1902,7 +1929,7 @@ const Chat: React.FC<ChatProps> = ({
     currentUser.role === Role.ADMIN ||
     roleStrForLiveCall === "ADMIN" ||
     roleStrForLiveCall === "ORGANIZATION_ADMIN";
-  const canStartLiveCall = isPlatformGroup ? isOrgAdmin : !isBlocked;
+  const canStartLiveCall = isPlatformGroup ? isOrgAdmin : !isBlocked && !isBlockedByPartner;
 
   const handleManualSentimentChange = (
     newSentiment: "Positive" | "Neutral" | "Negative"
@@ -1913,7 +1940,13 @@ const Chat: React.FC<ChatProps> = ({
   };
 
   const handleSend = async (text = inputText) => {
-    if (isBlocked) return;
+    if (isBlocked || isBlockedByPartner) return;
+    if (isMuted) {
+      onErrorToast?.(
+        `You have been muted by a moderator until ${new Date(currentUser.mutedUntil!).toLocaleString()}.`
+      );
+      return;
+    }
     if ((!text.trim() && !attachment) || !activeChatId || !organizationId) {
       logger.warn("Cannot send message: missing required fields", {
         hasText: !!text.trim(),
@@ -2177,7 +2210,7 @@ const Chat: React.FC<ChatProps> = ({
       alert('Request sent! The user will be notified and can approve your request.');
     } catch (error: unknown) {
       logger.error('Error requesting private message', error);
-      alert('Failed to send request. Please try again.');
+      alert(getErrorMessage(error) || 'Failed to send request. Please try again.');
     } finally {
       setRequestingPrivateMessage(null);
     }
@@ -2246,13 +2279,81 @@ const Chat: React.FC<ChatProps> = ({
     setActiveModal(null);
   };
 
-  const blockUser = () => {
-    if (chatPartner) setBlockedUsers((prev) => [...prev, chatPartner.id]);
+  const blockUser = async () => {
+    if (chatPartner && organizationId) {
+      try {
+        await persistBlock(organizationId, currentUser.id, chatPartner.id);
+      } catch (error: unknown) {
+        logger.error("Error blocking user", error);
+        onErrorToast?.(getErrorMessage(error) || "Failed to block user. Please try again.");
+      }
+    }
     setActiveModal(null);
   };
 
-  const reportUser = (reason: string, desc: string) => {
-    logger.info("User reported", { reason, description: desc });
+  const unblockUser = async (userId: string) => {
+    try {
+      await removeBlock(currentUser.id, userId);
+    } catch (error: unknown) {
+      logger.error("Error unblocking user", error);
+      onErrorToast?.(getErrorMessage(error) || "Failed to unblock user. Please try again.");
+    }
+  };
+
+  const reportUser = async (reason: string, desc: string) => {
+    if (!chatPartner || !organizationId) {
+      setActiveModal(null);
+      return;
+    }
+    // Snapshot the reported user's recent messages so moderators can review them even if deleted later
+    const reportedMessages: ReportedMessage[] = currentChatMessages
+      .filter((m) => m.senderId === chatPartner.id)
+      .slice(-10)
+      .map((m) => ({
+        id: m.id,
+        chatId: m.chatId,
+        text: m.text,
+        timestamp: m.timestamp,
+      }));
+
+    try {
+      await createReport({
+        organizationId,
+        reporterId: currentUser.id,
+        reportedId: chatPartner.id,
+        reason,
+        description: desc,
+        chatId: activeChatId,
+        chatType: "dm",
+        reportedMessages,
+      });
+      logger.info("User reported", { reason, reportedId: chatPartner.id });
+
+      // Let org admins know there is something in the moderation queue (non-blocking)
+      users
+        .filter(
+          (u) =>
+            u.organizationId === organizationId &&
+            (u.role === Role.ADMIN || String(u.role) === "ADMIN") &&
+            u.id !== currentUser.id
+        )
+        .forEach((admin) => {
+          createNotification({
+            organizationId,
+            userId: admin.id,
+            type: "system",
+            title: "New User Report",
+            body: `${currentUser.name} reported ${chatPartner.name} (${reason})`,
+            isRead: false,
+            timestamp: new Date().toISOString(),
+          }).catch((err) =>
+            logger.error("Error creating report notification", err)
+          );
+        });
+    } catch (error: unknown) {
+      logger.error("Error submitting report", error);
+      onErrorToast?.(getErrorMessage(error) || "Failed to submit report. Please try again.");
+    }
     setActiveModal(null);
   };
 
@@ -2295,12 +2396,16 @@ const Chat: React.FC<ChatProps> = ({
         participants.push(currentUser.id);
       }
 
-      // Create calendar event
+      // Create calendar event on the scheduler's wall clock
+      const meetingTiming = toEventTiming(
+        meetingDate,
+        meetingTime,
+        resolveTimeZone(currentUser.timezone)
+      );
       const eventId = await createCalendarEvent({
         organizationId,
         title: meetingTitle,
-        date: meetingDate,
-        startTime: meetingTime,
+        ...meetingTiming,
         duration: meetingDuration,
         type: "Virtual",
         participants,
@@ -2336,8 +2441,7 @@ const Chat: React.FC<ChatProps> = ({
             id: eventId,
             organizationId,
             title: meetingTitle,
-            date: meetingDate,
-            startTime: meetingTime,
+            ...meetingTiming,
             duration: meetingDuration,
             type: "Virtual",
             participants,
@@ -2403,6 +2507,7 @@ const Chat: React.FC<ChatProps> = ({
             ).toLocaleDateString()} at ${meetingTime}`,
             isRead: false,
             timestamp: new Date().toISOString(),
+            eventId,
           }).catch((err) =>
             logger.error("Error creating meeting notification", err)
           );
@@ -3388,11 +3493,7 @@ className={`w-full text-left px-4 py-2 flex items-center gap-2 text-sm font-medi
                     <Ban className="w-4 h-4 mr-2" /> You have blocked this user.
                   </p>
                   <button
-                    onClick={() =>
-                      setBlockedUsers((prev) =>
-                        prev.filter((id) => id !== chatPartner?.id)
-                      )
-                    }
+                    onClick={() => chatPartner && unblockUser(chatPartner.id)}
                     className="text-xs text-red-600 underline mt-1"
                   >
                     Unblock
@@ -3674,7 +3775,7 @@ className={`w-full text-left px-4 py-2 flex items-center gap-2 text-sm font-medi
             </div>
 
             {/* Input Area - fixed at bottom */}
-            {!isBlocked ? (
+            {!isBlocked && !isBlockedByPartner && !isMuted ? (
               <div className="flex-shrink-0 p-3 sm:p-4 bg-white dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800 relative">
                 {showEmojiPicker && (
                   <div className="absolute bottom-full left-0 sm:left-4 mb-2 bg-white dark:bg-slate-800 shadow-2xl border border-slate-200 dark:border-slate-700 rounded-lg p-2 w-full sm:w-[360px] h-48 sm:h-64 overflow-y-auto grid grid-cols-10 gap-1 z-20">
@@ -3938,7 +4039,9 @@ className={`w-full text-left px-4 py-2 flex items-center gap-2 text-sm font-medi
               </div>
             ) : (
               <div className="p-4 bg-slate-50 dark:bg-slate-900 border-t border-slate-100 dark:border-slate-800 text-center text-slate-500 text-sm">
-                Messaging unavailable.
+                {isMuted
+                  ? `You have been muted by a moderator until ${new Date(currentUser.mutedUntil!).toLocaleString()}.`
+                  : "Messaging unavailable."}
               </div>
             )}
           </div>
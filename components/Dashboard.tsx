@@ -40,6 +40,13 @@ import {
   computeAverageFromRatings,
 } from "../utils/ratingsUtils";
 import { logger } from "../services/logger";
+import {
+  formatEventTime,
+  getEventLocalDateTime,
+  resolveTimeZone,
+} from "../utils/timeZones";
+import { expandCalendarEvents } from "../utils/recurrence";
+import MatchLifecyclePanel, { MatchLifecycleActions } from "./MatchLifecyclePanel";
 import {
   Users,
   Search,
@@ -98,6 +105,7 @@ interface DashboardProps {
   onRejectRating?: (id: string) => void;
   onAddRating: (rating: Omit<Rating, "id">) => void;
   onNavigate: (page: string) => void;
+  matchActions?: MatchLifecycleActions; // Accept/decline, pause/resume and closure for mentors and mentees
   isImpersonating?: boolean; // When true, never show platform operator dashboard
 }
 
@@ -157,10 +165,22 @@ const Dashboard: React.FC<DashboardProps> = ({
   onRejectRating,
   onAddRating,
   onNavigate,
+  matchActions,
   isImpersonating = false,
 }) => {
   // Role checks - handle both enum and string values for robustness
   const userRoleString = String(user.role);
+  const viewerTimeZone = resolveTimeZone(user.timezone);
+  // Recurring series are stored once; list their occurrences over the next 90 days
+  const upcomingCalendarEvents = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return expandCalendarEvents(
+      calendarEvents,
+      today,
+      new Date(today.getTime() + 90 * 24 * 60 * 60 * 1000),
+    );
+  }, [calendarEvents]);
 
   // Check both enum and string value for platform operator (database stores as string "PLATFORM_OPERATOR")
   // THIS CHECK MUST COME FIRST before admin/mentor checks
@@ -3005,6 +3025,15 @@ const Dashboard: React.FC<DashboardProps> = ({
           </div>
         </div>
 
+        {matchActions && (
+          <MatchLifecyclePanel
+            user={user}
+            users={users}
+            matches={matches}
+            {...matchActions}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2 space-y-6">
             <div className="flex justify-between items-center">
@@ -3139,7 +3168,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                 <Calendar className="w-5 h-5 text-emerald-500" />
               </div>
               <div className="mt-4 space-y-3">
-                {calendarEvents
+                {upcomingCalendarEvents
                   .filter((e) => {
                     // Priority: If participants array exists and has items, ONLY show to users in that array
                     // Otherwise, fall back to mentorId/menteeId fields
@@ -3171,7 +3200,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                   )
                   .slice(0, 3)
                   .map((event) => {
-                    const eventDate = new Date(event.date);
+                    const eventDate = new Date(
+                      getEventLocalDateTime(event, viewerTimeZone).date + "T00:00:00",
+                    );
                     const monthNames = [
                       "JAN",
                       "FEB",
@@ -3188,7 +3219,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                     ];
                     return (
                       <div
-                        key={event.id}
+                        key={`${event.id}:${event.occurrenceDate ?? ""}`}
                         className="flex gap-3 items-center p-2 rounded-lg bg-slate-50 dark:bg-slate-800"
                       >
                         <div className="bg-white dark:bg-slate-700 rounded p-2 text-center min-w-[50px] shadow-sm">
@@ -3204,13 +3235,13 @@ const Dashboard: React.FC<DashboardProps> = ({
                             {event.title}
                           </p>
                           <p className="text-xs text-slate-500 dark:text-slate-400">
-                            {event.startTime} • {event.type}
+                            {formatEventTime(event, viewerTimeZone)} • {event.type}
                           </p>
                         </div>
                       </div>
                     );
                   })}
-                {calendarEvents.filter((e) => {
+                {upcomingCalendarEvents.filter((e) => {
                   // Priority: If participants array exists and has items, ONLY show to users in that array
                   const hasParticipants =
                     e.participants && e.participants.length > 0;
@@ -3317,6 +3348,15 @@ const Dashboard: React.FC<DashboardProps> = ({
           </p>
         </header>
 
+        {matchActions && (
+          <MatchLifecyclePanel
+            user={user}
+            users={users}
+            matches={matches}
+            {...matchActions}
+          />
+        )}
+
         <div className="bg-gradient-to-br from-emerald-600 to-teal-700 rounded-2xl p-6 text-white shadow-lg relative overflow-hidden">
           <div className="absolute top-0 right-0 -mt-10 -mr-10 w-40 h-40 bg-white opacity-10 rounded-full blur-3xl"></div>
           <h2 className="text-xl font-semibold mb-6 flex items-center">
@@ -3467,7 +3507,7 @@ const Dashboard: React.FC<DashboardProps> = ({
               <Calendar className="w-5 h-5 text-emerald-500" />
             </div>
             <div className="mt-4 space-y-3">
-              {calendarEvents
+              {upcomingCalendarEvents
                 .filter((e) => {
                   // Show events where user is a participant (mentor or mentee)
                   const isParticipant =
@@ -3487,7 +3527,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                 )
                 .slice(0, 3)
                 .map((event) => {
-                  const eventDate = new Date(event.date);
+                  const eventDate = new Date(
+                    getEventLocalDateTime(event, viewerTimeZone).date + "T00:00:00",
+                  );
                   const monthNames = [
                     "JAN",
                     "FEB",
@@ -3504,7 +3546,7 @@ const Dashboard: React.FC<DashboardProps> = ({
                   ];
                   return (
                     <div
-                      key={event.id}
+                      key={`${event.id}:${event.occurrenceDate ?? ""}`}
                       className="flex gap-3 items-center p-2 rounded-lg bg-slate-50 dark:bg-slate-800"
                     >
                       <div className="bg-white dark:bg-slate-700 rounded p-2 text-center min-w-[50px] shadow-sm">
@@ -3520,13 +3562,13 @@ const Dashboard: React.FC<DashboardProps> = ({
                           {event.title}
                         </p>
                         <p className="text-xs text-slate-500 dark:text-slate-400">
-                          {event.startTime} • {event.type}
+                          {formatEventTime(event, viewerTimeZone)} • {event.type}
                         </p>
                       </div>
                     </div>
                   );
                 })}
-              {calendarEvents.filter((e) => {
+              {upcomingCalendarEvents.filter((e) => {
                 const isParticipant =
                   e.mentorId === user.id ||
                   e.menteeId === user.id ||
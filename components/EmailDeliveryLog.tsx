@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Mail, Search } from "lucide-react";
+import { EmailLogEntry, EmailLogStatus } from "../types";
+import { INPUT_CLASS } from "../styles/common";
+import { subscribeToEmailLogByOrganization } from "../services/database";
+import { EMAIL_STATUS_LABELS, getRecipientStatuses, isProblemStatus } from "../utils/emailDelivery";
+
+interface EmailDeliveryLogProps {
+  organizationId: string;
+}
+
+const STATUS_CLASSES: Record<EmailLogStatus, string> = {
+  sending: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+  sent: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+  delivered: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
+  delayed: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  suppressed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  bounced: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  complained: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+/**
+ * Org-admin view of recent emails to members, one row per recipient, so "I never got the
+ * invite" can be answered without opening the provider dashboards.
+ */
+const EmailDeliveryLog: React.FC<EmailDeliveryLogProps> = ({ organizationId }) => {
+  const [entries, setEntries] = useState<EmailLogEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  useEffect(() => subscribeToEmailLogByOrganization(organizationId, setEntries), [organizationId]);
+
+  const rows = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries
+      .flatMap(getRecipientStatuses)
+      .filter((row) => !problemsOnly || isProblemStatus(row.status))
+      .filter((row) => !term || row.email.includes(term) || (row.name || "").toLowerCase().includes(term));
+  }, [entries, search, problemsOnly]);
+
+  return (
+    <div className="pt-2">
+      <h3 className="font-bold text-slate-900 dark:text-white flex items-center">
+        <Mail className="w-4 h-4 mr-2 text-emerald-500" /> Email Delivery
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+        Recent emails to your members. Addresses that bounced or marked us as spam are suppressed and
+        won't receive further emails until support clears them.
+      </p>
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center mb-3">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            className={`${INPUT_CLASS} pl-9`}
+            placeholder="Search by name or email"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} />
+          Problems only
+        </label>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No emails to show.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-semibold text-slate-500 uppercase">
+                <th className="py-2 pr-3">Recipient</th>
+                <th className="py-2 pr-3">Subject</th>
+                <th className="py-2 pr-3">Status</th>
+                <th className="py-2">Sent</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {rows.map((row) => (
+                <tr key={`${row.logId}-${row.email}`}>
+                  <td className="py-2 pr-3">
+                    <p className="text-slate-900 dark:text-white">{row.name || row.email}</p>
+                    {row.name && <p className="text-xs text-slate-500">{row.email}</p>}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-700 dark:text-slate-300">
+                    {row.subject}
+                    {row.category && <span className="block text-xs text-slate-500">{row.category}</span>}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <span
+                      className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[row.status]}`}
+                      title={row.error || undefined}
+                    >
+                      {EMAIL_STATUS_LABELS[row.status]}
+                    </span>
+                  </td>
+                  <td className="py-2 text-xs text-slate-500 whitespace-nowrap">
+                    {new Date(row.sentAt).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailDeliveryLog;
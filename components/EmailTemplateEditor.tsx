@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from "react";
+import { Mail, RotateCcw, Send } from "lucide-react";
+import { EmailTemplateKey, EmailTemplateOverride, Organization } from "../types";
+import { INPUT_CLASS, BUTTON_PRIMARY, CARD_CLASS } from "../styles/common";
+import { sendEmailTemplateTest } from "../services/database";
+import { getErrorMessage } from "../utils/errors";
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  renderBrandedEmail,
+  SAMPLE_TEMPLATE_VALUES,
+  validateTemplateOverride,
+} from "../utils/emailTemplates";
+
+interface EmailTemplateEditorProps {
+  organization: Organization;
+  onSave: (emailTemplates: Partial<Record<EmailTemplateKey, EmailTemplateOverride>>) => Promise<void>;
+}
+
+type EditableField = Exclude<keyof EmailTemplateOverride, "updatedAt">;
+
+const FIELDS: { key: EditableField; label: string; multiline?: boolean }[] = [
+  { key: "subject", label: "Subject" },
+  { key: "heading", label: "Heading" },
+  { key: "body", label: "Message", multiline: true },
+  { key: "buttonLabel", label: "Button label" },
+];
+
+/**
+ * Program-tab editor for the org's versions of the welcome, match, invitation and reminder
+ * emails. The preview uses the same renderer as the Cloud Functions send, with sample values.
+ */
+const EmailTemplateEditor: React.FC<EmailTemplateEditorProps> = ({ organization, onSave }) => {
+  const [selected, setSelected] = useState<EmailTemplateKey>("welcome");
+  const [drafts, setDrafts] = useState<Partial<Record<EmailTemplateKey, EmailTemplateOverride>>>(
+    organization.emailTemplates || {},
+  );
+  const [saving, setSaving] = useState(false);
+  const [sendingTest, setSendingTest] = useState(false);
+  const [message, setMessage] = useState<{ kind: "success" | "error"; text: string } | null>(null);
+
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[selected];
+  const draft = drafts[selected] || {};
+  const isCustomized = !!drafts[selected];
+  const errors = validateTemplateOverride(selected, draft);
+
+  const preview = useMemo(
+    () =>
+      renderBrandedEmail(
+        selected,
+        drafts[selected] || {},
+        {
+          organizationName: organization.name,
+          programName: organization.programSettings?.programName,
+          logo: organization.logo || organization.programSettings?.logo,
+          accentColor: organization.accentColor || organization.programSettings?.accentColor,
+        },
+        SAMPLE_TEMPLATE_VALUES,
+        window.location.origin,
+      ),
+    [selected, drafts, organization],
+  );
+
+  const updateField = (field: EditableField, value: string) => {
+    setMessage(null);
+    setDrafts((prev) => ({ ...prev, [selected]: { ...prev[selected], [field]: value } }));
+  };
+
+  // Saves only the selected template; unsaved edits to the others stay as drafts
+  const save = async (override: EmailTemplateOverride | null, successText: string) => {
+    setSaving(true);
+    setMessage(null);
+    const next = { ...organization.emailTemplates };
+    if (override) next[selected] = override;
+    else delete next[selected];
+    try {
+      await onSave(next);
+      setDrafts((prev) => {
+        const updated = { ...prev };
+        if (override) updated[selected] = override;
+        else delete updated[selected];
+        return updated;
+      });
+      setMessage({ kind: "success", text: successText });
+    } catch (error) {
+      setMessage({ kind: "error", text: getErrorMessage(error) || "Failed to save template" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => save({ ...draft, updatedAt: new Date().toISOString() }, "Template saved.");
+
+  const handleReset = () => save(null, "Reverted to the default email.");
+
+  const handleSendTest = async () => {
+    setSendingTest(true);
+    setMessage(null);
+    try {
+      const sentTo = await sendEmailTemplateTest(selected, draft);
+      setMessage({ kind: "success", text: `Test email sent to ${sentTo}.` });
+    } catch (error) {
+      setMessage({ kind: "error", text: getErrorMessage(error) || "Failed to send test email" });
+    } finally {
+      setSendingTest(false);
+    }
+  };
+
+  return (
+    <div className={CARD_CLASS}>
+      <h3 className="font-bold text-slate-900 dark:text-white mb-1 flex items-center">
+        <Mail className="w-5 h-5 mr-2 text-emerald-600" /> Email Templates
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Reword the emails members get, with your logo and brand color. Leave a field blank to keep
+        the default. Templates with errors are not used; members get the default email instead.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {EMAIL_TEMPLATE_KEYS.map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => {
+              setSelected(key);
+              setMessage(null);
+            }}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium ${
+              selected === key
+                ? "bg-emerald-600 text-white"
+                : "bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+            }`}
+          >
+            {EMAIL_TEMPLATE_DEFINITIONS[key].label}
+            {drafts[key] ? " •" : ""}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <p className="text-xs text-slate-500 dark:text-slate-400">{definition.description}</p>
+          {FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{field.label}</label>
+              {field.multiline ? (
+                <textarea
+                  className={INPUT_CLASS}
+                  rows={6}
+                  value={draft[field.key] || ""}
+                  placeholder={definition[field.key]}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                />
+              ) : (
+                <input
+                  className={INPUT_CLASS}
+                  value={draft[field.key] || ""}
+                  placeholder={definition[field.key]}
+                  onChange={(e) => updateField(field.key, e.target.value)}
+                />
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Placeholders: {definition.variables.map((name) => `{{${name}}}`).join(", ")}
+          </p>
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+          {message && (
+            <p className={`text-sm ${message.kind === "success" ? "text-emerald-600" : "text-red-600"}`}>{message.text}</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button type="button" className={BUTTON_PRIMARY} disabled={saving || errors.length > 0} onClick={handleSave}>
+              {saving ? "Saving..." : "Save Template"}
+            </button>
+            <button
+              type="button"
+              className="px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-700 dark:text-slate-300 flex items-center gap-2 disabled:opacity-50"
+              disabled={sendingTest || errors.length > 0}
+              onClick={handleSendTest}
+            >
+              <Send className="w-4 h-4" /> {sendingTest ? "Sending..." : "Send Test to Me"}
+            </button>
+            {isCustomized && (
+              <button
+                type="button"
+                className="px-4 py-2 rounded-lg text-sm font-medium text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 flex items-center gap-2"
+                disabled={saving}
+                onClick={handleReset}
+              >
+                <RotateCcw className="w-4 h-4" /> Use Default
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-semibold text-slate-500 uppercase mb-1">Preview</p>
+          <p className="text-sm text-slate-700 dark:text-slate-300 mb-2">
+            <span className="text-slate-500">Subject:</span> {preview.subject}
+          </p>
+          <iframe
+            title="Email preview"
+            srcDoc={preview.html}
+            sandbox=""
+            className="w-full h-[480px] rounded-lg border border-slate-200 dark:border-slate-700 bg-white"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailTemplateEditor;
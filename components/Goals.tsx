@@ -27,6 +27,7 @@ interface GoalsProps {
   onAddGoal: (g: Omit<Goal, "id">) => void;
   onUpdateGoal: (id: string, progress: number, status: string) => void;
   onDeleteGoal?: (id: string) => void;
+  initialGoalId?: string; // Deep link (/my-goals/<goalId>): expand this goal
 }
 
 const Goals: React.FC<GoalsProps> = ({
@@ -36,6 +37,7 @@ const Goals: React.FC<GoalsProps> = ({
   onAddGoal,
   onUpdateGoal,
   onDeleteGoal,
+  initialGoalId,
 }) => {
   const [newGoalTitle, setNewGoalTitle] = useState("");
   const [targetDate, setTargetDate] = useState(
@@ -47,7 +49,7 @@ const Goals: React.FC<GoalsProps> = ({
   const [isDeleting, setIsDeleting] = useState(false);
   
   // Milestone state
-  const [expandedGoalId, setExpandedGoalId] = useState<string | null>(null);
+  const [expandedGoalId, setExpandedGoalId] = useState<string | null>(initialGoalId ?? null);
   const [milestones, setMilestones] = useState<Record<string, Milestone[]>>({});
   const [showMilestoneForm, setShowMilestoneForm] = useState<string | null>(null);
   const [newMilestoneTitle, setNewMilestoneTitle] = useState("");
@@ -72,6 +74,14 @@ const Goals: React.FC<GoalsProps> = ({
       : null;
   const isMentee = user.role === Role.MENTEE;
 
+  // Opening another goal link while this page is mounted expands that goal instead
+  useEffect(() => {
+    if (initialGoalId) {
+      setExpandedGoalId(initialGoalId);
+      document.getElementById(`goal-${initialGoalId}`)?.scrollIntoView?.({ block: "center" });
+    }
+  }, [initialGoalId]);
+
   // Load milestones when goal is expanded
   useEffect(() => {
     if (expandedGoalId) {
@@ -356,7 +366,7 @@ const Goals: React.FC<GoalsProps> = ({
           const isExpanded = expandedGoalId === goal.id;
 
           return (
-          <div key={goal.id} className={`${CARD_CLASS} flex flex-col`}>
+          <div key={goal.id} id={`goal-${goal.id}`} className={`${CARD_CLASS} flex flex-col`}>
             <div className="flex justify-between items-start mb-4 gap-2">
               <h3 className="font-bold text-lg text-slate-800 dark:text-white flex-1 min-w-0">
                 {goal.title}
@@ -20,12 +20,21 @@ import {
   Crown,
   LogIn,
   HelpCircle,
+  Flag,
 } from "lucide-react";
 import { Role, User, Notification, ProgramSettings } from "../types";
 import { Logo } from "./Logo";
 import { PWAInstallBanner } from "./PWAInstallBanner";
 import { EnvironmentBanner } from "./EnvironmentBanner";
 import { isSandbox } from "../utils/environment";
+import {
+  clearImpersonationSession,
+  getActiveImpersonationSession,
+  getImpersonationTimeRemaining,
+} from "../utils/impersonationSession";
+import { endImpersonationSession } from "../services/platformOperatorAdmin";
+import { pageToPath } from "../utils/routes";
+import { logger } from "../services/logger";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -177,10 +186,21 @@ const Layout: React.FC<LayoutProps> = ({
   const unreadCount = notifications.filter((n) => !n.isRead).length;
   const brandColor = programSettings?.accentColor || "#10b981"; // Default Emerald
 
-  const handleExitImpersonation = () => {
+  const handleExitImpersonation = async () => {
     const originalId = localStorage.getItem("originalOperatorId");
     const originalOrgId = localStorage.getItem("originalOrganizationId");
 
+    // Close the server-side session so its history shows when it ended
+    const session = getActiveImpersonationSession();
+    if (session) {
+      try {
+        await endImpersonationSession(session.id);
+      } catch (error) {
+        logger.warn("Could not end impersonation session on the server", error);
+      }
+      clearImpersonationSession();
+    }
+
     if (originalId && originalOrgId) {
       // Restore original operator session
       localStorage.setItem("userId", originalId);
@@ -200,11 +220,30 @@ const Layout: React.FC<LayoutProps> = ({
       localStorage.removeItem("originalOrganizationId");
       localStorage.removeItem("originalOperatorIdToken");
 
-      // Reload app to trigger re-initialization
-      window.location.reload();
+      // Reload app back on user management to trigger re-initialization
+      window.location.href = pageToPath("user-management");
     }
   };
 
+  // Time-boxed sessions end themselves; tick the countdown shown in the banner
+  const impersonationSession = isImpersonating ? getActiveImpersonationSession() : null;
+  const [impersonationMsLeft, setImpersonationMsLeft] = useState(() =>
+    impersonationSession ? getImpersonationTimeRemaining(impersonationSession) : 0
+  );
+  useEffect(() => {
+    if (!impersonationSession) return;
+    const tick = () => {
+      const remaining = getImpersonationTimeRemaining(impersonationSession);
+      setImpersonationMsLeft(remaining);
+      if (remaining === 0) {
+        handleExitImpersonation();
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 30 * 1000);
+    return () => clearInterval(interval);
+  }, [impersonationSession?.id]);
+
   // Handle support navigation - find org admin and navigate to their chat
   const handleSupportClick = () => {
     setIsMobileMenuOpen(false);
@@ -415,6 +454,14 @@ const Layout: React.FC<LayoutProps> = ({
               <span className="text-xs font-medium truncate">
                 Viewing as <strong>{currentUser.name}</strong> (
                 {formatRole(currentUser.role)})
+                {impersonationSession && (
+                  <>
+                    {" · "}
+                    {impersonationSession.mode === "read_write" ? "Read-write (audited)" : "Read-only"}
+                    {" · "}
+                    {Math.ceil(impersonationMsLeft / 60000)} min left
+                  </>
+                )}
               </span>
             </div>
             <button
@@ -422,7 +469,7 @@ const Layout: React.FC<LayoutProps> = ({
               className="px-3 py-1.5 bg-white text-amber-600 rounded-md font-medium text-xs hover:bg-amber-50 transition-colors flex items-center gap-1.5 flex-shrink-0 min-h-[32px] touch-manipulation"
             >
               <LogOut className="w-3.5 h-3.5" />
-              Exit
+              End session
             </button>
           </div>
         </div>
@@ -718,6 +765,12 @@ const Layout: React.FC<LayoutProps> = ({
                   label="Operators"
                   className="text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30"
                 />
+                <NavItem
+                  page="moderation"
+                  icon={Flag}
+                  label="Moderation"
+                  className="text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30"
+                />
               </>
             )}
 
@@ -730,6 +783,7 @@ const Layout: React.FC<LayoutProps> = ({
                 <NavItem page="participants" icon={Users} label="Users" />
                 <NavItem page="matching" icon={Repeat} label="Matches" />
                 <NavItem page="referrals" icon={UserPlus} label="Referrals" />
+                <NavItem page="moderation" icon={Flag} label="Moderation" />
               </div>
             )}
 
@@ -0,0 +1,284 @@
+import React, { useState } from "react";
+import { Check, X, Pause, Play, Flag, Star, Clock } from "lucide-react";
+import { Match, MatchStatus, User } from "../types";
+import { INPUT_CLASS, BUTTON_PRIMARY, CARD_CLASS } from "../styles/common";
+import {
+  getDaysUntilEnd,
+  getMatchSide,
+  isMatchEndingSoon,
+  needsClosureFeedback,
+} from "../utils/matchLifecycle";
+
+export interface MatchLifecycleActions {
+  onRespond: (match: Match, decision: "accepted" | "declined", reason?: string) => Promise<void>;
+  onPause: (match: Match, reason?: string) => Promise<void>;
+  onResume: (match: Match) => Promise<void>;
+  onClose: (match: Match, reason?: string) => Promise<void>;
+  onSubmitFeedback: (match: Match, outcomeSummary: string, rating: number) => Promise<void>;
+}
+
+interface MatchLifecyclePanelProps extends MatchLifecycleActions {
+  user: User;
+  users: User[];
+  matches: Match[];
+}
+
+type FormKind = "decline" | "pause" | "close" | "feedback";
+
+/**
+ * Mentor/mentee controls for their matches: answer proposals, pause/resume or end running
+ * matches, and leave closure feedback. Renders nothing when there is nothing to act on.
+ */
+const MatchLifecyclePanel: React.FC<MatchLifecyclePanelProps> = ({
+  user,
+  users,
+  matches,
+  onRespond,
+  onPause,
+  onResume,
+  onClose,
+  onSubmitFeedback,
+}) => {
+  const [form, setForm] = useState<{ matchId: string; kind: FormKind } | null>(null);
+  const [text, setText] = useState("");
+  const [rating, setRating] = useState(0);
+  const [busyMatchId, setBusyMatchId] = useState<string | null>(null);
+
+  const myMatches = matches.filter((m) => getMatchSide(m, user.id));
+  const proposals = myMatches.filter((m) => m.status === MatchStatus.PENDING);
+  const ongoing = myMatches.filter(
+    (m) => m.status === MatchStatus.ACTIVE || m.status === MatchStatus.PAUSED,
+  );
+  const awaitingFeedback = myMatches.filter((m) => needsClosureFeedback(m, user.id));
+
+  if (proposals.length === 0 && ongoing.length === 0 && awaitingFeedback.length === 0) {
+    return null;
+  }
+
+  const partnerOf = (match: Match) =>
+    users.find((u) => u.id === (match.mentorId === user.id ? match.menteeId : match.mentorId));
+
+  const openForm = (matchId: string, kind: FormKind) => {
+    setForm({ matchId, kind });
+    setText("");
+    setRating(0);
+  };
+
+  const run = async (match: Match, action: () => Promise<void>) => {
+    setBusyMatchId(match.id);
+    try {
+      await action();
+      setForm(null);
+    } finally {
+      setBusyMatchId(null);
+    }
+  };
+
+  const renderForm = (match: Match) => {
+    if (form?.matchId !== match.id) return null;
+    const isFeedback = form.kind === "feedback";
+    const placeholder = {
+      decline: "Why are you declining this match? (required)",
+      pause: "Reason for pausing (optional)",
+      close: "Why is this mentorship ending? (optional)",
+      feedback: "What did this mentorship achieve?",
+    }[form.kind];
+    const canSubmit =
+      (form.kind !== "decline" || text.trim().length > 0) &&
+      (!isFeedback || (text.trim().length > 0 && rating > 0));
+    const submit = () =>
+      run(match, () =>
+        form.kind === "decline"
+          ? onRespond(match, "declined", text)
+          : form.kind === "pause"
+            ? onPause(match, text)
+            : form.kind === "close"
+              ? onClose(match, text)
+              : onSubmitFeedback(match, text, rating),
+      );
+
+    return (
+      <div className="mt-3 space-y-3">
+        <textarea
+          className={INPUT_CLASS}
+          rows={3}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={placeholder}
+        />
+        {isFeedback && (
+          <div className="flex items-center gap-1" aria-label="Rating">
+            {[1, 2, 3, 4, 5].map((score) => (
+              <button
+                key={score}
+                type="button"
+                onClick={() => setRating(score)}
+                aria-label={`${score} star${score > 1 ? "s" : ""}`}
+              >
+                <Star
+                  className={`w-6 h-6 ${score <= rating ? "text-amber-400 fill-amber-400" : "text-slate-300 dark:text-slate-600"}`}
+                />
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={() => setForm(null)}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={submit}
+            disabled={!canSubmit || busyMatchId === match.id}
+            className={BUTTON_PRIMARY}
+          >
+            {isFeedback ? "Submit Feedback" : "Confirm"}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderPartner = (match: Match, detail: React.ReactNode) => {
+    const partner = partnerOf(match);
+    return (
+      <div className="flex items-center gap-3 min-w-0">
+        {partner?.avatar && (
+          <img src={partner.avatar} alt={partner.name} className="w-10 h-10 rounded-full" />
+        )}
+        <div className="min-w-0">
+          <p className="font-semibold text-slate-900 dark:text-white truncate">
+            {partner?.name || "Unknown user"}
+          </p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">{detail}</p>
+        </div>
+      </div>
+    );
+  };
+
+  const secondaryButton =
+    "px-3 py-2 rounded-lg text-sm font-medium border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center disabled:opacity-50";
+
+  return (
+    <div className={CARD_CLASS}>
+      <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-4">Match Status</h2>
+      <div className="space-y-4">
+        {proposals.map((match) => {
+          const side = getMatchSide(match, user.id)!;
+          const myResponse = side === "mentor" ? match.mentorResponse : match.menteeResponse;
+          return (
+            <div key={match.id} className="border-b border-slate-100 dark:border-slate-800 pb-4 last:border-0 last:pb-0">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                {renderPartner(
+                  match,
+                  `Proposed match${match.durationWeeks ? ` · ${match.durationWeeks} weeks` : ""}`,
+                )}
+                {myResponse ? (
+                  <span className="text-xs font-medium text-slate-500 dark:text-slate-400">
+                    You accepted · waiting for {partnerOf(match)?.name || "the other side"}
+                  </span>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => run(match, () => onRespond(match, "accepted"))}
+                      disabled={busyMatchId === match.id}
+                      className={BUTTON_PRIMARY}
+                    >
+                      <Check className="w-4 h-4 mr-1" /> Accept
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openForm(match.id, "decline")}
+                      className={secondaryButton}
+                    >
+                      <X className="w-4 h-4 mr-1" /> Decline
+                    </button>
+                  </div>
+                )}
+              </div>
+              {renderForm(match)}
+            </div>
+          );
+        })}
+
+        {ongoing.map((match) => {
+          const isPaused = match.status === MatchStatus.PAUSED;
+          const daysLeft = getDaysUntilEnd(match);
+          return (
+            <div key={match.id} className="border-b border-slate-100 dark:border-slate-800 pb-4 last:border-0 last:pb-0">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                {renderPartner(
+                  match,
+                  isPaused
+                    ? `Paused${match.pauseReason ? ` · ${match.pauseReason}` : ""}`
+                    : match.endDate
+                      ? `Active until ${match.endDate}`
+                      : "Active",
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  {isMatchEndingSoon(match) && daysLeft !== null && (
+                    <span className="text-xs font-semibold text-amber-700 bg-amber-100 dark:bg-amber-900/30 dark:text-amber-400 px-2 py-1 rounded-full flex items-center">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {daysLeft > 0 ? `Ends in ${daysLeft} day${daysLeft === 1 ? "" : "s"}` : "Ending"}
+                    </span>
+                  )}
+                  {isPaused ? (
+                    <button
+                      type="button"
+                      onClick={() => run(match, () => onResume(match))}
+                      disabled={busyMatchId === match.id}
+                      className={secondaryButton}
+                    >
+                      <Play className="w-4 h-4 mr-1" /> Resume
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => openForm(match.id, "pause")}
+                      className={secondaryButton}
+                    >
+                      <Pause className="w-4 h-4 mr-1" /> Pause
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => openForm(match.id, "close")}
+                    className={secondaryButton}
+                  >
+                    <Flag className="w-4 h-4 mr-1" /> End Mentorship
+                  </button>
+                </div>
+              </div>
+              {renderForm(match)}
+            </div>
+          );
+        })}
+
+        {awaitingFeedback.map((match) => (
+          <div key={match.id} className="border-b border-slate-100 dark:border-slate-800 pb-4 last:border-0 last:pb-0">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              {renderPartner(match, `Ended ${match.closedAt ? match.closedAt.split("T")[0] : ""}`)}
+              {form?.matchId !== match.id && (
+                <button
+                  type="button"
+                  onClick={() => openForm(match.id, "feedback")}
+                  className={BUTTON_PRIMARY}
+                >
+                  <Star className="w-4 h-4 mr-1" /> Share Outcome
+                </button>
+              )}
+            </div>
+            {renderForm(match)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatchLifecyclePanel;
@@ -1,29 +1,55 @@
 
-import React, { useState } from 'react';
-import { User, Match, Role, MatchStatus } from '../types';
+import React, { useState, useEffect } from 'react';
+import { User, Match, Role, MatchStatus, BlockRecord, MatchingWeights } from '../types';
 import { INPUT_CLASS } from '../styles/common';
-import { Users, Search, X, CheckCircle, ArrowRight, Briefcase, GraduationCap, Sparkles, MessageSquare, Loader2, Repeat, List, Link2, Calendar, Menu } from 'lucide-react';
+import { Users, Search, X, CheckCircle, ArrowRight, Briefcase, GraduationCap, Sparkles, MessageSquare, Loader2, Repeat, List, Link2, Calendar, Menu, SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
 import { getMatchSuggestions } from '../services/geminiService';
 import { logger } from '../services/logger';
 import { getErrorMessage } from '../utils/errors';
+import { isBlockedBetween } from '../utils/blocking';
+import { subscribeToBlocksByOrganization } from '../services/database';
+import { isOpenMatch, MATCH_DURATION_OPTIONS } from '../utils/matchLifecycle';
+import { applyAiRanking, MATCHING_CRITERIA, MAX_CRITERION_WEIGHT, rankMentors, resolveMatchingWeights } from '../utils/matchingEngine';
 
 interface MatchingProps {
   users: User[];
   matches: Match[];
-  onCreateMatch: (mentorId: string, menteeId: string) => void;
+  onCreateMatch: (mentorId: string, menteeId: string, durationWeeks?: number) => void;
+  organizationId?: string;
+  matchingWeights?: MatchingWeights;
+  onUpdateMatchingWeights?: (weights: MatchingWeights) => Promise<void>;
 }
 
 type ViewMode = 'bench' | 'matches';
 
-const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) => {
+const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch, organizationId, matchingWeights, onUpdateMatchingWeights }) => {
   const [selectedMenteeId, setSelectedMenteeId] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [aiSuggestions, setAiSuggestions] = useState<string[]>([]);
+  const [aiReasons, setAiReasons] = useState<Record<string, string>>({});
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('bench');
+  const [blocks, setBlocks] = useState<BlockRecord[]>([]);
+  const [durationWeeks, setDurationWeeks] = useState<number | undefined>(undefined);
+  // Draft weights re-rank the list live; saving stores them on the organization
+  const [draftWeights, setDraftWeights] = useState<MatchingWeights>(() => resolveMatchingWeights(matchingWeights));
+  const [showWeights, setShowWeights] = useState(false);
+  const [isSavingWeights, setIsSavingWeights] = useState(false);
+  const [expandedMentorId, setExpandedMentorId] = useState<string | null>(null);
 
-  const unmatchedMentees = users.filter(u => u.role === Role.MENTEE && !matches.find(m => m.menteeId === u.id && m.status === MatchStatus.ACTIVE));
+  useEffect(() => {
+    setDraftWeights(resolveMatchingWeights(matchingWeights));
+  }, [matchingWeights]);
+
+  useEffect(() => {
+    if (!organizationId) return;
+    const unsubscribe = subscribeToBlocksByOrganization(organizationId, setBlocks);
+    return () => unsubscribe();
+  }, [organizationId]);
+
+  // Mentees with a proposed, active or paused match are not on the bench
+  const unmatchedMentees = users.filter(u => u.role === Role.MENTEE && !matches.find(m => m.menteeId === u.id && isOpenMatch(m)));
   
   // Filter mentors: only show those who are accepting new mentees and haven't reached their quota
   const mentors = users.filter(u => {
@@ -32,9 +58,9 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
     // Check if mentor is accepting new mentees
     if (u.acceptingNewMentees === false) return false;
     
-    // Count active matches for this mentor
+    // Count open matches (proposed, active or paused) for this mentor
     const mentorActiveMatches = matches.filter(m => 
-      m.mentorId === u.id && m.status === MatchStatus.ACTIVE
+      m.mentorId === u.id && isOpenMatch(m)
     ).length;
     
     // Check if mentor has reached their maxMentees quota
@@ -44,14 +70,39 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
     return true;
   });
   
-  const activeMatches = matches.filter(m => m.status === MatchStatus.ACTIVE);
+  const activeMatches = matches.filter(isOpenMatch);
 
   const selectedMentee = users.find(u => u.id === selectedMenteeId);
 
+  // Never offer a mentor who has blocked (or been blocked by) the selected mentee
+  const candidateMentors = selectedMentee
+    ? mentors.filter(m => !isBlockedBetween(blocks, selectedMentee.id, m.id))
+    : mentors;
+
+  const ranking = selectedMentee ? rankMentors(selectedMentee, candidateMentors, matches, draftWeights) : [];
+  const orderedScores = aiSuggestions.length > 0 ? applyAiRanking(ranking, aiSuggestions) : ranking;
+  const scoreByMentorId = new Map(orderedScores.map(score => [score.mentorId, score]));
+  const rankByMentorId = new Map(orderedScores.map((score, index) => [score.mentorId, index]));
+
+  const handleSaveWeights = async () => {
+    if (!onUpdateMatchingWeights) return;
+    setIsSavingWeights(true);
+    try {
+      await onUpdateMatchingWeights(draftWeights);
+      setShowWeights(false);
+    } catch (error: unknown) {
+      logger.error('Error saving matching weights', error);
+      alert(getErrorMessage(error) || 'Failed to save matching weights.');
+    } finally {
+      setIsSavingWeights(false);
+    }
+  };
+
   const toggleViewMode = () => {
     setViewMode(viewMode === 'bench' ? 'matches' : 'bench');
     setSelectedMenteeId('');
     setAiSuggestions([]);
+    setAiReasons({});
     setSearchTerm('');
   };
 
@@ -59,17 +110,23 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
     if (!selectedMentee) return;
     setIsAiLoading(true);
     try {
-      const suggestions = await getMatchSuggestions(selectedMentee, mentors);
+      // Gemini only re-ranks; the local ranking stays in place when it is unavailable
+      const suggestions = await getMatchSuggestions(
+        selectedMentee,
+        candidateMentors,
+        ranking.map(({ mentorId, total }) => ({ mentorId, total }))
+      );
       if (suggestions.length === 0) {
-        // Show user-friendly message if no suggestions (likely API key missing)
-        alert('AI suggestions are currently unavailable. Please ensure the API key is configured.');
+        alert('AI re-ranking is currently unavailable, so mentors stay in their scored order.');
       }
       setAiSuggestions(suggestions.map(s => s.mentorId));
+      setAiReasons(Object.fromEntries(suggestions.map(s => [s.mentorId, s.reason])));
     } catch (error: unknown) {
       logger.error('Error getting AI suggestions', error);
       const errorMessage = getErrorMessage(error) || 'Failed to get AI suggestions. Please try again later.';
       alert(errorMessage);
       setAiSuggestions([]);
+      setAiReasons({});
     } finally {
       setIsAiLoading(false);
     }
@@ -78,6 +135,7 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
   const clearSelection = () => {
     setSelectedMenteeId('');
     setAiSuggestions([]);
+    setAiReasons({});
     setSearchTerm('');
   };
 
@@ -90,22 +148,14 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
     return common;
   };
 
-  const filteredMentors = mentors.filter(m => {
+  const filteredMentors = candidateMentors.filter(m => {
     const matchesSearch = 
       m.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       m.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
       m.skills.some(s => s.toLowerCase().includes(searchTerm.toLowerCase()));
     
     return matchesSearch;
-  }).sort((a, b) => {
-    if (aiSuggestions.length > 0) {
-      const aSuggested = aiSuggestions.includes(a.id);
-      const bSuggested = aiSuggestions.includes(b.id);
-      if (aSuggested && !bSuggested) return -1;
-      if (!aSuggested && bSuggested) return 1;
-    }
-    return 0;
-  });
+  }).sort((a, b) => (rankByMentorId.get(a.id) ?? 0) - (rankByMentorId.get(b.id) ?? 0));
 
   return (
     <div className="flex flex-col md:flex-row h-[calc(100vh-4rem)] sm:h-[calc(100vh-6rem)] md:h-[calc(100vh-140px)] bg-slate-50 dark:bg-slate-950 -m-3 sm:-m-4 md:-m-8 relative">
@@ -121,7 +171,7 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
             ) : (
               <>
                 <Link2 className="w-4 h-4 mr-2 text-slate-500" />
-                Active Matches <span className="ml-2 bg-emerald-200 dark:bg-emerald-800 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full text-xs">{activeMatches.length}</span>
+                Current Matches <span className="ml-2 bg-emerald-200 dark:bg-emerald-800 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full text-xs">{activeMatches.length}</span>
               </>
             )}
           </h2>
@@ -156,7 +206,7 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
                 ) : (
                   <>
                     <Link2 className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-slate-500" />
-                    Active Matches <span className="ml-2 bg-emerald-200 dark:bg-emerald-800 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full text-xs">{activeMatches.length}</span>
+                    Current Matches <span className="ml-2 bg-emerald-200 dark:bg-emerald-800 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full text-xs">{activeMatches.length}</span>
                   </>
                 )}
               </h2>
@@ -205,6 +255,8 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
               onClick={() => { 
                 setSelectedMenteeId(mentee.id); 
                 setAiSuggestions([]);
+                setAiReasons({});
+                setExpandedMentorId(null);
                 setIsMobileMenuOpen(false);
               }}
               className={`w-full text-left p-3 rounded-xl border transition-all duration-200 group relative ${
@@ -262,9 +314,19 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
                       </div>
                     </div>
                     <div className="flex items-center gap-2 text-xs">
-                      <span className="bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full">
-                        Active
-                      </span>
+                      {match.status === MatchStatus.PENDING ? (
+                        <span className="bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-2 py-0.5 rounded-full">
+                          Proposed
+                        </span>
+                      ) : match.status === MatchStatus.PAUSED ? (
+                        <span className="bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-2 py-0.5 rounded-full">
+                          Paused
+                        </span>
+                      ) : (
+                        <span className="bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 px-2 py-0.5 rounded-full">
+                          Active
+                        </span>
+                      )}
                       {match.notes && (
                         <span className="text-slate-500 dark:text-slate-400 truncate flex-1">
                           {match.notes}
@@ -277,7 +339,7 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
               {activeMatches.length === 0 && (
                 <div className="text-center py-10 px-4">
                   <Link2 className="w-10 h-10 text-slate-300 dark:text-slate-700 mx-auto mb-2" />
-                  <p className="text-slate-400 text-sm">No active matches yet</p>
+                  <p className="text-slate-400 text-sm">No current matches yet</p>
                 </div>
               )}
             </>
@@ -381,15 +443,82 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
                  }`}
                >
                  {isAiLoading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
-                 <span className="hidden sm:inline">{aiSuggestions.length > 0 ? 'AI Suggestions Active' : 'Provide suggestions'}</span>
-                 <span className="sm:hidden">{aiSuggestions.length > 0 ? 'AI Active' : 'AI Suggest'}</span>
+                 <span className="hidden sm:inline">{aiSuggestions.length > 0 ? 'AI Re-ranked' : 'Re-rank with AI'}</span>
+                 <span className="sm:hidden">{aiSuggestions.length > 0 ? 'AI Active' : 'AI Re-rank'}</span>
                </button>
+               {onUpdateMatchingWeights && (
+                 <button
+                   onClick={() => setShowWeights(!showWeights)}
+                   className="px-4 py-2 rounded-xl border flex items-center justify-center transition-all text-sm whitespace-nowrap bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-700"
+                   aria-expanded={showWeights}
+                 >
+                   <SlidersHorizontal className="w-4 h-4 mr-2" />
+                   Weights
+                 </button>
+               )}
+               <select
+                 value={durationWeeks ?? ''}
+                 onChange={(e) => setDurationWeeks(e.target.value ? Number(e.target.value) : undefined)}
+                 className={INPUT_CLASS + " sm:w-44"}
+                 aria-label="Match length"
+               >
+                 {MATCH_DURATION_OPTIONS.map(option => (
+                   <option key={option.label} value={option.weeks ?? ''}>{option.label}</option>
+                 ))}
+               </select>
             </div>
 
+            {showWeights && onUpdateMatchingWeights && (
+              <div className="bg-white dark:bg-slate-900 rounded-xl border border-slate-300 dark:border-slate-800 p-5 space-y-4">
+                <div>
+                  <h4 className="font-bold text-slate-900 dark:text-white">Scoring weights</h4>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">How much each criterion counts for your organization (0 = ignore). Changes re-rank the list right away.</p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {MATCHING_CRITERIA.map(({ criterion, label, description }) => (
+                    <label key={criterion} className="block">
+                      <span className="flex justify-between text-sm font-medium text-slate-700 dark:text-slate-300">
+                        {label}
+                        <span className="text-slate-500">{draftWeights[criterion]}</span>
+                      </span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={MAX_CRITERION_WEIGHT}
+                        step={1}
+                        value={draftWeights[criterion]}
+                        onChange={(e) => setDraftWeights({ ...draftWeights, [criterion]: Number(e.target.value) })}
+                        className="w-full accent-emerald-600"
+                      />
+                      <span className="text-xs text-slate-400">{description}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setDraftWeights(resolveMatchingWeights(matchingWeights))}
+                    className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    Reset
+                  </button>
+                  <button
+                    onClick={handleSaveWeights}
+                    disabled={isSavingWeights}
+                    className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50 flex items-center"
+                  >
+                    {isSavingWeights && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save Weights
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                {filteredMentors.map(mentor => {
                   const commonTags = getCommonTags(selectedMentee, mentor);
                   const isSuggested = aiSuggestions.includes(mentor.id);
+                  const score = scoreByMentorId.get(mentor.id);
+                  const isExpanded = expandedMentorId === mentor.id;
                   
                   return (
                     <div key={mentor.id} className={`bg-white dark:bg-slate-900 p-5 rounded-xl border transition-all hover:shadow-md group flex flex-col ${
@@ -403,8 +532,44 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
                                 <p className="text-xs text-slate-500 dark:text-slate-400">{mentor.title} @ {mentor.company}</p>
                              </div>
                           </div>
-                          {isSuggested && <span className="bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300 text-[10px] font-bold px-2 py-0.5 rounded-full flex items-center"><Sparkles className="w-3 h-3 mr-1"/> Best Fit</span>}
+                          <div className="flex flex-col items-end gap-1">
+                             {score && <span className="bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 text-xs font-bold px-2 py-0.5 rounded-full">{score.total}% match</span>}
+                             {isSuggested && <span className="bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300 text-[10px] font-bold px-2 py-0.5 rounded-full flex items-center"><Sparkles className="w-3 h-3 mr-1"/> Best Fit</span>}
+                          </div>
                        </div>
+
+                       {aiReasons[mentor.id] && (
+                          <p className="text-xs text-violet-700 dark:text-violet-300 bg-violet-50 dark:bg-violet-900/20 rounded-lg p-2 mb-3">{aiReasons[mentor.id]}</p>
+                       )}
+
+                       {score && (
+                          <div className="mb-3">
+                             <button
+                                onClick={() => setExpandedMentorId(isExpanded ? null : mentor.id)}
+                                className="text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-emerald-600 flex items-center"
+                                aria-expanded={isExpanded}
+                             >
+                                Score breakdown
+                                {isExpanded ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+                             </button>
+                             {isExpanded && (
+                                <ul className="mt-2 space-y-2">
+                                   {score.breakdown.map(item => (
+                                      <li key={item.criterion} className="text-xs">
+                                         <div className="flex justify-between text-slate-600 dark:text-slate-300">
+                                            <span className="font-medium">{item.label} <span className="text-slate-400">×{item.weight}</span></span>
+                                            <span>{item.score === null ? 'n/a' : `${Math.round(item.score * 100)}%`}</span>
+                                         </div>
+                                         <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden my-1">
+                                            <div className="h-full bg-emerald-500" style={{ width: `${Math.round((item.score ?? 0) * 100)}%` }} />
+                                         </div>
+                                         <p className="text-slate-400">{item.detail}</p>
+                                      </li>
+                                   ))}
+                                </ul>
+                             )}
+                          </div>
+                       )}
                        
                        <div className="mb-4 flex-1">
                           <p className="text-xs text-slate-400 uppercase font-semibold mb-1.5">Specialties & Skills</p>
@@ -427,13 +592,13 @@ const Matching: React.FC<MatchingProps> = ({ users, matches, onCreateMatch }) =>
                        <div className="mt-auto pt-3 border-t border-slate-50 dark:border-slate-800 flex gap-2">
                           <button 
                              onClick={() => {
-                               if (window.confirm(`Are you sure you want to connect ${mentor.name} with ${selectedMentee.name}?`)) {
-                                 onCreateMatch(mentor.id, selectedMentee.id);
+                               if (window.confirm(`Propose a match between ${mentor.name} and ${selectedMentee.name}? Both will be asked to accept it.`)) {
+                                 onCreateMatch(mentor.id, selectedMentee.id, durationWeeks);
                                }
                              }}
                              className="flex-1 bg-slate-900 dark:bg-slate-700 text-white py-2 rounded-lg text-sm font-medium hover:bg-emerald-600 dark:hover:bg-emerald-700 transition-colors flex items-center justify-center"
                           >
-                             Connect
+                             Propose Match
                           </button>
                           <button className="px-3 py-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800 rounded-lg">
                              <MessageSquare className="w-4 h-4" />
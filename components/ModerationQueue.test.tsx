@@ -0,0 +1,188 @@
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import ModerationQueue from "./ModerationQueue";
+import { ChatGroup, ReportRecord, Role, User } from "../types";
+
+const mockSubscribeToReportsByOrganization = vi.fn();
+const mockSubscribeToAllReports = vi.fn();
+const mockGetChatGroupsByOrganization = vi.fn();
+const mockUpdateReport = vi.fn();
+const mockAddReportAction = vi.fn();
+const mockUpdateUser = vi.fn();
+const mockUpdateChatGroup = vi.fn();
+const mockCreateNotification = vi.fn();
+
+vi.mock("../services/database", () => ({
+  subscribeToReportsByOrganization: (...args: unknown[]) => mockSubscribeToReportsByOrganization(...args),
+  subscribeToAllReports: (...args: unknown[]) => mockSubscribeToAllReports(...args),
+  getChatGroupsByOrganization: (...args: unknown[]) => mockGetChatGroupsByOrganization(...args),
+  updateReport: (...args: unknown[]) => mockUpdateReport(...args),
+  addReportAction: (...args: unknown[]) => mockAddReportAction(...args),
+  updateUser: (...args: unknown[]) => mockUpdateUser(...args),
+  updateChatGroup: (...args: unknown[]) => mockUpdateChatGroup(...args),
+  createNotification: (...args: unknown[]) => mockCreateNotification(...args),
+}));
+
+vi.mock("../services/logger", () => ({
+  logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const admin = { id: "admin-1", name: "Dana Admin", organizationId: "org-1", role: Role.ADMIN } as User;
+const users = [
+  admin,
+  { id: "user-1", name: "Riley Reporter", organizationId: "org-1", role: Role.MENTEE },
+  { id: "user-2", name: "Sam Spammer", organizationId: "org-1", role: Role.MENTOR },
+] as User[];
+
+const report = (overrides: Partial<ReportRecord>): ReportRecord => ({
+  id: "report-1",
+  organizationId: "org-1",
+  reporterId: "user-1",
+  reportedId: "user-2",
+  reason: "Spam",
+  description: "Keeps sending links",
+  timestamp: "2026-03-01T10:00:00.000Z",
+  status: "open",
+  reportedMessages: [{ id: "m1", chatId: "user-2", text: "buy now", timestamp: "2026-03-01T09:59:00.000Z" }],
+  ...overrides,
+});
+
+const group = { id: "group-1", name: "Cohort A", members: ["user-1", "user-2"] } as ChatGroup;
+
+const renderQueue = (reports: ReportRecord[], isPlatformOperator = false) => {
+  const addToast = vi.fn();
+  const onReports = (callback: (next: ReportRecord[]) => void) => {
+    callback(reports);
+    return () => undefined;
+  };
+  mockSubscribeToReportsByOrganization.mockImplementation((_orgId: string, callback: (next: ReportRecord[]) => void) =>
+    onReports(callback)
+  );
+  mockSubscribeToAllReports.mockImplementation(onReports);
+  render(
+    <ModerationQueue
+      currentUser={admin}
+      users={users}
+      organizationId="org-1"
+      isPlatformOperator={isPlatformOperator}
+      onNavigate={vi.fn()}
+      addToast={addToast}
+    />
+  );
+  return { addToast };
+};
+
+describe("ModerationQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetChatGroupsByOrganization.mockResolvedValue([group]);
+    mockUpdateReport.mockResolvedValue(undefined);
+    mockAddReportAction.mockResolvedValue(undefined);
+    mockUpdateUser.mockResolvedValue(undefined);
+    mockUpdateChatGroup.mockResolvedValue(undefined);
+    mockCreateNotification.mockResolvedValue("n1");
+  });
+  afterEach(cleanup);
+
+  it("lists the organization's open reports and counts each status", () => {
+    renderQueue([report({}), report({ id: "report-2", status: "dismissed", reportedId: "user-1" })]);
+
+    expect(mockSubscribeToReportsByOrganization).toHaveBeenCalledWith("org-1", expect.any(Function));
+    expect(mockSubscribeToAllReports).not.toHaveBeenCalled();
+    expect(screen.getByRole("button", { name: "Open (1)" })).toBeTruthy();
+    expect(screen.getByRole("button", { name: "Dismissed (1)" })).toBeTruthy();
+    expect(screen.getByText("Sam Spammer")).toBeTruthy();
+    expect(screen.queryByText("Riley Reporter")).toBeNull();
+  });
+
+  it("shows reports from every organization to platform operators", () => {
+    renderQueue([report({})], true);
+
+    expect(mockSubscribeToAllReports).toHaveBeenCalled();
+    expect(mockSubscribeToReportsByOrganization).not.toHaveBeenCalled();
+  });
+
+  it("mutes the reported user for the chosen duration and records the action", async () => {
+    const { addToast } = renderQueue([report({})]);
+    fireEvent.click(screen.getByText("Sam Spammer"));
+    fireEvent.change(screen.getByLabelText("Mute duration"), { target: { value: String(24 * 7) } });
+
+    const before = Date.now();
+    fireEvent.click(screen.getByRole("button", { name: /mute$/i }));
+
+    await waitFor(() => expect(addToast).toHaveBeenCalledWith("User muted", "success"));
+    const [userId, { mutedUntil }] = mockUpdateUser.mock.calls[0];
+    expect(userId).toBe("user-2");
+    const mutedMs = new Date(mutedUntil).getTime() - before;
+    expect(mutedMs).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000 - 1000);
+    expect(mutedMs).toBeLessThanOrEqual(7 * 24 * 60 * 60 * 1000 + 1000);
+    expect(mockAddReportAction).toHaveBeenCalledWith(
+      "report-1",
+      expect.objectContaining({ type: "mute", performedBy: "admin-1", mutedUntil })
+    );
+  });
+
+  it("removes the reported user from a group they belong to", async () => {
+    const { addToast } = renderQueue([report({})]);
+    fireEvent.click(screen.getByText("Sam Spammer"));
+
+    fireEvent.click(await screen.findByRole("button", { name: /remove from group/i }));
+
+    await waitFor(() => expect(addToast).toHaveBeenCalledWith("User removed from Cohort A", "success"));
+    expect(mockUpdateChatGroup).toHaveBeenCalledWith("group-1", { members: ["user-1"] });
+    expect(mockAddReportAction).toHaveBeenCalledWith(
+      "report-1",
+      expect.objectContaining({ type: "remove_from_group", groupId: "group-1" })
+    );
+  });
+
+  it("sends the moderator's note with a warning", async () => {
+    const { addToast } = renderQueue([report({})]);
+    fireEvent.click(screen.getByText("Sam Spammer"));
+    fireEvent.change(screen.getByPlaceholderText(/optional note/i), { target: { value: "Please stop posting links" } });
+
+    fireEvent.click(screen.getByRole("button", { name: /warn/i }));
+
+    await waitFor(() => expect(addToast).toHaveBeenCalledWith("Warning sent", "success"));
+    expect(mockCreateNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user-2", organizationId: "org-1", body: "Please stop posting links" })
+    );
+  });
+
+  it("suspends the reported user", async () => {
+    const { addToast } = renderQueue([report({})]);
+    fireEvent.click(screen.getByText("Sam Spammer"));
+
+    fireEvent.click(screen.getByRole("button", { name: /suspend/i }));
+
+    await waitFor(() => expect(addToast).toHaveBeenCalledWith("User suspended", "success"));
+    expect(mockUpdateUser).toHaveBeenCalledWith("user-2", expect.objectContaining({ suspended: true }));
+    expect(mockAddReportAction).toHaveBeenCalledWith("report-1", expect.objectContaining({ type: "suspend" }));
+  });
+
+  it("dismisses a report with the resolution note", async () => {
+    const { addToast } = renderQueue([report({})]);
+    fireEvent.click(screen.getByText("Sam Spammer"));
+    fireEvent.change(screen.getByPlaceholderText(/optional note/i), { target: { value: "Not spam" } });
+
+    fireEvent.click(screen.getByRole("button", { name: "Dismiss" }));
+
+    await waitFor(() => expect(addToast).toHaveBeenCalledWith("Report marked as dismissed", "success"));
+    expect(mockUpdateReport).toHaveBeenCalledWith("report-1", {
+      status: "dismissed",
+      resolutionNote: "Not spam",
+      updatedBy: "admin-1",
+    });
+  });
+
+  it("reports failures as an error toast", async () => {
+    mockUpdateUser.mockRejectedValueOnce(new Error("Missing or insufficient permissions."));
+    const { addToast } = renderQueue([report({})]);
+    fireEvent.click(screen.getByText("Sam Spammer"));
+
+    fireEvent.click(screen.getByRole("button", { name: /suspend/i }));
+
+    await waitFor(() => expect(addToast).toHaveBeenCalledWith("Missing or insufficient permissions.", "error"));
+    expect(mockAddReportAction).not.toHaveBeenCalled();
+  });
+});
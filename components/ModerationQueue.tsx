@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { User, ReportRecord, ReportStatus, ChatGroup } from '../types';
+import { INPUT_CLASS, CARD_CLASS } from '../styles/common';
+import { Flag, MessageSquare, AlertTriangle, VolumeX, UserMinus, Ban, CheckCircle, Search, XCircle } from 'lucide-react';
+import {
+    subscribeToReportsByOrganization,
+    subscribeToAllReports,
+    getChatGroupsByOrganization,
+} from '../services/database';
+import { useModerationActions } from '../hooks/useModerationActions';
+import { logger } from '../services/logger';
+
+interface ModerationQueueProps {
+    currentUser: User;
+    users: User[];
+    organizationId: string;
+    /** Platform operators see reports from every organization. */
+    isPlatformOperator: boolean;
+    onNavigate: (page: string) => void;
+    addToast: (msg: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const STATUS_TABS: { id: ReportStatus; label: string }[] = [
+    { id: 'open', label: 'Open' },
+    { id: 'investigating', label: 'Investigating' },
+    { id: 'actioned', label: 'Actioned' },
+    { id: 'dismissed', label: 'Dismissed' },
+];
+
+const MUTE_DURATIONS: { hours: number; label: string }[] = [
+    { hours: 24, label: '24 hours' },
+    { hours: 24 * 7, label: '7 days' },
+    { hours: 24 * 30, label: '30 days' },
+];
+
+const ACTION_LABELS: Record<string, string> = {
+    warn: 'Warned',
+    mute: 'Muted',
+    remove_from_group: 'Removed from group',
+    suspend: 'Suspended',
+};
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({
+    currentUser,
+    users,
+    organizationId,
+    isPlatformOperator,
+    onNavigate,
+    addToast,
+}) => {
+    const [reports, setReports] = useState<ReportRecord[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<ReportStatus>('open');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [note, setNote] = useState('');
+    const [muteHours, setMuteHours] = useState(MUTE_DURATIONS[0].hours);
+    const [groups, setGroups] = useState<ChatGroup[]>([]);
+    const [selectedGroupId, setSelectedGroupId] = useState('');
+    const [busy, setBusy] = useState(false);
+
+    const { handleSetReportStatus, handleWarnUser, handleMuteUser, handleRemoveFromGroup, handleSuspendUser } =
+        useModerationActions(addToast, currentUser);
+
+    useEffect(() => {
+        setLoading(true);
+        const onReports = (next: ReportRecord[]) => {
+            setReports(next);
+            setLoading(false);
+        };
+        const unsubscribe = isPlatformOperator
+            ? subscribeToAllReports(onReports)
+            : subscribeToReportsByOrganization(organizationId, onReports);
+        return () => unsubscribe();
+    }, [organizationId, isPlatformOperator]);
+
+    const counts = useMemo(() => {
+        const byStatus: Record<ReportStatus, number> = { open: 0, investigating: 0, actioned: 0, dismissed: 0 };
+        reports.forEach(r => {
+            byStatus[r.status || 'open'] += 1;
+        });
+        return byStatus;
+    }, [reports]);
+
+    const filteredReports = useMemo(
+        () => reports.filter(r => (r.status || 'open') === statusFilter),
+        [reports, statusFilter]
+    );
+
+    const selectedReport = reports.find(r => r.id === selectedId) || null;
+
+    // Load the groups the reported user belongs to, for the "remove from group" action
+    useEffect(() => {
+        setGroups([]);
+        setSelectedGroupId('');
+        setNote('');
+        if (!selectedReport) return;
+        let cancelled = false;
+        getChatGroupsByOrganization(selectedReport.organizationId)
+            .then(all => {
+                if (cancelled) return;
+                const memberOf = all.filter(g => g.members?.includes(selectedReport.reportedId));
+                setGroups(memberOf);
+                setSelectedGroupId(memberOf[0]?.id || '');
+            })
+            .catch(err => logger.error('Error loading chat groups for moderation', err));
+        return () => {
+            cancelled = true;
+        };
+        // Only reload when a different report is opened
+    }, [selectedReport?.id]);
+
+    const userName = (userId: string) => users.find(u => u.id === userId)?.name || userId;
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        try {
+            await action();
+            setNote('');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6 animate-in fade-in duration-500">
+            {/* Header */}
+            <div>
+                <h1 className="text-xl sm:text-2xl font-bold text-slate-900 dark:text-white flex flex-wrap items-center gap-2">
+                    <Flag className="w-6 h-6 text-red-500 flex-shrink-0" />
+                    <span>Moderation Queue</span>
+                </h1>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                    Review user reports from chat and take action.
+                    {isPlatformOperator && ' Showing reports from all organizations.'}
+                </p>
+            </div>
+
+            {/* Status tabs */}
+            <div className="flex flex-wrap gap-2">
+                {STATUS_TABS.map(tab => (
+                    <button
+                        key={tab.id}
+                        onClick={() => {
+                            setStatusFilter(tab.id);
+                            setSelectedId(null);
+                        }}
+                        className={`px-3 py-2 rounded-lg text-sm font-medium min-h-[44px] touch-manipulation transition-colors ${statusFilter === tab.id
+                            ? 'bg-emerald-600 text-white'
+                            : 'bg-white dark:bg-slate-900 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800'
+                            }`}
+                    >
+                        {tab.label} ({counts[tab.id]})
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Report list */}
+                <div className={CARD_CLASS + ' lg:col-span-1 !p-0 overflow-hidden'}>
+                    {loading ? (
+                        <p className="p-4 text-sm text-slate-500">Loading reports...</p>
+                    ) : filteredReports.length === 0 ? (
+                        <div className="p-8 text-center">
+                            <CheckCircle className="w-10 h-10 text-slate-300 mx-auto mb-2" />
+                            <p className="text-sm text-slate-500">No {statusFilter} reports.</p>
+                        </div>
+                    ) : (
+                        <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {filteredReports.map(report => (
+                                <li key={report.id}>
+                                    <button
+                                        onClick={() => setSelectedId(report.id)}
+                                        className={`w-full text-left p-4 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors ${selectedId === report.id ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''}`}
+                                    >
+                                        <p className="text-sm font-semibold text-slate-900 dark:text-white">
+                                            {userName(report.reportedId)}
+                                        </p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            {report.reason} · reported by {userName(report.reporterId)}
+                                        </p>
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            {new Date(report.timestamp).toLocaleString()}
+                                        </p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Report detail */}
+                <div className={CARD_CLASS + ' lg:col-span-2'}>
+                    {!selectedReport ? (
+                        <p className="text-sm text-slate-500 text-center py-8">Select a report to review it.</p>
+                    ) : (
+                        <div className="space-y-5">
+                            <div className="flex flex-wrap items-start justify-between gap-2">
+                                <div>
+                                    <h3 className="text-lg font-bold text-slate-900 dark:text-white">
+                                        {userName(selectedReport.reportedId)}
+                                    </h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                                        {selectedReport.reason} · reported by {userName(selectedReport.reporterId)} on{' '}
+                                        {new Date(selectedReport.timestamp).toLocaleString()}
+                                    </p>
+                                    {isPlatformOperator && (
+                                        <p className="text-xs text-slate-400 mt-1">Organization: {selectedReport.organizationId}</p>
+                                    )}
+                                </div>
+                                {selectedReport.chatId && (
+                                    <button
+                                        onClick={() => onNavigate(`chat:${selectedReport.reportedId}`)}
+                                        className="text-sm text-emerald-600 hover:underline flex items-center"
+                                    >
+                                        <MessageSquare className="w-4 h-4 mr-1" /> Open chat
+                                    </button>
+                                )}
+                            </div>
+
+                            {selectedReport.description && (
+                                <div>
+                                    <h4 className="text-xs font-semibold text-slate-500 uppercase mb-1">Description</h4>
+                                    <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
+                                        {selectedReport.description}
+                                    </p>
+                                </div>
+                            )}
+
+                            <div>
+                                <h4 className="text-xs font-semibold text-slate-500 uppercase mb-1">Reported messages</h4>
+                                {selectedReport.reportedMessages && selectedReport.reportedMessages.length > 0 ? (
+                                    <ul className="space-y-2 max-h-64 overflow-y-auto">
+                                        {selectedReport.reportedMessages.map(msg => (
+                                            <li key={msg.id} className="p-3 rounded-lg bg-slate-50 dark:bg-slate-800 text-sm">
+                                                <p className="text-slate-800 dark:text-slate-200 whitespace-pre-wrap break-words">{msg.text}</p>
+                                                <p className="text-xs text-slate-400 mt-1">{new Date(msg.timestamp).toLocaleString()}</p>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                ) : (
+                                    <p className="text-sm text-slate-400">No messages were attached to this report.</p>
+                                )}
+                            </div>
+
+                            {selectedReport.actions && selectedReport.actions.length > 0 && (
+                                <div>
+                                    <h4 className="text-xs font-semibold text-slate-500 uppercase mb-1">Action history</h4>
+                                    <ul className="space-y-1 text-sm text-slate-600 dark:text-slate-300">
+                                        {selectedReport.actions.map((action, i) => (
+                                            <li key={`${action.type}-${action.performedAt}-${i}`}>
+                                                {ACTION_LABELS[action.type] || action.type} by {userName(action.performedBy)} on{' '}
+                                                {new Date(action.performedAt).toLocaleString()}
+                                                {action.mutedUntil && ` (until ${new Date(action.mutedUntil).toLocaleString()})`}
+                                                {action.note && ` — ${action.note}`}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                                    Moderator note
+                                </label>
+                                <textarea
+                                    className={INPUT_CLASS}
+                                    rows={2}
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                    placeholder="Optional note (sent with warnings, saved with actions)"
+                                />
+                            </div>
+
+                            {/* Actions */}
+                            <div className="flex flex-wrap gap-2">
+                                <button
+                                    disabled={busy}
+                                    onClick={() => run(() => handleWarnUser(selectedReport, note))}
+                                    className="px-3 py-2 rounded-lg text-sm font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300 hover:bg-amber-200 disabled:opacity-50 flex items-center min-h-[44px]"
+                                >
+                                    <AlertTriangle className="w-4 h-4 mr-1" /> Warn
+                                </button>
+                                <div className="flex items-center gap-1">
+                                    <select
+                                        className={INPUT_CLASS + ' !w-auto'}
+                                        value={muteHours}
+                                        onChange={(e) => setMuteHours(Number(e.target.value))}
+                                        aria-label="Mute duration"
+                                    >
+                                        {MUTE_DURATIONS.map(d => (
+                                            <option key={d.hours} value={d.hours}>{d.label}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        disabled={busy}
+                                        onClick={() => run(() => handleMuteUser(selectedReport, muteHours, note))}
+                                        className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-200 hover:bg-slate-200 disabled:opacity-50 flex items-center min-h-[44px]"
+                                    >
+                                        <VolumeX className="w-4 h-4 mr-1" /> Mute
+                                    </button>
+                                </div>
+                                {groups.length > 0 && (
+                                    <div className="flex items-center gap-1">
+                                        <select
+                                            className={INPUT_CLASS + ' !w-auto'}
+                                            value={selectedGroupId}
+                                            onChange={(e) => setSelectedGroupId(e.target.value)}
+                                            aria-label="Group"
+                                        >
+                                            {groups.map(g => (
+                                                <option key={g.id} value={g.id}>{g.name}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            disabled={busy || !selectedGroupId}
+                                            onClick={() => {
+                                                const group = groups.find(g => g.id === selectedGroupId);
+                                                if (group) {
+                                                    run(async () => {
+                                                        await handleRemoveFromGroup(selectedReport, group, note);
+                                                        setGroups(prev => prev.filter(g => g.id !== group.id));
+                                                    });
+                                                }
+                                            }}
+                                            className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-200 hover:bg-slate-200 disabled:opacity-50 flex items-center min-h-[44px]"
+                                        >
+                                            <UserMinus className="w-4 h-4 mr-1" /> Remove from group
+                                        </button>
+                                    </div>
+                                )}
+                                <button
+                                    disabled={busy}
+                                    onClick={() => run(() => handleSuspendUser(selectedReport, note))}
+                                    className="px-3 py-2 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 flex items-center min-h-[44px]"
+                                >
+                                    <Ban className="w-4 h-4 mr-1" /> Suspend
+                                </button>
+                            </div>
+
+                            {/* Triage */}
+                            <div className="flex flex-wrap gap-2 pt-4 border-t border-slate-200 dark:border-slate-800">
+                                {selectedReport.status !== 'investigating' && (
+                                    <button
+                                        disabled={busy}
+                                        onClick={() => run(() => handleSetReportStatus(selectedReport, 'investigating', note || undefined))}
+                                        className="px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center min-h-[44px]"
+                                    >
+                                        <Search className="w-4 h-4 mr-1" /> Mark investigating
+                                    </button>
+                                )}
+                                {selectedReport.status !== 'dismissed' && (
+                                    <button
+                                        disabled={busy}
+                                        onClick={() => run(() => handleSetReportStatus(selectedReport, 'dismissed', note || undefined))}
+                                        className="px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center min-h-[44px]"
+                                    >
+                                        <XCircle className="w-4 h-4 mr-1" /> Dismiss
+                                    </button>
+                                )}
+                                {selectedReport.status !== 'open' && (
+                                    <button
+                                        disabled={busy}
+                                        onClick={() => run(() => handleSetReportStatus(selectedReport, 'open'))}
+                                        className="px-3 py-2 rounded-lg text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center min-h-[44px]"
+                                    >
+                                        <Flag className="w-4 h-4 mr-1" /> Reopen
+                                    </button>
+                                )}
+                            </div>
+                            {selectedReport.resolutionNote && (
+                                <p className="text-xs text-slate-500">Resolution note: {selectedReport.resolutionNote}</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModerationQueue;
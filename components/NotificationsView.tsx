@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Notification } from '../types';
 import { CARD_CLASS, INPUT_CLASS } from '../styles/common';
+import { notificationPage } from '../utils/routes';
 import { Bell, Check, Trash2, Search, MailOpen, ArrowLeft } from 'lucide-react';
 
 interface NotificationsViewProps {
@@ -109,13 +110,11 @@ const NotificationsView: React.FC<NotificationsViewProps> = ({
                         </div>
                     ) : (
                         filteredNotifications.map(n => {
-                            const isClickable = n.type === 'match' && n.chatId;
+                            // Opens the chat, goal or event the notification is about
+                            const targetPage = notificationPage(n);
+                            const isClickable = !!targetPage;
                             const handleClick = () => {
-                                if (isClickable && n.chatId) {
-                                    // Navigate to chat with the specific chatId
-                                    // The chat page will use initialChatId prop
-                                    onNavigate(`chat:${n.chatId}`);
-                                }
+                                if (targetPage) onNavigate(targetPage);
                             };
                             
                             return (
@@ -28,6 +28,8 @@ import {
 import { Logo } from "./Logo";
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from "../styles/common";
 import { BlogPost } from "../types";
+import BlogArticle from "./BlogArticle";
+import { findBlogPost, getBlogPostSlug } from "../utils/blogPosts";
 // Input styling for better contrast
 const FORM_INPUT_CLASS =
   "w-full border border-slate-300 dark:border-slate-700 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none bg-white dark:bg-slate-900 text-slate-900 dark:text-slate-100 placeholder-slate-400 dark:placeholder-slate-500 transition-colors";
@@ -38,6 +40,9 @@ interface PublicPagesProps {
   onSignup: () => void;
   onLogin: () => void;
   blogPosts?: BlogPost[];
+  /** Article to show on the blog page; null/undefined shows the list */
+  blogSlug?: string | null;
+  blogPostsLoading?: boolean;
 }
 
 const PublicPages: React.FC<PublicPagesProps> = ({
@@ -46,6 +51,8 @@ const PublicPages: React.FC<PublicPagesProps> = ({
   onSignup,
   onLogin,
   blogPosts = [],
+  blogSlug,
+  blogPostsLoading = false,
 }) => {
   const [billingPeriod, setBillingPeriod] = useState<"monthly" | "annual">("monthly");
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -680,6 +687,18 @@ const PublicPages: React.FC<PublicPagesProps> = ({
           </div>
         );
       case "blog":
+        if (blogSlug) {
+          const post = findBlogPost(blogPosts, blogSlug);
+          // Deep links render before the posts arrive; wait rather than flash "not found"
+          if (!post && blogPostsLoading) {
+            return (
+              <div className="flex justify-center py-32">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-emerald-600"></div>
+              </div>
+            );
+          }
+          return <BlogArticle post={post} onBack={() => onNavigate("blog")} />;
+        }
         return (
           <div className="max-w-7xl mx-auto px-6 py-16 animate-in fade-in">
             <div className="text-center mb-16">
@@ -703,7 +722,11 @@ const PublicPages: React.FC<PublicPagesProps> = ({
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 {blogPosts.map((post) => (
-                  <div key={post.id} className="group cursor-pointer">
+                  <div
+                    key={post.id}
+                    className="group cursor-pointer"
+                    onClick={() => onNavigate(`blog:${getBlogPostSlug(post)}`)}
+                  >
                     <div className="rounded-2xl overflow-hidden mb-4 relative aspect-[4/3] bg-slate-200 dark:bg-slate-800">
                       <div className="absolute inset-0 bg-slate-900/10 group-hover:bg-slate-900/0 transition-colors z-10"></div>
                       <img
@@ -1,8 +1,19 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { User, Role, Invitation } from '../types';
+import { User, Role, Invitation, Organization } from '../types';
 import { INPUT_CLASS, BUTTON_PRIMARY, CARD_CLASS } from '../styles/common';
-import { ArrowLeft, Send, Mail, UserPlus, Upload, FileText, CheckCircle, Clock, X, Eye, Copy, Check, Link as LinkIcon, ExternalLink, Pencil, Download } from 'lucide-react';
-import { createInvitation, getInvitation, getInvitationByEmail, checkOrganizationCodeAvailable } from '../services/database';
+import { ArrowLeft, Send, Mail, UserPlus, Upload, FileText, CheckCircle, Clock, X, Eye, Copy, Check, Link as LinkIcon, ExternalLink, Pencil, Download, Ban } from 'lucide-react';
+import { createInvitation, getInvitation, getInvitationByEmail, checkOrganizationCodeAvailable, revokeInvitation } from '../services/database';
+import { getEntitlements, getMinimumTierForParticipants, getRemainingParticipantSeats, isParticipantRole } from '../utils/entitlements';
+import {
+  buildInvitationFunnel,
+  getInvitationExpiresAt,
+  getInvitationExpiry,
+  getInvitationExpiryDays,
+  INVITATION_REMINDER_DAYS,
+  MAX_INVITATION_EXPIRY_DAYS,
+  MIN_INVITATION_EXPIRY_DAYS,
+} from '../utils/invitations';
+import { UpgradePrompt, UsageMeter } from './UpgradePrompt';
 
 // Organization code constraints (for security/UX) - avoid confusing chars: 0,O,1,I,L
 const ORG_CODE_MIN = 4;
@@ -21,13 +32,22 @@ interface ReferralsProps {
   addToast?: (message: string, type?: 'success' | 'error' | 'info') => void;
   organizationCode?: string;
   organizationId?: string;
+  /** Plan and participant usage; bulk uploads are capped at the remaining seats */
+  organization?: Organization | null;
   onUpdateOrganizationCode?: (newCode: string) => Promise<void>;
+  /** Organization members, for the onboarded stage of the invitation funnel */
+  users?: User[];
+  onUpdateInvitationExpiry?: (days: number) => Promise<void>;
 }
 
+const FUNNEL_ROLE_LABELS: Record<string, string> = { [Role.MENTOR]: 'Mentors', [Role.MENTEE]: 'Mentees' };
+
+const percentOf = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
-const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendInvite, existingInvitations, addToast, organizationCode, organizationId, onUpdateOrganizationCode }) => {
-  const [activeTab, setActiveTab] = useState<'invite' | 'bulk' | 'track'>('invite');
+const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendInvite, existingInvitations, addToast, organizationCode, organizationId, organization, onUpdateOrganizationCode, users, onUpdateInvitationExpiry }) => {
+  const [activeTab, setActiveTab] = useState<'invite' | 'bulk' | 'track' | 'funnel'>('invite');
   const [showChangeCodeModal, setShowChangeCodeModal] = useState(false);
   const [newCodeInput, setNewCodeInput] = useState('');
   const [changeCodeError, setChangeCodeError] = useState('');
@@ -41,6 +61,15 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
   const [generatedInvitationId, setGeneratedInvitationId] = useState<string | null>(null);
   const [isGeneratingLink, setIsGeneratingLink] = useState(false);
   const [orgSignupLink, setOrgSignupLink] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [expiryDaysInput, setExpiryDaysInput] = useState(String(getInvitationExpiryDays(organization)));
+  const [isSavingExpiry, setIsSavingExpiry] = useState(false);
+
+  const funnel = useMemo(() => buildInvitationFunnel(existingInvitations, users ?? []), [existingInvitations, users]);
+
+  useEffect(() => {
+    setExpiryDaysInput(String(getInvitationExpiryDays(organization)));
+  }, [organization?.invitationExpiryDays]);
   
   // Single Invite State
   const [formData, setFormData] = useState({
@@ -110,6 +139,15 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
   const [bulkFile, setBulkFile] = useState<File | null>(null);
   const [isBulkUploading, setIsBulkUploading] = useState(false);
   const [bulkUploadResult, setBulkUploadResult] = useState<{ sent: number; failed: number; errors: string[] } | null>(null);
+  const [bulkSeatShortfall, setBulkSeatShortfall] = useState<{ requested: number; remaining: number } | null>(null);
+
+  const participantCount = organization?.participantCount ?? 0;
+  const participantLimit = organization ? getEntitlements(organization).maxParticipants : null;
+  // Pending participant invitations will take seats once accepted
+  const pendingParticipantInvites = useMemo(
+    () => existingInvitations.filter(inv => inv.status === 'Pending' && isParticipantRole(inv.role)).length,
+    [existingInvitations]
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSendInvite = async () => {
@@ -274,6 +312,7 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
     if (!bulkFile || !organizationId) return;
     setIsBulkUploading(true);
     setBulkUploadResult(null);
+    setBulkSeatShortfall(null);
     const errors: string[] = [];
     let sent = 0;
 
@@ -285,6 +324,20 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
         setIsBulkUploading(false);
         return;
       }
+      const remainingSeats = organization
+        ? getRemainingParticipantSeats(organization, participantCount)
+        : null;
+      if (remainingSeats !== null) {
+        const participantRows = rows
+          .slice(0, MAX_BULK_CONTACTS)
+          .filter(row => isParticipantRole(row.role.toUpperCase())).length;
+        const available = Math.max(0, remainingSeats - pendingParticipantInvites);
+        if (participantRows > available) {
+          setBulkSeatShortfall({ requested: participantRows, remaining: available });
+          setIsBulkUploading(false);
+          return;
+        }
+      }
       if (rows.length > MAX_BULK_CONTACTS) {
         setBulkUploadResult({ sent: 0, failed: rows.length, errors: [`Only the first ${MAX_BULK_CONTACTS} contacts will be processed.`] });
       }
@@ -366,6 +419,7 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
         status: "Pending",
         sentDate: new Date().toISOString().split("T")[0],
         inviterId: currentUser.id,
+        expiresAt: getInvitationExpiry(organization),
       });
 
       // Store the invitation ID for reuse
@@ -429,6 +483,31 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
     });
   };
 
+  const handleRevokeFromTrack = async (inv: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${inv.email}? The link will stop working immediately.`)) return;
+    setRevokingId(inv.id);
+    try {
+      await revokeInvitation(inv.id, currentUser.id);
+      addToast?.(`Invitation for ${inv.email} revoked`, 'success');
+    } catch (err) {
+      addToast?.(err instanceof Error ? err.message : 'Failed to revoke invitation', 'error');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleSaveExpiry = async () => {
+    if (!onUpdateInvitationExpiry) return;
+    setIsSavingExpiry(true);
+    try {
+      await onUpdateInvitationExpiry(Number(expiryDaysInput));
+    } catch {
+      // Parent shows the error toast
+    } finally {
+      setIsSavingExpiry(false);
+    }
+  };
+
   const validateOrgCode = (raw: string): string | null => {
     const s = raw.trim().toUpperCase();
     if (!s) return 'Code is required';
@@ -668,6 +747,7 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
               <button onClick={() => setActiveTab('invite')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'invite' ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:text-slate-400'}`}>Send Invitation</button>
               <button onClick={() => setActiveTab('bulk')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'bulk' ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:text-slate-400'}`}>Bulk Upload</button>
               <button onClick={() => setActiveTab('track')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'track' ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:text-slate-400'}`}>Track Invitations</button>
+              <button onClick={() => setActiveTab('funnel')} className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${activeTab === 'funnel' ? 'border-emerald-500 text-emerald-600 dark:text-emerald-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:text-slate-400'}`}>Funnel</button>
           </div>
 
           {activeTab === 'invite' && (
@@ -861,6 +941,25 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
 
           {activeTab === 'bulk' && (
                <div className={CARD_CLASS + " text-center py-12"}>
+                  {organization && (
+                      <div className="max-w-md mx-auto mb-6 text-left">
+                          <UsageMeter participantCount={participantCount} participantLimit={participantLimit} />
+                          {pendingParticipantInvites > 0 && (
+                              <p className="text-xs text-slate-500 mt-1.5">{pendingParticipantInvites} pending invitation{pendingParticipantInvites === 1 ? '' : 's'} will also use seats once accepted.</p>
+                          )}
+                      </div>
+                  )}
+                  {bulkSeatShortfall && (
+                      <div className="max-w-md mx-auto mb-6 text-left">
+                          <UpgradePrompt
+                            title="Not enough participant seats"
+                            message={`This file invites ${bulkSeatShortfall.requested} mentors and mentees, but only ${bulkSeatShortfall.remaining} seat${bulkSeatShortfall.remaining === 1 ? ' is' : 's are'} left on your plan.`}
+                            requiredTier={getMinimumTierForParticipants(participantCount + pendingParticipantInvites + bulkSeatShortfall.requested)}
+                            canUpgrade={currentUser.role === Role.ADMIN}
+                            onNavigate={onNavigate}
+                          />
+                      </div>
+                  )}
                   <input
                     ref={fileInputRef}
                     type="file"
@@ -884,7 +983,7 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
                           <div className="space-y-4">
                               <div className="flex items-center justify-center gap-2 bg-emerald-50 dark:bg-emerald-900/20 py-2 px-4 rounded-lg inline-block text-emerald-700 dark:text-emerald-300 font-medium">
                                   <FileText className="w-4 h-4" /> {bulkFile.name}
-                                  <button onClick={(e) => { e.stopPropagation(); setBulkFile(null); setBulkUploadResult(null); }} className="ml-2 hover:text-red-500"><X className="w-4 h-4" /></button>
+                                  <button onClick={(e) => { e.stopPropagation(); setBulkFile(null); setBulkUploadResult(null); setBulkSeatShortfall(null); }} className="ml-2 hover:text-red-500"><X className="w-4 h-4" /></button>
                               </div>
                               <button
                                 onClick={(e) => { e.stopPropagation(); handleBulkUpload(); }}
@@ -932,6 +1031,33 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
           )}
 
           {activeTab === 'track' && (
+            <div className="space-y-4">
+              {currentUser.role === Role.ADMIN && onUpdateInvitationExpiry && (
+                  <div className="flex flex-wrap items-center gap-3 bg-white dark:bg-slate-900 rounded-xl border border-slate-200 dark:border-slate-800 px-6 py-4 text-sm text-slate-600 dark:text-slate-300">
+                      <Clock className="w-4 h-4 text-slate-400" />
+                      <span>New invitation links expire after</span>
+                      <input
+                          type="number"
+                          min={MIN_INVITATION_EXPIRY_DAYS}
+                          max={MAX_INVITATION_EXPIRY_DAYS}
+                          value={expiryDaysInput}
+                          onChange={(e) => setExpiryDaysInput(e.target.value)}
+                          className={`${INPUT_CLASS} w-20 py-1.5`}
+                          aria-label="Invitation expiry in days"
+                      />
+                      <span>days. Pending invitees get one reminder {INVITATION_REMINDER_DAYS} days before.</span>
+                      {expiryDaysInput !== String(getInvitationExpiryDays(organization)) && (
+                          <button
+                              type="button"
+                              onClick={handleSaveExpiry}
+                              disabled={isSavingExpiry || !expiryDaysInput}
+                              className={`${BUTTON_PRIMARY} text-xs py-1.5 px-3 disabled:opacity-50`}
+                          >
+                              {isSavingExpiry ? 'Saving...' : 'Save'}
+                          </button>
+                      )}
+                  </div>
+              )}
               <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
                   <table className="w-full text-left text-sm">
                       <thead className="bg-slate-50 dark:bg-slate-950 border-b border-slate-200 dark:border-slate-800 text-xs uppercase font-semibold text-slate-500">
@@ -957,6 +1083,7 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
                                       }
                                   }
                               };
+                              const expiresAt = getInvitationExpiresAt(inv);
                               
                               return (
                                   <tr key={inv.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50">
@@ -971,12 +1098,20 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
                                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                                               inv.status === 'Accepted' ? 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300' :
                                               inv.status === 'Pending' ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' :
+                                              inv.status === 'Revoked' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' :
                                               'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400'
                                           }`}>
                                               {inv.status === 'Accepted' && <CheckCircle className="w-3 h-3 mr-1" />}
                                               {inv.status === 'Pending' && <Clock className="w-3 h-3 mr-1" />}
+                                              {inv.status === 'Revoked' && <Ban className="w-3 h-3 mr-1" />}
                                               {inv.status}
                                           </span>
+                                          {inv.status === 'Pending' && (
+                                              <div className="mt-1 text-xs text-slate-400">
+                                                  {inv.openedAt ? 'Opened' : 'Not opened'}
+                                                  {expiresAt && ` · expires ${expiresAt.toLocaleDateString()}`}
+                                              </div>
+                                          )}
                                       </td>
                                       <td className="px-6 py-4 text-slate-500 dark:text-slate-400">{inv.sentDate}</td>
                                       <td className="px-6 py-4">
@@ -1010,15 +1145,27 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
                                           )}
                                       </td>
                                       <td className="px-6 py-4 text-right">
-                                          {(inv.status === 'Pending' || inv.status === 'Expired') && (
-                                              <button
-                                                  type="button"
-                                                  onClick={() => handleResendFromTrack(inv)}
-                                                  className="text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 dark:hover:text-emerald-300 text-xs font-medium hover:underline"
-                                              >
-                                                  Resend
-                                              </button>
-                                          )}
+                                          <div className="flex items-center justify-end gap-3">
+                                              {inv.status !== 'Accepted' && (
+                                                  <button
+                                                      type="button"
+                                                      onClick={() => handleResendFromTrack(inv)}
+                                                      className="text-emerald-600 hover:text-emerald-700 dark:text-emerald-400 dark:hover:text-emerald-300 text-xs font-medium hover:underline"
+                                                  >
+                                                      Resend
+                                                  </button>
+                                              )}
+                                              {inv.status === 'Pending' && currentUser.role === Role.ADMIN && (
+                                                  <button
+                                                      type="button"
+                                                      onClick={() => handleRevokeFromTrack(inv)}
+                                                      disabled={revokingId === inv.id}
+                                                      className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 text-xs font-medium hover:underline disabled:opacity-50"
+                                                  >
+                                                      {revokingId === inv.id ? 'Revoking...' : 'Revoke'}
+                                                  </button>
+                                              )}
+                                          </div>
                                       </td>
                                   </tr>
                               );
@@ -1031,6 +1178,43 @@ const Referrals: React.FC<ReferralsProps> = ({ currentUser, onNavigate, onSendIn
                       </tbody>
                   </table>
               </div>
+            </div>
+          )}
+
+          {activeTab === 'funnel' && (
+              <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+                  <table className="w-full text-left text-sm">
+                      <thead className="bg-slate-50 dark:bg-slate-950 border-b border-slate-200 dark:border-slate-800 text-xs uppercase font-semibold text-slate-500">
+                          <tr>
+                              <th className="px-6 py-4">Role</th>
+                              <th className="px-6 py-4">Sent</th>
+                              <th className="px-6 py-4">Opened</th>
+                              <th className="px-6 py-4">Accepted</th>
+                              <th className="px-6 py-4">Onboarded</th>
+                          </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                          {funnel.map((row) => (
+                              <tr key={row.role}>
+                                  <td className="px-6 py-4 font-medium text-slate-900 dark:text-white">{FUNNEL_ROLE_LABELS[row.role]}</td>
+                                  <td className="px-6 py-4 text-slate-900 dark:text-white">{row.sent}</td>
+                                  {[row.opened, row.accepted, row.onboarded].map((count, i) => (
+                                      <td key={i} className="px-6 py-4">
+                                          <span className="text-slate-900 dark:text-white">{count}</span>
+                                          <span className="ml-2 text-xs text-slate-400">{percentOf(count, row.sent)}%</span>
+                                          <div className="mt-1.5 h-1.5 w-24 rounded-full bg-slate-100 dark:bg-slate-800">
+                                              <div className="h-1.5 rounded-full bg-emerald-500" style={{ width: `${percentOf(count, row.sent)}%` }} />
+                                          </div>
+                                      </td>
+                                  ))}
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+                  <p className="px-6 py-3 text-xs text-slate-500 dark:text-slate-400 border-t border-slate-100 dark:border-slate-800">
+                      Percentages are of invitations sent. Onboarded counts accepted invitees who finished their role's onboarding.
+                  </p>
+              </div>
           )}
       </div>
   );
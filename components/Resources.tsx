@@ -1,14 +1,25 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { User, Resource, Role, BlogPost, DiscussionGuide, CareerTemplate, TrainingVideo } from '../types';
-import { BookOpen, File, Book, PlayCircle } from 'lucide-react';
+import { BookOpen, File, Book, PlayCircle, Search } from 'lucide-react';
 import { getRecommendedResources } from '../services/geminiService';
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  getMatchedInterests,
+  getViewerInterests,
+  hasActiveSearch,
+  indexLibrary,
+  LibraryFilters,
+  LibraryItem,
+  LibraryItemType,
+  searchLibrary,
+} from '../utils/resourceSearch';
 
 // Decomposed Components
 import { BackButton } from './resources/BackButton';
 import { ResourceCard } from './resources/ResourceCard';
 import { ResourceHeader } from './resources/ResourceHeader';
-import { ResourceFilters, ResourceFilterType } from './resources/ResourceFilters';
+import { ResourceFilters } from './resources/ResourceFilters';
 import { ResourceLibraryHome } from './resources/ResourceLibraryHome';
 import { ResourceManagement } from './resources/ResourceManagement';
 import { CareerTemplateView } from './resources/CareerTemplateView';
@@ -18,6 +29,7 @@ import { TemplateList } from './resources/TemplateList';
 import { GuideList } from './resources/GuideList';
 import { VideoList } from './resources/VideoList';
 import { ResourceSectionEmptyState } from './resources/ResourceSectionEmptyState';
+import { LibrarySearchResults } from './resources/LibrarySearchResults';
 
 interface ResourcesProps {
   user: User;
@@ -62,9 +74,9 @@ const Resources: React.FC<ResourcesProps> = ({
   onUpdateTrainingVideo,
   onDeleteTrainingVideo
 }) => {
-  const [view, setView] = useState<'home' | 'recommended' | 'templates' | 'guides' | 'videos' | 'manage'>('home');
+  const [view, setView] = useState<'home' | 'search' | 'recommended' | 'templates' | 'guides' | 'videos' | 'manage'>('home');
   const [manageTab, setManageTab] = useState<'resources' | 'blog' | 'guides' | 'templates' | 'videos'>('resources');
-  const [resourceFilter, setResourceFilter] = useState<ResourceFilterType>('all');
+  const [libraryFilters, setLibraryFilters] = useState<LibraryFilters>(DEFAULT_LIBRARY_FILTERS);
 
   // Detail views state
   const [activeTemplate, setActiveTemplate] = useState<CareerTemplate | null>(null);
@@ -111,25 +123,34 @@ const Resources: React.FC<ResourcesProps> = ({
     }
   }, [activeTemplate]);
 
-  // Filter helpers
-  const getFilteredGuides = () => {
-    if (resourceFilter === 'platform') return discussionGuides.filter(g => g.isPlatform);
-    if (resourceFilter === 'organization') return discussionGuides.filter(g => !g.isPlatform);
-    return discussionGuides;
-  };
+  // Search index over guides, documents and videos (rebuilt only when the library changes)
+  const libraryIndex = useMemo(
+    () => indexLibrary(discussionGuides, careerTemplates, trainingVideos),
+    [discussionGuides, careerTemplates, trainingVideos]
+  );
 
-  const getFilteredTemplates = () => {
-    if (resourceFilter === 'platform') return careerTemplates.filter(t => t.isPlatform);
-    if (resourceFilter === 'organization') return careerTemplates.filter(t => !t.isPlatform);
-    return careerTemplates;
-  };
+  // Section views search within one type; ranking favours the viewer's skills and goals
+  const searchSection = (type: LibraryItemType) =>
+    searchLibrary(libraryIndex, { ...libraryFilters, type }, user).map(result => result.item);
+
+  const getFilteredGuides = () =>
+    searchSection('guide').flatMap(item => (item.type === 'guide' ? [item.resource] : []));
+
+  const getFilteredTemplates = () =>
+    searchSection('template').flatMap(item => (item.type === 'template' ? [item.resource] : []));
 
-  const getFilteredVideos = () => {
-    if (resourceFilter === 'platform') return trainingVideos.filter(v => v.isPlatform);
-    if (resourceFilter === 'organization') return trainingVideos.filter(v => !v.isPlatform);
-    return trainingVideos;
+  const getFilteredVideos = () =>
+    searchSection('video').flatMap(item => (item.type === 'video' ? [item.resource] : []));
+
+  const openLibraryItem = (item: LibraryItem) => {
+    if (item.type === 'guide') setActiveGuide(item.resource);
+    else if (item.type === 'template') setActiveTemplate(item.resource);
+    else setActiveVideo(item.resource);
   };
 
+  const clearSearch = () =>
+    setLibraryFilters(prev => ({ ...DEFAULT_LIBRARY_FILTERS, source: prev.source, type: prev.type, sort: prev.sort }));
+
   const filteredLibraryEmptyCopy = (
     kind: 'templates' | 'guides' | 'videos'
   ): { title: string; description: string } => {
@@ -154,13 +175,19 @@ const Resources: React.FC<ResourcesProps> = ({
       },
     }[kind];
 
-    if (resourceFilter === 'platform') {
+    if (hasActiveSearch(libraryFilters)) {
+      return {
+        title: 'No matches',
+        description: `No ${byKind.noun} match your search. Try other keywords, or clear the skill and length filters.`,
+      };
+    }
+    if (libraryFilters.source === 'platform') {
       return {
         title: byKind.titlePlatform,
         description: `There are no platform-wide ${byKind.noun} to show. Try switching the filter to see organization items or all resources.`,
       };
     }
-    if (resourceFilter === 'organization') {
+    if (libraryFilters.source === 'organization') {
       return {
         title: byKind.titleOrg,
         description: `Your organization has not added ${byKind.noun} yet.`,
@@ -208,7 +235,52 @@ const Resources: React.FC<ResourcesProps> = ({
   }
 
   if (view === 'home') {
-    return <ResourceLibraryHome user={user} onViewChange={setView} />;
+    return (
+      <ResourceLibraryHome
+        user={user}
+        onViewChange={setView}
+        onSearch={(query) => {
+          setLibraryFilters(prev => ({ ...prev, query, type: 'all' }));
+          setView('search');
+        }}
+      />
+    );
+  }
+
+  if (view === 'search') {
+    const results = searchLibrary(libraryIndex, libraryFilters, user);
+    return (
+      <div className="space-y-6 animate-in slide-in-from-right-4 fade-in">
+        <BackButton onClick={() => setView('home')} />
+        <ResourceHeader
+          title="Search the Library"
+          icon={<Search className="w-6 h-6 text-emerald-500" />}
+        />
+        <ResourceFilters
+          filters={libraryFilters}
+          onChange={setLibraryFilters}
+          showTypeFilter
+        />
+        {results.length === 0 ? (
+          <ResourceSectionEmptyState
+            icon={Search}
+            iconClassName="text-emerald-500 dark:text-emerald-400"
+            iconWrapClassName="bg-emerald-50 dark:bg-emerald-950/50"
+            title="No matches"
+            description="Nothing in the library matches your search. Try other keywords, or clear the skill and length filters."
+            action={hasActiveSearch(libraryFilters) ? { label: 'Clear search', onClick: clearSearch } : undefined}
+          />
+        ) : (
+          <>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {results.length} {results.length === 1 ? 'result' : 'results'}
+              {libraryFilters.sort === 'relevance' && ' • items tagged with your skills and goals first'}
+            </p>
+            <LibrarySearchResults results={results} onSelect={openLibraryItem} />
+          </>
+        )}
+      </div>
+    );
   }
 
   if (view === 'manage' && canManage) {
@@ -241,6 +313,11 @@ const Resources: React.FC<ResourcesProps> = ({
   }
 
   if (view === 'recommended') {
+    // Custom resources tagged with the viewer's skills or goals come first (sort is stable)
+    const interests = getViewerInterests(user);
+    const rankedResources = resources
+      .map(res => ({ res, matched: getMatchedInterests(Array.isArray(res.tags) ? res.tags : [], interests) }))
+      .sort((a, b) => b.matched.length - a.matched.length);
     return (
       <div className="space-y-6 animate-in slide-in-from-right-4 fade-in">
         <BackButton onClick={() => setView('home')} />
@@ -252,8 +329,8 @@ const Resources: React.FC<ResourcesProps> = ({
           <div className="p-12 text-center text-slate-500 dark:text-slate-400">Loading recommendations...</div>
         ) : resources.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {resources.map((res, i) => (
-              <ResourceCard key={i} resource={res} />
+            {rankedResources.map(({ res, matched }, i) => (
+              <ResourceCard key={i} resource={res} highlightedTags={matched} />
             ))}
           </div>
         ) : (
@@ -296,8 +373,8 @@ const Resources: React.FC<ResourcesProps> = ({
           manageLabel="Manage documents"
         />
         <ResourceFilters
-          currentFilter={resourceFilter}
-          onFilterChange={setResourceFilter}
+          filters={libraryFilters}
+          onChange={setLibraryFilters}
         />
         {filteredTemplates.length === 0 ? (
           <ResourceSectionEmptyState
@@ -306,7 +383,9 @@ const Resources: React.FC<ResourcesProps> = ({
             iconWrapClassName="bg-emerald-50 dark:bg-emerald-950/50"
             {...filteredLibraryEmptyCopy('templates')}
             action={
-              canManage
+              hasActiveSearch(libraryFilters)
+                ? { label: 'Clear search', onClick: clearSearch }
+                : canManage
                 ? {
                     label: 'Manage documents',
                     onClick: () => {
@@ -339,8 +418,8 @@ const Resources: React.FC<ResourcesProps> = ({
           manageColorClass="bg-blue-600 dark:bg-blue-700 hover:bg-blue-700 dark:hover:bg-blue-600"
         />
         <ResourceFilters
-          currentFilter={resourceFilter}
-          onFilterChange={setResourceFilter}
+          filters={libraryFilters}
+          onChange={setLibraryFilters}
           activeColorClass="bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
         />
         {filteredGuides.length === 0 ? (
@@ -350,7 +429,9 @@ const Resources: React.FC<ResourcesProps> = ({
             iconWrapClassName="bg-blue-50 dark:bg-blue-950/50"
             {...filteredLibraryEmptyCopy('guides')}
             action={
-              canManage
+              hasActiveSearch(libraryFilters)
+                ? { label: 'Clear search', onClick: clearSearch }
+                : canManage
                 ? {
                     label: 'Manage guides',
                     onClick: () => {
@@ -383,8 +464,8 @@ const Resources: React.FC<ResourcesProps> = ({
           manageColorClass="bg-amber-600 dark:bg-amber-700 hover:bg-amber-700 dark:hover:bg-amber-600"
         />
         <ResourceFilters
-          currentFilter={resourceFilter}
-          onFilterChange={setResourceFilter}
+          filters={libraryFilters}
+          onChange={setLibraryFilters}
           activeColorClass="bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
         />
         {filteredVideos.length === 0 ? (
@@ -394,7 +475,9 @@ const Resources: React.FC<ResourcesProps> = ({
             iconWrapClassName="bg-amber-50 dark:bg-amber-950/50"
             {...filteredLibraryEmptyCopy('videos')}
             action={
-              canManage
+              hasActiveSearch(libraryFilters)
+                ? { label: 'Clear search', onClick: clearSearch }
+                : canManage
                 ? {
                     label: 'Manage videos',
                     onClick: () => {
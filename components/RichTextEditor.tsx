@@ -1,5 +1,7 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { Bold, Italic, Underline, List, ListOrdered, AlignLeft, AlignCenter, AlignRight, Undo, Redo } from 'lucide-react';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+import { cleanHtml } from '../utils/htmlUtils';
 
 interface RichTextEditorProps {
   value: string;
@@ -19,7 +21,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
 
   useEffect(() => {
     if (editorRef.current && editorRef.current.innerHTML !== value) {
-      editorRef.current.innerHTML = value;
+      editorRef.current.innerHTML = sanitizeHtml(value);
     }
   }, [value]);
 
@@ -29,100 +31,6 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
     }
   };
 
-  const cleanHtml = (html: string): string => {
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
-
-    // Remove MS Word specific classes, styles, and attributes
-    const allElements = tempDiv.querySelectorAll('*');
-    allElements.forEach(el => {
-      // Remove MS Word specific attributes
-      el.removeAttribute('class');
-      el.removeAttribute('style');
-      el.removeAttribute('lang');
-      el.removeAttribute('xml:lang');
-      el.removeAttribute('dir');
-
-      // Remove data-* attributes
-      Array.from(el.attributes).forEach(attr => {
-        if (attr.name.startsWith('data-')) {
-          el.removeAttribute(attr.name);
-        }
-      });
-
-      // Clean style attribute
-      const style = el.getAttribute('style');
-      if (style) {
-        const cleanedStyle = style
-          .split(';')
-          .filter(prop => {
-            const propName = prop.split(':')[0].trim().toLowerCase();
-            return ['text-align', 'font-weight', 'font-style', 'text-decoration'].includes(propName);
-          })
-          .join(';');
-        if (cleanedStyle) {
-          el.setAttribute('style', cleanedStyle);
-        } else {
-          el.removeAttribute('style');
-        }
-      }
-    });
-
-    // Remove MS Word specific elements
-    const unwantedSelectors = [
-      'o\\:p', 'xml', 'meta', 'link', 'style', 'script'
-    ];
-    unwantedSelectors.forEach(selector => {
-      try {
-        tempDiv.querySelectorAll(selector).forEach(el => el.remove());
-      } catch {
-        // Invalid selector, skip
-      }
-    });
-
-    // Remove elements with Mso classes
-    tempDiv.querySelectorAll('[class*="Mso"]').forEach(el => el.remove());
-    tempDiv.querySelectorAll('[style*="mso-"]').forEach(el => {
-      const style = el.getAttribute('style');
-      if (style) {
-        const cleanedStyle = style
-          .split(';')
-          .filter(prop => !prop.includes('mso-'))
-          .join(';');
-        if (cleanedStyle) {
-          el.setAttribute('style', cleanedStyle);
-        } else {
-          el.removeAttribute('style');
-        }
-      }
-    });
-
-    // Keep only essential formatting tags
-    const allowedTags = ['p', 'br', 'strong', 'b', 'em', 'i', 'u', 'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'a'];
-    const allElementsArray = Array.from(tempDiv.querySelectorAll('*'));
-    allElementsArray.forEach(el => {
-      const tagName = el.tagName.toLowerCase();
-      if (!allowedTags.includes(tagName) && el.parentNode) {
-        // Replace with its children or text content
-        while (el.firstChild) {
-          el.parentNode.insertBefore(el.firstChild, el);
-        }
-        el.parentNode.removeChild(el);
-      }
-    });
-
-    // Clean up empty paragraphs and normalize whitespace
-    const cleanedHtml = tempDiv.innerHTML
-      .replace(/<p><\/p>/g, '<br>')
-      .replace(/<p>\s*<\/p>/g, '<br>')
-      .replace(/<p>\s*<br>\s*<\/p>/g, '<br>')
-      .replace(/\s+/g, ' ')
-      .replace(/>\s+</g, '><')
-      .trim();
-
-    return cleanedHtml;
-  };
-
   const handlePaste = async (e: React.ClipboardEvent) => {
     e.preventDefault();
     const items = e.clipboardData.items;
@@ -186,7 +94,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({
         ? text.split('\n').map(line => line.trim() ? `<p>${line}</p>` : '<p><br></p>').join('')
         : cleanedHtml;
 
-      const fragment = document.createRange().createContextualFragment(finalHtml);
+      const fragment = document.createRange().createContextualFragment(sanitizeHtml(finalHtml));
       range.insertNode(fragment);
     } else {
       // Plain text fallback
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from "react";
+import { Copy, RefreshCw, Trash2 } from "lucide-react";
+import { INPUT_CLASS, BUTTON_PRIMARY, CARD_CLASS } from "../styles/common";
+import { getErrorMessage } from "../utils/errors";
+import {
+  createScimToken,
+  listScimTokens,
+  revokeScimToken,
+  ScimTokenSummary,
+} from "../services/scimService";
+
+const copy = (value: string) => void navigator.clipboard?.writeText(value);
+
+/**
+ * Security-tab setup for SCIM provisioning: the base URL and bearer tokens an identity provider
+ * uses to add, update and deactivate members and to push the Mentors / Mentees groups.
+ */
+const ScimSettings: React.FC = () => {
+  const [baseUrl, setBaseUrl] = useState("");
+  const [tokens, setTokens] = useState<ScimTokenSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tokenName, setTokenName] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listScimTokens()
+      .then((result) => {
+        if (cancelled) return;
+        setBaseUrl(result.baseUrl);
+        setTokens(result.tokens);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getErrorMessage(err) || "Failed to load SCIM tokens");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const result = await createScimToken(tokenName.trim());
+      setNewToken(result.token);
+      setTokens((prev) => [result.summary, ...prev]);
+      setTokenName("");
+    } catch (err) {
+      setError(getErrorMessage(err) || "Failed to create SCIM token");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ScimTokenSummary) => {
+    if (!window.confirm(`Revoke "${token.name}"? Provisioning with it will stop immediately.`)) return;
+    setRevokingId(token.id);
+    setError(null);
+    try {
+      await revokeScimToken(token.id);
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+    } catch (err) {
+      setError(getErrorMessage(err) || "Failed to revoke SCIM token");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className={CARD_CLASS}>
+      <h3 className="font-bold text-slate-800 dark:text-white mb-1 flex items-center">
+        <RefreshCw className="w-5 h-5 mr-2 text-indigo-500" /> SCIM Provisioning
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Sync joiners, movers and leavers from your HR system or identity provider. People who leave are
+        deactivated, not deleted, and free up their seat. Push groups named "Mentors" and "Mentees" to set
+        each person's role.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">Loading...</p>
+      ) : (
+        <>
+          {baseUrl && (
+            <div className="mb-4">
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">SCIM base URL</label>
+              <div className="flex gap-2">
+                <input className={`${INPUT_CLASS} font-mono text-xs`} value={baseUrl} readOnly />
+                <button
+                  type="button"
+                  title="Copy"
+                  className="px-3 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                  onClick={() => copy(baseUrl)}
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {newToken && (
+            <div className="rounded-xl border border-amber-200 dark:border-amber-900 bg-amber-50 dark:bg-amber-900/20 p-4 mb-4">
+              <p className="text-sm font-medium text-amber-800 dark:text-amber-300 mb-2">
+                Copy this token now. You won't be able to see it again.
+              </p>
+              <div className="flex gap-2">
+                <input className={`${INPUT_CLASS} font-mono text-xs`} value={newToken} readOnly />
+                <button
+                  type="button"
+                  title="Copy"
+                  className="px-3 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                  onClick={() => copy(newToken)}
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+              <button
+                type="button"
+                className="mt-2 text-xs text-amber-700 dark:text-amber-400 underline"
+                onClick={() => setNewToken(null)}
+              >
+                I've saved it
+              </button>
+            </div>
+          )}
+
+          {tokens.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {tokens.map((token) => (
+                <div
+                  key={token.id}
+                  className="flex items-center justify-between gap-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-4 py-3 rounded-xl"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+                      {token.name} <span className="font-mono text-xs text-slate-400">…{token.lastFour}</span>
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      Created {new Date(token.createdAt).toLocaleDateString()} ·{" "}
+                      {token.lastUsedAt ? `last used ${new Date(token.lastUsedAt).toLocaleString()}` : "never used"}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    title="Revoke"
+                    disabled={revokingId === token.id}
+                    onClick={() => handleRevoke(token)}
+                    className="p-2 text-slate-400 hover:text-red-600 disabled:opacity-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              className={INPUT_CLASS}
+              placeholder="Token name, e.g. Okta"
+              value={tokenName}
+              onChange={(e) => setTokenName(e.target.value)}
+            />
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={creating || !tokenName.trim()}
+              className={`${BUTTON_PRIMARY} text-sm py-2 whitespace-nowrap disabled:opacity-50`}
+            >
+              {creating ? "Creating..." : "Create token"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default ScimSettings;
@@ -1,12 +1,12 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { User, Role, Mood, ProgramSettings, Match, MatchStatus, Goal, Rating, CalendarEvent } from '../types';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { User, Role, Mood, ProgramSettings, Match, MatchStatus, Goal, Rating, CalendarEvent, BlockRecord, ImpersonationSession, AuditLogEntry, AvailabilityWindow, MentorAvailability, MentorshipStyle, NotificationPreferences, EmailDigestFrequency, OrgSecurityPolicy, TotpRequirement } from '../types';
 import { INPUT_CLASS, BUTTON_PRIMARY, CARD_CLASS } from '../styles/common';
 import {
     Users, Settings, Bell, Shield, Calendar, ToggleRight, ToggleLeft, Moon, CheckCircle, Save,
     Key, Smartphone, Globe, Trash2, Download, History, Check,
-    CreditCard, ArrowUp, ArrowDown, X, FileText, Smile, Meh, Frown, Zap, Coffee, Heart, AlertCircle, Edit2, Palette, Upload, Layout
+    CreditCard, ArrowUp, ArrowDown, X, FileText, Smile, Meh, Frown, Zap, Coffee, Heart, AlertCircle, Edit2, Palette, Upload, Layout, Ban, Plus
 } from 'lucide-react';
-import { getOrganization, deleteAllUserData, getChatMessagesBySender } from '../services/database';
+import { getOrganization, deleteAllUserData, getChatMessagesBySender, subscribeToBlocksForUser, unblockUser, subscribeToImpersonationSessionsByOrganization, subscribeToAuditLogByOrganization } from '../services/database';
 import { uploadFile, generateUniquePath } from '../services/storage';
 import { updatePassword as firebaseUpdatePassword, deleteFirebaseAuthUser } from '../services/firebaseAuth';
 import { signOut as signOutGoogle } from '../services/googleAuth';
@@ -14,6 +14,7 @@ import { exportUserProfileData } from '../utils/exportUtils';
 import { createCheckoutSession, getBillingData, openBillingPortal, PRICING_TIERS, type BillingData } from '../services/flowglad';
 import { Organization } from '../types';
 import SkillsSelector from './SkillsSelector';
+import { PREDEFINED_INDUSTRIES } from '../constants';
 import {
     requestCalendarAccess,
     storeCalendarCredentials,
@@ -30,20 +31,23 @@ import {
 } from '../services/appleCalendarService';
 import { useDevices } from '../hooks/useDevices';
 import { getErrorMessage } from '../utils/errors';
+import { getTimeZoneOptions, resolveTimeZone } from '../utils/timeZones';
+import { BUFFER_OPTIONS, createDefaultAvailability, SESSION_LENGTH_OPTIONS, validateAvailability, WEEKDAY_LABELS } from '../utils/availability';
 import { logger } from '../services/logger';
 import { LocationInput } from './LocationInput';
 import { AvatarCropperModal } from './AvatarCropperModal';
 import { LogoCropperModal } from './LogoCropperModal';
-import { setupTotp, verifyTotpSetup, disableTotp } from '../services/totpService';
+import { setupTotp, verifyTotpSetup, disableTotp, getTotpStatus, regenerateBackupCodes, forgetTrustedDevices, clearTrustToken, type TotpStatus } from '../services/totpService';
 import { auth } from '../services/firebase';
 import { QRCodeSVG } from 'qrcode.react';
-
-const DEFAULT_NOTIFICATION_PREFS: Record<string, { email: boolean; push: boolean }> = {
-    'New Messages': { email: true, push: true },
-    'Meeting Reminders': { email: true, push: true },
-    'Goal Updates': { email: true, push: false },
-    'System Alerts': { email: false, push: true }
-};
+import { countParticipants, getEntitlements, getMinimumTierForFeature, hasFeature } from '../utils/entitlements';
+import { UpgradePrompt, UsageMeter } from './UpgradePrompt';
+import EmailDeliveryLog from './EmailDeliveryLog';
+import EmailTemplateEditor from './EmailTemplateEditor';
+import SsoSettings from './SsoSettings';
+import ScimSettings from './ScimSettings';
+import { buildSecurityPolicy, DEFAULT_TOTP_GRACE_DAYS, getTotpGraceDaysLeft, getTotpPolicyStatus, isTotpRequiredForRole, MAX_TOTP_GRACE_DAYS, TOTP_REQUIREMENT_OPTIONS } from '../utils/securityPolicy';
+import { EMAIL_DIGEST_OPTIONS, getEffectivePreferences, NOTIFICATION_CATEGORIES, NotificationCategory, NotificationChannel } from '../utils/notificationPreferences';
 
 interface SettingsViewProps {
     user: User;
@@ -54,6 +58,10 @@ interface SettingsViewProps {
     organizationId?: string;
     programSettings?: ProgramSettings | null;
     onUpdateOrganization?: (organizationId: string, updates: Partial<any>) => Promise<void>;
+    /** Organization.notificationDefaults; used for categories the user hasn't set */
+    notificationDefaults?: NotificationPreferences;
+    /** Organization.securityPolicy; decides whether this user must keep 2FA on */
+    securityPolicy?: OrgSecurityPolicy;
     matches?: Match[];
     goals?: Goal[];
     ratings?: Rating[];
@@ -63,7 +71,7 @@ interface SettingsViewProps {
     onNavigate?: (page: string) => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onUpdateUser, initialTab, organizationId, programSettings, onUpdateOrganization, matches = [], goals = [], ratings = [], calendarEvents = [], users = [], onLogout, onNavigate }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onUpdateUser, initialTab, organizationId, programSettings, onUpdateOrganization, notificationDefaults, securityPolicy, matches = [], goals = [], ratings = [], calendarEvents = [], users = [], onLogout, onNavigate }) => {
     const [activeTab, setActiveTab] = useState(initialTab || 'profile');
     const [isUploadingLogo, setIsUploadingLogo] = useState(false);
     const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
@@ -86,6 +94,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
         return { isPlatformOperator: platformOperator, isOrgAdmin: orgAdmin };
     }, [user.role]);
     const [formData, setFormData] = useState(user);
+    const timeZoneOptions = useMemo(() => getTimeZoneOptions(), []);
     const [showSuccess, setShowSuccess] = useState(false);
     const [darkMode, setDarkMode] = useState(false);
 
@@ -125,6 +134,50 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
         }
     }, [user.maxMentees]);
 
+    // Blocked users (Security tab)
+    const [blocks, setBlocks] = useState<BlockRecord[]>([]);
+    const [unblockingId, setUnblockingId] = useState<string | null>(null);
+    const myBlocks = useMemo(() => blocks.filter(b => b.blockerId === user.id), [blocks, user.id]);
+
+    useEffect(() => {
+        if (!organizationId) return;
+        const unsubscribe = subscribeToBlocksForUser(user.id, organizationId, setBlocks);
+        return () => unsubscribe();
+    }, [user.id, organizationId]);
+
+    // Platform operator support sessions in this organization (Security tab, org admins)
+    const [supportSessions, setSupportSessions] = useState<ImpersonationSession[]>([]);
+    const [auditEntries, setAuditEntries] = useState<AuditLogEntry[]>([]);
+    const auditWriteCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        auditEntries
+            .filter(e => e.action === 'create' || e.action === 'update' || e.action === 'delete' || e.action === 'call')
+            .forEach(e => { if (e.sessionId) counts[e.sessionId] = (counts[e.sessionId] || 0) + 1; });
+        return counts;
+    }, [auditEntries]);
+
+    useEffect(() => {
+        if (!organizationId || !isOrgAdmin || activeTab !== 'security') return;
+        const unsubscribeSessions = subscribeToImpersonationSessionsByOrganization(organizationId, setSupportSessions);
+        const unsubscribeAudit = subscribeToAuditLogByOrganization(organizationId, setAuditEntries);
+        return () => {
+            unsubscribeSessions();
+            unsubscribeAudit();
+        };
+    }, [organizationId, isOrgAdmin, activeTab]);
+
+    const handleUnblock = async (blockedId: string) => {
+        setUnblockingId(blockedId);
+        try {
+            await unblockUser(user.id, blockedId);
+        } catch (error: unknown) {
+            logger.error('Error unblocking user', error);
+            alert(getErrorMessage(error) || 'Failed to unblock user. Please try again.');
+        } finally {
+            setUnblockingId(null);
+        }
+    };
+
     // Organization State for Billing
     const [organization, setOrganization] = useState<Organization | null>(null);
 
@@ -154,12 +207,63 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
     const twoFactorEnabled = user.totpEnabled ?? false;
     const [passwordForm, setPasswordForm] = useState({ current: '', new: '', confirm: '' });
 
-    // 2FA setup flow: idle | scanning | verifying | disabling
-    const [totpFlow, setTotpFlow] = useState<'idle' | 'scanning' | 'verifying' | 'disabling'>('idle');
+    // 2FA setup flow: idle | scanning | verifying | disabling | regenerating | backupCodes (showing new codes)
+    const [totpFlow, setTotpFlow] = useState<'idle' | 'scanning' | 'verifying' | 'disabling' | 'regenerating' | 'backupCodes'>('idle');
     const [totpSetupData, setTotpSetupData] = useState<{ secret: string; otpauthUri: string } | null>(null);
     const [totpCode, setTotpCode] = useState('');
     const [totpError, setTotpError] = useState<string | null>(null);
     const [totpLoading, setTotpLoading] = useState(false);
+    const [totpBackupCodes, setTotpBackupCodes] = useState<string[]>([]);
+    const [totpStatus, setTotpStatus] = useState<TotpStatus | null>(null);
+    const totpPolicyStatus = getTotpPolicyStatus(securityPolicy, user);
+    const totpRequiredByOrg = isTotpRequiredForRole(securityPolicy?.requireTotp, user.role);
+
+    // Org 2FA policy editor (org admins)
+    const [policyRequirement, setPolicyRequirement] = useState<TotpRequirement>(securityPolicy?.requireTotp ?? 'off');
+    const [policyGraceDays, setPolicyGraceDays] = useState(securityPolicy?.gracePeriodDays ?? DEFAULT_TOTP_GRACE_DAYS);
+    const [savingPolicy, setSavingPolicy] = useState(false);
+    useEffect(() => {
+        setPolicyRequirement(securityPolicy?.requireTotp ?? 'off');
+        setPolicyGraceDays(securityPolicy?.gracePeriodDays ?? DEFAULT_TOTP_GRACE_DAYS);
+    }, [securityPolicy?.requireTotp, securityPolicy?.gracePeriodDays]);
+    const membersMissingTotp = useMemo(
+        () => users.filter(u => u.organizationId === organizationId && isTotpRequiredForRole(policyRequirement, u.role) && !u.totpEnabled).length,
+        [users, organizationId, policyRequirement]
+    );
+
+    const saveSecurityPolicy = async () => {
+        if (!onUpdateOrganization || !organizationId) return;
+        setSavingPolicy(true);
+        try {
+            await onUpdateOrganization(organizationId, {
+                securityPolicy: buildSecurityPolicy(securityPolicy, policyRequirement, policyGraceDays),
+            });
+            setShowSuccess(true);
+            setTimeout(() => setShowSuccess(false), 3000);
+        } catch (error: unknown) {
+            logger.error('Error saving security policy', error);
+            alert(getErrorMessage(error) || 'Failed to save security policy');
+        } finally {
+            setSavingPolicy(false);
+        }
+    };
+    // Authenticator code (6 digits) or backup code (8 characters, dash optional)
+    const totpCodeReady = /^\d{6}$/.test(totpCode) || totpCode.replace(/-/g, '').length === 8;
+
+    const refreshTotpStatus = useCallback(async () => {
+        try {
+            const token = await auth.currentUser?.getIdToken();
+            if (token) setTotpStatus(await getTotpStatus(token));
+        } catch (err) {
+            logger.error('Error loading two-factor status', err);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (activeTab === 'security' && twoFactorEnabled && totpFlow === 'idle') {
+            refreshTotpStatus();
+        }
+    }, [activeTab, twoFactorEnabled, totpFlow, refreshTotpStatus]);
 
     // Billing State
     // Calculate trial status: organization is on trial if trialEnd exists and hasn't expired
@@ -197,6 +301,12 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
         return tier;
     }, [organization?.subscriptionTier, isOnTrial]);
 
+    // Plan entitlements; nothing is gated until the organization has loaded
+    const canCustomizeBranding = !organization || hasFeature(organization, 'customBranding');
+    const canSyncCalendars = !organization || hasFeature(organization, 'calendarIntegration');
+    const participantCount = organization?.participantCount ?? countParticipants(users);
+    const participantLimit = organization ? getEntitlements(organization).maxParticipants : null;
+
     const [showCancelConfirm, setShowCancelConfirm] = useState(false);
     const [showUpgradeModal, setShowUpgradeModal] = useState(false);
     const [isBillingLoading, setIsBillingLoading] = useState(false);
@@ -308,23 +418,23 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
     }, [user.id]);
     const [targetPlan, setTargetPlan] = useState<'starter' | 'professional' | 'business' | 'enterprise' | null>(null);
 
-    // Notification Preferences State - initialize from user, persist to Firestore
-    const [notificationPrefs, setNotificationPrefs] = useState<Record<string, { email: boolean; push: boolean }>>(
-        () => user.notificationPreferences ?? DEFAULT_NOTIFICATION_PREFS
+    // Notification Preferences State - only categories the user has changed are stored; the rest
+    // follow the organization's defaults (see utils/notificationPreferences.ts)
+    const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences>(
+        () => user.notificationPreferences ?? {}
     );
     useEffect(() => {
         if (user.notificationPreferences) {
             setNotificationPrefs(user.notificationPreferences);
         }
     }, [user.notificationPreferences]);
+    const effectivePrefs = getEffectivePreferences(notificationPrefs, notificationDefaults);
+    const orgDefaultPrefs = getEffectivePreferences(null, notificationDefaults);
 
-    const togglePref = (category: string, type: 'email' | 'push') => {
+    const togglePref = (category: NotificationCategory, type: NotificationChannel) => {
         const next = {
             ...notificationPrefs,
-            [category]: {
-                ...notificationPrefs[category],
-                [type]: !(notificationPrefs[category] as { email: boolean; push: boolean })[type]
-            }
+            [category]: { ...effectivePrefs[category], [type]: !effectivePrefs[category][type] }
         };
         setNotificationPrefs(next);
         onUpdateUser({ ...user, notificationPreferences: next });
@@ -332,6 +442,60 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
         setTimeout(() => setShowSuccess(false), 3000);
     };
 
+    const toggleOrgDefault = async (category: NotificationCategory, type: NotificationChannel) => {
+        if (!onUpdateOrganization || !organizationId) return;
+        try {
+            await onUpdateOrganization(organizationId, {
+                notificationDefaults: {
+                    ...notificationDefaults,
+                    [category]: { ...orgDefaultPrefs[category], [type]: !orgDefaultPrefs[category][type] }
+                }
+            });
+            setShowSuccess(true);
+            setTimeout(() => setShowSuccess(false), 3000);
+        } catch (error: unknown) {
+            logger.error('Error updating notification defaults', error);
+            alert(getErrorMessage(error) || 'Failed to update notification defaults');
+        }
+    };
+
+    const renderPreferenceRow = (
+        category: NotificationCategory,
+        prefs: { email: boolean; push: boolean },
+        onToggle: (type: NotificationChannel) => void,
+        labelPrefix = ''
+    ) => (
+        <div key={category} className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg gap-3 sm:gap-0">
+            <span className="font-medium text-slate-700 dark:text-slate-200 text-sm sm:text-base">{category}</span>
+            <div className="flex gap-4 sm:gap-6">
+                <label className="flex items-center cursor-pointer space-x-2 min-h-[44px] touch-manipulation">
+                    <span className="text-xs text-slate-500 dark:text-slate-400">Email</span>
+                    <button
+                        onClick={() => onToggle('email')}
+                        aria-label={`${prefs.email ? 'Disable' : 'Enable'} ${labelPrefix}email notifications for ${category}`}
+                        className="focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded"
+                    >
+                        <span aria-hidden="true">
+                        {prefs.email ? <ToggleRight className="w-8 h-8 text-emerald-500" /> : <ToggleLeft className="w-8 h-8 text-slate-300 dark:text-slate-600" />}
+                        </span>
+                    </button>
+                </label>
+                <label className="flex items-center cursor-pointer space-x-2 min-h-[44px] touch-manipulation">
+                    <span className="text-xs text-slate-500 dark:text-slate-400">In-App</span>
+                    <button
+                        onClick={() => onToggle('push')}
+                        aria-label={`${prefs.push ? 'Disable' : 'Enable'} ${labelPrefix}in-app notifications for ${category}`}
+                        className="focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded"
+                    >
+                        <span aria-hidden="true">
+                        {prefs.push ? <ToggleRight className="w-8 h-8 text-emerald-500" /> : <ToggleLeft className="w-8 h-8 text-slate-300 dark:text-slate-600" />}
+                        </span>
+                    </button>
+                </label>
+            </div>
+        </div>
+    );
+
     // Initialize dark mode from localStorage (light mode is default when no preference stored)
     useEffect(() => {
         const stored = localStorage.getItem('darkMode');
@@ -413,6 +577,53 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
         setTimeout(() => setShowSuccess(false), 3000);
     };
 
+    // Weekly booking availability (mentors); saved explicitly so half-edited windows aren't published
+    const [availabilityForm, setAvailabilityForm] = useState<MentorAvailability>(
+        user.availability || createDefaultAvailability(resolveTimeZone(user.timezone))
+    );
+    const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+
+    const updateAvailabilityWindow = (index: number, patch: Partial<AvailabilityWindow>) => {
+        setAvailabilityForm((prev) => ({
+            ...prev,
+            windows: prev.windows.map((w, i) => (i === index ? { ...w, ...patch } : w)),
+        }));
+    };
+
+    const addAvailabilityWindow = () => {
+        setAvailabilityForm((prev) => ({
+            ...prev,
+            windows: [...prev.windows, { weekday: 1, startTime: '09:00', endTime: '12:00' }],
+        }));
+    };
+
+    const removeAvailabilityWindow = (index: number) => {
+        setAvailabilityForm((prev) => ({
+            ...prev,
+            windows: prev.windows.filter((_, i) => i !== index),
+        }));
+    };
+
+    const saveAvailability = () => {
+        const problem = validateAvailability(availabilityForm);
+        setAvailabilityError(problem);
+        if (problem) return;
+        const windows = [...availabilityForm.windows].sort(
+            (a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime)
+        );
+        const { maxSessionsPerWeek, ...rest } = availabilityForm;
+        // Firestore rejects undefined, so an uncapped week leaves the field off entirely
+        const availability: MentorAvailability = {
+            ...rest,
+            windows,
+            ...(maxSessionsPerWeek !== undefined && { maxSessionsPerWeek }),
+        };
+        setAvailabilityForm(availability);
+        onUpdateUser({ ...user, availability });
+        setShowSuccess(true);
+        setTimeout(() => setShowSuccess(false), 3000);
+    };
+
     const tabs = [
         { id: 'profile', label: 'Profile', icon: Users },
         { id: 'preferences', label: 'Preferences', icon: Settings },
@@ -442,7 +653,11 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
         if (activeTab === 'platform-admin') {
             setActiveTab('profile');
         }
-    }, [isPlatformOperator, activeTab]);
+        // Org requires 2FA and the grace period is over: only the Security tab until it's set up
+        if (totpPolicyStatus === 'enforced' && activeTab !== 'security') {
+            setActiveTab('security');
+        }
+    }, [isPlatformOperator, activeTab, totpPolicyStatus]);
 
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
     
@@ -663,6 +878,55 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                         label="Skills"
                                     />
                                 </div>
+                                {(user.role === Role.MENTOR || user.role === Role.MENTEE) && (
+                                    <>
+                                        <div className="col-span-2">
+                                            {user.role === Role.MENTOR ? (
+                                                <SkillsSelector
+                                                    selectedSkills={formData.expertise || []}
+                                                    onSkillsChange={(expertise) => setFormData({ ...formData, expertise })}
+                                                    placeholder="Select or type an area"
+                                                    label="Areas you mentor in"
+                                                />
+                                            ) : (
+                                                <SkillsSelector
+                                                    selectedSkills={formData.skillsToImprove || []}
+                                                    onSkillsChange={(skillsToImprove) => setFormData({ ...formData, skillsToImprove })}
+                                                    label="Skills you want to improve"
+                                                />
+                                            )}
+                                        </div>
+                                        <div className="col-span-2">
+                                            <SkillsSelector
+                                                selectedSkills={(user.role === Role.MENTOR ? formData.industries : formData.preferredIndustries) || []}
+                                                onSkillsChange={(industries) => setFormData(user.role === Role.MENTOR
+                                                    ? { ...formData, industries }
+                                                    : { ...formData, preferredIndustries: industries })}
+                                                options={PREDEFINED_INDUSTRIES}
+                                                placeholder="Select or type an industry"
+                                                label={user.role === Role.MENTOR ? 'Industries you have worked in' : 'Industries you want a mentor from'}
+                                            />
+                                        </div>
+                                        <div className="col-span-2">
+                                            <label htmlFor="profile-mentorship-style" className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                                                {user.role === Role.MENTOR ? 'Mentorship Style You Offer' : 'Preferred Mentorship Style'}
+                                            </label>
+                                            <select
+                                                id="profile-mentorship-style"
+                                                className={INPUT_CLASS}
+                                                value={formData.mentorshipStyle || ''}
+                                                onChange={e => setFormData({ ...formData, mentorshipStyle: e.target.value as MentorshipStyle })}
+                                            >
+                                                <option value="" disabled>Choose a style</option>
+                                                <option value="structured">Structured</option>
+                                                <option value="flexible">Flexible</option>
+                                                <option value="project-based">Project-based</option>
+                                                <option value="any">Any</option>
+                                            </select>
+                                            <p className="text-xs text-slate-400 mt-1">Used to suggest {user.role === Role.MENTOR ? 'mentees' : 'mentors'} when your program creates matches</p>
+                                        </div>
+                                    </>
+                                )}
                                 <div className="col-span-2">
                                     <LocationInput
                                         value={{
@@ -682,6 +946,21 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                         showLabels={true}
                                     />
                                 </div>
+                                <div className="col-span-2">
+                                    <label htmlFor="profile-timezone" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Time Zone</label>
+                                    <select
+                                        id="profile-timezone"
+                                        className={INPUT_CLASS}
+                                        value={resolveTimeZone(formData.timezone)}
+                                        onChange={e => setFormData({ ...formData, timezone: e.target.value })}
+                                        aria-describedby="profile-timezone-description"
+                                    >
+                                        {timeZoneOptions.map((tz) => (
+                                            <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                                        ))}
+                                    </select>
+                                    <p id="profile-timezone-description" className="text-xs text-slate-400 mt-1">Meeting times in your calendar, reminders and emails are shown in this zone</p>
+                                </div>
                                 <div className="col-span-2">
                                     <label className="block text-xs font-semibold text-slate-500 uppercase mb-2">Current Mood</label>
                                     <div className="grid grid-cols-[repeat(auto-fill,minmax(88px,1fr))] gap-3" role="group" aria-label="Select your current mood">
@@ -768,6 +1047,128 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                     </div>
                                 </div>
                             )}
+                            {user.role === Role.MENTOR && (
+                                <div className={CARD_CLASS}>
+                                    <h3 className="font-bold text-slate-800 dark:text-white mb-1">Booking Availability</h3>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                                        Your mentees can book sessions in these weekly windows. Times that clash with your events, or with busy times from your connected calendars (updated when you sync), are hidden.
+                                    </p>
+                                    <div className="space-y-4">
+                                        <div>
+                                            <label htmlFor="availability-timezone" className="block text-xs font-semibold text-slate-500 mb-1">Time Zone</label>
+                                            <select
+                                                id="availability-timezone"
+                                                className={INPUT_CLASS}
+                                                value={availabilityForm.timeZone}
+                                                onChange={(e) => setAvailabilityForm({ ...availabilityForm, timeZone: e.target.value })}
+                                            >
+                                                {timeZoneOptions.map((tz) => (
+                                                    <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <span className="block text-xs font-semibold text-slate-500">Weekly Windows</span>
+                                            {availabilityForm.windows.length === 0 && (
+                                                <p className="text-sm text-slate-500 dark:text-slate-400">No windows yet. Mentees can't book you until you add one.</p>
+                                            )}
+                                            {availabilityForm.windows.map((window, index) => (
+                                                <div key={index} className="flex flex-wrap items-center gap-2">
+                                                    <select
+                                                        aria-label="Day"
+                                                        className={INPUT_CLASS + ' w-auto'}
+                                                        value={window.weekday}
+                                                        onChange={(e) => updateAvailabilityWindow(index, { weekday: parseInt(e.target.value, 10) })}
+                                                    >
+                                                        {WEEKDAY_LABELS.map((label, weekday) => (
+                                                            <option key={label} value={weekday}>{label}</option>
+                                                        ))}
+                                                    </select>
+                                                    <input
+                                                        type="time"
+                                                        aria-label="Start time"
+                                                        className={INPUT_CLASS + ' w-auto'}
+                                                        value={window.startTime}
+                                                        onChange={(e) => updateAvailabilityWindow(index, { startTime: e.target.value })}
+                                                    />
+                                                    <span className="text-sm text-slate-500">to</span>
+                                                    <input
+                                                        type="time"
+                                                        aria-label="End time"
+                                                        className={INPUT_CLASS + ' w-auto'}
+                                                        value={window.endTime}
+                                                        onChange={(e) => updateAvailabilityWindow(index, { endTime: e.target.value })}
+                                                    />
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => removeAvailabilityWindow(index)}
+                                                        aria-label="Remove window"
+                                                        className="p-2 text-slate-400 hover:text-red-600 rounded-lg min-h-[44px] min-w-[44px] flex items-center justify-center"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                            <button
+                                                type="button"
+                                                onClick={addAvailabilityWindow}
+                                                className="flex items-center text-sm font-medium text-emerald-600 dark:text-emerald-400 hover:underline min-h-[44px]"
+                                            >
+                                                <Plus className="w-4 h-4 mr-1" /> Add window
+                                            </button>
+                                        </div>
+                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                            <div>
+                                                <label htmlFor="availability-session" className="block text-xs font-semibold text-slate-500 mb-1">Session Length</label>
+                                                <select
+                                                    id="availability-session"
+                                                    className={INPUT_CLASS}
+                                                    value={availabilityForm.sessionMinutes}
+                                                    onChange={(e) => setAvailabilityForm({ ...availabilityForm, sessionMinutes: parseInt(e.target.value, 10) })}
+                                                >
+                                                    {SESSION_LENGTH_OPTIONS.map((minutes) => (
+                                                        <option key={minutes} value={minutes}>{minutes} min</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label htmlFor="availability-buffer" className="block text-xs font-semibold text-slate-500 mb-1">Buffer Between Events</label>
+                                                <select
+                                                    id="availability-buffer"
+                                                    className={INPUT_CLASS}
+                                                    value={availabilityForm.bufferMinutes}
+                                                    onChange={(e) => setAvailabilityForm({ ...availabilityForm, bufferMinutes: parseInt(e.target.value, 10) })}
+                                                >
+                                                    {BUFFER_OPTIONS.map((minutes) => (
+                                                        <option key={minutes} value={minutes}>{minutes === 0 ? 'None' : `${minutes} min`}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <div>
+                                                <label htmlFor="availability-max" className="block text-xs font-semibold text-slate-500 mb-1">Max Sessions / Week</label>
+                                                <input
+                                                    id="availability-max"
+                                                    type="number"
+                                                    min={1}
+                                                    placeholder="No limit"
+                                                    className={INPUT_CLASS}
+                                                    value={availabilityForm.maxSessionsPerWeek ?? ''}
+                                                    onChange={(e) => setAvailabilityForm({
+                                                        ...availabilityForm,
+                                                        maxSessionsPerWeek: e.target.value === '' ? undefined : parseInt(e.target.value, 10),
+                                                    })}
+                                                />
+                                            </div>
+                                        </div>
+                                        {availabilityError && (
+                                            <p role="alert" className="text-sm text-red-600 dark:text-red-400">{availabilityError}</p>
+                                        )}
+                                        <button type="button" onClick={saveAvailability} className={BUTTON_PRIMARY}>
+                                            <Save className="w-4 h-4 mr-2" /> Save Availability
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                             {user.role === Role.MENTEE && (
                                 <div className={CARD_CLASS}>
                                     <h3 className="font-bold text-slate-800 dark:text-white mb-4">Learning Visibility</h3>
@@ -836,42 +1237,45 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                 )}
                                 .
                             </p>
+                            <div className="p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg">
+                                <label htmlFor="email-digest" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Email Delivery</label>
+                                <select
+                                    id="email-digest"
+                                    className={INPUT_CLASS}
+                                    value={user.emailDigest || 'immediate'}
+                                    onChange={e => {
+                                        onUpdateUser({ ...user, emailDigest: e.target.value as EmailDigestFrequency });
+                                        setShowSuccess(true);
+                                        setTimeout(() => setShowSuccess(false), 3000);
+                                    }}
+                                >
+                                    {EMAIL_DIGEST_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                                    Digests bundle unread alerts, messages, upcoming sessions and goal changes into one email at 8am your time. Meeting reminders still arrive right away. The email toggles below still decide what goes in it.
+                                </p>
+                            </div>
                             <div className="space-y-3 sm:space-y-4">
-                                {Object.entries(notificationPrefs).map(([category, prefs]) => {
-                                    const typedPrefs = prefs as { email: boolean; push: boolean };
-                                    return (
-                                        <div key={category} className="flex flex-col sm:flex-row sm:items-center sm:justify-between p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg gap-3 sm:gap-0">
-                                            <span className="font-medium text-slate-700 dark:text-slate-200 text-sm sm:text-base">{category}</span>
-                                            <div className="flex gap-4 sm:gap-6">
-                                                <label className="flex items-center cursor-pointer space-x-2 min-h-[44px] touch-manipulation">
-                                                    <span className="text-xs text-slate-500 dark:text-slate-400">Email</span>
-                                                    <button 
-                                                        onClick={() => togglePref(category, 'email')}
-                                                        aria-label={`${typedPrefs.email ? 'Disable' : 'Enable'} email notifications for ${category}`}
-                                                        className="focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded"
-                                                    >
-                                                        <span aria-hidden="true">
-                                                        {typedPrefs.email ? <ToggleRight className="w-8 h-8 text-emerald-500" /> : <ToggleLeft className="w-8 h-8 text-slate-300 dark:text-slate-600" />}
-                                                        </span>
-                                                    </button>
-                                                </label>
-                                                <label className="flex items-center cursor-pointer space-x-2 min-h-[44px] touch-manipulation">
-                                                    <span className="text-xs text-slate-500 dark:text-slate-400">In-App</span>
-                                                    <button 
-                                                        onClick={() => togglePref(category, 'push')}
-                                                        aria-label={`${typedPrefs.push ? 'Disable' : 'Enable'} in-app notifications for ${category}`}
-                                                        className="focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded"
-                                                    >
-                                                        <span aria-hidden="true">
-                                                        {typedPrefs.push ? <ToggleRight className="w-8 h-8 text-emerald-500" /> : <ToggleLeft className="w-8 h-8 text-slate-300 dark:text-slate-600" />}
-                                                        </span>
-                                                    </button>
-                                                </label>
-                                            </div>
-                                        </div>
-                                    );
-                                })}
+                                {NOTIFICATION_CATEGORIES.map((category) =>
+                                    renderPreferenceRow(category, effectivePrefs[category], (type) => togglePref(category, type))
+                                )}
                             </div>
+                            {isOrgAdmin && organizationId && onUpdateOrganization && (
+                                <div className="pt-2">
+                                    <h3 className="font-bold text-slate-900 dark:text-white">Organization Defaults</h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+                                        Applied to every member who hasn't changed a category themselves.
+                                    </p>
+                                    <div className="space-y-3 sm:space-y-4">
+                                        {NOTIFICATION_CATEGORIES.map((category) =>
+                                            renderPreferenceRow(category, orgDefaultPrefs[category], (type) => toggleOrgDefault(category, type), 'default ')
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                            {isOrgAdmin && organizationId && <EmailDeliveryLog organizationId={organizationId} />}
                         </div>
                     )}
 
@@ -927,7 +1331,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                         </h3>
                                         <p className="text-xs text-slate-500 mt-1">Use Google Authenticator for an extra layer of security.</p>
                                     </div>
-                                    {totpFlow === 'idle' && (
+                                    {totpFlow === 'idle' && !(twoFactorEnabled && totpRequiredByOrg) && (
                                         <button
                                             onClick={async () => {
                                                 if (twoFactorEnabled) {
@@ -960,16 +1364,147 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                         </button>
                                     )}
                                 </div>
+                                {(totpPolicyStatus === 'grace' || totpPolicyStatus === 'enforced') && securityPolicy && totpFlow === 'idle' && (
+                                    <div className={`mb-4 p-3 rounded-lg flex items-start border ${totpPolicyStatus === 'enforced' ? 'bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800' : 'bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-800'}`}>
+                                        <AlertCircle className={`w-5 h-5 mr-2 flex-shrink-0 mt-0.5 ${totpPolicyStatus === 'enforced' ? 'text-red-600' : 'text-amber-600'}`} />
+                                        <p className={`text-sm ${totpPolicyStatus === 'enforced' ? 'text-red-700 dark:text-red-300' : 'text-amber-800 dark:text-amber-300'}`}>
+                                            {totpPolicyStatus === 'enforced'
+                                                ? 'Your organization requires two-factor authentication. Turn it on below to continue using Meant2Grow.'
+                                                : `Your organization requires two-factor authentication. Turn it on within ${getTotpGraceDaysLeft(securityPolicy, user)} days to keep full access.`}
+                                        </p>
+                                    </div>
+                                )}
                                 {twoFactorEnabled && totpFlow === 'idle' && (
                                     <div className="bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800 p-3 rounded-lg flex items-center">
                                         <Check className="w-5 h-5 text-emerald-600 mr-2 flex-shrink-0" />
-                                        <span className="text-sm text-emerald-800 dark:text-emerald-300">2FA is active via Google Authenticator.</span>
-                                        <button
-                                            onClick={() => { setTotpFlow('disabling'); setTotpCode(''); setTotpError(null); }}
-                                            className="ml-auto text-sm font-medium text-emerald-700 hover:text-emerald-800"
-                                        >
-                                            Disable
-                                        </button>
+                                        <span className="text-sm text-emerald-800 dark:text-emerald-300">
+                                            2FA is active via Google Authenticator.{totpRequiredByOrg && ' Required by your organization.'}
+                                        </span>
+                                        {!totpRequiredByOrg && (
+                                            <button
+                                                onClick={() => { setTotpFlow('disabling'); setTotpCode(''); setTotpError(null); }}
+                                                className="ml-auto text-sm font-medium text-emerald-700 hover:text-emerald-800"
+                                            >
+                                                Disable
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                {twoFactorEnabled && totpFlow === 'idle' && totpStatus && (
+                                    <div className="mt-4 space-y-4">
+                                        <div className="flex items-center justify-between gap-4">
+                                            <div>
+                                                <p className="text-sm font-medium text-slate-800 dark:text-white flex items-center">
+                                                    <Key className="w-4 h-4 mr-2 text-slate-500" /> Backup codes
+                                                </p>
+                                                <p className={`text-xs mt-1 ${totpStatus.backupCodesRemaining <= 2 ? 'text-amber-600' : 'text-slate-500'}`}>
+                                                    {totpStatus.backupCodesRemaining} unused {totpStatus.backupCodesRemaining === 1 ? 'code' : 'codes'} left. Each code signs you in once if you lose your phone.
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => { setTotpFlow('regenerating'); setTotpCode(''); setTotpError(null); }}
+                                                className="text-sm font-medium text-emerald-600 hover:text-emerald-700 flex-shrink-0"
+                                            >
+                                                Generate new codes
+                                            </button>
+                                        </div>
+                                        {totpStatus.trustedDevices.length > 0 && (
+                                            <div>
+                                                <div className="flex items-center justify-between mb-2">
+                                                    <p className="text-sm font-medium text-slate-800 dark:text-white">Trusted devices</p>
+                                                    <button
+                                                        onClick={async () => {
+                                                            try {
+                                                                const token = await auth.currentUser?.getIdToken();
+                                                                if (!token) throw new Error('Session expired. Please sign in again.');
+                                                                await forgetTrustedDevices(token);
+                                                                clearTrustToken(fcmStorageUserId ?? user.id);
+                                                                await refreshTotpStatus();
+                                                            } catch (err) {
+                                                                setTotpError(getErrorMessage(err) || 'Failed to forget trusted devices');
+                                                            }
+                                                        }}
+                                                        className="text-xs text-red-500 font-medium hover:underline"
+                                                    >
+                                                        Forget all
+                                                    </button>
+                                                </div>
+                                                <ul className="space-y-1">
+                                                    {totpStatus.trustedDevices.map((device) => (
+                                                        <li key={device.deviceId} className="text-xs text-slate-500 dark:text-slate-400 flex justify-between">
+                                                            <span className="truncate">{device.deviceName}{device.deviceId === currentDeviceId && ' (This Device)'}</span>
+                                                            <span className="flex-shrink-0 ml-2">Skips 2FA until {new Date(device.expiresAt).toLocaleDateString()}</span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+                                        {totpError && <p className="text-sm text-red-600">{totpError}</p>}
+                                    </div>
+                                )}
+                                {totpFlow === 'backupCodes' && (
+                                    <div className="space-y-4">
+                                        <p className="text-sm text-slate-600 dark:text-slate-400">
+                                            Save these backup codes somewhere safe. Each one can be used once to sign in if you lose access to your authenticator app. They won't be shown again.
+                                        </p>
+                                        <div className="grid grid-cols-2 gap-2 bg-slate-100 dark:bg-slate-800 p-3 rounded-lg">
+                                            {totpBackupCodes.map((code) => (
+                                                <code key={code} className="text-sm font-mono text-slate-800 dark:text-slate-200">{code}</code>
+                                            ))}
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => navigator.clipboard.writeText(totpBackupCodes.join('\n'))}
+                                                className="px-4 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 bg-white dark:bg-slate-900 border border-slate-300 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800"
+                                            >
+                                                Copy
+                                            </button>
+                                            <button
+                                                onClick={() => { setTotpBackupCodes([]); setTotpFlow('idle'); }}
+                                                className={`${BUTTON_PRIMARY} text-sm py-2`}
+                                            >
+                                                I've saved my codes
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                                {totpFlow === 'regenerating' && (
+                                    <div className="space-y-4">
+                                        <p className="text-sm text-slate-600 dark:text-slate-400">Enter your current 6-digit code or a backup code. Your old backup codes will stop working.</p>
+                                        <input
+                                            type="text"
+                                            autoComplete="off"
+                                            maxLength={9}
+                                            placeholder="000000"
+                                            className={INPUT_CLASS + ' w-40 text-center text-lg tracking-widest'}
+                                            value={totpCode}
+                                            onChange={e => { setTotpCode(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '')); setTotpError(null); }}
+                                        />
+                                        {totpError && <p className="text-sm text-red-600">{totpError}</p>}
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={async () => {
+                                                    setTotpLoading(true); setTotpError(null);
+                                                    try {
+                                                        const token = await auth.currentUser?.getIdToken();
+                                                        if (!token) throw new Error('Session expired. Please sign in again.');
+                                                        setTotpBackupCodes(await regenerateBackupCodes(token, totpCode));
+                                                        setTotpFlow('backupCodes'); setTotpCode('');
+                                                    } catch (err) {
+                                                        setTotpError(getErrorMessage(err) || 'Failed to generate backup codes');
+                                                    } finally {
+                                                        setTotpLoading(false);
+                                                    }
+                                                }}
+                                                disabled={totpLoading || !totpCodeReady}
+                                                className={`${BUTTON_PRIMARY} text-sm py-2 disabled:opacity-50`}
+                                            >
+                                                {totpLoading ? 'Generating...' : 'Generate new codes'}
+                                            </button>
+                                            <button onClick={() => { setTotpFlow('idle'); setTotpCode(''); setTotpError(null); }} className="text-sm text-slate-500 hover:text-slate-700">
+                                                Cancel
+                                            </button>
+                                        </div>
                                     </div>
                                 )}
                                 {totpFlow === 'scanning' && totpSetupData && (
@@ -1017,9 +1552,10 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                                     try {
                                                         const token = await auth.currentUser?.getIdToken();
                                                         if (!token) throw new Error('Session expired. Please sign in again.');
-                                                        await verifyTotpSetup(token, totpCode);
+                                                        const codes = await verifyTotpSetup(token, totpCode);
                                                         onUpdateUser({ ...user, totpEnabled: true });
-                                                        setTotpFlow('idle'); setTotpCode(''); setTotpSetupData(null);
+                                                        setTotpBackupCodes(codes);
+                                                        setTotpFlow('backupCodes'); setTotpCode(''); setTotpSetupData(null);
                                                     } catch (err) {
                                                         setTotpError(getErrorMessage(err) || 'Verification failed');
                                                     } finally {
@@ -1039,27 +1575,28 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                 )}
                                 {totpFlow === 'disabling' && (
                                     <div className="space-y-4">
-                                        <p className="text-sm text-slate-600 dark:text-slate-400">Enter your current 6-digit code to disable 2FA:</p>
+                                        <p className="text-sm text-slate-600 dark:text-slate-400">Enter your current 6-digit code or a backup code to disable 2FA:</p>
                                         <input
                                             type="text"
-                                            inputMode="numeric"
-                                            pattern="[0-9]*"
-                                            maxLength={6}
+                                            autoComplete="off"
+                                            maxLength={9}
                                             placeholder="000000"
-                                            className={INPUT_CLASS + ' w-32 text-center text-lg tracking-widest'}
+                                            className={INPUT_CLASS + ' w-40 text-center text-lg tracking-widest'}
                                             value={totpCode}
-                                            onChange={e => { setTotpCode(e.target.value.replace(/\D/g, '')); setTotpError(null); }}
+                                            onChange={e => { setTotpCode(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '')); setTotpError(null); }}
                                         />
                                         {totpError && <p className="text-sm text-red-600">{totpError}</p>}
                                         <div className="flex gap-2">
                                             <button
                                                 onClick={async () => {
-                                                    if (totpCode.length !== 6) { setTotpError('Please enter a 6-digit code'); return; }
+                                                    if (!totpCodeReady) { setTotpError('Please enter a 6-digit code or a backup code'); return; }
                                                     setTotpLoading(true); setTotpError(null);
                                                     try {
                                                         const token = await auth.currentUser?.getIdToken();
                                                         if (!token) throw new Error('Session expired. Please sign in again.');
                                                         await disableTotp(token, totpCode);
+                                                        clearTrustToken(fcmStorageUserId ?? user.id);
+                                                        setTotpStatus(null);
                                                         onUpdateUser({ ...user, totpEnabled: false });
                                                         setTotpFlow('idle'); setTotpCode('');
                                                     } catch (err) {
@@ -1068,7 +1605,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                                         setTotpLoading(false);
                                                     }
                                                 }}
-                                                disabled={totpLoading || totpCode.length !== 6}
+                                                disabled={totpLoading || !totpCodeReady}
                                                 className="px-4 py-2 text-sm font-medium text-red-700 bg-red-50 hover:bg-red-100 dark:bg-red-900/20 dark:hover:bg-red-900/30 rounded-lg disabled:opacity-50"
                                             >
                                                 {totpLoading ? 'Disabling...' : 'Disable 2FA'}
@@ -1151,6 +1688,11 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                                                         setRevokingDeviceId(device.deviceId);
                                                                         try {
                                                                             await revokeDevice(device.deviceId);
+                                                                            const token = await auth.currentUser?.getIdToken();
+                                                                            if (token && twoFactorEnabled) {
+                                                                                await forgetTrustedDevices(token, device.deviceId);
+                                                                                await refreshTotpStatus();
+                                                                            }
                                                                         } catch (error) {
                                                                             logger.error('Error revoking device', error);
                                                                             alert('Failed to revoke device. Please try again.');
@@ -1173,6 +1715,182 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                 )}
                             </div>
 
+                            {/* Blocked Users */}
+                            <div>
+                                <h3 className="font-bold text-slate-800 dark:text-white mb-4 flex items-center">
+                                    <Ban className="w-5 h-5 mr-2 text-red-500" /> Blocked Users
+                                </h3>
+                                {myBlocks.length === 0 ? (
+                                    <div className="text-sm text-slate-500 dark:text-slate-400">You haven't blocked anyone.</div>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {myBlocks.map((block) => {
+                                            const blockedUser = users.find(u => u.id === block.blockedId);
+                                            return (
+                                                <div
+                                                    key={block.id}
+                                                    className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-4 rounded-xl flex justify-between items-center"
+                                                >
+                                                    <div className="flex items-center flex-1 min-w-0">
+                                                        {blockedUser?.avatar && (
+                                                            <img src={blockedUser.avatar} alt="" className="w-8 h-8 rounded-full mr-3 object-cover flex-shrink-0" />
+                                                        )}
+                                                        <div className="min-w-0">
+                                                            <p className="font-bold text-sm text-slate-900 dark:text-white truncate">
+                                                                {blockedUser?.name || 'Unknown user'}
+                                                            </p>
+                                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                                Blocked {new Date(block.createdAt).toLocaleDateString()}
+                                                            </p>
+                                                        </div>
+                                                    </div>
+                                                    <button
+                                                        onClick={() => handleUnblock(block.blockedId)}
+                                                        disabled={unblockingId === block.blockedId}
+                                                        className="text-xs text-emerald-600 font-medium hover:underline disabled:opacity-50 flex-shrink-0"
+                                                    >
+                                                        {unblockingId === block.blockedId ? 'Unblocking...' : 'Unblock'}
+                                                    </button>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Organization 2FA policy */}
+                            {isOrgAdmin && onUpdateOrganization && (
+                                <div className={CARD_CLASS}>
+                                    <h3 className="font-bold text-slate-800 dark:text-white mb-1 flex items-center">
+                                        <Shield className="w-5 h-5 mr-2 text-indigo-500" /> Two-Factor Policy
+                                    </h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+                                        Require Google Authenticator for some or all of your program. Members who don't have it yet can keep signing in during the grace period; after that they must set it up first.
+                                    </p>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                                        <div>
+                                            <label htmlFor="totp-policy-requirement" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Two-factor authentication</label>
+                                            <select
+                                                id="totp-policy-requirement"
+                                                className={INPUT_CLASS}
+                                                value={policyRequirement}
+                                                onChange={e => setPolicyRequirement(e.target.value as TotpRequirement)}
+                                            >
+                                                {TOTP_REQUIREMENT_OPTIONS.map(option => (
+                                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label htmlFor="totp-policy-grace" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Grace period (days)</label>
+                                            <input
+                                                id="totp-policy-grace"
+                                                type="number"
+                                                min={0}
+                                                max={MAX_TOTP_GRACE_DAYS}
+                                                className={INPUT_CLASS}
+                                                value={policyGraceDays}
+                                                disabled={policyRequirement === 'off'}
+                                                onChange={e => setPolicyGraceDays(Number(e.target.value))}
+                                            />
+                                        </div>
+                                    </div>
+                                    {policyRequirement !== 'off' && (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                                            {membersMissingTotp === 0
+                                                ? 'Everyone this covers already uses two-factor authentication.'
+                                                : `${membersMissingTotp} ${membersMissingTotp === 1 ? 'member' : 'members'} covered by this policy don't have two-factor authentication yet.`}
+                                            {policyRequirement !== securityPolicy?.requireTotp && ' Saving starts a new grace period.'}
+                                        </p>
+                                    )}
+                                    <button
+                                        onClick={saveSecurityPolicy}
+                                        disabled={savingPolicy}
+                                        className={`${BUTTON_PRIMARY} text-sm py-2 disabled:opacity-50`}
+                                    >
+                                        {savingPolicy ? 'Saving...' : 'Save policy'}
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Enterprise single sign-on */}
+                            {isOrgAdmin && organization && (
+                                hasFeature(organization, 'sso') ? (
+                                    <SsoSettings organization={organization} />
+                                ) : (
+                                    <UpgradePrompt
+                                        title="Single sign-on"
+                                        message="Let members sign in with your company's identity provider over SAML or OpenID Connect, and add new members automatically on their first sign-in."
+                                        requiredTier={getMinimumTierForFeature('sso')}
+                                        canUpgrade={isOrgAdmin}
+                                        onNavigate={onNavigate}
+                                    />
+                                )
+                            )}
+
+                            {/* SCIM user provisioning */}
+                            {isOrgAdmin && organization && (
+                                hasFeature(organization, 'apiAccess') ? (
+                                    <ScimSettings />
+                                ) : (
+                                    <UpgradePrompt
+                                        title="SCIM provisioning"
+                                        message="Sync joiners, movers and leavers from your HR system or identity provider instead of inviting and removing people by hand."
+                                        requiredTier={getMinimumTierForFeature('apiAccess')}
+                                        canUpgrade={isOrgAdmin}
+                                        onNavigate={onNavigate}
+                                    />
+                                )
+                            )}
+
+                            {/* Support Access History */}
+                            {isOrgAdmin && (
+                                <div>
+                                    <h3 className="font-bold text-slate-800 dark:text-white mb-1 flex items-center">
+                                        <Shield className="w-5 h-5 mr-2 text-amber-500" /> Support Access History
+                                    </h3>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+                                        Times a platform operator signed in as someone in your program, and why.
+                                    </p>
+                                    {supportSessions.length === 0 ? (
+                                        <div className="text-sm text-slate-500 dark:text-slate-400">No support sessions yet.</div>
+                                    ) : (
+                                        <div className="space-y-3">
+                                            {supportSessions.map((session) => {
+                                                const ended = session.endedAt || (new Date(session.expiresAt) < new Date() ? session.expiresAt : null);
+                                                const writes = auditWriteCounts[session.id] || 0;
+                                                return (
+                                                    <div
+                                                        key={session.id}
+                                                        className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 p-4 rounded-xl"
+                                                    >
+                                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                                            <p className="font-bold text-sm text-slate-900 dark:text-white">
+                                                                {session.operatorName} <span className="font-normal text-slate-500">as</span> {session.targetUserName || 'Unknown user'}
+                                                            </p>
+                                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                                                                session.mode === 'read_write'
+                                                                    ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+                                                                    : 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300'
+                                                            }`}>
+                                                                {session.mode === 'read_write' ? 'Read-write' : 'Read-only'}
+                                                            </span>
+                                                        </div>
+                                                        <p className="text-sm text-slate-600 dark:text-slate-300 mt-1">{session.reason}</p>
+                                                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+                                                            {new Date(session.startedAt).toLocaleString()}
+                                                            {' – '}
+                                                            {ended ? new Date(ended).toLocaleString() : 'active now'}
+                                                            {session.mode === 'read_write' && ` · ${writes} change${writes === 1 ? '' : 's'} recorded`}
+                                                        </p>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Data & Privacy */}
                             <div>
                                 <h3 className="font-bold text-slate-800 dark:text-white mb-4">Data & Privacy</h3>
@@ -1243,7 +1961,20 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                         </div>
                     )}
 
-                    {activeTab === 'calendar' && (
+                    {activeTab === 'calendar' && !canSyncCalendars && (
+                        <div className="space-y-4 sm:space-y-6 animate-in fade-in">
+                            <h2 className="text-lg sm:text-xl font-bold text-slate-900 dark:text-white">Sync Calendars</h2>
+                            <UpgradePrompt
+                                title="Calendar integration"
+                                message="Sync meetings with Google, Outlook, and Apple calendars."
+                                requiredTier={getMinimumTierForFeature('calendarIntegration')}
+                                canUpgrade={isOrgAdmin}
+                                onNavigate={onNavigate}
+                            />
+                        </div>
+                    )}
+
+                    {activeTab === 'calendar' && canSyncCalendars && (
                         <div className="space-y-4 sm:space-y-6 animate-in fade-in">
                             <h2 className="text-lg sm:text-xl font-bold text-slate-900 dark:text-white">Sync Calendars</h2>
                             <p className="text-sm text-slate-500 dark:text-slate-400">
@@ -1386,155 +2117,177 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                 </div>
                             </div>
 
-                            {/* Accent Color */}
-                            <div className={CARD_CLASS}>
-                                <h3 className="font-bold text-slate-900 dark:text-white mb-4 flex items-center">
-                                    <Palette className="w-5 h-5 mr-2 text-emerald-600" /> Brand Color
-                                </h3>
-                                <div className="space-y-4">
-                                    <div>
-                                        <label className="block text-xs font-semibold text-slate-500 uppercase mb-2">Accent Color</label>
-                                        <div className="flex flex-wrap gap-3">
-                                            {[
-                                                { name: 'Emerald', hex: '#10b981', tailwind: 'bg-emerald-500' },
-                                                { name: 'Blue', hex: '#3b82f6', tailwind: 'bg-blue-500' },
-                                                { name: 'Indigo', hex: '#6366f1', tailwind: 'bg-indigo-500' },
-                                                { name: 'Violet', hex: '#8b5cf6', tailwind: 'bg-violet-500' },
-                                                { name: 'Rose', hex: '#f43f5e', tailwind: 'bg-rose-500' },
-                                                { name: 'Amber', hex: '#f59e0b', tailwind: 'bg-amber-500' },
-                                                { name: 'Slate', hex: '#64748b', tailwind: 'bg-slate-500' },
-                                            ].map(color => (
-                                                <button
-                                                    key={color.name}
-                                                    onClick={async () => {
-                                                        if (onUpdateOrganization && organizationId) {
-                                                            try {
-                                                                await onUpdateOrganization(organizationId, {
-                                                                    programSettings: {
-                                                                        ...programSettings,
-                                                                        accentColor: color.hex
+                            {canCustomizeBranding ? (
+                                <>
+                                    {/* Accent Color */}
+                                    <div className={CARD_CLASS}>
+                                        <h3 className="font-bold text-slate-900 dark:text-white mb-4 flex items-center">
+                                            <Palette className="w-5 h-5 mr-2 text-emerald-600" /> Brand Color
+                                        </h3>
+                                        <div className="space-y-4">
+                                            <div>
+                                                <label className="block text-xs font-semibold text-slate-500 uppercase mb-2">Accent Color</label>
+                                                <div className="flex flex-wrap gap-3">
+                                                    {[
+                                                        { name: 'Emerald', hex: '#10b981', tailwind: 'bg-emerald-500' },
+                                                        { name: 'Blue', hex: '#3b82f6', tailwind: 'bg-blue-500' },
+                                                        { name: 'Indigo', hex: '#6366f1', tailwind: 'bg-indigo-500' },
+                                                        { name: 'Violet', hex: '#8b5cf6', tailwind: 'bg-violet-500' },
+                                                        { name: 'Rose', hex: '#f43f5e', tailwind: 'bg-rose-500' },
+                                                        { name: 'Amber', hex: '#f59e0b', tailwind: 'bg-amber-500' },
+                                                        { name: 'Slate', hex: '#64748b', tailwind: 'bg-slate-500' },
+                                                    ].map(color => (
+                                                        <button
+                                                            key={color.name}
+                                                            onClick={async () => {
+                                                                if (onUpdateOrganization && organizationId) {
+                                                                    try {
+                                                                        await onUpdateOrganization(organizationId, {
+                                                                            programSettings: {
+                                                                                ...programSettings,
+                                                                                accentColor: color.hex
+                                                                            }
+                                                                        });
+                                                                        setShowSuccess(true);
+                                                                        setTimeout(() => setShowSuccess(false), 3000);
+                                                                    } catch (error) {
+                                                                        logger.error('Error updating accent color', error);
                                                                     }
-                                                                });
-                                                                setShowSuccess(true);
-                                                                setTimeout(() => setShowSuccess(false), 3000);
-                                                            } catch (error) {
-                                                                logger.error('Error updating accent color', error);
-                                                            }
-                                                        }
-                                                    }}
-                                                    className={`w-10 h-10 rounded-full ${color.tailwind} transition-transform hover:scale-110 focus:outline-none ring-offset-2 dark:ring-offset-slate-900 ${
-                                                        programSettings.accentColor === color.hex 
-                                                            ? 'ring-2 ring-slate-900 dark:ring-white scale-110' 
-                                                            : ''
-                                                    }`}
-                                                    title={color.name}
-                                                />
-                                            ))}
+                                                                }
+                                                            }}
+                                                            className={`w-10 h-10 rounded-full ${color.tailwind} transition-transform hover:scale-110 focus:outline-none ring-offset-2 dark:ring-offset-slate-900 ${
+                                                                programSettings.accentColor === color.hex 
+                                                                    ? 'ring-2 ring-slate-900 dark:ring-white scale-110' 
+                                                                    : ''
+                                                            }`}
+                                                            title={color.name}
+                                                        />
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                This color is used for buttons, links, and accent elements throughout the platform.
+                                            </p>
                                         </div>
                                     </div>
-                                    <p className="text-xs text-slate-500 dark:text-slate-400">
-                                        This color is used for buttons, links, and accent elements throughout the platform.
-                                    </p>
-                                </div>
-                            </div>
 
-                            {/* Program Logo */}
-                            <div className={CARD_CLASS}>
-                                <h3 className="font-bold text-slate-900 dark:text-white mb-4 flex items-center">
-                                    <Upload className="w-5 h-5 mr-2 text-emerald-600" /> Program Logo
-                                </h3>
-                                <div className="space-y-4">
-                                    <div>
-                                        <label className="block text-xs font-semibold text-slate-500 uppercase mb-2">Logo</label>
-                                        <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-slate-300 dark:border-slate-700 border-dashed rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors cursor-pointer relative group">
-                                            <div className="space-y-1 text-center">
-                                                {programSettings.logo ? (
-                                                    <img src={programSettings.logo} alt="Logo" className="mx-auto h-16 object-contain mb-2" />
-                                                ) : (
-                                                    <Upload className="mx-auto h-12 w-12 text-slate-400" />
-                                                )}
-                                                <div className="flex text-sm text-slate-600 dark:text-slate-400 justify-center">
-                                                    <label htmlFor="program-logo-upload" className="relative cursor-pointer rounded-md font-medium text-emerald-600 hover:text-emerald-500">
-                                                        <span>{programSettings.logo ? 'Change logo' : 'Upload a file'}</span>
-                                                        <input 
-                                                            id="program-logo-upload" 
-                                                            name="program-logo-upload" 
-                                                            type="file" 
-                                                            className="sr-only" 
-                                                            onChange={(e) => {
-                                                                const file = e.target.files?.[0];
-                                                                if (!file) return;
-                                                                const reader = new FileReader();
-                                                                reader.onload = () => setLogoCropSrc(reader.result as string);
-                                                                reader.readAsDataURL(file);
-                                                                e.target.value = '';
-                                                            }} 
-                                                            accept="image/*" 
-                                                            disabled={isUploadingLogo}
-                                                        />
-                                                    </label>
-                                                    {!programSettings.logo && <p className="pl-1">or drag and drop</p>}
-                                                </div>
-                                                {programSettings.logo && (
-                                                    <button
-                                                        onClick={async () => {
-                                                            if (onUpdateOrganization && organizationId && window.confirm('Are you sure you want to remove the logo?')) {
-                                                                try {
-                                                                    await onUpdateOrganization(organizationId, {
-                                                                        programSettings: {
-                                                                            ...programSettings,
-                                                                            logo: null
+                                    {/* Program Logo */}
+                                    <div className={CARD_CLASS}>
+                                        <h3 className="font-bold text-slate-900 dark:text-white mb-4 flex items-center">
+                                            <Upload className="w-5 h-5 mr-2 text-emerald-600" /> Program Logo
+                                        </h3>
+                                        <div className="space-y-4">
+                                            <div>
+                                                <label className="block text-xs font-semibold text-slate-500 uppercase mb-2">Logo</label>
+                                                <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-slate-300 dark:border-slate-700 border-dashed rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors cursor-pointer relative group">
+                                                    <div className="space-y-1 text-center">
+                                                        {programSettings.logo ? (
+                                                            <img src={programSettings.logo} alt="Logo" className="mx-auto h-16 object-contain mb-2" />
+                                                        ) : (
+                                                            <Upload className="mx-auto h-12 w-12 text-slate-400" />
+                                                        )}
+                                                        <div className="flex text-sm text-slate-600 dark:text-slate-400 justify-center">
+                                                            <label htmlFor="program-logo-upload" className="relative cursor-pointer rounded-md font-medium text-emerald-600 hover:text-emerald-500">
+                                                                <span>{programSettings.logo ? 'Change logo' : 'Upload a file'}</span>
+                                                                <input 
+                                                                    id="program-logo-upload" 
+                                                                    name="program-logo-upload" 
+                                                                    type="file" 
+                                                                    className="sr-only" 
+                                                                    onChange={(e) => {
+                                                                        const file = e.target.files?.[0];
+                                                                        if (!file) return;
+                                                                        const reader = new FileReader();
+                                                                        reader.onload = () => setLogoCropSrc(reader.result as string);
+                                                                        reader.readAsDataURL(file);
+                                                                        e.target.value = '';
+                                                                    }} 
+                                                                    accept="image/*" 
+                                                                    disabled={isUploadingLogo}
+                                                                />
+                                                            </label>
+                                                            {!programSettings.logo && <p className="pl-1">or drag and drop</p>}
+                                                        </div>
+                                                        {programSettings.logo && (
+                                                            <button
+                                                                onClick={async () => {
+                                                                    if (onUpdateOrganization && organizationId && window.confirm('Are you sure you want to remove the logo?')) {
+                                                                        try {
+                                                                            await onUpdateOrganization(organizationId, {
+                                                                                programSettings: {
+                                                                                    ...programSettings,
+                                                                                    logo: null
+                                                                                }
+                                                                            });
+                                                                            setShowSuccess(true);
+                                                                            setTimeout(() => setShowSuccess(false), 3000);
+                                                                        } catch (error) {
+                                                                            logger.error('Error removing logo', error);
                                                                         }
-                                                                    });
-                                                                    setShowSuccess(true);
-                                                                    setTimeout(() => setShowSuccess(false), 3000);
-                                                                } catch (error) {
-                                                                    logger.error('Error removing logo', error);
-                                                                }
-                                                            }
-                                                        }}
-                                                        className="text-xs text-red-600 hover:text-red-700 dark:text-red-400 mt-2"
-                                                    >
-                                                        Remove logo
-                                                    </button>
-                                                )}
-                                                <p className="text-xs text-slate-500">PNG, JPG, GIF up to 10MB</p>
-                                                {isUploadingLogo && (
-                                                    <p className="text-xs text-emerald-600">Uploading...</p>
-                                                )}
+                                                                    }
+                                                                }}
+                                                                className="text-xs text-red-600 hover:text-red-700 dark:text-red-400 mt-2"
+                                                            >
+                                                                Remove logo
+                                                            </button>
+                                                        )}
+                                                        <p className="text-xs text-slate-500">PNG, JPG, GIF up to 10MB</p>
+                                                        {isUploadingLogo && (
+                                                            <p className="text-xs text-emerald-600">Uploading...</p>
+                                                        )}
+                                                    </div>
+                                                </div>
                                             </div>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                Your logo appears on the signup page and throughout the platform.
+                                            </p>
                                         </div>
                                     </div>
-                                    <p className="text-xs text-slate-500 dark:text-slate-400">
-                                        Your logo appears on the signup page and throughout the platform.
-                                    </p>
-                                </div>
-                            </div>
-                            {logoCropSrc && organizationId && onUpdateOrganization && (
-                                <LogoCropperModal
-                                    imageSrc={logoCropSrc}
-                                    onCrop={async (blob) => {
-                                        setIsUploadingLogo(true);
-                                        try {
-                                            const storagePath = generateUniquePath('logo.jpg', `organizations/${organizationId}/logos`);
-                                            const downloadUrl = await uploadFile(blob, storagePath);
-                                            await onUpdateOrganization(organizationId, {
-                                                programSettings: {
-                                                    ...programSettings,
-                                                    logo: downloadUrl
+                                    {logoCropSrc && organizationId && onUpdateOrganization && (
+                                        <LogoCropperModal
+                                            imageSrc={logoCropSrc}
+                                            onCrop={async (blob) => {
+                                                setIsUploadingLogo(true);
+                                                try {
+                                                    const storagePath = generateUniquePath('logo.jpg', `organizations/${organizationId}/logos`);
+                                                    const downloadUrl = await uploadFile(blob, storagePath);
+                                                    await onUpdateOrganization(organizationId, {
+                                                        programSettings: {
+                                                            ...programSettings,
+                                                            logo: downloadUrl
+                                                        }
+                                                    });
+                                                    setShowSuccess(true);
+                                                    setTimeout(() => setShowSuccess(false), 3000);
+                                                    setLogoCropSrc(null);
+                                                } catch (error) {
+                                                    logger.error('Error uploading logo', error);
+                                                    alert('Failed to upload logo. Please try again.');
+                                                } finally {
+                                                    setIsUploadingLogo(false);
                                                 }
-                                            });
-                                            setShowSuccess(true);
-                                            setTimeout(() => setShowSuccess(false), 3000);
-                                            setLogoCropSrc(null);
-                                        } catch (error) {
-                                            logger.error('Error uploading logo', error);
-                                            alert('Failed to upload logo. Please try again.');
-                                        } finally {
-                                            setIsUploadingLogo(false);
-                                        }
-                                    }}
-                                    onCancel={() => setLogoCropSrc(null)}
+                                            }}
+                                            onCancel={() => setLogoCropSrc(null)}
+                                        />
+                                    )}
+
+                                    {organization && (
+                                        <EmailTemplateEditor
+                                            organization={organization}
+                                            onSave={async (emailTemplates) => {
+                                                await onUpdateOrganization(organizationId, { emailTemplates });
+                                                setOrganization({ ...organization, emailTemplates });
+                                            }}
+                                        />
+                                    )}
+                                </>
+                            ) : (
+                                <UpgradePrompt
+                                    title="Custom branding"
+                                    message="Add your own logo, brand color and email wording to the signup page, platform and member emails."
+                                    requiredTier={getMinimumTierForFeature('customBranding')}
+                                    canUpgrade={isOrgAdmin}
+                                    onNavigate={onNavigate}
                                 />
                             )}
 
@@ -1620,6 +2373,10 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, fcmStorageUserId, onU
                                     </span>
                                 </div>
 
+                                {organization && (
+                                    <UsageMeter participantCount={participantCount} participantLimit={participantLimit} />
+                                )}
+
                                 <div className="border-t border-slate-200 dark:border-slate-700 pt-4 mt-4">
                                     {currentPlan === 'trial' ? (
                                         <>
@@ -8,6 +8,8 @@ interface SkillsSelectorProps {
   onSkillsChange: (skills: string[]) => void;
   placeholder?: string;
   label?: string;
+  options?: string[]; // Suggestions in the dropdown (default: PREDEFINED_SKILLS)
+  allowCustom?: boolean; // false = only values from `options` (e.g. resource tags)
 }
 
 const SkillsSelector: React.FC<SkillsSelectorProps> = ({
@@ -15,10 +17,12 @@ const SkillsSelector: React.FC<SkillsSelectorProps> = ({
   onSkillsChange,
   placeholder = 'Select or type a skill',
   label,
+  options = PREDEFINED_SKILLS,
+  allowCustom = true,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [customSkill, setCustomSkill] = useState('');
-  const [filteredSkills, setFilteredSkills] = useState(PREDEFINED_SKILLS);
+  const [filteredSkills, setFilteredSkills] = useState(options);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -53,7 +57,7 @@ const SkillsSelector: React.FC<SkillsSelectorProps> = ({
     }
     setIsOpen(false);
     setCustomSkill('');
-    setFilteredSkills(PREDEFINED_SKILLS);
+    setFilteredSkills(options);
   };
 
   const handleRemoveSkill = (skill: string) => {
@@ -78,13 +82,13 @@ const SkillsSelector: React.FC<SkillsSelectorProps> = ({
 
     // Filter predefined skills based on input
     if (value.trim()) {
-      const filtered = PREDEFINED_SKILLS.filter((skill) =>
+      const filtered = options.filter((skill) =>
         skill.toLowerCase().includes(value.toLowerCase())
       );
       setFilteredSkills(filtered);
       setIsOpen(true);
     } else {
-      setFilteredSkills(PREDEFINED_SKILLS);
+      setFilteredSkills(options);
       setIsOpen(false);
     }
   };
@@ -92,7 +96,7 @@ const SkillsSelector: React.FC<SkillsSelectorProps> = ({
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       e.preventDefault();
-      if (customSkill.trim()) {
+      if (customSkill.trim() && allowCustom) {
         handleAddCustomSkill();
       } else if (availableSkills.length > 0 && isOpen) {
         handleSelectSkill(availableSkills[0]);
@@ -179,7 +183,7 @@ const SkillsSelector: React.FC<SkillsSelectorProps> = ({
                   </button>
                 ))}
               </div>
-            ) : customSkill.trim() ? (
+            ) : customSkill.trim() && allowCustom ? (
               <div className="py-2 px-4">
                 <button
                   type="button"
@@ -191,7 +195,7 @@ const SkillsSelector: React.FC<SkillsSelectorProps> = ({
               </div>
             ) : (
               <div className="py-2 px-4 text-sm text-slate-500 dark:text-slate-400">
-                No available skills. Type to add a custom skill.
+                {allowCustom ? 'No available skills. Type to add a custom skill.' : 'No matching skills.'}
               </div>
             )}
           </div>
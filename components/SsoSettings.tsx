@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from "react";
+import { Copy, Globe, KeyRound } from "lucide-react";
+import { Organization } from "../types";
+import { INPUT_CLASS, BUTTON_PRIMARY, CARD_CLASS } from "../styles/common";
+import { getErrorMessage } from "../utils/errors";
+import {
+  getSsoConfig,
+  saveSsoConfig,
+  SsoConfig,
+  SsoConfigInput,
+  SsoProtocol,
+  verifySsoDomain,
+} from "../services/ssoService";
+
+interface SsoSettingsProps {
+  organization: Organization;
+}
+
+const emptyDraft = (organization: Organization): SsoConfigInput => ({
+  enabled: false,
+  protocol: "oidc",
+  domain: organization.domain || "",
+  defaultRole: "MENTEE",
+  oidc: { issuer: "", clientId: "", clientSecret: "" },
+  saml: { entryPoint: "", idpIssuer: "", idpCert: "" },
+});
+
+const toDraft = (config: SsoConfig): SsoConfigInput => ({
+  enabled: config.enabled,
+  protocol: config.protocol,
+  domain: config.domain,
+  defaultRole: config.defaultRole,
+  oidc: { issuer: config.oidc?.issuer || "", clientId: config.oidc?.clientId || "", clientSecret: "" },
+  saml: {
+    entryPoint: config.saml?.entryPoint || "",
+    idpIssuer: config.saml?.idpIssuer || "",
+    idpCert: config.saml?.idpCert || "",
+  },
+});
+
+const CopyField: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">{label}</label>
+    <div className="flex gap-2">
+      <input className={`${INPUT_CLASS} font-mono text-xs`} value={value} readOnly />
+      <button
+        type="button"
+        title="Copy"
+        className="px-3 rounded-lg border border-slate-200 dark:border-slate-700 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+        onClick={() => void navigator.clipboard?.writeText(value)}
+      >
+        <Copy className="w-4 h-4" />
+      </button>
+    </div>
+  </div>
+);
+
+/**
+ * Security-tab setup for enterprise SSO: IdP settings, DNS proof of the email domain, and the
+ * switch that sends that domain's members through the IdP at login (see functions/src/sso.ts).
+ */
+const SsoSettings: React.FC<SsoSettingsProps> = ({ organization }) => {
+  const [config, setConfig] = useState<SsoConfig | null>(null);
+  const [draft, setDraft] = useState<SsoConfigInput>(() => emptyDraft(organization));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [message, setMessage] = useState<{ kind: "success" | "error"; text: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSsoConfig()
+      .then((loaded) => {
+        if (cancelled || !loaded) return;
+        setConfig(loaded);
+        setDraft(toDraft(loaded));
+      })
+      .catch((error) => {
+        if (!cancelled) setMessage({ kind: "error", text: getErrorMessage(error) || "Failed to load SSO settings" });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = (patch: Partial<SsoConfigInput>) => {
+    setMessage(null);
+    setDraft((prev) => ({ ...prev, ...patch }));
+  };
+
+  const updateOidc = (patch: Partial<NonNullable<SsoConfigInput["oidc"]>>) =>
+    update({ oidc: { issuer: "", clientId: "", clientSecret: "", ...draft.oidc, ...patch } });
+
+  const updateSaml = (patch: Partial<NonNullable<SsoConfigInput["saml"]>>) =>
+    update({ saml: { entryPoint: "", idpCert: "", ...draft.saml, ...patch } });
+
+  const domainChanged = !!config && config.domain !== draft.domain.trim().toLowerCase();
+  const domainVerified = !!config?.domainVerified && !domainChanged;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const saved = await saveSsoConfig({
+        ...draft,
+        oidc: draft.protocol === "oidc" ? draft.oidc : undefined,
+        saml: draft.protocol === "saml" ? draft.saml : undefined,
+      });
+      setConfig(saved);
+      setDraft(toDraft(saved));
+      setMessage({
+        kind: "success",
+        text: saved.domainVerified ? "SSO settings saved." : "Saved. Add the DNS record below, then verify your domain.",
+      });
+    } catch (error) {
+      setMessage({ kind: "error", text: getErrorMessage(error) || "Failed to save SSO settings" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setMessage(null);
+    try {
+      const result = await verifySsoDomain();
+      setConfig(result.config);
+      setMessage(
+        result.verified
+          ? { kind: "success", text: `${result.config.domain} is verified. You can now turn on single sign-on.` }
+          : { kind: "error", text: "We couldn't find the TXT record yet. DNS changes can take up to an hour to appear." },
+      );
+    } catch (error) {
+      setMessage({ kind: "error", text: getErrorMessage(error) || "Failed to verify domain" });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className={CARD_CLASS}>
+        <p className="text-sm text-slate-500 dark:text-slate-400">Loading single sign-on settings...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={CARD_CLASS}>
+      <h3 className="font-bold text-slate-800 dark:text-white mb-1 flex items-center">
+        <KeyRound className="w-5 h-5 mr-2 text-indigo-500" /> Single Sign-On
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Let members with your company email sign in through your identity provider (Okta, Entra ID, Google
+        Workspace and others). New members are added to your program the first time they sign in.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label htmlFor="sso-domain" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Email domain</label>
+          <input
+            id="sso-domain"
+            className={INPUT_CLASS}
+            placeholder="example.com"
+            value={draft.domain}
+            onChange={(e) => update({ domain: e.target.value })}
+          />
+        </div>
+        <div>
+          <label htmlFor="sso-protocol" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Protocol</label>
+          <select
+            id="sso-protocol"
+            className={INPUT_CLASS}
+            value={draft.protocol}
+            onChange={(e) => update({ protocol: e.target.value as SsoProtocol })}
+          >
+            <option value="oidc">OpenID Connect</option>
+            <option value="saml">SAML 2.0</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="sso-default-role" className="block text-xs font-semibold text-slate-500 uppercase mb-1">New members join as</label>
+          <select
+            id="sso-default-role"
+            className={INPUT_CLASS}
+            value={draft.defaultRole}
+            onChange={(e) => update({ defaultRole: e.target.value as SsoConfigInput["defaultRole"] })}
+          >
+            <option value="MENTEE">Mentee</option>
+            <option value="MENTOR">Mentor</option>
+          </select>
+        </div>
+      </div>
+
+      {draft.protocol === "oidc" ? (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label htmlFor="sso-oidc-issuer" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Issuer URL</label>
+            <input
+              id="sso-oidc-issuer"
+              className={INPUT_CLASS}
+              placeholder="https://login.example.com"
+              value={draft.oidc?.issuer || ""}
+              onChange={(e) => updateOidc({ issuer: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="sso-oidc-client" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Client ID</label>
+            <input
+              id="sso-oidc-client"
+              className={INPUT_CLASS}
+              value={draft.oidc?.clientId || ""}
+              onChange={(e) => updateOidc({ clientId: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="sso-oidc-secret" className="block text-xs font-semibold text-slate-500 uppercase mb-1">Client secret</label>
+            <input
+              id="sso-oidc-secret"
+              type="password"
+              autoComplete="off"
+              className={INPUT_CLASS}
+              placeholder={config?.oidc?.hasClientSecret ? "Saved - leave blank to keep" : ""}
+              value={draft.oidc?.clientSecret || ""}
+              onChange={(e) => updateOidc({ clientSecret: e.target.value })}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="sso-saml-entry" className="block text-xs font-semibold text-slate-500 uppercase mb-1">IdP sign-on URL</label>
+              <input
+                id="sso-saml-entry"
+                className={INPUT_CLASS}
+                placeholder="https://idp.example.com/sso/saml"
+                value={draft.saml?.entryPoint || ""}
+                onChange={(e) => updateSaml({ entryPoint: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="sso-saml-issuer" className="block text-xs font-semibold text-slate-500 uppercase mb-1">IdP entity ID (optional)</label>
+              <input
+                id="sso-saml-issuer"
+                className={INPUT_CLASS}
+                value={draft.saml?.idpIssuer || ""}
+                onChange={(e) => updateSaml({ idpIssuer: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="sso-saml-cert" className="block text-xs font-semibold text-slate-500 uppercase mb-1">IdP signing certificate</label>
+            <textarea
+              id="sso-saml-cert"
+              rows={4}
+              className={`${INPUT_CLASS} font-mono text-xs`}
+              placeholder="-----BEGIN CERTIFICATE-----"
+              value={draft.saml?.idpCert || ""}
+              onChange={(e) => updateSaml({ idpCert: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {config && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+          <CopyField label={draft.protocol === "oidc" ? "Redirect URI" : "ACS URL"} value={config.callbackUrl} />
+          {draft.protocol === "saml" && <CopyField label="SP entity ID / audience" value={config.spEntityId} />}
+        </div>
+      )}
+
+      {config && !domainChanged && (
+        <div className="rounded-xl border border-slate-200 dark:border-slate-800 p-4 mb-4">
+          <p className="text-sm font-medium text-slate-800 dark:text-white flex items-center mb-2">
+            <Globe className="w-4 h-4 mr-2 text-emerald-600" />
+            {domainVerified ? `${config.domain} is verified` : `Verify that you own ${config.domain}`}
+          </p>
+          {!domainVerified && (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                Add this TXT record at {config.domain} with your DNS provider, then check it here.
+              </p>
+              <CopyField label="TXT record value" value={config.domainVerificationRecord} />
+              <button
+                type="button"
+                className="mt-3 px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-sm font-medium text-slate-700 dark:text-slate-300 disabled:opacity-50"
+                disabled={verifying}
+                onClick={handleVerify}
+              >
+                {verifying ? "Checking..." : "Verify domain"}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 mb-4">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          disabled={!domainVerified}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="rounded border-slate-300 text-emerald-600 focus:ring-emerald-500"
+        />
+        Require single sign-on for {draft.domain.trim() || "this domain"}
+        {!domainVerified && <span className="text-xs text-slate-400">(verify the domain first)</span>}
+      </label>
+
+      {message && (
+        <p className={`text-sm mb-4 ${message.kind === "success" ? "text-emerald-600" : "text-red-600"}`}>{message.text}</p>
+      )}
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving}
+        className={`${BUTTON_PRIMARY} text-sm py-2 disabled:opacity-50`}
+      >
+        {saving ? "Saving..." : "Save SSO settings"}
+      </button>
+    </div>
+  );
+};
+
+export default SsoSettings;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Lock, Users } from 'lucide-react';
+import { PRICING_TIERS } from '../services/flowglad';
+import { SubscriptionTier } from '../utils/entitlements';
+
+const tierName = (tier: SubscriptionTier) =>
+  tier === 'free' ? 'Free' : PRICING_TIERS[tier].name;
+
+interface UpgradePromptProps {
+  title: string;
+  message: string;
+  /** Cheapest plan that would unlock what the user is trying to do */
+  requiredTier: SubscriptionTier;
+  /** Only org admins can change the plan; everyone else is told to ask one */
+  canUpgrade: boolean;
+  onNavigate?: (page: string) => void;
+}
+
+export const UpgradePrompt: React.FC<UpgradePromptProps> = ({
+  title,
+  message,
+  requiredTier,
+  canUpgrade,
+  onNavigate,
+}) => (
+  <div className="p-4 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 flex items-start gap-3">
+    <Lock className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-semibold text-amber-900 dark:text-amber-200">{title}</p>
+      <p className="text-sm text-amber-800 dark:text-amber-300 mt-1">
+        {message} Available on the {tierName(requiredTier)} plan and above.
+      </p>
+      {canUpgrade && onNavigate ? (
+        <button
+          type="button"
+          onClick={() => onNavigate('settings:billing')}
+          className="mt-3 text-sm font-medium text-emerald-700 dark:text-emerald-400 hover:underline"
+        >
+          View plans
+        </button>
+      ) : (
+        !canUpgrade && (
+          <p className="text-xs text-amber-700 dark:text-amber-400 mt-2">
+            Ask an organization admin to upgrade the plan.
+          </p>
+        )
+      )}
+    </div>
+  </div>
+);
+
+interface UsageMeterProps {
+  participantCount: number;
+  /** null means the plan is unlimited */
+  participantLimit: number | null;
+}
+
+export const UsageMeter: React.FC<UsageMeterProps> = ({ participantCount, participantLimit }) => {
+  const percent =
+    participantLimit === null || participantLimit === 0
+      ? 0
+      : Math.min(100, Math.round((participantCount / participantLimit) * 100));
+  const barClass =
+    percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-emerald-500';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1.5">
+        <span className="flex items-center gap-1.5 font-medium text-slate-700 dark:text-slate-300">
+          <Users className="w-4 h-4" /> Participants
+        </span>
+        <span className="text-slate-600 dark:text-slate-400">
+          {participantLimit === null
+            ? `${participantCount} (unlimited)`
+            : `${participantCount} of ${participantLimit}`}
+        </span>
+      </div>
+      {participantLimit !== null && (
+        <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+          <div className={`h-full ${barClass} transition-all`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
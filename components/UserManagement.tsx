@@ -8,6 +8,9 @@ import {
   deleteOrganization,
 } from "../services/database";
 import { emailService } from "../services/emailService";
+import { resetUserTotp, startImpersonationSession } from "../services/platformOperatorAdmin";
+import { storeImpersonationSession } from "../utils/impersonationSession";
+import { pageToPath } from "../utils/routes";
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from "../styles/common";
 import { getErrorMessage } from "../utils/errors";
 import { logger } from "../services/logger";
@@ -33,6 +36,7 @@ import {
   CheckCircle,
   Send,
   LogIn,
+  ShieldOff,
 } from "lucide-react";
 
 interface UserManagementProps {
@@ -91,6 +95,22 @@ const UserManagement: React.FC<UserManagementProps> = ({
   
   // Impersonation functionality
   const [impersonateUser, setImpersonateUser] = useState<User | null>(null);
+  const [impersonationReason, setImpersonationReason] = useState("");
+  const [impersonationAllowWrites, setImpersonationAllowWrites] = useState(false);
+  const [impersonationMinutes, setImpersonationMinutes] = useState(30);
+  const [startingImpersonation, setStartingImpersonation] = useState(false);
+
+  // Admin-initiated 2FA reset for users locked out of their authenticator
+  const [totpResetUser, setTotpResetUser] = useState<User | null>(null);
+  const [totpResetReason, setTotpResetReason] = useState("");
+  const [resettingTotp, setResettingTotp] = useState(false);
+
+  const openImpersonationModal = (user: User) => {
+    setImpersonateUser(user);
+    setImpersonationReason("");
+    setImpersonationAllowWrites(false);
+    setImpersonationMinutes(30);
+  };
   
   // Check if current user is platform admin
   const userRoleString = String(currentUser.role);
@@ -419,7 +439,22 @@ const UserManagement: React.FC<UserManagementProps> = ({
     }
   };
 
-  const handleImpersonateUser = (user: User) => {
+  const handleResetTotp = async (user: User) => {
+    setResettingTotp(true);
+    try {
+      await resetUserTotp(user.id, totpResetReason);
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, totpEnabled: false } : u)));
+      setTotpResetUser(null);
+      alert(`Two-factor authentication was reset for ${user.name}. They can sign in with their password and set it up again.`);
+    } catch (error: unknown) {
+      logger.error("Error resetting two-factor authentication", error);
+      alert("Failed to reset two-factor authentication: " + getErrorMessage(error));
+    } finally {
+      setResettingTotp(false);
+    }
+  };
+
+  const handleImpersonateUser = async (user: User) => {
     // Security check: Only platform operators can impersonate
     if (!isPlatformOperator) {
       alert("Only platform operators can impersonate users.");
@@ -432,6 +467,23 @@ const UserManagement: React.FC<UserManagementProps> = ({
       return;
     }
     
+    // Open the server-side session first: it records who/why/when and sets read-only vs read-write
+    setStartingImpersonation(true);
+    try {
+      const session = await startImpersonationSession({
+        targetUserId: user.id,
+        reason: impersonationReason,
+        mode: impersonationAllowWrites ? "read_write" : "read_only",
+        durationMinutes: impersonationMinutes,
+      });
+      storeImpersonationSession(session);
+    } catch (error: unknown) {
+      logger.error("Error starting impersonation session", error);
+      alert("Failed to start impersonation: " + getErrorMessage(error));
+      setStartingImpersonation(false);
+      return;
+    }
+
     // Store original operator context
     localStorage.setItem("originalOperatorId", currentUser.id);
     localStorage.setItem("originalOrganizationId", currentUser.organizationId);
@@ -468,8 +520,8 @@ const UserManagement: React.FC<UserManagementProps> = ({
     localStorage.removeItem("lastPage");
     localStorage.setItem("lastPage", "dashboard");
     
-    // Reload the app to trigger re-initialization with new user context
-    window.location.reload();
+    // Reload the app on the dashboard URL to trigger re-initialization with new user context
+    window.location.href = pageToPath("dashboard");
   };
 
   const toggleUserExpanded = (userId: string) => {
@@ -763,6 +815,14 @@ const UserManagement: React.FC<UserManagementProps> = ({
                             {getRoleIcon(user.role)}
                             {user.role}
                           </span>
+                          {user.deactivated && (
+                            <span
+                              className="px-2 py-0.5 rounded-full text-xs font-medium w-fit bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300"
+                              title={user.deactivatedAt ? `Deactivated ${new Date(user.deactivatedAt).toLocaleDateString()}` : undefined}
+                            >
+                              Deactivated
+                            </span>
+                          )}
                         </div>
                         <div className="flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2 sm:gap-4 text-sm text-slate-600 dark:text-slate-400">
                           <span className="flex items-center gap-1 min-w-0">
@@ -835,7 +895,7 @@ const UserManagement: React.FC<UserManagementProps> = ({
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
-                            setImpersonateUser(user);
+                            openImpersonationModal(user);
                           }}
                           className="p-2.5 sm:p-2 text-emerald-400 hover:text-emerald-600 min-h-[44px] min-w-[44px] sm:min-h-0 sm:min-w-0 flex items-center justify-center touch-manipulation"
                           title="Login as this user"
@@ -843,6 +903,19 @@ const UserManagement: React.FC<UserManagementProps> = ({
                           <LogIn className="w-5 h-5 sm:w-4 sm:h-4" />
                         </button>
                       )}
+                      {user.totpEnabled && user.id !== currentUser.id && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setTotpResetUser(user);
+                            setTotpResetReason("");
+                          }}
+                          className="p-2.5 sm:p-2 text-amber-400 hover:text-amber-600 min-h-[44px] min-w-[44px] sm:min-h-0 sm:min-w-0 flex items-center justify-center touch-manipulation"
+                          title="Reset two-factor authentication"
+                        >
+                          <ShieldOff className="w-5 h-5 sm:w-4 sm:h-4" />
+                        </button>
+                      )}
                       {user.id !== currentUser.id && (
                         <button
                           onClick={() => setShowDeleteConfirm(user.id)}
@@ -1403,7 +1476,7 @@ const UserManagement: React.FC<UserManagementProps> = ({
                   <button
                     onClick={() => {
                       setSelectedUser(null);
-                      setImpersonateUser(selectedUser);
+                      openImpersonationModal(selectedUser);
                     }}
                     className="flex-1 px-4 py-2.5 sm:py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 active:bg-indigo-800 font-medium flex items-center justify-center gap-2 min-h-[44px] touch-manipulation text-sm sm:text-base shadow-sm focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-500"
                   >
@@ -1488,17 +1561,60 @@ const UserManagement: React.FC<UserManagementProps> = ({
                 <p className="text-sm text-slate-600 dark:text-slate-400">
                   You will see the dashboard exactly as this user sees it. You
                   can exit impersonation at any time using the banner at the
-                  top.
+                  top. The session is recorded and visible to the
+                  organization's admins.
                 </p>
               </div>
             </div>
+            <div className="space-y-4 mb-6">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                  Reason (required)
+                </label>
+                <textarea
+                  value={impersonationReason}
+                  onChange={(e) => setImpersonationReason(e.target.value)}
+                  rows={3}
+                  placeholder="e.g. Support ticket #1234: user cannot see their match"
+                  className={INPUT_CLASS}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                  Session length
+                </label>
+                <select
+                  value={impersonationMinutes}
+                  onChange={(e) => setImpersonationMinutes(Number(e.target.value))}
+                  className={INPUT_CLASS}
+                >
+                  <option value={15}>15 minutes</option>
+                  <option value={30}>30 minutes</option>
+                  <option value={60}>1 hour</option>
+                  <option value={120}>2 hours</option>
+                </select>
+              </div>
+              <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={impersonationAllowWrites}
+                  onChange={(e) => setImpersonationAllowWrites(e.target.checked)}
+                  className="mt-0.5"
+                />
+                <span>
+                  Allow changes (read-write). Every change is written to the
+                  audit log. Leave unchecked for a read-only session.
+                </span>
+              </label>
+            </div>
             <div className="flex flex-col sm:flex-row gap-3 mt-auto">
               <button
                 onClick={() => handleImpersonateUser(impersonateUser)}
+                disabled={startingImpersonation || impersonationReason.trim().length < 10}
                 className={`${BUTTON_PRIMARY} flex-1 flex items-center justify-center gap-2 min-h-[44px] touch-manipulation`}
               >
                 <LogIn className="w-4 h-4" />
-                Login as {impersonateUser.name}
+                {startingImpersonation ? "Starting session..." : `Login as ${impersonateUser.name}`}
               </button>
               <button
                 onClick={() => setImpersonateUser(null)}
@@ -1511,6 +1627,56 @@ const UserManagement: React.FC<UserManagementProps> = ({
         </div>
       )}
 
+      {/* Reset 2FA Modal */}
+      {totpResetUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-0 sm:p-4">
+          <div className="bg-white dark:bg-slate-900 rounded-none sm:rounded-xl shadow-2xl p-4 sm:p-6 max-w-md w-full h-full sm:h-auto mx-0 sm:mx-4 border-0 sm:border border-slate-200 dark:border-slate-800 flex flex-col">
+            <div className="flex items-start gap-4 mb-4">
+              <ShieldOff className="w-6 h-6 text-amber-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">
+                  Reset Two-Factor Authentication
+                </h3>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  This turns off 2FA for <strong>{totpResetUser.name}</strong>{" "}
+                  and deletes their backup codes and trusted devices. Only do
+                  this after confirming their identity. The reset is recorded
+                  in the audit log.
+                </p>
+              </div>
+            </div>
+            <div className="mb-6">
+              <label className="block text-xs font-semibold text-slate-500 uppercase mb-1">
+                Reason (required)
+              </label>
+              <textarea
+                value={totpResetReason}
+                onChange={(e) => setTotpResetReason(e.target.value)}
+                rows={3}
+                placeholder="e.g. Support ticket #1234: lost phone, identity verified by video call"
+                className={INPUT_CLASS}
+              />
+            </div>
+            <div className="flex flex-col sm:flex-row gap-3 mt-auto">
+              <button
+                onClick={() => handleResetTotp(totpResetUser)}
+                disabled={resettingTotp || totpResetReason.trim().length < 10}
+                className={`${BUTTON_PRIMARY} flex-1 flex items-center justify-center gap-2 min-h-[44px] touch-manipulation`}
+              >
+                <ShieldOff className="w-4 h-4" />
+                {resettingTotp ? "Resetting..." : "Reset 2FA"}
+              </button>
+              <button
+                onClick={() => setTotpResetUser(null)}
+                className="flex-1 px-4 py-3 sm:py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 font-medium min-h-[44px] touch-manipulation"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Email Org Admins Modal */}
       {showEmailModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-0 sm:p-4">
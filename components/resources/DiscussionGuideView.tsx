@@ -3,6 +3,7 @@ import React from 'react';
 import { Clock, Share2, Printer } from 'lucide-react';
 import { DiscussionGuide } from '../../types';
 import { BackButton } from './BackButton';
+import { sanitizeHtml } from '../../utils/sanitizeHtml';
 
 interface DiscussionGuideViewProps {
     guide: DiscussionGuide;
@@ -45,7 +46,7 @@ export const DiscussionGuideView: React.FC<DiscussionGuideViewProps> = ({ guide,
 
                     {/* Content Render */}
                     <div className="prose dark:prose-invert max-w-none text-slate-600 dark:text-slate-300">
-                        <div dangerouslySetInnerHTML={{ __html: guide.content }} />
+                        <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(guide.content) }} />
                     </div>
                 </div>
             </div>
@@ -2,6 +2,7 @@
 import React from 'react';
 import { PlayCircle } from 'lucide-react';
 import { DiscussionGuide } from '../../types';
+import { ResourceTags } from './ResourceTags';
 
 interface GuideListProps {
     guides: DiscussionGuide[];
@@ -33,6 +34,7 @@ export const GuideList: React.FC<GuideListProps> = ({ guides, onSelect }) => {
                         {guide.title}
                     </h3>
                     <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">{guide.description}</p>
+                    <ResourceTags tags={guide.tags} className="mb-4" />
                     <div className="w-full bg-slate-100 dark:bg-slate-800 h-1.5 rounded-full overflow-hidden">
                         <div className="h-full bg-blue-500 w-0 group-hover:w-full transition-all duration-700 ease-out"></div>
                     </div>
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Book, Clock, File, PlayCircle, Sparkles } from 'lucide-react';
+import { getItemKey, LibraryItem, LibraryItemType, LibraryResult } from '../../utils/resourceSearch';
+import { ResourceTags } from './ResourceTags';
+
+const TYPE_DETAILS: Record<LibraryItemType, { label: string; icon: typeof Book; className: string }> = {
+    guide: { label: 'Discussion guide', icon: Book, className: 'text-blue-600 bg-blue-50 dark:bg-blue-900/30' },
+    template: { label: 'Document', icon: File, className: 'text-emerald-600 bg-emerald-50 dark:bg-emerald-900/30' },
+    video: { label: 'Training video', icon: PlayCircle, className: 'text-amber-600 bg-amber-50 dark:bg-amber-900/30' },
+};
+
+interface LibrarySearchResultsProps {
+    results: LibraryResult[];
+    onSelect: (item: LibraryItem) => void;
+}
+
+export const LibrarySearchResults: React.FC<LibrarySearchResultsProps> = ({ results, onSelect }) => {
+    return (
+        <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+            <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                {results.map(({ item, minutes, matchedInterests }) => {
+                    const details = TYPE_DETAILS[item.type];
+                    const Icon = details.icon;
+                    return (
+                        <div
+                            key={getItemKey(item)}
+                            onClick={() => onSelect(item)}
+                            className="p-5 flex items-start gap-4 hover:bg-slate-50 dark:hover:bg-slate-900/50 transition-colors cursor-pointer group"
+                        >
+                            <div className={`p-2.5 rounded-lg flex-shrink-0 ${details.className}`}>
+                                <Icon className="w-5 h-5" />
+                            </div>
+                            <div className="flex-1 min-w-0 space-y-2">
+                                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400">
+                                    <span className="uppercase font-semibold">{details.label}</span>
+                                    {minutes !== null && (
+                                        <span className="flex items-center"><Clock className="w-3 h-3 mr-1" /> {minutes} min</span>
+                                    )}
+                                    <span>{item.resource.isPlatform ? 'Platform' : 'Our Organization'}</span>
+                                    {matchedInterests.length > 0 && (
+                                        <span className="flex items-center font-semibold text-emerald-600 dark:text-emerald-400">
+                                            <Sparkles className="w-3 h-3 mr-1" /> Matches your skills and goals
+                                        </span>
+                                    )}
+                                </div>
+                                <h3 className="font-bold text-slate-900 dark:text-white group-hover:text-emerald-700 dark:group-hover:text-emerald-400">
+                                    {item.resource.title}
+                                </h3>
+                                <p className="text-sm text-slate-500 dark:text-slate-400 line-clamp-2">{item.resource.description}</p>
+                                <ResourceTags tags={item.resource.tags} highlighted={matchedInterests} />
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
@@ -1,40 +1,113 @@
 
 import React, { useRef, useState } from 'react';
-import { Plus, Save, Edit, Trash2, Eye, EyeOff, Upload, Link2, Loader2 } from 'lucide-react';
-import { BlogPost } from '../../types';
+import { Plus, Save, Edit, Trash2, Eye, EyeOff, Upload, Link2, Loader2, Clock, History, RotateCcw, X } from 'lucide-react';
+import { BlogPost, BlogPostRevision, BlogPostStatus, User } from '../../types';
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from '../../styles/common';
 import { uploadFile } from '../../services/storage';
+import { getBlogPostRevisions } from '../../services/database';
 import { extensionForOptimizedBlob, optimizeImageForWeb } from '../../utils/optimizeImageForWeb';
+import { getErrorMessage } from '../../utils/errors';
+import {
+  getBlogPostSlug,
+  getBlogPostStatus,
+  parseTags,
+  slugify,
+  toDateTimeLocalValue,
+  uniqueSlug,
+} from '../../utils/blogPosts';
+import { blogPostPath } from '../../utils/routes';
+import RichTextEditor from '../RichTextEditor';
 
 interface ManageBlogProps {
+  user: User;
   blogPosts: BlogPost[];
   onAdd: (post: Omit<BlogPost, 'id' | 'createdAt'>) => void;
   onUpdate: (id: string, updates: Partial<BlogPost>) => void;
   onDelete: (id: string) => void;
 }
 
-export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpdate, onDelete }) => {
-  const [newBlogPost, setNewBlogPost] = useState<Partial<BlogPost>>({
-    title: '',
-    category: 'Skills',
-    imageUrl: '',
-    excerpt: '',
-    published: false,
-  });
+interface BlogPostForm {
+  title: string;
+  slug: string;
+  category: string;
+  tags: string; // comma-separated
+  imageUrl: string;
+  excerpt: string;
+  content: string;
+  authorName: string;
+  authorTitle: string;
+  status: BlogPostStatus;
+  publishAt: string; // datetime-local value
+}
+
+const emptyForm = (user: User): BlogPostForm => ({
+  title: '',
+  slug: '',
+  category: 'Skills',
+  tags: '',
+  imageUrl: '',
+  excerpt: '',
+  content: '',
+  authorName: user.name,
+  authorTitle: user.title || '',
+  status: 'draft',
+  publishAt: '',
+});
+
+const formatDateTime = (iso: string | undefined) =>
+  iso ? new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '';
+
+const STATUS_LABELS: Record<BlogPostStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+};
+
+export const ManageBlog: React.FC<ManageBlogProps> = ({ user, blogPosts, onAdd, onUpdate, onDelete }) => {
+  const [newBlogPost, setNewBlogPost] = useState<BlogPostForm>(() => emptyForm(user));
   const [editingBlogPost, setEditingBlogPost] = useState<BlogPost | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
   const [imageBusy, setImageBusy] = useState(false);
   const [imageError, setImageError] = useState<string | null>(null);
+  const [historyPostId, setHistoryPostId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<BlogPostRevision[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSaveBlogPost = async () => {
-    if (!newBlogPost.title || !newBlogPost.imageUrl?.trim()) return;
+    if (!newBlogPost.title.trim() || !newBlogPost.imageUrl.trim()) return;
+
+    const status = newBlogPost.status;
+    const publishAt = status === 'scheduled' && newBlogPost.publishAt ? new Date(newBlogPost.publishAt) : null;
+    if (status === 'scheduled' && (!publishAt || publishAt.getTime() <= Date.now())) {
+      setFormError('Pick a publish date and time in the future to schedule this post.');
+      return;
+    }
+
+    // Posts by the signed-in operator show their avatar; a guest author gets initials
+    const authorName = newBlogPost.authorName.trim() || user.name;
+    const isOwnPost = authorName === user.name;
+    const takenSlugs = blogPosts.filter((p) => p.id !== editingBlogPost?.id).map(getBlogPostSlug);
 
     const postData = {
-      title: newBlogPost.title!,
+      title: newBlogPost.title.trim(),
+      slug: uniqueSlug(newBlogPost.slug || newBlogPost.title, takenSlugs),
       category: newBlogPost.category || 'Skills',
-      imageUrl: newBlogPost.imageUrl!.trim(),
-      excerpt: newBlogPost.excerpt || '',
-      published: newBlogPost.published || false,
+      tags: parseTags(newBlogPost.tags),
+      imageUrl: newBlogPost.imageUrl.trim(),
+      excerpt: newBlogPost.excerpt,
+      content: newBlogPost.content,
+      authorId: isOwnPost ? user.id : '',
+      authorName,
+      authorTitle: newBlogPost.authorTitle.trim(),
+      authorAvatar: isOwnPost ? user.avatar || '' : '',
+      status,
+      publishAt: publishAt ? publishAt.toISOString() : '',
+      published: status === 'published',
+      publishedAt:
+        status === 'published' ? editingBlogPost?.publishedAt || new Date().toISOString() : editingBlogPost?.publishedAt,
+      lastEditedBy: { id: user.id, name: user.name },
     };
 
     if (editingBlogPost) {
@@ -49,25 +122,63 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
   const handleEditBlogPost = (post: BlogPost) => {
     setEditingBlogPost(post);
     setImageError(null);
+    setFormError(null);
     setNewBlogPost({
       title: post.title,
+      slug: post.slug || '',
       category: post.category,
+      tags: (post.tags || []).join(', '),
       imageUrl: post.imageUrl,
       excerpt: post.excerpt,
-      published: post.published,
+      content: post.content || '',
+      authorName: post.authorName || '',
+      authorTitle: post.authorTitle || '',
+      status: getBlogPostStatus(post),
+      publishAt: toDateTimeLocalValue(post.publishAt),
     });
   };
 
   const handleCancelEdit = () => {
     setEditingBlogPost(null);
     setImageError(null);
-    setNewBlogPost({
-      title: '',
-      category: 'Skills',
-      imageUrl: '',
-      excerpt: '',
-      published: false,
-    });
+    setFormError(null);
+    setNewBlogPost(emptyForm(user));
+  };
+
+  const handleToggleHistory = async (post: BlogPost) => {
+    if (historyPostId === post.id) {
+      setHistoryPostId(null);
+      return;
+    }
+    setHistoryPostId(post.id);
+    setRevisions([]);
+    setHistoryError(null);
+    setHistoryLoading(true);
+    try {
+      setRevisions(await getBlogPostRevisions(post.id));
+    } catch (error: unknown) {
+      console.error('Error loading blog post history:', error);
+      setHistoryError(getErrorMessage(error) || 'Could not load the history for this post.');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  // Loads an older version into the editor; saving it records a new revision on top
+  const handleRestoreRevision = (post: BlogPost, revision: BlogPostRevision) => {
+    handleEditBlogPost(post);
+    setNewBlogPost((prev) => ({
+      ...prev,
+      title: revision.title,
+      category: revision.category || prev.category,
+      tags: revision.tags.join(', '),
+      imageUrl: revision.imageUrl || prev.imageUrl,
+      excerpt: revision.excerpt,
+      content: revision.content,
+      authorName: revision.authorName || prev.authorName,
+    }));
+    setHistoryPostId(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleImageFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -116,6 +227,19 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
               onChange={(e) => setNewBlogPost({ ...newBlogPost, title: e.target.value })}
             />
           </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">URL slug</label>
+            <input
+              className={INPUT_CLASS}
+              placeholder={slugify(newBlogPost.title) || 'the-art-of-active-listening'}
+              value={newBlogPost.slug}
+              onChange={(e) => setNewBlogPost({ ...newBlogPost, slug: slugify(e.target.value) })}
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+              Article address: {blogPostPath(newBlogPost.slug || slugify(newBlogPost.title) || '…')}. Leave empty to
+              use the title; changing it breaks links to a published post.
+            </p>
+          </div>
           <div>
             <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Category</label>
             <select
@@ -133,20 +257,62 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
           </div>
           <div>
             <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Status</label>
-            <div className="flex items-center gap-2 mt-2">
-              <button
-                type="button"
-                onClick={() => setNewBlogPost({ ...newBlogPost, published: !newBlogPost.published })}
-                className={`flex items-center px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
-                  newBlogPost.published
-                    ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300'
-                    : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400'
-                }`}
-              >
-                {newBlogPost.published ? <Eye className="w-3 h-3 mr-1" /> : <EyeOff className="w-3 h-3 mr-1" />}
-                {newBlogPost.published ? 'Published' : 'Draft'}
-              </button>
+            <select
+              className={INPUT_CLASS}
+              value={newBlogPost.status}
+              onChange={(e) => {
+                setFormError(null);
+                setNewBlogPost({ ...newBlogPost, status: e.target.value as BlogPostStatus });
+              }}
+            >
+              <option value="draft">Draft</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="published">Published</option>
+            </select>
+          </div>
+          {newBlogPost.status === 'scheduled' && (
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Publish at</label>
+              <input
+                type="datetime-local"
+                className={INPUT_CLASS}
+                value={newBlogPost.publishAt}
+                onChange={(e) => {
+                  setFormError(null);
+                  setNewBlogPost({ ...newBlogPost, publishAt: e.target.value });
+                }}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Your local time. The post goes live within 15 minutes of this time.
+              </p>
             </div>
+          )}
+          <div>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Author</label>
+            <input
+              className={INPUT_CLASS}
+              placeholder={user.name}
+              value={newBlogPost.authorName}
+              onChange={(e) => setNewBlogPost({ ...newBlogPost, authorName: e.target.value })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Author title</label>
+            <input
+              className={INPUT_CLASS}
+              placeholder="e.g. Head of Mentorship"
+              value={newBlogPost.authorTitle}
+              onChange={(e) => setNewBlogPost({ ...newBlogPost, authorTitle: e.target.value })}
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Tags</label>
+            <input
+              className={INPUT_CLASS}
+              placeholder="e.g. listening, feedback, leadership"
+              value={newBlogPost.tags}
+              onChange={(e) => setNewBlogPost({ ...newBlogPost, tags: e.target.value })}
+            />
           </div>
           <div className="col-span-2">
             <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -221,7 +387,20 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
               onChange={(e) => setNewBlogPost({ ...newBlogPost, excerpt: e.target.value })}
             />
           </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Article</label>
+            <RichTextEditor
+              value={newBlogPost.content}
+              onChange={(content) => setNewBlogPost((prev) => ({ ...prev, content }))}
+              placeholder="Write the full article..."
+            />
+          </div>
         </div>
+        {formError && (
+          <p className="text-sm text-red-600 dark:text-red-400 mb-3" role="alert">
+            {formError}
+          </p>
+        )}
         <div className="flex justify-end gap-2">
           {editingBlogPost && (
             <button
@@ -235,10 +414,17 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
           <button
             type="button"
             onClick={handleSaveBlogPost}
-            disabled={!newBlogPost.title || !newBlogPost.imageUrl?.trim() || imageBusy}
+            disabled={!newBlogPost.title.trim() || !newBlogPost.imageUrl.trim() || imageBusy}
             className={BUTTON_PRIMARY}
           >
-            <Save className="w-4 h-4 mr-2" /> {editingBlogPost ? 'Update Post' : 'Publish Post'}
+            <Save className="w-4 h-4 mr-2" />{' '}
+            {editingBlogPost
+              ? 'Update Post'
+              : newBlogPost.status === 'published'
+                ? 'Publish Post'
+                : newBlogPost.status === 'scheduled'
+                  ? 'Schedule Post'
+                  : 'Save Draft'}
           </button>
         </div>
       </div>
@@ -280,18 +466,37 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
                         <span className="text-xs px-2 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400 rounded">
                           {post.category}
                         </span>
-                        {post.published ? (
+                        {getBlogPostStatus(post) === 'published' ? (
                           <span className="text-xs px-2 py-0.5 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 rounded flex items-center gap-1">
-                            <Eye className="w-3 h-3" /> Published
+                            <Eye className="w-3 h-3" /> {STATUS_LABELS.published}
+                          </span>
+                        ) : getBlogPostStatus(post) === 'scheduled' ? (
+                          <span className="text-xs px-2 py-0.5 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 rounded flex items-center gap-1">
+                            <Clock className="w-3 h-3" /> {STATUS_LABELS.scheduled} · {formatDateTime(post.publishAt)}
                           </span>
                         ) : (
                           <span className="text-xs px-2 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-400 rounded flex items-center gap-1">
-                            <EyeOff className="w-3 h-3" /> Draft
+                            <EyeOff className="w-3 h-3" /> {STATUS_LABELS.draft}
                           </span>
                         )}
+                        {post.authorName && (
+                          <span className="text-xs text-slate-500 dark:text-slate-400">by {post.authorName}</span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => handleToggleHistory(post)}
+                        className={`p-2 transition-colors ${
+                          historyPostId === post.id
+                            ? 'text-emerald-600 dark:text-emerald-400'
+                            : 'text-slate-400 hover:text-emerald-600 dark:hover:text-emerald-400'
+                        }`}
+                        title="History"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
                       <button
                         type="button"
                         onClick={() => handleEditBlogPost(post)}
@@ -310,6 +515,61 @@ export const ManageBlog: React.FC<ManageBlogProps> = ({ blogPosts, onAdd, onUpda
                       </button>
                     </div>
                   </div>
+                  {historyPostId === post.id && (
+                    <div className="mt-4 border-t border-slate-200 dark:border-slate-700 pt-3">
+                      <div className="flex items-center justify-between mb-2">
+                        <h5 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                          Revision history
+                        </h5>
+                        <button
+                          type="button"
+                          onClick={() => setHistoryPostId(null)}
+                          className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+                          title="Close history"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      {historyLoading ? (
+                        <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading history…
+                        </p>
+                      ) : historyError ? (
+                        <p className="text-xs text-red-600 dark:text-red-400" role="alert">
+                          {historyError}
+                        </p>
+                      ) : revisions.length === 0 ? (
+                        <p className="text-xs text-slate-400 italic">
+                          No saved revisions yet. History starts with the next save.
+                        </p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {revisions.map((revision, index) => (
+                            <li key={revision.id} className="flex items-center justify-between gap-3 text-xs">
+                              <div className="min-w-0">
+                                <p className="text-slate-700 dark:text-slate-300 truncate">
+                                  <span className="font-medium">{formatDateTime(revision.createdAt)}</span> ·{' '}
+                                  {revision.editedBy.name} · {STATUS_LABELS[revision.status]}
+                                </p>
+                                <p className="text-slate-500 dark:text-slate-400 truncate">{revision.title}</p>
+                              </div>
+                              {index === 0 ? (
+                                <span className="text-slate-400 flex-shrink-0">Current</span>
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => handleRestoreRevision(post, revision)}
+                                  className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 hover:underline flex-shrink-0"
+                                >
+                                  <RotateCcw className="w-3 h-3" /> Restore
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -4,14 +4,8 @@ import { Plus, Save, Edit, Trash2 } from 'lucide-react';
 import { DiscussionGuide } from '../../types';
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from '../../styles/common';
 import RichTextEditor from '../RichTextEditor';
-
-function getReadTimeFromContent(html: string): string {
-    if (!html?.trim()) return '1 min read';
-    const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-    const wordCount = text ? text.split(/\s+/).filter(Boolean).length : 0;
-    const minutes = Math.max(1, Math.ceil(wordCount / 200));
-    return `${minutes} min read`;
-}
+import SkillsSelector from '../SkillsSelector';
+import { getReadTimeFromContent } from '../../utils/resourceUtils';
 
 interface ManageGuidesProps {
     discussionGuides: DiscussionGuide[];
@@ -37,6 +31,7 @@ export const ManageGuides: React.FC<ManageGuidesProps> = ({
         readTime: '',
         description: '',
         content: '',
+        tags: [],
         author: userName,
         date: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
     });
@@ -50,6 +45,7 @@ export const ManageGuides: React.FC<ManageGuidesProps> = ({
             readTime: getReadTimeFromContent(newGuide.content || ''),
             description: newGuide.description!,
             content: newGuide.content || '',
+            tags: newGuide.tags || [],
             author: newGuide.author || userName,
             date: newGuide.date || new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
             isPlatform: canManagePlatform,
@@ -72,6 +68,7 @@ export const ManageGuides: React.FC<ManageGuidesProps> = ({
             readTime: '',
             description: '',
             content: '',
+            tags: [],
             author: userName,
             date: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
         });
@@ -104,6 +101,15 @@ export const ManageGuides: React.FC<ManageGuidesProps> = ({
                             onChange={e => setNewGuide({ ...newGuide, description: e.target.value })}
                         />
                     </div>
+                    <div className="col-span-2">
+                        <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Skills (tags)</label>
+                        <SkillsSelector
+                            selectedSkills={newGuide.tags || []}
+                            onSkillsChange={(tags) => setNewGuide({ ...newGuide, tags })}
+                            placeholder="Which skills does this guide build?"
+                            allowCustom={false}
+                        />
+                    </div>
                     <div className="col-span-2">
                         <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Content (HTML)</label>
                         <RichTextEditor
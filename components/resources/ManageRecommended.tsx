@@ -3,10 +3,11 @@ import React, { useState } from 'react';
 import { Plus, Save, Loader2 } from 'lucide-react';
 import { Resource } from '../../types';
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from '../../styles/common';
+import SkillsSelector from '../SkillsSelector';
 
 export type NewRecommendedResourcePayload = Pick<
   Resource,
-  'title' | 'url' | 'description' | 'type'
+  'title' | 'url' | 'description' | 'type' | 'tags'
 >;
 
 interface ManageRecommendedProps {
@@ -32,6 +33,7 @@ export const ManageRecommended: React.FC<ManageRecommendedProps> = ({
     title: '',
     url: '',
     description: '',
+    tags: [],
   });
   const [saving, setSaving] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
@@ -56,12 +58,13 @@ export const ManageRecommended: React.FC<ManageRecommendedProps> = ({
       url,
       description,
       type: (newRes.type || 'Article') as Resource['type'],
+      tags: newRes.tags || [],
     };
 
     setSaving(true);
     try {
       await Promise.resolve(onAddResource(payload));
-      setNewRes({ type: 'Article', title: '', url: '', description: '' });
+      setNewRes({ type: 'Article', title: '', url: '', description: '', tags: [] });
     } catch (e) {
       console.error('Add recommended resource failed:', e);
       // Error toast is shown in App; keep form values so the user can fix and retry.
@@ -134,6 +137,17 @@ export const ManageRecommended: React.FC<ManageRecommendedProps> = ({
               onChange={(e) => setNewRes({ ...newRes, description: e.target.value })}
             />
           </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Skills (tags)
+            </label>
+            <SkillsSelector
+              selectedSkills={newRes.tags || []}
+              onSkillsChange={(tags) => setNewRes({ ...newRes, tags })}
+              placeholder="Which skills is this reading for?"
+              allowCustom={false}
+            />
+          </div>
         </div>
         {formError && (
           <p className="text-sm text-red-600 dark:text-red-400 mb-3" role="alert">
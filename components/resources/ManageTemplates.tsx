@@ -4,6 +4,7 @@ import { Plus, Save, Edit, Trash2, Upload, FileText, ChevronDown } from 'lucide-
 import { CareerTemplate } from '../../types';
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from '../../styles/common';
 import RichTextEditor from '../RichTextEditor';
+import SkillsSelector from '../SkillsSelector';
 import { uploadFile, generateUniquePath } from '../../services/storage';
 
 const DOC_ACCEPT =
@@ -55,6 +56,7 @@ export const ManageTemplates: React.FC<ManageTemplatesProps> = ({
     size: '',
     description: '',
     content: '',
+    tags: [],
   });
   const [editingTemplate, setEditingTemplate] = useState<CareerTemplate | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
@@ -127,6 +129,7 @@ export const ManageTemplates: React.FC<ManageTemplatesProps> = ({
         size: newTemplate.size?.trim() || (uploadedFile ? formatFileSize(uploadedFile.size) : '—'),
         description: newTemplate.description!.trim(),
         content: newTemplate.content || '',
+        tags: newTemplate.tags || [],
         isPlatform: canManagePlatform,
         organizationId: canManagePlatform ? undefined : userOrganizationId,
         ...(fileUrl ? { fileUrl, originalFileName: originalFileName || undefined } : {}),
@@ -158,6 +161,7 @@ export const ManageTemplates: React.FC<ManageTemplatesProps> = ({
       size: '',
       description: '',
       content: '',
+      tags: [],
     });
   };
 
@@ -279,6 +283,17 @@ export const ManageTemplates: React.FC<ManageTemplatesProps> = ({
               onChange={(e) => setNewTemplate({ ...newTemplate, description: e.target.value })}
             />
           </div>
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
+              Skills (tags)
+            </label>
+            <SkillsSelector
+              selectedSkills={newTemplate.tags || []}
+              onSkillsChange={(tags) => setNewTemplate({ ...newTemplate, tags })}
+              placeholder="Which skills does this document support?"
+              allowCustom={false}
+            />
+          </div>
         </div>
 
         <details
@@ -3,6 +3,7 @@ import React, { useEffect, useState } from 'react';
 import { Plus, Save, Edit, Trash2 } from 'lucide-react';
 import { TrainingVideo } from '../../types';
 import { CARD_CLASS, INPUT_CLASS, BUTTON_PRIMARY } from '../../styles/common';
+import SkillsSelector from '../SkillsSelector';
 import {
     extractStartTimeFromVideoUrl,
     isSupportedTrainingVideoUrl,
@@ -33,6 +34,8 @@ export const ManageVideos: React.FC<ManageVideosProps> = ({
         description: '',
         thumbnail: '',
         videoUrl: '',
+        transcript: '',
+        tags: [],
     });
     const [editingVideo, setEditingVideo] = useState<TrainingVideo | null>(null);
 
@@ -77,7 +80,9 @@ export const ManageVideos: React.FC<ManageVideosProps> = ({
             description: newVideo.description!.trim(),
             thumbnail: thumb,
             videoUrl: url,
-            transcript: newVideo.transcript,
+            transcript: newVideo.transcript?.trim() || '',
+            lengthMinutes: newVideo.lengthMinutes || 0,
+            tags: newVideo.tags || [],
             isPlatform: canManagePlatform,
             organizationId: canManagePlatform ? undefined : userOrganizationId,
         };
@@ -99,6 +104,8 @@ export const ManageVideos: React.FC<ManageVideosProps> = ({
             description: '',
             thumbnail: '',
             videoUrl: '',
+            transcript: '',
+            tags: [],
         });
     };
 
@@ -109,6 +116,8 @@ export const ManageVideos: React.FC<ManageVideosProps> = ({
             videoUrl: video.videoUrl ?? '',
             duration: video.duration ?? '',
             thumbnail: video.thumbnail ?? '',
+            transcript: video.transcript ?? '',
+            tags: video.tags ?? [],
         });
     };
 
@@ -183,6 +192,39 @@ export const ManageVideos: React.FC<ManageVideosProps> = ({
                             onChange={e => setNewVideo({ ...newVideo, description: e.target.value })}
                         />
                     </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Length (minutes)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            className={INPUT_CLASS}
+                            placeholder="e.g. 25"
+                            value={newVideo.lengthMinutes || ''}
+                            onChange={e => {
+                                const minutes = Math.round(Number(e.target.value));
+                                setNewVideo({ ...newVideo, lengthMinutes: minutes > 0 ? minutes : 0 });
+                            }}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Skills (tags)</label>
+                        <SkillsSelector
+                            selectedSkills={newVideo.tags || []}
+                            onSkillsChange={(tags) => setNewVideo({ ...newVideo, tags })}
+                            placeholder="Which skills does this video cover?"
+                            allowCustom={false}
+                        />
+                    </div>
+                    <div className="col-span-2">
+                        <label className="block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">Transcript (optional)</label>
+                        <textarea
+                            className={INPUT_CLASS}
+                            rows={4}
+                            placeholder="Paste the transcript so members can find this video by what's said in it..."
+                            value={newVideo.transcript || ''}
+                            onChange={e => setNewVideo({ ...newVideo, transcript: e.target.value })}
+                        />
+                    </div>
                 </div>
                 <div className="flex justify-end gap-2">
                     {editingVideo && (
@@ -224,8 +266,10 @@ export const ManageVideos: React.FC<ManageVideosProps> = ({
                                         )}
                                     </div>
                                     <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{video.description}</p>
-                                    {video.duration ? (
-                                        <p className="text-xs text-slate-400 mt-1">Starts at {video.duration}</p>
+                                    {video.duration || video.lengthMinutes ? (
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            {[video.lengthMinutes ? `${video.lengthMinutes} min` : '', video.duration ? `Starts at ${video.duration}` : ''].filter(Boolean).join(' • ')}
+                                        </p>
                                     ) : null}
                                 </div>
                                 <div className="flex items-center gap-2 flex-shrink-0">
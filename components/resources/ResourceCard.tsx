@@ -3,12 +3,14 @@ import React from 'react';
 import { ExternalLink } from 'lucide-react';
 import { CARD_CLASS } from '../../styles/common';
 import { Resource } from '../../types';
+import { ResourceTags } from './ResourceTags';
 
 interface ResourceCardProps {
     resource: Resource | any;
+    highlightedTags?: string[];
 }
 
-export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
+export const ResourceCard: React.FC<ResourceCardProps> = ({ resource, highlightedTags }) => {
     return (
         <div className={CARD_CLASS + " hover:shadow-md transition-shadow group flex flex-col"}>
             <div className="flex items-start justify-between mb-4">
@@ -21,6 +23,7 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
             </div>
             <h3 className="font-bold text-slate-900 dark:text-white mb-2">{resource.title}</h3>
             <p className="text-sm text-slate-500 dark:text-slate-400 mb-4 flex-1">{resource.description}</p>
+            <ResourceTags tags={resource.tags} highlighted={highlightedTags} className="mb-4" />
             <a
                 href={resource.url}
                 target="_blank"
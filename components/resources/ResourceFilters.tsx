@@ -1,43 +1,120 @@
-
 import React from 'react';
-import { Filter } from 'lucide-react';
+import { Filter, Search, X } from 'lucide-react';
+import { PREDEFINED_SKILLS } from '../../constants';
+import {
+    DEFAULT_LIBRARY_FILTERS,
+    hasActiveSearch,
+    LENGTH_LIMITS,
+    LibraryFilters,
+    LibraryItemType,
+    LibraryLength,
+    LibrarySort,
+    ResourceSource,
+} from '../../utils/resourceSearch';
+
+export type ResourceFilterType = ResourceSource;
 
-export type ResourceFilterType = 'all' | 'platform' | 'organization';
+const SKILL_OPTIONS = [...PREDEFINED_SKILLS].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+
+const SELECT_CLASS = 'px-2 py-1 rounded-lg text-sm bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-transparent focus:outline-none focus:ring-2 focus:ring-emerald-500';
 
 interface ResourceFiltersProps {
-    currentFilter: ResourceFilterType;
-    onFilterChange: (filter: ResourceFilterType) => void;
+    filters: LibraryFilters;
+    onChange: (filters: LibraryFilters) => void;
+    showTypeFilter?: boolean; // Only the cross-library search view mixes types
     activeColorClass?: string;
 }
 
 export const ResourceFilters: React.FC<ResourceFiltersProps> = ({
-    currentFilter,
-    onFilterChange,
+    filters,
+    onChange,
+    showTypeFilter = false,
     activeColorClass = 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300'
 }) => {
     const inactiveClass = 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700';
+    const update = (changes: Partial<LibraryFilters>) => onChange({ ...filters, ...changes });
+    const sourceButton = (source: ResourceFilterType, label: string) => (
+        <button
+            onClick={() => update({ source })}
+            className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${filters.source === source ? activeColorClass : inactiveClass}`}
+        >
+            {label}
+        </button>
+    );
 
     return (
-        <div className="flex items-center gap-2 mb-4">
-            <Filter className="w-4 h-4 text-slate-500" />
-            <button
-                onClick={() => onFilterChange('all')}
-                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${currentFilter === 'all' ? activeColorClass : inactiveClass}`}
-            >
-                All Resources
-            </button>
-            <button
-                onClick={() => onFilterChange('platform')}
-                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${currentFilter === 'platform' ? activeColorClass : inactiveClass}`}
-            >
-                Platform Picks
-            </button>
-            <button
-                onClick={() => onFilterChange('organization')}
-                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${currentFilter === 'organization' ? activeColorClass : inactiveClass}`}
-            >
-                Curated For You
-            </button>
+        <div className="space-y-3 mb-4">
+            <div className="relative">
+                <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                    type="search"
+                    value={filters.query}
+                    onChange={(e) => update({ query: e.target.value })}
+                    placeholder="Search titles, descriptions, guide content and transcripts…"
+                    aria-label="Search the library"
+                    className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <Filter className="w-4 h-4 text-slate-500" />
+                {sourceButton('all', 'All Resources')}
+                {sourceButton('platform', 'Platform Picks')}
+                {sourceButton('organization', 'Curated For You')}
+                {showTypeFilter && (
+                    <select
+                        value={filters.type}
+                        onChange={(e) => update({ type: e.target.value as LibraryItemType | 'all' })}
+                        aria-label="Type"
+                        className={SELECT_CLASS}
+                    >
+                        <option value="all">All types</option>
+                        <option value="guide">Discussion guides</option>
+                        <option value="template">Documents</option>
+                        <option value="video">Training videos</option>
+                    </select>
+                )}
+                <select
+                    value={filters.skill}
+                    onChange={(e) => update({ skill: e.target.value })}
+                    aria-label="Skill"
+                    className={SELECT_CLASS}
+                >
+                    <option value="">Any skill</option>
+                    {SKILL_OPTIONS.map((skill) => (
+                        <option key={skill} value={skill}>{skill}</option>
+                    ))}
+                </select>
+                <select
+                    value={filters.length}
+                    onChange={(e) => update({ length: e.target.value as LibraryLength })}
+                    aria-label="Length"
+                    className={SELECT_CLASS}
+                >
+                    <option value="any">Any length</option>
+                    <option value="short">Up to {LENGTH_LIMITS.short} min</option>
+                    <option value="medium">{LENGTH_LIMITS.short + 1}–{LENGTH_LIMITS.medium} min</option>
+                    <option value="long">Over {LENGTH_LIMITS.medium} min</option>
+                </select>
+                <select
+                    value={filters.sort}
+                    onChange={(e) => update({ sort: e.target.value as LibrarySort })}
+                    aria-label="Sort by"
+                    className={SELECT_CLASS}
+                >
+                    <option value="relevance">Best match for you</option>
+                    <option value="newest">Newest</option>
+                    <option value="title">Title A–Z</option>
+                    <option value="shortest">Shortest first</option>
+                </select>
+                {hasActiveSearch(filters) && (
+                    <button
+                        onClick={() => onChange({ ...DEFAULT_LIBRARY_FILTERS, source: filters.source, type: filters.type, sort: filters.sort })}
+                        className="inline-flex items-center px-2 py-1 text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                    >
+                        <X className="w-4 h-4 mr-1" /> Clear
+                    </button>
+                )}
+            </div>
         </div>
     );
 };
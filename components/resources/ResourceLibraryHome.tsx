@@ -1,14 +1,16 @@
 
-import React from 'react';
-import { Plus, BookOpen, File, Book, PlayCircle, ArrowRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { Plus, BookOpen, File, Book, PlayCircle, ArrowRight, Search } from 'lucide-react';
 import { Role, User } from '../../types';
 
 interface ResourceLibraryHomeProps {
     user: User;
-    onViewChange: (view: 'home' | 'recommended' | 'templates' | 'guides' | 'videos' | 'manage') => void;
+    onViewChange: (view: 'home' | 'search' | 'recommended' | 'templates' | 'guides' | 'videos' | 'manage') => void;
+    onSearch: (query: string) => void;
 }
 
-export const ResourceLibraryHome: React.FC<ResourceLibraryHomeProps> = ({ user, onViewChange }) => {
+export const ResourceLibraryHome: React.FC<ResourceLibraryHomeProps> = ({ user, onViewChange, onSearch }) => {
+    const [query, setQuery] = useState('');
     const isPlatformOperator = user.role === Role.PLATFORM_OPERATOR;
     const isOrgAdmin = user.role === Role.ADMIN;
     const canManage = isOrgAdmin || isPlatformOperator;
@@ -37,6 +39,30 @@ export const ResourceLibraryHome: React.FC<ResourceLibraryHomeProps> = ({ user,
                 )}
             </header>
 
+            <form
+                onSubmit={(e) => { e.preventDefault(); onSearch(query.trim()); }}
+                className="flex gap-2"
+                role="search"
+            >
+                <div className="relative flex-1">
+                    <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search guides, documents and videos by topic or skill…"
+                        aria-label="Search the library"
+                        className="w-full pl-9 pr-3 py-2.5 rounded-lg border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                </div>
+                <button
+                    type="submit"
+                    className="bg-emerald-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors"
+                >
+                    {query.trim() ? 'Search' : 'Browse all'}
+                </button>
+            </form>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div
                     onClick={() => onViewChange('recommended')}
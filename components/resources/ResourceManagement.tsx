@@ -162,6 +162,7 @@ export const ResourceManagement: React.FC<ResourceManagementProps> = ({
 
                 {manageTab === 'blog' && canManagePlatform && (
                     <ManageBlog
+                        user={user}
                         blogPosts={blogPosts}
                         onAdd={onAddBlogPost}
                         onUpdate={onUpdateBlogPost}
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ResourceTagsProps {
+    tags?: string[];
+    highlighted?: string[]; // Tags that match the viewer's skills or goals
+    className?: string;
+}
+
+export const ResourceTags: React.FC<ResourceTagsProps> = ({ tags, highlighted = [], className = '' }) => {
+    if (!Array.isArray(tags) || tags.length === 0) return null;
+
+    return (
+        <div className={`flex flex-wrap gap-1.5 ${className}`}>
+            {tags.map((tag) => (
+                <span
+                    key={tag}
+                    className={`text-[11px] px-2 py-0.5 rounded-full ${highlighted.includes(tag)
+                        ? 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 font-semibold'
+                        : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400'
+                        }`}
+                >
+                    {tag}
+                </span>
+            ))}
+        </div>
+    );
+};
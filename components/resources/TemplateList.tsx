@@ -2,6 +2,7 @@
 import React from 'react';
 import { File, ArrowRight } from 'lucide-react';
 import { CareerTemplate } from '../../types';
+import { ResourceTags } from './ResourceTags';
 
 interface TemplateListProps {
     templates: CareerTemplate[];
@@ -37,6 +38,7 @@ export const TemplateList: React.FC<TemplateListProps> = ({ templates, onSelect
                                     <span>•</span>
                                     <span>{template.size}</span>
                                 </div>
+                                <ResourceTags tags={template.tags} className="mt-2" />
                             </div>
                         </div>
                         <button className="flex items-center px-4 py-2 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 group-hover:bg-white dark:group-hover:bg-slate-800 shadow-sm transition-all">
@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { PlayCircle } from 'lucide-react';
+import { Clock, PlayCircle } from 'lucide-react';
 import { TrainingVideo } from '../../types';
+import { ResourceTags } from './ResourceTags';
 
 interface VideoListProps {
     videos: TrainingVideo[];
@@ -43,7 +44,11 @@ export const VideoList: React.FC<VideoListProps> = ({ videos, onSelect }) => {
                     </div>
                     <div className="p-5">
                         <h3 className="font-bold text-slate-900 dark:text-white mb-2">{video.title}</h3>
+                        {video.lengthMinutes ? (
+                            <p className="text-xs text-slate-400 mb-2 flex items-center"><Clock className="w-3 h-3 mr-1" /> {video.lengthMinutes} min</p>
+                        ) : null}
                         <p className="text-sm text-slate-500 dark:text-slate-400">{video.description}</p>
+                        <ResourceTags tags={video.tags} className="mt-3" />
                     </div>
                 </div>
             ))}
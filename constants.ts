@@ -484,4 +484,26 @@ export const PREDEFINED_SKILLS = [
   'Research',
   'Innovation Management',
   'Translation & Localization',
-];
\ No newline at end of file
+];
+
+// Industries offered for mentor experience and mentee preferences (users can still add custom ones)
+export const PREDEFINED_INDUSTRIES = [
+  'Technology',
+  'Fintech',
+  'Financial Services',
+  'Healthcare',
+  'Biotech & Pharma',
+  'Education',
+  'Government & Public Sector',
+  'Nonprofit',
+  'Retail & E-commerce',
+  'Manufacturing',
+  'Energy',
+  'Media & Entertainment',
+  'Consulting',
+  'Real Estate',
+  'Legal',
+  'Hospitality',
+  'Transportation & Logistics',
+  'Telecommunications',
+];
@@ -0,0 +1,116 @@
+// @vitest-environment node
+/**
+ * Security rules tests. They need the Firestore emulator, so they only run under
+ * `npm run test:rules` (firebase emulators:exec sets FIRESTORE_EMULATOR_HOST) and are skipped
+ * by the plain `npm test` run.
+ */
+import { readFileSync } from "fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, getDoc, setDoc, Timestamp, updateDoc } from "firebase/firestore";
+
+let testEnv: RulesTestEnvironment;
+
+const seed = (docs: Record<string, Record<string, unknown>>) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    for (const [path, data] of Object.entries(docs)) {
+      await setDoc(doc(context.firestore(), path), data);
+    }
+  });
+
+const member = (overrides: Record<string, unknown> = {}) => ({
+  organizationId: "org-1",
+  name: "Member",
+  email: "member@example.com",
+  role: "MENTEE",
+  ...overrides,
+});
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)("firestore.rules", () => {
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: "demo-meant2grow-rules",
+      firestore: { rules: readFileSync("firestore.rules", "utf8") },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+  });
+
+  describe("suspended members", () => {
+    beforeEach(async () => {
+      await seed({
+        "users/active": member(),
+        "users/suspended": member({ suspended: true, suspendedAt: "2026-03-01T00:00:00.000Z" }),
+        "goals/goal-1": { organizationId: "org-1", userId: "suspended", title: "Old goal", progress: 10 },
+      });
+    });
+
+    it("can still read their organization's data", async () => {
+      const db = testEnv.authenticatedContext("suspended").firestore();
+      await assertSucceeds(getDoc(doc(db, "goals/goal-1")));
+    });
+
+    it("can't create or update goals", async () => {
+      const goal = { organizationId: "org-1", userId: "suspended", title: "New goal", progress: 0 };
+      const suspended = testEnv.authenticatedContext("suspended").firestore();
+      await assertFails(setDoc(doc(suspended, "goals/goal-2"), goal));
+      await assertFails(updateDoc(doc(suspended, "goals/goal-1"), { progress: 50 }));
+
+      const active = testEnv.authenticatedContext("active").firestore();
+      await assertSucceeds(setDoc(doc(active, "goals/goal-3"), { ...goal, userId: "active" }));
+    });
+
+    it("can't edit their own profile", async () => {
+      const db = testEnv.authenticatedContext("suspended").firestore();
+      await assertFails(updateDoc(doc(db, "users/suspended"), { name: "Renamed" }));
+    });
+  });
+
+  describe("organization trials", () => {
+    const trial = { subscriptionStatus: "trialing", trialEnd: "2099-01-01T00:00:00.000Z" };
+
+    beforeEach(async () => {
+      await seed({
+        "organizations/org-1": { name: "Acme", organizationCode: "ACME01", subscriptionTier: "free" },
+        "users/admin": member({ role: "ADMIN" }),
+      });
+    });
+
+    it("can't be started or extended by clients", async () => {
+      const anonymous = testEnv.unauthenticatedContext().firestore();
+      await assertFails(updateDoc(doc(anonymous, "organizations/org-1"), trial));
+
+      const admin = testEnv.authenticatedContext("admin").firestore();
+      await assertFails(updateDoc(doc(admin, "organizations/org-1"), trial));
+      await assertSucceeds(updateDoc(doc(admin, "organizations/org-1"), { name: "Acme Mentoring" }));
+    });
+
+    it("can't be set when a client creates an organization", async () => {
+      const anonymous = testEnv.unauthenticatedContext().firestore();
+      const org = { name: "New Org", organizationCode: "NEW001", subscriptionTier: "free", createdAt: Timestamp.now() };
+      await assertFails(setDoc(doc(anonymous, "organizations/org-2"), { ...org, ...trial }));
+      await assertSucceeds(setDoc(doc(anonymous, "organizations/org-3"), org));
+    });
+  });
+
+  describe("audit log", () => {
+    it("is written by Cloud Functions only, even for operators", async () => {
+      await seed({ "users/operator": member({ organizationId: "platform", role: "PLATFORM_OPERATOR" }) });
+      const db = testEnv.authenticatedContext("operator").firestore();
+      await assertFails(
+        setDoc(doc(db, "auditLog/entry-1"), { organizationId: "org-1", operatorUid: "operator", action: "update" })
+      );
+    });
+  });
+});
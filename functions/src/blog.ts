@@ -0,0 +1,47 @@
+/**
+ * Scheduled blog publishing. ManageBlog saves a scheduled post with status "scheduled" and a
+ * publishAt ISO time; public readers only see posts with published == true (firestore.rules),
+ * so this job flips each due post to published.
+ */
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import * as admin from "firebase-admin";
+import { formatError } from "./utils/errors";
+
+const db = admin.firestore();
+
+export const publishScheduledBlogPosts = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    region: "us-central1",
+    memory: "256MiB",
+    cpu: 0.08333333333333333,
+    concurrency: 1,
+    maxInstances: 1,
+  },
+  async () => {
+    const now = new Date().toISOString();
+    try {
+      const due = await db
+        .collection("blogPosts")
+        .where("status", "==", "scheduled")
+        .where("publishAt", "<=", now)
+        .get();
+
+      for (const postDoc of due.docs) {
+        try {
+          await postDoc.ref.update({
+            status: "published",
+            published: true,
+            publishedAt: postDoc.get("publishAt") || now,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        } catch (error: unknown) {
+          console.error(`Error publishing scheduled blog post ${postDoc.id}:`, formatError(error));
+        }
+      }
+      if (!due.empty) console.log(`Published ${due.size} scheduled blog posts`);
+    } catch (error: unknown) {
+      console.error("Error publishing scheduled blog posts:", formatError(error));
+    }
+  }
+);
@@ -0,0 +1,254 @@
+import * as functions from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import { MentorAvailability } from "./types";
+import { createMeetSpace, serviceAccountKey } from "./meet";
+import { assertTotpPolicy } from "./totp";
+import { getWritableImpersonation, impersonatedCallAuditEntry } from "./impersonation";
+import { formatError } from "./utils/errors";
+import { getEventStart, utcToZonedDateTime } from "./utils/timeZones";
+import { getOccurrencesBetween } from "./utils/recurrence";
+import {
+  BOOKING_HORIZON_DAYS,
+  BOOKING_NOTICE_HOURS,
+  getWeekRange,
+  isSlotAvailable,
+  parseDurationMinutes,
+  TimeRange,
+} from "./utils/availability";
+
+const db = admin.firestore();
+
+const RUNTIME = {
+  region: "us-central1" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+  secrets: [serviceAccountKey],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TITLE_LENGTH = 120;
+const MAX_NOTES_LENGTH = 2000;
+
+function formatDuration(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60}h`;
+}
+
+function formatSessionTime(start: Date, timeZone: string | undefined): string {
+  return start.toLocaleString("en-US", {
+    timeZone: timeZone || "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * Books one of a mentor's published availability slots for their mentee. The slot is re-checked
+ * against the mentor's events, busy times and weekly cap inside a transaction that also writes the
+ * event and both notifications. Every booking for a mentor writes bookingLocks/{mentorId}, so two
+ * bookings racing for the same mentor are serialized and the loser sees the winner's event.
+ */
+export const bookMentorSession = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const uid = request.auth.uid;
+  await assertTotpPolicy(uid);
+
+  const { mentorId, menteeId, startsAt } = request.data || {};
+  if (typeof mentorId !== "string" || !mentorId || typeof menteeId !== "string" || !menteeId) {
+    throw new functions.HttpsError("invalid-argument", "mentorId and menteeId are required");
+  }
+  const start = new Date(typeof startsAt === "string" ? startsAt : "");
+  if (isNaN(start.getTime())) {
+    throw new functions.HttpsError("invalid-argument", "startsAt must be an ISO date-time");
+  }
+  const rawTitle = typeof request.data?.title === "string" ? request.data.title.trim() : "";
+  const notes =
+    typeof request.data?.notes === "string" ? request.data.notes.trim().slice(0, MAX_NOTES_LENGTH) : "";
+
+  const [menteeSnap, mentorSnap] = await Promise.all([
+    db.collection("users").doc(menteeId).get(),
+    db.collection("users").doc(mentorId).get(),
+  ]);
+  const mentee = menteeSnap.data();
+  const mentor = mentorSnap.data();
+  // A platform operator in a read-write impersonation session books as the impersonated mentee
+  const impersonation = await getWritableImpersonation(uid);
+  const bookingAsImpersonator = impersonation?.targetUserId === menteeId;
+  if (!mentee || (menteeId !== uid && mentee.firebaseAuthUid !== uid && !bookingAsImpersonator)) {
+    throw new functions.HttpsError("permission-denied", "You can only book sessions for yourself");
+  }
+  if (!mentor || mentor.organizationId !== mentee.organizationId) {
+    throw new functions.HttpsError("not-found", "Mentor not found");
+  }
+  const organizationId = String(mentee.organizationId);
+  const availability = mentor.availability as MentorAvailability | undefined;
+  if (!availability?.windows?.length) {
+    throw new functions.HttpsError("failed-precondition", "This mentor has not published availability");
+  }
+
+  const [matchSnap, blockSnaps] = await Promise.all([
+    db
+      .collection("matches")
+      .where("organizationId", "==", organizationId)
+      .where("mentorId", "==", mentorId)
+      .where("menteeId", "==", menteeId)
+      .where("status", "==", "ACTIVE")
+      .limit(1)
+      .get(),
+    Promise.all([
+      db.collection("blocks").doc(`${mentorId}_${menteeId}`).get(),
+      db.collection("blocks").doc(`${menteeId}_${mentorId}`).get(),
+    ]),
+  ]);
+  if (matchSnap.empty) {
+    throw new functions.HttpsError("permission-denied", "You can only book sessions with your matched mentor");
+  }
+  if (blockSnaps.some((snap) => snap.exists)) {
+    throw new functions.HttpsError("permission-denied", "You can't schedule with this mentor");
+  }
+
+  const now = Date.now();
+  if (
+    start.getTime() < now + BOOKING_NOTICE_HOURS * 60 * 60 * 1000 ||
+    start.getTime() > now + BOOKING_HORIZON_DAYS * DAY_MS
+  ) {
+    throw new functions.HttpsError(
+      "failed-precondition",
+      `Sessions must be booked at least ${BOOKING_NOTICE_HOURS} hours and at most ${BOOKING_HORIZON_DAYS} days ahead`
+    );
+  }
+
+  const timeZone = availability.timeZone;
+  const sessionMinutes = availability.sessionMinutes;
+  const week = getWeekRange(start, timeZone);
+  // A day either side of the week covers events that overlap the slot across midnight or the buffer
+  const scanFrom = new Date(week.start.getTime() - DAY_MS);
+  const scanTo = new Date(week.end.getTime() + DAY_MS);
+
+  const busyTimesSnap = await db.collection("busyTimes").doc(mentorId).get();
+  const calendarBusy: TimeRange[] = ((busyTimesSnap.data()?.intervals || []) as Array<{ start: string; end: string }>)
+    .map((interval) => ({ start: new Date(interval.start), end: new Date(interval.end) }))
+    .filter((range) => range.end > scanFrom && range.start < scanTo);
+
+  // The video link is created before the transaction (it can't be rolled back); a booking
+  // that loses the race just leaves an unused Meet space behind.
+  let meetLink: string;
+  try {
+    meetLink = await createMeetSpace();
+  } catch (error: unknown) {
+    console.error("Error creating Meet link for booking:", formatError(error));
+    throw new functions.HttpsError("unavailable", "Could not create the video link. Please try again.");
+  }
+
+  const { date, time } = utcToZonedDateTime(start, timeZone);
+  const title = (rawTitle || `Mentorship Session: ${mentee.name} & ${mentor.name}`).slice(0, MAX_TITLE_LENGTH);
+  const eventRef = db.collection("calendarEvents").doc();
+  const event = {
+    organizationId,
+    title,
+    date,
+    startTime: time,
+    timeZone,
+    startsAt: start.toISOString(),
+    duration: formatDuration(sessionMinutes),
+    type: "Virtual",
+    mentorId,
+    menteeId,
+    participants: [mentorId, menteeId],
+    createdBy: menteeId,
+    googleMeetLink: meetLink,
+    ...(notes && { notes }),
+  };
+
+  await db.runTransaction(async (tx) => {
+    const lockRef = db.collection("bookingLocks").doc(mentorId);
+    await tx.get(lockRef);
+
+    const events = db.collection("calendarEvents");
+    const snaps = await Promise.all([
+      tx.get(events.where("mentorId", "==", mentorId)),
+      tx.get(events.where("participants", "array-contains", mentorId)),
+      tx.get(events.where("createdBy", "==", mentorId)),
+    ]);
+    const mentorEvents = new Map<string, FirebaseFirestore.DocumentData>();
+    snaps.forEach((snap) => snap.docs.forEach((doc) => mentorEvents.set(doc.id, doc.data())));
+
+    const busy = [...calendarBusy];
+    let sessionsInWeek = 0;
+    mentorEvents.forEach((data) => {
+      const starts = data.recurrence
+        ? getOccurrencesBetween(
+            {
+              date: data.date,
+              startTime: data.startTime,
+              timeZone: data.timeZone,
+              recurrence: data.recurrence,
+              recurrenceExceptions: data.recurrenceExceptions,
+            },
+            scanFrom,
+            scanTo,
+            timeZone
+          ).map((occurrence) => occurrence.startsAt)
+        : [getEventStart(data as { date: string; startTime: string }, timeZone)];
+      const minutes = parseDurationMinutes(data.duration);
+      for (const occurrenceStart of starts) {
+        busy.push({ start: occurrenceStart, end: new Date(occurrenceStart.getTime() + minutes * 60000) });
+        if (data.mentorId === mentorId && occurrenceStart >= week.start && occurrenceStart < week.end) {
+          sessionsInWeek++;
+        }
+      }
+    });
+
+    if (!isSlotAvailable(availability, start, busy, sessionsInWeek)) {
+      throw new functions.HttpsError(
+        "failed-precondition",
+        "That time is no longer available. Please choose another slot."
+      );
+    }
+
+    const timestamp = admin.firestore.Timestamp.now();
+    tx.set(eventRef, { ...event, createdAt: timestamp });
+    tx.update(mentorSnap.ref, {
+      totalHoursCommitted: admin.firestore.FieldValue.increment(sessionMinutes / 60),
+    });
+    // Push for these follows from onNotificationCreated, which checks the preference
+    tx.set(db.collection("notifications").doc(), {
+      organizationId,
+      userId: mentorId,
+      type: "meeting",
+      title: "New Session Booked",
+      body: `${mentee.name} booked "${title}" for ${formatSessionTime(start, mentor.timezone || timeZone)}.`,
+      isRead: false,
+      timestamp,
+      eventId: eventRef.id,
+    });
+    tx.set(db.collection("notifications").doc(), {
+      organizationId,
+      userId: menteeId,
+      type: "meeting",
+      title: "Session Confirmed",
+      body: `Your session with ${mentor.name} is booked for ${formatSessionTime(start, mentee.timezone)}.`,
+      isRead: false,
+      timestamp,
+      eventId: eventRef.id,
+    });
+    tx.set(lockRef, {
+      mentorId,
+      organizationId,
+      lastEventId: eventRef.id,
+      updatedAt: timestamp,
+    });
+    if (bookingAsImpersonator && impersonation) {
+      tx.set(db.collection("auditLog").doc(), impersonatedCallAuditEntry(impersonation, uid, "bookMentorSession", eventRef.path));
+    }
+  });
+
+  return { id: eventRef.id, ...event, createdAt: new Date().toISOString() };
+});
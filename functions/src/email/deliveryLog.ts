@@ -0,0 +1,88 @@
+import * as admin from "firebase-admin";
+
+/**
+ * Where emailService.ts records each send (one emailLog doc per email, with every provider
+ * attempt) and looks up addresses that bounced or complained (emailSuppressions, keyed by the
+ * lowercased address). Bounce/complaint webhooks in emailWebhooks.ts update both.
+ */
+
+export type EmailLogStatus =
+  | "sending"
+  | "sent" // Accepted by a provider
+  | "failed" // Every attempt failed
+  | "suppressed" // Every recipient is on the suppression list
+  | "delivered"
+  | "delayed"
+  | "bounced"
+  | "complained";
+
+export interface EmailAttempt {
+  provider: string;
+  at: string; // ISO date string
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  statusCode?: number;
+}
+
+export interface EmailLogStart {
+  organizationId: string | null;
+  to: { email: string; name?: string }[];
+  suppressed: string[]; // Lowercased addresses skipped because of the suppression list
+  subject: string;
+  category: string | null;
+}
+
+export interface EmailLogResult {
+  status: Extract<EmailLogStatus, "sent" | "failed" | "suppressed">;
+  attempts: EmailAttempt[];
+  provider?: string;
+  messageId?: string;
+  error?: string;
+}
+
+export interface EmailDeliveryLog {
+  getSuppressedRecipients(emails: string[]): Promise<Set<string>>;
+  start(entry: EmailLogStart): Promise<string>;
+  finish(logId: string, result: EmailLogResult): Promise<void>;
+}
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export function createFirestoreDeliveryLog(db: admin.firestore.Firestore): EmailDeliveryLog {
+  return {
+    async getSuppressedRecipients(emails) {
+      const unique = Array.from(new Set(emails.map(normalizeEmail))).filter(Boolean);
+      if (unique.length === 0) return new Set();
+      const snaps = await db.getAll(...unique.map((email) => db.collection("emailSuppressions").doc(email)));
+      return new Set(snaps.filter((snap) => snap.exists).map((snap) => snap.id));
+    },
+
+    async start(entry) {
+      const now = admin.firestore.Timestamp.now();
+      const ref = await db.collection("emailLog").add({
+        ...entry,
+        recipients: entry.to.map((recipient) => normalizeEmail(recipient.email)),
+        status: "sending",
+        attempts: [],
+        events: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+      return ref.id;
+    },
+
+    async finish(logId, result) {
+      await db
+        .collection("emailLog")
+        .doc(logId)
+        .update({
+          ...result,
+          provider: result.provider || null,
+          messageId: result.messageId || null,
+          error: result.error || null,
+          updatedAt: admin.firestore.Timestamp.now(),
+        });
+    },
+  };
+}
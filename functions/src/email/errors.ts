@@ -0,0 +1,19 @@
+/**
+ * Provider send failure. `retryable` is false when sending again cannot help (bad recipient,
+ * missing config, rejected credentials), so the retry loop in emailService.ts moves on to the
+ * next provider instead of waiting and repeating the same request.
+ */
+export class EmailProviderError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = "EmailProviderError";
+  }
+}
+
+/** 408/429 and 5xx are worth retrying; other 4xx responses will fail the same way again. */
+export const isRetryableStatus = (status: number | undefined): boolean =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
@@ -0,0 +1,73 @@
+import * as crypto from "crypto";
+import { EmailProviderConfig, SendEmailOptions } from "./types";
+import { EmailProviderError } from "./errors";
+
+/**
+ * Shared by the local providers (smtp, file, memory): the same checks the API providers make,
+ * and an RFC 5322 multipart/alternative message so catchers and .eml viewers show both parts.
+ */
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function assertSendable(config: EmailProviderConfig, options: SendEmailOptions): void {
+  if (!config.fromEmail) {
+    throw new EmailProviderError("Email service not configured: From email is missing.", false);
+  }
+  if (!options.to?.length) {
+    throw new EmailProviderError("No recipients specified for email", false);
+  }
+  for (const r of options.to) {
+    if (!EMAIL_REGEX.test(r.email)) {
+      throw new EmailProviderError(`Invalid email address: ${r.email}`, false);
+    }
+  }
+}
+
+export const createMessageId = (fromEmail: string): string =>
+  `<${crypto.randomUUID()}@${fromEmail.split("@")[1] || "localhost"}>`;
+
+// Non-ASCII header values (names, subjects with emoji) as RFC 2047 encoded-words
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const formatAddress = (address: { email: string; name?: string }): string =>
+  address.name ? `${encodeHeader(address.name.replace(/["\r\n]/g, ""))} <${address.email}>` : address.email;
+
+const base64Body = (value: string): string =>
+  Buffer.from(value, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+
+export function buildMimeMessage(
+  config: EmailProviderConfig,
+  options: SendEmailOptions,
+  messageId: string,
+  date = new Date()
+): string {
+  const boundary = `m2g-${crypto.randomBytes(12).toString("hex")}`;
+  const headers = [
+    `From: ${formatAddress({ name: "Meant2Grow", email: config.fromEmail })}`,
+    `To: ${options.to.map(formatAddress).join(", ")}`,
+    ...(config.replyToEmail ? [`Reply-To: ${config.replyToEmail}`] : []),
+    `Subject: ${encodeHeader(options.subject.replace(/[\r\n]+/g, " "))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    ...(options.category ? [`X-Category: ${encodeHeader(options.category)}`] : []),
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+  return [
+    ...headers,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(options.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(options.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
@@ -1,10 +1,14 @@
 import { EmailProvider, EmailProviderConfig, EmailProviderName } from "./types";
 import { createMailerSendProvider } from "./providers/mailersendProvider";
 import { createResendProvider } from "./providers/resendProvider";
+import { createSmtpProvider } from "./providers/smtpProvider";
+import { createFileProvider } from "./providers/fileProvider";
+import { createMemoryProvider } from "./providers/memoryProvider";
 
 /**
  * Creates the configured email provider.
- * Set EMAIL_PROVIDER to "resend" (default) or "mailersend".
+ * Set EMAIL_PROVIDER to "resend" (default) or "mailersend"; "smtp", "file" and "memory" are for
+ * local development and tests.
  */
 export function createEmailProvider(
   providerName: EmailProviderName,
@@ -15,6 +19,12 @@ export function createEmailProvider(
       return createResendProvider(config);
     case "mailersend":
       return createMailerSendProvider(config);
+    case "smtp":
+      return createSmtpProvider(config);
+    case "file":
+      return createFileProvider(config);
+    case "memory":
+      return createMemoryProvider(config);
     default:
       console.warn(
         `⚠️ Unknown EMAIL_PROVIDER "${providerName}", defaulting to resend`
@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EmailProvider, EmailProviderConfig, SendEmailOptions } from "../types";
+import { EmailProviderError } from "../errors";
+import { assertSendable, buildMimeMessage, createMessageId } from "../mime";
+
+export const DEFAULT_EMAIL_FILE_DIR = path.join(os.tmpdir(), "meant2grow-emails");
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "email";
+
+/**
+ * Writes each email to EMAIL_FILE_DIR as an .eml (opens in any mail client) plus an .html copy
+ * for the browser. Use when EMAIL_PROVIDER=file for local runs without an API token.
+ */
+export function createFileProvider(config: EmailProviderConfig): EmailProvider {
+  const outputDir = config.outputDir || DEFAULT_EMAIL_FILE_DIR;
+
+  return {
+    name: "file",
+
+    async send(options: SendEmailOptions) {
+      assertSendable(config, options);
+      const messageId = createMessageId(config.fromEmail);
+      const sentAt = new Date();
+      const baseName = `${sentAt.toISOString().replace(/[:.]/g, "-")}-${slugify(options.subject)}`;
+
+      try {
+        await fs.promises.mkdir(outputDir, { recursive: true });
+        await fs.promises.writeFile(
+          path.join(outputDir, `${baseName}.eml`),
+          buildMimeMessage(config, options, messageId, sentAt)
+        );
+        await fs.promises.writeFile(path.join(outputDir, `${baseName}.html`), options.html);
+      } catch (error: unknown) {
+        throw new EmailProviderError(
+          `Email sending failed: could not write to ${outputDir}: ${error instanceof Error ? error.message : String(error)}`,
+          false
+        );
+      }
+
+      console.log(`📁 [File] Email written: ${path.join(outputDir, `${baseName}.eml`)}`);
+      return { success: true, messageId };
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import { MailerSend, EmailParams, Sender, Recipient } from "mailersend";
 import { EmailProvider, EmailProviderConfig, SendEmailOptions } from "../types";
+import { EmailProviderError, isRetryableStatus } from "../errors";
 import { agentDebugLog } from "../../agentDebugLog";
 
 export function createMailerSendProvider(config: EmailProviderConfig): EmailProvider {
@@ -12,19 +13,19 @@ export function createMailerSendProvider(config: EmailProviderConfig): EmailProv
 
     async send(options: SendEmailOptions) {
       if (!config.apiToken) {
-        throw new Error("Email service not configured: API token is missing.");
+        throw new EmailProviderError("Email service not configured: API token is missing.", false);
       }
       if (!config.fromEmail) {
-        throw new Error("Email service not configured: From email is missing.");
+        throw new EmailProviderError("Email service not configured: From email is missing.", false);
       }
       if (!options.to?.length) {
-        throw new Error("No recipients specified for email");
+        throw new EmailProviderError("No recipients specified for email", false);
       }
 
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       for (const r of options.to) {
         if (!emailRegex.test(r.email)) {
-          throw new Error(`Invalid email address: ${r.email}`);
+          throw new EmailProviderError(`Invalid email address: ${r.email}`, false);
         }
       }
 
@@ -96,7 +97,12 @@ export function createMailerSendProvider(config: EmailProviderConfig): EmailProv
           },
         });
         // #endregion
-        throw new Error(`Email sending failed: ${msg}.${hint}`);
+        const statusCode: number | undefined = error?.response?.statusCode ?? error?.statusCode;
+        throw new EmailProviderError(
+          `Email sending failed: ${msg}.${hint}`,
+          isRetryableStatus(statusCode),
+          statusCode
+        );
       }
     },
   };
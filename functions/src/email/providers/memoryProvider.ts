@@ -0,0 +1,43 @@
+import { EmailProvider, EmailProviderConfig, SendEmailOptions } from "../types";
+import { assertSendable, createMessageId } from "../mime";
+
+export interface CapturedEmail extends SendEmailOptions {
+  messageId: string;
+  from: string;
+  replyTo?: string;
+  sentAt: Date;
+}
+
+// Shared by every memory provider in the process, so tests can read what a service sent
+const outbox: CapturedEmail[] = [];
+
+/** Emails sent through memory providers, oldest first. */
+export const getMemoryOutbox = (): readonly CapturedEmail[] => outbox;
+
+export const clearMemoryOutbox = (): void => {
+  outbox.length = 0;
+};
+
+/**
+ * Keeps rendered emails in memory instead of sending them.
+ * Use when EMAIL_PROVIDER=memory (tests and emulator runs that only need the message content).
+ */
+export function createMemoryProvider(config: EmailProviderConfig): EmailProvider {
+  return {
+    name: "memory",
+
+    async send(options: SendEmailOptions) {
+      assertSendable(config, options);
+      const messageId = createMessageId(config.fromEmail);
+      outbox.push({
+        ...options,
+        to: options.to.map((r) => ({ ...r })),
+        messageId,
+        from: config.fromEmail,
+        replyTo: config.replyToEmail || undefined,
+        sentAt: new Date(),
+      });
+      return { success: true, messageId };
+    },
+  };
+}
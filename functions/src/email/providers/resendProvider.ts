@@ -1,4 +1,5 @@
 import { EmailProvider, EmailProviderConfig, SendEmailOptions } from "../types";
+import { EmailProviderError, isRetryableStatus } from "../errors";
 
 const RESEND_SEND_URL = "https://api.resend.com/emails";
 
@@ -45,19 +46,19 @@ export function createResendProvider(config: EmailProviderConfig): EmailProvider
 
     async send(options: SendEmailOptions) {
       if (!config.apiToken) {
-        throw new Error("Email service not configured: API token is missing.");
+        throw new EmailProviderError("Email service not configured: API token is missing.", false);
       }
       if (!config.fromEmail) {
-        throw new Error("Email service not configured: From email is missing.");
+        throw new EmailProviderError("Email service not configured: From email is missing.", false);
       }
       if (!options.to?.length) {
-        throw new Error("No recipients specified for email");
+        throw new EmailProviderError("No recipients specified for email", false);
       }
 
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       for (const r of options.to) {
         if (!emailRegex.test(r.email)) {
-          throw new Error(`Invalid email address: ${r.email}`);
+          throw new EmailProviderError(`Invalid email address: ${r.email}`, false);
         }
       }
 
@@ -76,14 +77,23 @@ export function createResendProvider(config: EmailProviderConfig): EmailProvider
         `[Resend] Attempting to send: ${options.subject} to ${options.to.map((t) => t.email).join(", ")}`
       );
 
-      const response = await fetch(RESEND_SEND_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${config.apiToken}`,
-        },
-        body: JSON.stringify(payload),
-      });
+      let response: Response;
+      try {
+        response = await fetch(RESEND_SEND_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${config.apiToken}`,
+          },
+          body: JSON.stringify(payload),
+        });
+      } catch (error: unknown) {
+        // Network failure before Resend answered
+        throw new EmailProviderError(
+          `Email sending failed: ${error instanceof Error ? error.message : String(error)}`,
+          true
+        );
+      }
 
       const body: unknown = await response.json().catch(() => ({}));
 
@@ -95,7 +105,11 @@ export function createResendProvider(config: EmailProviderConfig): EmailProvider
           error: msg,
           status: response.status,
         });
-        throw new Error(`Email sending failed: ${msg}`);
+        throw new EmailProviderError(
+          `Email sending failed: ${msg}`,
+          isRetryableStatus(response.status),
+          response.status
+        );
       }
 
       const messageId = getResendMessageId(body);
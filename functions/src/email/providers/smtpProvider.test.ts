@@ -0,0 +1,100 @@
+// @vitest-environment node
+import * as net from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSmtpProvider } from "./smtpProvider";
+import { EmailProviderError } from "../errors";
+
+const config = {
+  apiToken: "",
+  fromEmail: "noreply@example.com",
+  replyToEmail: "support@example.com",
+  appUrl: "https://app.example.com",
+};
+
+/** Just enough of an SMTP catcher to record the session; `rejectRcpt` answers RCPT with 550. */
+function startCatcher(rejectRcpt = false): Promise<{ server: net.Server; port: number; commands: string[]; data: string[] }> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 catcher ready\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-catcher\r\n250 SIZE 1000000\r\n");
+        else if (verb === "RCPT" && rejectRcpt) socket.write("550 no such user\r\n");
+        else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, commands, data });
+    });
+  });
+}
+
+describe("smtpProvider", () => {
+  let server: net.Server | null = null;
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  it("delivers the message in one SMTP session", async () => {
+    const catcher = await startCatcher();
+    server = catcher.server;
+    const provider = createSmtpProvider({ ...config, smtpUrl: `smtp://127.0.0.1:${catcher.port}` });
+
+    const result = await provider.send({
+      to: [{ email: "ada@example.com", name: "Ada" }],
+      subject: "Hello",
+      html: "<p>Hi</p>",
+      text: "Hi",
+    });
+
+    expect(result.success).toBe(true);
+    expect(catcher.commands).toEqual([
+      "EHLO meant2grow.local",
+      "MAIL FROM:<noreply@example.com>",
+      "RCPT TO:<ada@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(catcher.data).toContain("Subject: Hello");
+    expect(catcher.data).toContain(`Message-ID: ${result.messageId}`);
+  });
+
+  it("fails without retrying when the server rejects a recipient", async () => {
+    const catcher = await startCatcher(true);
+    server = catcher.server;
+    const provider = createSmtpProvider({ ...config, smtpUrl: `smtp://127.0.0.1:${catcher.port}` });
+
+    const error = await provider
+      .send({ to: [{ email: "nobody@example.com" }], subject: "Hello", html: "<p>Hi</p>", text: "Hi" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(EmailProviderError);
+    expect((error as EmailProviderError).retryable).toBe(false);
+    expect((error as EmailProviderError).message).toContain("SMTP RCPT → 550");
+  });
+});
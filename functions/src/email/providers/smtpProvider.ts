@@ -0,0 +1,135 @@
+import * as net from "net";
+import { EmailProvider, EmailProviderConfig, SendEmailOptions } from "../types";
+import { EmailProviderError } from "../errors";
+import { assertSendable, buildMimeMessage, createMessageId } from "../mime";
+
+export const DEFAULT_SMTP_URL = "smtp://localhost:1025";
+
+const SMTP_TIMEOUT_MS = 10_000;
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+/**
+ * Minimal plain-text SMTP session: one connection per email, optional AUTH PLAIN from the URL.
+ * No STARTTLS, so only point it at a local catcher (Mailpit, MailHog, smtp4dev), not a real relay.
+ */
+class SmtpSession {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting: ((reply: SmtpReply) => void) | null = null;
+  private failure: Error | null = null;
+
+  constructor(private readonly socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP server timed out")));
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    socket.on("error", (error) => {
+      this.failure = error;
+      this.flush();
+    });
+  }
+
+  // A reply is complete at a line with a space after the code ("250 OK" vs "250-SIZE ...")
+  private flush(): void {
+    if (!this.waiting) return;
+    if (this.failure) {
+      this.waiting({ code: 0, message: this.failure.message });
+      this.waiting = null;
+      return;
+    }
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (last < 0) return;
+    const replyLines = this.lines.splice(0, last + 1);
+    const resolve = this.waiting;
+    this.waiting = null;
+    resolve({ code: Number(replyLines[last].slice(0, 3)), message: replyLines.map((line) => line.slice(4)).join(" ") });
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+      this.flush();
+    });
+  }
+
+  async command(line: string, expected: number[], step = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, step);
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      const retryable = reply.code === 0 || (reply.code >= 400 && reply.code < 500);
+      throw new EmailProviderError(
+        `Email sending failed: SMTP ${step} → ${reply.code || "connection error"} ${reply.message}`.trim(),
+        retryable
+      );
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * SMTP provider for local development: EMAIL_PROVIDER=smtp with EMAIL_SMTP_URL pointing at a
+ * catcher (default smtp://localhost:1025, Mailpit/MailHog's port).
+ */
+export function createSmtpProvider(config: EmailProviderConfig): EmailProvider {
+  return {
+    name: "smtp",
+
+    async send(options: SendEmailOptions) {
+      assertSendable(config, options);
+
+      let url: URL;
+      try {
+        url = new URL(config.smtpUrl || DEFAULT_SMTP_URL);
+      } catch {
+        throw new EmailProviderError(`Email service not configured: invalid SMTP URL "${config.smtpUrl}"`, false);
+      }
+      const messageId = createMessageId(config.fromEmail);
+      // Dot-stuffing: a line starting with "." must be sent as ".." inside DATA
+      const data = buildMimeMessage(config, options, messageId).replace(/\r\n\./g, "\r\n..");
+
+      const socket = net.createConnection({ host: url.hostname || "localhost", port: Number(url.port) || 25 });
+      const session = new SmtpSession(socket);
+      try {
+        await session.expect([220], "greeting");
+        await session.command("EHLO meant2grow.local", [250]);
+        if (url.username) {
+          const credentials = Buffer.from(
+            `\0${decodeURIComponent(url.username)}\0${decodeURIComponent(url.password)}`
+          ).toString("base64");
+          await session.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+        await session.command(`MAIL FROM:<${config.fromEmail}>`, [250]);
+        for (const r of options.to) {
+          await session.command(`RCPT TO:<${r.email}>`, [250, 251]);
+        }
+        await session.command("DATA", [354]);
+        await session.command(`${data}\r\n.`, [250], "message");
+        await session.command("QUIT", [221]).catch(() => undefined);
+      } finally {
+        session.close();
+      }
+
+      console.log(`✅ [SMTP] Email sent via ${url.host}: ${options.subject} to ${options.to.map((t) => t.email).join(", ")}`);
+      return { success: true, messageId };
+    },
+  };
+}
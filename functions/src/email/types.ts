@@ -1,6 +1,6 @@
 /**
  * Shared types for email provider abstraction.
- * Switch providers via EMAIL_PROVIDER env (resend | mailersend).
+ * Switch providers via EMAIL_PROVIDER env (resend | mailersend | smtp | file | memory).
  */
 
 export interface SendEmailOptions {
@@ -9,6 +9,7 @@ export interface SendEmailOptions {
   html: string;
   text: string;
   category?: string;
+  organizationId?: string; // Scopes the emailLog entry so org admins can see it
 }
 
 export interface EmailProviderConfig {
@@ -16,6 +17,10 @@ export interface EmailProviderConfig {
   fromEmail: string;
   replyToEmail: string;
   appUrl: string;
+  /** smtp provider: smtp://[user:pass@]host:port of a local catcher */
+  smtpUrl?: string;
+  /** file provider: directory the .eml/.html files are written to */
+  outputDir?: string;
 }
 
 export interface EmailProvider {
@@ -23,4 +28,7 @@ export interface EmailProvider {
   send(options: SendEmailOptions): Promise<{ success: boolean; messageId?: string }>;
 }
 
-export type EmailProviderName = "resend" | "mailersend";
+export type EmailProviderName = "resend" | "mailersend" | "smtp" | "file" | "memory";
+
+/** Providers that deliver locally and need no API token (development, emulator, tests). */
+export const LOCAL_EMAIL_PROVIDERS: EmailProviderName[] = ["smtp", "file", "memory"];
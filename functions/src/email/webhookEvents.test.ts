@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { parseMailerSendEvent, parseResendEvent } from "./webhookEvents";
+
+const resendBounce = (type?: string) => ({
+  type: "email.bounced",
+  data: {
+    email_id: "msg-1",
+    to: ["Sam@Example.com"],
+    ...(type && { bounce: { type, subType: "General", message: "Mailbox unavailable" } }),
+  },
+});
+
+describe("parseResendEvent", () => {
+  it("suppresses the address only for permanent bounces", () => {
+    expect(parseResendEvent(resendBounce("Permanent"))).toEqual([
+      { provider: "resend", messageId: "msg-1", email: "sam@example.com", kind: "bounced", suppress: true },
+    ]);
+  });
+
+  it("records transient bounces as delays", () => {
+    expect(parseResendEvent(resendBounce("Transient"))).toEqual([
+      expect.objectContaining({ kind: "delayed", suppress: false }),
+    ]);
+  });
+
+  it("keeps undetermined or untyped bounces without suppressing", () => {
+    expect(parseResendEvent(resendBounce("Undetermined"))).toEqual([
+      expect.objectContaining({ kind: "bounced", suppress: false }),
+    ]);
+    expect(parseResendEvent(resendBounce())).toEqual([expect.objectContaining({ kind: "bounced", suppress: false })]);
+  });
+
+  it("suppresses spam complaints and returns one event per recipient", () => {
+    const events = parseResendEvent({ type: "email.complained", data: { email_id: "msg-2", to: ["a@example.com", "b@example.com"] } });
+    expect(events.map((event) => [event.email, event.kind, event.suppress])).toEqual([
+      ["a@example.com", "complained", true],
+      ["b@example.com", "complained", true],
+    ]);
+  });
+
+  it("ignores events it does not track", () => {
+    expect(parseResendEvent({ type: "email.opened", data: { email_id: "msg-3", to: "a@example.com" } })).toEqual([]);
+    expect(parseResendEvent(null)).toEqual([]);
+  });
+});
+
+describe("parseMailerSendEvent", () => {
+  const activity = (type: string) => ({
+    type,
+    data: { email: { message: { id: "msg-4" }, recipient: { email: "Sam@Example.com" } } },
+  });
+
+  it("suppresses hard bounces but not soft ones", () => {
+    expect(parseMailerSendEvent(activity("activity.hard_bounced"))).toEqual([
+      { provider: "mailersend", messageId: "msg-4", email: "sam@example.com", kind: "bounced", suppress: true },
+    ]);
+    expect(parseMailerSendEvent(activity("activity.soft_bounced"))).toEqual([
+      expect.objectContaining({ kind: "delayed", suppress: false }),
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import * as crypto from "crypto";
+import { normalizeEmail } from "./deliveryLog";
+import { EmailProviderName } from "./types";
+
+/**
+ * Signature checks and event parsing for provider delivery webhooks (see emailWebhooks.ts).
+ * Both providers sign the raw request body, so callers must pass req.rawBody, not re-serialized JSON.
+ */
+
+export type DeliveryEventKind = "delivered" | "delayed" | "bounced" | "complained";
+
+export interface DeliveryEvent {
+  provider: EmailProviderName;
+  messageId: string;
+  email: string; // Lowercased
+  kind: DeliveryEventKind;
+  /** Hard bounces and complaints; soft bounces and delays may still succeed later. */
+  suppress: boolean;
+}
+
+/** Resend signs with Svix: secret is "whsec_<base64>", signature header is "v1,<base64> v1,<base64>". */
+const SVIX_TOLERANCE_SECONDS = 5 * 60;
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+export function verifyResendSignature(
+  rawBody: Buffer | string,
+  headers: { id?: string; timestamp?: string; signature?: string },
+  secret: string,
+  now = new Date()
+): boolean {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature || !secret) return false;
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now.getTime() / 1000 - sentAt) > SVIX_TOLERANCE_SECONDS) return false;
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = crypto
+    .createHmac("sha256", key)
+    .update(`${id}.${timestamp}.${rawBody.toString()}`)
+    .digest("base64");
+  return signature
+    .split(" ")
+    .map((entry) => entry.split(",")[1] || "")
+    .some((candidate) => safeEqual(candidate, expected));
+}
+
+/** MailerSend sends a hex HMAC-SHA256 of the body in the `Signature` header. */
+export function verifyMailerSendSignature(rawBody: Buffer | string, signature: string | undefined, secret: string): boolean {
+  if (!signature || !secret) return false;
+  const expected = crypto.createHmac("sha256", secret).update(rawBody.toString()).digest("hex");
+  return safeEqual(signature, expected);
+}
+
+const RESEND_EVENT_KINDS: Record<string, DeliveryEventKind> = {
+  "email.delivered": "delivered",
+  "email.delivery_delayed": "delayed",
+  "email.bounced": "bounced",
+  "email.complained": "complained",
+};
+
+const MAILERSEND_EVENT_KINDS: Record<string, DeliveryEventKind> = {
+  "activity.delivered": "delivered",
+  "activity.soft_bounced": "delayed",
+  "activity.hard_bounced": "bounced",
+  "activity.spam_complaint": "complained",
+};
+
+/**
+ * One event per recipient; unknown event types (opens, clicks, ...) return []. Resend reports
+ * every bounce as email.bounced with data.bounce.type "Permanent", "Transient" or "Undetermined":
+ * only permanent bounces suppress the address, and transient ones count as delays like
+ * MailerSend's soft bounces.
+ */
+export function parseResendEvent(payload: unknown): DeliveryEvent[] {
+  const body = payload as {
+    type?: string;
+    data?: { email_id?: string; to?: string[] | string; bounce?: { type?: string } };
+  } | null;
+  const bounceType = body?.data?.bounce?.type;
+  let kind = RESEND_EVENT_KINDS[body?.type || ""];
+  if (kind === "bounced" && bounceType === "Transient") kind = "delayed";
+  const messageId = body?.data?.email_id;
+  if (!kind || !messageId) return [];
+  const to = body?.data?.to;
+  const recipients = Array.isArray(to) ? to : to ? [to] : [];
+  return recipients.map((email) => ({
+    provider: "resend",
+    messageId,
+    email: normalizeEmail(email),
+    kind,
+    suppress: (kind === "bounced" && bounceType === "Permanent") || kind === "complained",
+  }));
+}
+
+export function parseMailerSendEvent(payload: unknown): DeliveryEvent[] {
+  const body = payload as {
+    type?: string;
+    data?: { email?: { message?: { id?: string }; recipient?: { email?: string } } };
+  } | null;
+  const kind = MAILERSEND_EVENT_KINDS[body?.type || ""];
+  const messageId = body?.data?.email?.message?.id;
+  const email = body?.data?.email?.recipient?.email;
+  if (!kind || !messageId || !email) return [];
+  return [
+    {
+      provider: "mailersend",
+      messageId,
+      email: normalizeEmail(email),
+      kind,
+      suppress: kind === "bounced" || kind === "complained",
+    },
+  ];
+}
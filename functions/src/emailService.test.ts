@@ -0,0 +1,207 @@
+// @vitest-environment node
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createEmailService, EmailServiceConfig } from "./emailService";
+import { clearMemoryOutbox, getMemoryOutbox } from "./email/providers/memoryProvider";
+import type { EmailDeliveryLog, EmailLogResult, EmailLogStart } from "./email/deliveryLog";
+import { Match, MatchStatus, Organization, Role, User } from "./types";
+
+// Plan checks come from entitlements.ts, which also holds the usage triggers
+vi.mock("firebase-admin", () => ({ firestore: () => ({}) }));
+
+const baseConfig: EmailServiceConfig = {
+  provider: "memory",
+  apiToken: "",
+  fromEmail: "noreply@example.com",
+  replyToEmail: "support@example.com",
+  appUrl: "https://app.example.com",
+  retryDelaysMs: [0],
+};
+
+const organization = {
+  id: "org-1",
+  name: "Acme",
+  organizationCode: "ACM123",
+  logo: null,
+  accentColor: "#123abc",
+  programSettings: { programName: "Acme Grow", logo: null, accentColor: "#123abc", introText: "", fields: [] },
+  subscriptionTier: "professional",
+  createdAt: "2026-01-01T00:00:00.000Z",
+} as Organization;
+
+const user = (overrides: Partial<User>): User =>
+  ({
+    organizationId: "org-1",
+    avatar: "",
+    title: "",
+    company: "",
+    skills: [],
+    bio: "",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  }) as User;
+
+const admin = user({ id: "admin-1", name: "Dana Admin", email: "dana@example.com", role: Role.ADMIN });
+const mentor = user({
+  id: "mentor-1",
+  name: "Alex Morgan",
+  email: "alex@example.com",
+  role: Role.MENTOR,
+  title: "Engineering Manager",
+  company: "Acme",
+  skills: ["Leadership", "TypeScript"],
+});
+const mentee = user({
+  id: "mentee-1",
+  name: "Jordan Lee",
+  email: "jordan@example.com",
+  role: Role.MENTEE,
+  title: "Engineer",
+  company: "Acme",
+  goals: ["Lead a project"],
+});
+const match = {
+  id: "match-1",
+  organizationId: "org-1",
+  mentorId: mentor.id,
+  menteeId: mentee.id,
+  status: MatchStatus.ACTIVE,
+  startDate: "2026-03-01",
+} as Match;
+
+describe("emailService", () => {
+  afterEach(() => clearMemoryOutbox());
+
+  it("renders the admin welcome with the organization code and app link", async () => {
+    await createEmailService(baseConfig).sendWelcomeAdmin(admin, organization);
+
+    const [email] = getMemoryOutbox();
+    expect(email.to).toEqual([{ email: "dana@example.com", name: "Dana Admin" }]);
+    expect(email.subject).toBe("Welcome to Meant2Grow, Dana Admin!");
+    expect(email.category).toBe("Welcome");
+    expect(email.html).toContain("ACM123");
+    expect(email.text).toContain("Get started: https://app.example.com");
+  });
+
+  it("introduces each side of a new match to the other", async () => {
+    const service = createEmailService(baseConfig);
+    await service.sendMatchCreated(mentor, match, mentor, mentee);
+    await service.sendMatchCreated(mentee, match, mentor, mentee);
+
+    const [toMentor, toMentee] = getMemoryOutbox();
+    expect(toMentor.subject).toBe("New Mentorship Match: Jordan Lee");
+    expect(toMentor.html).toContain("Lead a project");
+    expect(toMentee.subject).toBe("New Mentorship Match: Alex Morgan");
+    expect(toMentee.html).toContain("Leadership, TypeScript");
+    expect(toMentor.text).toContain("Start Conversation: https://app.example.com/chat/mentee-1");
+    expect(toMentee.html).toContain('href="https://app.example.com/chat/mentor-1"');
+  });
+
+  it("links goal and meeting emails to the goal or event itself", async () => {
+    const service = createEmailService(baseConfig);
+    await service.sendGoalCompleted(mentee, {
+      id: "goal-1",
+      userId: mentee.id,
+      organizationId: "org-1",
+      title: "Lead a project",
+      description: "",
+      progress: 100,
+      status: "Completed",
+      dueDate: "2026-04-01",
+    });
+    await service.sendMeetingReminder(
+      mentee,
+      { id: "event-1", title: "Weekly sync", date: "2026-04-01", startTime: "10:00", duration: "1h" },
+      24
+    );
+
+    const [goalEmail, reminder] = getMemoryOutbox();
+    expect(goalEmail.text).toContain("View Goal: https://app.example.com/my-goals/goal-1");
+    expect(reminder.html).toContain('href="https://app.example.com/calendar/event-1"');
+  });
+
+  it("sends invitations with the link and personal note", async () => {
+    await createEmailService(baseConfig).sendInvitation(
+      "https://app.example.com/invite/abc",
+      "sam@example.com",
+      "Sam",
+      "Acme",
+      Role.MENTEE,
+      "Dana Admin",
+      "Looking forward to it!"
+    );
+
+    const [email] = getMemoryOutbox();
+    expect(email.subject).toBe("You're Invited to Join Acme's Mentorship Program");
+    expect(email.html).toContain('href="https://app.example.com/invite/abc"');
+    expect(email.text).toContain("Looking forward to it!");
+  });
+
+  it("reminds invitees of the expiry date", async () => {
+    await createEmailService(baseConfig).sendInvitationReminder(
+      "https://app.example.com/invite/abc",
+      "sam@example.com",
+      "Sam",
+      "Acme",
+      Role.MENTOR,
+      new Date("2026-03-12T00:00:00.000Z")
+    );
+
+    const [email] = getMemoryOutbox();
+    expect(email.subject).toBe("Reminder: Your Invitation to Acme Expires Soon");
+    expect(email.text).toContain("as a Mentor. Your invitation link expires on March 12, 2026.");
+    expect(email.html).toContain('href="https://app.example.com/invite/abc"');
+  });
+
+  it("uses the organization's invitation template when one is saved", async () => {
+    const branded = {
+      ...organization,
+      emailTemplates: { invitation: { subject: "Join {{programName}}, {{name}}" } },
+    };
+    const service = createEmailService({ ...baseConfig, getOrganization: async () => branded });
+    await service.sendInvitation("https://app.example.com/invite/abc", "sam@example.com", "Sam", "Acme", Role.MENTOR, "Dana", undefined, "org-1");
+
+    const [email] = getMemoryOutbox();
+    expect(email.subject).toBe("Join Acme Grow, Sam");
+    expect(email.html).toContain("background: #123abc");
+  });
+
+  it("skips suppressed recipients and records the outcome", async () => {
+    const started: EmailLogStart[] = [];
+    const finished: EmailLogResult[] = [];
+    const deliveryLog: EmailDeliveryLog = {
+      getSuppressedRecipients: async () => new Set(["jordan@example.com"]),
+      start: async (entry) => {
+        started.push(entry);
+        return "log-1";
+      },
+      finish: async (_id, result) => {
+        finished.push(result);
+      },
+    };
+
+    await createEmailService({ ...baseConfig, deliveryLog }).sendMatchCreated(mentee, match, mentor, mentee);
+
+    expect(getMemoryOutbox()).toHaveLength(0);
+    expect(started[0]).toMatchObject({ organizationId: "org-1", suppressed: ["jordan@example.com"] });
+    expect(finished).toEqual([{ status: "suppressed", attempts: [] }]);
+  });
+
+  it("writes .eml and .html copies with the file provider", async () => {
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "m2g-email-test-"));
+    try {
+      await createEmailService({ ...baseConfig, provider: "file", outputDir }).sendWelcomeAdmin(admin, organization);
+
+      const files = fs.readdirSync(outputDir).sort();
+      expect(files.map((file) => path.extname(file))).toEqual([".eml", ".html"]);
+      const eml = fs.readFileSync(path.join(outputDir, files[0]), "utf8");
+      expect(eml).toContain("Subject: Welcome to Meant2Grow, Dana Admin!");
+      expect(eml).toContain("To: Dana Admin <dana@example.com>");
+      expect(eml).toContain("Content-Type: multipart/alternative");
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,22 @@
-import { User, Organization, Role, Match, Goal } from "./types";
+import { User, Organization, Role, Match, Goal, EmailDigestFrequency, EmailTemplateKey, EmailTemplateOverride } from "./types";
 import { createEmailProvider } from "./email/providerFactory";
-import type { EmailProviderConfig, EmailProviderName } from "./email/types";
+import { getEntitlements } from "./entitlements";
+import type { EmailProvider, EmailProviderConfig, EmailProviderName, SendEmailOptions } from "./email/types";
+import { EmailProviderError } from "./email/errors";
+import { EmailAttempt, EmailDeliveryLog, normalizeEmail } from "./email/deliveryLog";
+import { getEventStart, isValidTimeZone } from "./utils/timeZones";
+import { calendarEventPath, chatPath, goalPath } from "./utils/routes";
+import type { MatchTransition } from "./utils/matchLifecycle";
+import type { DigestContent } from "./utils/digest";
+import {
+  renderBrandedEmail,
+  RenderedEmail,
+  SAMPLE_TEMPLATE_VALUES,
+  validateTemplateOverride,
+} from "./utils/emailTemplates";
+
+/** Lifecycle emails other than activation, which reuses the matchCreated introduction. */
+export type MatchUpdateTransition = Exclude<MatchTransition, "accepted">;
 
 /** Re-export for consumers */
 export type { EmailProviderConfig } from "./email/types";
@@ -10,8 +26,35 @@ export interface EmailServiceConfig extends EmailProviderConfig {
   provider?: EmailProviderName;
   /** When primary provider is Resend, optional MailerSend token for automatic fallback on failure */
   backupMailersendApiToken?: string;
+  /** Records every send and skips suppressed recipients; omitted = no logging */
+  deliveryLog?: EmailDeliveryLog;
+  /** Wait before each attempt; the number of entries is the number of attempts */
+  retryDelaysMs?: number[];
+  /** Loads an org for its emailTemplates overrides; omitted = built-in templates only */
+  getOrganization?: (organizationId: string) => Promise<Organization | null>;
 }
 
+/** Attempt schedule: primary now, then the backup (or primary again) after 1s, then primary after 5s. */
+const DEFAULT_RETRY_DELAYS_MS = [0, 1000, 5000];
+
+/** Categories sent even to suppressed addresses: the user asked for them and can't get in otherwise. */
+const UNSUPPRESSIBLE_CATEGORIES = ["Password Reset"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type MeetingReminderEvent = { id: string; title: string; date: string; startTime: string; timeZone?: string; startsAt?: string; duration: string; googleMeetLink?: string; participants?: string[] };
+
+const describeMeetingTime = (user: User, event: MeetingReminderEvent, hoursUntil: number) => {
+  // Render on the recipient's wall clock; fall back to the zone the event was scheduled in
+  const timeZone = [user.timezone, event.timeZone, 'UTC'].find((tz): tz is string => !!tz && isValidTimeZone(tz));
+  const eventDate = getEventStart(event, timeZone);
+  return {
+    formattedDate: eventDate.toLocaleDateString('en-US', { timeZone, weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+    formattedTime: eventDate.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }),
+    timeUntil: hoursUntil === 24 ? '24 hours' : hoursUntil === 1 ? '1 hour' : `${hoursUntil} hours`,
+  };
+};
+
 // Email Templates factory - creates templates with appUrl baked in
 const createTemplates = (appUrl: string) => ({
   welcomeAdmin: (user: User, organization: Organization) => ({
@@ -231,7 +274,7 @@ If this wasn't you, please contact support immediately.
                    </p>`
               }
               <div style="margin: 30px 0;">
-                <a href="${appUrl}/chat" 
+                <a href="${appUrl}${chatPath(otherUser.id)}" 
                    style="display: inline-block; background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
                   Start Conversation
                 </a>
@@ -263,13 +306,202 @@ ${bioSnippet ? `"${bioSnippet}"` : ''}
 ${mentor.name} is ready to guide you on your professional journey. Don't hesitate to reach out and introduce yourself!`
 }
 
-Start Conversation: ${appUrl}/chat
+Start Conversation: ${appUrl}${chatPath(otherUser.id)}
 
 Remember: Great mentorship relationships start with open communication and mutual respect.
       `.trim(),
     };
   },
 
+  matchUpdate: (user: User, transition: MatchUpdateTransition, match: Match, mentor: User, mentee: User) => {
+    const isMentor = user.id === match.mentorId;
+    const otherUser = isMentor ? mentee : mentor;
+    const actorId = { declined: match.declinedBy, paused: match.pausedBy, closed: match.closedBy }[
+      transition as "declined" | "paused" | "closed"
+    ];
+    const actor = [mentor, mentee].find((participant) => participant.id === actorId);
+    const actorName = !actor ? "Your program admin" : actor.id === user.id ? "You" : actor.name;
+    const copy = {
+      proposed: {
+        heading: "🤝 Match Proposed",
+        subject: `Proposed Mentorship Match: ${otherUser.name}`,
+        message: `Your program has proposed a mentorship match with <strong>${otherUser.name}</strong>${match.durationWeeks ? ` for ${match.durationWeeks} weeks` : ""}. Please accept or decline it from your dashboard.`,
+        cta: "Review Proposal",
+      },
+      declined: {
+        heading: "Match Declined",
+        subject: `Mentorship Match with ${otherUser.name} Declined`,
+        message: `${actorName} declined the proposed match between ${mentor.name} and ${mentee.name}. Your program admin will follow up with a new match.`,
+        cta: "Go to Dashboard",
+      },
+      paused: {
+        heading: "⏸️ Match Paused",
+        subject: `Mentorship with ${otherUser.name} Paused`,
+        message: `${actorName} paused the mentorship between ${mentor.name} and ${mentee.name}. Either of you can resume it from your dashboard.`,
+        cta: "Go to Dashboard",
+      },
+      resumed: {
+        heading: "▶️ Match Resumed",
+        subject: `Mentorship with ${otherUser.name} Resumed`,
+        message: `Your mentorship with <strong>${otherUser.name}</strong> is active again${match.endDate ? ` and now runs until ${match.endDate}` : ""}.`,
+        cta: "Go to Dashboard",
+      },
+      endingSoon: {
+        heading: "⏳ Match Ending Soon",
+        subject: `Your Mentorship with ${otherUser.name} Ends Soon`,
+        message: `Your mentorship with <strong>${otherUser.name}</strong> is scheduled to end on ${match.endDate}. Use your remaining sessions to review progress and agree on next steps.`,
+        cta: "Go to Dashboard",
+      },
+      closed: {
+        heading: "🏁 Mentorship Complete",
+        subject: `Your Mentorship with ${otherUser.name} Has Ended`,
+        message: `${actorName} closed the mentorship between ${mentor.name} and ${mentee.name}. Please take a minute to share an outcome summary and rate your experience.`,
+        cta: "Share Feedback",
+      },
+    }[transition];
+    const reason =
+      transition === "declined"
+        ? (match.declinedBy === match.mentorId ? match.mentorResponse : match.menteeResponse)?.reason
+        : transition === "paused"
+          ? match.pauseReason
+          : transition === "closed"
+            ? match.closureReason
+            : undefined;
+
+    return {
+      subject: copy.subject,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>${copy.subject}</title>
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+              <h1 style="color: white; margin: 0;">${copy.heading}</h1>
+            </div>
+            <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+              <p style="font-size: 16px; margin-bottom: 20px;">Hi ${user.name},</p>
+              <p style="font-size: 16px; margin-bottom: 20px;">${copy.message}</p>
+              ${reason
+                ? `<div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #10b981;">
+                     <p style="font-size: 14px; margin: 0; color: #374151;"><strong>Reason:</strong> ${reason}</p>
+                   </div>`
+                : ''}
+              <div style="margin: 30px 0;">
+                <a href="${appUrl}/dashboard" 
+                   style="display: inline-block; background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                  ${copy.cta}
+                </a>
+              </div>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+${copy.subject}
+
+Hi ${user.name},
+
+${copy.message.replace(/<\/?strong>/g, "")}
+${reason ? `\nReason: ${reason}\n` : ''}
+${copy.cta}: ${appUrl}/dashboard
+      `.trim(),
+    };
+  },
+
+  digest: (user: User, frequency: Exclude<EmailDigestFrequency, "immediate">, content: DigestContent) => {
+    const timeZone = [user.timezone, 'UTC'].find((tz): tz is string => !!tz && isValidTimeZone(tz));
+    const formatWhen = (startsAt: string) =>
+      new Date(startsAt).toLocaleString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+    const period = frequency === 'daily' ? 'Daily' : 'Weekly';
+    const sections = [
+      {
+        heading: 'Upcoming sessions',
+        items: content.upcomingEvents.map((event) => ({
+          html: `<strong>${event.title}</strong> · ${formatWhen(event.startsAt)}${event.googleMeetLink ? ` · <a href="${event.googleMeetLink}" style="color: #10b981;">Join</a>` : ''}`,
+          text: `${event.title} - ${formatWhen(event.startsAt)}${event.googleMeetLink ? ` (${event.googleMeetLink})` : ''}`,
+        })),
+      },
+      {
+        heading: 'Unread messages',
+        items: content.unreadMessages.map((sender) => ({
+          html: `<strong>${sender.senderName}</strong> sent you ${sender.count} message${sender.count === 1 ? '' : 's'}`,
+          text: `${sender.senderName} sent you ${sender.count} message${sender.count === 1 ? '' : 's'}`,
+        })),
+      },
+      {
+        heading: 'Goal updates',
+        items: content.goalChanges.map((goal) => ({
+          html: `<strong>${goal.title}</strong> (${goal.ownerName}) · ${goal.status}, ${goal.progress}%`,
+          text: `${goal.title} (${goal.ownerName}) - ${goal.status}, ${goal.progress}%`,
+        })),
+      },
+      {
+        heading: 'Notifications',
+        items: content.notifications.map((notification) => ({
+          html: `<strong>${notification.title}</strong><br><span style="color: #6b7280;">${notification.body}</span>`,
+          text: `${notification.title}: ${notification.body}`,
+        })),
+      },
+    ].filter((section) => section.items.length > 0);
+
+    return {
+      subject: `Your ${period} Meant2Grow Digest`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Your ${period} Digest</title>
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+              <h1 style="color: white; margin: 0;">Your ${period} Digest</h1>
+            </div>
+            <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+              <p style="font-size: 16px; margin-bottom: 20px;">Hi ${user.name},</p>
+              <p style="font-size: 16px; margin-bottom: 20px;">Here's what happened in your mentorship program ${frequency === 'daily' ? 'since yesterday' : 'this past week'}.</p>
+              ${sections
+                .map(
+                  (section) => `
+              <h2 style="font-size: 18px; color: #1f2937; margin: 24px 0 8px 0;">${section.heading}</h2>
+              <ul style="padding-left: 20px; margin: 0;">
+                ${section.items.map((item) => `<li style="font-size: 14px; margin-bottom: 8px; color: #374151;">${item.html}</li>`).join('')}
+              </ul>`
+                )
+                .join('')}
+              <div style="margin: 30px 0;">
+                <a href="${appUrl}/dashboard" 
+                   style="display: inline-block; background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                  Open Meant2Grow
+                </a>
+              </div>
+              <p style="font-size: 14px; color: #6b7280; margin-top: 30px;">
+                You get this digest instead of individual emails. Change it under <a href="${appUrl}/settings/notifications" style="color: #10b981;">Settings → Alerts</a>.
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `
+Your ${period} Meant2Grow Digest
+
+Hi ${user.name},
+
+Here's what happened in your mentorship program ${frequency === 'daily' ? 'since yesterday' : 'this past week'}.
+${sections.map((section) => `\n${section.heading}\n${section.items.map((item) => `- ${item.text}`).join('\n')}`).join('\n')}
+
+Open Meant2Grow: ${appUrl}/dashboard
+
+You get this digest instead of individual emails. Change it under Settings > Alerts: ${appUrl}/settings/notifications
+      `.trim(),
+    };
+  },
+
   goalCompleted: (user: User, goal: Goal) => ({
     subject: `🎉 Goal Completed: ${goal.title}`,
     html: `
@@ -298,9 +530,9 @@ Remember: Great mentorship relationships start with open communication and mutua
               Keep up the excellent work!
             </p>
             <div style="margin: 30px 0;">
-              <a href="${appUrl}/goals" 
+              <a href="${appUrl}${goalPath(goal.id)}" 
                  style="display: inline-block; background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
-                View Your Goals
+                View Goal
               </a>
             </div>
             <p style="font-size: 14px; color: #6b7280; margin-top: 30px;">
@@ -322,7 +554,7 @@ ${goal.description}
 
 This is a significant milestone in your professional development journey. Keep up the excellent work!
 
-View Your Goals: ${appUrl}/goals
+View Goal: ${appUrl}${goalPath(goal.id)}
 
 Ready for your next challenge? Set a new goal and keep growing!
     `.trim(),
@@ -378,11 +610,8 @@ Questions about pricing? Reply to this email and we'll be happy to help.
     `.trim(),
   }),
 
-  meetingReminder: (user: User, event: { title: string; date: string; startTime: string; duration: string; googleMeetLink?: string; participants?: string[] }, hoursUntil: number) => {
-    const eventDate = new Date(`${event.date}T${event.startTime}`);
-    const formattedDate = eventDate.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
-    const formattedTime = eventDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-    const timeUntil = hoursUntil === 24 ? '24 hours' : hoursUntil === 1 ? '1 hour' : `${hoursUntil} hours`;
+  meetingReminder: (user: User, event: MeetingReminderEvent, hoursUntil: number) => {
+    const { formattedDate, formattedTime, timeUntil } = describeMeetingTime(user, event, hoursUntil);
     
     return {
       subject: `Meeting Reminder: ${event.title} in ${timeUntil}`,
@@ -421,9 +650,9 @@ Questions about pricing? Reply to this email and we'll be happy to help.
                 This meeting starts in ${timeUntil}. We'll send you another reminder 1 hour before the meeting.
               </p>
               <div style="margin: 30px 0;">
-                <a href="${appUrl}/calendar" 
+                <a href="${appUrl}${calendarEventPath(event.id)}" 
                    style="display: inline-block; background: #3b82f6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
-                  View Calendar
+                  View Meeting
                 </a>
               </div>
             </div>
@@ -445,7 +674,7 @@ ${event.googleMeetLink ? `Join: ${event.googleMeetLink}` : ''}
 
 This meeting starts in ${timeUntil}. We'll send you another reminder 1 hour before the meeting.
 
-View Calendar: ${appUrl}/calendar
+View Meeting: ${appUrl}${calendarEventPath(event.id)}
       `.trim(),
     };
   },
@@ -580,6 +809,57 @@ Accept Invitation: ${invitationLink}
 Questions? Reply to this email and we'll be happy to help.
     `.trim(),
   }),
+
+  invitationReminder: (invitationLink: string, recipientName: string, organizationName: string, role: Role, expiresAt: Date) => {
+    const roleLabel = role === Role.MENTOR ? 'Mentor' : 'Mentee';
+    const expiryDate = expiresAt.toLocaleDateString('en-US', { timeZone: 'UTC', year: 'numeric', month: 'long', day: 'numeric' });
+    return {
+      subject: `Reminder: Your Invitation to ${organizationName} Expires Soon`,
+      html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your invitation expires soon</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+            <h1 style="color: white; margin: 0;">Your Invitation Expires Soon</h1>
+          </div>
+          <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+            <p style="font-size: 16px; margin-bottom: 20px;">Hi ${recipientName},</p>
+            <p style="font-size: 16px; margin-bottom: 20px;">
+              You're still invited to join <strong>${organizationName}</strong>'s mentorship program as a <strong>${roleLabel}</strong>.
+              Your invitation link expires on <strong>${expiryDate}</strong>.
+            </p>
+            <div style="margin: 30px 0;">
+              <a href="${invitationLink}" 
+                 style="display: inline-block; background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                Accept Invitation
+              </a>
+            </div>
+            <p style="font-size: 14px; color: #6b7280; margin-top: 30px;">
+              If the button doesn't work, copy and paste this link into your browser:
+            </p>
+            <p style="font-size: 12px; color: #6b7280; word-break: break-all; background: #f3f4f6; padding: 10px; border-radius: 4px;">
+              ${invitationLink}
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+      text: `
+Your Invitation to ${organizationName} Expires Soon
+
+Hi ${recipientName},
+
+You're still invited to join ${organizationName}'s mentorship program as a ${roleLabel}. Your invitation link expires on ${expiryDate}.
+
+Accept Invitation: ${invitationLink}
+    `.trim(),
+    };
+  },
 });
 
 // Factory function to create email service with configuration
@@ -590,6 +870,8 @@ export const createEmailService = (config: EmailServiceConfig) => {
     fromEmail: config.fromEmail,
     replyToEmail: config.replyToEmail,
     appUrl: config.appUrl,
+    smtpUrl: config.smtpUrl,
+    outputDir: config.outputDir,
   });
   const backupToken = (config.backupMailersendApiToken || "").trim();
   const backup =
@@ -602,45 +884,164 @@ export const createEmailService = (config: EmailServiceConfig) => {
         })
       : null;
 
-  const sendEmail = async (options: {
-    to: { email: string; name?: string }[];
-    subject: string;
-    html: string;
-    text: string;
-    category?: string;
-  }) => {
+  const retryDelaysMs = config.retryDelaysMs || DEFAULT_RETRY_DELAYS_MS;
+  const attemptPlan = retryDelaysMs.map((_, attempt) => (attempt === 1 && backup ? backup : primary));
+
+  // Swallows log failures: a broken emailLog write must never stop the email itself
+  const logSafely = async <T>(write: () => Promise<T>): Promise<T | null> => {
     try {
-      await primary.send(options);
-    } catch (primaryErr) {
-      if (backup) {
+      return await write();
+    } catch (error) {
+      console.error("⚠️ Failed to write emailLog entry:", error);
+      return null;
+    }
+  };
+
+  const sendEmail = async (options: SendEmailOptions) => {
+    const deliveryLog = config.deliveryLog;
+    const suppressed =
+      deliveryLog && !UNSUPPRESSIBLE_CATEGORIES.includes(options.category || "")
+        ? ((await logSafely(() => deliveryLog.getSuppressedRecipients(options.to.map((r) => r.email)))) ?? new Set<string>())
+        : new Set<string>();
+    const to = options.to.filter((recipient) => !suppressed.has(normalizeEmail(recipient.email)));
+    const logId = deliveryLog
+      ? await logSafely(() =>
+          deliveryLog.start({
+            organizationId: options.organizationId || null,
+            to: options.to,
+            suppressed: Array.from(suppressed),
+            subject: options.subject,
+            category: options.category || null,
+          })
+        )
+      : null;
+    const finishLog = (result: Parameters<EmailDeliveryLog["finish"]>[1]) =>
+      deliveryLog && logId ? logSafely(() => deliveryLog.finish(logId, result)) : Promise.resolve(null);
+
+    if (to.length === 0) {
+      console.warn(`⚠️ Skipped "${options.subject}": every recipient bounced or complained before`);
+      await finishLog({ status: "suppressed", attempts: [] });
+      return;
+    }
+
+    const attempts: EmailAttempt[] = [];
+    const givenUp = new Set<EmailProvider>();
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < attemptPlan.length; attempt++) {
+      const provider = attemptPlan[attempt];
+      if (givenUp.has(provider)) continue;
+      if (retryDelaysMs[attempt] > 0) await sleep(retryDelaysMs[attempt]);
+      try {
+        const result = await provider.send({ ...options, to });
+        attempts.push({ provider: provider.name, at: new Date().toISOString(), success: true, messageId: result.messageId });
+        await finishLog({ status: "sent", attempts, provider: provider.name, messageId: result.messageId });
+        return;
+      } catch (error) {
+        lastError = error;
+        const retryable = !(error instanceof EmailProviderError) || error.retryable;
+        attempts.push({
+          provider: provider.name,
+          at: new Date().toISOString(),
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          ...(error instanceof EmailProviderError && error.statusCode !== undefined && { statusCode: error.statusCode }),
+        });
+        if (!retryable) givenUp.add(provider);
         console.warn(
-          `⚠️ Primary email provider (${primary.name}) failed; retrying via MailerSend backup`,
-          primaryErr
+          `⚠️ Email attempt ${attempt + 1} via ${provider.name} failed${retryable ? "" : " (not retrying this provider)"}`,
+          error
         );
-        await backup.send(options);
-      } else {
-        throw primaryErr;
       }
     }
+
+    await finishLog({
+      status: "failed",
+      attempts,
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+    });
+    throw lastError;
   };
 
   const templates = createTemplates(config.appUrl);
 
+  const renderOverride = (
+    organization: Organization,
+    key: EmailTemplateKey,
+    override: EmailTemplateOverride,
+    values: Record<string, string>,
+    actionUrl: string
+  ): RenderedEmail =>
+    renderBrandedEmail(
+      key,
+      override,
+      {
+        organizationName: organization.name,
+        programName: organization.programSettings?.programName,
+        logo: organization.logo || organization.programSettings?.logo,
+        accentColor: organization.accentColor || organization.programSettings?.accentColor,
+      },
+      values,
+      actionUrl
+    );
+
+  /**
+   * The org's version of an email, or null to use the built-in template (no override saved, the
+   * org can't be loaded, or the override fails validation - e.g. a placeholder we don't know).
+   */
+  const orgTemplate = async (
+    organizationOrId: Organization | string | undefined,
+    key: EmailTemplateKey,
+    values: Record<string, string>,
+    actionUrl: string
+  ): Promise<RenderedEmail | null> => {
+    let organization: Organization | null = null;
+    if (typeof organizationOrId === "string") {
+      if (!config.getOrganization) return null;
+      try {
+        organization = await config.getOrganization(organizationOrId);
+      } catch (error) {
+        console.error(`⚠️ Failed to load email templates for ${organizationOrId}; using defaults`, error);
+        return null;
+      }
+    } else {
+      organization = organizationOrId || null;
+    }
+    const override = organization?.emailTemplates?.[key];
+    if (!organization || !override) return null;
+    // Orgs that drop below a branding plan keep their saved wording but get the defaults
+    if (!getEntitlements(organization).features.customBranding) return null;
+
+    const errors = validateTemplateOverride(key, override);
+    if (errors.length > 0) {
+      console.warn(`⚠️ Ignoring invalid ${key} email template for ${organization.id}: ${errors.join("; ")}`);
+      return null;
+    }
+    return renderOverride(organization, key, override, values, actionUrl);
+  };
+
   return {
     sendWelcomeAdmin: async (user: User, organization: Organization) => {
       const template = templates.welcomeAdmin(user, organization);
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
         category: "Welcome",
       });
     },
 
     sendWelcomeParticipant: async (user: User, organization: Organization, role: Role) => {
-      const template = templates.welcomeParticipant(user, organization, role);
+      const template =
+        (await orgTemplate(
+          organization,
+          "welcome",
+          { name: user.name, role: role === Role.MENTOR ? "Mentor" : "Mentee" },
+          config.appUrl
+        )) || templates.welcomeParticipant(user, organization, role);
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
         category: "Welcome",
       });
     },
@@ -650,6 +1051,7 @@ export const createEmailService = (config: EmailServiceConfig) => {
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
         category: "Login",
       });
     },
@@ -660,10 +1062,38 @@ export const createEmailService = (config: EmailServiceConfig) => {
       mentor: User,
       mentee: User
     ) => {
-      const template = templates.matchCreated(user, match, mentor, mentee);
+      const partner = user.id === match.mentorId ? mentee : mentor;
+      const template =
+        (await orgTemplate(
+          user.organizationId,
+          "matchCreated",
+          {
+            name: user.name,
+            partnerName: partner.name,
+            partnerTitle: [partner.title, partner.company].filter(Boolean).join(" at "),
+          },
+          `${config.appUrl}${chatPath(partner.id)}`
+        )) || templates.matchCreated(user, match, mentor, mentee);
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
+        category: "Match",
+      });
+    },
+
+    sendMatchUpdate: async (
+      user: User,
+      transition: MatchUpdateTransition,
+      match: Match,
+      mentor: User,
+      mentee: User
+    ) => {
+      const template = templates.matchUpdate(user, transition, match, mentor, mentee);
+      await sendEmail({
+        to: [{ email: user.email, name: user.name }],
+        ...template,
+        organizationId: user.organizationId,
         category: "Match",
       });
     },
@@ -673,10 +1103,25 @@ export const createEmailService = (config: EmailServiceConfig) => {
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
         category: "Goal",
       });
     },
 
+    sendDigest: async (
+      user: User,
+      frequency: Exclude<EmailDigestFrequency, "immediate">,
+      content: DigestContent
+    ) => {
+      const template = templates.digest(user, frequency, content);
+      await sendEmail({
+        to: [{ email: user.email, name: user.name }],
+        ...template,
+        organizationId: user.organizationId,
+        category: "Digest",
+      });
+    },
+
     sendTrialEnding: async (
       user: User,
       organization: Organization,
@@ -686,6 +1131,7 @@ export const createEmailService = (config: EmailServiceConfig) => {
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
         category: "Billing",
       });
     },
@@ -701,13 +1147,28 @@ export const createEmailService = (config: EmailServiceConfig) => {
 
     sendMeetingReminder: async (
       user: User,
-      event: { title: string; date: string; startTime: string; duration: string; googleMeetLink?: string; participants?: string[] },
+      event: MeetingReminderEvent,
       hoursUntil: number
     ) => {
-      const template = templates.meetingReminder(user, event, hoursUntil);
+      const { formattedDate, formattedTime, timeUntil } = describeMeetingTime(user, event, hoursUntil);
+      const template =
+        (await orgTemplate(
+          user.organizationId,
+          "meetingReminder",
+          {
+            name: user.name,
+            meetingTitle: event.title,
+            meetingDate: formattedDate,
+            meetingTime: formattedTime,
+            timeUntil,
+            meetingLink: event.googleMeetLink || `${config.appUrl}${calendarEventPath(event.id)}`,
+          },
+          `${config.appUrl}${calendarEventPath(event.id)}`
+        )) || templates.meetingReminder(user, event, hoursUntil);
       await sendEmail({
         to: [{ email: user.email, name: user.name }],
         ...template,
+        organizationId: user.organizationId,
         category: "Meeting",
       });
     },
@@ -719,13 +1180,65 @@ export const createEmailService = (config: EmailServiceConfig) => {
       organizationName: string,
       role: Role,
       inviterName?: string,
-      personalNote?: string
+      personalNote?: string,
+      organizationId?: string
     ) => {
-      const template = templates.invitation(invitationLink, recipientName, organizationName, role, inviterName, personalNote);
+      const template =
+        (await orgTemplate(
+          organizationId,
+          "invitation",
+          {
+            name: recipientName,
+            role: role === Role.MENTOR ? "Mentor" : "Mentee",
+            inviterName: inviterName || organizationName,
+            personalNote: personalNote || "",
+          },
+          invitationLink
+        )) || templates.invitation(invitationLink, recipientName, organizationName, role, inviterName, personalNote);
       await sendEmail({
         to: [{ email: recipientEmail, name: recipientName }],
         ...template,
         category: "Invitation",
+        organizationId,
+      });
+    },
+
+    /** The one reminder the invitation expiry job sends before a pending invite lapses. */
+    sendInvitationReminder: async (
+      invitationLink: string,
+      recipientEmail: string,
+      recipientName: string,
+      organizationName: string,
+      role: Role,
+      expiresAt: Date,
+      organizationId?: string
+    ) => {
+      await sendEmail({
+        to: [{ email: recipientEmail, name: recipientName }],
+        ...templates.invitationReminder(invitationLink, recipientName, organizationName, role, expiresAt),
+        category: "Invitation",
+        organizationId,
+      });
+    },
+
+    /** Sends an unsaved override, filled with sample values, to the admin trying it out. */
+    sendTemplateTest: async (
+      recipient: { email: string; name?: string },
+      organization: Organization,
+      key: EmailTemplateKey,
+      override: EmailTemplateOverride
+    ) => {
+      const errors = validateTemplateOverride(key, override);
+      if (errors.length > 0) {
+        throw new Error(errors.join("; "));
+      }
+      const template = renderOverride(organization, key, override, SAMPLE_TEMPLATE_VALUES, config.appUrl);
+      await sendEmail({
+        to: [recipient],
+        ...template,
+        subject: `[Test] ${template.subject}`,
+        category: "Template Test",
+        organizationId: organization.id,
       });
     },
 
@@ -735,7 +1248,8 @@ export const createEmailService = (config: EmailServiceConfig) => {
       subject: string,
       body: string,
       fromAdmin?: { name: string; email: string },
-      isPlatformOperator?: boolean
+      isPlatformOperator?: boolean,
+      organizationId?: string
     ) => {
       // Convert plain text body to HTML
       const htmlBody = body
@@ -787,6 +1301,7 @@ ${footerMessage}
         html,
         text,
         category: "Admin",
+        organizationId,
       });
     },
   };
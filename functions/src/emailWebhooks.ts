@@ -0,0 +1,146 @@
+/**
+ * Delivery webhooks from Resend and MailerSend. Each event is appended to the emailLog doc for
+ * the provider message id; hard bounces and spam complaints also add the address to
+ * emailSuppressions so emailService.ts stops sending to it (password resets excepted).
+ */
+import * as functions from "firebase-functions/v2/https";
+import { defineSecret } from "firebase-functions/params";
+import * as admin from "firebase-admin";
+import { formatError } from "./utils/errors";
+import {
+  DeliveryEvent,
+  DeliveryEventKind,
+  parseMailerSendEvent,
+  parseResendEvent,
+  verifyMailerSendSignature,
+  verifyResendSignature,
+} from "./email/webhookEvents";
+
+const db = admin.firestore();
+
+const resendWebhookSecret = defineSecret("RESEND_WEBHOOK_SECRET");
+const mailerSendWebhookSecret = defineSecret("MAILERSEND_WEBHOOK_SECRET");
+
+const RUNTIME = {
+  cors: false,
+  region: "us-central1" as const,
+  invoker: "public" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+/** A late "delivered" for one recipient must not hide another recipient's bounce. */
+const STATUS_RANK: Record<string, number> = {
+  sending: 0,
+  sent: 1,
+  delayed: 2,
+  delivered: 3,
+  bounced: 4,
+  complained: 5,
+};
+
+const STATUS_FOR_KIND: Record<DeliveryEventKind, string> = {
+  delivered: "delivered",
+  delayed: "delayed",
+  bounced: "bounced",
+  complained: "complained",
+};
+
+async function applyDeliveryEvent(event: DeliveryEvent): Promise<void> {
+  const logSnap = await db.collection("emailLog").where("messageId", "==", event.messageId).limit(1).get();
+  const logDoc = logSnap.docs[0];
+  const organizationId = (logDoc?.data().organizationId as string | null | undefined) || null;
+  const status = STATUS_FOR_KIND[event.kind];
+
+  if (logDoc) {
+    const current = (logDoc.data().status as string) || "sent";
+    await logDoc.ref.update({
+      ...((STATUS_RANK[status] ?? 0) >= (STATUS_RANK[current] ?? 0) && { status }),
+      events: admin.firestore.FieldValue.arrayUnion({
+        email: event.email,
+        status,
+        at: new Date().toISOString(),
+      }),
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+  } else {
+    // Sent before logging existed, or by another project sharing the provider account
+    console.warn(`No emailLog entry for ${event.provider} message ${event.messageId}`);
+  }
+
+  if (event.suppress) {
+    await db
+      .collection("emailSuppressions")
+      .doc(event.email)
+      .set({
+        email: event.email,
+        reason: event.kind === "complained" ? "complaint" : "bounce",
+        provider: event.provider,
+        messageId: event.messageId,
+        organizationId,
+        createdAt: admin.firestore.Timestamp.now(),
+      });
+    console.log(`🚫 Suppressed ${event.email} after ${event.kind} (${event.provider})`);
+  }
+}
+
+export const resendWebhook = functions.onRequest(
+  { ...RUNTIME, secrets: [resendWebhookSecret] },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+    const verified = verifyResendSignature(
+      req.rawBody,
+      {
+        id: req.header("svix-id"),
+        timestamp: req.header("svix-timestamp"),
+        signature: req.header("svix-signature"),
+      },
+      resendWebhookSecret.value()
+    );
+    if (!verified) {
+      res.status(401).json({ error: "Invalid signature" });
+      return;
+    }
+    try {
+      const events = parseResendEvent(req.body);
+      for (const event of events) {
+        await applyDeliveryEvent(event);
+      }
+      res.status(200).json({ received: events.length });
+    } catch (error: unknown) {
+      // 5xx so the provider retries the delivery
+      console.error("Error applying email delivery events:", formatError(error));
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  }
+);
+
+export const mailersendWebhook = functions.onRequest(
+  { ...RUNTIME, secrets: [mailerSendWebhookSecret] },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+    if (!verifyMailerSendSignature(req.rawBody, req.header("signature"), mailerSendWebhookSecret.value())) {
+      res.status(401).json({ error: "Invalid signature" });
+      return;
+    }
+    try {
+      const events = parseMailerSendEvent(req.body);
+      for (const event of events) {
+        await applyDeliveryEvent(event);
+      }
+      res.status(200).json({ received: events.length });
+    } catch (error: unknown) {
+      // 5xx so the provider retries the delivery
+      console.error("Error applying email delivery events:", formatError(error));
+      res.status(500).json({ error: "Failed to process webhook" });
+    }
+  }
+);
@@ -0,0 +1,39 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from "vitest";
+
+// Only the plan table is under test; the module also registers the usage triggers
+vi.mock("firebase-admin", () => ({ firestore: () => ({}) }));
+
+import { getEntitlements } from "./entitlements";
+
+describe("server entitlements", () => {
+  const now = new Date("2026-03-01T00:00:00.000Z");
+
+  it("matches the web app's plan table", () => {
+    expect(getEntitlements({ subscriptionTier: "free" }, now)).toEqual({
+      maxParticipants: 25,
+      features: { customBranding: false, calendarIntegration: false, apiAccess: false, sso: false },
+    });
+    expect(getEntitlements({ subscriptionTier: "starter" }, now).maxParticipants).toBe(99);
+    expect(getEntitlements({ subscriptionTier: "professional" }, now)).toEqual({
+      maxParticipants: 399,
+      features: { customBranding: true, calendarIntegration: true, apiAccess: false, sso: false },
+    });
+    expect(getEntitlements({ subscriptionTier: "business" }, now)).toEqual({
+      maxParticipants: 999,
+      features: { customBranding: true, calendarIntegration: true, apiAccess: true, sso: true },
+    });
+    expect(getEntitlements({ subscriptionTier: "enterprise" }, now).maxParticipants).toBeNull();
+  });
+
+  it("gives free organizations the trial plan only while the trial is running", () => {
+    expect(getEntitlements({ subscriptionTier: "free", trialEnd: "2026-03-10T00:00:00.000Z" }, now).maxParticipants).toBe(399);
+    expect(getEntitlements({ subscriptionTier: "free", trialEnd: "2026-02-10T00:00:00.000Z" }, now).maxParticipants).toBe(25);
+    expect(getEntitlements({ subscriptionTier: "starter", trialEnd: "2026-03-10T00:00:00.000Z" }, now).maxParticipants).toBe(99);
+  });
+
+  it("treats a missing or unknown plan as free", () => {
+    expect(getEntitlements({}, now).maxParticipants).toBe(25);
+    expect(getEntitlements({ subscriptionTier: "gold" as never }, now).maxParticipants).toBe(25);
+  });
+});
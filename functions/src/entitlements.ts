@@ -0,0 +1,165 @@
+/**
+ * Subscription plan entitlements (participant limits and gated features).
+ * Mirrors the plan table in the web app's utils/entitlements.ts.
+ */
+import * as functionsV1 from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import { Organization } from "./types";
+import { formatError } from "./utils/errors";
+
+const db = admin.firestore();
+
+type SubscriptionTier = Organization["subscriptionTier"];
+
+export type EntitlementFeature =
+  | "customBranding"
+  | "calendarIntegration"
+  | "apiAccess"
+  | "sso";
+
+interface TierEntitlements {
+  maxParticipants: number | null; // null = unlimited
+  features: Record<EntitlementFeature, boolean>;
+}
+
+const TIER_ENTITLEMENTS: Record<SubscriptionTier, TierEntitlements> = {
+  free: {
+    maxParticipants: 25,
+    features: { customBranding: false, calendarIntegration: false, apiAccess: false, sso: false },
+  },
+  starter: {
+    maxParticipants: 99,
+    features: { customBranding: false, calendarIntegration: false, apiAccess: false, sso: false },
+  },
+  professional: {
+    maxParticipants: 399,
+    features: { customBranding: true, calendarIntegration: true, apiAccess: false, sso: false },
+  },
+  business: {
+    maxParticipants: 999,
+    features: { customBranding: true, calendarIntegration: true, apiAccess: true, sso: true },
+  },
+  enterprise: {
+    maxParticipants: null,
+    features: { customBranding: true, calendarIntegration: true, apiAccess: true, sso: true },
+  },
+};
+
+const TRIAL_TIER: SubscriptionTier = "professional";
+
+const PARTICIPANT_ROLES = ["MENTOR", "MENTEE"];
+
+const RUNTIME = {
+  memory: "256MB" as const,
+  maxInstances: 10,
+};
+
+export type PlanFields = Partial<Pick<Organization, "subscriptionTier" | "trialEnd">>;
+
+export function getEntitlements(org: PlanFields, now: Date = new Date()): TierEntitlements {
+  const tier = org.subscriptionTier && TIER_ENTITLEMENTS[org.subscriptionTier]
+    ? org.subscriptionTier
+    : "free";
+  const trialActive = !!org.trialEnd && new Date(org.trialEnd) > now;
+  return TIER_ENTITLEMENTS[tier === "free" && trialActive ? TRIAL_TIER : tier];
+}
+
+/** True when the organization's current plan includes a feature. Missing orgs have no features. */
+export async function organizationHasFeature(
+  organizationId: unknown,
+  feature: EntitlementFeature
+): Promise<boolean> {
+  if (typeof organizationId !== "string" || !organizationId) return false;
+  const orgDoc = await db.collection("organizations").doc(organizationId).get();
+  if (!orgDoc.exists) return false;
+  return getEntitlements(orgDoc.data() as PlanFields).features[feature];
+}
+
+/**
+ * Recount participants and store participantCount / participantLimit on the organization.
+ * Firestore rules compare the two before allowing a new mentor or mentee profile.
+ * Legacy accounts can have two profile docs (random id + auth uid mirror), so count distinct emails.
+ * Profiles deactivated by SCIM provisioning don't take a seat.
+ */
+export async function refreshOrganizationUsage(organizationId: string): Promise<void> {
+  const orgRef = db.collection("organizations").doc(organizationId);
+  const orgDoc = await orgRef.get();
+  if (!orgDoc.exists) return;
+
+  const usersSnapshot = await db
+    .collection("users")
+    .where("organizationId", "==", organizationId)
+    .where("role", "in", PARTICIPANT_ROLES)
+    .select("email", "deactivated")
+    .get();
+  const emails = new Set(
+    usersSnapshot.docs.filter((d) => d.get("deactivated") !== true).map((d) => {
+      const email = d.get("email");
+      return typeof email === "string" ? email.trim().toLowerCase() : d.id;
+    })
+  );
+
+  const { maxParticipants } = getEntitlements(orgDoc.data() as PlanFields);
+  const current = orgDoc.data() || {};
+  if (current.participantCount === emails.size && current.participantLimit === maxParticipants) {
+    return;
+  }
+  await orgRef.update({
+    participantCount: emails.size,
+    participantLimit: maxParticipants,
+  });
+}
+
+const isParticipant = (data: admin.firestore.DocumentData | undefined) =>
+  !!data && PARTICIPANT_ROLES.includes(String(data.role)) && data.deactivated !== true;
+
+// Keep participantCount current as mentor/mentee profiles are created, removed, deactivated or change role/org.
+export const syncParticipantUsage = functionsV1
+  .runWith(RUNTIME)
+  .region("us-central1")
+  .firestore.document("users/{userId}")
+  .onWrite(async (change, _context) => {
+    const before = change.before.exists ? change.before.data() : undefined;
+    const after = change.after.exists ? change.after.data() : undefined;
+    if (
+      isParticipant(before) === isParticipant(after) &&
+      before?.organizationId === after?.organizationId &&
+      before?.email === after?.email
+    ) {
+      return;
+    }
+
+    const orgIds = new Set<string>();
+    if (isParticipant(before) && before?.organizationId) orgIds.add(before.organizationId);
+    if (isParticipant(after) && after?.organizationId) orgIds.add(after.organizationId);
+
+    for (const organizationId of orgIds) {
+      try {
+        await refreshOrganizationUsage(organizationId);
+      } catch (error: unknown) {
+        console.error(`Error refreshing participant usage for ${organizationId}:`, formatError(error));
+      }
+    }
+  });
+
+// Recompute the participant limit when the plan changes (Flowglad webhook, trial start, downgrade).
+export const syncOrganizationPlanUsage = functionsV1
+  .runWith(RUNTIME)
+  .region("us-central1")
+  .firestore.document("organizations/{orgId}")
+  .onUpdate(async (change, context) => {
+    const before = change.before.data();
+    const after = change.after.data();
+    if (
+      before.subscriptionTier === after.subscriptionTier &&
+      before.subscriptionStatus === after.subscriptionStatus &&
+      before.trialEnd === after.trialEnd
+    ) {
+      return;
+    }
+    try {
+      await refreshOrganizationUsage(context.params.orgId);
+    } catch (error: unknown) {
+      console.error(`Error refreshing plan usage for ${context.params.orgId}:`, formatError(error));
+    }
+  });
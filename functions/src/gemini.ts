@@ -31,7 +31,8 @@ export const getMatchSuggestions = functions.onCall(
       );
     }
 
-    const { mentee, potentialMentors } = request.data;
+    // localScores: the client's matching engine ranking (0-100); Gemini re-ranks on top of it
+    const { mentee, potentialMentors, localScores } = request.data;
 
     // Input validation
     if (!mentee || !potentialMentors || !Array.isArray(potentialMentors)) {
@@ -40,6 +41,17 @@ export const getMatchSuggestions = functions.onCall(
         "Missing required data: mentee and potentialMentors array"
       );
     }
+    // Malformed entries (null, missing id or score) are dropped; Gemini ranks those mentors unaided
+    const localScoreById = new Map<string, number>(
+      (Array.isArray(localScores) ? localScores : [])
+        .filter(
+          (s: unknown): s is { mentorId: string; total: number } =>
+            !!s &&
+            typeof (s as { mentorId?: unknown }).mentorId === "string" &&
+            Number.isFinite((s as { total?: unknown }).total)
+        )
+        .map((s) => [s.mentorId, s.total])
+    );
 
     const apiKey = geminiApiKey.value();
     if (!apiKey) {
@@ -58,9 +70,12 @@ export const getMatchSuggestions = functions.onCall(
     - Title: ${mentee.title}
     - Company: ${mentee.company}
     - Goals: ${mentee.goals?.join(", ") || "Not specified"}
+    - Skills to improve: ${(mentee.skillsToImprove || mentee.skills || []).join(", ") || "Not specified"}
+    - Preferred industries: ${mentee.preferredIndustries?.join(", ") || "Not specified"}
+    - Preferred mentorship style: ${mentee.mentorshipStyle || "Not specified"}
     - Bio: ${mentee.bio || "Not provided"}
     
-    Potential Mentors:
+    Potential Mentors (localScore is our rule-based compatibility score from 0 to 100):
     ${JSON.stringify(
       potentialMentors.map((m: User) => ({
         id: m.id,
@@ -68,11 +83,16 @@ export const getMatchSuggestions = functions.onCall(
         title: m.title,
         company: m.company,
         skills: m.skills || [],
+        expertise: m.expertise || [],
+        industries: m.industries || [],
+        mentorshipStyle: m.mentorshipStyle || "",
         bio: m.bio || "",
+        ...(localScoreById.has(m.id) && { localScore: localScoreById.get(m.id) }),
       }))
     )}
     
     Analyze the compatibility based on the mentee's career goals and the mentors' professional experience/skills.
+    Use localScore as a starting point, but re-rank where the bios and experience suggest a better fit.
     Return a ranked list of the top 3 most suitable mentors.
   `;
 
@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const markers: Record<string, Record<string, unknown>> = {};
+const addAuditEntry = vi.fn(async (_entry: Record<string, unknown>) => undefined);
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+vi.mock("firebase-admin", () => {
+  const db = {
+    collection: (name: string) => ({
+      doc: (id: string) => ({ get: async () => ({ data: () => markers[`${name}/${id}`] }) }),
+      add: (entry: Record<string, unknown>) => addAuditEntry(entry),
+    }),
+  };
+  return {
+    firestore: Object.assign(() => db, { FieldValue: { serverTimestamp: () => "server-time" } }),
+  };
+});
+
+import { auditImpersonatedWrites, getWritableImpersonation } from "./impersonation";
+
+const snapshot = (data?: Record<string, unknown>) => ({ data: () => data });
+
+const writeEvent = (
+  authId: string | undefined,
+  document: string,
+  before?: Record<string, unknown>,
+  after?: Record<string, unknown>,
+  time = "2026-03-01T10:10:00.000Z"
+) =>
+  ({
+    authType: "unknown",
+    authId,
+    time,
+    document,
+    params: { collectionId: document.split("/")[0], docId: document.split("/")[1] },
+    data: { before: snapshot(before), after: snapshot(after) },
+  }) as never;
+
+describe("impersonation audit", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const key of Object.keys(markers)) delete markers[key];
+    markers["writableImpersonations/operator-1"] = {
+      sessionId: "session-1",
+      organizationId: "org-1",
+      targetUserId: "user-1",
+      expiresAt: timestamp("2026-03-01T10:30:00.000Z"),
+    };
+  });
+
+  it("records each write the operator makes during a read-write session", async () => {
+    await auditImpersonatedWrites.run(
+      writeEvent("operator-1", "goals/g1", { title: "Goal", progress: 10 }, { title: "Goal", progress: 50, note: "x" })
+    );
+    await auditImpersonatedWrites.run(writeEvent("operator-1", "goals/g2", undefined, { title: "New" }));
+    await auditImpersonatedWrites.run(writeEvent("operator-1", "goals/g3", { title: "Old" }, undefined));
+
+    expect(addAuditEntry.mock.calls.map(([entry]) => entry)).toEqual([
+      {
+        organizationId: "org-1",
+        sessionId: "session-1",
+        operatorUid: "operator-1",
+        targetUserId: "user-1",
+        action: "update",
+        path: "goals/g1",
+        fields: ["progress", "note"],
+        createdAt: "server-time",
+      },
+      expect.objectContaining({ action: "create", path: "goals/g2", fields: ["title"] }),
+      expect.objectContaining({ action: "delete", path: "goals/g3", fields: [] }),
+    ]);
+  });
+
+  it("ignores writes by other users, the server and the audit trail itself", async () => {
+    await auditImpersonatedWrites.run(writeEvent("user-2", "goals/g1", undefined, { title: "Goal" }));
+    await auditImpersonatedWrites.run(writeEvent(undefined, "goals/g1", undefined, { title: "Goal" }));
+    await auditImpersonatedWrites.run(writeEvent("operator-1", "auditLog/a1", undefined, { action: "update" }));
+    await auditImpersonatedWrites.run(writeEvent("operator-1", "typingStatus/t1", undefined, { typing: true }));
+
+    expect(addAuditEntry).not.toHaveBeenCalled();
+  });
+
+  it("attributes writes by when they happened, not when the trigger runs", async () => {
+    markers["writableImpersonations/operator-1"].endedAt = timestamp("2026-03-01T10:15:00.000Z");
+
+    await auditImpersonatedWrites.run(writeEvent("operator-1", "goals/g1", undefined, { title: "Before end" }));
+    await auditImpersonatedWrites.run(
+      writeEvent("operator-1", "goals/g2", undefined, { title: "After end" }, "2026-03-01T10:20:00.000Z")
+    );
+
+    expect(addAuditEntry).toHaveBeenCalledTimes(1);
+    expect(addAuditEntry.mock.calls[0][0]).toMatchObject({ path: "goals/g1" });
+  });
+
+  it("finds no writable session once it has expired", async () => {
+    expect(await getWritableImpersonation("operator-1", new Date("2026-03-01T10:29:00.000Z"))).toMatchObject({
+      sessionId: "session-1",
+    });
+    expect(await getWritableImpersonation("operator-1", new Date("2026-03-01T10:31:00.000Z"))).toBeNull();
+    expect(await getWritableImpersonation("operator-2")).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import * as functions from "firebase-functions/v2/https";
+import { Change, DocumentSnapshot, FirestoreAuthEvent, onDocumentWrittenWithAuthContext } from "firebase-functions/v2/firestore";
+import * as admin from "firebase-admin";
+import { isDeepStrictEqual } from "util";
+import { assertCallerIsPlatformOperator } from "./platformOperators";
+import { ImpersonationMode } from "./types";
+
+const db = admin.firestore();
+
+const RUNTIME = {
+  region: "us-central1" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+const DEFAULT_DURATION_MINUTES = 30;
+const MAX_DURATION_MINUTES = 120;
+const MIN_REASON_LENGTH = 10;
+
+function isPlatformOperatorRole(role: unknown): boolean {
+  return role === "PLATFORM_OPERATOR" || role === "PLATFORM_ADMIN";
+}
+
+// Marker for the operator's current read-only session; Firestore rules refuse the operator's writes
+// while it is unexpired (isPlatformOperator), whatever the client does
+const readOnlyMarker = (operatorUid: string) => db.collection("readOnlyImpersonations").doc(operatorUid);
+
+// Marker for the operator's latest read-write session. It is closed (endedAt) rather than deleted
+// so writes whose trigger runs just after the session ends are still attributed to it
+const writableMarker = (operatorUid: string) => db.collection("writableImpersonations").doc(operatorUid);
+
+export interface WritableImpersonation {
+  sessionId: string;
+  organizationId: string;
+  targetUserId: string;
+  expiresAt: admin.firestore.Timestamp;
+  endedAt?: admin.firestore.Timestamp;
+}
+
+/** The operator's read-write session that was active at `at`, if any. */
+export async function getWritableImpersonation(operatorUid: string, at = new Date()): Promise<WritableImpersonation | null> {
+  const marker = (await writableMarker(operatorUid).get()).data() as WritableImpersonation | undefined;
+  if (!marker?.sessionId) return null;
+  const end = marker.endedAt || marker.expiresAt;
+  return at < end.toDate() ? marker : null;
+}
+
+/** auditLog entry for a change the operator made through a callable (written in the callable's own transaction). */
+export function impersonatedCallAuditEntry(
+  session: WritableImpersonation,
+  operatorUid: string,
+  callable: string,
+  path: string
+): Record<string, unknown> {
+  return {
+    organizationId: session.organizationId,
+    sessionId: session.sessionId,
+    operatorUid,
+    targetUserId: session.targetUserId,
+    action: "call",
+    callable,
+    path,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+async function writeAuditEntry(entry: Record<string, unknown>): Promise<void> {
+  await db.collection("auditLog").add({
+    ...entry,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Starts a time-boxed impersonation session for a platform operator. The session doc is the
+ * server record of who impersonated whom and why; auditImpersonatedWrites and write callables
+ * tag what the operator changes with its id in auditLog.
+ * Sessions are read-only unless the operator explicitly asks for read_write; read-only sessions
+ * are enforced by the rules through the readOnlyImpersonations marker.
+ */
+export const startImpersonationSession = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const operatorUid = request.auth.uid;
+
+  await assertCallerIsPlatformOperator(operatorUid);
+
+  const targetUserId = request.data?.targetUserId;
+  const rawReason = request.data?.reason;
+  const mode: ImpersonationMode =
+    request.data?.mode === "read_write" ? "read_write" : "read_only";
+  const requestedMinutes = Number(request.data?.durationMinutes);
+  const durationMinutes =
+    Number.isFinite(requestedMinutes) && requestedMinutes > 0
+      ? Math.min(Math.round(requestedMinutes), MAX_DURATION_MINUTES)
+      : DEFAULT_DURATION_MINUTES;
+
+  if (typeof targetUserId !== "string" || !targetUserId) {
+    throw new functions.HttpsError("invalid-argument", "targetUserId is required");
+  }
+  const reason = typeof rawReason === "string" ? rawReason.trim() : "";
+  if (reason.length < MIN_REASON_LENGTH) {
+    throw new functions.HttpsError(
+      "invalid-argument",
+      `Please give a reason (at least ${MIN_REASON_LENGTH} characters)`
+    );
+  }
+
+  const targetSnap = await db.collection("users").doc(targetUserId).get();
+  if (!targetSnap.exists) {
+    throw new functions.HttpsError("not-found", "User not found");
+  }
+  const target = targetSnap.data() || {};
+  if (targetUserId === operatorUid || target.firebaseAuthUid === operatorUid) {
+    throw new functions.HttpsError("invalid-argument", "You cannot impersonate yourself");
+  }
+  if (isPlatformOperatorRole(target.role)) {
+    throw new functions.HttpsError(
+      "permission-denied",
+      "Platform operators cannot be impersonated"
+    );
+  }
+
+  const operatorSnap = await db.collection("users").doc(operatorUid).get();
+  const operator = operatorSnap.data() || {};
+
+  const startedAt = new Date();
+  const expiresAt = new Date(startedAt.getTime() + durationMinutes * 60 * 1000);
+  const sessionRef = db.collection("impersonationSessions").doc();
+  const session = {
+    organizationId: String(target.organizationId || ""),
+    operatorUid,
+    operatorName: String(operator.name || "Platform Operator"),
+    operatorEmail: String(operator.email || request.auth.token.email || ""),
+    targetUserId,
+    targetUserName: String(target.name || ""),
+    reason,
+    mode,
+    startedAt: admin.firestore.Timestamp.fromDate(startedAt),
+    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+    endedAt: null,
+  };
+  await sessionRef.set(session);
+  if (mode === "read_only") {
+    await readOnlyMarker(operatorUid).set({ sessionId: sessionRef.id, expiresAt: session.expiresAt });
+    const writable = await writableMarker(operatorUid).get();
+    if (writable.exists && !writable.data()?.endedAt) {
+      await writable.ref.update({ endedAt: admin.firestore.Timestamp.fromDate(startedAt) });
+    }
+  } else {
+    await readOnlyMarker(operatorUid).delete();
+    await writableMarker(operatorUid).set({
+      sessionId: sessionRef.id,
+      organizationId: session.organizationId,
+      targetUserId,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  await writeAuditEntry({
+    organizationId: session.organizationId,
+    sessionId: sessionRef.id,
+    operatorUid,
+    targetUserId,
+    action: "impersonation_started",
+  });
+
+  return {
+    id: sessionRef.id,
+    ...session,
+    startedAt: startedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+});
+
+/** Ends a session early. Expired sessions are already inactive; ending them just records endedAt. */
+export const endImpersonationSession = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+
+  const sessionId = request.data?.sessionId;
+  if (typeof sessionId !== "string" || !sessionId) {
+    throw new functions.HttpsError("invalid-argument", "sessionId is required");
+  }
+
+  const sessionRef = db.collection("impersonationSessions").doc(sessionId);
+  const sessionSnap = await sessionRef.get();
+  if (!sessionSnap.exists) {
+    throw new functions.HttpsError("not-found", "Session not found");
+  }
+  const session = sessionSnap.data() || {};
+  if (session.operatorUid !== request.auth.uid) {
+    throw new functions.HttpsError(
+      "permission-denied",
+      "Only the operator who started this session can end it"
+    );
+  }
+  const [marker, writable] = await Promise.all([
+    readOnlyMarker(session.operatorUid).get(),
+    writableMarker(session.operatorUid).get(),
+  ]);
+  if (marker.data()?.sessionId === sessionId) {
+    await marker.ref.delete();
+  }
+  if (writable.data()?.sessionId === sessionId && !writable.data()?.endedAt) {
+    await writable.ref.update({ endedAt: admin.firestore.Timestamp.now() });
+  }
+  if (session.endedAt) {
+    return { ok: true };
+  }
+
+  await sessionRef.update({ endedAt: admin.firestore.FieldValue.serverTimestamp() });
+  await writeAuditEntry({
+    organizationId: session.organizationId,
+    sessionId,
+    operatorUid: session.operatorUid,
+    targetUserId: session.targetUserId,
+    action: "impersonation_ended",
+  });
+
+  return { ok: true };
+});
+
+// Server-kept records and transient typing indicators; session start/end are audited above
+const UNAUDITED_COLLECTIONS = new Set([
+  "auditLog",
+  "impersonationSessions",
+  "readOnlyImpersonations",
+  "writableImpersonations",
+  "typingStatus",
+]);
+
+async function auditWrite(
+  event: FirestoreAuthEvent<Change<DocumentSnapshot> | undefined, { collectionId: string }>
+): Promise<void> {
+  // Writes from Cloud Functions carry a service account id, which never has a session marker
+  if (!event.authId || !event.data || UNAUDITED_COLLECTIONS.has(event.params.collectionId)) return;
+  const session = await getWritableImpersonation(event.authId, new Date(event.time));
+  if (!session) return;
+
+  const before = event.data.before.data();
+  const after = event.data.after.data();
+  const fields = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})])).filter(
+    (key) => !isDeepStrictEqual(before?.[key], after?.[key])
+  );
+  await writeAuditEntry({
+    organizationId: session.organizationId,
+    sessionId: session.sessionId,
+    operatorUid: event.authId,
+    targetUserId: session.targetUserId,
+    action: !before ? "create" : !after ? "delete" : "update",
+    path: event.document,
+    fields: after ? fields : [],
+  });
+}
+
+/**
+ * Appends an auditLog entry for every document an operator changes during a read-write session.
+ * Runs on the server from Firestore's record of who wrote, so writes are audited however they
+ * were made (app, SDK console, a closed tab).
+ */
+export const auditImpersonatedWrites = onDocumentWrittenWithAuthContext(
+  { document: "{collectionId}/{docId}", region: RUNTIME.region },
+  auditWrite
+);
+
+export const auditImpersonatedSubcollectionWrites = onDocumentWrittenWithAuthContext(
+  { document: "{collectionId}/{docId}/{subcollectionId}/{subDocId}", region: RUNTIME.region },
+  auditWrite
+);
@@ -2,17 +2,44 @@ import * as functions from "firebase-functions/v2/https";
 import * as functionsV1 from "firebase-functions/v1";
 import { logger } from "firebase-functions/v2";
 import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
 import { defineString, defineSecret } from "firebase-functions/params";
 import * as admin from "firebase-admin";
 import { google } from "googleapis";
 import * as crypto from "crypto";
-import { Role, User, Organization, Match, Goal } from "./types";
-import { createEmailService } from "./emailService";
+import { Role, User, Organization, Match, MatchStatus, Goal, EmailTemplateKey, EmailTemplateOverride } from "./types";
+import { createEmailService, MatchUpdateTransition } from "./emailService";
+import { createFirestoreDeliveryLog } from "./email/deliveryLog";
+import { LOCAL_EMAIL_PROVIDERS } from "./email/types";
+import { DEFAULT_SMTP_URL } from "./email/providers/smtpProvider";
+import { EMAIL_TEMPLATE_KEYS } from "./utils/emailTemplates";
+import { canDeliver, isChannelEnabled } from "./notificationDispatcher";
+import { sendFCMPushNotification } from "./pushNotifications";
 import { setTrialPeriod } from "./organizationUtils";
 import { getErrorMessage, getErrorCode, formatError } from "./utils/errors";
+import { getEventStart } from "./utils/timeZones";
+import { getOccurrencesBetween } from "./utils/recurrence";
+import { getInvitationExpiresAt, getInvitationExpiry, isInvitationExpired, isInvitationReminderDue } from "./utils/invitations";
+import {
+  DigestContent,
+  getDigestHorizonEnd,
+  getDigestWindowStart,
+  isDigestDue,
+  isDigestEmpty,
+  isDigestFrequency,
+} from "./utils/digest";
+import {
+  addDays,
+  ENDING_SOON_DAYS,
+  getMatchTransition,
+  resolvePendingMatch,
+} from "./utils/matchLifecycle";
 import { mintParticipantToken, videosdkCreateRoom } from "./videoSdk";
 import { checkVideoCallSessionRateLimit } from "./videoCallRateLimit";
 import { agentDebugLog } from "./agentDebugLog";
+import { getEntitlements, organizationHasFeature, refreshOrganizationUsage } from "./entitlements";
+import { createMeetSpace, serviceAccountEmail, serviceAccountKey } from "./meet";
+import { assertTotpPolicy } from "./totp";
 
 // Initialize Firebase Admin
 admin.initializeApp();
@@ -25,12 +52,6 @@ const isProduction = projectId.includes('prod') || projectId === 'meant2grow-pro
 // const isSandbox = projectId.includes('dev') || projectId === 'meant2grow-dev' || !isProduction;
 
 // Define environment parameters (migrated from deprecated functions.config())
-const serviceAccountEmail = defineString("GOOGLE_SERVICE_ACCOUNT_EMAIL", {
-  description: "Google Service Account Email for Meet API",
-});
-
-const serviceAccountKey = defineSecret("GOOGLE_SERVICE_ACCOUNT_KEY");
-
 const videoSdkApiKey = defineString("VIDEO_SDK_API_KEY", {
   description: "VideoSDK API key (dashboard)",
   default: "",
@@ -38,12 +59,22 @@ const videoSdkApiKey = defineString("VIDEO_SDK_API_KEY", {
 
 const videoSdkSecret = defineSecret("VIDEO_SDK_SECRET");
 
-// Email provider: "resend" (default) or "mailersend".
+// Email provider: "resend" (default) or "mailersend"; "smtp", "file" or "memory" for local runs.
 const emailProvider = defineString("EMAIL_PROVIDER", {
-  description: "Email provider: resend (default) or mailersend",
+  description: "Email provider: resend (default), mailersend, or smtp/file/memory for local development",
   default: "resend",
 });
 
+const emailSmtpUrl = defineString("EMAIL_SMTP_URL", {
+  description: "EMAIL_PROVIDER=smtp: local catcher such as Mailpit (smtp://localhost:1025)",
+  default: DEFAULT_SMTP_URL,
+});
+
+const emailFileDir = defineString("EMAIL_FILE_DIR", {
+  description: "EMAIL_PROVIDER=file: directory for .eml/.html copies (default: OS temp dir)",
+  default: "",
+});
+
 const resendApiKey = defineString("RESEND_API_KEY", {
   description: "Resend API key (re_...); primary when EMAIL_PROVIDER=resend",
   default: "",
@@ -89,6 +120,55 @@ const BACKGROUND_V2_RUNTIME = {
   ...LIGHT_HTTP_RUNTIME,
 };
 
+// Org lookup for email template overrides
+const loadOrganization = async (organizationId: string): Promise<Organization | null> => {
+  const orgDoc = await db.collection("organizations").doc(organizationId).get();
+  return orgDoc.exists ? ({ id: orgDoc.id, ...orgDoc.data() } as Organization) : null;
+};
+
+// Caller's profile: users/{authUid}, or a legacy random-id doc linked by firebaseAuthUid
+const loadCallerProfile = async (uid: string): Promise<User | undefined> => {
+  const authUidDoc = await db.collection("users").doc(uid).get();
+  if (authUidDoc.exists) return authUidDoc.data() as User;
+  const byAuthUid = await db.collection("users").where("firebaseAuthUid", "==", uid).limit(1).get();
+  return byAuthUid.empty ? undefined : (byAuthUid.docs[0].data() as User);
+};
+
+// Marks a still-Pending invitation Accepted by userId, with the caller's profile write in the same
+// transaction so each token is used once; false when another sign-up claimed it first
+const claimInvitationFor = async (
+  invitationRef: admin.firestore.DocumentReference,
+  userId: string,
+  writeProfile: (tx: admin.firestore.Transaction) => void
+): Promise<boolean> =>
+  db.runTransaction(async (tx) => {
+    const current = await tx.get(invitationRef);
+    if (current.data()?.status !== "Pending") return false;
+    tx.update(invitationRef, {
+      status: "Accepted",
+      acceptedAt: new Date().toISOString(),
+      acceptedUserId: userId,
+    });
+    writeProfile(tx);
+    return true;
+  });
+
+// Organization of the signed-in caller (Authorization: Bearer <ID token>); plan checks never trust the request body
+const getCallerOrganizationId = async (req: functions.Request): Promise<string | null> => {
+  const authHeader = req.headers.authorization;
+  const idToken = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  if (!idToken || idToken === "simulated-token") return null;
+  try {
+    const decoded = await admin.auth().verifyIdToken(idToken);
+    return (await loadCallerProfile(decoded.uid))?.organizationId || null;
+  } catch {
+    return null;
+  }
+};
+
+// Org admins are stored as "ORGANIZATION_ADMIN" by the web app; older docs use "ADMIN"
+const isOrgAdminRole = (role: unknown) => role === "ORGANIZATION_ADMIN" || role === Role.ADMIN;
+
 // Helper function to get email service instance with current config values
 const getEmailService = () => {
   const raw = (emailProvider.value() || "resend").toLowerCase();
@@ -97,6 +177,23 @@ const getEmailService = () => {
       '⚠️ EMAIL_PROVIDER=mailtrap is removed; use "resend" (default) or "mailersend". Using MailerSend for this deploy.'
     );
   }
+  const localProvider = LOCAL_EMAIL_PROVIDERS.find((name) => name === raw);
+  if (localProvider) {
+    if (isProduction) {
+      console.warn(`⚠️ EMAIL_PROVIDER=${localProvider} in production: emails will not reach anyone.`);
+    }
+    return createEmailService({
+      provider: localProvider,
+      apiToken: "",
+      fromEmail: emailFrom.value() || "noreply@meant2grow.com",
+      replyToEmail: emailReplyTo.value() || "support@meant2grow.com",
+      appUrl: appUrl.value() || "https://meant2grow.com",
+      smtpUrl: emailSmtpUrl.value() || undefined,
+      outputDir: emailFileDir.value() || undefined,
+      deliveryLog: createFirestoreDeliveryLog(db),
+      getOrganization: loadOrganization,
+    });
+  }
   const mode: "resend" | "mailersend" =
     raw === "mailersend" || raw === "mailtrap" ? "mailersend" : "resend";
   const resendKey = (resendApiKey.value() || "").trim();
@@ -159,6 +256,8 @@ const getEmailService = () => {
     fromEmail: fromEmail || "",
     replyToEmail: replyToEmail || "support@meant2grow.com",
     appUrl: appUrlValue || "https://meant2grow.com",
+    deliveryLog: createFirestoreDeliveryLog(db),
+    getOrganization: loadOrganization,
   });
 };
 
@@ -240,12 +339,7 @@ export const authGoogle = functions.onRequest(
         });
 
         const organizationId = orgRef.id;
-
-        // Set trial period for new organization
-        await setTrialPeriod(organizationId).catch((err) => {
-          console.error("Failed to set trial period:", err);
-          // Don't fail organization creation if trial setup fails
-        });
+        // onOrganizationCreated starts the trial
 
         // Create admin user
         const userRef = db.collection("users").doc();
@@ -322,14 +416,11 @@ export const authGoogle = functions.onRequest(
         const invitationDoc = invitationSnapshot.docs[0];
         const invitationData = invitationDoc.data();
 
-        // Check expiration
-        if (invitationData.expiresAt) {
-          const expiresAt = invitationData.expiresAt.toDate();
-          if (expiresAt < new Date()) {
-            await invitationDoc.ref.update({ status: "Expired" });
-            res.status(400).json({ error: "Invitation has expired" });
-            return;
-          }
+        // Check expiration (expiresAt is an ISO string on current invites, a Timestamp on old ones)
+        if (isInvitationExpired(invitationData)) {
+          await invitationDoc.ref.update({ status: "Expired" });
+          res.status(400).json({ error: "Invitation has expired" });
+          return;
         }
 
         // Verify email matches invitation
@@ -372,9 +463,15 @@ export const authGoogle = functions.onRequest(
         }
 
         if (userDoc) {
-          // Update existing user with Google ID if not set
-          if (!userDoc.data().googleId) {
-            await userDoc.ref.update({ googleId });
+          // Claim the invitation, and set the Google ID on the existing user if missing
+          const existingRef = userDoc.ref;
+          const needsGoogleId = !userDoc.data().googleId;
+          const claimed = await claimInvitationFor(invitationDoc.ref, userDoc.id, (tx) => {
+            if (needsGoogleId) tx.update(existingRef, { googleId });
+          });
+          if (!claimed) {
+            res.status(409).json({ error: "This invitation has already been used" });
+            return;
           }
 
           const userData = userDoc.data();
@@ -396,9 +493,6 @@ export const authGoogle = functions.onRequest(
               new Date().toISOString(),
           };
 
-          // Mark invitation as accepted
-          await invitationDoc.ref.update({ status: "Accepted" });
-
           // Send welcome back email (don't await - send async)
           getEmailService().sendWelcomeBack(userResponse, orgResponse).catch((err) => {
             console.error("Failed to send welcome back email:", err);
@@ -414,24 +508,27 @@ export const authGoogle = functions.onRequest(
           // Create new user with role from invitation
           const userRole = invitationRole;
           const userRef = db.collection("users").doc();
-          await userRef.set({
-            organizationId,
-            name,
-            email,
-            role: userRole,
-            avatar:
-              picture ||
-              `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`,
-            title: "",
-            company: orgDoc.data()?.name || "",
-            skills: [],
-            bio: "",
-            googleId,
-            createdAt: admin.firestore.Timestamp.now(),
+          const claimed = await claimInvitationFor(invitationDoc.ref, userRef.id, (tx) => {
+            tx.set(userRef, {
+              organizationId,
+              name,
+              email,
+              role: userRole,
+              avatar:
+                picture ||
+                `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`,
+              title: "",
+              company: orgDoc.data()?.name || "",
+              skills: [],
+              bio: "",
+              googleId,
+              createdAt: admin.firestore.Timestamp.now(),
+            });
           });
-
-          // Mark invitation as accepted
-          await invitationDoc.ref.update({ status: "Accepted" });
+          if (!claimed) {
+            res.status(409).json({ error: "This invitation has already been used" });
+            return;
+          }
 
           const userData = {
             id: userRef.id,
@@ -634,44 +731,15 @@ export const createMeetLink = functions.onRequest(
       const { endTime } = req.body;
 
       // Get service account credentials from params
-      const email = serviceAccountEmail.value();
-      const key = serviceAccountKey.value();
-
-      if (!email || !key) {
+      if (!serviceAccountEmail.value() || !serviceAccountKey.value()) {
         console.error("Missing service account credentials");
         res.status(500).json({ error: "Meet service not configured" });
         return;
       }
 
-      const auth = new google.auth.GoogleAuth({
-        credentials: {
-          client_email: email,
-          private_key: key.replace(/\\n/g, "\n"),
-        },
-        scopes: ["https://www.googleapis.com/auth/meetings.space.created"],
-      });
-
-      const meet = google.meet({
-        version: "v2",
-        auth: auth
-      });
-
-      // Create a new meeting space
-      const meeting = await meet.spaces.create({
-        requestBody: {
-          config: {
-            accessType: "OPEN",
-            entryPointAccess: "CREATOR_APP",
-          },
-        },
-      });
-
-      if (!meeting.data.meetingUri) {
-        throw new Error("Failed to create meeting");
-      }
+      const meetLink = await createMeetSpace();
 
       // Extract meeting code from URI (format: https://meet.google.com/xxx-xxxx-xxx)
-      const meetLink = meeting.data.meetingUri;
       const meetingCodeMatch = meetLink.match(/meet\.google\.com\/([a-z-]+)/);
       const meetingCode = meetingCodeMatch ? meetingCodeMatch[1] : undefined;
 
@@ -891,7 +959,14 @@ export const sendAdminEmail = functions.onRequest(
       }
 
       // Send email to all recipients
-      await getEmailService().sendCustomEmail(recipients, subject, body, fromAdmin, isPlatformOperator);
+      await getEmailService().sendCustomEmail(
+        recipients,
+        subject,
+        body,
+        fromAdmin,
+        isPlatformOperator,
+        organizationId || undefined
+      );
 
       res.json({ success: true, message: `Email sent to ${recipients.length} recipient(s)` });
     } catch (error: unknown) {
@@ -904,6 +979,55 @@ export const sendAdminEmail = functions.onRequest(
   }
 );
 
+/**
+ * Sends an org admin their draft email template (saved or not) with sample values, so they can
+ * check it in a real inbox before members get it.
+ */
+export const sendEmailTemplateTest = functions.onCall(
+  { region: "us-central1", ...LIGHT_HTTP_RUNTIME },
+  async (request) => {
+    if (!request.auth?.uid) {
+      throw new functions.HttpsError("unauthenticated", "Sign in required");
+    }
+    await assertTotpPolicy(request.auth.uid);
+    const templateKey = request.data?.templateKey as EmailTemplateKey;
+    const rawOverride = (request.data?.override || {}) as Record<string, unknown>;
+    if (!EMAIL_TEMPLATE_KEYS.includes(templateKey)) {
+      throw new functions.HttpsError("invalid-argument", "Unknown email template");
+    }
+    const override: EmailTemplateOverride = {};
+    for (const field of ["subject", "heading", "body", "buttonLabel"] as const) {
+      if (typeof rawOverride[field] === "string") override[field] = rawOverride[field] as string;
+    }
+
+    const caller = await loadCallerProfile(request.auth.uid);
+    if (!caller || !isOrgAdminRole(caller.role) || !caller.organizationId || !caller.email) {
+      throw new functions.HttpsError("permission-denied", "Only organization admins can send test emails");
+    }
+    const orgDoc = await db.collection("organizations").doc(caller.organizationId).get();
+    if (!orgDoc.exists) {
+      throw new functions.HttpsError("not-found", "Organization not found");
+    }
+    const organization = { id: orgDoc.id, ...orgDoc.data() } as Organization;
+    if (!getEntitlements(organization).features.customBranding) {
+      throw new functions.HttpsError("failed-precondition", "Custom email templates require a plan with custom branding");
+    }
+
+    try {
+      await getEmailService().sendTemplateTest(
+        { email: caller.email, name: caller.name },
+        organization,
+        templateKey,
+        override
+      );
+    } catch (error: unknown) {
+      console.error("Error sending template test email:", formatError(error));
+      throw new functions.HttpsError("internal", getErrorMessage(error) || "Failed to send test email");
+    }
+    return { sentTo: caller.email };
+  }
+);
+
 // Password reset email endpoint
 export const sendPasswordResetEmail = functions.onRequest(
   {
@@ -1238,6 +1362,27 @@ export const resetPassword = functions.onRequest(
   }
 );
 
+// Starts the free trial for each new self-serve organization. Clients can't write trial fields
+// (see touchesBillingFields in firestore.rules), so this is the only place a trial begins.
+export const onOrganizationCreated = onDocumentCreated(
+  {
+    document: "organizations/{orgId}",
+    ...BACKGROUND_V2_RUNTIME,
+  },
+  async (event) => {
+    const snap = event.data;
+    if (!snap) return;
+    const orgData = snap.data();
+    // Operators may create organizations on a paid plan or with their own trial
+    if ((orgData.subscriptionTier || "free") !== "free" || orgData.trialEnd || orgData.subscriptionStatus) return;
+    try {
+      await setTrialPeriod(snap.id);
+    } catch (error: unknown) {
+      console.error(`Failed to start the trial for organization ${snap.id}:`, formatError(error));
+    }
+  }
+);
+
 // 2nd gen (GCFv2): migrated with a new deploy; do not revert to v1 without deleting the v2 function first.
 // Trigger when a new user is created
 export const onUserCreated = onDocumentCreated(
@@ -1288,9 +1433,142 @@ export const onUserCreated = onDocumentCreated(
   }
 );
 
+// Mentor and mentee of a match, or null when either profile is missing
+async function getMatchParticipants(match: Match): Promise<{ mentor: User; mentee: User } | null> {
+  const [mentorDoc, menteeDoc] = await Promise.all([
+    db.collection("users").doc(match.mentorId).get(),
+    db.collection("users").doc(match.menteeId).get(),
+  ]);
+  if (!mentorDoc.exists || !menteeDoc.exists) return null;
+
+  const mentorData = mentorDoc.data();
+  const menteeData = menteeDoc.data();
+  return {
+    mentor: {
+      id: mentorDoc.id,
+      ...(mentorData as Omit<User, "id" | "createdAt">),
+      createdAt: mentorData?.createdAt?.toDate().toISOString() || new Date().toISOString(),
+    },
+    mentee: {
+      id: menteeDoc.id,
+      ...(menteeData as Omit<User, "id" | "createdAt">),
+      createdAt: menteeData?.createdAt?.toDate().toISOString() || new Date().toISOString(),
+    },
+  };
+}
+
+// A match became ACTIVE: welcome message in both DM views, intro notifications and match emails
+async function startMatch(match: Match, mentor: User, mentee: User) {
+  const timestamp = admin.firestore.Timestamp.now();
+
+  // For DMs, each user has their own chat view identified by the other user's ID
+  // (mentor's view: chatId = menteeId; mentee's view: chatId = mentorId)
+  const welcomeMessage = `Hi ${mentee.name}! 👋 I'm ${mentor.name}, ${mentor.title} at ${mentor.company}. ${mentor.skills && mentor.skills.length > 0 ? `I specialize in ${mentor.skills.slice(0, 3).join(", ")}.` : ""} I'm excited to be your mentor and help you on your journey! ${mentee.goals && mentee.goals.length > 0 ? `I see you're looking to grow in ${mentee.goals.slice(0, 2).join(" and ")}.` : ""} Let's get started!`;
+  const batch = db.batch();
+  for (const chatId of [match.menteeId, match.mentorId]) {
+    batch.set(db.collection("chatMessages").doc(), {
+      organizationId: match.organizationId,
+      chatId,
+      chatType: "dm",
+      senderId: match.mentorId,
+      text: welcomeMessage,
+      type: "text",
+      createdAt: timestamp,
+      timestamp,
+    });
+  }
+  // The inbox always gets the notification; sendFCMPushNotification checks the push preference
+  batch.set(db.collection("notifications").doc(), {
+    organizationId: match.organizationId,
+    userId: match.menteeId,
+    type: "match",
+    title: "New Mentor Match",
+    body: `You've been matched with ${mentor.name}, ${mentor.title} at ${mentor.company}. ${mentor.skills && mentor.skills.length > 0 ? `Specializes in ${mentor.skills.slice(0, 3).join(", ")}.` : ""} Reach out to start your mentorship journey!`,
+    isRead: false,
+    timestamp,
+    chatId: match.mentorId,
+  });
+  batch.set(db.collection("notifications").doc(), {
+    organizationId: match.organizationId,
+    userId: match.mentorId,
+    type: "match",
+    title: "New Mentee Match",
+    body: `You've been matched with ${mentee.name}, ${mentee.title} at ${mentee.company}. ${mentee.goals && mentee.goals.length > 0 ? `Looking to grow in: ${mentee.goals.slice(0, 3).join(", ")}.` : ""} Ready to guide them on their journey!`,
+    isRead: false,
+    timestamp,
+    chatId: match.menteeId,
+  });
+  await batch.commit();
+
+  for (const user of [mentor, mentee]) {
+    if (!(await canDeliver(user, "match", "email", "startMatch"))) continue;
+    getEmailService()
+      .sendMatchCreated(user, match, mentor, mentee)
+      .then(() => {
+        console.log(`✅ Match created email sent to ${user.email}`);
+      })
+      .catch((err) => {
+        console.error(`❌ Failed to send match email to ${user.email}:`, formatError(err));
+      });
+  }
+}
+
+const MATCH_NOTIFICATION_TITLES: Record<MatchUpdateTransition, string> = {
+  proposed: "New Match Proposal",
+  declined: "Match Declined",
+  paused: "Match Paused",
+  resumed: "Match Resumed",
+  endingSoon: "Match Ending Soon",
+  closed: "Match Closed",
+};
+
+// In-app notification and email to both sides for every other lifecycle transition
+async function notifyMatchTransition(
+  match: Match,
+  transition: MatchUpdateTransition,
+  mentor: User,
+  mentee: User
+) {
+  const timestamp = admin.firestore.Timestamp.now();
+  const batch = db.batch();
+  for (const [user, otherUser] of [
+    [mentor, mentee],
+    [mentee, mentor],
+  ]) {
+    const body = {
+      proposed: `You've been proposed a mentorship match with ${otherUser.name}. Accept or decline it from your dashboard.`,
+      declined: `The proposed match with ${otherUser.name} was declined.`,
+      paused: `Your mentorship with ${otherUser.name} is paused.`,
+      resumed: `Your mentorship with ${otherUser.name} is active again.`,
+      endingSoon: `Your mentorship with ${otherUser.name} ends on ${match.endDate}.`,
+      closed: `Your mentorship with ${otherUser.name} has ended. Share an outcome summary and rating from your dashboard.`,
+    }[transition];
+    batch.set(db.collection("notifications").doc(), {
+      organizationId: match.organizationId,
+      userId: user.id,
+      type: "match",
+      title: MATCH_NOTIFICATION_TITLES[transition],
+      body,
+      isRead: false,
+      timestamp,
+    });
+    if (!(await canDeliver(user, "match", "email", "notifyMatchTransition"))) continue;
+
+    getEmailService()
+      .sendMatchUpdate(user, transition, match, mentor, mentee)
+      .then(() => {
+        console.log(`✅ Match ${transition} email sent to ${user.email}`);
+      })
+      .catch((err) => {
+        console.error(`❌ Failed to send match ${transition} email to ${user.email}:`, formatError(err));
+      });
+  }
+  await batch.commit();
+}
+
 // Firestore triggers for email notifications
 // 1st gen: legacy GCFv1 name in GCP; v2 in-place upgrade not supported.
-// Trigger when a match is created
+// Trigger when a match is created: proposals ask both sides to respond; matches created ACTIVE start right away
 export const onMatchCreated = functionsV1
   .runWith({
     memory: "256MB",
@@ -1300,69 +1578,105 @@ export const onMatchCreated = functionsV1
   .firestore.document("matches/{matchId}")
   .onCreate(async (snap, _context) => {
     try {
-      const matchData = snap.data();
       const match: Match = {
         id: snap.id,
-        ...(matchData as Omit<Match, "id">),
+        ...(snap.data() as Omit<Match, "id">),
       };
+      if (match.status !== MatchStatus.PENDING && match.status !== MatchStatus.ACTIVE) return;
 
-      // Get mentor and mentee user data
-      const mentorDoc = await db.collection("users").doc(match.mentorId).get();
-      const menteeDoc = await db.collection("users").doc(match.menteeId).get();
-      const orgDoc = await db.collection("organizations").doc(match.organizationId).get();
+      const participants = await getMatchParticipants(match);
+      if (!participants) {
+        console.error("Missing user data for match email");
+        return;
+      }
 
-      if (!mentorDoc.exists || !menteeDoc.exists || !orgDoc.exists) {
-        console.error("Missing user or organization data for match email");
+      if (match.status === MatchStatus.PENDING) {
+        await notifyMatchTransition(match, "proposed", participants.mentor, participants.mentee);
+      } else {
+        await startMatch(match, participants.mentor, participants.mentee);
+      }
+    } catch (error: unknown) {
+      console.error("Error in onMatchCreated trigger:", formatError(error));
+    }
+  });
+
+// Trigger when a match changes status: accept/decline, pause/resume and closure
+export const onMatchUpdated = functionsV1
+  .runWith({
+    memory: "256MB",
+    maxInstances: BACKGROUND_V2_RUNTIME.maxInstances,
+  })
+  .region(BACKGROUND_V2_RUNTIME.region)
+  .firestore.document("matches/{matchId}")
+  .onUpdate(async (change, _context) => {
+    try {
+      const before: Match = { id: change.before.id, ...(change.before.data() as Omit<Match, "id">) };
+      const after: Match = { id: change.after.id, ...(change.after.data() as Omit<Match, "id">) };
+
+      // Clients only record their own answer; settling the proposal here re-triggers us with the new status
+      const resolution = resolvePendingMatch(after);
+      if (resolution) {
+        await change.after.ref.update(resolution);
         return;
       }
 
-      const mentorData = mentorDoc.data();
-      const menteeData = menteeDoc.data();
-      // const orgData = orgDoc.data(); // Unused
+      const transition = getMatchTransition(before, after);
+      if (!transition) return;
 
-      const mentor: User = {
-        id: mentorDoc.id,
-        ...(mentorData as Omit<User, "id" | "createdAt">),
-        createdAt: mentorData?.createdAt?.toDate().toISOString() || new Date().toISOString(),
-      };
+      const participants = await getMatchParticipants(after);
+      if (!participants) {
+        console.error(`Missing user data for match ${after.id} (${transition})`);
+        return;
+      }
 
-      const mentee: User = {
-        id: menteeDoc.id,
-        ...(menteeData as Omit<User, "id" | "createdAt">),
-        createdAt: menteeData?.createdAt?.toDate().toISOString() || new Date().toISOString(),
-      };
+      if (transition === "accepted") {
+        await startMatch(after, participants.mentor, participants.mentee);
+      } else {
+        await notifyMatchTransition(after, transition, participants.mentor, participants.mentee);
+      }
+    } catch (error: unknown) {
+      console.error("Error in onMatchUpdated trigger:", formatError(error));
+    }
+  });
 
-      // Send email to both mentor and mentee
-      const matchForEmail: Match = {
-        id: match.id,
-        organizationId: match.organizationId,
-        mentorId: match.mentorId,
-        menteeId: match.menteeId,
-        status: match.status,
-        startDate: match.startDate,
-      };
+// Daily reminder to both sides of active matches whose endDate is ENDING_SOON_DAYS or less away
+export const checkMatchesEndingSoon = functionsV1
+  .runWith({
+    memory: "256MB",
+    maxInstances: BACKGROUND_V2_RUNTIME.maxInstances,
+  })
+  .region(BACKGROUND_V2_RUNTIME.region)
+  .pubsub.schedule("every 24 hours")
+  .timeZone("America/New_York")
+  .onRun(async (_context) => {
+    try {
+      const cutoff = addDays(new Date().toISOString().slice(0, 10), ENDING_SOON_DAYS);
+      const matchesSnapshot = await db
+        .collection("matches")
+        .where("status", "==", MatchStatus.ACTIVE)
+        .where("endDate", "<=", cutoff)
+        .get();
 
-      // Send to mentor
-      getEmailService()
-        .sendMatchCreated(mentor, matchForEmail, mentor, mentee)
-        .then(() => {
-          console.log(`✅ Match created email sent to mentor: ${mentor.email}`);
-        })
-        .catch((err) => {
-          console.error(`❌ Failed to send match email to mentor ${mentor.email}:`, formatError(err));
-        });
+      let notified = 0;
+      for (const matchDoc of matchesSnapshot.docs) {
+        const match: Match = { id: matchDoc.id, ...(matchDoc.data() as Omit<Match, "id">) };
+        // Cleared on resume when the end date moves, so a paused match is reminded again
+        if (match.endingSoonNotifiedAt) continue;
 
-      // Send to mentee
-      getEmailService()
-        .sendMatchCreated(mentee, matchForEmail, mentor, mentee)
-        .then(() => {
-          console.log(`✅ Match created email sent to mentee: ${mentee.email}`);
-        })
-        .catch((err) => {
-          console.error(`❌ Failed to send match email to mentee ${mentee.email}:`, formatError(err));
-        });
+        try {
+          const participants = await getMatchParticipants(match);
+          if (!participants) continue;
+          await notifyMatchTransition(match, "endingSoon", participants.mentor, participants.mentee);
+          await matchDoc.ref.update({ endingSoonNotifiedAt: new Date().toISOString() });
+          notified++;
+        } catch (error: unknown) {
+          console.error(`Error sending ending-soon reminder for match ${match.id}:`, formatError(error));
+        }
+      }
+
+      console.log(`Sent ending-soon reminders for ${notified} of ${matchesSnapshot.size} matches`);
     } catch (error: unknown) {
-      console.error("Error in onMatchCreated trigger:", formatError(error));
+      console.error("Error checking matches ending soon:", formatError(error));
     }
   });
 
@@ -1421,6 +1735,8 @@ export const onGoalCompleted = functionsV1
           dueDate: goal.dueDate,
         };
 
+        if (!(await canDeliver(user, "goal", "email", "onGoalCompleted"))) return;
+
         // Send goal completed email
         getEmailService()
           .sendGoalCompleted(user, goalForEmail)
@@ -1436,6 +1752,172 @@ export const onGoalCompleted = functionsV1
     }
   });
 
+// Firestore timestamps are Timestamps when written by Functions and ISO strings when written by the client
+const toMillis = (value: unknown): number =>
+  value instanceof admin.firestore.Timestamp
+    ? value.toMillis()
+    : typeof value === "string"
+      ? new Date(value).getTime()
+      : 0;
+
+// One user's digest: unread notifications, unread DMs, upcoming sessions and goal changes since
+// `since`, limited to the categories they still want by email
+async function buildDigestContent(
+  user: User,
+  frequency: "daily" | "weekly",
+  since: Date,
+  now: Date
+): Promise<DigestContent> {
+  const [wantsMessages, wantsMeetings, wantsGoals, wantsMatches, wantsSystem] = await Promise.all(
+    (["message", "meeting", "goal", "match", "system"] as const).map((type) => isChannelEnabled(user, type, "email"))
+  );
+  const wantedNotificationTypes = new Set([
+    ...(wantsMeetings ? ["meeting"] : []),
+    ...(wantsGoals ? ["goal"] : []),
+    ...(wantsMatches ? ["match"] : []),
+    ...(wantsSystem ? ["system"] : []),
+  ]);
+  const content: DigestContent = { notifications: [], unreadMessages: [], upcomingEvents: [], goalChanges: [] };
+  const nameCache = new Map<string, string>();
+  const getName = async (userId: string) => {
+    if (!nameCache.has(userId)) {
+      const doc = await db.collection("users").doc(userId).get();
+      nameCache.set(userId, (doc.data()?.name as string) || "Someone");
+    }
+    return nameCache.get(userId)!;
+  };
+
+  // Chat messages get their own section, so "message" notifications are left out here
+  const notificationsSnapshot = await db
+    .collection("notifications")
+    .where("userId", "==", user.id)
+    .where("isRead", "==", false)
+    .get();
+  content.notifications = notificationsSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((data) => wantedNotificationTypes.has(data.type) && toMillis(data.timestamp) >= since.getTime())
+    .sort((a, b) => toMillis(b.timestamp) - toMillis(a.timestamp))
+    .slice(0, 20)
+    .map((data) => ({
+      type: data.type,
+      title: data.title || "Notification",
+      body: data.body || "",
+      timestamp: new Date(toMillis(data.timestamp)).toISOString(),
+    }));
+
+  if (wantsMessages) {
+    // DMs to this user are stored under the recipient's id as chatId (see startMatch)
+    const messagesSnapshot = await db.collection("chatMessages").where("chatId", "==", user.id).get();
+    const unreadBySender = new Map<string, number>();
+    for (const doc of messagesSnapshot.docs) {
+      const data = doc.data();
+      if (data.chatType !== "dm" || data.senderId === user.id) continue;
+      if ((data.readBy || []).includes(user.id) || toMillis(data.timestamp) < since.getTime()) continue;
+      unreadBySender.set(data.senderId, (unreadBySender.get(data.senderId) || 0) + 1);
+    }
+    for (const [senderId, count] of unreadBySender) {
+      content.unreadMessages.push({ senderName: await getName(senderId), count });
+    }
+  }
+
+  if (wantsMeetings) {
+    const horizon = getDigestHorizonEnd(frequency, now);
+    const events = db.collection("calendarEvents");
+    const snapshots = await Promise.all([
+      events.where("participants", "array-contains", user.id).get(),
+      events.where("mentorId", "==", user.id).get(),
+      events.where("menteeId", "==", user.id).get(),
+    ]);
+    const eventDocs = new Map<string, FirebaseFirestore.DocumentData>();
+    snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) => eventDocs.set(doc.id, doc.data())));
+    for (const data of eventDocs.values()) {
+      const starts = data.recurrence
+        ? getOccurrencesBetween(data as Parameters<typeof getOccurrencesBetween>[0], now, horizon, user.timezone).map(
+            (occurrence) => occurrence.startsAt
+          )
+        : [getEventStart(data as { date: string; startTime: string }, user.timezone)];
+      for (const start of starts) {
+        if (start < now || start > horizon) continue;
+        content.upcomingEvents.push({
+          title: data.title,
+          startsAt: start.toISOString(),
+          timeZone: data.timeZone,
+          googleMeetLink: data.googleMeetLink,
+        });
+      }
+    }
+    content.upcomingEvents.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  if (wantsGoals) {
+    // Own goals plus, for mentors, the goals of their active mentees
+    const matchesSnapshot = await db
+      .collection("matches")
+      .where("mentorId", "==", user.id)
+      .where("status", "==", MatchStatus.ACTIVE)
+      .get();
+    const ownerIds = [user.id, ...matchesSnapshot.docs.map((doc) => doc.data().menteeId as string)].slice(0, 30);
+    const goalsSnapshot = await db.collection("goals").where("userId", "in", ownerIds).get();
+    for (const doc of goalsSnapshot.docs) {
+      const goal = doc.data() as Goal;
+      if (!goal.updatedAt || new Date(goal.updatedAt) < since) continue;
+      content.goalChanges.push({
+        title: goal.title,
+        ownerName: goal.userId === user.id ? "You" : await getName(goal.userId),
+        status: goal.status,
+        progress: goal.progress,
+      });
+    }
+  }
+
+  return content;
+}
+
+// Hourly: sends daily/weekly digests to users whose local time is the digest hour (see utils/digest.ts)
+export const sendEmailDigests = functionsV1
+  .runWith({
+    memory: "256MB",
+    maxInstances: BACKGROUND_V2_RUNTIME.maxInstances,
+  })
+  .region(BACKGROUND_V2_RUNTIME.region)
+  .pubsub.schedule("every 1 hours")
+  .onRun(async (_context) => {
+    try {
+      const now = new Date();
+      const usersSnapshot = await db.collection("users").where("emailDigest", "in", ["daily", "weekly"]).get();
+
+      let sent = 0;
+      for (const userDoc of usersSnapshot.docs) {
+        const userData = userDoc.data();
+        const frequency = userData.emailDigest;
+        if (!isDigestFrequency(frequency) || !userData.email || userData.suspended || userData.deactivated) continue;
+        if (!isDigestDue(frequency, userData.timezone, userData.lastDigestSentAt, now)) continue;
+
+        const user: User = {
+          id: userDoc.id,
+          ...(userData as Omit<User, "id" | "createdAt">),
+          createdAt: userData.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
+        };
+        try {
+          const since = getDigestWindowStart(frequency, user.lastDigestSentAt, now);
+          const content = await buildDigestContent(user, frequency, since, now);
+          if (!isDigestEmpty(content)) {
+            await getEmailService().sendDigest(user, frequency, content);
+            sent++;
+          }
+          // Advance the window even when there was nothing to send
+          await userDoc.ref.update({ lastDigestSentAt: now.toISOString() });
+        } catch (error: unknown) {
+          console.error(`Error sending ${frequency} digest to ${user.email}:`, formatError(error));
+        }
+      }
+
+      console.log(`Sent ${sent} email digests (${usersSnapshot.size} digest subscribers)`);
+    } catch (error: unknown) {
+      console.error("Error sending email digests:", formatError(error));
+    }
+  });
+
 // Note: Payment processing is now handled by Flowglad
 // See /api/flowglad/checkout.ts, /api/flowglad/portal.ts, and /api/flowglad/webhook.ts
 
@@ -1464,6 +1946,11 @@ export const checkExpiringTrials = functionsV1
         const orgData = orgDoc.data();
         if (!orgData.trialEnd) continue;
 
+        // Trial entitlements end with the trial; drop the participant limit back to the free plan
+        await refreshOrganizationUsage(orgDoc.id).catch((err) =>
+          console.error(`Error refreshing plan usage for ${orgDoc.id}:`, formatError(err))
+        );
+
         const trialEndDate = new Date(orgData.trialEnd);
         const daysRemaining = Math.ceil(
           (trialEndDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
@@ -1514,6 +2001,12 @@ export const checkExpiringTrials = functionsV1
     }
   });
 
+// Returned by the calendar sync endpoints when the organization's plan has no calendar integration
+const CALENDAR_UPGRADE_REQUIRED = {
+  error: "upgrade_required",
+  message: "Calendar integration is not included in your organization's plan.",
+};
+
 // Google Calendar Sync Endpoint
 export const syncCalendarEvent = functions.onRequest(
   {
@@ -1534,6 +2027,19 @@ export const syncCalendarEvent = functions.onRequest(
         return;
       }
 
+      // Deletes stay allowed so events can be cleaned up after a downgrade
+      if (action !== "delete") {
+        const organizationId = await getCallerOrganizationId(req);
+        if (!organizationId) {
+          res.status(401).json({ error: "Unauthorized", message: "Sign in required to sync your calendar." });
+          return;
+        }
+        if (!(await organizationHasFeature(organizationId, "calendarIntegration"))) {
+          res.status(403).json(CALENDAR_UPGRADE_REQUIRED);
+          return;
+        }
+      }
+
       const auth = new google.auth.OAuth2();
       auth.setCredentials({ access_token: accessToken });
 
@@ -1631,15 +2137,35 @@ export const checkMeetingReminders = functionsV1
       // const oneHourFromNow = new Date(now.getTime() + 60 * 60 * 1000); // Unused
       // const twentyFourHoursFromNow = new Date(now.getTime() + 24 * 60 * 60 * 1000); // Unused
 
-      // Get all calendar events that start within the next 24 hours
+      // Get all calendar events that start within the next 24 hours. `date` is the wall-clock
+      // date in the event's own zone, which trails the UTC date by up to a day west of UTC.
+      const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
       const eventsSnapshot = await db
         .collection("calendarEvents")
-        .where("date", ">=", now.toISOString().split("T")[0])
+        .where("date", ">=", yesterday.toISOString().split("T")[0])
         .get();
 
+      // Events saved before time zones existed are read in their creator's profile zone
+      const creatorTimeZones = new Map<string, string | undefined>();
+      const getCreatorTimeZone = async (userId?: string) => {
+        if (!userId) return undefined;
+        if (!creatorTimeZones.has(userId)) {
+          const creatorDoc = await db.collection("users").doc(userId).get();
+          creatorTimeZones.set(userId, creatorDoc.data()?.timezone);
+        }
+        return creatorTimeZones.get(userId);
+      };
+
       for (const eventDoc of eventsSnapshot.docs) {
         const eventData = eventDoc.data();
-        const eventDate = new Date(`${eventData.date}T${eventData.startTime}`);
+        // Recurring series are handled per occurrence below
+        if (eventData.recurrence) continue;
+        const eventDate = getEventStart(
+          eventData as { date: string; startTime: string; timeZone?: string; startsAt?: string },
+          eventData.startsAt || eventData.timeZone
+            ? undefined
+            : await getCreatorTimeZone(eventData.createdBy)
+        );
 
         // Skip if event is in the past
         if (eventDate < now) continue;
@@ -1656,23 +2182,91 @@ export const checkMeetingReminders = functionsV1
         // - 1 hour before (and we haven't sent it yet)
         if (hoursUntil <= 24 && hoursUntil > 23 && !reminders24hSent) {
           // 24-hour reminder
-          await sendMeetingReminders(eventDoc.id, eventData, 24);
+          await sendMeetingReminders(eventDoc.id, { ...eventData, startsAt: eventDate.toISOString() }, 24);
           // Mark as sent
           await eventDoc.ref.update({ reminder24hSent: true });
         } else if (hoursUntil <= 1 && hoursUntil > 0 && !reminders1hSent) {
           // 1-hour reminder
-          await sendMeetingReminders(eventDoc.id, eventData, 1);
+          await sendMeetingReminders(eventDoc.id, { ...eventData, startsAt: eventDate.toISOString() }, 1);
           // Mark as sent
           await eventDoc.ref.update({ reminder1hSent: true });
         }
       }
 
-      console.log(`Checked ${eventsSnapshot.size} events for reminders`);
+      // Recurring series: the stored date is only the first occurrence, so expand each series
+      // and track reminders per occurrence date in occurrenceReminders
+      const seriesSnapshot = await db
+        .collection("calendarEvents")
+        .where("recurrence.frequency", "in", ["DAILY", "WEEKLY", "MONTHLY"])
+        .get();
+      const reminderWindowEnd = new Date(now.getTime() + 25 * 60 * 60 * 1000);
+
+      for (const seriesDoc of seriesSnapshot.docs) {
+        const seriesData = seriesDoc.data();
+        const occurrences = getOccurrencesBetween(
+          seriesData as Parameters<typeof getOccurrencesBetween>[0],
+          now,
+          reminderWindowEnd,
+          seriesData.timeZone ? undefined : await getCreatorTimeZone(seriesData.createdBy)
+        );
+        const sentReminders: Record<string, boolean> = seriesData.occurrenceReminders || {};
+
+        for (const occurrence of occurrences) {
+          const hoursUntil = Math.floor((occurrence.startsAt.getTime() - now.getTime()) / (60 * 60 * 1000));
+          const occurrenceData = {
+            ...seriesData,
+            date: occurrence.date,
+            startsAt: occurrence.startsAt.toISOString(),
+          };
+
+          if (hoursUntil <= 24 && hoursUntil > 23 && !sentReminders[`${occurrence.date}_24h`]) {
+            await sendMeetingReminders(seriesDoc.id, occurrenceData, 24);
+            await seriesDoc.ref.update({ [`occurrenceReminders.${occurrence.date}_24h`]: true });
+          } else if (hoursUntil <= 1 && hoursUntil > 0 && !sentReminders[`${occurrence.date}_1h`]) {
+            await sendMeetingReminders(seriesDoc.id, occurrenceData, 1);
+            await seriesDoc.ref.update({ [`occurrenceReminders.${occurrence.date}_1h`]: true });
+          }
+        }
+      }
+
+      console.log(`Checked ${eventsSnapshot.size} events and ${seriesSnapshot.size} recurring series for reminders`);
     } catch (error: unknown) {
       console.error("Error checking meeting reminders:", formatError(error));
     }
   });
 
+// Graph recurrence has no EXDATE, so excepted occurrences of a series are cancelled one by one
+async function cancelOutlookOccurrences(
+  graphUrl: string,
+  accessToken: string,
+  seriesId: string,
+  occurrenceStarts: unknown
+): Promise<void> {
+  if (!Array.isArray(occurrenceStarts) || occurrenceStarts.length === 0) return;
+
+  for (const start of occurrenceStarts) {
+    const startMs = Date.parse(String(start));
+    if (Number.isNaN(startMs)) continue;
+    const windowStart = new Date(startMs - 60 * 1000).toISOString();
+    const windowEnd = new Date(startMs + 60 * 1000).toISOString();
+    const instancesResponse = await fetch(
+      `${graphUrl}/me/events/${seriesId}/instances?startDateTime=${windowStart}&endDateTime=${windowEnd}`,
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+    if (!instancesResponse.ok) {
+      console.warn(`Could not list Outlook instances for ${seriesId} at ${start}`);
+      continue;
+    }
+    const { value: instances = [] } = (await instancesResponse.json()) as { value?: Array<{ id: string }> };
+    for (const instance of instances) {
+      await fetch(`${graphUrl}/me/events/${instance.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+    }
+  }
+}
+
 // Microsoft Outlook Calendar Sync Endpoint
 export const syncOutlookCalendar = functions.onRequest(
   {
@@ -1686,13 +2280,25 @@ export const syncOutlookCalendar = functions.onRequest(
     }
 
     try {
-      const { action, event, eventId, accessToken, startDateTime, endDateTime } = req.body;
+      const { action, event, eventId, accessToken, startDateTime, endDateTime, excludedOccurrenceStarts } = req.body;
 
       if (!accessToken) {
         res.status(400).json({ error: "Access token required" });
         return;
       }
 
+      if (action !== "delete") {
+        const organizationId = await getCallerOrganizationId(req);
+        if (!organizationId) {
+          res.status(401).json({ error: "Unauthorized", message: "Sign in required to sync your calendar." });
+          return;
+        }
+        if (!(await organizationHasFeature(organizationId, "calendarIntegration"))) {
+          res.status(403).json(CALENDAR_UPGRADE_REQUIRED);
+          return;
+        }
+      }
+
       const graphUrl = "https://graph.microsoft.com/v1.0";
 
       switch (action) {
@@ -1717,6 +2323,7 @@ export const syncOutlookCalendar = functions.onRequest(
           }
 
           const createdEvent = await response.json();
+          await cancelOutlookOccurrences(graphUrl, accessToken, createdEvent.id, excludedOccurrenceStarts);
           res.json({ eventId: createdEvent.id });
           break;
         }
@@ -1741,6 +2348,7 @@ export const syncOutlookCalendar = functions.onRequest(
             throw new Error(error.error?.message || "Failed to update Outlook event");
           }
 
+          await cancelOutlookOccurrences(graphUrl, accessToken, event.id, excludedOccurrenceStarts);
           res.json({ success: true });
           break;
         }
@@ -1887,6 +2495,18 @@ export const syncAppleCalendar = functions.onRequest(
         return;
       }
 
+      if (action !== "delete") {
+        const organizationId = await getCallerOrganizationId(req);
+        if (!organizationId) {
+          res.status(401).json({ error: "Unauthorized", message: "Sign in required to sync your calendar." });
+          return;
+        }
+        if (!(await organizationHasFeature(organizationId, "calendarIntegration"))) {
+          res.status(403).json(CALENDAR_UPGRADE_REQUIRED);
+          return;
+        }
+      }
+
       // Check if using third-party service
       const useThirdParty = process.env.USE_APPLE_CALENDAR_SERVICE === "true";
       const serviceUrl = process.env.APPLE_CALENDAR_SERVICE_URL;
@@ -1934,116 +2554,6 @@ export const syncAppleCalendar = functions.onRequest(
   }
 );
 
-// Helper function to send FCM push notification
-async function sendFCMPushNotification(
-  userId: string,
-  notification: {
-    title: string;
-    body: string;
-    type: string;
-    chatId?: string;
-    notificationId: string;
-  }
-): Promise<void> {
-  try {
-    // Get user document to retrieve FCM token
-    const userDoc = await db.collection("users").doc(userId).get();
-    
-    if (!userDoc.exists) {
-      console.log(`User ${userId} not found, skipping FCM notification`);
-      return;
-    }
-
-    const userData = userDoc.data();
-    const fcmToken = userData?.fcmToken;
-
-    if (!fcmToken) {
-      console.log(`No FCM token for user ${userId}, skipping push notification`);
-      return;
-    }
-
-    // Prepare notification payload with platform-specific options
-    // Works for both iOS (Safari 16.4+) and Android (Chrome/Edge/Firefox)
-    const message: any = {
-      notification: {
-        title: notification.title,
-        body: notification.body,
-      },
-      data: {
-        type: notification.type,
-        notificationId: notification.notificationId,
-        ...(notification.chatId && { chatId: notification.chatId }),
-      },
-      token: fcmToken,
-      webpush: {
-        notification: {
-          title: notification.title,
-          body: notification.body,
-          icon: '/icon-192.png',
-          badge: '/icon-192.png',
-          requireInteraction: false,
-          silent: false,
-        },
-        fcmOptions: {
-          link: notification.chatId 
-            ? `/chat:${notification.chatId}` 
-            : '/notifications',
-        },
-        headers: {
-          Urgency: 'high', // High priority for better delivery
-        },
-      },
-      // Android-specific options
-      android: {
-        priority: 'high',
-        notification: {
-          channelId: 'default',
-          sound: 'default',
-          priority: 'high',
-        },
-      },
-      // iOS-specific options (APNS)
-      apns: {
-        headers: {
-          'apns-priority': '10', // High priority for iOS
-        },
-        payload: {
-          aps: {
-            alert: {
-              title: notification.title,
-              body: notification.body,
-            },
-            sound: 'default',
-            badge: 1,
-          },
-        },
-      },
-    };
-
-    // Send FCM message
-    await admin.messaging().send(message);
-    console.log(`FCM push notification sent to user ${userId}`);
-  } catch (error: unknown) {
-    // Log error but don't throw - FCM failures shouldn't break notification creation
-    console.error(`Error sending FCM push notification to user ${userId}:`, formatError(error));
-    
-    // If token is invalid, remove it from user document
-    const errorCode = getErrorCode(error);
-    if (errorCode === 'messaging/invalid-registration-token' || 
-        errorCode === 'messaging/registration-token-not-registered') {
-      try {
-        await db.collection("users").doc(userId).update({
-          fcmToken: admin.firestore.FieldValue.delete(),
-          fcmTokenUpdatedAt: admin.firestore.FieldValue.delete(),
-        });
-        console.log(`Removed invalid FCM token for user ${userId}`);
-      } catch (updateError) {
-        console.error(`Error removing invalid FCM token:`, updateError);
-      }
-    }
-  }
-}
-
 // Send invitation email endpoint (browser fetch from Referrals UI; invoker public for CORS preflight)
 export const sendInvitationEmail = functions.onRequest(
   {
@@ -2097,6 +2607,17 @@ export const sendInvitationEmail = functions.onRequest(
       }
       // #endregion
 
+      // Org for the emailLog entry comes from the invitation doc, not the (unauthenticated) body
+      const invitationRef = invitationId ? db.collection("invitations").doc(invitationId) : null;
+      const invitationData = invitationRef ? (await invitationRef.get()).data() : undefined;
+      const invitationOrgId = invitationData?.organizationId as string | undefined;
+
+      // Tokens are single use: accepted, expired and revoked invites are never re-sent
+      if (invitationData && invitationData.status !== "Pending") {
+        res.status(409).json({ error: "This invitation is no longer pending" });
+        return;
+      }
+
       // Send invitation email
       try {
         await getEmailService().sendInvitation(
@@ -2106,17 +2627,20 @@ export const sendInvitationEmail = functions.onRequest(
           organizationName,
           role,
           inviterName,
-          personalNote
+          personalNote,
+          invitationOrgId
         );
         
         console.log(`✅ Invitation email sent successfully to ${recipientEmail} for ${organizationName}`);
 
-        // Update invitation status if invitationId is provided
-        if (invitationId) {
+        // A (re)send starts a fresh lifetime under the org's expiry setting, with its own reminder
+        if (invitationRef) {
           try {
-            await db.collection("invitations").doc(invitationId).update({
-              status: "Pending",
+            const org = invitationOrgId ? await loadOrganization(invitationOrgId) : null;
+            await invitationRef.update({
               sentDate: admin.firestore.Timestamp.now(),
+              expiresAt: getInvitationExpiry(org?.invitationExpiryDays),
+              reminderSentAt: admin.firestore.FieldValue.delete(),
             });
             console.log(`✅ Invitation status updated for ${invitationId}`);
           } catch (updateError) {
@@ -2140,6 +2664,64 @@ export const sendInvitationEmail = functions.onRequest(
   }
 );
 
+/**
+ * Every 6 hours: marks pending invitations past expiresAt as Expired and sends the single
+ * reminder to invitees whose link is about to lapse (see utils/invitations.ts).
+ */
+export const processInvitationExpiry = onSchedule(
+  {
+    schedule: "every 6 hours",
+    ...BACKGROUND_V2_RUNTIME,
+    maxInstances: 1,
+  },
+  async () => {
+    const now = new Date();
+    try {
+      const pending = await db.collection("invitations").where("status", "==", "Pending").get();
+      const organizations = new Map<string, Promise<Organization | null>>();
+
+      let expired = 0;
+      let reminded = 0;
+      for (const invitationDoc of pending.docs) {
+        const invitation = invitationDoc.data();
+        try {
+          if (isInvitationExpired(invitation, now)) {
+            await invitationDoc.ref.update({ status: "Expired" });
+            expired++;
+            continue;
+          }
+          if (!isInvitationReminderDue(invitation, now) || !invitation.email || !invitation.invitationLink) continue;
+
+          const organizationId = invitation.organizationId as string;
+          if (!organizations.has(organizationId)) organizations.set(organizationId, loadOrganization(organizationId));
+          const organization = await organizations.get(organizationId);
+          const expiresAt = getInvitationExpiresAt(invitation);
+          if (!organization || !expiresAt) continue;
+
+          // Claim the reminder first so a failed or repeated run can never send it twice
+          await invitationDoc.ref.update({ reminderSentAt: now.toISOString() });
+          await getEmailService().sendInvitationReminder(
+            invitation.invitationLink,
+            invitation.email,
+            invitation.name || invitation.email,
+            organization.name,
+            invitation.role,
+            expiresAt,
+            organizationId
+          );
+          reminded++;
+        } catch (error: unknown) {
+          console.error(`Error processing invitation ${invitationDoc.id}:`, formatError(error));
+        }
+      }
+
+      console.log(`Invitation expiry: ${expired} expired, ${reminded} reminders (${pending.size} pending)`);
+    } catch (error: unknown) {
+      console.error("Error processing invitation expiry:", formatError(error));
+    }
+  }
+);
+
 // 1st gen: legacy GCFv1 name in GCP; v2 in-place upgrade not supported.
 // Firestore trigger: Send FCM push notification when a notification is created
 export const onNotificationCreated = functionsV1
@@ -2154,13 +2736,14 @@ export const onNotificationCreated = functionsV1
       const notificationData = snap.data();
       const notificationId = snap.id;
 
-      // Only send push notification if user has FCM token
-      // The sendFCMPushNotification function will check for token existence
+      // Pushes to every registered device; sendFCMPushNotification skips users with none
       await sendFCMPushNotification(notificationData.userId, {
         title: notificationData.title || "New Notification",
         body: notificationData.body || "",
         type: notificationData.type || "system",
         chatId: notificationData.chatId,
+        goalId: notificationData.goalId,
+        eventId: notificationData.eventId,
         notificationId,
       });
     } catch (error: unknown) {
@@ -2194,24 +2777,29 @@ async function sendMeetingReminders(
       };
 
       // Send email reminder
-      getEmailService().sendMeetingReminder(
-        user,
-        {
-          title: eventData.title,
-          date: eventData.date,
-          startTime: eventData.startTime,
-          duration: eventData.duration,
-          googleMeetLink: eventData.googleMeetLink,
-          participants: eventData.participants,
-        },
-        hoursUntil
-      )
-        .then(() => {
-          console.log(`✅ Meeting reminder email sent to ${user.email} for event: ${eventData.title} (${hoursUntil}h reminder)`);
-        })
-        .catch((err) => {
-          console.error(`❌ Failed to send meeting reminder to ${user.email} (${userId}):`, formatError(err));
-        });
+      if (await canDeliver(user, "meeting", "email", "sendMeetingReminders")) {
+        getEmailService().sendMeetingReminder(
+          user,
+          {
+            id: eventId,
+            title: eventData.title,
+            date: eventData.date,
+            startTime: eventData.startTime,
+            timeZone: eventData.timeZone,
+            startsAt: eventData.startsAt,
+            duration: eventData.duration,
+            googleMeetLink: eventData.googleMeetLink,
+            participants: eventData.participants,
+          },
+          hoursUntil
+        )
+          .then(() => {
+            console.log(`✅ Meeting reminder email sent to ${user.email} for event: ${eventData.title} (${hoursUntil}h reminder)`);
+          })
+          .catch((err) => {
+            console.error(`❌ Failed to send meeting reminder to ${user.email} (${userId}):`, formatError(err));
+          });
+      }
 
       // Create in-app notification (FCM push will be sent automatically via onNotificationCreated trigger)
       await db.collection("notifications").add({
@@ -2222,6 +2810,7 @@ async function sendMeetingReminders(
         body: `Your meeting "${eventData.title}" starts in ${hoursUntil === 24 ? '24 hours' : '1 hour'}.`,
         isRead: false,
         timestamp: admin.firestore.Timestamp.now(),
+        eventId,
       });
       
       // Note: FCM push notification will be sent automatically by onNotificationCreated trigger
@@ -2240,10 +2829,31 @@ export {
 } from "./gemini";
 
 // Export TOTP 2FA functions
-export { setupTotp, verifyTotpSetup, verifyTotpLogin, disableTotp } from "./totp";
+export {
+  setupTotp,
+  verifyTotpSetup,
+  verifyTotpLogin,
+  checkTrustedDevice,
+  getTotpStatus,
+  regenerateBackupCodes,
+  forgetTrustedDevices,
+  disableTotp,
+  resetUserTotp,
+} from "./totp";
 
 // Invitation lookup for legacy token-based docs (random id)
-export { lookupInvitationByToken } from "./invitations";
+export { lookupInvitationByToken, signUpWithInvitation } from "./invitations";
+
+// Plan usage (participant count/limit) kept on organization docs for Firestore rules
+export { syncParticipantUsage, syncOrganizationPlanUsage } from "./entitlements";
+
+// Audited platform-operator impersonation sessions
+export {
+  startImpersonationSession,
+  endImpersonationSession,
+  auditImpersonatedWrites,
+  auditImpersonatedSubcollectionWrites,
+} from "./impersonation";
 
 // Platform operator provisioning (Admin SDK; keeps creator signed in)
 export {
@@ -2253,3 +2863,34 @@ export {
   updatePlatformOperatorProfile,
 } from "./platformOperators";
 
+// Mentee self-serve booking of mentor availability slots
+export { bookMentorSession } from "./booking";
+
+// Resend/MailerSend delivery, bounce and complaint webhooks
+export { resendWebhook, mailersendWebhook } from "./emailWebhooks";
+
+// Rich HTML (discussion guides, career templates, blog posts) re-sanitized after every write
+export {
+  sanitizeDiscussionGuideContent,
+  sanitizeCareerTemplateContent,
+  sanitizeBlogPostContent,
+} from "./richContent";
+
+// Scheduled blog posts go live at their publishAt time
+export { publishScheduledBlogPosts } from "./blog";
+
+// Public blog feeds, sitemap/robots and article link previews (Hosting rewrites in firebase.json)
+export { blogFeed, sitemap, blogArticlePage } from "./publicFeeds";
+
+// Enterprise SSO (OIDC/SAML) with DNS domain verification and first-login provisioning
+export {
+  getSsoConfig,
+  saveSsoConfig,
+  verifySsoDomain,
+  ssoDiscover,
+  ssoStart,
+  ssoCallback,
+} from "./sso";
+
+// SCIM 2.0 user/group provisioning with per-org bearer tokens
+export { scim, listScimTokens, createScimTokenForOrg, revokeScimToken } from "./scim";
@@ -1,8 +1,12 @@
 import * as functions from "firebase-functions/v2/https";
 import * as admin from "firebase-admin";
+import { isInvitationExpired } from "./utils/invitations";
+import { getErrorCode } from "./utils/errors";
 
 const db = admin.firestore();
 
+const PARTICIPANT_ROLES = ["MENTOR", "MENTEE"];
+
 const RUNTIME = {
   region: "us-central1" as const,
   memory: "256MiB" as const,
@@ -38,14 +42,9 @@ export const lookupInvitationByToken = functions.onCall(RUNTIME, async (request)
     const docSnap = snap.docs[0];
     const data = docSnap.data();
 
-    if (data.expiresAt) {
-      const exp = data.expiresAt.toDate
-        ? data.expiresAt.toDate()
-        : new Date(data.expiresAt as string);
-      if (exp < new Date()) {
-        await docSnap.ref.update({ status: "Expired" });
-        return { invitation: null };
-      }
+    if (isInvitationExpired(data)) {
+      await docSnap.ref.update({ status: "Expired" });
+      return { invitation: null };
     }
 
     const sentDate = data.sentDate?.toDate
@@ -71,6 +70,7 @@ export const lookupInvitationByToken = functions.onCall(RUNTIME, async (request)
         invitationLink: data.invitationLink,
         sentDate,
         expiresAt,
+        openedAt: typeof data.openedAt === "string" ? data.openedAt : undefined,
         inviterId: data.inviterId,
       },
     };
@@ -79,3 +79,126 @@ export const lookupInvitationByToken = functions.onCall(RUNTIME, async (request)
     throw new functions.HttpsError("internal", "Failed to look up invitation");
   }
 });
+
+type ClaimOutcome = "accepted" | "expired" | "revoked" | "used" | "wrong_email" | "full" | "missing";
+
+/**
+ * Flips the Pending invitation with this token to Accepted for uid inside a transaction, so each
+ * token is used once.
+ * Returns the invitation and its organization when the claim succeeds.
+ */
+async function claimInvitation(token: string, uid: string, email: string) {
+  return db.runTransaction(async (tx) => {
+    // New invitations use the token as the document ID; legacy ones keep it in a field
+    const byId = await tx.get(db.collection("invitations").doc(token));
+    const snap = byId.exists
+      ? byId
+      : (await tx.get(db.collection("invitations").where("token", "==", token).limit(1))).docs[0];
+    if (!snap) return { outcome: "missing" as ClaimOutcome };
+    const ref = snap.ref;
+    const data = snap.data() || {};
+    if (data.status === "Revoked") return { outcome: "revoked" as ClaimOutcome };
+    if (data.status !== "Pending") return { outcome: "used" as ClaimOutcome };
+    if (isInvitationExpired(data)) {
+      tx.update(ref, { status: "Expired" });
+      return { outcome: "expired" as ClaimOutcome };
+    }
+    if (typeof data.email === "string" && data.email && data.email.toLowerCase() !== email.toLowerCase()) {
+      return { outcome: "wrong_email" as ClaimOutcome };
+    }
+    // Same seat check as withinParticipantLimit in firestore.rules
+    const orgSnap = await tx.get(db.collection("organizations").doc(String(data.organizationId)));
+    const org = orgSnap.data() || {};
+    if (
+      PARTICIPANT_ROLES.includes(String(data.role)) &&
+      org.participantLimit != null &&
+      (org.participantCount || 0) >= org.participantLimit
+    ) {
+      return { outcome: "full" as ClaimOutcome };
+    }
+    tx.update(ref, {
+      status: "Accepted",
+      acceptedAt: new Date().toISOString(),
+      acceptedUserId: uid,
+    });
+    return { outcome: "accepted" as ClaimOutcome, invitation: data, organization: org };
+  });
+}
+
+const claimError = (outcome: ClaimOutcome) => {
+  switch (outcome) {
+    case "missing":
+      return new functions.HttpsError("not-found", "Invitation not found");
+    case "revoked":
+      return new functions.HttpsError("failed-precondition", "This invitation has been revoked");
+    case "expired":
+      return new functions.HttpsError("failed-precondition", "This invitation has expired");
+    case "wrong_email":
+      return new functions.HttpsError("permission-denied", "This invitation is for a different email address");
+    case "full":
+      return new functions.HttpsError("resource-exhausted", "This organization has reached its participant limit");
+    default:
+      return new functions.HttpsError("failed-precondition", "This invitation has already been used");
+  }
+};
+
+/**
+ * Email/password sign-up from an invitation link, in one call so no profile exists before the token
+ * is claimed: creates the auth account, claims the invitation (deleting the account again if the
+ * claim fails), then writes the profile at users/{uid}. The client signs in with the password afterwards.
+ * (Google sign-in claims the invitation server-side in authGoogle instead.)
+ */
+export const signUpWithInvitation = functions.onCall(RUNTIME, async (request) => {
+  const { token, name, email, password } = request.data || {};
+  if (typeof token !== "string" || token.length < 20) {
+    throw new functions.HttpsError("invalid-argument", "A valid invitation token is required");
+  }
+  if (typeof name !== "string" || !name.trim() || typeof email !== "string" || !email.includes("@")) {
+    throw new functions.HttpsError("invalid-argument", "Name and email are required");
+  }
+  if (typeof password !== "string" || password.length < 6) {
+    throw new functions.HttpsError("invalid-argument", "Password must be at least 6 characters");
+  }
+
+  let uid: string;
+  try {
+    uid = (await admin.auth().createUser({ email: email.trim(), password, displayName: name.trim() })).uid;
+  } catch (err: unknown) {
+    if (getErrorCode(err) === "auth/email-already-exists") {
+      throw new functions.HttpsError("already-exists", "An account with this email already exists. Please sign in instead.");
+    }
+    console.error("signUpWithInvitation: createUser failed", err);
+    throw new functions.HttpsError("internal", "Failed to create account");
+  }
+
+  let claim: Awaited<ReturnType<typeof claimInvitation>>;
+  try {
+    claim = await claimInvitation(token, uid, email.trim());
+  } catch (err: unknown) {
+    console.error("signUpWithInvitation: claim failed", err);
+    await admin.auth().deleteUser(uid).catch(() => undefined);
+    throw new functions.HttpsError("internal", "Failed to accept invitation");
+  }
+  if (claim.outcome !== "accepted" || !claim.invitation) {
+    await admin.auth().deleteUser(uid).catch(() => undefined);
+    throw claimError(claim.outcome);
+  }
+
+  const trimmedName = name.trim();
+  await db.collection("users").doc(uid).set({
+    id: uid,
+    firebaseAuthUid: uid,
+    name: trimmedName,
+    email: email.trim(),
+    role: claim.invitation.role,
+    organizationId: claim.invitation.organizationId,
+    bio: "",
+    skills: [],
+    avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(trimmedName)}&background=random`,
+    title: "",
+    company: claim.organization?.name || "",
+    createdAt: admin.firestore.Timestamp.now(),
+  });
+
+  return { uid, organizationId: claim.invitation.organizationId };
+});
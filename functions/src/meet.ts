@@ -0,0 +1,48 @@
+import { defineSecret, defineString } from "firebase-functions/params";
+import { google } from "googleapis";
+
+export const serviceAccountEmail = defineString("GOOGLE_SERVICE_ACCOUNT_EMAIL", {
+  description: "Google Service Account Email for Meet API",
+});
+
+export const serviceAccountKey = defineSecret("GOOGLE_SERVICE_ACCOUNT_KEY");
+
+/**
+ * Creates an open Google Meet space as the service account and returns its meeting URI.
+ * Functions calling this must list serviceAccountKey in their secrets.
+ */
+export async function createMeetSpace(): Promise<string> {
+  const email = serviceAccountEmail.value();
+  const key = serviceAccountKey.value();
+  if (!email || !key) {
+    throw new Error("Meet service not configured");
+  }
+
+  const auth = new google.auth.GoogleAuth({
+    credentials: {
+      client_email: email,
+      private_key: key.replace(/\\n/g, "\n"),
+    },
+    scopes: ["https://www.googleapis.com/auth/meetings.space.created"],
+  });
+
+  const meet = google.meet({
+    version: "v2",
+    auth: auth
+  });
+
+  // Create a new meeting space
+  const meeting = await meet.spaces.create({
+    requestBody: {
+      config: {
+        accessType: "OPEN",
+        entryPointAccess: "CREATOR_APP",
+      },
+    },
+  });
+
+  if (!meeting.data.meetingUri) {
+    throw new Error("Failed to create meeting");
+  }
+  return meeting.data.meetingUri;
+}
@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const orgDefaults: Record<string, unknown> = {};
+const getOrganization = vi.fn(async (id: string) => ({
+  data: () => (id in orgDefaults ? { notificationDefaults: orgDefaults[id] } : {}),
+}));
+const addSuppression = vi.fn(async (_data: Record<string, unknown>) => undefined);
+
+vi.mock("firebase-admin", () => {
+  const db = {
+    collection: (name: string) =>
+      name === "organizations"
+        ? { doc: (id: string) => ({ get: () => getOrganization(id) }) }
+        : { add: (data: Record<string, unknown>) => addSuppression(data) },
+  };
+  return { firestore: Object.assign(() => db, { Timestamp: { now: () => "now" } }) };
+});
+
+import { canDeliver, isChannelEnabled } from "./notificationDispatcher";
+
+const recipient = (organizationId: string, overrides: Record<string, unknown> = {}) => ({
+  id: "user-1",
+  organizationId,
+  ...overrides,
+});
+
+describe("notification dispatcher", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("falls back to the platform defaults and records why a push was skipped", async () => {
+    expect(await canDeliver(recipient("org-platform"), "goal", "email", "onGoalCompleted")).toBe(true);
+    expect(await canDeliver(recipient("org-platform"), "goal", "push", "onNotificationCreated")).toBe(false);
+
+    expect(addSuppression).toHaveBeenCalledTimes(1);
+    expect(addSuppression.mock.calls[0][0]).toMatchObject({
+      organizationId: "org-platform",
+      userId: "user-1",
+      type: "goal",
+      category: "Goal Updates",
+      channel: "push",
+      reason: "platform_default_off",
+      sender: "onNotificationCreated",
+    });
+  });
+
+  it("lets the organization's defaults override the platform and the user override both", async () => {
+    orgDefaults["org-defaults"] = { "Goal Updates": { push: true }, "Match Updates": { email: false } };
+
+    expect(await canDeliver(recipient("org-defaults"), "goal", "push", "test")).toBe(true);
+    expect(await canDeliver(recipient("org-defaults"), "match", "email", "test")).toBe(false);
+    expect(addSuppression.mock.calls[0][0]).toMatchObject({ reason: "org_default_off" });
+
+    const optedIn = recipient("org-defaults", { notificationPreferences: { "Match Updates": { email: true } } });
+    expect(await canDeliver(optedIn, "match", "email", "test")).toBe(true);
+    const optedOut = recipient("org-defaults", { notificationPreferences: { "Goal Updates": { push: false } } });
+    expect(await canDeliver(optedOut, "goal", "push", "test")).toBe(false);
+    expect(addSuppression.mock.calls[1][0]).toMatchObject({ reason: "user_opt_out" });
+  });
+
+  it("reads an organization's defaults once per cache window", async () => {
+    await canDeliver(recipient("org-cached"), "match", "email", "test");
+    await canDeliver(recipient("org-cached"), "meeting", "email", "test");
+
+    expect(getOrganization).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds emails for digest subscribers without recording a suppression", async () => {
+    const digestReader = recipient("org-digest", { emailDigest: "daily" });
+
+    expect(await canDeliver(digestReader, "match", "email", "test")).toBe(false);
+    expect(await canDeliver(digestReader, "match", "push", "test")).toBe(true);
+    expect(await isChannelEnabled(digestReader, "match", "email")).toBe(true);
+    expect(addSuppression).not.toHaveBeenCalled();
+  });
+
+  it("still sends meeting reminder emails to digest subscribers right away", async () => {
+    const weeklyReader = recipient("org-digest", { emailDigest: "weekly" });
+
+    expect(await canDeliver(weeklyReader, "meeting", "email", "sendMeetingReminders")).toBe(true);
+    expect(await canDeliver(weeklyReader, "goal", "email", "onGoalCompleted")).toBe(false);
+  });
+
+  it("treats unknown types as system alerts", async () => {
+    expect(await canDeliver(recipient("org-unknown"), "announcement", "email", "test")).toBe(false);
+    expect(addSuppression.mock.calls[0][0]).toMatchObject({ type: "announcement", category: "System Alerts" });
+  });
+
+  it("uses the user's choices and platform defaults when the organization cannot be read", async () => {
+    getOrganization.mockRejectedValueOnce(new Error("unavailable"));
+
+    expect(await canDeliver(recipient("org-down"), "meeting", "push", "test")).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Single gate for server-sent notifications. Every sender asks canDeliver() before it sends an
+ * email, and sendFCMPushNotification asks before each push. In-app notifications are always
+ * written: they are the inbox and what digests are built from, so no toggle hides them.
+ * Each event type maps to a Settings category; the user's own toggle wins, then the org's
+ * notificationDefaults, then the platform default. Skipped sends are recorded in
+ * notificationSuppressions so admins can see why someone did not hear about something.
+ * Emails for users on a daily/weekly digest are held back here and sent by sendEmailDigests;
+ * meeting emails still go out immediately since a reminder in tomorrow's digest is too late.
+ */
+import * as admin from "firebase-admin";
+import { EmailDigestFrequency, Notification, NotificationPreferences } from "./types";
+import { formatError } from "./utils/errors";
+import { isHeldForDigest } from "./utils/digest";
+import {
+  NOTIFICATION_TYPE_CATEGORIES,
+  NotificationChannel,
+  PreferenceSource,
+  resolveChannelPreference,
+} from "./utils/notificationPreferences";
+
+const db = admin.firestore();
+
+export interface NotificationRecipient {
+  id: string;
+  organizationId: string;
+  notificationPreferences?: NotificationPreferences;
+  emailDigest?: EmailDigestFrequency;
+}
+
+export type SuppressionReason = "user_opt_out" | "org_default_off" | "platform_default_off";
+
+const SUPPRESSION_REASONS: Record<PreferenceSource, SuppressionReason> = {
+  user: "user_opt_out",
+  organization: "org_default_off",
+  platform: "platform_default_off",
+};
+
+/** Org defaults change rarely; cache them per instance so batch senders don't re-read the org. */
+const ORG_DEFAULTS_TTL_MS = 5 * 60_000;
+const orgDefaultsCache = new Map<string, { defaults: NotificationPreferences | null; expiresAt: number }>();
+
+async function getOrgNotificationDefaults(organizationId: string): Promise<NotificationPreferences | null> {
+  const cached = orgDefaultsCache.get(organizationId);
+  if (cached && cached.expiresAt > Date.now()) return cached.defaults;
+
+  const orgDoc = await db.collection("organizations").doc(organizationId).get();
+  const defaults = (orgDoc.data()?.notificationDefaults as NotificationPreferences | undefined) || null;
+  orgDefaultsCache.set(organizationId, { defaults, expiresAt: Date.now() + ORG_DEFAULTS_TTL_MS });
+  return defaults;
+}
+
+async function resolvePreference(
+  recipient: NotificationRecipient,
+  type: Notification["type"] | string,
+  channel: NotificationChannel
+) {
+  const category = NOTIFICATION_TYPE_CATEGORIES[type as Notification["type"]] || "System Alerts";
+  let orgDefaults: NotificationPreferences | null = null;
+  if (recipient.organizationId) {
+    try {
+      orgDefaults = await getOrgNotificationDefaults(recipient.organizationId);
+    } catch (error: unknown) {
+      // Fall back to the user's own choices and platform defaults
+      console.error(`Failed to load notification defaults for ${recipient.organizationId}:`, formatError(error));
+    }
+  }
+  return { category, ...resolveChannelPreference(recipient.notificationPreferences, orgDefaults, category, channel) };
+}
+
+/** The preference alone, without digest hold-back or a suppression record (for building digests). */
+export async function isChannelEnabled(
+  recipient: NotificationRecipient,
+  type: Notification["type"] | string,
+  channel: NotificationChannel
+): Promise<boolean> {
+  return (await resolvePreference(recipient, type, channel)).allowed;
+}
+
+/**
+ * Whether `recipient` wants `type` notifications on `channel`. `sender` names the caller in the
+ * suppression record (e.g. "sendMeetingReminders"). Unknown types are treated as system alerts.
+ */
+export async function canDeliver(
+  recipient: NotificationRecipient,
+  type: Notification["type"] | string,
+  channel: NotificationChannel,
+  sender: string
+): Promise<boolean> {
+  const { category, allowed, source } = await resolvePreference(recipient, type, channel);
+  if (allowed) {
+    if (channel === "email" && isHeldForDigest(recipient.emailDigest, type)) {
+      // Not a suppression: the digest picks this up from the in-app notification
+      console.log(`📬 Held ${type} email for ${recipient.id} from ${sender} for their ${recipient.emailDigest} digest`);
+      return false;
+    }
+    return true;
+  }
+
+  const reason = SUPPRESSION_REASONS[source];
+  console.log(`🔕 Suppressed ${channel} ${type} notification for ${recipient.id} from ${sender} (${reason})`);
+  try {
+    await db.collection("notificationSuppressions").add({
+      organizationId: recipient.organizationId || null,
+      userId: recipient.id,
+      type,
+      category,
+      channel,
+      reason,
+      sender,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  } catch (error: unknown) {
+    console.error("Failed to record notification suppression:", formatError(error));
+  }
+  return false;
+}
@@ -48,7 +48,7 @@ function isPlatformOperatorUserData(
  * Firestore rules use users/{request.auth.uid}. Legacy profiles may live only under a random doc id
  * with firebaseAuthUid set — match that here so callables work for the same users who can open this UI.
  */
-async function assertCallerIsPlatformOperator(callerUid: string): Promise<void> {
+export async function assertCallerIsPlatformOperator(callerUid: string): Promise<void> {
   const direct = await db.collection("users").doc(callerUid).get();
   if (direct.exists && isPlatformOperatorUserData(direct.data())) {
     return;
@@ -0,0 +1,174 @@
+/**
+ * Crawlable views of the public blog, served through Firebase Hosting rewrites (firebase.json):
+ * /blog/rss.xml and /blog/atom.xml, /sitemap.xml and /robots.txt, and /blog/<slug> as
+ * index.html with the article's Open Graph tags so shared links get a preview.
+ */
+import * as functions from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import { formatError } from "./utils/errors";
+import {
+  buildAtomFeed,
+  buildRobotsTxt,
+  buildRssFeed,
+  buildSitemap,
+  FeedPost,
+  injectArticleMeta,
+} from "./utils/blogFeeds";
+
+const db = admin.firestore();
+
+const RUNTIME = {
+  cors: false,
+  region: "us-central1" as const,
+  invoker: "public" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+const FEED_SIZE = 50;
+const INDEX_HTML_TTL_MS = 5 * 60 * 1000;
+// Browsers re-check after 5 minutes; the Hosting CDN keeps a copy for 10
+const CACHE_CONTROL = "public, max-age=300, s-maxage=600";
+
+type HttpsRequest = functions.Request;
+
+const DEFAULT_HOST = "meant2grow.com";
+const projectId = process.env.GCLOUD_PROJECT || "";
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1)(:\d+)?$/;
+
+// The host header is caller-controlled; only our own domains may end up in links or be fetched
+const isOwnHost = (host: string): boolean =>
+  LOCAL_HOST.test(host) ||
+  host === DEFAULT_HOST ||
+  host.endsWith(`.${DEFAULT_HOST}`) ||
+  (!!projectId && (host === `${projectId}.web.app` || host === `${projectId}.firebaseapp.com`));
+
+/** Origin the visitor used (Hosting forwards the original host), so sandbox and prod link to themselves. */
+const siteUrlFor = (req: HttpsRequest): string => {
+  const requested = (req.get("x-forwarded-host") || req.get("host") || "").toLowerCase();
+  const host = isOwnHost(requested) ? requested : DEFAULT_HOST;
+  return `${LOCAL_HOST.test(host) ? "http" : "https"}://${host}`;
+};
+
+const toDate = (value: unknown, fallback: Date): Date => {
+  if (typeof value === "string" && !Number.isNaN(Date.parse(value))) return new Date(value);
+  if (value instanceof admin.firestore.Timestamp) return value.toDate();
+  return fallback;
+};
+
+const toFeedPost = (doc: admin.firestore.QueryDocumentSnapshot): FeedPost => {
+  const data = doc.data();
+  const createdAt = toDate(data.createdAt, new Date(0));
+  const publishedAt = toDate(data.publishedAt ?? data.publishAt, createdAt);
+  return {
+    slug: data.slug || doc.id,
+    title: data.title || "Untitled",
+    excerpt: data.excerpt || "",
+    content: data.content || "",
+    category: data.category || "",
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    authorName: data.authorName || "",
+    imageUrl: data.imageUrl || "",
+    publishedAt,
+    updatedAt: toDate(data.updatedAt, publishedAt),
+  };
+};
+
+/** Published posts, newest first by the date readers see (scheduled posts go live after creation). */
+const getPublishedPosts = async (max?: number): Promise<FeedPost[]> => {
+  const snapshot = await db.collection("blogPosts").where("published", "==", true).get();
+  const posts = snapshot.docs.map(toFeedPost).sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  return max ? posts.slice(0, max) : posts;
+};
+
+export const blogFeed = functions.onRequest(RUNTIME, async (req, res) => {
+  try {
+    const atom = req.path.endsWith("atom.xml") || req.query.format === "atom";
+    const siteUrl = siteUrlFor(req);
+    const posts = await getPublishedPosts(FEED_SIZE);
+    res.set("Cache-Control", CACHE_CONTROL);
+    res.type(atom ? "application/atom+xml; charset=utf-8" : "application/rss+xml; charset=utf-8");
+    res.send(atom ? buildAtomFeed(siteUrl, posts) : buildRssFeed(siteUrl, posts));
+  } catch (error: unknown) {
+    console.error("Error building blog feed:", formatError(error));
+    res.status(500).send("Feed unavailable");
+  }
+});
+
+export const sitemap = functions.onRequest(RUNTIME, async (req, res) => {
+  try {
+    const siteUrl = siteUrlFor(req);
+    res.set("Cache-Control", CACHE_CONTROL);
+    if (req.path.endsWith("robots.txt")) {
+      res.type("text/plain; charset=utf-8").send(buildRobotsTxt(siteUrl));
+      return;
+    }
+    const posts = await getPublishedPosts();
+    res.type("application/xml; charset=utf-8").send(buildSitemap(siteUrl, posts));
+  } catch (error: unknown) {
+    console.error("Error building sitemap:", formatError(error));
+    res.status(500).send("Sitemap unavailable");
+  }
+});
+
+const indexHtmlCache = new Map<string, { html: string; fetchedAt: number }>();
+
+// The SPA shell is a static Hosting file (static files win over rewrites, so this can't loop)
+const getIndexHtml = async (siteUrl: string): Promise<string> => {
+  const cached = indexHtmlCache.get(siteUrl);
+  if (cached && Date.now() - cached.fetchedAt < INDEX_HTML_TTL_MS) {
+    return cached.html;
+  }
+  const response = await fetch(`${siteUrl}/index.html`);
+  if (!response.ok) throw new Error(`index.html returned ${response.status}`);
+  const html = await response.text();
+  indexHtmlCache.set(siteUrl, { html, fetchedAt: Date.now() });
+  return html;
+};
+
+const findPublishedPost = async (slug: string): Promise<FeedPost | null> => {
+  const bySlug = await db
+    .collection("blogPosts")
+    .where("slug", "==", slug)
+    .where("published", "==", true)
+    .limit(1)
+    .get();
+  if (!bySlug.empty) return toFeedPost(bySlug.docs[0]);
+  // Posts saved before slugs existed are linked by id
+  const byId = await db.collection("blogPosts").doc(slug).get();
+  return byId.exists && byId.get("published") === true
+    ? toFeedPost(byId as admin.firestore.QueryDocumentSnapshot)
+    : null;
+};
+
+export const blogArticlePage = functions.onRequest(RUNTIME, async (req, res) => {
+  const siteUrl = siteUrlFor(req);
+  let html: string;
+  try {
+    html = await getIndexHtml(siteUrl);
+  } catch (error: unknown) {
+    console.error("Error loading index.html for blog article:", formatError(error));
+    res.redirect(302, "/blog");
+    return;
+  }
+
+  const match = /^\/blog\/([^/]+)\/?$/.exec(req.path);
+  let slug: string | null = null;
+  try {
+    slug = match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    slug = null;
+  }
+
+  try {
+    const post = slug ? await findPublishedPost(slug) : null;
+    res.set("Cache-Control", CACHE_CONTROL);
+    // Unknown slugs still get the SPA, which shows its own "not found" page
+    res.status(post ? 200 : 404).type("html").send(post ? injectArticleMeta(html, siteUrl, post) : html);
+  } catch (error: unknown) {
+    console.error(`Error rendering blog article ${slug}:`, formatError(error));
+    res.type("html").send(html);
+  }
+});
@@ -0,0 +1,180 @@
+/**
+ * FCM push for in-app notifications (called from onNotificationCreated). Sends to every device
+ * the user has registered, forgets tokens FCM reports as dead, and writes one pushDeliveries doc
+ * per notification with the per-device outcome so support can answer "I never got the push".
+ */
+import * as admin from "firebase-admin";
+import { UserDevice } from "./types";
+import { canDeliver } from "./notificationDispatcher";
+import { formatError } from "./utils/errors";
+import { getPushTargets, INVALID_TOKEN_ERROR_CODES, pruneInvalidTokens } from "./utils/pushTokens";
+import { notificationPage, pageToPath } from "./utils/routes";
+
+const db = admin.firestore();
+
+export interface PushNotificationPayload {
+  title: string;
+  body: string;
+  type: string;
+  chatId?: string;
+  goalId?: string;
+  eventId?: string;
+  notificationId: string;
+}
+
+export async function sendFCMPushNotification(
+  userId: string,
+  notification: PushNotificationPayload
+): Promise<void> {
+  try {
+    const userDoc = await db.collection("users").doc(userId).get();
+    if (!userDoc.exists) {
+      console.log(`User ${userId} not found, skipping FCM notification`);
+      return;
+    }
+
+    const userData = userDoc.data() || {};
+    const targets = getPushTargets(userData);
+    if (targets.length === 0) {
+      console.log(`No registered devices for user ${userId}, skipping push notification`);
+      return;
+    }
+
+    // Covers notifications written by the client too (e.g. new chat messages)
+    if (
+      !(await canDeliver(
+        {
+          id: userId,
+          organizationId: userData.organizationId,
+          notificationPreferences: userData.notificationPreferences,
+        },
+        notification.type,
+        "push",
+        "onNotificationCreated"
+      ))
+    ) {
+      return;
+    }
+
+    // Deep link to the chat, goal or event the notification is about
+    const link = pageToPath(notificationPage(notification) ?? "notifications");
+
+    // Platform-specific options: works for both iOS (Safari 16.4+) and Android (Chrome/Edge/Firefox)
+    const response = await admin.messaging().sendEachForMulticast({
+      tokens: targets.map((target) => target.token),
+      notification: {
+        title: notification.title,
+        body: notification.body,
+      },
+      data: {
+        type: notification.type,
+        notificationId: notification.notificationId,
+        url: link,
+        ...(notification.chatId && { chatId: notification.chatId }),
+      },
+      webpush: {
+        notification: {
+          title: notification.title,
+          body: notification.body,
+          icon: "/icon-192.png",
+          badge: "/icon-192.png",
+          requireInteraction: false,
+          silent: false,
+        },
+        fcmOptions: {
+          link,
+        },
+        headers: {
+          Urgency: "high", // High priority for better delivery
+        },
+      },
+      android: {
+        priority: "high",
+        notification: {
+          channelId: "default",
+          sound: "default",
+          priority: "high",
+        },
+      },
+      apns: {
+        headers: {
+          "apns-priority": "10", // High priority for iOS
+        },
+        payload: {
+          aps: {
+            alert: {
+              title: notification.title,
+              body: notification.body,
+            },
+            sound: "default",
+            badge: 1,
+          },
+        },
+      },
+    });
+
+    const invalidTokens: string[] = [];
+    const results = response.responses.map((result, index) => {
+      const target = targets[index];
+      const errorCode = result.error?.code || null;
+      const pruned = !!errorCode && INVALID_TOKEN_ERROR_CODES.includes(errorCode);
+      if (pruned) invalidTokens.push(target.token);
+      return {
+        deviceId: target.deviceId,
+        deviceName: target.deviceName,
+        platform: target.platform,
+        success: result.success,
+        messageId: result.messageId || null,
+        errorCode,
+        errorMessage: result.error?.message || null,
+        pruned,
+      };
+    });
+    console.log(
+      `FCM push sent to user ${userId}: ${response.successCount}/${targets.length} devices` +
+        (invalidTokens.length ? `, ${invalidTokens.length} dead token(s) pruned` : "")
+    );
+
+    if (invalidTokens.length > 0) {
+      await removeInvalidTokens(userId, invalidTokens);
+    }
+
+    await db.collection("pushDeliveries").add({
+      organizationId: userData.organizationId || null,
+      userId,
+      notificationId: notification.notificationId,
+      type: notification.type,
+      successCount: response.successCount,
+      failureCount: response.failureCount,
+      results,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  } catch (error: unknown) {
+    // Log error but don't throw - FCM failures shouldn't break notification creation
+    console.error(`Error sending FCM push notification to user ${userId}:`, formatError(error));
+  }
+}
+
+// Re-reads the user inside a transaction so a device registered mid-send isn't dropped
+async function removeInvalidTokens(userId: string, invalidTokens: string[]): Promise<void> {
+  try {
+    await db.runTransaction(async (tx) => {
+      const userRef = db.collection("users").doc(userId);
+      const snap = await tx.get(userRef);
+      const data = snap.data() as { devices?: UserDevice[]; fcmToken?: string | null } | undefined;
+      if (!data) return;
+      const pruned = pruneInvalidTokens(data, invalidTokens);
+      if (!pruned) return;
+      tx.update(userRef, {
+        ...(pruned.devices && { devices: pruned.devices }),
+        ...(pruned.clearLegacyToken && {
+          fcmToken: admin.firestore.FieldValue.delete(),
+          fcmTokenUpdatedAt: admin.firestore.FieldValue.delete(),
+        }),
+      });
+    });
+    console.log(`Removed ${invalidTokens.length} invalid FCM token(s) for user ${userId}`);
+  } catch (error: unknown) {
+    console.error("Error removing invalid FCM tokens:", formatError(error));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Re-sanitizes rich HTML after every write. Org admins (discussion guides, career templates) and
+ * platform operators (blog posts) write straight to Firestore, where rules only check who they
+ * are, so a hand-crafted request can skip the client's sanitizer; these triggers rewrite
+ * `content` to the shared allowlist.
+ */
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { sanitizeHtml } from "./utils/sanitizeHtml";
+import { formatError } from "./utils/errors";
+
+const RUNTIME = {
+  region: "us-central1" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+const sanitizeContentOnWrite = (collection: string) =>
+  onDocumentWritten({ document: `${collection}/{docId}`, ...RUNTIME }, async (event) => {
+    const snap = event.data?.after;
+    if (!snap?.exists) return;
+    const content = snap.get("content");
+    if (typeof content !== "string") return;
+
+    const clean = sanitizeHtml(content);
+    // Our own update re-fires the trigger with clean content, which ends here
+    if (clean === content) return;
+    try {
+      await snap.ref.update({ content: clean });
+      console.warn(`Sanitized unsafe HTML in ${collection}/${snap.id}`);
+    } catch (error: unknown) {
+      console.error(`Error sanitizing ${collection}/${snap.id}:`, formatError(error));
+    }
+  });
+
+export const sanitizeDiscussionGuideContent = sanitizeContentOnWrite("discussionGuides");
+export const sanitizeCareerTemplateContent = sanitizeContentOnWrite("careerTemplates");
+export const sanitizeBlogPostContent = sanitizeContentOnWrite("blogPosts");
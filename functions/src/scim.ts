@@ -0,0 +1,509 @@
+/**
+ * SCIM 2.0 provisioning for HR-driven programs (plans with "apiAccess"). The IdP calls
+ * .../scim/v2/Users and /Groups with an org's bearer token; joiners get a profile, movers are
+ * updated, and leavers are deactivated (never deleted). Group membership sets mentor vs mentee.
+ */
+import * as functions from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import type { Request, Response } from "express";
+import { formatError } from "./utils/errors";
+import { getEntitlements, organizationHasFeature, PlanFields } from "./entitlements";
+import { assertTotpPolicy } from "./totp";
+import type { Organization } from "./types";
+import type { SsoConfigDoc } from "./utils/sso";
+import {
+  applyUserPatch,
+  createScimToken,
+  groupIdForDisplayName,
+  groupIdForRole,
+  hashScimToken,
+  isScimGroupId,
+  parseScimFilter,
+  parseScimUser,
+  readBearerToken,
+  readGroupMembers,
+  readGroupMembershipPatch,
+  readPatchOperations,
+  SCIM_GROUP_SCHEMA,
+  SCIM_GROUPS,
+  SCIM_MAX_RESULTS,
+  SCIM_USER_SCHEMA,
+  ScimError,
+  scimErrorBody,
+  ScimGroupId,
+  ScimUserFields,
+  ScimUserSource,
+  toListResponse,
+  toScimUser,
+} from "./utils/scim";
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const RUNTIME = {
+  region: "us-central1" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+const ADMIN_ROLES = ["ORGANIZATION_ADMIN", "ADMIN"];
+
+/** What admins give their IdP as the SCIM base URL; meta.location links are built from it. */
+const scimBaseUrl = (): string => {
+  const projectId = process.env.GCLOUD_PROJECT || "";
+  return process.env.FUNCTIONS_EMULATOR === "true"
+    ? `http://127.0.0.1:5001/${projectId}/${RUNTIME.region}/scim/v2`
+    : `https://${RUNTIME.region}-${projectId}.cloudfunctions.net/scim/v2`;
+};
+
+/** scimTokens/{id}; the token itself is shown to the admin once and never stored. */
+interface ScimTokenDoc {
+  organizationId: string;
+  name: string;
+  tokenHash: string;
+  lastFour: string;
+  createdAt: string;
+  createdBy: string;
+  lastUsedAt?: string;
+}
+
+type UserDoc = admin.firestore.QueryDocumentSnapshot;
+
+// ==================== Token management (org admins) ====================
+
+async function assertScimAdmin(uid: string): Promise<string> {
+  await assertTotpPolicy(uid);
+  let userSnap = await db.collection("users").doc(uid).get();
+  if (!userSnap.exists) {
+    const byAuthUid = await db.collection("users").where("firebaseAuthUid", "==", uid).limit(1).get();
+    if (!byAuthUid.empty) userSnap = byAuthUid.docs[0];
+  }
+  const caller = userSnap.data();
+  if (!caller || !ADMIN_ROLES.includes(String(caller.role)) || !caller.organizationId) {
+    throw new functions.HttpsError("permission-denied", "Only organization admins can manage SCIM provisioning");
+  }
+  if (!(await organizationHasFeature(caller.organizationId, "apiAccess"))) {
+    throw new functions.HttpsError("failed-precondition", "SCIM provisioning requires the Business plan or higher");
+  }
+  return caller.organizationId;
+}
+
+const toTokenSummary = (doc: admin.firestore.DocumentSnapshot) => {
+  const data = doc.data() as ScimTokenDoc;
+  return { id: doc.id, name: data.name, lastFour: data.lastFour, createdAt: data.createdAt, lastUsedAt: data.lastUsedAt || null };
+};
+
+export const listScimTokens = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const organizationId = await assertScimAdmin(request.auth.uid);
+  const snap = await db.collection("scimTokens").where("organizationId", "==", organizationId).get();
+  return {
+    baseUrl: scimBaseUrl(),
+    tokens: snap.docs.map(toTokenSummary).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  };
+});
+
+/** Returns the new token once; the IdP is configured with it as a bearer token. */
+export const createScimTokenForOrg = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const organizationId = await assertScimAdmin(request.auth.uid);
+  const name = typeof request.data?.name === "string" ? request.data.name.trim().slice(0, 80) : "";
+  if (!name) {
+    throw new functions.HttpsError("invalid-argument", "Give the token a name, e.g. the identity provider it is for");
+  }
+  const token = createScimToken();
+  const ref = db.collection("scimTokens").doc();
+  const data: ScimTokenDoc = {
+    organizationId,
+    name,
+    tokenHash: hashScimToken(token),
+    lastFour: token.slice(-4),
+    createdAt: new Date().toISOString(),
+    createdBy: request.auth.uid,
+  };
+  await ref.set(data);
+  return { token, summary: toTokenSummary(await ref.get()) };
+});
+
+export const revokeScimToken = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const organizationId = await assertScimAdmin(request.auth.uid);
+  const tokenId = typeof request.data?.tokenId === "string" ? request.data.tokenId : "";
+  const ref = db.collection("scimTokens").doc(tokenId || "-");
+  const snap = await ref.get();
+  if (!snap.exists || snap.get("organizationId") !== organizationId) {
+    throw new functions.HttpsError("not-found", "Token not found");
+  }
+  await ref.delete();
+  return { ok: true };
+});
+
+// ==================== SCIM endpoint ====================
+
+/** Org for a bearer token, or a 401/403 ScimError. */
+async function authenticate(req: Request): Promise<string> {
+  const token = readBearerToken(req.get("authorization"));
+  if (!token) {
+    throw new ScimError(401, "Bearer token required");
+  }
+  const snap = await db.collection("scimTokens").where("tokenHash", "==", hashScimToken(token)).limit(1).get();
+  if (snap.empty) {
+    throw new ScimError(401, "Invalid bearer token");
+  }
+  const { organizationId } = snap.docs[0].data() as ScimTokenDoc;
+  if (!(await organizationHasFeature(organizationId, "apiAccess"))) {
+    throw new ScimError(403, "SCIM provisioning is not included in this organization's plan");
+  }
+  await snap.docs[0].ref.update({ lastUsedAt: new Date().toISOString() });
+  return organizationId;
+}
+
+/** IdPs send application/scim+json, which the default JSON parser may leave unparsed. */
+const readBody = (req: Request): unknown => {
+  if (req.body && typeof req.body === "object" && !Buffer.isBuffer(req.body)) return req.body;
+  const raw = (req as Request & { rawBody?: Buffer }).rawBody?.toString("utf8") || "";
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ScimError(400, "Request body is not valid JSON", "invalidSyntax");
+  }
+};
+
+const send = (res: Response, status: number, body?: unknown): void => {
+  res.status(status).type("application/scim+json");
+  if (body === undefined) res.end();
+  else res.send(JSON.stringify(body));
+};
+
+const createdAtOf = (doc: UserDoc): string | undefined => {
+  const value = doc.get("createdAt");
+  if (typeof value === "string") return value;
+  return value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : undefined;
+};
+
+const toSource = (doc: UserDoc): ScimUserSource => ({
+  id: doc.id,
+  email: String(doc.get("email") || ""),
+  name: String(doc.get("name") || ""),
+  title: doc.get("title") || undefined,
+  role: doc.get("role"),
+  deactivated: doc.get("deactivated") === true,
+  scimExternalId: doc.get("scimExternalId") || undefined,
+  createdAt: createdAtOf(doc),
+  updatedAt: doc.get("scimUpdatedAt") || undefined,
+});
+
+const normalizedEmail = (doc: UserDoc) => String(doc.get("email") || "").trim().toLowerCase();
+
+/**
+ * One SCIM user per person. Legacy accounts can have a random-id profile plus a users/{authUid}
+ * mirror; the mirror is the one we expose, and writes go to both.
+ */
+async function listOrgUsers(organizationId: string): Promise<UserDoc[]> {
+  const snap = await db.collection("users").where("organizationId", "==", organizationId).get();
+  const byEmail = new Map<string, UserDoc>();
+  for (const doc of snap.docs) {
+    const email = normalizedEmail(doc);
+    if (!email) continue;
+    const seen = byEmail.get(email);
+    if (!seen || doc.id === doc.get("firebaseAuthUid")) byEmail.set(email, doc);
+  }
+  return [...byEmail.values()].sort((a, b) => normalizedEmail(a).localeCompare(normalizedEmail(b)));
+}
+
+/** The profile (and any mirrors of it) for a SCIM id in this org; 404 when it isn't ours. */
+async function getProfileDocs(organizationId: string, id: string): Promise<UserDoc[]> {
+  const snap = await db.collection("users").doc(id).get();
+  if (!snap.exists || snap.get("organizationId") !== organizationId) {
+    throw new ScimError(404, `User ${id} not found`);
+  }
+  const email = normalizedEmail(snap as UserDoc);
+  const sameEmail = await db.collection("users").where("organizationId", "==", organizationId).where("email", "==", snap.get("email")).get();
+  const docs = sameEmail.docs.filter((d) => normalizedEmail(d) === email);
+  return docs.some((d) => d.id === id) ? docs : [snap as UserDoc, ...docs];
+}
+
+const isParticipantRole = (role: unknown) => role === "MENTOR" || role === "MENTEE";
+
+/** Mirrors the plan's participant limit (firestore.rules withinParticipantLimit) for server writes. */
+async function assertSeatAvailable(organizationId: string): Promise<void> {
+  const org = (await db.collection("organizations").doc(organizationId).get()).data() as Organization | undefined;
+  const { maxParticipants } = getEntitlements((org || {}) as PlanFields);
+  if (maxParticipants !== null && (org?.participantCount ?? 0) >= maxParticipants) {
+    throw new ScimError(403, "This program has reached its participant limit for its plan");
+  }
+}
+
+/** Firebase Auth follows the profile so leavers are signed out and can't sign back in. */
+async function setAuthDisabled(docs: UserDoc[], disabled: boolean): Promise<void> {
+  const uid = docs.map((d) => d.get("firebaseAuthUid")).find((value) => typeof value === "string" && value);
+  if (!uid) return;
+  try {
+    await auth.updateUser(uid, { disabled });
+    if (disabled) await auth.revokeRefreshTokens(uid);
+  } catch (error: unknown) {
+    if ((error as { code?: string })?.code !== "auth/user-not-found") throw error;
+  }
+}
+
+/** Writes SCIM-owned fields to every copy of the profile, deactivating or reactivating as needed. */
+async function writeUserFields(organizationId: string, docs: UserDoc[], fields: ScimUserFields): Promise<void> {
+  const current = docs[0];
+  const wasActive = current.get("deactivated") !== true;
+  if (fields.email !== normalizedEmail(current)) {
+    const taken = await db.collection("users").where("email", "==", fields.email).limit(1).get();
+    if (!taken.empty && !docs.some((d) => d.id === taken.docs[0].id)) {
+      throw new ScimError(409, `${fields.email} is already in use`, "uniqueness");
+    }
+  }
+  if (fields.active && !wasActive && isParticipantRole(current.get("role"))) {
+    await assertSeatAvailable(organizationId);
+  }
+
+  const now = new Date().toISOString();
+  const patch: Record<string, unknown> = {
+    email: fields.email,
+    name: fields.name,
+    title: fields.title,
+    scimExternalId: fields.externalId ?? admin.firestore.FieldValue.delete(),
+    scimUpdatedAt: now,
+  };
+  if (fields.active !== wasActive) {
+    patch.deactivated = !fields.active;
+    patch.deactivatedAt = fields.active ? admin.firestore.FieldValue.delete() : now;
+  }
+  await Promise.all(docs.map((d) => d.ref.update(patch)));
+  if (fields.active !== wasActive) await setAuthDisabled(docs, !fields.active);
+}
+
+const currentFields = (doc: UserDoc): ScimUserFields => ({
+  email: normalizedEmail(doc),
+  name: String(doc.get("name") || ""),
+  title: String(doc.get("title") || ""),
+  active: doc.get("deactivated") !== true,
+  externalId: doc.get("scimExternalId") || undefined,
+});
+
+/** Same shape services/database.ts createUser writes; onboarding happens at first sign-in. */
+async function createProfile(organizationId: string, fields: ScimUserFields): Promise<UserDoc> {
+  const existing = await db.collection("users").where("email", "==", fields.email).limit(1).get();
+  if (!existing.empty) {
+    throw new ScimError(409, `${fields.email} already has an account`, "uniqueness");
+  }
+  const [orgSnap, ssoSnap] = await Promise.all([
+    db.collection("organizations").doc(organizationId).get(),
+    db.collection("ssoConfigs").doc(organizationId).get(),
+  ]);
+  // New joiners start with the SSO default role until a group push says otherwise
+  const role = (ssoSnap.data() as SsoConfigDoc | undefined)?.defaultRole || "MENTEE";
+  if (fields.active) await assertSeatAvailable(organizationId);
+
+  const now = new Date().toISOString();
+  const ref = db.collection("users").doc();
+  await ref.set({
+    organizationId,
+    name: fields.name,
+    email: fields.email,
+    role,
+    avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(fields.name)}`,
+    title: fields.title,
+    company: orgSnap.get("name") || "",
+    skills: [],
+    bio: "",
+    ...(fields.externalId ? { scimExternalId: fields.externalId } : {}),
+    ...(fields.active ? {} : { deactivated: true, deactivatedAt: now }),
+    scimUpdatedAt: now,
+    createdAt: admin.firestore.Timestamp.now(),
+  });
+  return (await ref.get()) as UserDoc;
+}
+
+/** Group membership -> role. Org admins keep their role; they can't be demoted from the IdP. */
+async function assignRole(organizationId: string, userIds: string[], groupId: ScimGroupId): Promise<void> {
+  const role = SCIM_GROUPS[groupId].role;
+  for (const id of new Set(userIds)) {
+    const docs = await getProfileDocs(organizationId, id);
+    const currentRole = docs[0].get("role");
+    if (currentRole === role || ADMIN_ROLES.includes(String(currentRole))) continue;
+    if (!isParticipantRole(currentRole) && docs[0].get("deactivated") !== true) {
+      await assertSeatAvailable(organizationId);
+    }
+    await Promise.all(docs.map((d) => d.ref.update({ role, scimUpdatedAt: new Date().toISOString() })));
+  }
+}
+
+const toScimGroup = (groupId: ScimGroupId, members: UserDoc[], baseUrl: string) => ({
+  schemas: [SCIM_GROUP_SCHEMA],
+  id: groupId,
+  displayName: SCIM_GROUPS[groupId].displayName,
+  members: members
+    .filter((d) => groupIdForRole(d.get("role")) === groupId)
+    .map((d) => ({ value: d.id, display: String(d.get("email") || ""), $ref: `${baseUrl}/Users/${d.id}` })),
+  meta: { resourceType: "Group", location: `${baseUrl}/Groups/${groupId}` },
+});
+
+const SERVICE_PROVIDER_CONFIG = {
+  schemas: ["urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig"],
+  patch: { supported: true },
+  bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+  filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+  changePassword: { supported: false },
+  sort: { supported: false },
+  etag: { supported: false },
+  authenticationSchemes: [
+    { type: "oauthbearertoken", name: "Bearer token", description: "Token created in Settings > Security", primary: true },
+  ],
+};
+
+const RESOURCE_TYPES = [
+  { schemas: ["urn:ietf:params:scim:schemas:core:2.0:ResourceType"], id: "User", name: "User", endpoint: "/Users", schema: SCIM_USER_SCHEMA },
+  { schemas: ["urn:ietf:params:scim:schemas:core:2.0:ResourceType"], id: "Group", name: "Group", endpoint: "/Groups", schema: SCIM_GROUP_SCHEMA },
+];
+
+async function handleUsers(req: Request, res: Response, organizationId: string, id: string | undefined, baseUrl: string) {
+  const location = (docId: string) => `${baseUrl}/Users/${docId}`;
+
+  if (!id && req.method === "GET") {
+    const filter = parseScimFilter(req.query.filter);
+    let users = await listOrgUsers(organizationId);
+    if (filter?.attribute === "userName") users = users.filter((d) => normalizedEmail(d) === filter.value);
+    else if (filter?.attribute === "externalId") users = users.filter((d) => d.get("scimExternalId") === filter.value);
+    else if (filter) users = [];
+    send(res, 200, toListResponse(users.map((d) => toScimUser(toSource(d), location(d.id))), req.query.startIndex, req.query.count));
+    return;
+  }
+
+  if (!id && req.method === "POST") {
+    const created = await createProfile(organizationId, parseScimUser(readBody(req)));
+    send(res, 201, toScimUser(toSource(created), location(created.id)));
+    return;
+  }
+
+  if (!id) throw new ScimError(405, `${req.method} is not supported on /Users`);
+  const docs = await getProfileDocs(organizationId, id);
+
+  if (req.method === "GET") {
+    send(res, 200, toScimUser(toSource(docs.find((d) => d.id === id) || docs[0]), location(id)));
+    return;
+  }
+
+  if (req.method === "DELETE") {
+    // Leavers keep their history; the profile is deactivated, not deleted
+    await writeUserFields(organizationId, docs, { ...currentFields(docs[0]), active: false });
+    send(res, 204);
+    return;
+  }
+
+  if (req.method === "PUT" || req.method === "PATCH") {
+    const fields =
+      req.method === "PUT"
+        ? parseScimUser(readBody(req))
+        : applyUserPatch(currentFields(docs[0]), readPatchOperations(readBody(req)));
+    await writeUserFields(organizationId, docs, fields);
+    const updated = (await db.collection("users").doc(id).get()) as UserDoc;
+    send(res, 200, toScimUser(toSource(updated), location(id)));
+    return;
+  }
+
+  throw new ScimError(405, `${req.method} is not supported on /Users/${id}`);
+}
+
+async function handleGroups(req: Request, res: Response, organizationId: string, id: string | undefined, baseUrl: string) {
+  const groupResponse = async (groupId: ScimGroupId) => toScimGroup(groupId, await listOrgUsers(organizationId), baseUrl);
+
+  if (!id && req.method === "GET") {
+    const filter = parseScimFilter(req.query.filter);
+    let groupIds = Object.keys(SCIM_GROUPS) as ScimGroupId[];
+    if (filter?.attribute === "displayName") {
+      const match = groupIdForDisplayName(filter.value);
+      groupIds = match ? [match] : [];
+    } else if (filter) {
+      groupIds = [];
+    }
+    const users = await listOrgUsers(organizationId);
+    const excludeMembers = String(req.query.excludedAttributes || "").includes("members");
+    const groups = groupIds.map((g) => {
+      const group = toScimGroup(g, users, baseUrl);
+      return excludeMembers ? { ...group, members: undefined } : group;
+    });
+    send(res, 200, toListResponse(groups, req.query.startIndex, req.query.count));
+    return;
+  }
+
+  if (!id && req.method === "POST") {
+    // Groups are fixed; pushing "Mentors"/"Mentees" links the IdP group to ours
+    const body = readBody(req) as { displayName?: unknown };
+    const groupId = groupIdForDisplayName(body.displayName);
+    if (!groupId) {
+      throw new ScimError(400, 'Only "Mentors" and "Mentees" groups can be provisioned', "invalidValue");
+    }
+    await assignRole(organizationId, readGroupMembers(body), groupId);
+    send(res, 201, await groupResponse(groupId));
+    return;
+  }
+
+  if (!id || !isScimGroupId(id)) throw new ScimError(404, `Group ${id || ""} not found`);
+
+  if (req.method === "GET") {
+    send(res, 200, await groupResponse(id));
+    return;
+  }
+
+  if (req.method === "PUT") {
+    await assignRole(organizationId, readGroupMembers(readBody(req)), id);
+    send(res, 200, await groupResponse(id));
+    return;
+  }
+
+  if (req.method === "PATCH") {
+    // Removal alone never changes a role; people move by being added to the other group
+    const membership = readGroupMembershipPatch(readPatchOperations(readBody(req)));
+    await assignRole(organizationId, [...(membership.replace || []), ...membership.add], id);
+    send(res, 204);
+    return;
+  }
+
+  if (req.method === "DELETE") {
+    send(res, 204);
+    return;
+  }
+
+  throw new ScimError(405, `${req.method} is not supported on /Groups/${id}`);
+}
+
+const RESOURCE_PATH = /\/(Users|Groups|ServiceProviderConfig|ResourceTypes|Schemas)(?:\/([^/]+))?\/?$/i;
+
+export const scim = functions.onRequest({ ...RUNTIME, invoker: "public" as const }, async (req, res) => {
+  try {
+    const organizationId = await authenticate(req);
+    const match = RESOURCE_PATH.exec(req.path);
+    if (!match) {
+      throw new ScimError(404, "Unknown SCIM resource");
+    }
+    const resource = match[1].toLowerCase();
+    const id = match[2] ? decodeURIComponent(match[2]) : undefined;
+    const baseUrl = scimBaseUrl();
+
+    if (resource === "users") await handleUsers(req, res, organizationId, id, baseUrl);
+    else if (resource === "groups") await handleGroups(req, res, organizationId, id, baseUrl);
+    else if (resource === "serviceproviderconfig") send(res, 200, SERVICE_PROVIDER_CONFIG);
+    else if (resource === "resourcetypes") send(res, 200, toListResponse(RESOURCE_TYPES, 1, SCIM_MAX_RESULTS));
+    else send(res, 200, toListResponse([], 1, SCIM_MAX_RESULTS));
+  } catch (error: unknown) {
+    if (error instanceof ScimError) {
+      send(res, error.status, scimErrorBody(error));
+      return;
+    }
+    console.error("scim error:", formatError(error));
+    send(res, 500, scimErrorBody(new ScimError(500, "Internal error")));
+  }
+});
@@ -0,0 +1,445 @@
+/**
+ * Enterprise SSO (OIDC or SAML) for organizations on a plan with the "sso" feature.
+ * Org admins configure their IdP and prove they own the email domain with a DNS TXT record;
+ * after that, sign-ins from that domain go ssoStart -> IdP -> ssoCallback, which provisions the
+ * user into the org on first login and hands the app a Firebase custom token.
+ */
+import * as functions from "firebase-functions/v2/https";
+import * as admin from "firebase-admin";
+import { promises as dns } from "dns";
+import * as crypto from "crypto";
+import type { Response } from "express";
+import { formatError, getErrorMessage } from "./utils/errors";
+import { getEntitlements, PlanFields } from "./entitlements";
+import type { Organization } from "./types";
+import { assertTotpPolicy } from "./totp";
+import {
+  buildOidcAuthorizeUrl,
+  completeOidcLogin,
+  completeSamlLogin,
+  createPkce,
+  createSamlClient,
+  createVerificationToken,
+  discoverOidc,
+  domainVerificationRecord,
+  getEmailDomain,
+  hasDomainVerificationRecord,
+  isAllowedReturnOrigin,
+  isValidSsoDomain,
+  normalizeDomain,
+  SamlRequestRecord,
+  SSO_STATE_TTL_MS,
+  SsoConfigDoc,
+  SsoIdentity,
+} from "./utils/sso";
+
+const db = admin.firestore();
+const auth = admin.auth();
+
+const RUNTIME = {
+  region: "us-central1" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+const HTTP_RUNTIME = { ...RUNTIME, cors: true, invoker: "public" as const };
+
+const projectId = process.env.GCLOUD_PROJECT || "";
+
+/** Where the IdP sends users back; admins register this (and the SP entity id) with their IdP. */
+const ssoCallbackUrl = (): string =>
+  process.env.FUNCTIONS_EMULATOR === "true"
+    ? `http://127.0.0.1:5001/${projectId}/${RUNTIME.region}/ssoCallback`
+    : `https://${RUNTIME.region}-${projectId}.cloudfunctions.net/ssoCallback`;
+
+const spEntityIdFor = (callbackUrl: string, organizationId: string) => `${callbackUrl}?org=${organizationId}`;
+
+/** ssoStates/{state}: one pending sign-in, deleted when the IdP comes back. */
+interface SsoStateDoc {
+  organizationId: string;
+  returnTo: string;
+  callbackUrl: string;
+  nonce?: string;
+  codeVerifier?: string;
+  saml?: SamlRequestRecord;
+  expiresAt: admin.firestore.Timestamp;
+}
+
+const configRef = (organizationId: string) => db.collection("ssoConfigs").doc(organizationId);
+
+const isOrgAdminRole = (role: unknown) => role === "ORGANIZATION_ADMIN" || role === "ADMIN";
+
+/** The caller's org, when they are its admin and the plan includes SSO. */
+async function assertSsoAdmin(uid: string): Promise<{ organizationId: string; organization: Organization }> {
+  await assertTotpPolicy(uid);
+  let userSnap = await db.collection("users").doc(uid).get();
+  if (!userSnap.exists) {
+    const byAuthUid = await db.collection("users").where("firebaseAuthUid", "==", uid).limit(1).get();
+    if (!byAuthUid.empty) userSnap = byAuthUid.docs[0];
+  }
+  const caller = userSnap.data();
+  if (!caller || !isOrgAdminRole(caller.role) || !caller.organizationId) {
+    throw new functions.HttpsError("permission-denied", "Only organization admins can manage SSO");
+  }
+  const orgSnap = await db.collection("organizations").doc(caller.organizationId).get();
+  if (!orgSnap.exists) {
+    throw new functions.HttpsError("not-found", "Organization not found");
+  }
+  const organization = { id: orgSnap.id, ...orgSnap.data() } as Organization;
+  if (!getEntitlements(organization as PlanFields).features.sso) {
+    throw new functions.HttpsError("failed-precondition", "SSO requires the Business plan or higher");
+  }
+  return { organizationId: caller.organizationId, organization };
+}
+
+/** What admins see: everything except the OIDC client secret. */
+const toPublicConfig = (config: SsoConfigDoc | undefined) =>
+  config
+    ? {
+        ...config,
+        oidc: config.oidc ? { ...config.oidc, clientSecret: "", hasClientSecret: !!config.oidc.clientSecret } : undefined,
+        domainVerificationRecord: domainVerificationRecord(config.domainVerificationToken),
+        callbackUrl: ssoCallbackUrl(),
+        spEntityId: spEntityIdFor(ssoCallbackUrl(), config.organizationId),
+      }
+    : null;
+
+/** The enabled, domain-verified config for an email's domain, if its org still has SSO. */
+async function findSsoConfigForEmail(email: string): Promise<{ config: SsoConfigDoc; organization: Organization } | null> {
+  const domain = getEmailDomain(email);
+  if (!domain) return null;
+  const snap = await db
+    .collection("ssoConfigs")
+    .where("domain", "==", domain)
+    .where("domainVerified", "==", true)
+    .where("enabled", "==", true)
+    .limit(1)
+    .get();
+  if (snap.empty) return null;
+  const config = snap.docs[0].data() as SsoConfigDoc;
+  const orgSnap = await db.collection("organizations").doc(config.organizationId).get();
+  if (!orgSnap.exists) return null;
+  const organization = { id: orgSnap.id, ...orgSnap.data() } as Organization;
+  if (!getEntitlements(organization as PlanFields).features.sso) return null;
+  return { config, organization };
+}
+
+export const getSsoConfig = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const { organizationId } = await assertSsoAdmin(request.auth.uid);
+  const snap = await configRef(organizationId).get();
+  return { config: toPublicConfig(snap.data() as SsoConfigDoc | undefined) };
+});
+
+/**
+ * Saves the IdP settings. Changing the domain starts verification over; SSO can only be enabled
+ * once the domain is verified. A blank OIDC client secret keeps the stored one.
+ */
+export const saveSsoConfig = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const { organizationId } = await assertSsoAdmin(request.auth.uid);
+  const input = (request.data || {}) as Record<string, unknown>;
+  const str = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  const protocol = input.protocol === "saml" ? "saml" : "oidc";
+  const domain = normalizeDomain(str(input.domain));
+  if (!isValidSsoDomain(domain)) {
+    throw new functions.HttpsError("invalid-argument", "Enter your company's email domain, e.g. example.com");
+  }
+  const defaultRole = input.defaultRole === "MENTOR" ? "MENTOR" : "MENTEE";
+
+  const claimed = await db.collection("ssoConfigs").where("domain", "==", domain).where("domainVerified", "==", true).get();
+  if (claimed.docs.some((d) => d.id !== organizationId)) {
+    throw new functions.HttpsError("already-exists", "Another organization has already verified this domain");
+  }
+
+  const existing = (await configRef(organizationId).get()).data() as SsoConfigDoc | undefined;
+  const sameDomain = existing?.domain === domain;
+
+  const config: SsoConfigDoc = {
+    organizationId,
+    enabled: false,
+    protocol,
+    domain,
+    domainVerified: sameDomain ? !!existing?.domainVerified : false,
+    domainVerificationToken: sameDomain && existing?.domainVerificationToken ? existing.domainVerificationToken : createVerificationToken(),
+    defaultRole,
+    updatedAt: new Date().toISOString(),
+  };
+  if (sameDomain && existing?.domainVerifiedAt) config.domainVerifiedAt = existing.domainVerifiedAt;
+
+  if (protocol === "oidc") {
+    const oidc = (input.oidc || {}) as Record<string, unknown>;
+    const issuer = str(oidc.issuer).replace(/\/$/, "");
+    const clientId = str(oidc.clientId);
+    const clientSecret = str(oidc.clientSecret) || existing?.oidc?.clientSecret || "";
+    if (!/^https:\/\//.test(issuer) || !clientId || !clientSecret) {
+      throw new functions.HttpsError("invalid-argument", "OIDC needs an https issuer URL, client ID and client secret");
+    }
+    config.oidc = { issuer, clientId, clientSecret };
+  } else {
+    const saml = (input.saml || {}) as Record<string, unknown>;
+    const entryPoint = str(saml.entryPoint);
+    const idpCert = str(saml.idpCert);
+    if (!/^https:\/\//.test(entryPoint) || !idpCert) {
+      throw new functions.HttpsError("invalid-argument", "SAML needs an https sign-on URL and the IdP signing certificate");
+    }
+    config.saml = { entryPoint, idpCert, idpIssuer: str(saml.idpIssuer) || undefined };
+    if (!config.saml.idpIssuer) delete config.saml.idpIssuer;
+  }
+
+  config.enabled = input.enabled === true && config.domainVerified;
+  await configRef(organizationId).set(config);
+  await db.collection("organizations").doc(organizationId).update({
+    domain: config.domainVerified ? domain : admin.firestore.FieldValue.delete(),
+    ssoEnabled: config.enabled,
+  });
+  return { config: toPublicConfig(config) };
+});
+
+/** Looks up the TXT record and marks the domain verified when it's there. */
+export const verifySsoDomain = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const { organizationId } = await assertSsoAdmin(request.auth.uid);
+  const config = (await configRef(organizationId).get()).data() as SsoConfigDoc | undefined;
+  if (!config) {
+    throw new functions.HttpsError("failed-precondition", "Save your SSO settings first");
+  }
+  if (config.domainVerified) {
+    return { verified: true, config: toPublicConfig(config) };
+  }
+
+  let records: string[][] = [];
+  try {
+    records = await dns.resolveTxt(config.domain);
+  } catch (error: unknown) {
+    console.warn(`TXT lookup failed for ${config.domain}:`, getErrorMessage(error));
+  }
+  if (!hasDomainVerificationRecord(records, config.domainVerificationToken)) {
+    return { verified: false, config: toPublicConfig(config) };
+  }
+
+  const verifiedAt = new Date().toISOString();
+  await configRef(organizationId).update({ domainVerified: true, domainVerifiedAt: verifiedAt, updatedAt: verifiedAt });
+  await db.collection("organizations").doc(organizationId).update({ domain: config.domain });
+  return { verified: true, config: toPublicConfig({ ...config, domainVerified: true, domainVerifiedAt: verifiedAt }) };
+});
+
+/** Whether an email must sign in through its organization's IdP (called from the login form). */
+export const ssoDiscover = functions.onRequest(HTTP_RUNTIME, async (req, res) => {
+  if (req.method !== "POST") {
+    res.status(405).json({ error: "Method not allowed" });
+    return;
+  }
+  try {
+    const email = typeof req.body?.email === "string" ? req.body.email : "";
+    const match = await findSsoConfigForEmail(email);
+    if (!match) {
+      res.json({ sso: false });
+      return;
+    }
+    res.json({ sso: true, organizationId: match.config.organizationId, organizationName: match.organization.name });
+  } catch (error: unknown) {
+    console.error("ssoDiscover error:", formatError(error));
+    res.status(500).json({ error: "Failed to check single sign-on" });
+  }
+});
+
+/** Sends the browser back to the app's login page; the token rides in the fragment so it isn't logged. */
+function redirectToApp(res: Response, returnTo: string, params: Record<string, string>): void {
+  res.redirect(302, `${returnTo}/auth#${new URLSearchParams(params).toString()}`);
+}
+
+/** Browser entry point: GET ?org=<organizationId>&returnTo=<app origin>[&email=] -> IdP. */
+export const ssoStart = functions.onRequest(HTTP_RUNTIME, async (req, res) => {
+  const organizationId = typeof req.query.org === "string" ? req.query.org : "";
+  const returnTo = typeof req.query.returnTo === "string" ? req.query.returnTo : "";
+  const loginHint = typeof req.query.email === "string" ? req.query.email : undefined;
+  if (!isAllowedReturnOrigin(returnTo, projectId)) {
+    res.status(400).send("Invalid return address");
+    return;
+  }
+  try {
+    const config = (await configRef(organizationId || "-").get()).data() as SsoConfigDoc | undefined;
+    if (!config?.enabled || !config.domainVerified) {
+      redirectToApp(res, returnTo, { sso_error: "Single sign-on is not enabled for this organization" });
+      return;
+    }
+
+    const state = crypto.randomBytes(24).toString("base64url");
+    const callbackUrl = ssoCallbackUrl();
+    const stateDoc: SsoStateDoc = {
+      organizationId,
+      returnTo,
+      callbackUrl,
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + SSO_STATE_TTL_MS),
+    };
+
+    let location: string;
+    if (config.protocol === "oidc" && config.oidc) {
+      const discovery = await discoverOidc(config.oidc.issuer);
+      const pkce = createPkce();
+      stateDoc.nonce = crypto.randomBytes(16).toString("base64url");
+      stateDoc.codeVerifier = pkce.verifier;
+      location = buildOidcAuthorizeUrl(discovery, {
+        clientId: config.oidc.clientId,
+        redirectUri: callbackUrl,
+        state,
+        nonce: stateDoc.nonce,
+        codeChallenge: pkce.challenge,
+        loginHint,
+      });
+    } else if (config.protocol === "saml" && config.saml) {
+      stateDoc.saml = {};
+      const client = createSamlClient(config.saml, callbackUrl, spEntityIdFor(callbackUrl, organizationId), stateDoc.saml);
+      location = await client.getAuthorizeUrlAsync(state, undefined, {});
+    } else {
+      redirectToApp(res, returnTo, { sso_error: "Single sign-on is not configured correctly" });
+      return;
+    }
+
+    await db.collection("ssoStates").doc(state).set(stateDoc);
+    res.redirect(302, location);
+  } catch (error: unknown) {
+    console.error("ssoStart error:", formatError(error));
+    redirectToApp(res, returnTo, { sso_error: "Could not reach your identity provider" });
+  }
+});
+
+/** Reads and deletes a pending sign-in; null when unknown or expired. */
+async function consumeState(state: string): Promise<SsoStateDoc | null> {
+  if (!state) return null;
+  const ref = db.collection("ssoStates").doc(state);
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+    tx.delete(ref);
+    const data = snap.data() as SsoStateDoc;
+    return data.expiresAt.toMillis() > Date.now() ? data : null;
+  });
+}
+
+/**
+ * Finds or creates the Firebase Auth account and profile for an SSO identity. Existing members
+ * are linked; new ones join the org with its default role, within the plan's participant limit.
+ */
+async function provisionSsoUser(identity: SsoIdentity, config: SsoConfigDoc): Promise<string> {
+  if (getEmailDomain(identity.email) !== config.domain) {
+    throw new Error(`Your identity provider signed you in as ${identity.email}, which is outside ${config.domain}`);
+  }
+
+  let authUser: admin.auth.UserRecord;
+  try {
+    authUser = await auth.getUserByEmail(identity.email);
+  } catch (error: unknown) {
+    if ((error as { code?: string })?.code !== "auth/user-not-found") throw error;
+    authUser = await auth.createUser({ email: identity.email, displayName: identity.name, emailVerified: true });
+  }
+
+  const existing = await db.collection("users").where("email", "==", identity.email).get();
+  const profiles = existing.docs.filter((d) => d.get("organizationId") === config.organizationId);
+  if (profiles.length === 0 && existing.docs.some((d) => d.get("organizationId"))) {
+    throw new Error("This account already belongs to another organization. Please contact your administrator.");
+  }
+
+  if (profiles.length > 0) {
+    if (profiles.every((d) => d.get("deactivated") === true)) {
+      throw new Error("Your account has been deactivated. Please contact your administrator.");
+    }
+    await Promise.all(
+      profiles
+        .filter((d) => !d.get("firebaseAuthUid"))
+        .map((d) => d.ref.update({ firebaseAuthUid: authUser.uid }))
+    );
+    return authUser.uid;
+  }
+
+  const orgRef = db.collection("organizations").doc(config.organizationId);
+  const org = (await orgRef.get()).data() as Organization | undefined;
+  if (!org) {
+    throw new Error("Organization not found");
+  }
+  const { maxParticipants } = getEntitlements(org as PlanFields);
+  if (maxParticipants !== null && (org.participantCount ?? 0) >= maxParticipants) {
+    throw new Error("Your organization has reached its participant limit. Please contact your administrator.");
+  }
+
+  await db.collection("users").doc(authUser.uid).set({
+    organizationId: config.organizationId,
+    name: identity.name,
+    email: identity.email,
+    role: config.defaultRole,
+    avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(identity.name)}`,
+    title: "",
+    company: org.name || "",
+    skills: [],
+    bio: "",
+    firebaseAuthUid: authUser.uid,
+    ssoSubject: identity.subject,
+    createdAt: new Date().toISOString(),
+  });
+  return authUser.uid;
+}
+
+/** IdP return: GET ?code&state (OIDC) or POST SAMLResponse + RelayState (SAML). */
+export const ssoCallback = functions.onRequest({ ...RUNTIME, cors: false, invoker: "public" as const }, async (req, res) => {
+  const params = (req.method === "POST" ? req.body : req.query) as Record<string, unknown>;
+  const state = String(params.state || params.RelayState || "");
+
+  let pending: SsoStateDoc | null = null;
+  try {
+    pending = await consumeState(state);
+  } catch (error: unknown) {
+    console.error("ssoCallback state error:", formatError(error));
+  }
+  if (!pending) {
+    res.status(400).send("This sign-in link has expired. Please start again from the login page.");
+    return;
+  }
+
+  try {
+    const config = (await configRef(pending.organizationId).get()).data() as SsoConfigDoc | undefined;
+    if (!config?.enabled || !config.domainVerified) {
+      throw new Error("Single sign-on is not enabled for this organization");
+    }
+    if (typeof params.error === "string") {
+      throw new Error(String(params.error_description || params.error));
+    }
+
+    let identity: SsoIdentity;
+    if (config.protocol === "oidc" && config.oidc) {
+      const discovery = await discoverOidc(config.oidc.issuer);
+      identity = await completeOidcLogin(discovery, config.oidc, {
+        code: String(params.code || ""),
+        redirectUri: pending.callbackUrl,
+        codeVerifier: pending.codeVerifier || "",
+        nonce: pending.nonce || "",
+      });
+    } else if (config.protocol === "saml" && config.saml) {
+      const client = createSamlClient(
+        config.saml,
+        pending.callbackUrl,
+        spEntityIdFor(pending.callbackUrl, pending.organizationId),
+        pending.saml || {}
+      );
+      identity = await completeSamlLogin(client, String(params.SAMLResponse || ""));
+    } else {
+      throw new Error("Single sign-on is not configured correctly");
+    }
+
+    const uid = await provisionSsoUser(identity, config);
+    const token = await auth.createCustomToken(uid, { sso: pending.organizationId });
+    redirectToApp(res, pending.returnTo, { sso_token: token });
+  } catch (error: unknown) {
+    console.error("ssoCallback error:", formatError(error));
+    redirectToApp(res, pending.returnTo, { sso_error: getErrorMessage(error) || "Single sign-on failed" });
+  }
+});
@@ -1,17 +1,51 @@
 /**
  * TOTP (Google Authenticator) 2FA Cloud Functions
- * Uses otplib for RFC 6238 compliant TOTP generation and verification
+ * Uses otplib for RFC 6238 compliant TOTP generation and verification.
+ * Recovery: hashed one-time backup codes, 30-day trusted devices, and an audited admin reset.
  */
 import * as functions from "firebase-functions/v2/https";
 import * as admin from "firebase-admin";
 import { generateSecret, generateURI, verify } from "otplib";
+import type { Response } from "express";
 import { getErrorMessage } from "./utils/errors";
+import {
+  createSalt,
+  createTrustedDevice,
+  findBackupCode,
+  generateBackupCodes,
+  hashBackupCodes,
+  isBackupCodeFormat,
+  isTrustedDeviceValid,
+  isValidDeviceId,
+  TrustedDeviceRecord,
+} from "./utils/totpRecovery";
+import { getTotpPolicyStatus, isTotpRequiredForRole } from "./utils/securityPolicy";
+import type { Organization, User } from "./types";
 
 const db = admin.firestore();
 const auth = admin.auth();
 
 const APP_NAME = "Meant2Grow";
 
+const RUNTIME = {
+  region: "us-central1" as const,
+  memory: "256MiB" as const,
+  cpu: 0.08333333333333333,
+  concurrency: 1,
+  maxInstances: 10,
+};
+
+/** totpSecrets/{firestoreUserId}; Functions-only (rules deny all client access). */
+interface TotpSecretDoc {
+  secret?: string;
+  verified?: boolean;
+  salt?: string; // Keys the backup code and trusted-device hashes
+  backupCodeHashes?: string[]; // Unused codes only; a code is removed when it's used
+  trustedDevices?: Record<string, TrustedDeviceRecord>;
+}
+
+const totpRef = (firestoreUserId: string) => db.collection("totpSecrets").doc(firestoreUserId);
+
 /** Get Firestore user ID from Firebase Auth UID (handles dual doc structure) */
 async function getFirestoreUserIdFromAuth(firebaseAuthUid: string): Promise<string | null> {
   // Check users/{firebaseAuthUid} first (auth UID doc)
@@ -77,6 +111,98 @@ async function setTotpEnabled(firestoreUserId: string, firebaseAuthUid: string,
   await batch.commit();
 }
 
+/** Replaces any unused backup codes with new ones; the plain codes are only returned here. */
+async function issueBackupCodes(firestoreUserId: string, existingSalt?: string): Promise<string[]> {
+  const salt = existingSalt || createSalt();
+  const codes = generateBackupCodes();
+  await totpRef(firestoreUserId).update({
+    salt,
+    backupCodeHashes: hashBackupCodes(codes, salt),
+    backupCodesGeneratedAt: admin.firestore.Timestamp.now(),
+  });
+  return codes;
+}
+
+/**
+ * Checks a 6-digit authenticator code or, failing that, a backup code. A matching backup code
+ * is removed in the same transaction, so it can't be used twice.
+ */
+async function verifySecondFactor(
+  firestoreUserId: string,
+  secret: string,
+  rawCode: unknown
+): Promise<{ valid: boolean; backupCodesRemaining?: number }> {
+  const code = String(rawCode ?? "").trim();
+  if (/^\d{6}$/.test(code)) {
+    const result = await verify({ secret, token: code });
+    return { valid: result.valid };
+  }
+  if (!isBackupCodeFormat(code)) {
+    return { valid: false };
+  }
+
+  const remaining = await db.runTransaction(async (tx) => {
+    const snap = await tx.get(totpRef(firestoreUserId));
+    const data = snap.data() as TotpSecretDoc | undefined;
+    const hashes = data?.backupCodeHashes || [];
+    const index = data?.salt ? findBackupCode(hashes, code, data.salt) : -1;
+    if (index < 0) return null;
+    const unused = hashes.filter((_, i) => i !== index);
+    tx.update(totpRef(firestoreUserId), {
+      backupCodeHashes: unused,
+      backupCodeUsedAt: admin.firestore.Timestamp.now(),
+    });
+    return unused.length;
+  });
+  return remaining === null ? { valid: false } : { valid: true, backupCodesRemaining: remaining };
+}
+
+/** Reads the verified 2FA doc or answers 400 itself and returns null. */
+async function getEnabledTotp(
+  firestoreUserId: string,
+  res: Response
+): Promise<TotpSecretDoc & { secret: string } | null> {
+  const totpDoc = await totpRef(firestoreUserId).get();
+  const data = totpDoc.data() as TotpSecretDoc | undefined;
+  if (!data) {
+    res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    return null;
+  }
+  if (!data.secret) {
+    res.status(400).json({ error: "Two-factor setup is invalid. Please contact support." });
+    return null;
+  }
+  return { ...data, secret: data.secret };
+}
+
+/** The organization's 2FA policy for this user, if any (platform operators have none). */
+async function getSecurityPolicyFor(user: Partial<User> | undefined) {
+  if (!user?.organizationId || user.organizationId === "platform") return undefined;
+  const orgDoc = await db.collection("organizations").doc(user.organizationId).get();
+  return (orgDoc.data() as Organization | undefined)?.securityPolicy;
+}
+
+/**
+ * Throws failed-precondition once the caller's organization requires 2FA for their role, the grace
+ * period is over and they still haven't set it up. Called by callables that change sensitive data.
+ * totpSecrets decides whether 2FA is on, since users.totpEnabled is writable by its owner.
+ */
+export async function assertTotpPolicy(callerUid: string): Promise<void> {
+  const userId = (await getFirestoreUserIdFromAuth(callerUid)) || callerUid;
+  const user = (await db.collection("users").doc(userId).get()).data() as User | undefined;
+  const policy = await getSecurityPolicyFor(user);
+  if (!user || !policy) return;
+
+  const totp = (await totpRef(userId).get()).data() as TotpSecretDoc | undefined;
+  const status = getTotpPolicyStatus(policy, { ...user, totpEnabled: !!totp?.verified && !!totp.secret });
+  if (status === "enforced") {
+    throw new functions.HttpsError(
+      "failed-precondition",
+      "Your organization requires two-factor authentication. Set it up in Settings > Security to continue."
+    );
+  }
+}
+
 export const setupTotp = functions.onRequest(
   { cors: true, region: "us-central1" },
   async (req, res) => {
@@ -143,8 +269,8 @@ export const verifyTotpSetup = functions.onRequest(
         return;
       }
 
-      const isValid = await verify({ secret, token: code.trim() });
-      if (!isValid) {
+      const { valid } = await verify({ secret, token: code.trim() });
+      if (!valid) {
         res.status(400).json({ error: "Invalid code. Please try again." });
         return;
       }
@@ -155,7 +281,8 @@ export const verifyTotpSetup = functions.onRequest(
       });
 
       await setTotpEnabled(firestoreUserId, firebaseAuthUid, true);
-      res.json({ success: true });
+      const backupCodes = await issueBackupCodes(firestoreUserId);
+      res.json({ success: true, backupCodes });
     } catch (error: unknown) {
       console.error("verifyTotpSetup error:", getErrorMessage(error));
       res.status(500).json({ error: "Failed to enable two-factor authentication", message: getErrorMessage(error) });
@@ -163,6 +290,11 @@ export const verifyTotpSetup = functions.onRequest(
   }
 );
 
+/**
+ * Second login step. Accepts an authenticator code or a backup code; with `rememberDevice`
+ * and the client's deviceTracking id, also returns a token that skips this step on that
+ * device for 30 days (see checkTrustedDevice).
+ */
 export const verifyTotpLogin = functions.onRequest(
   { cors: true, region: "us-central1" },
   async (req, res) => {
@@ -171,38 +303,168 @@ export const verifyTotpLogin = functions.onRequest(
       return;
     }
     try {
-      const { code, idToken } = req.body;
+      const { code, idToken, rememberDevice, deviceId, deviceName } = req.body;
       if (!code || !idToken) {
         res.status(400).json({ error: "Code and ID token are required" });
         return;
       }
-      if (!/^\d{6}$/.test(String(code).trim())) {
-        res.status(400).json({ error: "Please enter a valid 6-digit code" });
+      const trimmed = String(code).trim();
+      if (!/^\d{6}$/.test(trimmed) && !isBackupCodeFormat(trimmed)) {
+        res.status(400).json({ error: "Please enter a valid 6-digit code or backup code" });
         return;
       }
 
       const { firestoreUserId } = await verifyAuthAndGetUser(idToken);
 
-      const totpDoc = await db.collection("totpSecrets").doc(firestoreUserId).get();
-      if (!totpDoc.exists) {
-        res.status(400).json({ error: "Two-factor authentication is not set up for this account" });
+      const totp = await getEnabledTotp(firestoreUserId, res);
+      if (!totp) return;
+
+      const { valid, backupCodesRemaining } = await verifySecondFactor(firestoreUserId, totp.secret, trimmed);
+      if (!valid) {
+        res.status(400).json({ error: "Invalid code. Please try again." });
         return;
       }
-      const secret = (totpDoc.data() as { secret?: string } | undefined)?.secret;
-      if (!secret) {
-        res.status(400).json({ error: "Two-factor setup is invalid. Please contact support." });
+
+      let trust: { trustToken: string; trustExpiresAt: string } | undefined;
+      if (rememberDevice === true && isValidDeviceId(deviceId)) {
+        const salt = totp.salt || createSalt();
+        const { token, record } = createTrustedDevice(String(deviceName || ""), salt);
+        await totpRef(firestoreUserId).set({ salt, trustedDevices: { [deviceId]: record } }, { merge: true });
+        trust = { trustToken: token, trustExpiresAt: record.expiresAt };
+      }
+
+      res.json({ success: true, backupCodesRemaining, ...trust });
+    } catch (error: unknown) {
+      console.error("verifyTotpLogin error:", getErrorMessage(error));
+      res.status(500).json({ error: "Verification failed", message: getErrorMessage(error) });
+    }
+  }
+);
+
+/** Whether this device still holds a valid "trust this device" token; expired ones are removed. */
+export const checkTrustedDevice = functions.onRequest(
+  { cors: true, region: "us-central1" },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+    try {
+      const { idToken, deviceId, trustToken } = req.body;
+      const { firestoreUserId } = await verifyAuthAndGetUser(idToken);
+      if (!isValidDeviceId(deviceId)) {
+        res.json({ trusted: false });
         return;
       }
 
-      const isValid = await verify({ secret, token: String(code).trim() });
-      if (!isValid) {
+      const data = (await totpRef(firestoreUserId).get()).data() as TotpSecretDoc | undefined;
+      const record = data?.trustedDevices?.[deviceId];
+      const trusted = !!data?.salt && isTrustedDeviceValid(record, trustToken, data.salt);
+      if (record && !trusted && Date.parse(record.expiresAt) <= Date.now()) {
+        await totpRef(firestoreUserId).update(
+          new admin.firestore.FieldPath("trustedDevices", deviceId),
+          admin.firestore.FieldValue.delete()
+        );
+      }
+      res.json({ trusted });
+    } catch (error: unknown) {
+      console.error("checkTrustedDevice error:", getErrorMessage(error));
+      res.status(500).json({ error: "Failed to check device", message: getErrorMessage(error) });
+    }
+  }
+);
+
+/** Backup codes left and trusted devices, for Settings. */
+export const getTotpStatus = functions.onRequest(
+  { cors: true, region: "us-central1" },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+    try {
+      const { idToken } = req.body;
+      const { firestoreUserId } = await verifyAuthAndGetUser(idToken);
+      const data = (await totpRef(firestoreUserId).get()).data() as TotpSecretDoc | undefined;
+      const now = Date.now();
+      const trustedDevices = Object.entries(data?.trustedDevices || {})
+        .filter(([, record]) => Date.parse(record.expiresAt) > now)
+        .map(([deviceId, record]) => ({
+          deviceId,
+          deviceName: record.deviceName,
+          createdAt: record.createdAt,
+          expiresAt: record.expiresAt,
+        }));
+      res.json({
+        enabled: !!data?.verified,
+        backupCodesRemaining: data?.backupCodeHashes?.length ?? 0,
+        trustedDevices,
+      });
+    } catch (error: unknown) {
+      console.error("getTotpStatus error:", getErrorMessage(error));
+      res.status(500).json({ error: "Failed to load two-factor status", message: getErrorMessage(error) });
+    }
+  }
+);
+
+/** New set of backup codes (the old ones stop working). Needs a current code. */
+export const regenerateBackupCodes = functions.onRequest(
+  { cors: true, region: "us-central1" },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+    try {
+      const { idToken, code } = req.body;
+      const { firestoreUserId } = await verifyAuthAndGetUser(idToken);
+
+      const totp = await getEnabledTotp(firestoreUserId, res);
+      if (!totp) return;
+
+      const { valid } = await verifySecondFactor(firestoreUserId, totp.secret, code);
+      if (!valid) {
         res.status(400).json({ error: "Invalid code. Please try again." });
         return;
       }
+
+      const backupCodes = await issueBackupCodes(firestoreUserId, totp.salt);
+      res.json({ backupCodes });
+    } catch (error: unknown) {
+      console.error("regenerateBackupCodes error:", getErrorMessage(error));
+      res.status(500).json({ error: "Failed to generate backup codes", message: getErrorMessage(error) });
+    }
+  }
+);
+
+/** Stops trusting one device (revoked in Active Sessions) or, without deviceId, all of them. */
+export const forgetTrustedDevices = functions.onRequest(
+  { cors: true, region: "us-central1" },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+    try {
+      const { idToken, deviceId } = req.body;
+      const { firestoreUserId } = await verifyAuthAndGetUser(idToken);
+      const ref = totpRef(firestoreUserId);
+      if (!(await ref.get()).exists) {
+        res.json({ success: true });
+        return;
+      }
+      if (deviceId === undefined) {
+        await ref.update({ trustedDevices: admin.firestore.FieldValue.delete() });
+      } else if (isValidDeviceId(deviceId)) {
+        await ref.update(new admin.firestore.FieldPath("trustedDevices", deviceId), admin.firestore.FieldValue.delete());
+      } else {
+        res.status(400).json({ error: "Invalid device" });
+        return;
+      }
       res.json({ success: true });
     } catch (error: unknown) {
-      console.error("verifyTotpLogin error:", getErrorMessage(error));
-      res.status(500).json({ error: "Verification failed", message: getErrorMessage(error) });
+      console.error("forgetTrustedDevices error:", getErrorMessage(error));
+      res.status(500).json({ error: "Failed to forget trusted devices", message: getErrorMessage(error) });
     }
   }
 );
@@ -218,19 +480,23 @@ export const disableTotp = functions.onRequest(
       const { idToken, code } = req.body;
       const { firestoreUserId, firebaseAuthUid } = await verifyAuthAndGetUser(idToken);
 
-      if (!code || typeof code !== "string" || !/^\d{6}$/.test(code.trim())) {
-        res.status(400).json({ error: "Please enter your current 6-digit code to disable 2FA" });
+      if (!code || typeof code !== "string" || !(/^\d{6}$/.test(code.trim()) || isBackupCodeFormat(code))) {
+        res.status(400).json({ error: "Please enter your current 6-digit code or a backup code to disable 2FA" });
         return;
       }
 
-      const totpDoc = await db.collection("totpSecrets").doc(firestoreUserId).get();
-      if (!totpDoc.exists) {
-        res.status(400).json({ error: "Two-factor authentication is not enabled" });
+      const user = (await db.collection("users").doc(firestoreUserId).get()).data() as User | undefined;
+      const policy = await getSecurityPolicyFor(user);
+      if (user && isTotpRequiredForRole(policy?.requireTotp, String(user.role))) {
+        res.status(403).json({ error: "Your organization requires two-factor authentication, so it can't be turned off" });
         return;
       }
-      const secret = (totpDoc.data() as { secret?: string } | undefined)?.secret;
-      const isValid = await verify({ secret: secret!, token: code.trim() });
-      if (!isValid) {
+
+      const totp = await getEnabledTotp(firestoreUserId, res);
+      if (!totp) return;
+
+      const { valid } = await verifySecondFactor(firestoreUserId, totp.secret, code);
+      if (!valid) {
         res.status(400).json({ error: "Invalid code. Please try again." });
         return;
       }
@@ -244,3 +510,68 @@ export const disableTotp = functions.onRequest(
     }
   }
 );
+
+/**
+ * Clears a user's 2FA (secret, backup codes, trusted devices) so they can sign in with their
+ * password and set it up again. Platform operators can reset anyone but other operators; org
+ * admins only members of their own organization. Every reset is written to auditLog.
+ */
+export const resetUserTotp = functions.onCall(RUNTIME, async (request) => {
+  if (!request.auth?.uid) {
+    throw new functions.HttpsError("unauthenticated", "Sign in required");
+  }
+  const callerUid = request.auth.uid;
+  await assertTotpPolicy(callerUid);
+  const targetUserId = request.data?.targetUserId;
+  const reason = typeof request.data?.reason === "string" ? request.data.reason.trim() : "";
+  if (typeof targetUserId !== "string" || !targetUserId) {
+    throw new functions.HttpsError("invalid-argument", "targetUserId is required");
+  }
+  if (reason.length < 10) {
+    throw new functions.HttpsError("invalid-argument", "Please give a reason (at least 10 characters)");
+  }
+
+  const targetSnap = await db.collection("users").doc(targetUserId).get();
+  if (!targetSnap.exists) {
+    throw new functions.HttpsError("not-found", "User not found");
+  }
+  const target = targetSnap.data() || {};
+  if (targetUserId === callerUid || target.firebaseAuthUid === callerUid) {
+    throw new functions.HttpsError("invalid-argument", "Use Settings to manage your own two-factor authentication");
+  }
+
+  const callerId = (await getFirestoreUserIdFromAuth(callerUid)) || callerUid;
+  const caller = (await db.collection("users").doc(callerId).get()).data() || {};
+  const callerIsOperator =
+    caller.role === "PLATFORM_OPERATOR" || caller.role === "PLATFORM_ADMIN" || caller.organizationId === "platform";
+  const targetIsOperator = target.role === "PLATFORM_OPERATOR" || target.role === "PLATFORM_ADMIN";
+  const callerIsOrgAdmin =
+    (caller.role === "ORGANIZATION_ADMIN" || caller.role === "ADMIN") && !!caller.organizationId && caller.organizationId === target.organizationId;
+  if (targetIsOperator ? !callerIsOperator : !(callerIsOperator || callerIsOrgAdmin)) {
+    throw new functions.HttpsError("permission-denied", "You cannot reset two-factor authentication for this user");
+  }
+
+  // totpSecrets is keyed by the canonical profile id, which may differ from the doc the admin opened
+  const targetAuthUid = typeof target.firebaseAuthUid === "string" ? target.firebaseAuthUid : targetUserId;
+  const canonicalId = (await getFirestoreUserIdFromAuth(targetAuthUid)) || targetUserId;
+  await Promise.all(
+    Array.from(new Set([targetUserId, canonicalId])).map((id) => totpRef(id).delete())
+  );
+  await setTotpEnabled(canonicalId, targetAuthUid, false);
+  if (canonicalId !== targetUserId) {
+    await db.collection("users").doc(targetUserId).update({ totpEnabled: admin.firestore.FieldValue.delete() });
+  }
+
+  await db.collection("auditLog").add({
+    action: "totp_reset",
+    operatorUid: callerUid,
+    operatorEmail: caller.email || request.auth.token.email || null,
+    targetUserId,
+    targetUserName: target.name || null,
+    organizationId: target.organizationId || null,
+    reason,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { success: true };
+});
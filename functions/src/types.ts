@@ -6,16 +6,18 @@ export enum Role {
 }
 
 export enum MatchStatus {
-  PENDING = "PENDING",
+  PENDING = "PENDING", // Proposed; waiting for both mentor and mentee to accept
   ACTIVE = "ACTIVE",
-  COMPLETED = "COMPLETED",
-  REJECTED = "REJECTED",
+  PAUSED = "PAUSED", // On hold; resuming pushes endDate out by the time paused
+  COMPLETED = "COMPLETED", // Closed; each side is asked for an outcome summary and rating
+  REJECTED = "REJECTED", // Declined by the mentor or mentee
 }
 
 export interface Organization {
   id: string;
   name: string;
-  domain?: string; // For domain-based SSO
+  domain?: string; // Verified email domain for SSO; set by Cloud Functions (see functions/src/sso.ts)
+  ssoEnabled?: boolean; // Members of `domain` sign in through the organization's IdP
   logo: string | null;
   accentColor: string;
   programSettings: ProgramSettings;
@@ -33,8 +35,45 @@ export interface Organization {
   stripeSubscriptionId?: string;
   trialEnd?: string; // ISO date string - when free trial ends
   subscriptionStatus?: "active" | "trialing" | "past_due" | "canceled" | "unpaid";
+  // Plan usage, maintained by entitlements.ts triggers
+  participantCount?: number; // Mentor + mentee profiles in the organization
+  participantLimit?: number | null; // Limit for the current plan; null = unlimited
+  notificationDefaults?: NotificationPreferences; // Used for any category a member hasn't set themselves
+  emailTemplates?: Partial<Record<EmailTemplateKey, EmailTemplateOverride>>; // Missing or invalid = default email
+  securityPolicy?: OrgSecurityPolicy; // Unset = 2FA optional for everyone
+  invitationExpiryDays?: number; // Lifetime of new invitation links; unset = DEFAULT_INVITATION_EXPIRY_DAYS
 }
 
+/** Which roles must use TOTP 2FA; each level includes the ones before it. */
+export type TotpRequirement = "off" | "admins" | "admins_and_mentors" | "everyone";
+
+/** Org-enforced 2FA; see utils/securityPolicy.ts. */
+export interface OrgSecurityPolicy {
+  requireTotp: TotpRequirement;
+  gracePeriodDays: number; // Days a covered user may keep signing in without TOTP
+  enforcedAt: string; // ISO date string; when requireTotp last changed (grace counts from here)
+  updatedAt?: string;
+}
+
+export type MentorshipStyle = "structured" | "flexible" | "project-based" | "any";
+
+export type EmailTemplateKey = "welcome" | "matchCreated" | "invitation" | "meetingReminder";
+
+/** Org wording for one email; blank fields keep the default. Supports {{variable}} placeholders. */
+export interface EmailTemplateOverride {
+  subject?: string;
+  heading?: string;
+  body?: string;
+  buttonLabel?: string;
+  updatedAt?: string;
+}
+
+/** Email / push opt-ins keyed by category (see utils/notificationPreferences.ts). */
+export type NotificationPreferences = Record<string, { email: boolean; push: boolean }>;
+
+/** How non-urgent emails reach a user: one per event, or bundled into a daily/weekly digest. */
+export type EmailDigestFrequency = "immediate" | "daily" | "weekly";
+
 export interface User {
   id: string;
   organizationId: string; // CRITICAL: Links user to organization
@@ -46,23 +85,80 @@ export interface User {
   company: string;
   skills: string[];
   goals?: string[]; // Mostly for mentees
+  expertise?: string[]; // Mentors: areas they mentor in, beyond their own skills
+  industries?: string[]; // Mentors: industries they have worked in
+  skillsToImprove?: string[]; // Mentees: skills they want to build
+  preferredIndustries?: string[]; // Mentees: industries they want a mentor from
+  mentorshipStyle?: MentorshipStyle; // Mentees: style they want; mentors: style they offer
   bio: string;
   googleId?: string; // For OAuth linking
+  totpEnabled?: boolean; // Two-factor authentication via Google Authenticator (set by totp.ts)
   goalsPublic?: boolean; // Whether goals are visible to others (default: true)
+  timezone?: string; // IANA time zone (e.g. "America/New_York")
+  availability?: MentorAvailability; // Mentors only: weekly windows mentees can book sessions in
   totalHoursCommitted?: number; // Total hours committed by mentor (sum of all scheduled appointment durations)
+  notificationPreferences?: NotificationPreferences;
+  emailDigest?: EmailDigestFrequency; // Unset = immediate
+  lastDigestSentAt?: string; // ISO date string; set by sendEmailDigests
+  deactivated?: boolean; // Set by SCIM provisioning (scim.ts); kept for history, doesn't count toward the plan
+  deactivatedAt?: string;
   createdAt: string;
   onboardingCompleted?: boolean;
   onboardingCompletedAt?: string;
 }
 
+/** A browser/device registered for push by the client (services/deviceTracking.ts DeviceInfo). */
+export interface UserDevice {
+  deviceId: string;
+  fcmToken: string;
+  userAgent?: string;
+  platform?: "ios" | "android" | "desktop" | "unknown";
+  deviceName?: string;
+  lastActiveAt?: string; // ISO date string
+  createdAt?: string; // ISO date string
+}
+
+export type MatchSide = "mentor" | "mentee";
+
+export interface MatchResponse {
+  decision: "accepted" | "declined";
+  reason?: string; // Required when declining
+  respondedAt: string; // ISO date string
+}
+
+export interface MatchClosureFeedback {
+  outcomeSummary: string;
+  rating: number; // 1-5, for the other side of the match
+  submittedAt: string; // ISO date string
+}
+
 export interface Match {
   id: string;
   organizationId: string; // Isolated per organization
   mentorId: string;
   menteeId: string;
   status: MatchStatus;
-  startDate: string;
+  startDate: string; // YYYY-MM-DD; the proposal date until accepted, then the acceptance date
   notes?: string;
+  durationWeeks?: number; // Planned length; sets endDate when the match starts
+  endDate?: string; // YYYY-MM-DD planned end; "ending soon" reminders go out before it
+  proposedAt?: string; // ISO date string
+  proposedBy?: string; // User ID (usually an org admin)
+  mentorResponse?: MatchResponse;
+  menteeResponse?: MatchResponse;
+  acceptedAt?: string; // ISO date string; both sides accepted
+  declinedAt?: string; // ISO date string
+  declinedBy?: string; // User ID
+  pausedAt?: string; // ISO date string; set while PAUSED
+  pausedBy?: string; // User ID
+  pauseReason?: string;
+  resumedAt?: string; // ISO date string of the latest resume
+  endingSoonNotifiedAt?: string; // ISO date string; set by the reminder job so it only sends once
+  closedAt?: string; // ISO date string
+  closedBy?: string; // User ID
+  closureReason?: string;
+  mentorFeedback?: MatchClosureFeedback;
+  menteeFeedback?: MatchClosureFeedback;
 }
 
 export interface Goal {
@@ -74,6 +170,7 @@ export interface Goal {
   progress: number; // 0-100
   status: "Not Started" | "In Progress" | "Completed";
   dueDate: string;
+  updatedAt?: string; // ISO date string; drives the "goal changes" section of email digests
 }
 
 export interface Milestone {
@@ -111,18 +208,33 @@ export interface Resource {
   url: string;
   description: string;
   fileUrl?: string; // Stored in Cloud Storage
+  tags?: string[]; // Skills from PREDEFINED_SKILLS, used by library search and ranking
   uploadedBy: string;
   createdAt: string;
 }
 
+export type BlogPostStatus = "draft" | "scheduled" | "published";
+
 export interface BlogPost {
   id: string;
   title: string;
+  slug?: string;
   category: string;
+  tags?: string[];
   imageUrl: string;
   excerpt: string;
+  content?: string;
+  authorId?: string;
+  authorName?: string;
+  authorTitle?: string;
+  authorAvatar?: string;
+  status?: BlogPostStatus;
+  publishAt?: string; // ISO time a scheduled post goes live
+  publishedAt?: string;
   published: boolean;
+  lastEditedBy?: { id: string; name: string };
   createdAt: string;
+  updatedAt?: string;
   // Platform-wide, no organizationId
 }
 
@@ -134,6 +246,7 @@ export interface DiscussionGuide {
   content: string; // HTML content
   author: string;
   date: string;
+  tags?: string[]; // Skills from PREDEFINED_SKILLS
   isPlatform: boolean; // true = platform-wide, false = organization-specific
   organizationId?: string; // Only present if isPlatform = false
   createdAt: string;
@@ -148,6 +261,7 @@ export interface CareerTemplate {
   content: string; // HTML notes / legacy in-app body
   fileUrl?: string;
   originalFileName?: string;
+  tags?: string[]; // Skills from PREDEFINED_SKILLS
   isPlatform: boolean; // true = platform-wide, false = organization-specific
   organizationId?: string; // Only present if isPlatform = false
   createdAt: string;
@@ -160,7 +274,9 @@ export interface TrainingVideo {
   description: string;
   thumbnail: string;
   videoUrl?: string;
-  transcript?: string;
+  transcript?: string; // Plain text, searchable in the library
+  lengthMinutes?: number; // Running time, 0 = unknown (`duration` is the start offset from the URL)
+  tags?: string[]; // Skills from PREDEFINED_SKILLS
   isPlatform: boolean; // true = platform-wide, false = organization-specific
   organizationId?: string; // Only present if isPlatform = false
   createdAt: string;
@@ -172,20 +288,74 @@ export interface Invitation {
   email: string;
   name: string;
   role: Role;
-  status: "Pending" | "Accepted" | "Expired";
+  status: InvitationStatus;
   sentDate: string;
   inviterId: string;
-  token: string; // Unique token for invitation link
+  token: string; // Unique token for invitation link; single use, dead once the status leaves Pending
   invitationLink?: string; // Full invitation URL
-  expiresAt?: string; // Optional expiration date
+  expiresAt?: string; // Set from the org's invitationExpiryDays; older invites may lack it
+  openedAt?: string; // First time the link was opened
+  reminderSentAt?: string; // The one reminder sent before expiry
+  acceptedAt?: string;
+  acceptedUserId?: string; // Profile created or linked on acceptance
+  revokedAt?: string;
+  revokedBy?: string; // Admin user id
+}
+
+export type InvitationStatus = "Pending" | "Accepted" | "Expired" | "Revoked";
+
+/** A weekly window a mentor can be booked in, on the wall clock of MentorAvailability.timeZone. */
+export interface AvailabilityWindow {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm, later than startTime on the same day
+}
+
+export interface MentorAvailability {
+  timeZone: string; // IANA zone the windows are written in
+  windows: AvailabilityWindow[];
+  sessionMinutes: number; // Length of a bookable session
+  bufferMinutes: number; // Free time kept before and after every other event
+  maxSessionsPerWeek?: number; // Monday-Sunday in timeZone; unset means no cap
+}
+
+/** A busy interval from a connected calendar, as ISO UTC instants. */
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+/** busyTimes/{userId}: busy intervals published from the user's connected calendars on sync (no titles or details). */
+export interface CalendarBusyTimes {
+  userId: string;
+  organizationId: string;
+  intervals: BusyInterval[];
+  updatedAt: string;
+}
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+/** The subset of RFC 5545 RRULE used for mentorship sessions. Dates are wall-clock dates in the event's timeZone. */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months (default 1)
+  count?: number; // Total occurrences including exceptions, like RRULE COUNT
+  until?: string; // YYYY-MM-DD last date an occurrence may fall on (inclusive)
 }
 
 export interface CalendarEvent {
   id: string;
   organizationId: string; // Isolated per organization
   title: string;
-  date: string;
-  startTime: string;
+  date: string; // YYYY-MM-DD wall-clock date in timeZone
+  startTime: string; // HH:mm wall-clock time in timeZone
+  timeZone?: string; // IANA zone the event was scheduled in (e.g. "America/Chicago")
+  startsAt?: string; // ISO UTC instant of date + startTime in timeZone; source of truth for display
+  recurrence?: RecurrenceRule; // Set on a series; date/startTime are its first occurrence
+  recurrenceExceptions?: string[]; // Occurrence dates (YYYY-MM-DD) removed from the series (RRULE EXDATE)
+  recurringEventId?: string; // On a one-off override: the series whose occurrence it replaces
+  originalOccurrenceDate?: string; // On a one-off override: the occurrence date it replaces
+  occurrenceDate?: string; // Only on expanded occurrences (never stored): which series date this is
   duration: string;
   type: string;
   mentorId?: string;
@@ -213,11 +383,58 @@ export interface Notification {
   isRead: boolean;
   timestamp: string;
   chatId?: string; // Optional: for notifications that should navigate to a chat
+  goalId?: string; // Optional: the goal a goal notification opens
+  eventId?: string; // Optional: the calendar event a meeting notification opens
 }
 
 export interface BlockRecord {
+  id: string; // `${blockerId}_${blockedId}` so a pair can only be blocked once
+  organizationId: string;
   blockerId: string;
   blockedId: string;
+  createdAt: string;
+}
+
+export type ImpersonationMode = "read_only" | "read_write";
+
+// Issued by the startImpersonationSession Cloud Function; clients cannot write these
+export interface ImpersonationSession {
+  id: string;
+  organizationId: string; // Organization of the impersonated user
+  operatorUid: string; // Firebase Auth uid of the platform operator
+  operatorName: string;
+  operatorEmail: string;
+  targetUserId: string;
+  targetUserName: string;
+  reason: string;
+  mode: ImpersonationMode;
+  startedAt: string;
+  expiresAt: string;
+  endedAt?: string | null;
+}
+
+export type AuditLogAction =
+  | "impersonation_started"
+  | "impersonation_ended"
+  | "create"
+  | "update"
+  | "delete"
+  | "call"
+  | "totp_reset";
+
+// Append-only; one entry per write made while impersonating, plus session start/end and 2FA resets
+export interface AuditLogEntry {
+  id: string;
+  organizationId: string;
+  sessionId?: string; // Impersonation entries only
+  operatorUid: string;
+  targetUserId: string;
+  action: AuditLogAction;
+  path?: string; // Firestore document path for create/update/delete/call
+  fields?: string[]; // Top-level fields written
+  callable?: string; // call: the Cloud Function that made the change at `path`
+  reason?: string; // totp_reset: why the operator or org admin cleared the user's 2FA
+  createdAt: string;
 }
 
 export interface ReportRecord {
@@ -0,0 +1,85 @@
+/**
+ * Server copy of the slot rules in the client's utils/availability.ts, used to re-check bookings.
+ * A slot is a sessionMinutes piece of a weekly window that stays bufferMinutes clear of every
+ * busy range, in a week that has not reached maxSessionsPerWeek.
+ */
+import { MentorAvailability } from "../types";
+import { isValidTimeZone, utcToZonedDateTime, zonedDateTimeToUtc } from "./timeZones";
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export const BOOKING_NOTICE_HOURS = 12;
+export const BOOKING_HORIZON_DAYS = 28;
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const weekStartOf = (date: string): string => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+/** Minutes in a duration string such as "1h", "30 min", "45m" or "1h 30m" (60 when unreadable). */
+export function parseDurationMinutes(duration: string | undefined): number {
+  const normalized = (duration || "").trim().toLowerCase();
+  const hours = normalized.match(/(\d+\.?\d*)\s*h/);
+  const minutes = normalized.match(/(\d+\.?\d*)\s*m/);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0);
+  return Math.round(total) || 60;
+}
+
+/** Monday 00:00 to the next Monday 00:00, in timeZone, of the week an instant falls in. */
+export function getWeekRange(instant: Date, timeZone: string): TimeRange {
+  const weekStart = weekStartOf(utcToZonedDateTime(instant, timeZone).date);
+  return {
+    start: zonedDateTimeToUtc(weekStart, "00:00", timeZone),
+    end: zonedDateTimeToUtc(addDays(weekStart, 7), "00:00", timeZone),
+  };
+}
+
+/** Whether a session starting at `start` is one of the mentor's bookable slots right now. */
+export function isSlotAvailable(
+  availability: MentorAvailability,
+  start: Date,
+  busy: TimeRange[],
+  sessionsInWeek: number
+): boolean {
+  const { timeZone, sessionMinutes, bufferMinutes, maxSessionsPerWeek } = availability;
+  if (!isValidTimeZone(timeZone) || !(sessionMinutes > 0)) return false;
+  if (maxSessionsPerWeek !== undefined && sessionsInWeek >= maxSessionsPerWeek) return false;
+
+  const { date, time } = utcToZonedDateTime(start, timeZone);
+  const startMinutes = toMinutes(time);
+  const inWindow = availability.windows.some((window) => {
+    if (window.weekday !== weekdayOf(date)) return false;
+    const offset = startMinutes - toMinutes(window.startTime);
+    return (
+      offset >= 0 &&
+      offset % sessionMinutes === 0 &&
+      startMinutes + sessionMinutes <= toMinutes(window.endTime) &&
+      // Rules out wall-clock times skipped by a DST change
+      zonedDateTimeToUtc(date, toTime(startMinutes), timeZone).getTime() === start.getTime()
+    );
+  });
+  if (!inWindow) return false;
+
+  const bufferMs = Math.max(0, bufferMinutes) * 60000;
+  const end = start.getTime() + sessionMinutes * 60000;
+  return !busy.some(
+    (range) =>
+      start.getTime() < range.end.getTime() + bufferMs &&
+      end > range.start.getTime() - bufferMs
+  );
+}
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { buildAtomFeed, buildRssFeed, buildSitemap, FeedPost, injectArticleMeta } from "./blogFeeds";
+
+const siteUrl = "https://meant2grow.com";
+
+const post: FeedPost = {
+  slug: "active-listening",
+  title: "Listening & Leading",
+  excerpt: "",
+  content: '<p>Listen <strong>first</strong>.</p><script>alert(1)</script><a href="javascript:x()">x</a>',
+  category: "Skills",
+  tags: ["feedback"],
+  authorName: "Dana Admin",
+  imageUrl: "https://images.example.com/cover.jpg",
+  publishedAt: new Date("2026-04-01T09:00:00.000Z"),
+  updatedAt: new Date("2026-04-02T10:00:00.000Z"),
+};
+
+const indexHtml = `<html><head>
+  <meta name="description" content="Automated mentorship platform" />
+  <meta property="og:type" content="website" />
+  <meta name="twitter:card" content="summary" />
+  <title>Meant2Grow - Automated Mentorship Platform</title>
+</head><body><div id="root"></div></body></html>`;
+
+describe("blogFeeds", () => {
+  it("builds an RSS item per post with escaped, sanitized article HTML", () => {
+    const rss = buildRssFeed(siteUrl, [post]);
+
+    expect(rss).toContain("<title>Listening &amp; Leading</title>");
+    expect(rss).toContain('<guid isPermaLink="true">https://meant2grow.com/blog/active-listening</guid>');
+    expect(rss).toContain("<pubDate>Wed, 01 Apr 2026 09:00:00 GMT</pubDate>");
+    expect(rss).toContain("<category>feedback</category>");
+    // No excerpt: the description falls back to the article text
+    expect(rss).toContain("<description>Listen first . x</description>");
+    expect(rss).toContain("&lt;strong&gt;first&lt;/strong&gt;");
+    expect(rss).not.toContain("alert(1)");
+    expect(rss).not.toContain("javascript");
+  });
+
+  it("builds an Atom feed updated at the latest edit", () => {
+    const atom = buildAtomFeed(siteUrl, [post]);
+
+    expect(atom).toContain("<updated>2026-04-02T10:00:00.000Z</updated>");
+    expect(atom).toContain('<link href="https://meant2grow.com/blog/active-listening"/>');
+    expect(atom).toContain("<author><name>Dana Admin</name></author>");
+  });
+
+  it("lists public routes and articles in the sitemap", () => {
+    const sitemap = buildSitemap(siteUrl, [post]);
+
+    expect(sitemap).toContain("<url><loc>https://meant2grow.com/pricing</loc></url>");
+    expect(sitemap).toContain(
+      "<url><loc>https://meant2grow.com/blog/active-listening</loc><lastmod>2026-04-02</lastmod></url>"
+    );
+    expect(sitemap).not.toContain("/auth");
+  });
+
+  it("replaces the site-wide preview tags with the article's", () => {
+    const html = injectArticleMeta(indexHtml, siteUrl, { ...post, title: 'Pay $& "quote"' });
+
+    expect(html).toContain("<title>Pay $&amp; &quot;quote&quot; | Meant2Grow</title>");
+    expect(html).toContain('<meta property="og:title" content="Pay $&amp; &quot;quote&quot;" />');
+    expect(html).toContain('<meta property="og:image" content="https://images.example.com/cover.jpg" />');
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image" />');
+    expect(html).not.toContain('content="website"');
+    expect(html.match(/name="description"/g)).toHaveLength(1);
+  });
+});
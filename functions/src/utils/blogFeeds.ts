@@ -0,0 +1,195 @@
+/**
+ * XML and HTML builders for the public blog: RSS 2.0 and Atom feeds, sitemap.xml and the
+ * Open Graph tags injected into index.html for /blog/<slug> (link previews don't run the SPA).
+ */
+import { sanitizeHtml } from "./sanitizeHtml";
+
+/** Server copy of the crawlable entries in the client's PUBLIC_ROUTE_PATHS (utils/routes.ts). */
+export const PUBLIC_SITEMAP_PATHS = [
+  "/",
+  "/features",
+  "/how-it-works",
+  "/pricing",
+  "/enterprise",
+  "/blog",
+  "/community",
+  "/help",
+  "/contact",
+  "/legal",
+];
+
+export const SITE_NAME = "Meant2Grow";
+const BLOG_TITLE = "Meant2Grow Blog";
+const BLOG_DESCRIPTION = "Expert advice on mentorship, career development, and leadership.";
+
+export interface FeedPost {
+  slug: string;
+  title: string;
+  excerpt: string;
+  content: string;
+  category: string;
+  tags: string[];
+  authorName: string;
+  imageUrl: string;
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+export const articleUrl = (siteUrl: string, slug: string): string => `${siteUrl}/blog/${encodeURIComponent(slug)}`;
+
+const TEXT_ENTITIES: Record<string, string> = { nbsp: " ", amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'" };
+
+// Plain text of the sanitized article (no script bodies), entities decoded for re-escaping
+const htmlToText = (html: string): string =>
+  sanitizeHtml(html)
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (_entity, name: string) => TEXT_ENTITIES[name]);
+
+// Summary for feeds and previews; posts without an excerpt use the start of the article
+const summaryOf = (post: Pick<FeedPost, "excerpt" | "content">, maxLength = 200): string => {
+  const text = (post.excerpt || htmlToText(post.content)).replace(/\s+/g, " ").trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+const articleHtml = (post: FeedPost): string => {
+  const cover = post.imageUrl ? `<p><img src="${escapeXml(post.imageUrl)}" alt=""></p>` : "";
+  return sanitizeHtml(cover + (post.content || `<p>${escapeXml(post.excerpt)}</p>`));
+};
+
+/** RSS 2.0 with full article HTML in content:encoded. `posts` newest first. */
+export const buildRssFeed = (siteUrl: string, posts: FeedPost[], now = new Date()): string => {
+  const items = posts.map((post) => {
+    const link = articleUrl(siteUrl, post.slug);
+    const categories = [post.category, ...post.tags]
+      .filter(Boolean)
+      .map((category) => `      <category>${escapeXml(category)}</category>`);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(post.title)}</title>`,
+      `      <link>${escapeXml(link)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(link)}</guid>`,
+      `      <pubDate>${post.publishedAt.toUTCString()}</pubDate>`,
+      post.authorName ? `      <dc:creator>${escapeXml(post.authorName)}</dc:creator>` : "",
+      ...categories,
+      `      <description>${escapeXml(summaryOf(post))}</description>`,
+      `      <content:encoded>${escapeXml(articleHtml(post))}</content:encoded>`,
+      "    </item>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${BLOG_TITLE}</title>`,
+    `    <link>${escapeXml(`${siteUrl}/blog`)}</link>`,
+    `    <atom:link href="${escapeXml(`${siteUrl}/blog/rss.xml`)}" rel="self" type="application/rss+xml"/>`,
+    `    <description>${BLOG_DESCRIPTION}</description>`,
+    "    <language>en</language>",
+    `    <lastBuildDate>${(posts[0]?.updatedAt ?? now).toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+};
+
+/** Atom 1.0 equivalent of buildRssFeed. */
+export const buildAtomFeed = (siteUrl: string, posts: FeedPost[], now = new Date()): string => {
+  const updated = posts.reduce((latest, post) => (post.updatedAt > latest ? post.updatedAt : latest), posts[0]?.updatedAt ?? now);
+  const entries = posts.map((post) => {
+    const link = articleUrl(siteUrl, post.slug);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(post.title)}</title>`,
+      `    <link href="${escapeXml(link)}"/>`,
+      `    <id>${escapeXml(link)}</id>`,
+      `    <published>${post.publishedAt.toISOString()}</published>`,
+      `    <updated>${post.updatedAt.toISOString()}</updated>`,
+      `    <author><name>${escapeXml(post.authorName || SITE_NAME)}</name></author>`,
+      ...[post.category, ...post.tags].filter(Boolean).map((term) => `    <category term="${escapeXml(term)}"/>`),
+      `    <summary>${escapeXml(summaryOf(post))}</summary>`,
+      `    <content type="html">${escapeXml(articleHtml(post))}</content>`,
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${BLOG_TITLE}</title>`,
+    `  <subtitle>${BLOG_DESCRIPTION}</subtitle>`,
+    `  <link href="${escapeXml(`${siteUrl}/blog`)}"/>`,
+    `  <link href="${escapeXml(`${siteUrl}/blog/atom.xml`)}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${escapeXml(`${siteUrl}/blog`)}</id>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+};
+
+export const buildSitemap = (siteUrl: string, posts: Pick<FeedPost, "slug" | "updatedAt">[]): string => {
+  const urls = [
+    ...PUBLIC_SITEMAP_PATHS.map((path) => `  <url><loc>${escapeXml(siteUrl + path)}</loc></url>`),
+    ...posts.map(
+      (post) =>
+        `  <url><loc>${escapeXml(articleUrl(siteUrl, post.slug))}</loc><lastmod>${post.updatedAt
+          .toISOString()
+          .slice(0, 10)}</lastmod></url>`
+    ),
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+};
+
+export const buildRobotsTxt = (siteUrl: string): string =>
+  ["User-agent: *", "Allow: /", `Sitemap: ${siteUrl}/sitemap.xml`, ""].join("\n");
+
+/**
+ * Rewrites the SPA's index.html for one article: page title, description, canonical link and
+ * Open Graph / Twitter card tags, so LinkedIn, Slack etc. render a preview without running JS.
+ */
+export const injectArticleMeta = (indexHtml: string, siteUrl: string, post: FeedPost): string => {
+  const url = articleUrl(siteUrl, post.slug);
+  const title = `${post.title} | ${SITE_NAME}`;
+  const description = summaryOf(post);
+  const tags = [
+    `<link rel="canonical" href="${escapeXml(url)}" />`,
+    `<meta property="og:type" content="article" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:title" content="${escapeXml(post.title)}" />`,
+    `<meta property="og:description" content="${escapeXml(description)}" />`,
+    `<meta property="og:url" content="${escapeXml(url)}" />`,
+    post.imageUrl ? `<meta property="og:image" content="${escapeXml(post.imageUrl)}" />` : "",
+    `<meta property="article:published_time" content="${post.publishedAt.toISOString()}" />`,
+    post.authorName ? `<meta property="article:author" content="${escapeXml(post.authorName)}" />` : "",
+    `<meta name="twitter:card" content="${post.imageUrl ? "summary_large_image" : "summary"}" />`,
+  ].filter(Boolean);
+
+  // Function replacements: "$&" in a title must not be read as a replacement pattern
+  return indexHtml
+    .replace(/<title>[\s\S]*?<\/title>/i, () => `<title>${escapeXml(title)}</title>`)
+    .replace(
+      /<meta\s+name="description"[^>]*>/i,
+      () => `<meta name="description" content="${escapeXml(description)}" />`
+    )
+    // index.html carries site-wide og: defaults; the article's own tags replace them
+    .replace(/\s*<meta\s+(?:property="og:[^"]*"|name="twitter:[^"]*")[^>]*>/gi, "")
+    .replace(/<\/head>/i, () => `  ${tags.join("\n  ")}\n</head>`);
+};
@@ -0,0 +1,85 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  getDigestHorizonEnd,
+  getDigestWindowStart,
+  isDigestDue,
+  isDigestEmpty,
+  isDigestFrequency,
+} from "./digest";
+
+// Monday 2 March 2026, 08:00 in New York (EST, UTC-5)
+const mondayEightNewYork = new Date("2026-03-02T13:00:00.000Z");
+
+describe("isDigestDue", () => {
+  it("sends at 8am on the recipient's wall clock", () => {
+    expect(isDigestDue("daily", "America/New_York", undefined, mondayEightNewYork)).toBe(true);
+    expect(isDigestDue("daily", "America/New_York", undefined, new Date("2026-03-02T12:00:00.000Z"))).toBe(false);
+    expect(isDigestDue("daily", "Europe/London", undefined, mondayEightNewYork)).toBe(false);
+  });
+
+  it("falls back to UTC for a missing or unknown time zone", () => {
+    const eightUtc = new Date("2026-03-02T08:30:00.000Z");
+    expect(isDigestDue("daily", undefined, undefined, eightUtc)).toBe(true);
+    expect(isDigestDue("daily", "Mars/Olympus_Mons", undefined, eightUtc)).toBe(true);
+  });
+
+  it("sends weekly digests on Mondays only", () => {
+    expect(isDigestDue("weekly", "America/New_York", undefined, mondayEightNewYork)).toBe(true);
+    const tuesdayEight = new Date("2026-03-03T13:00:00.000Z");
+    expect(isDigestDue("weekly", "America/New_York", undefined, tuesdayEight)).toBe(false);
+    expect(isDigestDue("daily", "America/New_York", undefined, tuesdayEight)).toBe(true);
+  });
+
+  it("uses the local date, not the UTC date, to pick the weekday", () => {
+    // 08:00 Monday in Auckland is still Sunday evening in UTC
+    expect(isDigestDue("weekly", "Pacific/Auckland", undefined, new Date("2026-03-01T19:00:00.000Z"))).toBe(true);
+  });
+
+  it("does not send twice in one period, allowing an hour of scheduler drift", () => {
+    expect(isDigestDue("daily", "America/New_York", "2026-03-02T13:05:00.000Z", mondayEightNewYork)).toBe(false);
+    expect(isDigestDue("daily", "America/New_York", "2026-03-01T13:20:00.000Z", mondayEightNewYork)).toBe(true);
+    expect(isDigestDue("weekly", "America/New_York", "2026-02-28T13:00:00.000Z", mondayEightNewYork)).toBe(false);
+    expect(isDigestDue("weekly", "America/New_York", "2026-02-23T13:40:00.000Z", mondayEightNewYork)).toBe(true);
+  });
+});
+
+describe("digest window", () => {
+  const now = new Date("2026-03-10T08:00:00.000Z");
+
+  it("covers one period back for the first digest", () => {
+    expect(getDigestWindowStart("daily", undefined, now).toISOString()).toBe("2026-03-09T08:00:00.000Z");
+    expect(getDigestWindowStart("weekly", undefined, now).toISOString()).toBe("2026-03-03T08:00:00.000Z");
+  });
+
+  it("starts at the previous digest when it falls inside the period", () => {
+    expect(getDigestWindowStart("weekly", "2026-03-05T08:00:00.000Z", now).toISOString()).toBe(
+      "2026-03-05T08:00:00.000Z"
+    );
+  });
+
+  it("ignores a previous digest older than the period or an unreadable timestamp", () => {
+    expect(getDigestWindowStart("daily", "2026-01-01T08:00:00.000Z", now).toISOString()).toBe("2026-03-09T08:00:00.000Z");
+    expect(getDigestWindowStart("daily", "not a date", now).toISOString()).toBe("2026-03-09T08:00:00.000Z");
+  });
+
+  it("looks one period ahead for upcoming sessions", () => {
+    expect(getDigestHorizonEnd("daily", now).toISOString()).toBe("2026-03-11T08:00:00.000Z");
+    expect(getDigestHorizonEnd("weekly", now).toISOString()).toBe("2026-03-17T08:00:00.000Z");
+  });
+});
+
+describe("digest helpers", () => {
+  it("recognizes only the batched frequencies", () => {
+    expect(isDigestFrequency("daily")).toBe(true);
+    expect(isDigestFrequency("weekly")).toBe(true);
+    expect(isDigestFrequency("immediate")).toBe(false);
+    expect(isDigestFrequency(undefined)).toBe(false);
+  });
+
+  it("treats a digest with nothing in any section as empty", () => {
+    const empty = { notifications: [], unreadMessages: [], upcomingEvents: [], goalChanges: [] };
+    expect(isDigestEmpty(empty)).toBe(true);
+    expect(isDigestEmpty({ ...empty, unreadMessages: [{ senderName: "Alex", count: 2 }] })).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Scheduling and content rules for the email digest (User.emailDigest). Digest users get no
+ * per-event emails except time-critical ones (notificationDispatcher.ts holds the rest back);
+ * instead sendEmailDigests runs hourly and sends one email at DIGEST_SEND_HOUR on the user's
+ * wall clock, daily or on Mondays.
+ */
+import { EmailDigestFrequency } from "../types";
+import { isValidTimeZone, utcToZonedDateTime } from "./timeZones";
+
+/** Local hour (0-23) digests are sent at. */
+export const DIGEST_SEND_HOUR = 8;
+/** Day weekly digests go out (0 = Sunday). */
+export const WEEKLY_DIGEST_WEEKDAY = 1;
+
+const HOUR_MS = 60 * 60 * 1000;
+const PERIOD_DAYS: Record<Exclude<EmailDigestFrequency, "immediate">, number> = { daily: 1, weekly: 7 };
+
+export interface DigestContent {
+  notifications: { type: string; title: string; body: string; timestamp: string }[];
+  unreadMessages: { senderName: string; count: number }[];
+  upcomingEvents: { title: string; startsAt: string; timeZone?: string; googleMeetLink?: string }[];
+  goalChanges: { title: string; ownerName: string; status: string; progress: number }[];
+}
+
+export const isDigestFrequency = (
+  value: unknown
+): value is Exclude<EmailDigestFrequency, "immediate"> => value === "daily" || value === "weekly";
+
+/** Emails that are useless after the fact (meeting reminders and bookings) skip the digest. */
+const IMMEDIATE_EMAIL_TYPES = new Set(["meeting"]);
+
+/** Whether an email of `type` waits for the digest instead of going out now. */
+export const isHeldForDigest = (frequency: unknown, type: string): boolean =>
+  isDigestFrequency(frequency) && !IMMEDIATE_EMAIL_TYPES.has(type);
+
+/**
+ * Whether a digest should go out in the hour containing `now`. The last-sent check (with an
+ * hour of slack for scheduler drift) stops a retried run from sending twice.
+ */
+export function isDigestDue(
+  frequency: Exclude<EmailDigestFrequency, "immediate">,
+  timeZone: string | undefined,
+  lastSentAt: string | undefined,
+  now = new Date()
+): boolean {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const local = utcToZonedDateTime(now, zone);
+  if (Number(local.time.slice(0, 2)) !== DIGEST_SEND_HOUR) return false;
+  if (frequency === "weekly" && new Date(`${local.date}T00:00:00Z`).getUTCDay() !== WEEKLY_DIGEST_WEEKDAY) {
+    return false;
+  }
+  if (!lastSentAt) return true;
+  return now.getTime() - new Date(lastSentAt).getTime() > PERIOD_DAYS[frequency] * 24 * HOUR_MS - HOUR_MS;
+}
+
+/** Start of the period a digest covers: the previous digest, or one period back for the first. */
+export function getDigestWindowStart(
+  frequency: Exclude<EmailDigestFrequency, "immediate">,
+  lastSentAt: string | undefined,
+  now = new Date()
+): Date {
+  const periodStart = new Date(now.getTime() - PERIOD_DAYS[frequency] * 24 * HOUR_MS);
+  const last = lastSentAt ? new Date(lastSentAt) : null;
+  return last && !isNaN(last.getTime()) && last > periodStart ? last : periodStart;
+}
+
+/** How far ahead the upcoming-sessions section looks. */
+export function getDigestHorizonEnd(frequency: Exclude<EmailDigestFrequency, "immediate">, now = new Date()): Date {
+  return new Date(now.getTime() + PERIOD_DAYS[frequency] * 24 * HOUR_MS);
+}
+
+export const isDigestEmpty = (content: DigestContent): boolean =>
+  content.notifications.length === 0 &&
+  content.unreadMessages.length === 0 &&
+  content.upcomingEvents.length === 0 &&
+  content.goalChanges.length === 0;
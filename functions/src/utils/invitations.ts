@@ -0,0 +1,61 @@
+/**
+ * Invitation lifetime and reminder rules for the expiry job.
+ * Mirrors utils/invitations.ts in the web app.
+ */
+
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 30;
+export const MIN_INVITATION_EXPIRY_DAYS = 1;
+export const MAX_INVITATION_EXPIRY_DAYS = 90;
+export const INVITATION_REMINDER_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The invitation fields these rules read; dates may still be Firestore Timestamps on older docs. */
+export interface InvitationTiming {
+  status?: string;
+  sentDate?: unknown;
+  expiresAt?: unknown;
+  reminderSentAt?: unknown;
+}
+
+export const toInvitationDate = (value: unknown): Date | null => {
+  if (value && typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (typeof value !== "string") return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+};
+
+export function clampInvitationExpiryDays(days: unknown): number {
+  const value = Math.round(Number(days));
+  if (!Number.isFinite(value)) return DEFAULT_INVITATION_EXPIRY_DAYS;
+  return Math.min(MAX_INVITATION_EXPIRY_DAYS, Math.max(MIN_INVITATION_EXPIRY_DAYS, value));
+}
+
+export function getInvitationExpiry(invitationExpiryDays: unknown, from: Date = new Date()): string {
+  const days = invitationExpiryDays === undefined ? DEFAULT_INVITATION_EXPIRY_DAYS : clampInvitationExpiryDays(invitationExpiryDays);
+  return new Date(from.getTime() + days * DAY_MS).toISOString();
+}
+
+/** Older invites have no expiresAt; they run for the default lifetime from when they were sent. */
+export function getInvitationExpiresAt(invitation: InvitationTiming): Date | null {
+  const expiresAt = toInvitationDate(invitation.expiresAt);
+  if (expiresAt) return expiresAt;
+  const sentAt = toInvitationDate(invitation.sentDate);
+  return sentAt ? new Date(sentAt.getTime() + DEFAULT_INVITATION_EXPIRY_DAYS * DAY_MS) : null;
+}
+
+export function isInvitationExpired(invitation: InvitationTiming, now: Date = new Date()): boolean {
+  const expiresAt = getInvitationExpiresAt(invitation);
+  return expiresAt !== null && expiresAt.getTime() <= now.getTime();
+}
+
+export function isInvitationReminderDue(invitation: InvitationTiming, now: Date = new Date()): boolean {
+  if (invitation.status !== "Pending" || invitation.reminderSentAt) return false;
+  const expiresAt = getInvitationExpiresAt(invitation);
+  if (!expiresAt || expiresAt.getTime() <= now.getTime()) return false;
+  const windowStart = expiresAt.getTime() - INVITATION_REMINDER_DAYS * DAY_MS;
+  const sentAt = toInvitationDate(invitation.sentDate);
+  return now.getTime() >= windowStart && (!sentAt || sentAt.getTime() < windowStart);
+}
@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { Match, MatchStatus } from "../types";
+import { getMatchTransition, resolvePendingMatch } from "./matchLifecycle";
+
+const proposal: Match = {
+  id: "m1",
+  organizationId: "org1",
+  mentorId: "mentor1",
+  menteeId: "mentee1",
+  status: MatchStatus.PENDING,
+  startDate: "2026-03-01",
+  durationWeeks: 13,
+};
+
+const accepted = { decision: "accepted" as const, respondedAt: "2026-03-02T10:00:00.000Z" };
+
+describe("matchLifecycle", () => {
+  it("waits until both sides have answered", () => {
+    expect(resolvePendingMatch(proposal)).toBeNull();
+    expect(resolvePendingMatch({ ...proposal, mentorResponse: accepted })).toBeNull();
+  });
+
+  it("activates a proposal once both sides accept and sets the end date", () => {
+    const now = new Date("2026-03-03T09:00:00Z");
+    expect(resolvePendingMatch({ ...proposal, mentorResponse: accepted, menteeResponse: accepted }, now)).toEqual({
+      status: MatchStatus.ACTIVE,
+      acceptedAt: now.toISOString(),
+      startDate: "2026-03-03",
+      endDate: "2026-06-02",
+    });
+  });
+
+  it("rejects a proposal when either side declines", () => {
+    const declined = { decision: "declined" as const, reason: "Schedule conflict", respondedAt: "2026-03-02T11:00:00.000Z" };
+    expect(resolvePendingMatch({ ...proposal, mentorResponse: accepted, menteeResponse: declined })).toEqual({
+      status: MatchStatus.REJECTED,
+      declinedAt: declined.respondedAt,
+      declinedBy: "mentee1",
+    });
+  });
+
+  it("leaves settled matches alone", () => {
+    const active = { ...proposal, status: MatchStatus.ACTIVE, mentorResponse: accepted, menteeResponse: accepted };
+    expect(resolvePendingMatch(active)).toBeNull();
+    expect(getMatchTransition(proposal, active)).toBe("accepted");
+    expect(getMatchTransition({ ...active, status: MatchStatus.PAUSED }, active)).toBe("resumed");
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Server side of the match lifecycle in the client's utils/matchLifecycle.ts: works out which
+ * transition a match write made (for emails and notifications) and settles proposals once the
+ * mentor and mentee have answered (clients only write their own response).
+ */
+import { Match, MatchStatus } from "../types";
+
+export type MatchTransition =
+  | "proposed"
+  | "accepted"
+  | "declined"
+  | "paused"
+  | "resumed"
+  | "closed"
+  | "endingSoon";
+
+/** Days before endDate that the "ending soon" reminder is sent. */
+export const ENDING_SOON_DAYS = 14;
+
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export function getMatchTransition(before: Match, after: Match): MatchTransition | null {
+  if (before.status === after.status) return null;
+  switch (after.status) {
+    case MatchStatus.ACTIVE:
+      return before.status === MatchStatus.PAUSED ? "resumed" : "accepted";
+    case MatchStatus.REJECTED:
+      return "declined";
+    case MatchStatus.PAUSED:
+      return "paused";
+    case MatchStatus.COMPLETED:
+      return "closed";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Status fields for a PENDING match once either side declines or both accept, or null while
+ * an answer is still outstanding.
+ */
+export function resolvePendingMatch(match: Match, now = new Date()): Partial<Match> | null {
+  if (match.status !== MatchStatus.PENDING) return null;
+  const responses = [match.mentorResponse, match.menteeResponse];
+  const declined = responses.find((response) => response?.decision === "declined");
+  if (declined) {
+    return {
+      status: MatchStatus.REJECTED,
+      declinedAt: declined.respondedAt,
+      declinedBy: declined === match.mentorResponse ? match.mentorId : match.menteeId,
+    };
+  }
+  if (responses.every((response) => response?.decision === "accepted")) {
+    const startDate = now.toISOString().slice(0, 10);
+    return {
+      status: MatchStatus.ACTIVE,
+      acceptedAt: now.toISOString(),
+      startDate,
+      ...(match.durationWeeks ? { endDate: addDays(startDate, match.durationWeeks * 7) } : {}),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Server copy of the client's utils/notificationPreferences.ts: maps notification types to the
+ * categories shown in Settings and resolves each channel from the user's toggle, then the
+ * org's notificationDefaults, then the platform default.
+ */
+import { Notification, NotificationPreferences } from "../types";
+
+export type NotificationCategory =
+  | "New Messages"
+  | "Match Updates"
+  | "Meeting Reminders"
+  | "Goal Updates"
+  | "System Alerts";
+
+export type NotificationChannel = "email" | "push";
+
+export type PreferenceSource = "user" | "organization" | "platform";
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<NotificationCategory, { email: boolean; push: boolean }> = {
+  "New Messages": { email: true, push: true },
+  "Match Updates": { email: true, push: true },
+  "Meeting Reminders": { email: true, push: true },
+  "Goal Updates": { email: true, push: false },
+  "System Alerts": { email: false, push: true },
+};
+
+export const NOTIFICATION_TYPE_CATEGORIES: Record<Notification["type"], NotificationCategory> = {
+  message: "New Messages",
+  match: "Match Updates",
+  meeting: "Meeting Reminders",
+  goal: "Goal Updates",
+  system: "System Alerts",
+};
+
+export function resolveChannelPreference(
+  userPrefs: NotificationPreferences | null | undefined,
+  orgDefaults: NotificationPreferences | null | undefined,
+  category: NotificationCategory,
+  channel: NotificationChannel
+): { allowed: boolean; source: PreferenceSource } {
+  const userValue = userPrefs?.[category]?.[channel];
+  if (typeof userValue === "boolean") return { allowed: userValue, source: "user" };
+  const orgValue = orgDefaults?.[category]?.[channel];
+  if (typeof orgValue === "boolean") return { allowed: orgValue, source: "organization" };
+  return { allowed: DEFAULT_NOTIFICATION_PREFERENCES[category][channel], source: "platform" };
+}
@@ -0,0 +1,70 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { getPushTargets, pruneInvalidTokens } from "./pushTokens";
+import { UserDevice } from "../types";
+
+const device = (deviceId: string, fcmToken: string, lastActiveAt?: string): UserDevice => ({
+  deviceId,
+  fcmToken,
+  platform: "desktop",
+  deviceName: `Browser ${deviceId}`,
+  lastActiveAt,
+});
+
+describe("getPushTargets", () => {
+  it("sends to every registered device", () => {
+    expect(getPushTargets({ devices: [device("d1", "t1"), device("d2", "t2")] })).toEqual([
+      { token: "t1", deviceId: "d1", deviceName: "Browser d1", platform: "desktop" },
+      { token: "t2", deviceId: "d2", deviceName: "Browser d2", platform: "desktop" },
+    ]);
+  });
+
+  it("sends once per token, labelled with the most recently active registration", () => {
+    const targets = getPushTargets({
+      devices: [
+        device("old", "shared", "2026-03-01T10:00:00.000Z"),
+        device("new", "shared", "2026-03-02T10:00:00.000Z"),
+        device("older", "shared"),
+      ],
+    });
+
+    expect(targets).toHaveLength(1);
+    expect(targets[0].deviceId).toBe("new");
+  });
+
+  it("skips devices without a token", () => {
+    expect(getPushTargets({ devices: [device("d1", ""), device("d2", "t2")] }).map((t) => t.token)).toEqual(["t2"]);
+  });
+
+  it("uses the legacy fcmToken only for accounts without a devices array", () => {
+    expect(getPushTargets({ fcmToken: "legacy" })).toEqual([
+      { token: "legacy", deviceId: null, deviceName: null, platform: null },
+    ]);
+    expect(getPushTargets({ devices: [], fcmToken: "legacy" })).toEqual([]);
+    expect(getPushTargets({})).toEqual([]);
+  });
+});
+
+describe("pruneInvalidTokens", () => {
+  it("drops devices whose token FCM rejected", () => {
+    const devices = [device("d1", "t1"), device("d2", "dead"), device("d3", "dead")];
+
+    expect(pruneInvalidTokens({ devices }, ["dead"])).toEqual({
+      devices: [devices[0]],
+      clearLegacyToken: false,
+    });
+  });
+
+  it("clears a dead legacy token", () => {
+    expect(pruneInvalidTokens({ fcmToken: "dead" }, ["dead"])).toEqual({ clearLegacyToken: true });
+    expect(pruneInvalidTokens({ devices: [device("d1", "dead")], fcmToken: "dead" }, ["dead"])).toEqual({
+      devices: [],
+      clearLegacyToken: true,
+    });
+  });
+
+  it("returns null when none of the user's tokens were rejected", () => {
+    expect(pruneInvalidTokens({ devices: [device("d1", "t1")], fcmToken: "legacy" }, ["other"])).toBeNull();
+    expect(pruneInvalidTokens({}, ["dead"])).toBeNull();
+  });
+});
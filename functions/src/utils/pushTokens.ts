@@ -0,0 +1,59 @@
+/**
+ * Which FCM tokens a user's push goes to. Devices are registered by the client
+ * (services/deviceTracking.ts) in users/{id}.devices; revoking one in Settings removes it from
+ * that array. The single legacy fcmToken field is only used for accounts that predate device
+ * tracking (no devices array at all).
+ */
+import { UserDevice } from "../types";
+
+export interface PushTarget {
+  token: string;
+  deviceId: string | null; // null for the legacy fcmToken
+  deviceName: string | null;
+  platform: string | null;
+}
+
+/** FCM error codes meaning the token will never work again and should be forgotten. */
+export const INVALID_TOKEN_ERROR_CODES = [
+  "messaging/invalid-registration-token",
+  "messaging/registration-token-not-registered",
+];
+
+export function getPushTargets(userData: { devices?: UserDevice[]; fcmToken?: string | null }): PushTarget[] {
+  if (!Array.isArray(userData.devices)) {
+    return userData.fcmToken
+      ? [{ token: userData.fcmToken, deviceId: null, deviceName: null, platform: null }]
+      : [];
+  }
+
+  // The same browser can be registered twice (device IDs include a timestamp); send once per
+  // token, labelled with the most recently active registration
+  const byToken = new Map<string, UserDevice>();
+  for (const device of userData.devices) {
+    if (!device?.fcmToken) continue;
+    const existing = byToken.get(device.fcmToken);
+    if (!existing || (device.lastActiveAt || "") > (existing.lastActiveAt || "")) {
+      byToken.set(device.fcmToken, device);
+    }
+  }
+  return Array.from(byToken.values()).map((device) => ({
+    token: device.fcmToken,
+    deviceId: device.deviceId,
+    deviceName: device.deviceName || null,
+    platform: device.platform || null,
+  }));
+}
+
+/** The user fields to write after dropping `invalidTokens`, or null when nothing changes. */
+export function pruneInvalidTokens(
+  userData: { devices?: UserDevice[]; fcmToken?: string | null },
+  invalidTokens: string[]
+): { devices?: UserDevice[]; clearLegacyToken: boolean } | null {
+  const invalid = new Set(invalidTokens);
+  const devices = Array.isArray(userData.devices) ? userData.devices : undefined;
+  const keptDevices = devices?.filter((device) => !invalid.has(device.fcmToken));
+  const devicesChanged = !!devices && keptDevices!.length !== devices.length;
+  const clearLegacyToken = !!userData.fcmToken && invalid.has(userData.fcmToken);
+  if (!devicesChanged && !clearLegacyToken) return null;
+  return { ...(devicesChanged ? { devices: keptDevices } : {}), clearLegacyToken };
+}
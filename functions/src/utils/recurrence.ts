@@ -0,0 +1,71 @@
+/**
+ * Server copy of the occurrence expansion in the client's utils/recurrence.ts, for reminders.
+ * A series stores its first occurrence's date/startTime, a recurrence rule and excepted dates.
+ */
+import { RecurrenceRule } from "../types";
+import { isValidTimeZone, zonedDateTimeToUtc } from "./timeZones";
+
+const MAX_ITERATIONS = 5000;
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+function nthDate(startDate: string, rule: RecurrenceRule, n: number): string | null {
+  const interval = Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case "DAILY":
+      return addDays(startDate, n * interval);
+    case "WEEKLY":
+      return addDays(startDate, n * 7 * interval);
+    case "MONTHLY": {
+      const [year, month, day] = startDate.split("-").map(Number);
+      const target = new Date(Date.UTC(year, month - 1 + n * interval, 1));
+      const daysInMonth = new Date(
+        Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      if (day > daysInMonth) return null;
+      target.setUTCDate(day);
+      return target.toISOString().slice(0, 10);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Occurrences of a series starting in [from, to), as { date, startsAt } pairs.
+ * Legacy series without a timeZone are read in fallbackTimeZone.
+ */
+export function getOccurrencesBetween(
+  event: {
+    date: string;
+    startTime: string;
+    timeZone?: string;
+    recurrence: RecurrenceRule;
+    recurrenceExceptions?: string[];
+  },
+  from: Date,
+  to: Date,
+  fallbackTimeZone?: string
+): Array<{ date: string; startsAt: Date }> {
+  const timeZone =
+    [event.timeZone, fallbackTimeZone].find((tz): tz is string => !!tz && isValidTimeZone(tz)) ||
+    "UTC";
+  const exceptions = new Set(event.recurrenceExceptions || []);
+  const rule = event.recurrence;
+  const occurrences: Array<{ date: string; startsAt: Date }> = [];
+  let emitted = 0;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    if (rule.count !== undefined && emitted >= rule.count) break;
+    const date = nthDate(event.date, rule, n);
+    if (!date) continue;
+    if (rule.until && date > rule.until) break;
+    emitted++;
+    const startsAt = zonedDateTimeToUtc(date, event.startTime, timeZone);
+    if (startsAt >= to) break;
+    if (startsAt >= from && !exceptions.has(date)) occurrences.push({ date, startsAt });
+  }
+  return occurrences;
+}
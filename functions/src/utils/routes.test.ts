@@ -0,0 +1,24 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { calendarEventPath, chatPath, goalPath, notificationPage, pageToPath } from "./routes";
+
+describe("server deep links", () => {
+  it("matches the client's page key to path mapping", () => {
+    expect(pageToPath("notifications")).toBe("/notifications");
+    expect(pageToPath("settings:billing")).toBe("/settings/billing");
+    expect(pageToPath("settings:")).toBe("/settings");
+  });
+
+  it("links to the exact chat, goal or event", () => {
+    expect(chatPath("group one")).toBe("/chat/group%20one");
+    expect(goalPath("goal-1")).toBe("/my-goals/goal-1");
+    expect(calendarEventPath("event/1")).toBe("/calendar/event%2F1");
+  });
+
+  it("prefers a notification's chat, then its goal, then its event", () => {
+    expect(notificationPage({ chatId: "user-2", goalId: "goal-1" })).toBe("chat:user-2");
+    expect(notificationPage({ goalId: "goal-1", eventId: "event-1" })).toBe("my-goals:goal-1");
+    expect(notificationPage({ eventId: "event-1" })).toBe("calendar:event-1");
+    expect(notificationPage({})).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Server copy of the deep-link helpers in the client's utils/routes.ts, for email and push links.
+ * A page key maps onto a path by turning the first ":" into "/" ("chat:<id>" -> /chat/<id>).
+ */
+
+export const pageToPath = (page: string): string => {
+  const separator = page.indexOf(":");
+  if (separator === -1) return `/${page}`;
+  const key = page.slice(0, separator);
+  const param = page.slice(separator + 1);
+  return param ? `/${key}/${encodeURIComponent(param)}` : `/${key}`;
+};
+
+export const chatPath = (chatId: string): string => pageToPath(`chat:${chatId}`);
+export const goalPath = (goalId: string): string => pageToPath(`my-goals:${goalId}`);
+export const calendarEventPath = (eventId: string): string => pageToPath(`calendar:${eventId}`);
+
+/** Page a notification opens: its chat, goal or event, or null when it has nothing to link to. */
+export const notificationPage = (notification: {
+  chatId?: string;
+  goalId?: string;
+  eventId?: string;
+}): string | null => {
+  if (notification.chatId) return `chat:${notification.chatId}`;
+  if (notification.goalId) return `my-goals:${notification.goalId}`;
+  if (notification.eventId) return `calendar:${notification.eventId}`;
+  return null;
+};
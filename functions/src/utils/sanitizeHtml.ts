@@ -0,0 +1,208 @@
+/**
+ * Server copy of the client's utils/sanitizeHtml.ts: the rich-text allowlist applied after every
+ * discussion guide / career template write.
+ */
+
+const ALLOWED_TAGS = new Set([
+  "p", "br", "hr", "div", "span", "strong", "b", "em", "i", "u", "s",
+  "ul", "ol", "li", "h1", "h2", "h3", "h4", "h5", "h6", "blockquote", "pre", "code", "a", "img",
+]);
+
+const VOID_TAGS = new Set(["br", "hr", "img"]);
+
+// Removed together with everything inside them, not just unwrapped
+const DROP_CONTENT_TAGS = new Set([
+  "script", "style", "iframe", "frame", "frameset", "object", "embed", "applet", "noscript",
+  "noembed", "noframes", "template", "textarea", "select", "title", "xmp", "svg", "math", "head",
+]);
+
+// Blocks that keep the editor's alignment buttons working (style="text-align: …" only)
+const ALIGNABLE_TAGS = new Set(["p", "div", "li", "blockquote", "h1", "h2", "h3", "h4", "h5", "h6"]);
+
+const LINK_SCHEMES = ["http", "https", "mailto", "tel"];
+// Editor uploads are Firebase Storage https URLs
+const IMAGE_SCHEMES = ["https"];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0",
+  colon: ":", tab: "\t", newline: "\n", sol: "/", period: ".", lpar: "(", rpar: ")",
+};
+
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// Entities pass through so "&nbsp;" stays a space; a bare "&" or "<" becomes text
+const escapeText = (text: string): string =>
+  text
+    .replace(/&(?!#\d+;|#x[0-9a-f]+;|[a-z][a-z0-9]*;)/gi, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+/** Decodes attribute entities the way a browser would, so "&#106;avascript:" is seen as a scheme. */
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : "";
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * True for relative URLs and for absolute URLs whose scheme is in `schemes`. Browsers ignore
+ * control characters and whitespace inside a scheme ("java\tscript:"), so they are removed first.
+ */
+const isSafeUrl = (url: string, schemes: string[], allowRelative: boolean): boolean => {
+  const compact = Array.from(url)
+    .filter((ch) => ch > " " && (ch < "\u007f" || ch > "\u009f"))
+    .join("");
+  if (!compact) return false;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact);
+  if (scheme) return schemes.includes(scheme[1].toLowerCase());
+  // Protocol-relative "//host" (browsers accept backslashes too) takes the page's scheme: https
+  if (/^[/\\]{2}/.test(compact)) return schemes.includes("https");
+  return allowRelative;
+};
+
+interface ParsedTag {
+  name: string;
+  attributes: Record<string, string>;
+  end: number;
+}
+
+/** Reads `<name attr="…">` starting at `start` (the "<"). Returns null if the tag never closes. */
+const parseTag = (html: string, start: number): ParsedTag | null => {
+  const nameMatch = /^<\/?([a-z][^\s/>]*)/i.exec(html.slice(start));
+  if (!nameMatch) return null;
+  const attributes: Record<string, string> = {};
+  let i = start + nameMatch[0].length;
+  while (i < html.length) {
+    const ch = html[i];
+    if (ch === ">") return { name: nameMatch[1].toLowerCase(), attributes, end: i + 1 };
+    if (/[\s/]/.test(ch)) {
+      i++;
+      continue;
+    }
+    const attrName = /^[^\s"'>/=]+/.exec(html.slice(i))?.[0] ?? ch;
+    i += attrName.length;
+    while (/\s/.test(html[i] ?? "")) i++;
+    let value = "";
+    if (html[i] === "=") {
+      i++;
+      while (/\s/.test(html[i] ?? "")) i++;
+      const quote = html[i];
+      if (quote === '"' || quote === "'") {
+        const close = html.indexOf(quote, i + 1);
+        if (close < 0) return null;
+        value = html.slice(i + 1, close);
+        i = close + 1;
+      } else {
+        value = /^[^\s>]*/.exec(html.slice(i))?.[0] ?? "";
+        i += value.length;
+      }
+    }
+    const key = attrName.toLowerCase();
+    if (!(key in attributes)) attributes[key] = decodeEntities(value);
+  }
+  return null;
+};
+
+const renderAttributes = (tag: string, attributes: Record<string, string>): string | null => {
+  const kept: string[] = [];
+  if (tag === "a") {
+    const href = attributes.href?.trim();
+    if (href && isSafeUrl(href, LINK_SCHEMES, true)) {
+      kept.push(`href="${escapeAttribute(href)}"`, 'target="_blank"', 'rel="noopener noreferrer"');
+    }
+  }
+  if (tag === "img") {
+    const src = attributes.src?.trim();
+    // An image without a usable source is dropped entirely
+    if (!src || !isSafeUrl(src, IMAGE_SCHEMES, false)) return null;
+    kept.push(`src="${escapeAttribute(src)}"`);
+    if (attributes.alt) kept.push(`alt="${escapeAttribute(attributes.alt)}"`);
+  }
+  if ((tag === "a" || tag === "img") && attributes.title) {
+    kept.push(`title="${escapeAttribute(attributes.title)}"`);
+  }
+  if (ALIGNABLE_TAGS.has(tag) && attributes.style) {
+    const align = /(?:^|;)\s*text-align\s*:\s*(left|right|center|justify)\s*(?:;|$)/i.exec(attributes.style);
+    if (align) kept.push(`style="text-align: ${align[1].toLowerCase()}"`);
+  }
+  return kept.length ? ` ${kept.join(" ")}` : "";
+};
+
+/**
+ * Returns `html` reduced to the rich-text allowlist: formatting tags only, no event handlers or
+ * classes, links limited to http(s)/mailto/tel (opened with rel="noopener noreferrer"), https
+ * images, and every tag closed. Unknown tags are unwrapped; script-like tags lose their content.
+ */
+export const sanitizeHtml = (html: string | null | undefined): string => {
+  if (!html) return "";
+  let out = "";
+  const open: string[] = [];
+  let i = 0;
+
+  while (i < html.length) {
+    const lt = html.indexOf("<", i);
+    if (lt < 0) {
+      out += escapeText(html.slice(i));
+      break;
+    }
+    out += escapeText(html.slice(i, lt));
+    i = lt;
+
+    if (html.startsWith("<!--", i)) {
+      const close = html.indexOf("-->", i + 4);
+      i = close < 0 ? html.length : close + 3;
+      continue;
+    }
+    if (html[i + 1] === "!" || html[i + 1] === "?") {
+      const close = html.indexOf(">", i);
+      i = close < 0 ? html.length : close + 1;
+      continue;
+    }
+
+    const isEnd = html[i + 1] === "/";
+    if (!/[a-z]/i.test(html[i + (isEnd ? 2 : 1)] ?? "")) {
+      out += "&lt;";
+      i++;
+      continue;
+    }
+    const tag = parseTag(html, i);
+    if (!tag) break; // unterminated tag: browsers drop it and whatever follows, so do we
+    i = tag.end;
+
+    if (isEnd) {
+      const index = open.lastIndexOf(tag.name);
+      if (index >= 0) {
+        out += open
+          .splice(index)
+          .reverse()
+          .map((name) => `</${name}>`)
+          .join("");
+      }
+      continue;
+    }
+    if (DROP_CONTENT_TAGS.has(tag.name)) {
+      const close = new RegExp(`</${tag.name}[\\s/>]`, "i").exec(html.slice(i));
+      if (!close) break;
+      const closeEnd = html.indexOf(">", i + close.index);
+      i = closeEnd < 0 ? html.length : closeEnd + 1;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag.name)) continue;
+
+    const attributes = renderAttributes(tag.name, tag.attributes);
+    if (attributes === null) continue;
+    out += `<${tag.name}${attributes}>`;
+    if (!VOID_TAGS.has(tag.name)) open.push(tag.name);
+  }
+
+  return out + open.reverse().map((name) => `</${name}>`).join("");
+};
@@ -0,0 +1,126 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  applyUserPatch,
+  createScimToken,
+  groupIdForDisplayName,
+  hashScimToken,
+  parseScimFilter,
+  parseScimUser,
+  readBearerToken,
+  readGroupMembershipPatch,
+  readPatchOperations,
+  SCIM_TOKEN_PREFIX,
+  ScimError,
+  ScimUserFields,
+  toListResponse,
+  toScimUser,
+} from "./scim";
+
+const ada: ScimUserFields = { email: "ada@example.com", name: "Ada Lovelace", title: "Engineer", active: true };
+
+describe("scim", () => {
+  it("creates opaque tokens and reads them from the Authorization header", () => {
+    const token = createScimToken();
+    expect(token.startsWith(SCIM_TOKEN_PREFIX)).toBe(true);
+    expect(hashScimToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashScimToken(token)).not.toBe(hashScimToken(createScimToken()));
+    expect(readBearerToken(`Bearer ${token}`)).toBe(token);
+    expect(readBearerToken("Basic abc")).toBeNull();
+    expect(readBearerToken(undefined)).toBeNull();
+  });
+
+  it("parses Okta and Entra ID user payloads", () => {
+    expect(
+      parseScimUser({
+        userName: "Ada@Example.com",
+        name: { givenName: "Ada", familyName: "Lovelace" },
+        externalId: "00u1",
+        active: true,
+      })
+    ).toEqual({ email: "ada@example.com", name: "Ada Lovelace", title: "", active: true, externalId: "00u1" });
+
+    expect(
+      parseScimUser({
+        userName: "ada",
+        displayName: "Ada L.",
+        emails: [{ value: "home@example.org" }, { value: "ada@example.com", primary: true }],
+        title: "Engineer",
+        active: "False",
+      })
+    ).toMatchObject({ email: "ada@example.com", name: "Ada L.", title: "Engineer", active: false });
+
+    expect(() => parseScimUser({ userName: "not-an-email" })).toThrow(ScimError);
+  });
+
+  it("renders users with active flag and role group", () => {
+    const user = toScimUser(
+      { id: "u1", email: "ada@example.com", name: "Ada Lovelace", role: "MENTOR", deactivated: true },
+      "https://x/scim/v2/Users/u1"
+    );
+    expect(user).toMatchObject({
+      id: "u1",
+      userName: "ada@example.com",
+      name: { givenName: "Ada", familyName: "Lovelace" },
+      active: false,
+      groups: [{ value: "mentors", display: "Mentors" }],
+      meta: { resourceType: "User", location: "https://x/scim/v2/Users/u1" },
+    });
+  });
+
+  it("applies path and path-less PATCH operations", () => {
+    expect(applyUserPatch(ada, [{ op: "replace", path: "active", value: false }]).active).toBe(false);
+    // Entra ID sends capitalized ops, string booleans and a value object
+    expect(
+      applyUserPatch(ada, [{ op: "Replace", value: { active: "False", "name.familyName": "King", title: "CTO" } }])
+    ).toEqual({ ...ada, active: false, name: "Ada King", title: "CTO" });
+    expect(
+      applyUserPatch(ada, [{ op: "replace", path: 'emails[type eq "work"].value', value: "ada@new.example.com" }]).email
+    ).toBe("ada@new.example.com");
+    expect(applyUserPatch(ada, [{ op: "remove", path: "title" }]).title).toBe("");
+    expect(applyUserPatch(ada, [{ op: "add", path: "urn:custom:costCenter", value: "42" }])).toEqual(ada);
+    expect(() => applyUserPatch(ada, [{ op: "move", path: "active" }])).toThrow(ScimError);
+    expect(() => readPatchOperations({})).toThrow(ScimError);
+  });
+
+  it("reads group membership changes", () => {
+    expect(
+      readGroupMembershipPatch([
+        { op: "add", path: "members", value: [{ value: "u1" }, { value: "u2" }] },
+        { op: "remove", path: 'members[value eq "u3"]' },
+        { op: "replace", path: "displayName", value: "Mentors" },
+      ])
+    ).toEqual({ add: ["u1", "u2"], remove: ["u3"], replace: null });
+    expect(readGroupMembershipPatch([{ op: "replace", value: { members: [{ value: "u4" }] } }])).toEqual({
+      add: [],
+      remove: [],
+      replace: ["u4"],
+    });
+  });
+
+  it("maps group names to roles", () => {
+    expect(groupIdForDisplayName("Mentors")).toBe("mentors");
+    expect(groupIdForDisplayName("Program Mentee")).toBe("mentees");
+    expect(groupIdForDisplayName("Engineering")).toBeNull();
+  });
+
+  it("parses the equality filters IdPs send", () => {
+    expect(parseScimFilter('userName eq "Ada@Example.com"')).toEqual({ attribute: "userName", value: "ada@example.com" });
+    expect(parseScimFilter('emails[type eq "work"].value eq "ada@example.com"')).toEqual({
+      attribute: "userName",
+      value: "ada@example.com",
+    });
+    expect(parseScimFilter('externalId eq "00u1"')).toEqual({ attribute: "externalId", value: "00u1" });
+    expect(parseScimFilter('displayName eq "Mentors"')).toEqual({ attribute: "displayName", value: "Mentors" });
+    expect(parseScimFilter(undefined)).toBeNull();
+    expect(() => parseScimFilter('title co "eng"')).toThrow(ScimError);
+    expect(() => parseScimFilter('title eq "eng"')).toThrow(ScimError);
+  });
+
+  it("pages list responses with 1-based startIndex", () => {
+    const page = toListResponse([1, 2, 3, 4, 5], "2", "2");
+    expect(page).toMatchObject({ totalResults: 5, startIndex: 2, itemsPerPage: 2, Resources: [2, 3] });
+    expect(toListResponse([1, 2], undefined, undefined).Resources).toEqual([1, 2]);
+    expect(toListResponse([1, 2], "1", "0").Resources).toEqual([]);
+  });
+});
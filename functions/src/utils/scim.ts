@@ -0,0 +1,291 @@
+/**
+ * SCIM 2.0 (RFC 7643/7644) mapping between identity-provider payloads and participant profiles.
+ * Only what Okta, Entra ID and OneLogin send for user lifecycle and group push is supported.
+ * Firestore access and routing live in ../scim.ts.
+ */
+import * as crypto from "crypto";
+
+export const SCIM_USER_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:User";
+export const SCIM_GROUP_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:Group";
+export const SCIM_LIST_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:ListResponse";
+export const SCIM_PATCH_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:PatchOp";
+export const SCIM_ERROR_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:Error";
+
+export const SCIM_MAX_RESULTS = 200;
+export const SCIM_TOKEN_PREFIX = "m2g_scim_";
+
+/** Thrown for anything the IdP should see as a SCIM error response. */
+export class ScimError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly scimType?: string
+  ) {
+    super(message);
+    this.name = "ScimError";
+  }
+}
+
+export const scimErrorBody = (error: ScimError) => ({
+  schemas: [SCIM_ERROR_SCHEMA],
+  status: String(error.status),
+  detail: error.message,
+  ...(error.scimType ? { scimType: error.scimType } : {}),
+});
+
+// ==================== Tokens ====================
+
+/** New bearer token; only its hash is stored (scimTokens/{id}.tokenHash). */
+export const createScimToken = (): string => `${SCIM_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+
+export const hashScimToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+export const readBearerToken = (authorization: string | undefined): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization || "");
+  return match ? match[1] : null;
+};
+
+// ==================== Groups ====================
+
+/** The two groups an IdP can push; membership sets the participant's role. */
+export const SCIM_GROUPS = {
+  mentors: { displayName: "Mentors", role: "MENTOR" },
+  mentees: { displayName: "Mentees", role: "MENTEE" },
+} as const;
+
+export type ScimGroupId = keyof typeof SCIM_GROUPS;
+export type ScimRole = (typeof SCIM_GROUPS)[ScimGroupId]["role"];
+
+export const isScimGroupId = (id: string): id is ScimGroupId => Object.prototype.hasOwnProperty.call(SCIM_GROUPS, id);
+
+/** "Mentors", "mentor", "Program Mentors" -> mentors; anything else is not a group we map. */
+export const groupIdForDisplayName = (displayName: unknown): ScimGroupId | null => {
+  if (typeof displayName !== "string") return null;
+  const name = displayName.trim().toLowerCase();
+  if (/\bmentors?$/.test(name)) return "mentors";
+  if (/\bmentees?$/.test(name)) return "mentees";
+  return null;
+};
+
+export const groupIdForRole = (role: unknown): ScimGroupId | null =>
+  role === "MENTOR" ? "mentors" : role === "MENTEE" ? "mentees" : null;
+
+// ==================== Users ====================
+
+/** The profile fields SCIM owns. */
+export interface ScimUserFields {
+  email: string;
+  name: string;
+  title: string;
+  active: boolean;
+  externalId?: string;
+}
+
+/** What toScimUser needs from a users/{id} doc. */
+export interface ScimUserSource {
+  id: string;
+  email: string;
+  name: string;
+  title?: string;
+  role?: string;
+  deactivated?: boolean;
+  scimExternalId?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const splitName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  return { givenName: parts[0] || "", familyName: parts.slice(1).join(" ") };
+};
+
+export const toScimUser = (user: ScimUserSource, location: string) => {
+  const group = groupIdForRole(user.role);
+  return {
+    schemas: [SCIM_USER_SCHEMA],
+    id: user.id,
+    ...(user.scimExternalId ? { externalId: user.scimExternalId } : {}),
+    userName: user.email,
+    name: { formatted: user.name, ...splitName(user.name) },
+    displayName: user.name,
+    ...(user.title ? { title: user.title } : {}),
+    emails: [{ value: user.email, type: "work", primary: true }],
+    active: !user.deactivated,
+    groups: group ? [{ value: group, display: SCIM_GROUPS[group].displayName }] : [],
+    meta: {
+      resourceType: "User",
+      ...(user.createdAt ? { created: user.createdAt } : {}),
+      ...(user.updatedAt || user.createdAt ? { lastModified: user.updatedAt || user.createdAt } : {}),
+      location,
+    },
+  };
+};
+
+const str = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const primaryEmail = (emails: unknown): string => {
+  if (!Array.isArray(emails)) return "";
+  const list = emails as { value?: unknown; primary?: unknown }[];
+  return str((list.find((e) => e?.primary === true) || list[0])?.value);
+};
+
+const fullName = (name: unknown, displayName: unknown, fallback: string): string => {
+  const n = (name || {}) as { formatted?: unknown; givenName?: unknown; familyName?: unknown };
+  return (
+    str(displayName) ||
+    str(n.formatted) ||
+    [str(n.givenName), str(n.familyName)].filter(Boolean).join(" ") ||
+    fallback
+  );
+};
+
+const toBoolean = (value: unknown): boolean => value === true || String(value).toLowerCase() === "true";
+
+/** POST/PUT /Users body -> profile fields. userName is the sign-in email. */
+export const parseScimUser = (body: unknown): ScimUserFields => {
+  const resource = (body || {}) as Record<string, unknown>;
+  const email = (str(resource.userName).includes("@") ? str(resource.userName) : primaryEmail(resource.emails)).toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new ScimError(400, "userName must be the user's email address", "invalidValue");
+  }
+  return {
+    email,
+    name: fullName(resource.name, resource.displayName, email.split("@")[0]),
+    title: str(resource.title),
+    active: resource.active === undefined || toBoolean(resource.active),
+    externalId: str(resource.externalId) || undefined,
+  };
+};
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+export const readPatchOperations = (body: unknown): ScimPatchOperation[] => {
+  const operations = (body as { Operations?: unknown } | undefined)?.Operations;
+  if (!Array.isArray(operations) || operations.some((o) => typeof o?.op !== "string")) {
+    throw new ScimError(400, "PATCH body needs an Operations array", "invalidSyntax");
+  }
+  return operations as ScimPatchOperation[];
+};
+
+/** Applies one attribute of a user PATCH; unknown attributes are ignored, as RFC 7644 allows. */
+const applyUserAttribute = (fields: ScimUserFields, path: string, value: unknown, remove: boolean): void => {
+  const key = path.toLowerCase();
+  if (key === "active") {
+    fields.active = remove ? true : toBoolean(value);
+  } else if (key === "username" || key.startsWith("emails")) {
+    const email = str(Array.isArray(value) ? primaryEmail(value) : value).toLowerCase();
+    if (!remove && EMAIL_PATTERN.test(email)) fields.email = email;
+  } else if (key === "displayname" || key === "name.formatted") {
+    if (!remove && str(value)) fields.name = str(value);
+  } else if (key === "name.givenname" || key === "name.familyname") {
+    const parts = splitName(fields.name);
+    const next = remove ? "" : str(value);
+    const given = key === "name.givenname" ? next : parts.givenName;
+    const family = key === "name.familyname" ? next : parts.familyName;
+    if (given || family) fields.name = [given, family].filter(Boolean).join(" ");
+  } else if (key === "name") {
+    if (!remove) fields.name = fullName(value, undefined, fields.name);
+  } else if (key === "title") {
+    fields.title = remove ? "" : str(value);
+  } else if (key === "externalid") {
+    fields.externalId = remove ? undefined : str(value) || undefined;
+  }
+};
+
+/** PATCH /Users/{id}. Handles both path-style ops and Entra ID's path-less { value: {...} } form. */
+export const applyUserPatch = (current: ScimUserFields, operations: ScimPatchOperation[]): ScimUserFields => {
+  const fields = { ...current };
+  for (const operation of operations) {
+    const op = operation.op.toLowerCase();
+    if (op !== "add" && op !== "replace" && op !== "remove") {
+      throw new ScimError(400, `Unsupported PATCH op "${operation.op}"`, "invalidSyntax");
+    }
+    if (operation.path) {
+      applyUserAttribute(fields, operation.path, operation.value, op === "remove");
+    } else if (operation.value && typeof operation.value === "object") {
+      for (const [path, value] of Object.entries(operation.value as Record<string, unknown>)) {
+        applyUserAttribute(fields, path, value, op === "remove");
+      }
+    }
+  }
+  return fields;
+};
+
+const memberIds = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .map((member) => str((member as { value?: unknown })?.value))
+    .filter(Boolean);
+
+/**
+ * PATCH /Groups/{id} -> members to add and remove. `replace` on members lists the full new
+ * membership; removals may name the member in the path (members[value eq "id"]).
+ */
+export const readGroupMembershipPatch = (
+  operations: ScimPatchOperation[]
+): { add: string[]; remove: string[]; replace: string[] | null } => {
+  const result = { add: [] as string[], remove: [] as string[], replace: null as string[] | null };
+  for (const operation of operations) {
+    const op = operation.op.toLowerCase();
+    const path = operation.path || "";
+    const filtered = /^members\[value eq "([^"]+)"\]$/i.exec(path);
+    if (path && !filtered && path.toLowerCase() !== "members") continue; // e.g. displayName renames
+    // Path-less ops carry { members: [...] } (plus attributes we don't map)
+    const value = path ? operation.value : ((operation.value || {}) as { members?: unknown }).members;
+    if (!path && value === undefined) continue;
+    const ids = filtered ? [filtered[1]] : memberIds(value);
+    if (op === "add") result.add.push(...ids);
+    else if (op === "remove") result.remove.push(...ids);
+    else if (op === "replace") result.replace = ids;
+    else throw new ScimError(400, `Unsupported PATCH op "${operation.op}"`, "invalidSyntax");
+  }
+  return result;
+};
+
+export const readGroupMembers = (body: unknown): string[] =>
+  memberIds((body as { members?: unknown } | undefined)?.members);
+
+// ==================== Queries ====================
+
+export interface ScimFilter {
+  attribute: "userName" | "externalId" | "displayName";
+  value: string;
+}
+
+/** The equality filters IdPs use to look a resource up before creating it. */
+export const parseScimFilter = (filter: unknown): ScimFilter | null => {
+  if (typeof filter !== "string" || !filter.trim()) return null;
+  const match = /^\s*([\w.[\]" ]+?)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i.exec(filter);
+  if (!match) {
+    throw new ScimError(400, "Only `<attribute> eq \"value\"` filters are supported", "invalidFilter");
+  }
+  const attribute = match[1].trim().toLowerCase();
+  const value = match[2].replace(/\\(.)/g, "$1");
+  // emails.value and emails[type eq "work"].value both mean the sign-in email
+  if (attribute === "username" || (attribute.startsWith("emails") && attribute.endsWith(".value"))) {
+    return { attribute: "userName", value: value.toLowerCase() };
+  }
+  if (attribute === "externalid") return { attribute: "externalId", value };
+  if (attribute === "displayname") return { attribute: "displayName", value };
+  throw new ScimError(400, `Filtering on ${match[1]} is not supported`, "invalidFilter");
+};
+
+/** 1-based startIndex and count, as SCIM list endpoints take them. */
+export const toListResponse = <T>(resources: T[], startIndex: unknown, count: unknown) => {
+  const start = Math.max(1, Number.parseInt(String(startIndex ?? 1), 10) || 1);
+  const parsedCount = Number.parseInt(String(count ?? SCIM_MAX_RESULTS), 10);
+  const size = Math.min(SCIM_MAX_RESULTS, Math.max(0, Number.isNaN(parsedCount) ? SCIM_MAX_RESULTS : parsedCount));
+  const page = resources.slice(start - 1, start - 1 + size);
+  return {
+    schemas: [SCIM_LIST_SCHEMA],
+    totalResults: resources.length,
+    startIndex: start,
+    itemsPerPage: page.length,
+    Resources: page,
+  };
+};
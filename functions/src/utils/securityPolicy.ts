@@ -0,0 +1,43 @@
+/**
+ * Org-enforced two-factor policy.
+ * Mirrors utils/securityPolicy.ts in the web app.
+ */
+import { OrgSecurityPolicy, TotpRequirement, User } from "../types";
+
+export const MAX_TOTP_GRACE_DAYS = 90;
+
+export type TotpPolicyStatus = "not_required" | "satisfied" | "grace" | "enforced";
+
+// Org admins are stored as "ORGANIZATION_ADMIN" by the web app; older docs use "ADMIN"
+const isAdminRole = (role: string) => role === "ORGANIZATION_ADMIN" || role === "ADMIN";
+
+export function isTotpRequiredForRole(requirement: TotpRequirement | undefined, role: string): boolean {
+  switch (requirement) {
+    case "everyone":
+      return isAdminRole(role) || role === "MENTOR" || role === "MENTEE";
+    case "admins_and_mentors":
+      return isAdminRole(role) || role === "MENTOR";
+    case "admins":
+      return isAdminRole(role);
+    default:
+      return false;
+  }
+}
+
+/** Grace runs from when the policy was turned on, or from when the user joined if that's later. */
+export function getTotpDeadline(policy: OrgSecurityPolicy, user: Pick<User, "createdAt">): Date {
+  const enforcedAt = Date.parse(policy.enforcedAt) || 0;
+  const joinedAt = Date.parse(user.createdAt) || 0;
+  const graceDays = Math.min(Math.max(policy.gracePeriodDays || 0, 0), MAX_TOTP_GRACE_DAYS);
+  return new Date(Math.max(enforcedAt, joinedAt) + graceDays * 24 * 60 * 60 * 1000);
+}
+
+export function getTotpPolicyStatus(
+  policy: OrgSecurityPolicy | undefined,
+  user: Pick<User, "role" | "totpEnabled" | "createdAt">,
+  now: Date = new Date()
+): TotpPolicyStatus {
+  if (!policy || !isTotpRequiredForRole(policy.requireTotp, String(user.role))) return "not_required";
+  if (user.totpEnabled) return "satisfied";
+  return getTotpDeadline(policy, user) > now ? "grace" : "enforced";
+}
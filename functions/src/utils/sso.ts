@@ -0,0 +1,290 @@
+/**
+ * Enterprise SSO helpers: email-domain checks, DNS ownership records, and the OIDC / SAML
+ * protocol steps. Firestore access and HTTP handling live in ../sso.ts.
+ */
+import * as crypto from "crypto";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+import { CacheProvider, SAML, ValidateInResponseTo } from "@node-saml/node-saml";
+
+export type SsoProtocol = "oidc" | "saml";
+
+export interface OidcSettings {
+  issuer: string; // e.g. https://login.example.com; discovery is read from /.well-known/openid-configuration
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface SamlSettings {
+  entryPoint: string; // IdP single sign-on URL (HTTP-Redirect binding)
+  idpIssuer?: string; // IdP entity id; checked against the response when set
+  idpCert: string; // IdP signing certificate (PEM or bare base64)
+}
+
+/** ssoConfigs/{organizationId}; Functions-only (rules deny all client access). */
+export interface SsoConfigDoc {
+  organizationId: string;
+  enabled: boolean;
+  protocol: SsoProtocol;
+  domain: string;
+  domainVerified: boolean;
+  domainVerificationToken: string;
+  domainVerifiedAt?: string;
+  defaultRole: "MENTOR" | "MENTEE"; // Role for users provisioned on first SSO login
+  oidc?: OidcSettings;
+  saml?: SamlSettings;
+  updatedAt: string;
+}
+
+/** Identity the IdP vouched for, after protocol checks. */
+export interface SsoIdentity {
+  email: string;
+  name: string;
+  subject: string;
+}
+
+export const SSO_STATE_TTL_MS = 10 * 60 * 1000;
+export const DOMAIN_VERIFICATION_PREFIX = "meant2grow-verification=";
+
+// Consumer mailboxes can't be claimed by one organization
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "yahoo.com",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+]);
+
+export const normalizeDomain = (domain: string): string =>
+  domain.trim().toLowerCase().replace(/^@/, "").replace(/\.$/, "");
+
+export const isValidSsoDomain = (domain: string): boolean =>
+  /^(?=.{4,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(domain) &&
+  !PUBLIC_EMAIL_DOMAINS.has(domain);
+
+export const getEmailDomain = (email: string): string | null => {
+  const at = email.trim().lastIndexOf("@");
+  if (at < 1) return null;
+  const domain = normalizeDomain(email.slice(at + 1));
+  return domain || null;
+};
+
+export const createVerificationToken = (): string => crypto.randomBytes(16).toString("hex");
+
+/** TXT record value the org adds at its domain to prove ownership. */
+export const domainVerificationRecord = (token: string): string => `${DOMAIN_VERIFICATION_PREFIX}${token}`;
+
+/** `records` as returned by dns.resolveTxt (long values arrive split into chunks). */
+export const hasDomainVerificationRecord = (records: string[][], token: string): boolean =>
+  records.some((chunks) => chunks.join("").trim() === domainVerificationRecord(token));
+
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1)(:\d+)?$/;
+const APP_HOST = "meant2grow.com";
+
+/** Only our own app may receive the sign-in token after SSO. */
+export const isAllowedReturnOrigin = (origin: string, projectId: string): boolean => {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (url.origin !== origin) return false;
+  const host = url.host.toLowerCase();
+  if (LOCAL_HOST.test(host)) return url.protocol === "http:" || url.protocol === "https:";
+  return (
+    url.protocol === "https:" &&
+    (host === APP_HOST ||
+      host.endsWith(`.${APP_HOST}`) ||
+      (!!projectId && (host === `${projectId}.web.app` || host === `${projectId}.firebaseapp.com`)))
+  );
+};
+
+/** Accepts a PEM block or the bare base64 IdPs often show in their admin consoles. */
+export const normalizeCertificate = (cert: string): string =>
+  cert
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, "")
+    .replace(/\s+/g, "");
+
+// ==================== OIDC ====================
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export async function discoverOidc(issuer: string, fetchFn: FetchLike = fetch): Promise<OidcDiscovery> {
+  const url = `${issuer.replace(/\/$/, "")}/.well-known/openid-configuration`;
+  const res = await fetchFn(url);
+  if (!res.ok) {
+    throw new Error(`OIDC discovery failed (${res.status})`);
+  }
+  const doc = (await res.json()) as Partial<OidcDiscovery>;
+  if (!doc.authorization_endpoint || !doc.token_endpoint || !doc.jwks_uri || !doc.issuer) {
+    throw new Error("OIDC discovery document is missing endpoints");
+  }
+  return doc as OidcDiscovery;
+}
+
+/** PKCE verifier and its S256 challenge. */
+export const createPkce = (): { verifier: string; challenge: string } => {
+  const verifier = crypto.randomBytes(32).toString("base64url");
+  const challenge = crypto.createHash("sha256").update(verifier).digest("base64url");
+  return { verifier, challenge };
+};
+
+export const buildOidcAuthorizeUrl = (
+  discovery: OidcDiscovery,
+  params: { clientId: string; redirectUri: string; state: string; nonce: string; codeChallenge: string; loginHint?: string }
+): string => {
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("nonce", params.nonce);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  if (params.loginHint) url.searchParams.set("login_hint", params.loginHint);
+  return url.toString();
+};
+
+/** Exchanges the authorization code and verifies the ID token (signature, issuer, audience, nonce). */
+export async function completeOidcLogin(
+  discovery: OidcDiscovery,
+  settings: OidcSettings,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string },
+  fetchFn: FetchLike = fetch
+): Promise<SsoIdentity> {
+  const res = await fetchFn(discovery.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${Buffer.from(`${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`).toString("base64")}`,
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      code_verifier: params.codeVerifier,
+    }).toString(),
+  });
+  if (!res.ok) {
+    throw new Error(`OIDC token exchange failed (${res.status})`);
+  }
+  const tokens = (await res.json()) as { id_token?: string };
+  if (!tokens.id_token) {
+    throw new Error("OIDC token response has no id_token");
+  }
+
+  const { payload } = await jwtVerify(tokens.id_token, createRemoteJWKSet(new URL(discovery.jwks_uri)), {
+    issuer: discovery.issuer,
+    audience: settings.clientId,
+  });
+  if (payload.nonce !== params.nonce) {
+    throw new Error("OIDC nonce mismatch");
+  }
+  const email = typeof payload.email === "string" ? payload.email.trim().toLowerCase() : "";
+  if (!email || payload.email_verified === false) {
+    throw new Error("The identity provider did not return a verified email address");
+  }
+  const name = typeof payload.name === "string" && payload.name.trim() ? payload.name.trim() : email.split("@")[0];
+  return { email, name, subject: String(payload.sub || email) };
+}
+
+// ==================== SAML ====================
+
+/** The AuthnRequest ssoStart sent, kept on the pending ssoStates doc until the IdP answers. */
+export interface SamlRequestRecord {
+  requestId?: string;
+  issuedAt?: string;
+}
+
+/**
+ * node-saml's request-ID cache, backed by one pending sign-in instead of instance memory (the
+ * callback may run on another instance). A response is only accepted for the ID ssoStart sent,
+ * and the state doc holding that ID is deleted on first use, so a captured response can't be replayed.
+ */
+const samlRequestCache = (record: SamlRequestRecord): CacheProvider => ({
+  saveAsync: async (key, value) => {
+    record.requestId = key;
+    record.issuedAt = value;
+    return { value, createdAt: Date.now() };
+  },
+  getAsync: async (key) => (key === record.requestId && record.issuedAt) || null,
+  removeAsync: async (key) => {
+    if (!key || key !== record.requestId) return null;
+    const value = record.issuedAt || null;
+    delete record.requestId;
+    delete record.issuedAt;
+    return value;
+  },
+});
+
+export const createSamlClient = (
+  settings: SamlSettings,
+  callbackUrl: string,
+  spEntityId: string,
+  request: SamlRequestRecord
+): SAML =>
+  new SAML({
+    entryPoint: settings.entryPoint,
+    idpIssuer: settings.idpIssuer || undefined,
+    idpCert: normalizeCertificate(settings.idpCert),
+    issuer: spEntityId,
+    audience: spEntityId,
+    callbackUrl,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    identifierFormat: "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress",
+    validateInResponseTo: ValidateInResponseTo.always,
+    requestIdExpirationPeriodMs: SSO_STATE_TTL_MS,
+    cacheProvider: samlRequestCache(request),
+  });
+
+const EMAIL_ATTRIBUTES = [
+  "email",
+  "mail",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress",
+  "urn:oid:0.9.2342.19200300.100.1.3",
+];
+const NAME_ATTRIBUTES = [
+  "name",
+  "displayName",
+  "http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name",
+  "urn:oid:2.16.840.1.113730.3.1.241",
+];
+
+const firstString = (profile: Record<string, unknown>, keys: string[]): string => {
+  for (const key of keys) {
+    const value = profile[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+};
+
+/** Validates a posted SAMLResponse (signature, audience, timing) and reads the user's email and name. */
+export async function completeSamlLogin(client: SAML, samlResponse: string): Promise<SsoIdentity> {
+  const { profile } = await client.validatePostResponseAsync({ SAMLResponse: samlResponse });
+  if (!profile) {
+    throw new Error("SAML response has no assertion");
+  }
+  const attributes = profile as unknown as Record<string, unknown>;
+  const nameIdEmail = profile.nameID && profile.nameID.includes("@") ? profile.nameID : "";
+  const email = (firstString(attributes, EMAIL_ATTRIBUTES) || nameIdEmail).toLowerCase();
+  if (!email) {
+    throw new Error("The identity provider did not return an email address");
+  }
+  const name = firstString(attributes, NAME_ATTRIBUTES) || email.split("@")[0];
+  return { email, name, subject: profile.nameID || email };
+}
@@ -0,0 +1,73 @@
+/**
+ * Server copy of the client's utils/timeZones.ts helpers that reminders and emails need.
+ * Calendar events store a wall-clock date + startTime, its IANA timeZone, and the UTC instant startsAt.
+ */
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    year: +get("year"),
+    month: +get("month"),
+    day: +get("day"),
+    hour: +get("hour"),
+    minute: +get("minute"),
+    second: +get("second"),
+  };
+}
+
+function getTimeZoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallAsUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/** UTC instant for a wall-clock date (YYYY-MM-DD) and time (HH:mm) in timeZone. */
+export function zonedDateTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = (time || "00:00").split(":").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  // Two passes so times next to a DST change pick up the offset in effect at that moment
+  const firstGuess = wallAsUtc - getTimeZoneOffsetMinutes(new Date(wallAsUtc), timeZone) * 60000;
+  return new Date(wallAsUtc - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000);
+}
+
+/** Wall-clock date (YYYY-MM-DD) and time (HH:mm) of an instant in timeZone. */
+export function utcToZonedDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const p = getZonedParts(instant, timeZone);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return { date: `${p.year}-${pad(p.month)}-${pad(p.day)}`, time: `${pad(p.hour)}:${pad(p.minute)}` };
+}
+
+/**
+ * UTC start of a calendar event doc. Events saved before time zones existed have neither
+ * startsAt nor timeZone; their wall clock is read in fallbackTimeZone (e.g. the creator's zone).
+ */
+export function getEventStart(
+  event: { date: string; startTime: string; timeZone?: string; startsAt?: string },
+  fallbackTimeZone?: string
+): Date {
+  if (event.startsAt) return new Date(event.startsAt);
+  const timeZone = [event.timeZone, fallbackTimeZone].find(
+    (tz): tz is string => !!tz && isValidTimeZone(tz)
+  );
+  return zonedDateTimeToUtc(event.date, event.startTime, timeZone || "UTC");
+}
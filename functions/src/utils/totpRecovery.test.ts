@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_CODE_COUNT,
+  createTrustedDevice,
+  findBackupCode,
+  generateBackupCodes,
+  hashBackupCodes,
+  isBackupCodeFormat,
+  isTrustedDeviceValid,
+  isValidDeviceId,
+} from "./totpRecovery";
+
+describe("totpRecovery", () => {
+  it("generates distinct, readable backup codes", () => {
+    const codes = generateBackupCodes();
+    expect(codes).toHaveLength(BACKUP_CODE_COUNT);
+    expect(new Set(codes).size).toBe(BACKUP_CODE_COUNT);
+    for (const code of codes) {
+      expect(code).toMatch(/^[2-9a-z]{4}-[2-9a-z]{4}$/);
+      expect(code).not.toMatch(/[01ilo]/);
+      expect(isBackupCodeFormat(code)).toBe(true);
+    }
+    expect(isBackupCodeFormat("123456")).toBe(false);
+  });
+
+  it("matches backup codes by hash regardless of case, spaces and dashes", () => {
+    const codes = ["k7m2-x9qp", "abcd-efgh"];
+    const hashes = hashBackupCodes(codes, "salt");
+
+    expect(hashes[0]).not.toContain("k7m2");
+    expect(findBackupCode(hashes, "K7M2 X9QP", "salt")).toBe(0);
+    expect(findBackupCode(hashes, "abcdefgh", "salt")).toBe(1);
+    expect(findBackupCode(hashes, "abcd-efgh", "other-salt")).toBe(-1);
+    expect(findBackupCode(hashes, "zzzz-zzzz", "salt")).toBe(-1);
+  });
+
+  it("trusts a device for 30 days with its own token only", () => {
+    const now = new Date("2026-05-01T00:00:00.000Z");
+    const { token, record } = createTrustedDevice("Mac (Chrome)", "salt", now);
+
+    expect(record.expiresAt).toBe("2026-05-31T00:00:00.000Z");
+    expect(record.tokenHash).not.toBe(token);
+    expect(isTrustedDeviceValid(record, token, "salt", new Date("2026-05-30T00:00:00.000Z"))).toBe(true);
+    expect(isTrustedDeviceValid(record, token, "salt", new Date("2026-05-31T00:00:01.000Z"))).toBe(false);
+    expect(isTrustedDeviceValid(record, "0".repeat(64), "salt", now)).toBe(false);
+    expect(isTrustedDeviceValid(undefined, token, "salt", now)).toBe(false);
+  });
+
+  it("accepts deviceTracking ids only", () => {
+    expect(isValidDeviceId("device_12345_1714521600000")).toBe(true);
+    expect(isValidDeviceId("a.b")).toBe(false);
+    expect(isValidDeviceId("")).toBe(false);
+    expect(isValidDeviceId(42)).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Recovery helpers for TOTP 2FA: one-time backup codes and "trust this device" tokens.
+ * Only hashes are stored (totpSecrets/{userId}); the plain values are shown to the user once.
+ */
+import * as crypto from "crypto";
+
+export const BACKUP_CODE_COUNT = 10;
+export const TRUSTED_DEVICE_DAYS = 30;
+
+// No 0/o, 1/l/i: codes are read off paper and typed by hand
+const BACKUP_CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+const BACKUP_CODE_LENGTH = 8;
+
+/** Trusted-device record kept per device id in totpSecrets/{userId}.trustedDevices. */
+export interface TrustedDeviceRecord {
+  tokenHash: string;
+  deviceName: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** Fresh backup codes formatted for display, e.g. "k7m2-x9qp". */
+export const generateBackupCodes = (count = BACKUP_CODE_COUNT): string[] =>
+  Array.from({ length: count }, () => {
+    let code = "";
+    for (let i = 0; i < BACKUP_CODE_LENGTH; i++) {
+      code += BACKUP_CODE_ALPHABET[crypto.randomInt(BACKUP_CODE_ALPHABET.length)];
+    }
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+
+/** Lower-cases and drops spaces/dashes so "K7M2 X9QP" matches "k7m2-x9qp". */
+export const normalizeBackupCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, "");
+
+export const isBackupCodeFormat = (code: string): boolean => {
+  const normalized = normalizeBackupCode(code);
+  return (
+    normalized.length === BACKUP_CODE_LENGTH &&
+    Array.from(normalized).every((ch) => BACKUP_CODE_ALPHABET.includes(ch))
+  );
+};
+
+export const createSalt = (): string => crypto.randomBytes(16).toString("hex");
+
+export const hashSecret = (value: string, salt: string): string =>
+  crypto.createHmac("sha256", salt).update(value).digest("hex");
+
+const hashesMatch = (a: string, b: string): boolean =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+export const hashBackupCodes = (codes: string[], salt: string): string[] =>
+  codes.map((code) => hashSecret(normalizeBackupCode(code), salt));
+
+/** Index of the unused backup code that `code` matches, or -1. */
+export const findBackupCode = (hashes: string[], code: string, salt: string): number => {
+  const candidate = hashSecret(normalizeBackupCode(code), salt);
+  return hashes.findIndex((hash) => hashesMatch(hash, candidate));
+};
+
+/** Device ids come from the client's deviceTracking (e.g. "device_123_456"). */
+export const isValidDeviceId = (deviceId: unknown): deviceId is string =>
+  typeof deviceId === "string" && /^[\w-]{1,128}$/.test(deviceId);
+
+export const createTrustedDevice = (
+  deviceName: string,
+  salt: string,
+  now = new Date()
+): { token: string; record: TrustedDeviceRecord } => {
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(now.getTime() + TRUSTED_DEVICE_DAYS * 24 * 60 * 60 * 1000);
+  return {
+    token,
+    record: {
+      tokenHash: hashSecret(token, salt),
+      deviceName: deviceName.slice(0, 100) || "Unknown device",
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    },
+  };
+};
+
+export const isTrustedDeviceValid = (
+  record: TrustedDeviceRecord | undefined,
+  token: unknown,
+  salt: string,
+  now = new Date()
+): boolean =>
+  !!record &&
+  typeof token === "string" &&
+  !!token &&
+  Date.parse(record.expiresAt) > now.getTime() &&
+  hashesMatch(record.tokenHash, hashSecret(token, salt));
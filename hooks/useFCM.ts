@@ -8,6 +8,7 @@ import {
   removeFCMToken
 } from '../services/messaging';
 import { getErrorMessage } from '../utils/errors';
+import { navigateToPath } from '../utils/routes';
 
 interface FCMState {
   isSupported: boolean;
@@ -154,7 +155,12 @@ export function useFCM(fcmStorageUserId: string | null) {
 
         // Show notification
         if ('Notification' in window && Notification.permission === 'granted') {
-          new Notification(notificationTitle, notificationOptions);
+          const browserNotification = new Notification(notificationTitle, notificationOptions);
+          browserNotification.onclick = () => {
+            window.focus();
+            navigateToPath(payload.data?.url || '/notifications');
+            browserNotification.close();
+          };
         }
       }
     });
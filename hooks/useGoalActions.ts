@@ -37,6 +37,7 @@ export const useGoalActions = (
                         body: `Congratulations! You've completed "${goal.title}"`,
                         isRead: false,
                         timestamp: new Date().toISOString(),
+                        goalId: id,
                     }).catch(err => console.error('Error creating goal completion notification:', err));
                 }
             }
@@ -0,0 +1,77 @@
+import { renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useModerationActions } from "./useModerationActions";
+import { ReportRecord, Role, User } from "../types";
+
+const mockUpdateReport = vi.fn();
+const mockAddReportAction = vi.fn();
+const mockUpdateUser = vi.fn();
+const mockCreateNotification = vi.fn();
+
+vi.mock("../services/database", () => ({
+  updateReport: (...args: unknown[]) => mockUpdateReport(...args),
+  addReportAction: (...args: unknown[]) => mockAddReportAction(...args),
+  updateUser: (...args: unknown[]) => mockUpdateUser(...args),
+  updateChatGroup: vi.fn(),
+  createNotification: (...args: unknown[]) => mockCreateNotification(...args),
+}));
+
+const moderator = { id: "admin-1", name: "Dana Admin", organizationId: "org-1", role: Role.ADMIN } as User;
+
+const report: ReportRecord = {
+  id: "report-1",
+  organizationId: "org-1",
+  reporterId: "user-1",
+  reportedId: "user-2",
+  reason: "Harassment",
+  description: "",
+  timestamp: "2026-03-01T10:00:00.000Z",
+  status: "open",
+};
+
+describe("useModerationActions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  it("refuses to act without a signed-in moderator", async () => {
+    const addToast = vi.fn();
+    const { result } = renderHook(() => useModerationActions(addToast, null));
+
+    await result.current.handleSuspendUser(report);
+
+    expect(mockUpdateUser).not.toHaveBeenCalled();
+    expect(addToast).toHaveBeenCalledWith("You must be signed in to moderate reports", "error");
+  });
+
+  it("warns with the community guidelines message when no note is given", async () => {
+    const addToast = vi.fn();
+    const { result } = renderHook(() => useModerationActions(addToast, moderator));
+
+    await result.current.handleWarnUser(report, "   ");
+
+    expect(mockCreateNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "user-2",
+        type: "system",
+        body: expect.stringContaining("community guidelines"),
+      })
+    );
+    expect(mockAddReportAction).toHaveBeenCalledWith("report-1", expect.objectContaining({ type: "warn" }));
+  });
+
+  it("mutes until the given number of hours from now", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+    try {
+      const { result } = renderHook(() => useModerationActions(vi.fn(), moderator));
+
+      await result.current.handleMuteUser(report, 24);
+
+      expect(mockUpdateUser).toHaveBeenCalledWith("user-2", { mutedUntil: "2026-03-02T12:00:00.000Z" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
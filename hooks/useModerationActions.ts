@@ -0,0 +1,111 @@
+
+import { useCallback } from 'react';
+import { User, ReportRecord, ReportStatus, ChatGroup } from '../types';
+import { getErrorMessage } from '../utils/errors';
+import {
+    updateReport,
+    addReportAction,
+    updateUser,
+    updateChatGroup,
+    createNotification,
+} from '../services/database';
+
+export const useModerationActions = (
+    addToast: (msg: string, type?: 'success' | 'error' | 'info') => void,
+    moderator: User | null
+) => {
+    const handleSetReportStatus = useCallback(async (report: ReportRecord, status: ReportStatus, resolutionNote?: string) => {
+        try {
+            if (!moderator) throw new Error('You must be signed in to moderate reports');
+            await updateReport(report.id, { status, resolutionNote, updatedBy: moderator.id });
+            addToast(`Report marked as ${status}`, 'success');
+        } catch (error: unknown) {
+            console.error('Error updating report status:', error);
+            addToast(getErrorMessage(error) || 'Failed to update report', 'error');
+        }
+    }, [addToast, moderator]);
+
+    const handleWarnUser = useCallback(async (report: ReportRecord, note?: string) => {
+        try {
+            if (!moderator) throw new Error('You must be signed in to moderate reports');
+            await createNotification({
+                organizationId: report.organizationId,
+                userId: report.reportedId,
+                type: 'system',
+                title: 'Warning from a moderator',
+                body: note?.trim() || 'Your recent messages were reported and reviewed. Please follow the community guidelines.',
+                isRead: false,
+                timestamp: new Date().toISOString(),
+            });
+            await addReportAction(report.id, {
+                type: 'warn',
+                performedBy: moderator.id,
+                performedAt: new Date().toISOString(),
+                note,
+            });
+            addToast('Warning sent', 'success');
+        } catch (error: unknown) {
+            console.error('Error warning user:', error);
+            addToast(getErrorMessage(error) || 'Failed to warn user', 'error');
+        }
+    }, [addToast, moderator]);
+
+    const handleMuteUser = useCallback(async (report: ReportRecord, durationHours: number, note?: string) => {
+        try {
+            if (!moderator) throw new Error('You must be signed in to moderate reports');
+            const mutedUntil = new Date(Date.now() + durationHours * 60 * 60 * 1000).toISOString();
+            await updateUser(report.reportedId, { mutedUntil });
+            await addReportAction(report.id, {
+                type: 'mute',
+                performedBy: moderator.id,
+                performedAt: new Date().toISOString(),
+                mutedUntil,
+                note,
+            });
+            addToast('User muted', 'success');
+        } catch (error: unknown) {
+            console.error('Error muting user:', error);
+            addToast(getErrorMessage(error) || 'Failed to mute user', 'error');
+        }
+    }, [addToast, moderator]);
+
+    const handleRemoveFromGroup = useCallback(async (report: ReportRecord, group: ChatGroup, note?: string) => {
+        try {
+            if (!moderator) throw new Error('You must be signed in to moderate reports');
+            await updateChatGroup(group.id, {
+                members: group.members.filter(id => id !== report.reportedId),
+            });
+            await addReportAction(report.id, {
+                type: 'remove_from_group',
+                performedBy: moderator.id,
+                performedAt: new Date().toISOString(),
+                groupId: group.id,
+                note,
+            });
+            addToast(`User removed from ${group.name}`, 'success');
+        } catch (error: unknown) {
+            console.error('Error removing user from group:', error);
+            addToast(getErrorMessage(error) || 'Failed to remove user from group', 'error');
+        }
+    }, [addToast, moderator]);
+
+    const handleSuspendUser = useCallback(async (report: ReportRecord, note?: string) => {
+        try {
+            if (!moderator) throw new Error('You must be signed in to moderate reports');
+            const now = new Date().toISOString();
+            await updateUser(report.reportedId, { suspended: true, suspendedAt: now });
+            await addReportAction(report.id, {
+                type: 'suspend',
+                performedBy: moderator.id,
+                performedAt: now,
+                note,
+            });
+            addToast('User suspended', 'success');
+        } catch (error: unknown) {
+            console.error('Error suspending user:', error);
+            addToast(getErrorMessage(error) || 'Failed to suspend user', 'error');
+        }
+    }, [addToast, moderator]);
+
+    return { handleSetReportStatus, handleWarnUser, handleMuteUser, handleRemoveFromGroup, handleSuspendUser };
+};
@@ -2,6 +2,7 @@ import { useCallback } from 'react';
 import { safeIngest } from '../utils/analyticsIngest';
 import { User, Goal } from '../types';
 import { getErrorMessage } from '../utils/errors';
+import { resolveTimeZone } from '../utils/timeZones';
 import { createGoal, updateUserProfileForSession } from '../services/database';
 
 export const useOnboardingActions = (
@@ -37,11 +38,14 @@ export const useOnboardingActions = (
                 company: formData.company,
                 bio: formData.bio,
                 skills: formData.skills,
+                expertise: formData.expertise,
+                industries: formData.industries,
                 linkedinUrl: formData.linkedinUrl,
                 phoneNumber: formData.phoneNumber,
                 maxMentees: maxMenteesValue,
                 acceptingNewMentees: true, // Default to accepting new mentees after onboarding
                 profileData: formData.customFieldData,
+                timezone: resolveTimeZone(formData.timezone || currentUser.timezone),
                 onboardingCompleted: true,
                 onboardingCompletedAt: new Date().toISOString(),
             };
@@ -112,10 +116,14 @@ export const useOnboardingActions = (
                 bio: formData.bio,
                 experience: formData.experience,
                 skills: formData.skillsToImprove || formData.areas,
+                skillsToImprove: formData.skillsToImprove || formData.areas,
+                preferredIndustries: formData.preferredIndustries,
+                mentorshipStyle: formData.mentorshipStyle,
                 goals: goalTitles,
                 linkedinUrl: formData.linkedinUrl,
                 phoneNumber: formData.phoneNumber,
                 profileData: formData.customFieldData,
+                timezone: resolveTimeZone(formData.timezone || currentUser.timezone),
                 onboardingCompleted: true,
                 onboardingCompletedAt: new Date().toISOString(),
             };
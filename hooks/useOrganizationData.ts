@@ -378,7 +378,7 @@ export const useOrganizationData = (
       );
       unsubscribesRef.current.push(unsubscribeInvitations);
 
-      // Subscribe to blog posts
+      // Subscribe to published blog posts (drafts are only readable by platform operators)
       const unsubscribeBlog = subscribeToBlogPosts((posts) => {
         setBlogPosts(posts);
         const currentCache = cache.get<any>(cacheKey) || {};
@@ -387,7 +387,7 @@ export const useOrganizationData = (
           { ...currentCache, blogPosts: posts },
           5 * 60 * 1000
         );
-      });
+      }, true);
       unsubscribesRef.current.push(unsubscribeBlog);
 
       // Subscribe to discussion guides
@@ -8,6 +8,16 @@
 
 import { CalendarEvent } from '../types';
 import { getCloudFunctionUrl } from './cloudFunctionsUrl';
+import { getBrowserTimeZone, getEventStart, utcToZonedDateTime } from '../utils/timeZones';
+
+/** Sync requests carry the caller's Firebase ID token; the server checks the plan of their organization. */
+const syncHeaders = async () => {
+  const { getFirebaseIdTokenForCloudFunctions } = await import('./googleAuth');
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${await getFirebaseIdTokenForCloudFunctions()}`,
+  };
+};
 
 export interface AppleCalendarCredentials {
   accessToken: string;
@@ -148,7 +158,7 @@ export const clearAppleCredentials = (userId: string): void => {
  * Convert CalendarEvent to iCal format (for CalDAV)
  */
 export const convertToAppleEvent = (event: CalendarEvent, meetLink?: string): AppleCalendarEvent => {
-  const startDateTime = new Date(`${event.date}T${event.startTime}`);
+  const startDateTime = getEventStart(event);
   const durationMinutes = parseDuration(event.duration);
   const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
 
@@ -175,12 +185,16 @@ export const convertFromAppleEvent = (
   const durationMs = end.getTime() - start.getTime();
   const durationMinutes = Math.round(durationMs / 60000);
   const duration = formatDuration(durationMinutes);
+  const timeZone = getBrowserTimeZone();
+  const { date, time } = utcToZonedDateTime(start, timeZone);
 
   return {
     organizationId,
     title: appleEvent.summary || 'Untitled Event',
-    date: start.toISOString().split('T')[0],
-    startTime: start.toTimeString().slice(0, 5),
+    date,
+    startTime: time,
+    timeZone,
+    startsAt: start.toISOString(),
     duration,
     type: appleEvent.url ? 'Virtual' : 'In-Person',
     googleMeetLink: appleEvent.url,
@@ -227,9 +241,7 @@ export const createAppleCalendarEvent = async (
 
   const response = await fetch(getCloudFunctionUrl('syncAppleCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'create',
       event: appleEvent,
@@ -260,9 +272,7 @@ export const updateAppleCalendarEvent = async (
 
   const response = await fetch(getCloudFunctionUrl('syncAppleCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'update',
       event: appleEvent,
@@ -285,9 +295,7 @@ export const deleteAppleCalendarEvent = async (
 ): Promise<void> => {
   const response = await fetch(getCloudFunctionUrl('syncAppleCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'delete',
       eventId: appleEventId,
@@ -316,9 +324,7 @@ export const syncFromAppleCalendar = async (
 
   const response = await fetch(getCloudFunctionUrl('syncAppleCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'list',
       credentials,
@@ -2,13 +2,15 @@
 // These allow users to add events directly to their calendars via browser/app links
 
 import { CalendarEvent } from '../types';
+import { getEventStart, resolveTimeZone } from '../utils/timeZones';
+import { formatICSLocalDateTime, getRecurrenceLines } from '../utils/recurrence';
 
 /**
  * Generate Google Calendar deep link URL
  * Opens Google Calendar in browser with pre-filled event details
  */
 export const generateGoogleCalendarLink = (event: CalendarEvent, meetLink?: string): string => {
-  const startDateTime = new Date(`${event.date}T${event.startTime}`);
+  const startDateTime = getEventStart(event);
   const durationMinutes = parseDuration(event.duration);
   const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
   
@@ -28,6 +30,12 @@ export const generateGoogleCalendarLink = (event: CalendarEvent, meetLink?: stri
   if (meetLink) {
     params.append('add', meetLink);
   }
+  if (isSeries(event)) {
+    getRecurrenceLines(event)
+      .filter((line) => line.startsWith('RRULE:'))
+      .forEach((line) => params.append('recur', line));
+    params.append('ctz', resolveTimeZone(event.timeZone));
+  }
 
   return `https://calendar.google.com/calendar/render?${params.toString()}`;
 };
@@ -37,7 +45,7 @@ export const generateGoogleCalendarLink = (event: CalendarEvent, meetLink?: stri
  * Opens Outlook Calendar in browser with pre-filled event details
  */
 export const generateOutlookCalendarLink = (event: CalendarEvent, meetLink?: string): string => {
-  const startDateTime = new Date(`${event.date}T${event.startTime}`);
+  const startDateTime = getEventStart(event);
   const durationMinutes = parseDuration(event.duration);
   const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
 
@@ -62,7 +70,7 @@ export const generateOutlookCalendarLink = (event: CalendarEvent, meetLink?: str
  * Can be used to download or open directly in Apple Calendar
  */
 export const generateAppleCalendarICS = (event: CalendarEvent, meetLink?: string): string => {
-  const startDateTime = new Date(`${event.date}T${event.startTime}`);
+  const startDateTime = getEventStart(event);
   const durationMinutes = parseDuration(event.duration);
   const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
   
@@ -82,11 +90,23 @@ export const generateAppleCalendarICS = (event: CalendarEvent, meetLink?: string
     'BEGIN:VEVENT',
     `UID:${uid}`,
     `DTSTAMP:${formatICSDate(now)}`,
-    `DTSTART:${formatICSDate(startDateTime)}`,
-    `DTEND:${formatICSDate(endDateTime)}`,
+  ];
+
+  if (isSeries(event)) {
+    // Recurring series repeat on the wall clock of their zone, so DTSTART/DTEND carry a TZID
+    const timeZone = resolveTimeZone(event.timeZone);
+    ics.push(`DTSTART;TZID=${timeZone}:${formatICSLocalDateTime(startDateTime, timeZone)}`);
+    ics.push(`DTEND;TZID=${timeZone}:${formatICSLocalDateTime(endDateTime, timeZone)}`);
+    ics.push(...getRecurrenceLines(event));
+  } else {
+    ics.push(`DTSTART:${formatICSDate(startDateTime)}`);
+    ics.push(`DTEND:${formatICSDate(endDateTime)}`);
+  }
+
+  ics.push(
     `SUMMARY:${escapeICS(event.title)}`,
     `DESCRIPTION:${escapeICS(`Meeting Type: ${event.type}${meetLink ? `\\n\\nJoin: ${meetLink}` : ''}`)}`,
-  ];
+  );
 
   if (meetLink) {
     ics.push(`URL:${meetLink}`);
@@ -139,6 +159,11 @@ export const openCalendarEvent = async (
   }
 };
 
+/**
+ * A stored recurring series; an expanded occurrence (occurrenceDate set) is exported on its own
+ */
+const isSeries = (event: CalendarEvent): boolean => !!event.recurrence && !event.occurrenceDate;
+
 /**
  * Parse duration string to minutes
  */
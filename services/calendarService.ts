@@ -1,6 +1,17 @@
 // Google Calendar API service for syncing events
 import { CalendarEvent } from '../types';
 import { getCloudFunctionUrl } from './cloudFunctionsUrl';
+import { getEventStart, resolveTimeZone, toEventTiming, utcToZonedDateTime } from '../utils/timeZones';
+import { getRecurrenceLines } from '../utils/recurrence';
+
+/** Sync requests carry the caller's Firebase ID token; the server checks the plan of their organization. */
+const syncHeaders = async () => {
+  const { getFirebaseIdTokenForCloudFunctions } = await import('./googleAuth');
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${await getFirebaseIdTokenForCloudFunctions()}`,
+  };
+};
 
 export interface GoogleCalendarCredentials {
   accessToken: string;
@@ -26,6 +37,7 @@ export interface GoogleCalendarEvent {
     email: string;
     displayName?: string;
   }>;
+  recurrence?: string[]; // RRULE/EXDATE lines for a recurring series
   conferenceData?: {
     createRequest: {
       requestId: string;
@@ -130,20 +142,21 @@ export const clearCalendarCredentials = (userId: string): void => {
  * Convert CalendarEvent to Google Calendar event format
  */
 export const convertToGoogleEvent = (event: CalendarEvent, meetLink?: string): GoogleCalendarEvent => {
-  const startDateTime = new Date(`${event.date}T${event.startTime}`);
+  const startDateTime = getEventStart(event);
   const durationMinutes = parseDuration(event.duration);
   const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
+  const timeZone = resolveTimeZone(event.timeZone);
 
   const googleEvent: GoogleCalendarEvent = {
     summary: event.title,
     description: `Meeting Type: ${event.type}${meetLink ? `\n\nJoin: ${meetLink}` : ''}`,
     start: {
       dateTime: startDateTime.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      timeZone,
     },
     end: {
       dateTime: endDateTime.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      timeZone,
     },
   };
 
@@ -151,6 +164,11 @@ export const convertToGoogleEvent = (event: CalendarEvent, meetLink?: string): G
     googleEvent.hangoutLink = meetLink;
   }
 
+  // Expanded occurrences go out as single events; only the stored series carries the rule
+  if (event.recurrence && !event.occurrenceDate) {
+    googleEvent.recurrence = getRecurrenceLines(event);
+  }
+
   return googleEvent;
 };
 
@@ -173,12 +191,16 @@ export const convertFromGoogleEvent = (
   const durationMs = end.getTime() - start.getTime();
   const durationMinutes = Math.round(durationMs / 60000);
   const duration = formatDuration(durationMinutes);
+  // All-day events have no instant; keep their calendar date at midnight in the event's zone
+  const timeZone = resolveTimeZone(googleEvent.start.timeZone);
+  const { date, time } = googleEvent.start.dateTime
+    ? utcToZonedDateTime(start, timeZone)
+    : { date: googleEvent.start.date!, time: '00:00' };
 
   return {
     organizationId,
     title: googleEvent.summary || 'Untitled Event',
-    date: start.toISOString().split('T')[0],
-    startTime: start.toTimeString().slice(0, 5),
+    ...toEventTiming(date, time, timeZone),
     duration,
     type: googleEvent.hangoutLink ? 'Virtual' : 'In-Person',
     googleMeetLink: googleEvent.hangoutLink,
@@ -225,9 +247,7 @@ export const createGoogleCalendarEvent = async (
 
   const response = await fetch(getCloudFunctionUrl('syncCalendarEvent'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'create',
       event: googleEvent,
@@ -258,9 +278,7 @@ export const updateGoogleCalendarEvent = async (
 
   const response = await fetch(getCloudFunctionUrl('syncCalendarEvent'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'update',
       event: googleEvent,
@@ -283,9 +301,7 @@ export const deleteGoogleCalendarEvent = async (
 ): Promise<void> => {
   const response = await fetch(getCloudFunctionUrl('syncCalendarEvent'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'delete',
       eventId: googleEventId,
@@ -314,9 +330,7 @@ export const syncFromGoogleCalendar = async (
 
   const response = await fetch(getCloudFunctionUrl('syncCalendarEvent'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'list',
       accessToken: credentials.accessToken,
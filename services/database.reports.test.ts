@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const setDocMock = vi.fn().mockResolvedValue(undefined);
+const updateDocMock = vi.fn().mockResolvedValue(undefined);
+const onSnapshotMock = vi.fn();
+
+vi.mock("firebase/firestore", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("firebase/firestore")>();
+  return {
+    ...mod,
+    collection: vi.fn((_db: unknown, name: string) => ({ id: name })),
+    doc: vi.fn((parent: { id: string }, name?: string, id?: string) =>
+      name ? { id, path: `${name}/${id}`, parent: { id: name } } : { id: "new-report", path: `${parent.id}/new-report`, parent }
+    ),
+    query: vi.fn((...args: unknown[]) => args),
+    where: vi.fn((...args: unknown[]) => ["where", ...args]),
+    orderBy: vi.fn((...args: unknown[]) => ["orderBy", ...args]),
+    limit: vi.fn((n: number) => ["limit", n]),
+    onSnapshot: (...args: unknown[]) => onSnapshotMock(...args),
+  };
+});
+
+vi.mock("./impersonationWrites", () => ({
+  setDoc: (...args: unknown[]) => setDocMock(...args),
+  updateDoc: (...args: unknown[]) => updateDocMock(...args),
+  deleteDoc: vi.fn(),
+}));
+
+vi.mock("./firebase", () => ({
+  auth: { currentUser: null },
+  db: {},
+}));
+
+vi.mock("./logger", () => ({
+  logger: { error: vi.fn(), info: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import { arrayUnion, Timestamp } from "firebase/firestore";
+import { addReportAction, createReport, subscribeToReportsByOrganization, updateReport } from "./database";
+
+describe("report (moderation) operations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("files new reports as open with no actions and drops undefined fields", async () => {
+    const id = await createReport({
+      organizationId: "org-1",
+      reporterId: "user-1",
+      reportedId: "user-2",
+      reason: "Spam",
+      description: "Links",
+      chatId: undefined,
+    });
+
+    expect(id).toBe("new-report");
+    const [ref, data] = setDocMock.mock.calls[0];
+    expect(ref.path).toBe("reports/new-report");
+    expect(data).toMatchObject({ reason: "Spam", status: "open", actions: [] });
+    expect(data).not.toHaveProperty("chatId");
+    expect(data.timestamp).toBeInstanceOf(Timestamp);
+  });
+
+  it("stamps status changes with updatedAt", async () => {
+    await updateReport("report-1", { status: "investigating", resolutionNote: undefined, updatedBy: "admin-1" });
+
+    const [ref, data] = updateDocMock.mock.calls[0];
+    expect(ref.path).toBe("reports/report-1");
+    expect(data).toMatchObject({ status: "investigating", updatedBy: "admin-1" });
+    expect(data).not.toHaveProperty("resolutionNote");
+    expect(data.updatedAt).toBeInstanceOf(Timestamp);
+  });
+
+  it("appends actions to the history and marks the report actioned", async () => {
+    await addReportAction("report-1", {
+      type: "mute",
+      performedBy: "admin-1",
+      performedAt: "2026-03-01T12:00:00.000Z",
+      mutedUntil: "2026-03-02T12:00:00.000Z",
+      note: undefined,
+    });
+
+    const [, data] = updateDocMock.mock.calls[0];
+    expect(data).toMatchObject({ status: "actioned", updatedBy: "admin-1" });
+    const expectedAction = arrayUnion({
+      type: "mute",
+      performedBy: "admin-1",
+      performedAt: "2026-03-01T12:00:00.000Z",
+      mutedUntil: "2026-03-02T12:00:00.000Z",
+    });
+    expect(data.actions.isEqual(expectedAction)).toBe(true);
+  });
+
+  it("converts report timestamps and falls back to an empty queue on listener errors", () => {
+    const callback = vi.fn();
+    subscribeToReportsByOrganization("org-1", callback);
+    const [, onNext, onError] = onSnapshotMock.mock.calls[0];
+
+    onNext({
+      docs: [
+        {
+          id: "report-1",
+          data: () => ({ reason: "Spam", status: "open", timestamp: Timestamp.fromDate(new Date("2026-03-01T10:00:00.000Z")) }),
+        },
+      ],
+    });
+    expect(callback).toHaveBeenLastCalledWith([
+      expect.objectContaining({ id: "report-1", timestamp: "2026-03-01T10:00:00.000Z", updatedAt: undefined }),
+    ]);
+
+    onError(new Error("boom"));
+    expect(callback).toHaveBeenLastCalledWith([]);
+  });
+});
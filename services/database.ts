@@ -3,9 +3,6 @@ import {
   doc,
   getDoc,
   getDocs,
-  setDoc,
-  updateDoc,
-  deleteDoc,
   query,
   where,
   Timestamp,
@@ -18,6 +15,7 @@ import {
   QueryDocumentSnapshot,
   Unsubscribe,
   increment,
+  arrayUnion,
   type DocumentData,
   type FirestoreError,
   type Query,
@@ -76,10 +74,21 @@ import {
   ChatMessage,
   ChatGroup,
   BlogPost,
+  BlogPostRevision,
   DiscussionGuide,
   CareerTemplate,
   TrainingVideo,
   PrivateMessageRequest,
+  ReportRecord,
+  ModerationAction,
+  BlockRecord,
+  ImpersonationSession,
+  AuditLogEntry,
+  EmailLogEntry,
+  EmailTemplateKey,
+  EmailTemplateOverride,
+  BusyInterval,
+  CalendarBusyTimes,
 } from "../types";
 import {
   getErrorCode,
@@ -88,6 +97,13 @@ import {
   isFirestorePermissionDenied,
 } from "../utils/errors";
 import { auth } from "./firebase";
+import { getBlockDocId } from "../utils/blocking";
+import { isParticipantRole } from "../utils/entitlements";
+import { getEventStart, resolveTimeZone, toEventTiming } from "../utils/timeZones";
+import { sanitizeHtml } from "../utils/sanitizeHtml";
+import { getBlogPostStatus } from "../utils/blogPosts";
+import { getInvitationExpiry } from "../utils/invitations";
+import { setDoc, updateDoc, deleteDoc } from "./impersonationWrites";
 
 function logFirestoreListenerError(
   label: string,
@@ -313,6 +329,23 @@ export const updateOrganization = async (
   await updateDoc(orgRef, updates);
 };
 
+/** Emails the signed-in org admin a draft template filled with sample values. */
+export const sendEmailTemplateTest = async (
+  templateKey: EmailTemplateKey,
+  override: EmailTemplateOverride
+): Promise<string> => {
+  const { getFunctions, httpsCallable } = await import("firebase/functions");
+  const { default: firebaseApp } = await import("./firebase");
+  const functions = getFunctions(firebaseApp, "us-central1");
+  const sendTest = httpsCallable(functions, "sendEmailTemplateTest");
+  try {
+    const result = await sendTest({ templateKey, override });
+    return (result.data as { sentTo: string }).sentTo;
+  } catch (error) {
+    throw new Error(getErrorMessage(error) || "Failed to send test email");
+  }
+};
+
 export const getAllOrganizations = async (): Promise<Organization[]> => {
   try {
     // Try with orderBy first, but fallback to no orderBy if index missing
@@ -395,6 +428,18 @@ function userFromFirestoreDoc(
 export const createUser = async (
   userData: Omit<User, "id" | "createdAt">
 ): Promise<string> => {
+  if (isParticipantRole(userData.role)) {
+    // Mirrors the participant limit check in firestore.rules so callers get a readable error
+    const org = await getOrganization(userData.organizationId);
+    if (
+      org?.participantLimit != null &&
+      (org.participantCount ?? 0) >= org.participantLimit
+    ) {
+      throw new Error(
+        "This program has reached its participant limit. Ask an organization admin to upgrade the plan."
+      );
+    }
+  }
   const userRef = doc(collection(db, "users"));
   await setDoc(userRef, {
     ...userData,
@@ -1003,7 +1048,7 @@ export const createGoal = async (
   goalData: Omit<Goal, "id">
 ): Promise<string> => {
   const goalRef = doc(collection(db, "goals"));
-  await setDoc(goalRef, goalData);
+  await setDoc(goalRef, { ...goalData, updatedAt: new Date().toISOString() });
   return goalRef.id;
 };
 
@@ -1046,7 +1091,7 @@ export const updateGoal = async (
   updates: Partial<Goal>
 ): Promise<void> => {
   const goalRef = doc(db, "goals", goalId);
-  await updateDoc(goalRef, updates);
+  await updateDoc(goalRef, { ...updates, updatedAt: new Date().toISOString() });
 };
 
 export const deleteGoal = async (goalId: string): Promise<void> => {
@@ -1295,14 +1340,50 @@ export const deleteResource = async (resourceId: string): Promise<void> => {
 // ==================== BLOG POST OPERATIONS ====================
 // Blog posts are platform-wide (no organizationId)
 
+const withoutUndefined = <T extends object>(data: T): Partial<T> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+// Every save is also kept under blogPosts/{postId}/revisions for ManageBlog's history
+const addBlogPostRevision = async (postId: string, post: Partial<BlogPost>): Promise<void> => {
+  const revision: Omit<BlogPostRevision, "id" | "createdAt"> = {
+    title: post.title || "",
+    excerpt: post.excerpt || "",
+    content: post.content || "",
+    category: post.category || "",
+    tags: post.tags || [],
+    imageUrl: post.imageUrl || "",
+    authorName: post.authorName || "",
+    status: getBlogPostStatus({ status: post.status, published: !!post.published }),
+    publishAt: post.publishAt,
+    editedBy: post.lastEditedBy ?? { id: "", name: "Unknown" },
+  };
+  await setDoc(doc(collection(db, "blogPosts", postId, "revisions")), {
+    ...withoutUndefined(revision),
+    createdAt: Timestamp.now(),
+  });
+};
+
+const toBlogPost = (id: string, data: DocumentData): BlogPost =>
+  ({
+    id,
+    ...data,
+    createdAt: convertTimestamp(data.createdAt),
+    ...(data.updatedAt ? { updatedAt: convertTimestamp(data.updatedAt) } : {}),
+  }) as BlogPost;
+
 export const createBlogPost = async (
   postData: Omit<BlogPost, "id" | "createdAt">
 ): Promise<string> => {
   const postRef = doc(collection(db, "blogPosts"));
-  await setDoc(postRef, {
+  const post = withoutUndefined({
     ...postData,
+    content: sanitizeHtml(postData.content),
+  });
+  await setDoc(postRef, {
+    ...post,
     createdAt: Timestamp.now(),
   });
+  await addBlogPostRevision(postRef.id, post);
   return postRef.id;
 };
 
@@ -1327,11 +1408,7 @@ export const getBlogPosts = async (
     if (!data || typeof data !== 'object') {
       throw new Error(`Invalid blog post data for document ${doc.id}`);
     }
-    return {
-      id: doc.id,
-      ...(data as Record<string, unknown>),
-      createdAt: convertTimestamp((data as Record<string, unknown>).createdAt),
-    } as BlogPost;
+    return toBlogPost(doc.id, data);
   });
 };
 
@@ -1340,14 +1417,42 @@ export const updateBlogPost = async (
   updates: Partial<BlogPost>
 ): Promise<void> => {
   const postRef = doc(db, "blogPosts", postId);
-  await updateDoc(postRef, updates);
+  const cleanUpdates = withoutUndefined(
+    updates.content === undefined ? updates : { ...updates, content: sanitizeHtml(updates.content) }
+  );
+  const current = await getDoc(postRef);
+  await updateDoc(postRef, { ...cleanUpdates, updatedAt: Timestamp.now() });
+  await addBlogPostRevision(postId, { ...(current.data() as Partial<BlogPost>), ...cleanUpdates });
 };
 
 export const deleteBlogPost = async (postId: string): Promise<void> => {
   const postRef = doc(db, "blogPosts", postId);
+  const revisions = await getDocs(collection(db, "blogPosts", postId, "revisions"));
+  for (const revision of revisions.docs) {
+    await deleteDoc(revision.ref);
+  }
   await deleteDoc(postRef);
 };
 
+/** Newest first; the first entry is the currently saved version. */
+export const getBlogPostRevisions = async (
+  postId: string,
+  pageSize: number = 50
+): Promise<BlogPostRevision[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "blogPosts", postId, "revisions"),
+      orderBy("createdAt", "desc"),
+      firestoreLimit(pageSize)
+    )
+  );
+  return snapshot.docs.map((revision) => ({
+    id: revision.id,
+    ...revision.data(),
+    createdAt: convertTimestamp(revision.data().createdAt),
+  })) as BlogPostRevision[];
+};
+
 // ==================== DISCUSSION GUIDE OPERATIONS ====================
 
 export const createDiscussionGuide = async (
@@ -1356,6 +1461,7 @@ export const createDiscussionGuide = async (
   const guideRef = doc(collection(db, "discussionGuides"));
   await setDoc(guideRef, {
     ...guideData,
+    content: sanitizeHtml(guideData.content),
     createdAt: Timestamp.now(),
   });
   return guideRef.id;
@@ -1405,7 +1511,10 @@ export const updateDiscussionGuide = async (
   updates: Partial<DiscussionGuide>
 ): Promise<void> => {
   const guideRef = doc(db, "discussionGuides", guideId);
-  await updateDoc(guideRef, updates);
+  await updateDoc(
+    guideRef,
+    updates.content === undefined ? updates : { ...updates, content: sanitizeHtml(updates.content) }
+  );
 };
 
 export const deleteDiscussionGuide = async (guideId: string): Promise<void> => {
@@ -1424,6 +1533,7 @@ export const createCareerTemplate = async (
   );
   await setDoc(templateRef, {
     ...cleanData,
+    content: sanitizeHtml(templateData.content),
     createdAt: Timestamp.now(),
   });
   return templateRef.id;
@@ -1478,6 +1588,9 @@ export const updateCareerTemplate = async (
   if (Object.keys(cleanUpdates).length === 0) {
     return;
   }
+  if (typeof cleanUpdates.content === "string") {
+    cleanUpdates.content = sanitizeHtml(cleanUpdates.content);
+  }
   const templateRef = doc(db, "careerTemplates", templateId);
   await updateDoc(templateRef, cleanUpdates);
 };
@@ -1568,6 +1681,19 @@ export const deleteTrainingVideo = async (videoId: string): Promise<void> => {
 export const createCalendarEvent = async (
   eventData: Omit<CalendarEvent, "id" | "createdAt">
 ): Promise<string> => {
+  // Don't let anyone schedule with a user they have blocked or been blocked by
+  if (eventData.createdBy) {
+    const inviteeIds = new Set(
+      [...(eventData.participants || []), eventData.mentorId, eventData.menteeId].filter(
+        (id): id is string => !!id && id !== eventData.createdBy
+      )
+    );
+    for (const inviteeId of inviteeIds) {
+      if (await hasBlockBetween(eventData.createdBy, inviteeId)) {
+        throw new Error("This event includes a participant you can't schedule with.");
+      }
+    }
+  }
   const eventRef = doc(collection(db, "calendarEvents"));
   // Filter out undefined values - Firestore doesn't allow them
   const cleanData = Object.fromEntries(
@@ -1575,6 +1701,8 @@ export const createCalendarEvent = async (
   );
   await setDoc(eventRef, {
     ...cleanData,
+    // Pin the wall clock to a zone and store the UTC instant so every viewer sees the same moment
+    ...toEventTiming(eventData.date, eventData.startTime, resolveTimeZone(eventData.timeZone)),
     createdAt: Timestamp.now(),
   });
   return eventRef.id;
@@ -1651,6 +1779,21 @@ export const updateCalendarEvent = async (
   updates: Partial<CalendarEvent>
 ): Promise<void> => {
   const eventRef = doc(db, "calendarEvents", eventId);
+  if (updates.date || updates.startTime || updates.timeZone) {
+    // Recompute startsAt from the full wall clock, filling in whatever the update leaves out
+    const existing =
+      updates.date && updates.startTime && updates.timeZone
+        ? null
+        : await getCalendarEvent(eventId);
+    const date = updates.date || existing?.date;
+    const startTime = updates.startTime || existing?.startTime;
+    if (date && startTime) {
+      updates = {
+        ...updates,
+        ...toEventTiming(date, startTime, resolveTimeZone(updates.timeZone || existing?.timeZone)),
+      };
+    }
+  }
   await updateDoc(eventRef, updates);
 };
 
@@ -1730,8 +1873,7 @@ export const getAllCalendarEvents = async (
     // Filter to only include past events (completed meetings) with a mentorId
     const now = new Date();
     events = events.filter((e) => {
-      const eventDate = new Date(`${e.date}T${e.startTime}`);
-      return eventDate < now && e.mentorId; // Only include events with a mentor
+      return getEventStart(e) < now && e.mentorId; // Only include events with a mentor
     });
 
     return events;
@@ -1741,6 +1883,58 @@ export const getAllCalendarEvents = async (
   }
 };
 
+/**
+ * Publish the user's connected-calendar busy intervals so mentees can book around them.
+ * Only start/end instants are stored; titles and details stay in the user's own calendar.
+ */
+export const saveBusyTimes = async (
+  userId: string,
+  organizationId: string,
+  intervals: BusyInterval[]
+): Promise<void> => {
+  await setDoc(doc(db, "busyTimes", userId), {
+    userId,
+    organizationId,
+    intervals,
+    updatedAt: Timestamp.now(),
+  });
+};
+
+export const getBusyTimes = async (userId: string): Promise<CalendarBusyTimes | null> => {
+  const snap = await getDoc(doc(db, "busyTimes", userId));
+  if (!snap.exists()) return null;
+  const data = snap.data();
+  return {
+    userId,
+    organizationId: data.organizationId,
+    intervals: data.intervals || [],
+    updatedAt: convertTimestamp(data.updatedAt),
+  };
+};
+
+/**
+ * Book one of a mentor's availability slots as their mentee. The server re-checks the slot and
+ * creates the event, Meet link and both notifications together, or fails if the slot was taken.
+ */
+export const bookMentorSession = async (input: {
+  mentorId: string;
+  menteeId: string;
+  startsAt: string;
+  title?: string;
+  notes?: string;
+}): Promise<CalendarEvent> => {
+  const { getFunctions, httpsCallable } = await import("firebase/functions");
+  const { default: firebaseApp } = await import("./firebase");
+  const functions = getFunctions(firebaseApp, "us-central1");
+  const book = httpsCallable(functions, "bookMentorSession");
+  try {
+    const result = await book(input);
+    return result.data as CalendarEvent;
+  } catch (error) {
+    throw new Error(getErrorMessage(error) || "Failed to book session");
+  }
+};
+
 // ==================== NOTIFICATION OPERATIONS ====================
 
 export const createNotification = async (
@@ -1825,9 +2019,8 @@ export const createInvitation = async (
     ...invitationData,
     token,
     invitationLink,
-    expiresAt:
-      invitationData.expiresAt ||
-      new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // Default 30 days
+    // Callers pass getInvitationExpiry(organization) to apply the org's setting
+    expiresAt: invitationData.expiresAt || getInvitationExpiry(null),
   });
   return token;
 };
@@ -2007,6 +2200,52 @@ export const updateInvitation = async (
   await updateDoc(invitationRef, updates);
 };
 
+/**
+ * Records the first time an invite link is opened, for the acceptance funnel. Best effort: the
+ * invitee may be anonymous, and firestore.rules only lets them set openedAt once.
+ */
+export const markInvitationOpened = async (invitation: Invitation): Promise<void> => {
+  if (invitation.openedAt) return;
+  try {
+    await updateInvitation(invitation.id, { openedAt: new Date().toISOString() });
+  } catch (error) {
+    logger.warn("markInvitationOpened failed", error);
+  }
+};
+
+/** Kills the invite link; a revoked invite can't be accepted or re-sent. */
+export const revokeInvitation = async (invitationId: string, revokedBy: string): Promise<void> => {
+  await updateInvitation(invitationId, {
+    status: "Revoked",
+    revokedAt: new Date().toISOString(),
+    revokedBy,
+  });
+};
+
+/**
+ * Email/password sign-up from an invitation. The server claims the token before it creates the
+ * profile, so each invitation is used once (see functions/src/invitations.ts); sign in afterwards.
+ */
+export const signUpWithInvitation = async (input: {
+  token: string;
+  name: string;
+  email: string;
+  password: string;
+}): Promise<{ uid: string; organizationId: string }> => {
+  const { getFunctions, httpsCallable } = await import("firebase/functions");
+  const { default: firebaseApp } = await import("./firebase");
+  const functions = getFunctions(firebaseApp, "us-central1");
+  const signUp = httpsCallable<typeof input, { uid: string; organizationId: string }>(
+    functions,
+    "signUpWithInvitation"
+  );
+  try {
+    return (await signUp(input)).data;
+  } catch (error) {
+    throw new Error(getErrorMessage(error) || "Failed to accept invitation");
+  }
+};
+
 // ==================== REAL-TIME LISTENERS ====================
 
 export const subscribeToUser = (
@@ -2329,11 +2568,7 @@ export const subscribeToBlogPosts = (
   return onSnapshot(
     q,
     (snapshot: QuerySnapshot) => {
-      const posts = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-        createdAt: convertTimestamp(doc.data().createdAt),
-      })) as BlogPost[];
+      const posts = snapshot.docs.map((doc) => toBlogPost(doc.id, doc.data()));
       callback(posts);
     },
     (error) => {
@@ -3114,13 +3349,17 @@ export const subscribeToDMMessages = (
   let query2HasFired = false;
   // Fix 2: Accept cache for initial load to avoid empty flash on navigation
   let hasReceivedServerSnapshot = false;
+  // If the current user blocked the partner, hide the partner's messages sent after the block
+  let blockedSince: string | null = null;
 
   const mergeAndCallback = (forceCall = false) => {
     if (isUnsubscribed) return;
     // Fix 1: Don't callback until BOTH queries have fired (unless forceCall for errors)
     if (!forceCall && (!query1HasFired || !query2HasFired)) return;
 
-    const mergedMessages = Array.from(messagesMap.values());
+    const mergedMessages = Array.from(messagesMap.values()).filter(
+      (m) => !blockedSince || m.senderId !== partnerId || m.timestamp < blockedSince
+    );
     mergedMessages.sort((a, b) => {
       const aTime = new Date(a.timestamp).getTime();
       const bTime = new Date(b.timestamp).getTime();
@@ -3140,6 +3379,20 @@ export const subscribeToDMMessages = (
     return () => {}; // Return no-op unsubscribe
   }
 
+  // One-off read (not a listener): callers re-subscribe when the block list changes
+  getDoc(doc(db, "blocks", getBlockDocId(currentUserId, partnerId)))
+    .then((blockSnap) => {
+      if (!blockSnap.exists()) return;
+      blockedSince = convertTimestamp(blockSnap.data().createdAt);
+      mergeAndCallback();
+    })
+    .catch((error) => {
+      logFirestoreListenerError("Error checking DM block status", error, {
+        partnerId,
+        currentUserId,
+      });
+    });
+
   try {
     // Create first listener with enhanced error handling
     unsubscribe1 = onSnapshot(q1, {
@@ -3580,6 +3833,9 @@ export const subscribeToTypingStatus = (
 export const createPrivateMessageRequest = async (
   requestData: Omit<PrivateMessageRequest, "id" | "createdAt">
 ): Promise<string> => {
+  if (await hasBlockBetween(requestData.requesterId, requestData.recipientId)) {
+    throw new Error("You can't send a message request to this user.");
+  }
   const requestRef = doc(collection(db, "privateMessageRequests"));
   await setDoc(requestRef, {
     ...requestData,
@@ -3714,6 +3970,373 @@ export const getApprovedPrivateMessagePartners = async (
   return Array.from(partnerIds);
 };
 
+// ==================== BLOCK OPERATIONS ====================
+
+function blockFromFirestoreDoc(
+  docSnap: QueryDocumentSnapshot | DocumentSnapshot
+): BlockRecord {
+  const data = docSnap.data() || {};
+  return {
+    ...data,
+    id: docSnap.id,
+    createdAt: convertTimestamp(data.createdAt),
+  } as BlockRecord;
+}
+
+export const blockUser = async (
+  organizationId: string,
+  blockerId: string,
+  blockedId: string
+): Promise<void> => {
+  const blockRef = doc(db, "blocks", getBlockDocId(blockerId, blockedId));
+  await setDoc(blockRef, {
+    organizationId,
+    blockerId,
+    blockedId,
+    createdAt: Timestamp.now(),
+  });
+};
+
+export const unblockUser = async (
+  blockerId: string,
+  blockedId: string
+): Promise<void> => {
+  await deleteDoc(doc(db, "blocks", getBlockDocId(blockerId, blockedId)));
+};
+
+/** True when either user has blocked the other. */
+export const hasBlockBetween = async (
+  userA: string,
+  userB: string
+): Promise<boolean> => {
+  const [aBlockedB, bBlockedA] = await Promise.all([
+    getDoc(doc(db, "blocks", getBlockDocId(userA, userB))),
+    getDoc(doc(db, "blocks", getBlockDocId(userB, userA))),
+  ]);
+  return aBlockedB.exists() || bBlockedA.exists();
+};
+
+/**
+ * Blocks involving a user in either direction (blocks they made and blocks against them).
+ * Merges two queries since Firestore can't OR across fields here.
+ */
+export const subscribeToBlocksForUser = (
+  userId: string,
+  organizationId: string,
+  callback: (blocks: BlockRecord[]) => void
+): Unsubscribe => {
+  let byUser: BlockRecord[] = [];
+  let againstUser: BlockRecord[] = [];
+  const emit = () => callback([...byUser, ...againstUser]);
+
+  const unsubscribeByUser = onSnapshot(
+    query(
+      collection(db, "blocks"),
+      where("organizationId", "==", organizationId),
+      where("blockerId", "==", userId)
+    ),
+    (snapshot: QuerySnapshot) => {
+      byUser = snapshot.docs.map((d) => blockFromFirestoreDoc(d));
+      emit();
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to blocks by user", error, {
+        userId,
+        organizationId,
+      });
+      byUser = [];
+      emit();
+    }
+  );
+  const unsubscribeAgainstUser = onSnapshot(
+    query(
+      collection(db, "blocks"),
+      where("organizationId", "==", organizationId),
+      where("blockedId", "==", userId)
+    ),
+    (snapshot: QuerySnapshot) => {
+      againstUser = snapshot.docs.map((d) => blockFromFirestoreDoc(d));
+      emit();
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to blocks against user", error, {
+        userId,
+        organizationId,
+      });
+      againstUser = [];
+      emit();
+    }
+  );
+
+  return () => {
+    unsubscribeByUser();
+    unsubscribeAgainstUser();
+  };
+};
+
+/** All blocks in an organization (org admins, e.g. to keep blocked pairs off the matching bench). */
+export const subscribeToBlocksByOrganization = (
+  organizationId: string,
+  callback: (blocks: BlockRecord[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, "blocks"),
+    where("organizationId", "==", organizationId)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot) => {
+      callback(snapshot.docs.map((d) => blockFromFirestoreDoc(d)));
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to organization blocks", error, {
+        organizationId,
+      });
+      callback([]);
+    }
+  );
+};
+
+// ==================== REPORT (MODERATION) OPERATIONS ====================
+
+function reportFromFirestoreDoc(
+  docSnap: QueryDocumentSnapshot | DocumentSnapshot
+): ReportRecord {
+  const data = docSnap.data() || {};
+  return {
+    ...data,
+    id: docSnap.id,
+    timestamp: convertTimestamp(data.timestamp),
+    updatedAt: data.updatedAt ? convertTimestamp(data.updatedAt) : undefined,
+  } as ReportRecord;
+}
+
+/** File a user report. Reports always start in the "open" triage state. */
+export const createReport = async (
+  reportData: Omit<ReportRecord, "id" | "timestamp" | "status" | "actions">
+): Promise<string> => {
+  const reportRef = doc(collection(db, "reports"));
+  const cleanData = Object.fromEntries(
+    Object.entries(reportData).filter(([_, value]) => value !== undefined)
+  );
+  await setDoc(reportRef, {
+    ...cleanData,
+    status: "open",
+    actions: [],
+    timestamp: Timestamp.now(),
+  });
+  return reportRef.id;
+};
+
+export const updateReport = async (
+  reportId: string,
+  updates: Partial<Omit<ReportRecord, "id" | "timestamp" | "actions">>
+): Promise<void> => {
+  const reportRef = doc(db, "reports", reportId);
+  const cleanData = Object.fromEntries(
+    Object.entries(updates).filter(([_, value]) => value !== undefined)
+  );
+  await updateDoc(reportRef, {
+    ...cleanData,
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/** Append a moderation action to the report's history and mark it actioned. */
+export const addReportAction = async (
+  reportId: string,
+  action: ModerationAction
+): Promise<void> => {
+  const reportRef = doc(db, "reports", reportId);
+  const cleanAction = Object.fromEntries(
+    Object.entries(action).filter(([_, value]) => value !== undefined)
+  );
+  await updateDoc(reportRef, {
+    actions: arrayUnion(cleanAction),
+    status: "actioned",
+    updatedBy: action.performedBy,
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/** Moderation queue for an organization (org admins). */
+export const subscribeToReportsByOrganization = (
+  organizationId: string,
+  callback: (reports: ReportRecord[]) => void,
+  pageSize: number = 100
+): Unsubscribe => {
+  const q = query(
+    collection(db, "reports"),
+    where("organizationId", "==", organizationId),
+    orderBy("timestamp", "desc"),
+    firestoreLimit(pageSize)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot) => {
+      callback(snapshot.docs.map((d) => reportFromFirestoreDoc(d)));
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to reports", error, {
+        organizationId,
+      });
+      if (isFirestoreIndexError(error)) {
+        logger.info(FIRESTORE_INDEX_HINT);
+      }
+      callback([]);
+    }
+  );
+};
+
+/** Moderation queue across all organizations (platform operators). */
+export const subscribeToAllReports = (
+  callback: (reports: ReportRecord[]) => void,
+  pageSize: number = 200
+): Unsubscribe => {
+  const q = query(
+    collection(db, "reports"),
+    orderBy("timestamp", "desc"),
+    firestoreLimit(pageSize)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot) => {
+      callback(snapshot.docs.map((d) => reportFromFirestoreDoc(d)));
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to all reports", error);
+      callback([]);
+    }
+  );
+};
+
+// ==================== IMPERSONATION AUDIT OPERATIONS ====================
+
+function impersonationSessionFromFirestoreDoc(
+  docSnap: QueryDocumentSnapshot | DocumentSnapshot
+): ImpersonationSession {
+  const data = docSnap.data() || {};
+  return {
+    ...data,
+    id: docSnap.id,
+    startedAt: convertTimestamp(data.startedAt),
+    expiresAt: convertTimestamp(data.expiresAt),
+    endedAt: data.endedAt ? convertTimestamp(data.endedAt) : null,
+  } as ImpersonationSession;
+}
+
+/** Support sessions where a platform operator acted as someone in this organization. */
+export const subscribeToImpersonationSessionsByOrganization = (
+  organizationId: string,
+  callback: (sessions: ImpersonationSession[]) => void,
+  pageSize: number = 50
+): Unsubscribe => {
+  const q = query(
+    collection(db, "impersonationSessions"),
+    where("organizationId", "==", organizationId),
+    orderBy("startedAt", "desc"),
+    firestoreLimit(pageSize)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot) => {
+      callback(snapshot.docs.map((d) => impersonationSessionFromFirestoreDoc(d)));
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to impersonation sessions", error, {
+        organizationId,
+      });
+      if (isFirestoreIndexError(error)) {
+        logger.info(FIRESTORE_INDEX_HINT);
+      }
+      callback([]);
+    }
+  );
+};
+
+/** Audit entries (session start/end and every write) recorded for this organization. */
+export const subscribeToAuditLogByOrganization = (
+  organizationId: string,
+  callback: (entries: AuditLogEntry[]) => void,
+  pageSize: number = 500
+): Unsubscribe => {
+  const q = query(
+    collection(db, "auditLog"),
+    where("organizationId", "==", organizationId),
+    orderBy("createdAt", "desc"),
+    firestoreLimit(pageSize)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot) => {
+      callback(
+        snapshot.docs.map((d) => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            createdAt: convertTimestamp(data.createdAt),
+          } as AuditLogEntry;
+        })
+      );
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to audit log", error, {
+        organizationId,
+      });
+      if (isFirestoreIndexError(error)) {
+        logger.info(FIRESTORE_INDEX_HINT);
+      }
+      callback([]);
+    }
+  );
+};
+
+/** Emails sent to this organization's members, newest first, with delivery status. */
+export const subscribeToEmailLogByOrganization = (
+  organizationId: string,
+  callback: (entries: EmailLogEntry[]) => void,
+  pageSize: number = 200
+): Unsubscribe => {
+  const q = query(
+    collection(db, "emailLog"),
+    where("organizationId", "==", organizationId),
+    orderBy("createdAt", "desc"),
+    firestoreLimit(pageSize)
+  );
+
+  return onSnapshot(
+    q,
+    (snapshot: QuerySnapshot) => {
+      callback(
+        snapshot.docs.map((d) => {
+          const data = d.data();
+          return {
+            ...data,
+            id: d.id,
+            createdAt: convertTimestamp(data.createdAt),
+            updatedAt: convertTimestamp(data.updatedAt),
+          } as EmailLogEntry;
+        })
+      );
+    },
+    (error) => {
+      logFirestoreListenerError("Error subscribing to email log", error, {
+        organizationId,
+      });
+      if (isFirestoreIndexError(error)) {
+        logger.info(FIRESTORE_INDEX_HINT);
+      }
+      callback([]);
+    }
+  );
+};
+
 // ==================== HELPER FUNCTIONS ====================
 
 const generateOrganizationCode = (): string => {
@@ -1,5 +1,6 @@
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { deleteField, doc, getDoc } from 'firebase/firestore';
 import { db } from './firebase';
+import { updateDoc } from './impersonationWrites';
 
 export interface DeviceInfo {
   deviceId: string;
@@ -248,10 +249,15 @@ export async function removeDevice(userId: string, deviceId: string): Promise<vo
     const devices: DeviceInfo[] = userData.devices || [];
     
     // Remove the device
+    const removed = devices.find(d => d.deviceId === deviceId);
     const updatedDevices = devices.filter(d => d.deviceId !== deviceId);
     
+    // The legacy fcmToken mirrors the last registered device; drop it too so a revoked
+    // device can't keep receiving pushes through it
+    const clearsLegacyToken = !!removed?.fcmToken && userData.fcmToken === removed.fcmToken;
     await updateDoc(userRef, {
       devices: updatedDevices,
+      ...(clearsLegacyToken && { fcmToken: deleteField(), fcmTokenUpdatedAt: deleteField() }),
     });
   } catch (error) {
     console.error('Error removing device:', error);
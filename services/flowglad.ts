@@ -59,8 +59,8 @@ export const createCheckoutSession = async (
             organizationName,
             adminEmail,
             priceId,
-            successUrl: `${window.location.origin}/settings?tab=billing&checkout=success`,
-            cancelUrl: `${window.location.origin}/settings?tab=billing&checkout=canceled`,
+            successUrl: `${window.location.origin}/settings/billing?status=success`,
+            cancelUrl: `${window.location.origin}/settings/billing?status=canceled`,
         }),
     });
 
@@ -7,14 +7,16 @@ const functions = getFunctions(undefined, "us-central1");
 /**
  * Get AI-powered mentor match suggestions via Cloud Function
  * API key is now secure on the server-side
+ * localScores (from utils/matchingEngine) let Gemini re-rank the local ranking instead of starting over
  */
 export const getMatchSuggestions = async (
   mentee: User,
-  potentialMentors: User[]
+  potentialMentors: User[],
+  localScores?: { mentorId: string; total: number }[]
 ): Promise<{ mentorId: string; reason: string; score: number }[]> => {
   try {
     const getMatches = httpsCallable(functions, "getMatchSuggestions");
-    const result = await getMatches({ mentee, potentialMentors });
+    const result = await getMatches({ mentee, potentialMentors, localScores });
     return (result.data as { mentorId: string; reason: string; score: number }[]) || [];
   } catch (error) {
     console.error("Error fetching match suggestions:", error);
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+const calls: string[] = [];
+const setDocMock = vi.fn(async (ref: { path: string }, _data?: unknown) => {
+  calls.push(`set:${ref.path}`);
+});
+const updateDocMock = vi.fn(async (ref: { path: string }) => {
+  calls.push(`update:${ref.path}`);
+});
+
+vi.mock("firebase/firestore", () => ({
+  setDoc: (...args: [{ path: string }, unknown]) => setDocMock(...args),
+  updateDoc: (...args: [{ path: string }]) => updateDocMock(...args),
+  deleteDoc: vi.fn(),
+}));
+
+import { updateDoc } from "./impersonationWrites";
+import {
+  clearImpersonationSession,
+  storeImpersonationSession,
+} from "../utils/impersonationSession";
+import type { ImpersonationSession } from "../types";
+
+const goalRef = { path: "goals/g1", parent: { id: "goals" } } as never;
+
+const session = (mode: ImpersonationSession["mode"]): ImpersonationSession =>
+  ({
+    id: "session-1",
+    organizationId: "org-1",
+    operatorUid: "operator-1",
+    targetUserId: "user-1",
+    mode,
+    startedAt: "2026-03-01T10:00:00.000Z",
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+  }) as ImpersonationSession;
+
+describe("impersonation-aware writes", () => {
+  beforeEach(() => {
+    calls.length = 0;
+    setDocMock.mockClear();
+    updateDocMock.mockClear();
+  });
+  afterEach(() => clearImpersonationSession());
+
+  it("writes directly outside impersonation", async () => {
+    await updateDoc(goalRef, { progress: 50 });
+    expect(calls).toEqual(["update:goals/g1"]);
+  });
+
+  it("rejects writes in a read-only session", async () => {
+    storeImpersonationSession(session("read_only"));
+    await expect(updateDoc(goalRef, { progress: 50 })).rejects.toThrow("read-only");
+    expect(calls).toEqual([]);
+  });
+
+  it("rejects writes once the session has expired", async () => {
+    storeImpersonationSession({ ...session("read_write"), expiresAt: new Date(Date.now() - 1000).toISOString() });
+    await expect(updateDoc(goalRef, { progress: 50 })).rejects.toThrow("expired");
+    expect(calls).toEqual([]);
+  });
+
+  it("leaves auditing of read-write sessions to the server", async () => {
+    storeImpersonationSession(session("read_write"));
+    await updateDoc(goalRef, { progress: 50 });
+    expect(calls).toEqual(["update:goals/g1"]);
+    expect(setDocMock).not.toHaveBeenCalled();
+  });
+});
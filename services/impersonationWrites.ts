@@ -0,0 +1,46 @@
+import {
+  setDoc as firestoreSetDoc,
+  updateDoc as firestoreUpdateDoc,
+  deleteDoc as firestoreDeleteDoc,
+  type DocumentData,
+  type DocumentReference,
+  type UpdateData,
+  type SetOptions,
+  type WithFieldValue,
+} from "firebase/firestore";
+import {
+  getActiveImpersonationSession,
+  isImpersonationSessionExpired,
+} from "../utils/impersonationSession";
+
+/**
+ * App writes (database.ts, messaging.ts, deviceTracking.ts) go through setDoc/updateDoc/deleteDoc
+ * below. While a platform operator is impersonating, expired and read-only sessions reject the
+ * write up front with a readable message (the rules refuse it too). Writes in read-write sessions
+ * are audited on the server by the auditImpersonatedWrites trigger.
+ */
+async function runImpersonationAwareWrite(write: () => Promise<void>): Promise<void> {
+  const session = getActiveImpersonationSession();
+  if (session && isImpersonationSessionExpired(session)) {
+    throw new Error("Your impersonation session has expired. Exit and start a new session to make changes.");
+  }
+  if (session?.mode === "read_only") {
+    throw new Error("This impersonation session is read-only.");
+  }
+  await write();
+}
+
+export const setDoc = (
+  ref: DocumentReference,
+  data: WithFieldValue<DocumentData>,
+  options?: SetOptions
+): Promise<void> =>
+  runImpersonationAwareWrite(() => (options ? firestoreSetDoc(ref, data, options) : firestoreSetDoc(ref, data)));
+
+export const updateDoc = (
+  ref: DocumentReference,
+  data: UpdateData<DocumentData>
+): Promise<void> => runImpersonationAwareWrite(() => firestoreUpdateDoc(ref, data));
+
+export const deleteDoc = (ref: DocumentReference): Promise<void> =>
+  runImpersonationAwareWrite(() => firestoreDeleteDoc(ref));
@@ -1,6 +1,7 @@
 import { messaging, getToken, onMessage } from './firebase';
-import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
 import { db } from './firebase';
+import { setDoc, updateDoc } from './impersonationWrites';
 import { saveDeviceInfo, createDeviceInfo, generateDeviceId, removeDevice } from './deviceTracking';
 import { getErrorMessage, getErrorCode } from '../utils/errors';
 import { isLocalDevelopment } from '../utils/environment';
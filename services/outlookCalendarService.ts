@@ -1,6 +1,16 @@
 // Microsoft Outlook Calendar API service using Microsoft Graph API
 import { CalendarEvent } from '../types';
 import { getCloudFunctionUrl } from './cloudFunctionsUrl';
+import { getBrowserTimeZone, getEventStart, resolveTimeZone, utcToZonedDateTime, zonedDateTimeToUtc } from '../utils/timeZones';
+
+/** Sync requests carry the caller's Firebase ID token; the server checks the plan of their organization. */
+const syncHeaders = async () => {
+  const { getFirebaseIdTokenForCloudFunctions } = await import('./googleAuth');
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${await getFirebaseIdTokenForCloudFunctions()}`,
+  };
+};
 
 export interface OutlookCalendarCredentials {
   accessToken: string;
@@ -33,8 +43,63 @@ export interface OutlookCalendarEvent {
   isOnlineMeeting?: boolean;
   onlineMeetingProvider?: string;
   onlineMeetingUrl?: string;
+  recurrence?: {
+    pattern: {
+      type: 'daily' | 'weekly' | 'absoluteMonthly';
+      interval: number;
+      daysOfWeek?: string[];
+      dayOfMonth?: number;
+    };
+    range: {
+      type: 'noEnd' | 'endDate' | 'numbered';
+      startDate: string;
+      endDate?: string;
+      numberOfOccurrences?: number;
+      recurrenceTimeZone?: string;
+    };
+  };
 }
 
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Graph patternedRecurrence for a series. Graph has no EXDATE, so exceptions are cancelled
+ * as instances after the series is written (see getExcludedOccurrenceStarts).
+ */
+const toOutlookRecurrence = (event: CalendarEvent): OutlookCalendarEvent['recurrence'] => {
+  const rule = event.recurrence!;
+  const [year, month, day] = event.date.split('-').map(Number);
+  const pattern: NonNullable<OutlookCalendarEvent['recurrence']>['pattern'] = {
+    type: rule.frequency === 'DAILY' ? 'daily' : rule.frequency === 'WEEKLY' ? 'weekly' : 'absoluteMonthly',
+    interval: Math.max(1, rule.interval || 1),
+  };
+  if (rule.frequency === 'WEEKLY') {
+    pattern.daysOfWeek = [WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]];
+  } else if (rule.frequency === 'MONTHLY') {
+    pattern.dayOfMonth = day;
+  }
+  return {
+    pattern,
+    range: {
+      type: rule.count !== undefined ? 'numbered' : rule.until ? 'endDate' : 'noEnd',
+      startDate: event.date,
+      ...(rule.count !== undefined && { numberOfOccurrences: rule.count }),
+      ...(rule.count === undefined && rule.until && { endDate: rule.until }),
+      recurrenceTimeZone: resolveTimeZone(event.timeZone),
+    },
+  };
+};
+
+/**
+ * UTC starts of a series' excepted occurrences, for the sync function to cancel in Outlook
+ */
+const getExcludedOccurrenceStarts = (event: CalendarEvent): string[] =>
+  event.recurrence && !event.occurrenceDate
+    ? (event.recurrenceExceptions || []).map((date) =>
+        zonedDateTimeToUtc(date, event.startTime, resolveTimeZone(event.timeZone)).toISOString()
+      )
+    : [];
+
 /**
  * Request Microsoft Outlook Calendar access via OAuth 2.0
  * Uses Microsoft Identity Platform (Azure AD)
@@ -158,10 +223,15 @@ export const clearOutlookCredentials = (userId: string): void => {
  * Convert CalendarEvent to Outlook Calendar event format
  */
 export const convertToOutlookEvent = (event: CalendarEvent, meetLink?: string): OutlookCalendarEvent => {
-  const startDateTime = new Date(`${event.date}T${event.startTime}`);
+  // Graph reads dateTime as a wall clock in timeZone, so send local times without a UTC suffix
+  const timeZone = resolveTimeZone(event.timeZone);
+  const startDateTime = getEventStart(event);
   const durationMinutes = parseDuration(event.duration);
   const endDateTime = new Date(startDateTime.getTime() + durationMinutes * 60000);
-  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const toGraphDateTime = (instant: Date) => {
+    const { date, time } = utcToZonedDateTime(instant, timeZone);
+    return `${date}T${time}:00`;
+  };
 
   const outlookEvent: OutlookCalendarEvent = {
     subject: event.title,
@@ -170,11 +240,11 @@ export const convertToOutlookEvent = (event: CalendarEvent, meetLink?: string):
       content: `Meeting Type: ${event.type}${meetLink ? `<br><br>Join: <a href="${meetLink}">${meetLink}</a>` : ''}`,
     },
     start: {
-      dateTime: startDateTime.toISOString(),
+      dateTime: toGraphDateTime(startDateTime),
       timeZone,
     },
     end: {
-      dateTime: endDateTime.toISOString(),
+      dateTime: toGraphDateTime(endDateTime),
       timeZone,
     },
   };
@@ -185,6 +255,11 @@ export const convertToOutlookEvent = (event: CalendarEvent, meetLink?: string):
     outlookEvent.onlineMeetingUrl = meetLink;
   }
 
+  // Expanded occurrences go out as single events; only the stored series carries the rule
+  if (event.recurrence && !event.occurrenceDate) {
+    outlookEvent.recurrence = toOutlookRecurrence(event);
+  }
+
   return outlookEvent;
 };
 
@@ -196,8 +271,13 @@ export const convertFromOutlookEvent = (
   organizationId: string,
   _userId: string
 ): Omit<CalendarEvent, 'id' | 'createdAt'> => {
-  const start = new Date(outlookEvent.start.dateTime);
-  const end = new Date(outlookEvent.end.dateTime);
+  // Graph returns wall-clock dateTimes in the accompanying timeZone (UTC unless a Prefer header asks otherwise)
+  const parseGraphDateTime = ({ dateTime, timeZone }: { dateTime: string; timeZone: string }) =>
+    zonedDateTimeToUtc(dateTime.slice(0, 10), dateTime.slice(11, 16), resolveTimeZone(timeZone));
+  const start = parseGraphDateTime(outlookEvent.start);
+  const end = parseGraphDateTime(outlookEvent.end);
+  const timeZone = getBrowserTimeZone();
+  const { date, time } = utcToZonedDateTime(start, timeZone);
 
   const durationMs = end.getTime() - start.getTime();
   const durationMinutes = Math.round(durationMs / 60000);
@@ -206,8 +286,10 @@ export const convertFromOutlookEvent = (
   return {
     organizationId,
     title: outlookEvent.subject || 'Untitled Event',
-    date: start.toISOString().split('T')[0],
-    startTime: start.toTimeString().slice(0, 5),
+    date,
+    startTime: time,
+    timeZone,
+    startsAt: start.toISOString(),
     duration,
     type: outlookEvent.isOnlineMeeting ? 'Virtual' : 'In-Person',
     googleMeetLink: outlookEvent.onlineMeetingUrl,
@@ -254,13 +336,12 @@ export const createOutlookCalendarEvent = async (
 
   const response = await fetch(getCloudFunctionUrl('syncOutlookCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'create',
       event: outlookEvent,
       accessToken: credentials.accessToken,
+      excludedOccurrenceStarts: getExcludedOccurrenceStarts(event),
     }),
   });
 
@@ -287,13 +368,12 @@ export const updateOutlookCalendarEvent = async (
 
   const response = await fetch(getCloudFunctionUrl('syncOutlookCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'update',
       event: outlookEvent,
       accessToken: credentials.accessToken,
+      excludedOccurrenceStarts: getExcludedOccurrenceStarts(event),
     }),
   });
 
@@ -312,9 +392,7 @@ export const deleteOutlookCalendarEvent = async (
 ): Promise<void> => {
   const response = await fetch(getCloudFunctionUrl('syncOutlookCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'delete',
       eventId: outlookEventId,
@@ -343,9 +421,7 @@ export const syncFromOutlookCalendar = async (
 
   const response = await fetch(getCloudFunctionUrl('syncOutlookCalendar'), {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: await syncHeaders(),
     body: JSON.stringify({
       action: 'list',
       accessToken: credentials.accessToken,
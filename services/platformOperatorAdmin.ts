@@ -1,7 +1,7 @@
 import { getFunctions, httpsCallable } from "firebase/functions";
 import app from "./firebase";
 import { getErrorMessage } from "../utils/errors";
-import { User, Role } from "../types";
+import { User, Role, ImpersonationMode, ImpersonationSession } from "../types";
 
 const functions = getFunctions(app, "us-central1");
 
@@ -134,3 +134,57 @@ export async function updatePlatformOperatorProfile(
     throw mapCallableError(e, "Failed to update platform operator");
   }
 }
+
+export type StartImpersonationInput = {
+  targetUserId: string;
+  reason: string;
+  mode: ImpersonationMode;
+  durationMinutes?: number;
+};
+
+/**
+ * Opens a time-boxed, audited impersonation session (read-only unless mode is read_write).
+ * The server tags every write made during the session with its id in auditLog.
+ */
+export async function startImpersonationSession(
+  input: StartImpersonationInput
+): Promise<ImpersonationSession> {
+  const fn = httpsCallable(functions, "startImpersonationSession");
+  try {
+    const result = await fn({
+      targetUserId: input.targetUserId,
+      reason: input.reason.trim(),
+      mode: input.mode,
+      durationMinutes: input.durationMinutes,
+    });
+    const data = result.data as ImpersonationSession | undefined;
+    if (!data?.id || !data.expiresAt) {
+      throw new Error("Invalid response from server");
+    }
+    return data;
+  } catch (e: unknown) {
+    throw mapCallableError(e, "Failed to start impersonation session");
+  }
+}
+
+export async function endImpersonationSession(sessionId: string): Promise<void> {
+  const fn = httpsCallable(functions, "endImpersonationSession");
+  try {
+    await fn({ sessionId });
+  } catch (e: unknown) {
+    throw mapCallableError(e, "Failed to end impersonation session");
+  }
+}
+
+/**
+ * Clears a user's 2FA (secret, backup codes, trusted devices) so they can sign in with their
+ * password and enroll again. Platform operators or the user's org admin; the reason is audited.
+ */
+export async function resetUserTotp(targetUserId: string, reason: string): Promise<void> {
+  const fn = httpsCallable(functions, "resetUserTotp");
+  try {
+    await fn({ targetUserId, reason: reason.trim() });
+  } catch (e: unknown) {
+    throw mapCallableError(e, "Failed to reset two-factor authentication");
+  }
+}
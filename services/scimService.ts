@@ -0,0 +1,39 @@
+/**
+ * SCIM provisioning tokens (org admins). The SCIM endpoint itself is called by the
+ * organization's identity provider, not the app (see functions/src/scim.ts).
+ */
+import { getErrorMessage } from "../utils/errors";
+
+export interface ScimTokenSummary {
+  id: string;
+  name: string;
+  lastFour: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+async function callScim<T>(name: string, data: unknown, fallback: string): Promise<T> {
+  const { getFunctions, httpsCallable } = await import("firebase/functions");
+  const { default: firebaseApp } = await import("./firebase");
+  const fn = httpsCallable(getFunctions(firebaseApp, "us-central1"), name);
+  try {
+    const result = await fn(data);
+    return result.data as T;
+  } catch (error: unknown) {
+    throw new Error(getErrorMessage(error) || fallback);
+  }
+}
+
+/** Tokens plus the base URL to give the identity provider. */
+export function listScimTokens(): Promise<{ baseUrl: string; tokens: ScimTokenSummary[] }> {
+  return callScim("listScimTokens", {}, "Failed to load SCIM tokens");
+}
+
+/** The plain token is only returned here; it can't be shown again. */
+export function createScimToken(name: string): Promise<{ token: string; summary: ScimTokenSummary }> {
+  return callScim("createScimTokenForOrg", { name }, "Failed to create SCIM token");
+}
+
+export async function revokeScimToken(tokenId: string): Promise<void> {
+  await callScim("revokeScimToken", { tokenId }, "Failed to revoke SCIM token");
+}
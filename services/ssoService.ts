@@ -0,0 +1,106 @@
+/**
+ * Enterprise SSO (OIDC / SAML) service
+ * Login-time discovery and redirect go through HTTP functions; admin configuration uses callables.
+ */
+import { getCloudFunctionUrl, getResolvedCloudFunctionsBaseUrl } from "./cloudFunctionsUrl";
+import { getErrorMessage } from "../utils/errors";
+
+export type SsoProtocol = "oidc" | "saml";
+
+/** ssoConfigs/{orgId} as returned to org admins (the OIDC client secret is never sent back). */
+export interface SsoConfig {
+  organizationId: string;
+  enabled: boolean;
+  protocol: SsoProtocol;
+  domain: string;
+  domainVerified: boolean;
+  domainVerifiedAt?: string;
+  domainVerificationRecord: string; // TXT value to add at `domain`
+  defaultRole: "MENTOR" | "MENTEE";
+  oidc?: { issuer: string; clientId: string; hasClientSecret: boolean };
+  saml?: { entryPoint: string; idpIssuer?: string; idpCert: string };
+  callbackUrl: string; // Redirect URI / ACS URL to register with the IdP
+  spEntityId: string; // SAML audience / SP entity id
+  updatedAt: string;
+}
+
+export interface SsoConfigInput {
+  enabled: boolean;
+  protocol: SsoProtocol;
+  domain: string;
+  defaultRole: "MENTOR" | "MENTEE";
+  oidc?: { issuer: string; clientId: string; clientSecret: string }; // Blank secret keeps the saved one
+  saml?: { entryPoint: string; idpIssuer?: string; idpCert: string };
+}
+
+export interface SsoDiscovery {
+  sso: boolean;
+  organizationId?: string;
+  organizationName?: string;
+}
+
+/** Whether this email's domain signs in through its organization's IdP. Fails open (password login). */
+export async function discoverSso(email: string): Promise<SsoDiscovery> {
+  try {
+    const res = await fetch(getCloudFunctionUrl("ssoDiscover"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email }),
+    });
+    if (!res.ok) return { sso: false };
+    return await res.json();
+  } catch {
+    return { sso: false };
+  }
+}
+
+/** Full-page redirect to the IdP; it comes back to /auth with #sso_token or #sso_error. */
+export function startSso(organizationId: string, email?: string): void {
+  // A page navigation, not fetch: skip the dev-server proxy so the IdP sees the real functions host
+  const url = getCloudFunctionUrl("ssoStart");
+  const base = url.startsWith("/") ? `${getResolvedCloudFunctionsBaseUrl()}/ssoStart` : url;
+  const params = new URLSearchParams({ org: organizationId, returnTo: window.location.origin });
+  if (email) params.set("email", email);
+  window.location.assign(`${base}?${params.toString()}`);
+}
+
+/** Reads and clears the SSO result the callback put in the URL fragment. */
+export function consumeSsoRedirect(): { token?: string; error?: string } | null {
+  const hash = new URLSearchParams(window.location.hash.replace(/^#/, ""));
+  const token = hash.get("sso_token");
+  const error = hash.get("sso_error");
+  if (!token && !error) return null;
+  window.history.replaceState(null, "", window.location.pathname + window.location.search);
+  return { token: token || undefined, error: error || undefined };
+}
+
+/** Org-admin callables; firebase/functions is loaded on first use, as in services/database.ts. */
+async function callSso<T>(name: string, data: unknown, fallback: string): Promise<T> {
+  const { getFunctions, httpsCallable } = await import("firebase/functions");
+  const { default: firebaseApp } = await import("./firebase");
+  const fn = httpsCallable(getFunctions(firebaseApp, "us-central1"), name);
+  try {
+    const result = await fn(data);
+    return result.data as T;
+  } catch (error: unknown) {
+    const err = error as { code?: string };
+    if (err?.code === "functions/unauthenticated") {
+      throw new Error("Sign in required");
+    }
+    throw new Error(getErrorMessage(error) || fallback);
+  }
+}
+
+export async function getSsoConfig(): Promise<SsoConfig | null> {
+  const { config } = await callSso<{ config: SsoConfig | null }>("getSsoConfig", {}, "Failed to load SSO settings");
+  return config;
+}
+
+export async function saveSsoConfig(input: SsoConfigInput): Promise<SsoConfig> {
+  const { config } = await callSso<{ config: SsoConfig }>("saveSsoConfig", input, "Failed to save SSO settings");
+  return config;
+}
+
+export function verifySsoDomain(): Promise<{ verified: boolean; config: SsoConfig }> {
+  return callSso("verifySsoDomain", {}, "Failed to verify domain");
+}
@@ -1,8 +1,38 @@
 /**
  * TOTP (Google Authenticator) 2FA service
- * Calls Firebase Cloud Functions for setup, verification, and disable
+ * Calls Firebase Cloud Functions for setup, verification, backup codes, trusted devices and disable
  */
 import { getCloudFunctionUrl } from "./cloudFunctionsUrl";
+import { generateDeviceId, getDeviceName } from "./deviceTracking";
+
+export interface TotpTrustedDevice {
+  deviceId: string;
+  deviceName: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface TotpStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+  trustedDevices: TotpTrustedDevice[];
+}
+
+/** Same per-user device id that deviceTracking/FCM use, created if this browser has none yet. */
+export function getOrCreateDeviceId(userId: string): string {
+  let deviceId = localStorage.getItem(`deviceId_${userId}`);
+  if (!deviceId) {
+    deviceId = generateDeviceId();
+    localStorage.setItem(`deviceId_${userId}`, deviceId);
+  }
+  return deviceId;
+}
+
+const trustTokenKey = (userId: string) => `totpTrust_${userId}`;
+
+export function clearTrustToken(userId: string): void {
+  localStorage.removeItem(trustTokenKey(userId));
+}
 
 export async function setupTotp(idToken: string): Promise<{ secret: string; otpauthUri: string }> {
   const res = await fetch(getCloudFunctionUrl("setupTotp"), {
@@ -15,7 +45,8 @@ export async function setupTotp(idToken: string): Promise<{ secret: string; otpa
   return data;
 }
 
-export async function verifyTotpSetup(idToken: string, code: string): Promise<void> {
+/** Enables 2FA and returns the first set of backup codes (shown once). */
+export async function verifyTotpSetup(idToken: string, code: string): Promise<string[]> {
   const res = await fetch(getCloudFunctionUrl("verifyTotpSetup"), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -23,16 +54,92 @@ export async function verifyTotpSetup(idToken: string, code: string): Promise<vo
   });
   const data = await res.json();
   if (!res.ok) throw new Error(data.error || "Failed to enable two-factor authentication");
+  return data.backupCodes || [];
 }
 
-export async function verifyTotpLogin(code: string, idToken: string): Promise<void> {
+/**
+ * Verifies an authenticator or backup code at login. With `rememberDevice`, the returned trust
+ * token is stored so this browser skips the code for 30 days.
+ */
+export async function verifyTotpLogin(
+  code: string,
+  idToken: string,
+  options: { userId?: string; rememberDevice?: boolean } = {}
+): Promise<{ backupCodesRemaining?: number }> {
+  const deviceId = options.rememberDevice && options.userId ? getOrCreateDeviceId(options.userId) : undefined;
   const res = await fetch(getCloudFunctionUrl("verifyTotpLogin"), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ code, idToken }),
+    body: JSON.stringify({
+      code,
+      idToken,
+      rememberDevice: !!deviceId,
+      deviceId,
+      deviceName: deviceId ? getDeviceName() : undefined,
+    }),
   });
   const data = await res.json();
   if (!res.ok) throw new Error(data.error || "Invalid verification code");
+  if (options.userId && deviceId && data.trustToken) {
+    localStorage.setItem(trustTokenKey(options.userId), JSON.stringify({ deviceId, token: data.trustToken }));
+  }
+  return { backupCodesRemaining: data.backupCodesRemaining };
+}
+
+/** Whether this browser holds a valid "trust this device" token; a rejected token is dropped. */
+export async function checkTrustedDevice(idToken: string, userId: string): Promise<boolean> {
+  const stored = localStorage.getItem(trustTokenKey(userId));
+  if (!stored) return false;
+  let trust: { deviceId?: string; token?: string };
+  try {
+    trust = JSON.parse(stored);
+  } catch {
+    clearTrustToken(userId);
+    return false;
+  }
+  const res = await fetch(getCloudFunctionUrl("checkTrustedDevice"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken, deviceId: trust.deviceId, trustToken: trust.token }),
+  });
+  const data = await res.json();
+  if (!res.ok) return false;
+  if (!data.trusted) clearTrustToken(userId);
+  return !!data.trusted;
+}
+
+export async function getTotpStatus(idToken: string): Promise<TotpStatus> {
+  const res = await fetch(getCloudFunctionUrl("getTotpStatus"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to load two-factor status");
+  return data;
+}
+
+/** Replaces all backup codes; `code` is a current authenticator or backup code. */
+export async function regenerateBackupCodes(idToken: string, code: string): Promise<string[]> {
+  const res = await fetch(getCloudFunctionUrl("regenerateBackupCodes"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken, code }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to generate backup codes");
+  return data.backupCodes || [];
+}
+
+/** Stops trusting one device, or every device when deviceId is omitted. */
+export async function forgetTrustedDevices(idToken: string, deviceId?: string): Promise<void> {
+  const res = await fetch(getCloudFunctionUrl("forgetTrustedDevices"), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ idToken, deviceId }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to forget trusted devices");
 }
 
 export async function disableTotp(idToken: string, code: string): Promise<void> {
@@ -67,17 +67,15 @@ self.addEventListener('notificationclick', (event) => {
   event.notification.close();
 
   const data = event.notification.data || {};
-  let url = data.url || '/';
+  let path = data.url || '/';
   
-  // If there's a chatId, navigate to that chat
-  if (data.chatId) {
-    url = `/chat:${data.chatId}`;
-  }
-  
-  // If there's a notificationId, navigate to notifications
-  if (data.notificationId && !data.chatId) {
-    url = '/notifications';
+  // Older payloads carry only ids; build the same deep links as utils/routes.ts
+  if (path === '/' && data.chatId) {
+    path = `/chat/${encodeURIComponent(data.chatId)}`;
+  } else if (path === '/' && data.notificationId) {
+    path = '/notifications';
   }
+  const url = new URL(path, self.location.origin).href;
 
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
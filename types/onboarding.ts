@@ -3,7 +3,7 @@
  * Replaces `any` types in onboarding handlers
  */
 
-import { Role } from '../types';
+import { MentorshipStyle, Role } from '../types';
 
 /**
  * Mentor onboarding form data
@@ -67,7 +67,7 @@ export interface MenteeOnboardingData {
     // Mentor Preferences
     preferredMentorExpertise?: string[];
     preferredIndustries?: string[];
-    mentorshipStyle?: 'structured' | 'flexible' | 'project-based' | 'any';
+    mentorshipStyle?: MentorshipStyle;
 
     // Communication Preferences
     preferredCommunication?: ('chat' | 'video' | 'phone' | 'email')[];
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { CalendarEvent, MentorAvailability } from "../types";
+import {
+  getAvailableSlots,
+  getSessionStarts,
+  getUserEventRanges,
+  validateAvailability,
+} from "./availability";
+
+const availability: MentorAvailability = {
+  timeZone: "America/New_York",
+  // Mondays 9:00-11:00 New York time
+  windows: [{ weekday: 1, startTime: "09:00", endTime: "11:00" }],
+  sessionMinutes: 30,
+  bufferMinutes: 15,
+  maxSessionsPerWeek: 2,
+};
+
+const session: CalendarEvent = {
+  id: "e1",
+  organizationId: "org1",
+  title: "Mentorship Session",
+  date: "2026-03-02",
+  startTime: "09:30",
+  timeZone: "America/New_York",
+  startsAt: "2026-03-02T14:30:00.000Z",
+  duration: "30 min",
+  type: "Virtual",
+  mentorId: "mentor1",
+  menteeId: "mentee1",
+  createdAt: "2026-02-01T00:00:00.000Z",
+};
+
+const from = new Date("2026-03-01T00:00:00Z");
+const to = new Date("2026-03-15T00:00:00Z");
+
+describe("availability", () => {
+  it("cuts weekly windows into slots on the mentor's wall clock", () => {
+    const slots = getAvailableSlots({ availability, busy: [], sessionStarts: [], from, to });
+    expect(slots.map((s) => s.startsAt)).toEqual([
+      "2026-03-02T14:00:00.000Z",
+      "2026-03-02T14:30:00.000Z",
+      "2026-03-02T15:00:00.000Z",
+      "2026-03-02T15:30:00.000Z",
+      // Still 9:00 local after the DST change on 2026-03-08
+      "2026-03-09T13:00:00.000Z",
+      "2026-03-09T13:30:00.000Z",
+      "2026-03-09T14:00:00.000Z",
+      "2026-03-09T14:30:00.000Z",
+    ]);
+    expect(slots[0].endsAt).toBe("2026-03-02T14:30:00.000Z");
+  });
+
+  it("removes slots within the buffer of events and busy times, and full weeks", () => {
+    const busy = [
+      ...getUserEventRanges([session], "mentor1", from, to),
+      { start: new Date("2026-03-09T14:00:00Z"), end: new Date("2026-03-09T14:10:00Z") },
+    ];
+    const slots = getAvailableSlots({
+      availability,
+      busy,
+      sessionStarts: getSessionStarts([session], "mentor1", from, to),
+      from,
+      to,
+    });
+    expect(slots.map((s) => s.startsAt)).toEqual([
+      "2026-03-02T15:30:00.000Z",
+      "2026-03-09T13:00:00.000Z",
+      "2026-03-09T14:30:00.000Z",
+    ]);
+
+    const fullWeek = getAvailableSlots({
+      availability,
+      busy: [],
+      sessionStarts: [new Date("2026-03-03T15:00:00Z"), new Date("2026-03-06T15:00:00Z")],
+      from,
+      to,
+    });
+    expect(fullWeek.every((s) => s.startsAt >= "2026-03-09")).toBe(true);
+  });
+
+  it("validates windows against the session length", () => {
+    expect(validateAvailability(availability)).toBeNull();
+    expect(
+      validateAvailability({
+        ...availability,
+        windows: [{ weekday: 2, startTime: "10:00", endTime: "10:15" }],
+      })
+    ).toBe("Tue: the window is shorter than one session.");
+  });
+});
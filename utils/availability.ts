@@ -0,0 +1,197 @@
+import type { BusyInterval, CalendarEvent, MentorAvailability } from "../types";
+import { parseDurationToHours } from "../services/utils";
+import { addDays, expandCalendarEvents } from "./recurrence";
+import {
+  getEventStart,
+  isValidTimeZone,
+  utcToZonedDateTime,
+  zonedDateTimeToUtc,
+} from "./timeZones";
+
+/**
+ * Self-serve booking: mentors publish weekly windows (User.availability) and mentees pick a slot.
+ * Slots are the windows cut into sessionMinutes pieces, minus anything within bufferMinutes of the
+ * mentor's events or connected-calendar busy times, and minus weeks that already hit the cap.
+ * Server copy lives in functions/src/utils/availability.ts and re-checks every booking.
+ */
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface BookableSlot {
+  startsAt: string; // ISO UTC
+  endsAt: string; // ISO UTC
+}
+
+/** Slots closer than this are not offered, so mentors are never booked at the last minute. */
+export const BOOKING_NOTICE_HOURS = 12;
+/** How far ahead mentees can book. */
+export const BOOKING_HORIZON_DAYS = 28;
+
+export const SESSION_LENGTH_OPTIONS = [30, 45, 60, 90];
+export const BUFFER_OPTIONS = [0, 5, 10, 15, 30];
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const createDefaultAvailability = (timeZone: string): MentorAvailability => ({
+  timeZone,
+  windows: [],
+  sessionMinutes: 30,
+  bufferMinutes: 15,
+});
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const weekdayOf = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/** Monday (YYYY-MM-DD) of the week containing `date`; weeks run Monday to Sunday. */
+const weekStartOf = (date: string): string => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+/** First problem with an availability form, or null when it can be saved. */
+export const validateAvailability = (availability: MentorAvailability): string | null => {
+  if (!isValidTimeZone(availability.timeZone)) return "Choose a valid time zone.";
+  if (!(availability.sessionMinutes > 0)) return "Session length must be greater than zero.";
+  if (availability.bufferMinutes < 0) return "Buffer cannot be negative.";
+  if (availability.maxSessionsPerWeek !== undefined && !(availability.maxSessionsPerWeek >= 1)) {
+    return "Max sessions per week must be at least 1.";
+  }
+  for (const window of availability.windows) {
+    const length = toMinutes(window.endTime) - toMinutes(window.startTime);
+    if (length <= 0) {
+      return `${WEEKDAY_LABELS[window.weekday]}: the end time must be after the start time.`;
+    }
+    if (length < availability.sessionMinutes) {
+      return `${WEEKDAY_LABELS[window.weekday]}: the window is shorter than one session.`;
+    }
+  }
+  return null;
+};
+
+type SyncedEventTiming = Pick<CalendarEvent, "date" | "startTime" | "timeZone" | "startsAt" | "duration">;
+
+const toTimeRange = (event: SyncedEventTiming): TimeRange => {
+  const start = getEventStart(event);
+  const minutes = Math.round(parseDurationToHours(event.duration) * 60) || 60;
+  return { start, end: new Date(start.getTime() + minutes * 60000) };
+};
+
+const involvesUser = (event: CalendarEvent, userId: string) =>
+  event.mentorId === userId ||
+  event.menteeId === userId ||
+  event.createdBy === userId ||
+  !!event.participants?.includes(userId);
+
+/** Start/end of every event (occurrences expanded) that the user is part of and that overlaps the range. */
+export const getUserEventRanges = (
+  events: CalendarEvent[],
+  userId: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): TimeRange[] => {
+  // Expand from a day early so an occurrence that started before rangeStart still blocks its tail
+  const expanded = expandCalendarEvents(
+    events.filter((event) => involvesUser(event, userId)),
+    new Date(rangeStart.getTime() - 24 * 60 * 60 * 1000),
+    rangeEnd
+  );
+  return expanded
+    .map(toTimeRange)
+    .filter((range) => range.end > rangeStart && range.start < rangeEnd);
+};
+
+/** Busy intervals (instants only, no titles) for events synced from a connected calendar. */
+export const toBusyIntervals = (events: SyncedEventTiming[]): BusyInterval[] =>
+  events.map((event) => {
+    const { start, end } = toTimeRange(event);
+    return { start: start.toISOString(), end: end.toISOString() };
+  });
+
+/** Starts of the mentor's mentorship sessions (what maxSessionsPerWeek counts). */
+export const getSessionStarts = (
+  events: CalendarEvent[],
+  mentorId: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): Date[] =>
+  expandCalendarEvents(
+    events.filter((event) => event.mentorId === mentorId),
+    rangeStart,
+    rangeEnd
+  ).map((event) => getEventStart(event));
+
+export const toTimeRanges = (intervals: BusyInterval[]): TimeRange[] =>
+  intervals.map((interval) => ({ start: new Date(interval.start), end: new Date(interval.end) }));
+
+/**
+ * Bookable session slots that start in [from, to). `busy` holds everything the mentor is already
+ * doing; `sessionStarts` are their booked sessions, counted per week against maxSessionsPerWeek.
+ */
+export const getAvailableSlots = ({
+  availability,
+  busy,
+  sessionStarts,
+  from,
+  to,
+}: {
+  availability: MentorAvailability;
+  busy: TimeRange[];
+  sessionStarts: Date[];
+  from: Date;
+  to: Date;
+}): BookableSlot[] => {
+  const { timeZone, sessionMinutes, bufferMinutes, maxSessionsPerWeek } = availability;
+  if (!isValidTimeZone(timeZone) || !(sessionMinutes > 0) || from >= to) return [];
+  const bufferMs = Math.max(0, bufferMinutes) * 60000;
+
+  const sessionsPerWeek = new Map<string, number>();
+  for (const start of sessionStarts) {
+    const week = weekStartOf(utcToZonedDateTime(start, timeZone).date);
+    sessionsPerWeek.set(week, (sessionsPerWeek.get(week) || 0) + 1);
+  }
+  const weekIsFull = (date: string) =>
+    maxSessionsPerWeek !== undefined &&
+    (sessionsPerWeek.get(weekStartOf(date)) || 0) >= maxSessionsPerWeek;
+
+  const slots = new Map<string, BookableSlot>();
+  const lastDate = utcToZonedDateTime(to, timeZone).date;
+  for (
+    let date = utcToZonedDateTime(from, timeZone).date;
+    date <= lastDate;
+    date = addDays(date, 1)
+  ) {
+    if (weekIsFull(date)) continue;
+    const weekday = weekdayOf(date);
+    for (const window of availability.windows) {
+      if (window.weekday !== weekday) continue;
+      const windowEnd = toMinutes(window.endTime);
+      for (
+        let minutes = toMinutes(window.startTime);
+        minutes + sessionMinutes <= windowEnd;
+        minutes += sessionMinutes
+      ) {
+        const start = zonedDateTimeToUtc(date, toTime(minutes), timeZone);
+        if (start < from || start >= to) continue;
+        // Skip wall-clock times a DST change jumps over; bookMentorSession refuses them too
+        const local = utcToZonedDateTime(start, timeZone);
+        if (local.date !== date || local.time !== toTime(minutes)) continue;
+        const end = new Date(start.getTime() + sessionMinutes * 60000);
+        const clashes = busy.some(
+          (range) =>
+            start.getTime() < range.end.getTime() + bufferMs &&
+            end.getTime() > range.start.getTime() - bufferMs
+        );
+        if (!clashes) {
+          slots.set(start.toISOString(), { startsAt: start.toISOString(), endsAt: end.toISOString() });
+        }
+      }
+    }
+  }
+  return Array.from(slots.values()).sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { getBlockDocId, getBlockedUserIds, isBlockedBetween } from "./blocking";
+
+describe("blocking", () => {
+  const blocks = [
+    { blockerId: "alice", blockedId: "bob" },
+    { blockerId: "carol", blockedId: "alice" },
+  ];
+
+  it("builds a deterministic doc id per blocker/blocked pair", () => {
+    expect(getBlockDocId("alice", "bob")).toBe("alice_bob");
+    expect(getBlockDocId("bob", "alice")).toBe("bob_alice");
+  });
+
+  it("treats a block in either direction as blocking the pair", () => {
+    expect(isBlockedBetween(blocks, "alice", "bob")).toBe(true);
+    expect(isBlockedBetween(blocks, "bob", "alice")).toBe(true);
+    expect(isBlockedBetween(blocks, "alice", "carol")).toBe(true);
+    expect(isBlockedBetween(blocks, "bob", "carol")).toBe(false);
+  });
+
+  it("collects users blocked by or blocking a user", () => {
+    expect([...getBlockedUserIds(blocks, "alice")].sort()).toEqual(["bob", "carol"]);
+    expect([...getBlockedUserIds(blocks, "bob")]).toEqual(["alice"]);
+    expect(getBlockedUserIds(blocks, "dave").size).toBe(0);
+  });
+});
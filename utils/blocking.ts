@@ -0,0 +1,33 @@
+import type { BlockRecord } from "../types";
+
+/**
+ * Blocks are stored at blocks/{blockerId}_{blockedId} so the same pair is only
+ * recorded once and security rules can check a pair with exists().
+ */
+export const getBlockDocId = (blockerId: string, blockedId: string) =>
+  `${blockerId}_${blockedId}`;
+
+/** True when either user has blocked the other. */
+export const isBlockedBetween = (
+  blocks: Pick<BlockRecord, "blockerId" | "blockedId">[],
+  userA: string,
+  userB: string
+) =>
+  blocks.some(
+    (b) =>
+      (b.blockerId === userA && b.blockedId === userB) ||
+      (b.blockerId === userB && b.blockedId === userA)
+  );
+
+/** IDs of users that `userId` has blocked or been blocked by. */
+export const getBlockedUserIds = (
+  blocks: Pick<BlockRecord, "blockerId" | "blockedId">[],
+  userId: string
+): Set<string> => {
+  const ids = new Set<string>();
+  blocks.forEach((b) => {
+    if (b.blockerId === userId) ids.add(b.blockedId);
+    if (b.blockedId === userId) ids.add(b.blockerId);
+  });
+  return ids;
+};
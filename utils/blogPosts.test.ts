@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { findBlogPost, getBlogPostStatus, parseTags, slugify, toDateTimeLocalValue, uniqueSlug } from "./blogPosts";
+
+describe("blogPosts", () => {
+  it("turns titles into URL slugs", () => {
+    expect(slugify("The Art of Active Listening!")).toBe("the-art-of-active-listening");
+    expect(slugify("  Café & Crème: Résumé tips ")).toBe("cafe-creme-resume-tips");
+    expect(slugify("!!!")).toBe("");
+  });
+
+  it("suffixes slugs that another post already uses", () => {
+    expect(uniqueSlug("Active Listening", [])).toBe("active-listening");
+    expect(uniqueSlug("Active Listening", ["active-listening", "active-listening-2"])).toBe("active-listening-3");
+    expect(uniqueSlug("???", [])).toBe("post");
+  });
+
+  it("parses comma-separated tags", () => {
+    expect(parseTags(" Leadership, feedback,, leadership ,Career  growth")).toEqual([
+      "Leadership",
+      "feedback",
+      "Career growth",
+    ]);
+    expect(parseTags("a,b,c,d,e,f,g,h,i,j,k,l")).toHaveLength(10);
+  });
+
+  it("derives a status for posts saved before statuses existed", () => {
+    expect(getBlogPostStatus({ published: true })).toBe("published");
+    expect(getBlogPostStatus({ published: false })).toBe("draft");
+    expect(getBlogPostStatus({ published: false, status: "scheduled" })).toBe("scheduled");
+  });
+
+  it("finds posts by slug, falling back to the id of older posts", () => {
+    const posts = [{ id: "abc", slug: "listening" }, { id: "legacy" }];
+    expect(findBlogPost(posts, "listening")?.id).toBe("abc");
+    expect(findBlogPost(posts, "legacy")?.id).toBe("legacy");
+    expect(findBlogPost(posts, "missing")).toBeUndefined();
+  });
+
+  it("round-trips publish times through datetime-local values", () => {
+    const value = toDateTimeLocalValue("2026-05-01T14:30:00.000Z");
+    expect(new Date(value).toISOString()).toBe("2026-05-01T14:30:00.000Z");
+    expect(toDateTimeLocalValue(undefined)).toBe("");
+  });
+});
@@ -0,0 +1,59 @@
+import { BlogPost, BlogPostStatus } from "../types";
+
+const MAX_TAGS = 10;
+
+/** "The Art of Active Listening!" -> "the-art-of-active-listening" */
+export const slugify = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80)
+    .replace(/-+$/g, "");
+
+/** Appends -2, -3… until the slug is not used by another post. */
+export const uniqueSlug = (base: string, takenSlugs: Iterable<string>): string => {
+  const taken = new Set(takenSlugs);
+  const root = slugify(base) || "post";
+  let slug = root;
+  for (let n = 2; taken.has(slug); n++) slug = `${root}-${n}`;
+  return slug;
+};
+
+/** Comma-separated input -> trimmed tags, de-duplicated case-insensitively, at most 10. */
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of input.split(",")) {
+    const tag = raw.trim().replace(/\s+/g, " ");
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags.slice(0, MAX_TAGS);
+};
+
+/** Posts saved before statuses existed only have the `published` flag. */
+export const getBlogPostStatus = (post: Pick<BlogPost, "status" | "published">): BlogPostStatus =>
+  post.status ?? (post.published ? "published" : "draft");
+
+export const getBlogPostSlug = (post: Pick<BlogPost, "id" | "slug">): string => post.slug || post.id;
+
+/** Looks a post up by the slug in its URL, accepting ids for posts that predate slugs. */
+export const findBlogPost = <T extends Pick<BlogPost, "id" | "slug">>(posts: T[], slugOrId: string): T | undefined =>
+  posts.find((post) => post.slug === slugOrId) ?? posts.find((post) => post.id === slugOrId);
+
+/** Date shown on the article: when it went live, else when it was written. */
+export const getBlogPostDate = (post: Pick<BlogPost, "publishedAt" | "publishAt" | "createdAt">): string =>
+  post.publishedAt || post.publishAt || post.createdAt;
+
+/** ISO time -> "YYYY-MM-DDTHH:mm" in local time, the value a datetime-local input expects. */
+export const toDateTimeLocalValue = (iso: string | undefined): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { EmailLogEntry } from "../types";
+import { getRecipientStatuses } from "./emailDelivery";
+
+const entry = (overrides: Partial<EmailLogEntry>): EmailLogEntry => ({
+  id: "log-1",
+  organizationId: "org-1",
+  to: [
+    { email: "Ada@example.com", name: "Ada" },
+    { email: "grace@example.com", name: "Grace" },
+  ],
+  recipients: ["ada@example.com", "grace@example.com"],
+  suppressed: [],
+  subject: "New match",
+  category: "Match",
+  status: "sent",
+  attempts: [],
+  events: [],
+  createdAt: "2026-10-01T10:00:00.000Z",
+  updatedAt: "2026-10-01T10:00:00.000Z",
+  ...overrides,
+});
+
+describe("emailDelivery", () => {
+  it("reports each recipient's own webhook status and keeps bounces final", () => {
+    const statuses = getRecipientStatuses(
+      entry({
+        status: "bounced",
+        events: [
+          { email: "grace@example.com", status: "delivered", at: "2026-10-01T10:01:00.000Z" },
+          { email: "ada@example.com", status: "bounced", at: "2026-10-01T10:01:00.000Z" },
+          { email: "ada@example.com", status: "delivered", at: "2026-10-01T10:02:00.000Z" },
+        ],
+      })
+    );
+    expect(statuses.map((s) => [s.email, s.status])).toEqual([
+      ["ada@example.com", "bounced"],
+      ["grace@example.com", "delivered"],
+    ]);
+  });
+
+  it("marks suppressed recipients and carries the error for failed sends", () => {
+    const suppressed = getRecipientStatuses(entry({ suppressed: ["grace@example.com"] }));
+    expect(suppressed.map((s) => s.status)).toEqual(["sent", "suppressed"]);
+
+    const failed = getRecipientStatuses(entry({ status: "failed", error: "Resend API error: 500" }));
+    expect(failed[0]).toMatchObject({ status: "failed", error: "Resend API error: 500" });
+  });
+});
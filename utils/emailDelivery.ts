@@ -0,0 +1,63 @@
+import type { EmailLogEntry, EmailLogStatus } from "../types";
+
+/**
+ * Per-recipient delivery status for the admin email log. One emailLog entry can go to several
+ * people, and the delivery webhooks report each address separately.
+ */
+
+export interface RecipientDeliveryStatus {
+  logId: string;
+  email: string;
+  name?: string;
+  subject: string;
+  category: string | null;
+  status: EmailLogStatus;
+  error?: string | null;
+  sentAt: string;
+  updatedAt: string;
+}
+
+export const EMAIL_STATUS_LABELS: Record<EmailLogStatus, string> = {
+  sending: "Sending",
+  sent: "Sent",
+  failed: "Failed",
+  suppressed: "Suppressed",
+  delivered: "Delivered",
+  delayed: "Delayed",
+  bounced: "Bounced",
+  complained: "Spam complaint",
+};
+
+/** Statuses an admin should act on (fix the address or ask the member to check their inbox). */
+export const isProblemStatus = (status: EmailLogStatus): boolean =>
+  status === "failed" || status === "suppressed" || status === "bounced" || status === "complained";
+
+// A bounce or complaint stays final even if a "delivered" event arrives after it
+const FINAL_EVENT_STATUSES: EmailLogStatus[] = ["bounced", "complained"];
+
+export const getRecipientStatuses = (entry: EmailLogEntry): RecipientDeliveryStatus[] =>
+  entry.to.map((recipient) => {
+    const email = recipient.email.trim().toLowerCase();
+    const events = (entry.events || [])
+      .filter((event) => event.email === email)
+      .sort((a, b) => a.at.localeCompare(b.at));
+    const finalEvent = events.find((event) => FINAL_EVENT_STATUSES.includes(event.status));
+    const latest = finalEvent || events[events.length - 1];
+
+    let status: EmailLogStatus = entry.status;
+    if (entry.suppressed?.includes(email)) status = "suppressed";
+    else if (latest) status = latest.status;
+    else if (entry.status !== "sending" && entry.status !== "failed") status = "sent";
+
+    return {
+      logId: entry.id,
+      email,
+      name: recipient.name,
+      subject: entry.subject,
+      category: entry.category,
+      status,
+      error: status === "failed" ? entry.error : undefined,
+      sentAt: entry.createdAt,
+      updatedAt: latest?.at || entry.updatedAt,
+    };
+  });
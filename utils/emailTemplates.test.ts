@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { renderBrandedEmail, resolveAccentColor, validateTemplateOverride } from "./emailTemplates";
+
+const branding = { organizationName: "Acme", programName: "Acme Grow", accentColor: "#123abc" };
+
+describe("emailTemplates", () => {
+  it("flags placeholders the template doesn't provide", () => {
+    expect(validateTemplateOverride("welcome", { subject: "Hi {{name}}", body: "{{partnerName}} is here" })).toEqual([
+      "Body uses unknown placeholder {{partnerName}}",
+    ]);
+    expect(validateTemplateOverride("matchCreated", { body: "Meet {{ partnerName }}" })).toEqual([]);
+  });
+
+  it("escapes both the admin's text and the values, and keeps defaults for blank fields", () => {
+    const email = renderBrandedEmail(
+      "welcome",
+      { subject: "", body: "Hi {{name}} <b>welcome</b>\n\nSee you soon" },
+      branding,
+      { name: "<script>x</script>", role: "Mentee" },
+      "https://app.example.com"
+    );
+    expect(email.subject).toBe("Welcome to Acme's Mentorship Program!");
+    expect(email.html).toContain("Hi &lt;script&gt;x&lt;/script&gt; &lt;b&gt;welcome&lt;/b&gt;");
+    expect(email.html).not.toContain("<script>");
+    expect(email.html).toContain("background: #123abc");
+    expect(email.text).toContain("Hi <script>x</script> <b>welcome</b>\n\nSee you soon");
+  });
+
+  it("drops paragraphs that only held an empty value", () => {
+    const email = renderBrandedEmail(
+      "invitation",
+      {},
+      branding,
+      { name: "Ada", role: "Mentor", inviterName: "Sam", personalNote: "" },
+      "https://app.example.com/invite"
+    );
+    expect(email.html.match(/<p /g)).toHaveLength(2);
+    expect(email.text).not.toMatch(/\n{3,}/);
+  });
+
+  it("ignores accent colors that aren't plain hex", () => {
+    expect(resolveAccentColor("red; background: url(x)")).toBe("#10b981");
+  });
+});
@@ -0,0 +1,229 @@
+import type { EmailTemplateKey, EmailTemplateOverride } from "../types";
+
+/**
+ * Org-customized emails (Organization.emailTemplates). Admins edit plain text with {{variable}}
+ * placeholders; values are HTML-escaped and only each template's own variables are allowed, so
+ * an override can reword an email but not inject markup. The Cloud Functions copy in
+ * functions/src/utils/emailTemplates.ts renders the real sends; this one powers the preview.
+ */
+
+export interface EmailTemplateDefinition {
+  label: string;
+  description: string;
+  variables: string[];
+  subject: string;
+  heading: string;
+  body: string;
+  buttonLabel: string;
+}
+
+export interface EmailBranding {
+  organizationName: string;
+  programName?: string;
+  logo?: string | null;
+  accentColor?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const DEFAULT_ACCENT_COLOR = "#10b981";
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_HEADING_LENGTH = 200;
+const MAX_BODY_LENGTH = 5000;
+const MAX_BUTTON_LABEL_LENGTH = 40;
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+  welcome: {
+    label: "Welcome",
+    description: "Sent when a mentor or mentee joins the program.",
+    variables: ["name", "role", "programName", "organizationName"],
+    subject: "Welcome to {{organizationName}}'s Mentorship Program!",
+    heading: "Welcome to {{organizationName}}!",
+    body: "Hi {{name}},\n\nWelcome to {{programName}}! You've joined as a {{role}}.\n\nComplete your profile so we can find you a great match.",
+    buttonLabel: "Complete Your Profile",
+  },
+  matchCreated: {
+    label: "New match",
+    description: "Sent to both people when a match starts.",
+    variables: ["name", "partnerName", "partnerTitle", "programName", "organizationName"],
+    subject: "New Mentorship Match: {{partnerName}}",
+    heading: "🎉 New Match!",
+    body: "Hi {{name}},\n\nGreat news! You've been matched with {{partnerName}}, {{partnerTitle}}.\n\nSay hello and schedule your first session.",
+    buttonLabel: "Start Conversation",
+  },
+  invitation: {
+    label: "Invitation",
+    description: "Sent when an admin invites someone to join.",
+    variables: ["name", "role", "inviterName", "personalNote", "programName", "organizationName"],
+    subject: "You're Invited to Join {{organizationName}}'s Mentorship Program",
+    heading: "You're Invited!",
+    body: "Hi {{name}},\n\n{{inviterName}} has invited you to join {{programName}} as a {{role}}.\n\n{{personalNote}}",
+    buttonLabel: "Accept Invitation",
+  },
+  meetingReminder: {
+    label: "Meeting reminder",
+    description: "Sent 24 hours and 1 hour before a session.",
+    variables: ["name", "meetingTitle", "meetingDate", "meetingTime", "timeUntil", "meetingLink", "programName", "organizationName"],
+    subject: "Meeting Reminder: {{meetingTitle}} in {{timeUntil}}",
+    heading: "📅 Meeting Reminder",
+    body: "Hi {{name}},\n\nThis is a reminder that {{meetingTitle}} starts in {{timeUntil}}.\n\n{{meetingDate}} at {{meetingTime}}\nJoin: {{meetingLink}}",
+    buttonLabel: "View Calendar",
+  },
+};
+
+export const EMAIL_TEMPLATE_KEYS = Object.keys(EMAIL_TEMPLATE_DEFINITIONS) as EmailTemplateKey[];
+
+/** Values shown in the preview and test sends. */
+export const SAMPLE_TEMPLATE_VALUES: Record<string, string> = {
+  name: "Jordan Lee",
+  role: "Mentee",
+  inviterName: "Sam Rivera",
+  personalNote: "Looking forward to having you in the program!",
+  partnerName: "Alex Morgan",
+  partnerTitle: "Engineering Manager at Acme",
+  meetingTitle: "Weekly check-in",
+  meetingDate: "Monday, March 2",
+  meetingTime: "3:00 PM EST",
+  timeUntil: "24 hours",
+  meetingLink: "https://meet.google.com/abc-defg-hij",
+};
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const fillPlaceholders = (text: string, values: Record<string, string>, escape: boolean): string =>
+  text.replace(PLACEHOLDER, (_, name: string) => {
+    const value = values[name] ?? "";
+    return escape ? escapeHtml(value) : value;
+  });
+
+const placeholdersIn = (text: string): string[] => {
+  const names: string[] = [];
+  text.replace(PLACEHOLDER, (_, name: string) => {
+    names.push(name);
+    return "";
+  });
+  return names;
+};
+
+/** Problems that make the server ignore an override and send the default instead. */
+export const validateTemplateOverride = (key: EmailTemplateKey, override: EmailTemplateOverride): string[] => {
+  const allowed = EMAIL_TEMPLATE_DEFINITIONS[key].variables;
+  const errors: string[] = [];
+  const fields: [string, string | undefined, number][] = [
+    ["Subject", override.subject, MAX_SUBJECT_LENGTH],
+    ["Heading", override.heading, MAX_HEADING_LENGTH],
+    ["Body", override.body, MAX_BODY_LENGTH],
+    ["Button label", override.buttonLabel, MAX_BUTTON_LABEL_LENGTH],
+  ];
+  for (const [label, value, maxLength] of fields) {
+    if (value === undefined) continue;
+    if (value.length > maxLength) errors.push(`${label} must be ${maxLength} characters or fewer`);
+    for (const name of placeholdersIn(value)) {
+      if (!allowed.includes(name)) errors.push(`${label} uses unknown placeholder {{${name}}}`);
+    }
+  }
+  return errors;
+};
+
+/** Org accent color for buttons and the header, when it is a plain #rrggbb value. */
+export const resolveAccentColor = (accentColor: string | undefined): string =>
+  accentColor && HEX_COLOR.test(accentColor) ? accentColor : DEFAULT_ACCENT_COLOR;
+
+const isHttpsUrl = (value: string | null | undefined): value is string => {
+  if (!value) return false;
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Renders an override (blank fields fall back to the default wording) in the org's branded
+ * layout. `values` supplies the template variables; programName and organizationName come from
+ * `branding`.
+ */
+export const renderBrandedEmail = (
+  key: EmailTemplateKey,
+  override: EmailTemplateOverride,
+  branding: EmailBranding,
+  values: Record<string, string>,
+  actionUrl: string
+): RenderedEmail => {
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[key];
+  const pick = (value: string | undefined, fallback: string) => (value && value.trim() ? value : fallback);
+  const allValues = {
+    ...values,
+    organizationName: branding.organizationName,
+    programName: branding.programName || `${branding.organizationName}'s mentorship program`,
+  };
+  const subject = fillPlaceholders(pick(override.subject, definition.subject), allValues, false).replace(/\s+/g, " ").trim();
+  const heading = pick(override.heading, definition.heading);
+  const body = pick(override.body, definition.body);
+  const buttonLabel = pick(override.buttonLabel, definition.buttonLabel);
+  const accent = resolveAccentColor(branding.accentColor);
+  const safeUrl = escapeHtml(actionUrl);
+  // Escape the admin's text first; placeholders contain no HTML characters so they survive
+  const toHtml = (text: string) => fillPlaceholders(escapeHtml(text), allValues, true);
+
+  // Paragraphs left empty by an empty variable (e.g. no personal note) are dropped
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map((paragraph) => toHtml(paragraph.trim()))
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p style="font-size: 16px; margin-bottom: 20px;">${paragraph.replace(/\n/g, "<br>")}</p>`)
+    .join("\n            ");
+  const logo = isHttpsUrl(branding.logo)
+    ? `<img src="${escapeHtml(branding.logo)}" alt="${escapeHtml(branding.organizationName)}" style="max-height: 48px; margin-bottom: 12px;">`
+    : "";
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${escapeHtml(subject)}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: ${accent}; padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+            ${logo}
+            <h1 style="color: white; margin: 0;">${toHtml(heading)}</h1>
+          </div>
+          <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+            ${paragraphs}
+            <div style="margin: 30px 0;">
+              <a href="${safeUrl}"
+                 style="display: inline-block; background: ${accent}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600;">
+                ${toHtml(buttonLabel)}
+              </a>
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+  const text = `
+${fillPlaceholders(heading, allValues, false)}
+
+${fillPlaceholders(body, allValues, false).replace(/\n{3,}/g, "\n\n").trim()}
+
+${fillPlaceholders(buttonLabel, allValues, false)}: ${actionUrl}
+  `.trim();
+
+  return { subject, html, text };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  countParticipants,
+  getEffectiveTier,
+  getMinimumTierForFeature,
+  getMinimumTierForParticipants,
+  getRemainingParticipantSeats,
+  hasFeature,
+} from "./entitlements";
+
+describe("entitlements", () => {
+  const now = new Date("2026-03-01T00:00:00.000Z");
+
+  it("gives free organizations the trial plan only while the trial is running", () => {
+    expect(getEffectiveTier({ subscriptionTier: "free", trialEnd: "2026-03-10T00:00:00.000Z" }, now)).toBe("professional");
+    expect(getEffectiveTier({ subscriptionTier: "free", trialEnd: "2026-02-10T00:00:00.000Z" }, now)).toBe("free");
+    expect(getEffectiveTier({ subscriptionTier: "free" }, now)).toBe("free");
+    expect(getEffectiveTier({ subscriptionTier: "starter", trialEnd: "2026-03-10T00:00:00.000Z" }, now)).toBe("starter");
+  });
+
+  it("gates features by plan", () => {
+    expect(hasFeature({ subscriptionTier: "starter" }, "customBranding", now)).toBe(false);
+    expect(hasFeature({ subscriptionTier: "professional" }, "customBranding", now)).toBe(true);
+    expect(hasFeature({ subscriptionTier: "professional" }, "apiAccess", now)).toBe(false);
+    expect(hasFeature({ subscriptionTier: "business" }, "apiAccess", now)).toBe(true);
+  });
+
+  it("computes remaining participant seats", () => {
+    expect(getRemainingParticipantSeats({ subscriptionTier: "starter" }, 90, now)).toBe(9);
+    expect(getRemainingParticipantSeats({ subscriptionTier: "starter" }, 120, now)).toBe(0);
+    expect(getRemainingParticipantSeats({ subscriptionTier: "enterprise" }, 5000, now)).toBeNull();
+  });
+
+  it("counts only mentors and mentees as participants, once per email", () => {
+    expect(
+      countParticipants([
+        { role: "MENTOR", email: "a@example.com" },
+        { role: "MENTEE", email: "b@example.com" },
+        { role: "MENTEE", email: "B@example.com" },
+        { role: "ORGANIZATION_ADMIN", email: "c@example.com" },
+        { role: "ADMIN", email: "d@example.com" },
+        { role: "MENTOR", email: "e@example.com", deactivated: true },
+      ])
+    ).toBe(2);
+  });
+
+  it("suggests the cheapest plan that unlocks a feature or fits a headcount", () => {
+    expect(getMinimumTierForFeature("calendarIntegration")).toBe("professional");
+    expect(getMinimumTierForFeature("sso")).toBe("business");
+    expect(getMinimumTierForParticipants(50)).toBe("starter");
+    expect(getMinimumTierForParticipants(400)).toBe("business");
+    expect(getMinimumTierForParticipants(1500)).toBe("enterprise");
+  });
+});
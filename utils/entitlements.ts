@@ -0,0 +1,114 @@
+import type { Organization } from "../types";
+
+export type SubscriptionTier = Organization["subscriptionTier"];
+
+export type EntitlementFeature =
+  | "customBranding"
+  | "calendarIntegration"
+  | "apiAccess"
+  | "sso";
+
+export interface TierEntitlements {
+  /** Mentor + mentee profiles allowed; null means unlimited. */
+  maxParticipants: number | null;
+  features: Record<EntitlementFeature, boolean>;
+}
+
+/**
+ * What each plan includes. Mirrors the feature copy in PRICING_TIERS (services/flowglad.ts).
+ * Server copy lives in functions/src/entitlements.ts.
+ */
+export const TIER_ENTITLEMENTS: Record<SubscriptionTier, TierEntitlements> = {
+  free: {
+    maxParticipants: 25,
+    features: { customBranding: false, calendarIntegration: false, apiAccess: false, sso: false },
+  },
+  starter: {
+    maxParticipants: 99,
+    features: { customBranding: false, calendarIntegration: false, apiAccess: false, sso: false },
+  },
+  professional: {
+    maxParticipants: 399,
+    features: { customBranding: true, calendarIntegration: true, apiAccess: false, sso: false },
+  },
+  business: {
+    maxParticipants: 999,
+    features: { customBranding: true, calendarIntegration: true, apiAccess: true, sso: true },
+  },
+  enterprise: {
+    maxParticipants: null,
+    features: { customBranding: true, calendarIntegration: true, apiAccess: true, sso: true },
+  },
+};
+
+/** Plan a free organization gets while its trial is running. */
+export const TRIAL_TIER: SubscriptionTier = "professional";
+
+const TIER_ORDER: SubscriptionTier[] = ["free", "starter", "professional", "business", "enterprise"];
+
+export const FEATURE_LABELS: Record<EntitlementFeature, string> = {
+  customBranding: "Custom branding",
+  calendarIntegration: "Calendar integration",
+  apiAccess: "API access",
+  sso: "SSO integration",
+};
+
+type PlanFields = Pick<Organization, "subscriptionTier" | "trialEnd">;
+
+export const isTrialActive = (org: PlanFields, now: Date = new Date()) =>
+  !!org.trialEnd && new Date(org.trialEnd) > now;
+
+/** Tier whose entitlements apply right now (free orgs on an active trial get TRIAL_TIER). */
+export const getEffectiveTier = (org: PlanFields, now: Date = new Date()): SubscriptionTier => {
+  const tier = org.subscriptionTier || "free";
+  if (tier === "free" && isTrialActive(org, now)) return TRIAL_TIER;
+  return TIER_ENTITLEMENTS[tier] ? tier : "free";
+};
+
+export const getEntitlements = (org: PlanFields, now: Date = new Date()): TierEntitlements =>
+  TIER_ENTITLEMENTS[getEffectiveTier(org, now)];
+
+export const hasFeature = (
+  org: PlanFields,
+  feature: EntitlementFeature,
+  now: Date = new Date()
+) => getEntitlements(org, now).features[feature];
+
+/** Only mentors and mentees count toward the participant limit. */
+export const isParticipantRole = (role: string) => role === "MENTOR" || role === "MENTEE";
+
+/**
+ * Legacy accounts can have two profile docs (random id + Firebase Auth uid mirror),
+ * so participants are counted by distinct email. Deactivated (SCIM leaver) profiles don't count.
+ */
+export const countParticipants = (
+  users: { role: string; email?: string; id?: string; deactivated?: boolean }[]
+) =>
+  new Set(
+    users
+      .filter((u) => isParticipantRole(String(u.role)) && !u.deactivated)
+      .map((u) => u.email?.trim().toLowerCase() || u.id)
+  ).size;
+
+/** Seats left before the participant limit; null when the plan is unlimited. */
+export const getRemainingParticipantSeats = (
+  org: PlanFields,
+  participantCount: number,
+  now: Date = new Date()
+): number | null => {
+  const limit = getEntitlements(org, now).maxParticipants;
+  return limit === null ? null : Math.max(0, limit - participantCount);
+};
+
+/** Cheapest paid plan that includes a feature, for upgrade prompts. */
+export const getMinimumTierForFeature = (feature: EntitlementFeature): SubscriptionTier =>
+  TIER_ORDER.find((tier) => tier !== "free" && TIER_ENTITLEMENTS[tier].features[feature]) ||
+  "enterprise";
+
+/** Cheapest paid plan that fits a number of participants, for upgrade prompts. */
+export const getMinimumTierForParticipants = (participants: number): SubscriptionTier =>
+  TIER_ORDER.find((tier) => {
+    if (tier === "free") return false;
+    const limit = TIER_ENTITLEMENTS[tier].maxParticipants;
+    return limit === null || participants <= limit;
+  }) || "enterprise";
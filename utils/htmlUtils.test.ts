@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanHtml } from "./htmlUtils";
+
+describe("cleanHtml", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it("strips Word markup but keeps basic formatting", () => {
+    const html =
+      '<p class="MsoNormal" style="mso-line-height: 1; text-align: center"><b>Bold</b> <span lang="EN">text</span><o:p></o:p></p>';
+    expect(cleanHtml(html)).toBe("<p><b>Bold</b> text</p>");
+  });
+
+  it("never puts handler payloads into the DOM", () => {
+    const innerHtmlSetter = vi.spyOn(Element.prototype, "innerHTML", "set");
+    const payload = '<p>Hi</p><img src=x onerror="window.__pwned = true"><a href="javascript:alert(1)">x</a>';
+
+    const cleaned = cleanHtml(payload);
+
+    expect(innerHtmlSetter).toHaveBeenCalled();
+    expect(cleaned).not.toContain("onerror");
+    expect(cleaned).not.toContain("javascript:");
+    expect(innerHtmlSetter.mock.calls.some(([value]) => String(value).includes("onerror"))).toBe(false);
+    expect((window as unknown as { __pwned?: boolean }).__pwned).toBeUndefined();
+  });
+});
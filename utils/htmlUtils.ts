@@ -1,14 +1,19 @@
 
+import { sanitizeHtml } from './sanitizeHtml';
+
 /**
  * Cleans HTML content, specifically removing MS Word-specific junk while 
- * preserving basic formatting (bold, italic, lists, headers).
+ * preserving basic formatting (bold, italic, lists, headers). The input is sanitized before it
+ * touches the DOM and parsed into an inert <template>, so pasted or stored markup can't load
+ * resources or run handlers (e.g. <img onerror>) while it is being cleaned.
  */
 export const cleanHtml = (html: string): string => {
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = html;
+    const template = document.createElement('template');
+    template.innerHTML = sanitizeHtml(html);
+    const root = template.content;
 
     // Remove MS Word specific classes, styles, and attributes
-    const allElements = tempDiv.querySelectorAll('*');
+    const allElements = root.querySelectorAll('*');
     allElements.forEach(el => {
         el.removeAttribute('class');
         el.removeAttribute('style');
@@ -45,15 +50,15 @@ export const cleanHtml = (html: string): string => {
     const unwantedSelectors = ['o\\:p', 'xml', 'meta', 'link', 'style', 'script'];
     unwantedSelectors.forEach(selector => {
         try {
-            tempDiv.querySelectorAll(selector).forEach(el => el.remove());
+            root.querySelectorAll(selector).forEach(el => el.remove());
         } catch {
             // Invalid selector, skip
         }
     });
 
     // Remove elements with Mso classes or styles
-    tempDiv.querySelectorAll('[class*="Mso"]').forEach(el => el.remove());
-    tempDiv.querySelectorAll('[style*="mso-"]').forEach(el => {
+    root.querySelectorAll('[class*="Mso"]').forEach(el => el.remove());
+    root.querySelectorAll('[style*="mso-"]').forEach(el => {
         const style = el.getAttribute('style');
         if (style) {
             const cleanedStyle = style.split(';').filter(prop => !prop.includes('mso-')).join(';');
@@ -67,7 +72,7 @@ export const cleanHtml = (html: string): string => {
 
     // Keep only allowed tags
     const allowedTags = ['p', 'br', 'strong', 'b', 'em', 'i', 'u', 'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'a'];
-    const allElementsArray = Array.from(tempDiv.querySelectorAll('*'));
+    const allElementsArray = Array.from(root.querySelectorAll('*'));
     allElementsArray.forEach(el => {
         const tagName = el.tagName.toLowerCase();
         if (!allowedTags.includes(tagName) && el.parentNode) {
@@ -79,7 +84,7 @@ export const cleanHtml = (html: string): string => {
     });
 
     // Final cleanup of empty paragraphs and extra whitespace
-    const cleanedHtml = tempDiv.innerHTML
+    const cleanedHtml = template.innerHTML
         .replace(/<p><\/p>/g, '<br>')
         .replace(/<p>\s*<\/p>/g, '<br>')
         .replace(/<p>\s*<br>\s*<\/p>/g, '<br>')
@@ -87,5 +92,5 @@ export const cleanHtml = (html: string): string => {
         .replace(/>\s+</g, '><')
         .trim();
 
-    return cleanedHtml;
+    return sanitizeHtml(cleanedHtml);
 };
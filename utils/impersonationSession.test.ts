@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { ImpersonationSession } from "../types";
+import {
+  clearImpersonationSession,
+  getActiveImpersonationSession,
+  getImpersonationTimeRemaining,
+  isImpersonationSessionExpired,
+  storeImpersonationSession,
+} from "./impersonationSession";
+
+const session: ImpersonationSession = {
+  id: "s1",
+  organizationId: "org1",
+  operatorUid: "op1",
+  operatorName: "Op",
+  operatorEmail: "op@example.com",
+  targetUserId: "u1",
+  targetUserName: "User",
+  reason: "Investigating a support ticket",
+  mode: "read_only",
+  startedAt: "2026-03-01T10:00:00.000Z",
+  expiresAt: "2026-03-01T10:30:00.000Z",
+  endedAt: null,
+};
+
+describe("impersonationSession", () => {
+  afterEach(() => clearImpersonationSession());
+
+  it("stores and clears the active session", () => {
+    expect(getActiveImpersonationSession()).toBeNull();
+    storeImpersonationSession(session);
+    expect(getActiveImpersonationSession()?.id).toBe("s1");
+    clearImpersonationSession();
+    expect(getActiveImpersonationSession()).toBeNull();
+  });
+
+  it("treats ended or past-expiry sessions as expired", () => {
+    const now = new Date("2026-03-01T10:10:00.000Z");
+    expect(isImpersonationSessionExpired(session, now)).toBe(false);
+    expect(isImpersonationSessionExpired(session, new Date("2026-03-01T10:30:00.000Z"))).toBe(true);
+    expect(isImpersonationSessionExpired({ ...session, endedAt: "2026-03-01T10:05:00.000Z" }, now)).toBe(true);
+    expect(getImpersonationTimeRemaining(session, now)).toBe(20 * 60 * 1000);
+    expect(getImpersonationTimeRemaining(session, new Date("2026-03-02T00:00:00.000Z"))).toBe(0);
+  });
+});
@@ -0,0 +1,42 @@
+import type { ImpersonationSession } from "../types";
+
+const STORAGE_KEY = "impersonationSession";
+
+/** The server-issued session behind the current impersonation, if any. */
+export function getActiveImpersonationSession(): ImpersonationSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as ImpersonationSession;
+    return session?.id && session.expiresAt ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeImpersonationSession(session: ImpersonationSession): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {
+    /* ignore quota / private mode */
+  }
+}
+
+export function clearImpersonationSession(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    /* ignore */
+  }
+}
+
+export const isImpersonationSessionExpired = (
+  session: Pick<ImpersonationSession, "expiresAt" | "endedAt">,
+  now: Date = new Date()
+) => !!session.endedAt || new Date(session.expiresAt) <= now;
+
+/** Milliseconds left before the session expires (0 once it has). */
+export const getImpersonationTimeRemaining = (
+  session: Pick<ImpersonationSession, "expiresAt">,
+  now: Date = new Date()
+) => Math.max(0, new Date(session.expiresAt).getTime() - now.getTime());
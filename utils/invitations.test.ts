@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { Role } from "../types";
+import {
+  buildInvitationFunnel,
+  clampInvitationExpiryDays,
+  DEFAULT_INVITATION_EXPIRY_DAYS,
+  getInvitationExpiresAt,
+  getInvitationExpiry,
+  isInvitationExpired,
+  isInvitationReminderDue,
+} from "./invitations";
+
+describe("invitations", () => {
+  const now = new Date("2026-03-10T00:00:00.000Z");
+
+  it("uses the organization's expiry, clamped to the allowed range", () => {
+    expect(getInvitationExpiry({ invitationExpiryDays: 7 }, now)).toBe("2026-03-17T00:00:00.000Z");
+    expect(getInvitationExpiry(null, now)).toBe(
+      new Date(now.getTime() + DEFAULT_INVITATION_EXPIRY_DAYS * 86400000).toISOString()
+    );
+    expect(clampInvitationExpiryDays(0)).toBe(1);
+    expect(clampInvitationExpiryDays(365)).toBe(90);
+    expect(clampInvitationExpiryDays("abc")).toBe(DEFAULT_INVITATION_EXPIRY_DAYS);
+  });
+
+  it("falls back to the default lifetime for invites without expiresAt", () => {
+    expect(getInvitationExpiresAt({ sentDate: "2026-03-01" })?.toISOString()).toBe("2026-03-31T00:00:00.000Z");
+    expect(getInvitationExpiresAt({ sentDate: "" })).toBeNull();
+    expect(isInvitationExpired({ sentDate: "2026-01-01" }, now)).toBe(true);
+    expect(isInvitationExpired({ sentDate: "2026-01-01", expiresAt: "2026-03-11T00:00:00.000Z" }, now)).toBe(false);
+  });
+
+  it("sends one reminder in the last days before expiry", () => {
+    const invite = { status: "Pending" as const, sentDate: "2026-03-01", expiresAt: "2026-03-12T00:00:00.000Z" };
+    expect(isInvitationReminderDue(invite, now)).toBe(true);
+    expect(isInvitationReminderDue({ ...invite, expiresAt: "2026-03-20T00:00:00.000Z" }, now)).toBe(false);
+    expect(isInvitationReminderDue({ ...invite, reminderSentAt: "2026-03-09T00:00:00.000Z" }, now)).toBe(false);
+    expect(isInvitationReminderDue({ ...invite, status: "Revoked" }, now)).toBe(false);
+    expect(isInvitationReminderDue({ ...invite, expiresAt: "2026-03-09T00:00:00.000Z" }, now)).toBe(false);
+    // A two-day invite never leaves the reminder window, so it gets no reminder
+    expect(isInvitationReminderDue({ ...invite, sentDate: "2026-03-10", expiresAt: "2026-03-12T00:00:00.000Z" }, now)).toBe(false);
+  });
+
+  it("builds the funnel per role", () => {
+    const funnel = buildInvitationFunnel(
+      [
+        { email: "a@x.com", role: Role.MENTEE, status: "Pending" },
+        { email: "b@x.com", role: Role.MENTEE, status: "Pending", openedAt: "2026-03-02T00:00:00.000Z" },
+        { email: "c@x.com", role: Role.MENTEE, status: "Accepted", acceptedUserId: "u-c" },
+        { email: "D@x.com", role: Role.MENTEE, status: "Accepted" },
+        { email: "e@x.com", role: Role.MENTOR, status: "Revoked" },
+        { email: "f@x.com", role: Role.MENTOR, status: "Accepted", openedAt: "2026-03-02T00:00:00.000Z", acceptedUserId: "u-f" },
+      ],
+      [
+        { id: "u-c", email: "c@x.com", onboardingCompleted: true },
+        { id: "u-d", email: "d@x.com", onboardingCompleted: true },
+        { id: "u-f", email: "f@x.com", onboardingCompleted: false },
+      ]
+    );
+    expect(funnel).toEqual([
+      { role: Role.MENTOR, sent: 2, opened: 1, accepted: 1, onboarded: 0 },
+      { role: Role.MENTEE, sent: 4, opened: 3, accepted: 2, onboarded: 2 },
+    ]);
+  });
+});
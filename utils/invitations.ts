@@ -0,0 +1,108 @@
+import { Role } from "../types";
+import type { Invitation, Organization, User } from "../types";
+
+/**
+ * Invitation lifetime, reminders and the acceptance funnel. The expiry and reminder rules have a
+ * server copy in functions/src/utils/invitations.ts (used by the expiry job).
+ */
+
+export const DEFAULT_INVITATION_EXPIRY_DAYS = 30;
+export const MIN_INVITATION_EXPIRY_DAYS = 1;
+export const MAX_INVITATION_EXPIRY_DAYS = 90;
+/** The single reminder goes out once an invite is this close to expiring. */
+export const INVITATION_REMINDER_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function clampInvitationExpiryDays(days: unknown): number {
+  const value = Math.round(Number(days));
+  if (!Number.isFinite(value)) return DEFAULT_INVITATION_EXPIRY_DAYS;
+  return Math.min(MAX_INVITATION_EXPIRY_DAYS, Math.max(MIN_INVITATION_EXPIRY_DAYS, value));
+}
+
+export function getInvitationExpiryDays(organization: Pick<Organization, "invitationExpiryDays"> | null | undefined): number {
+  return organization?.invitationExpiryDays === undefined
+    ? DEFAULT_INVITATION_EXPIRY_DAYS
+    : clampInvitationExpiryDays(organization.invitationExpiryDays);
+}
+
+/** expiresAt for an invitation sent now under the organization's policy. */
+export function getInvitationExpiry(
+  organization: Pick<Organization, "invitationExpiryDays"> | null | undefined,
+  from: Date = new Date()
+): string {
+  return new Date(from.getTime() + getInvitationExpiryDays(organization) * DAY_MS).toISOString();
+}
+
+/** Older invites have no expiresAt; they run for the default lifetime from when they were sent. */
+export function getInvitationExpiresAt(invitation: Pick<Invitation, "expiresAt" | "sentDate">): Date | null {
+  const expiresAt = Date.parse(invitation.expiresAt || "");
+  if (!Number.isNaN(expiresAt)) return new Date(expiresAt);
+  const sentAt = Date.parse(invitation.sentDate || "");
+  return Number.isNaN(sentAt) ? null : new Date(sentAt + DEFAULT_INVITATION_EXPIRY_DAYS * DAY_MS);
+}
+
+export function isInvitationExpired(
+  invitation: Pick<Invitation, "expiresAt" | "sentDate">,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = getInvitationExpiresAt(invitation);
+  return expiresAt !== null && expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * One reminder per invite, inside the last INVITATION_REMINDER_DAYS. Invites whose whole lifetime
+ * fits in that window were sent recently enough that a reminder would just be noise.
+ */
+export function isInvitationReminderDue(
+  invitation: Pick<Invitation, "status" | "expiresAt" | "sentDate" | "reminderSentAt">,
+  now: Date = new Date()
+): boolean {
+  if (invitation.status !== "Pending" || invitation.reminderSentAt) return false;
+  const expiresAt = getInvitationExpiresAt(invitation);
+  if (!expiresAt || expiresAt.getTime() <= now.getTime()) return false;
+  const windowStart = expiresAt.getTime() - INVITATION_REMINDER_DAYS * DAY_MS;
+  const sentAt = Date.parse(invitation.sentDate || "");
+  return now.getTime() >= windowStart && (Number.isNaN(sentAt) || sentAt < windowStart);
+}
+
+export interface InvitationFunnelRow {
+  role: Role.MENTOR | Role.MENTEE;
+  sent: number;
+  opened: number;
+  accepted: number;
+  onboarded: number;
+}
+
+/**
+ * Sent → opened → accepted → onboarded per role. Each stage counts invites that reached at least
+ * that stage, so accepted links opened before open-tracking existed still count as opened.
+ * Onboarded means the accepted profile has finished role onboarding.
+ */
+export function buildInvitationFunnel(
+  invitations: Pick<Invitation, "email" | "role" | "status" | "openedAt" | "acceptedUserId">[],
+  users: Pick<User, "id" | "email" | "onboardingCompleted">[]
+): InvitationFunnelRow[] {
+  const onboardedIds = new Set(users.filter((u) => u.onboardingCompleted).map((u) => u.id));
+  const onboardedEmails = new Set(
+    users.filter((u) => u.onboardingCompleted && u.email).map((u) => u.email.toLowerCase())
+  );
+
+  return ([Role.MENTOR, Role.MENTEE] as const).map((role) => {
+    const row: InvitationFunnelRow = { role, sent: 0, opened: 0, accepted: 0, onboarded: 0 };
+    for (const invitation of invitations) {
+      if (invitation.role !== role) continue;
+      const accepted = invitation.status === "Accepted";
+      row.sent++;
+      if (accepted || invitation.openedAt) row.opened++;
+      if (!accepted) continue;
+      row.accepted++;
+      // Profiles can be mirrored under the auth uid and a legacy id, so fall back to the email
+      const onboarded =
+        (invitation.acceptedUserId !== undefined && onboardedIds.has(invitation.acceptedUserId)) ||
+        onboardedEmails.has((invitation.email || "").toLowerCase());
+      if (onboarded) row.onboarded++;
+    }
+    return row;
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { Match, MatchStatus } from "../types";
+import {
+  closeMatch,
+  createMatchProposal,
+  isMatchEndingSoon,
+  needsClosureFeedback,
+  pauseMatch,
+  respondToMatch,
+  resumeMatch,
+  submitClosureFeedback,
+} from "./matchLifecycle";
+
+const proposal: Match = {
+  id: "m1",
+  ...createMatchProposal(
+    { organizationId: "org1", mentorId: "mentor1", menteeId: "mentee1", durationWeeks: 13, proposedBy: "admin1" },
+    new Date("2026-03-01T12:00:00Z")
+  ),
+};
+
+describe("matchLifecycle", () => {
+  it("records only the answering side's response and leaves the status to the server", () => {
+    const now = new Date("2026-03-03T09:00:00Z");
+    expect(respondToMatch(proposal, "mentor1", "accepted", undefined, now)).toEqual({
+      mentorResponse: { decision: "accepted", respondedAt: now.toISOString() },
+    });
+    expect(() => respondToMatch(proposal, "mentee1", "declined", "  ")).toThrow();
+    expect(() => respondToMatch(proposal, "someone", "accepted")).toThrow();
+
+    const declined = respondToMatch(proposal, "mentee1", "declined", "Schedule conflict");
+    expect(declined.status).toBeUndefined();
+    expect(declined.menteeResponse?.reason).toBe("Schedule conflict");
+  });
+
+  it("extends the end date by the time a match was paused", () => {
+    const active: Match = { ...proposal, status: MatchStatus.ACTIVE, endDate: "2026-06-01" };
+    expect(() => resumeMatch(active)).toThrow();
+
+    const paused = { ...active, ...pauseMatch(active, "mentee1", "Exams", new Date("2026-04-01T10:00:00Z")) };
+    expect(paused.status).toBe(MatchStatus.PAUSED);
+
+    const resumed = resumeMatch(paused, new Date("2026-04-11T10:00:00Z"));
+    expect(resumed.status).toBe(MatchStatus.ACTIVE);
+    expect(resumed.endDate).toBe("2026-06-11");
+    expect(resumed.pausedAt).toBe("");
+  });
+
+  it("flags active matches within two weeks of their end date", () => {
+    const active: Match = { ...proposal, status: MatchStatus.ACTIVE, endDate: "2026-06-01" };
+    expect(isMatchEndingSoon(active, new Date("2026-05-10T00:00:00Z"))).toBe(false);
+    expect(isMatchEndingSoon(active, new Date("2026-05-20T00:00:00Z"))).toBe(true);
+    expect(isMatchEndingSoon({ ...active, status: MatchStatus.PAUSED }, new Date("2026-05-20T00:00:00Z"))).toBe(false);
+  });
+
+  it("collects closure feedback from each side once the match is closed", () => {
+    const active: Match = { ...proposal, status: MatchStatus.ACTIVE };
+    expect(() => submitClosureFeedback(active, "mentee1", "Great", 5)).toThrow();
+
+    const closed = { ...active, ...closeMatch(active, "mentor1", "Goals met") };
+    expect(closed.status).toBe(MatchStatus.COMPLETED);
+    expect(needsClosureFeedback(closed, "mentee1")).toBe(true);
+    expect(() => submitClosureFeedback(closed, "mentee1", "Great", 6)).toThrow();
+
+    const reviewed = { ...closed, ...submitClosureFeedback(closed, "mentee1", "Landed a new role", 5) };
+    expect(reviewed.menteeFeedback?.rating).toBe(5);
+    expect(needsClosureFeedback(reviewed, "mentee1")).toBe(false);
+    expect(needsClosureFeedback(reviewed, "mentor1")).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+import { Match, MatchClosureFeedback, MatchSide, MatchStatus } from "../types";
+import { addDays } from "./recurrence";
+
+/**
+ * Match lifecycle: an admin proposes a match (PENDING), the mentor and mentee each accept or decline,
+ * and it becomes ACTIVE once both accept (REJECTED if either declines). ACTIVE matches can be paused
+ * and resumed, and are closed (COMPLETED) with an outcome summary and rating from each side.
+ * Each helper returns the fields to write; emails and notifications come from the onMatchUpdated trigger.
+ * Answers only record the participant's own response: the trigger moves a proposal to ACTIVE or REJECTED,
+ * and the rules keep each side to its own response and feedback fields.
+ */
+
+/** "Ending soon" reminders go out this many days before endDate. */
+export const ENDING_SOON_DAYS = 14;
+
+export const MATCH_DURATION_OPTIONS: { label: string; weeks?: number }[] = [
+  { label: "No set end date" },
+  { label: "3 months", weeks: 13 },
+  { label: "6 months", weeks: 26 },
+  { label: "12 months", weeks: 52 },
+];
+
+const OPEN_STATUSES = [MatchStatus.PENDING, MatchStatus.ACTIVE, MatchStatus.PAUSED];
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+export const getMatchSide = (match: Match, userId: string): MatchSide | null =>
+  match.mentorId === userId ? "mentor" : match.menteeId === userId ? "mentee" : null;
+
+/** Proposed, running or paused: the pair counts against mentor capacity and stays off the bench. */
+export const isOpenMatch = (match: Match): boolean => OPEN_STATUSES.includes(match.status);
+
+const requireSide = (match: Match, userId: string): MatchSide => {
+  const side = getMatchSide(match, userId);
+  if (!side) throw new Error("Only the mentor or mentee can do this");
+  return side;
+};
+
+const requireStatus = (match: Match, statuses: MatchStatus[], action: string) => {
+  if (!statuses.includes(match.status)) {
+    throw new Error(`A ${match.status.toLowerCase()} match can't be ${action}`);
+  }
+};
+
+export const createMatchProposal = (
+  input: Pick<Match, "organizationId" | "mentorId" | "menteeId" | "durationWeeks"> & {
+    proposedBy: string;
+  },
+  now = new Date()
+): Omit<Match, "id"> => ({
+  organizationId: input.organizationId,
+  mentorId: input.mentorId,
+  menteeId: input.menteeId,
+  status: MatchStatus.PENDING,
+  startDate: toDateString(now),
+  proposedAt: now.toISOString(),
+  proposedBy: input.proposedBy,
+  ...(input.durationWeeks ? { durationWeeks: input.durationWeeks } : {}),
+});
+
+export const respondToMatch = (
+  match: Match,
+  userId: string,
+  decision: "accepted" | "declined",
+  reason?: string,
+  now = new Date()
+): Partial<Match> => {
+  requireStatus(match, [MatchStatus.PENDING], "answered");
+  const side = requireSide(match, userId);
+  const trimmedReason = reason?.trim();
+  if (decision === "declined" && !trimmedReason) {
+    throw new Error("Please give a reason for declining");
+  }
+  const response = {
+    decision,
+    respondedAt: now.toISOString(),
+    ...(trimmedReason ? { reason: trimmedReason } : {}),
+  };
+  return { [`${side}Response` as const]: response };
+};
+
+export const pauseMatch = (
+  match: Match,
+  userId: string,
+  reason?: string,
+  now = new Date()
+): Partial<Match> => {
+  requireStatus(match, [MatchStatus.ACTIVE], "paused");
+  return {
+    status: MatchStatus.PAUSED,
+    pausedAt: now.toISOString(),
+    pausedBy: userId,
+    pauseReason: reason?.trim() || "",
+  };
+};
+
+/** Resumes a paused match, moving endDate out by the whole days it was paused. */
+export const resumeMatch = (match: Match, now = new Date()): Partial<Match> => {
+  requireStatus(match, [MatchStatus.PAUSED], "resumed");
+  const pausedDays = match.pausedAt
+    ? Math.max(0, Math.round((now.getTime() - new Date(match.pausedAt).getTime()) / 86400000))
+    : 0;
+  return {
+    status: MatchStatus.ACTIVE,
+    resumedAt: now.toISOString(),
+    pausedAt: "",
+    pausedBy: "",
+    pauseReason: "",
+    ...(match.endDate && pausedDays > 0
+      ? { endDate: addDays(match.endDate, pausedDays), endingSoonNotifiedAt: "" }
+      : {}),
+  };
+};
+
+export const closeMatch = (
+  match: Match,
+  userId: string,
+  reason?: string,
+  now = new Date()
+): Partial<Match> => {
+  requireStatus(match, [MatchStatus.ACTIVE, MatchStatus.PAUSED], "closed");
+  return {
+    status: MatchStatus.COMPLETED,
+    closedAt: now.toISOString(),
+    closedBy: userId,
+    closureReason: reason?.trim() || "",
+  };
+};
+
+export const submitClosureFeedback = (
+  match: Match,
+  userId: string,
+  outcomeSummary: string,
+  rating: number,
+  now = new Date()
+): Partial<Match> => {
+  requireStatus(match, [MatchStatus.COMPLETED], "reviewed");
+  const side = requireSide(match, userId);
+  if (!outcomeSummary.trim()) throw new Error("Please summarize the outcome of the mentorship");
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error("Rating must be between 1 and 5");
+  }
+  const feedback: MatchClosureFeedback = {
+    outcomeSummary: outcomeSummary.trim(),
+    rating,
+    submittedAt: now.toISOString(),
+  };
+  return { [`${side}Feedback` as const]: feedback };
+};
+
+export const needsClosureFeedback = (match: Match, userId: string): boolean => {
+  const side = getMatchSide(match, userId);
+  return match.status === MatchStatus.COMPLETED && !!side && !match[`${side}Feedback` as const];
+};
+
+/** Whole days from today to endDate (negative once past), or null without an end date. */
+export const getDaysUntilEnd = (match: Match, now = new Date()): number | null => {
+  if (!match.endDate) return null;
+  const today = new Date(`${toDateString(now)}T00:00:00Z`);
+  return Math.round((new Date(`${match.endDate}T00:00:00Z`).getTime() - today.getTime()) / 86400000);
+};
+
+export const isMatchEndingSoon = (match: Match, now = new Date()): boolean => {
+  const days = getDaysUntilEnd(match, now);
+  return match.status === MatchStatus.ACTIVE && days !== null && days <= ENDING_SOON_DAYS;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { Match, MatchStatus, Role, User } from "../types";
+import { applyAiRanking, rankMentors, resolveMatchingWeights, scoreMentor } from "./matchingEngine";
+
+const baseUser: User = {
+  id: "",
+  organizationId: "org1",
+  name: "",
+  email: "",
+  role: Role.MENTOR,
+  avatar: "",
+  title: "",
+  company: "",
+  skills: [],
+  bio: "",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const mentee: User = {
+  ...baseUser,
+  id: "mentee1",
+  name: "Mia",
+  role: Role.MENTEE,
+  goals: ["Leadership", "Public speaking"],
+  skillsToImprove: ["React", "TypeScript"],
+  preferredIndustries: ["Fintech"],
+  mentorshipStyle: "structured",
+  timezone: "America/New_York",
+};
+
+const strong: User = {
+  ...baseUser,
+  id: "mentor-a",
+  name: "Ada",
+  skills: ["React", "TypeScript", "Leadership"],
+  expertise: ["Public Speaking"],
+  industries: ["Fintech"],
+  mentorshipStyle: "structured",
+  timezone: "America/New_York",
+  maxMentees: 2,
+};
+
+const weak: User = {
+  ...baseUser,
+  id: "mentor-b",
+  name: "Bo",
+  skills: ["Marketing"],
+  industries: ["Retail"],
+  mentorshipStyle: "flexible",
+  timezone: "Asia/Tokyo",
+  maxMentees: 2,
+};
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+describe("matchingEngine", () => {
+  it("scores every criterion and explains each one", () => {
+    const result = scoreMentor(mentee, strong, { now });
+    expect(result.total).toBe(100);
+    const skills = result.breakdown.find((b) => b.criterion === "skills");
+    expect(skills?.score).toBe(1);
+    expect(skills?.detail).toContain("react, typescript");
+
+    const weakResult = scoreMentor(mentee, weak, { now });
+    expect(weakResult.breakdown.find((b) => b.criterion === "style")?.score).toBe(0);
+    expect(weakResult.breakdown.find((b) => b.criterion === "location")?.detail).toBe("14h apart");
+    expect(weakResult.total).toBeLessThan(20);
+  });
+
+  it("drops criteria the profiles have no data for and honours org weights", () => {
+    const sparse: User = { ...mentee, goals: [], preferredIndustries: [], mentorshipStyle: undefined, timezone: undefined };
+    const result = scoreMentor(sparse, strong, { now, weights: { skills: 0 } });
+    const scored = result.breakdown.filter((b) => b.score !== null).map((b) => b.criterion);
+    expect(scored).toEqual(["skills", "capacity"]);
+    // Skills has weight 0, so only capacity counts
+    expect(result.total).toBe(100);
+
+    expect(resolveMatchingWeights({ goals: 9, style: -1 })).toMatchObject({ goals: 5, style: 0, skills: 3 });
+  });
+
+  it("ranks deterministically, counting open matches against capacity", () => {
+    const twin: User = { ...strong, id: "mentor-c", name: "Cy" };
+    const matches: Match[] = [
+      { id: "m1", organizationId: "org1", mentorId: "mentor-c", menteeId: "x", status: MatchStatus.PAUSED, startDate: "2026-01-01" },
+    ];
+    const ranked = rankMentors(mentee, [weak, twin, strong], matches, null, now);
+    expect(ranked.map((r) => r.mentorId)).toEqual(["mentor-a", "mentor-c", "mentor-b"]);
+
+    const tied = rankMentors(mentee, [{ ...strong, id: "z", name: "Zed" }, strong], [], null, now);
+    expect(tied.map((r) => r.mentorId)).toEqual(["mentor-a", "z"]);
+  });
+
+  it("lets AI re-rank the front of the list without dropping anyone", () => {
+    const ranked = rankMentors(mentee, [strong, weak], [], null, now);
+    const reranked = applyAiRanking(ranked, ["mentor-b", "unknown"]);
+    expect(reranked.map((r) => r.mentorId)).toEqual(["mentor-b", "mentor-a"]);
+  });
+});
@@ -0,0 +1,196 @@
+import type { Match, MatchingWeights, User } from "../types";
+import { isOpenMatch } from "./matchLifecycle";
+import { getTimeZoneOffsetMinutes, isValidTimeZone } from "./timeZones";
+
+/**
+ * Local, deterministic mentor ranking for the Matching page. Each criterion scores 0-1 (or null
+ * when either profile lacks the data, which drops it from the total), and the total is the
+ * weighted average as 0-100. Weights come from Organization.matchingWeights. Gemini can re-rank
+ * the top of this list, but the list and its breakdown never depend on it.
+ */
+
+export type MatchCriterion = keyof MatchingWeights;
+
+export interface CriterionScore {
+  criterion: MatchCriterion;
+  label: string;
+  weight: number;
+  score: number | null; // 0-1; null = not enough profile data
+  detail: string;
+}
+
+export interface MentorScore {
+  mentorId: string;
+  total: number; // 0-100
+  breakdown: CriterionScore[];
+}
+
+export const MAX_CRITERION_WEIGHT = 5;
+
+export const DEFAULT_MATCHING_WEIGHTS: MatchingWeights = {
+  goals: 3,
+  skills: 3,
+  industry: 2,
+  style: 1,
+  capacity: 1,
+  location: 1,
+};
+
+export const MATCHING_CRITERIA: { criterion: MatchCriterion; label: string; description: string }[] = [
+  { criterion: "goals", label: "Goals", description: "Mentee goals covered by the mentor's skills and expertise" },
+  { criterion: "skills", label: "Skills", description: "Skills the mentee wants to improve that the mentor offers" },
+  { criterion: "industry", label: "Industry", description: "Mentee's preferred industries the mentor has worked in" },
+  { criterion: "style", label: "Style", description: "Mentee's preferred mentorship style versus the mentor's" },
+  { criterion: "capacity", label: "Capacity", description: "Open spots left under the mentor's max mentees" },
+  { criterion: "location", label: "Location", description: "Time zone distance, or same state when time zones are unknown" },
+];
+
+/** Mentor capacity when maxMentees is not set (same default as the Matching page). */
+const DEFAULT_MAX_MENTEES = 2;
+
+/** Org weights with defaults filled in and values clamped to 0..MAX_CRITERION_WEIGHT. */
+export const resolveMatchingWeights = (weights?: Partial<MatchingWeights> | null): MatchingWeights => {
+  const resolved = { ...DEFAULT_MATCHING_WEIGHTS };
+  for (const { criterion } of MATCHING_CRITERIA) {
+    const value = weights?.[criterion];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      resolved[criterion] = Math.min(MAX_CRITERION_WEIGHT, Math.max(0, value));
+    }
+  }
+  return resolved;
+};
+
+const normalize = (terms: (string | undefined)[] | undefined): string[] =>
+  Array.from(
+    new Set((terms || []).map((term) => (term || "").trim().toLowerCase()).filter(Boolean))
+  );
+
+/** Terms overlap when either contains the other ("React" covers "react native"). */
+const termsOverlap = (a: string, b: string) => a.includes(b) || b.includes(a);
+
+const coverage = (
+  wanted: string[],
+  offered: string[]
+): { matched: string[]; score: number } => {
+  const matched = wanted.filter((term) => offered.some((offer) => termsOverlap(term, offer)));
+  return { matched, score: wanted.length ? matched.length / wanted.length : 0 };
+};
+
+const describeCoverage = (matched: string[], total: number, noun: string) =>
+  matched.length ? `${matched.length} of ${total} ${noun}: ${matched.join(", ")}` : `None of ${total} ${noun}`;
+
+const scoreTerms = (wanted: string[], offered: string[], noun: string) => {
+  if (!wanted.length) return { score: null, detail: `Mentee has no ${noun} listed` };
+  const { matched, score } = coverage(wanted, offered);
+  return { score, detail: describeCoverage(matched, wanted.length, noun) };
+};
+
+const scoreStyle = (mentee: User, mentor: User) => {
+  const wanted = mentee.mentorshipStyle;
+  if (!wanted) return { score: null, detail: "Mentee has no style preference" };
+  if (wanted === "any") return { score: 1, detail: "Mentee is open to any style" };
+  if (!mentor.mentorshipStyle) return { score: 0.5, detail: `Mentee prefers ${wanted}; mentor hasn't said` };
+  if (mentor.mentorshipStyle === "any" || mentor.mentorshipStyle === wanted) {
+    return { score: 1, detail: `Both ${wanted}` };
+  }
+  return { score: 0, detail: `Mentee prefers ${wanted}; mentor is ${mentor.mentorshipStyle}` };
+};
+
+const scoreCapacity = (mentor: User, openMatches: number) => {
+  const max = mentor.maxMentees || DEFAULT_MAX_MENTEES;
+  const open = Math.max(0, max - openMatches);
+  return { score: open / max, detail: `${open} of ${max} spot${max === 1 ? "" : "s"} open` };
+};
+
+const scoreLocation = (mentee: User, mentor: User, now: Date) => {
+  if (mentee.timezone && mentor.timezone && isValidTimeZone(mentee.timezone) && isValidTimeZone(mentor.timezone)) {
+    const hoursApart =
+      Math.abs(
+        getTimeZoneOffsetMinutes(now, mentee.timezone) - getTimeZoneOffsetMinutes(now, mentor.timezone)
+      ) / 60;
+    return {
+      score: Math.max(0, 1 - hoursApart / 12),
+      detail: hoursApart === 0 ? "Same time zone" : `${hoursApart}h apart`,
+    };
+  }
+  if (mentee.state && mentor.state) {
+    return mentee.state === mentor.state
+      ? { score: 1, detail: `Both in ${mentor.state}` }
+      : { score: 0, detail: `${mentee.state} vs ${mentor.state}` };
+  }
+  return { score: null, detail: "Location not shared by both" };
+};
+
+export const scoreMentor = (
+  mentee: User,
+  mentor: User,
+  options: { weights?: Partial<MatchingWeights> | null; openMatches?: number; now?: Date } = {}
+): MentorScore => {
+  const weights = resolveMatchingWeights(options.weights);
+  const offered = normalize([...(mentor.skills || []), ...(mentor.expertise || [])]);
+  const results: Record<MatchCriterion, { score: number | null; detail: string }> = {
+    goals: scoreTerms(normalize(mentee.goals), offered, "goals"),
+    skills: scoreTerms(normalize(mentee.skillsToImprove?.length ? mentee.skillsToImprove : mentee.skills), offered, "skills"),
+    industry: mentee.preferredIndustries?.length
+      ? mentor.industries?.length
+        ? scoreTerms(normalize(mentee.preferredIndustries), normalize(mentor.industries), "industries")
+        : { score: 0, detail: "Mentor has no industries listed" }
+      : { score: null, detail: "Mentee has no industry preference" },
+    style: scoreStyle(mentee, mentor),
+    capacity: scoreCapacity(mentor, options.openMatches || 0),
+    location: scoreLocation(mentee, mentor, options.now || new Date()),
+  };
+
+  const breakdown = MATCHING_CRITERIA.map(({ criterion, label }) => ({
+    criterion,
+    label,
+    weight: weights[criterion],
+    ...results[criterion],
+  }));
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const item of breakdown) {
+    if (item.score === null || item.weight <= 0) continue;
+    weighted += item.weight * item.score;
+    totalWeight += item.weight;
+  }
+  return {
+    mentorId: mentor.id,
+    total: totalWeight ? Math.round((weighted / totalWeight) * 100) : 0,
+    breakdown,
+  };
+};
+
+/** Mentors best-first; ties go by name, then id, so the order is stable across renders. */
+export const rankMentors = (
+  mentee: User,
+  mentors: User[],
+  matches: Match[],
+  weights?: Partial<MatchingWeights> | null,
+  now = new Date()
+): MentorScore[] => {
+  const names = new Map(mentors.map((mentor) => [mentor.id, mentor.name]));
+  return mentors
+    .map((mentor) =>
+      scoreMentor(mentee, mentor, {
+        weights,
+        openMatches: matches.filter((m) => m.mentorId === mentor.id && isOpenMatch(m)).length,
+        now,
+      })
+    )
+    .sort(
+      (a, b) =>
+        b.total - a.total ||
+        (names.get(a.mentorId) || "").localeCompare(names.get(b.mentorId) || "") ||
+        a.mentorId.localeCompare(b.mentorId)
+    );
+};
+
+/** Moves the mentors Gemini picked (in its order) to the front; everyone else keeps the local order. */
+export const applyAiRanking = (ranked: MentorScore[], aiMentorIds: string[]): MentorScore[] => {
+  const byId = new Map(ranked.map((score) => [score.mentorId, score]));
+  const picked = Array.from(new Set(aiMentorIds))
+    .map((id) => byId.get(id))
+    .filter((score): score is MentorScore => !!score);
+  return [...picked, ...ranked.filter((score) => !picked.includes(score))];
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { getEffectivePreferences, resolveChannelPreference } from "./notificationPreferences";
+
+describe("notificationPreferences", () => {
+  it("prefers the user's toggle, then the org default, then the platform default", () => {
+    const orgDefaults = { "Goal Updates": { email: false, push: true } };
+    expect(resolveChannelPreference({ "Goal Updates": { email: true, push: false } }, orgDefaults, "Goal Updates", "email"))
+      .toEqual({ allowed: true, source: "user" });
+    expect(resolveChannelPreference({}, orgDefaults, "Goal Updates", "email")).toEqual({
+      allowed: false,
+      source: "organization",
+    });
+    expect(resolveChannelPreference(undefined, null, "System Alerts", "email")).toEqual({
+      allowed: false,
+      source: "platform",
+    });
+  });
+
+  it("fills categories missing from older saved preferences", () => {
+    const effective = getEffectivePreferences({ "New Messages": { email: false, push: true } });
+    expect(effective["New Messages"]).toEqual({ email: false, push: true });
+    expect(effective["Match Updates"]).toEqual({ email: true, push: true });
+  });
+});
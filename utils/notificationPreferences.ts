@@ -0,0 +1,79 @@
+import type { EmailDigestFrequency, Notification, NotificationPreferences } from "../types";
+
+/**
+ * Notification categories users (and org admins, as defaults) opt in or out of per channel.
+ * "push" covers in-app notifications and the FCM push sent for them. The Cloud Functions copy
+ * in functions/src/utils/notificationPreferences.ts decides delivery with the same rules.
+ */
+
+export type NotificationCategory =
+  | "New Messages"
+  | "Match Updates"
+  | "Meeting Reminders"
+  | "Goal Updates"
+  | "System Alerts";
+
+export type NotificationChannel = "email" | "push";
+
+/** Where an allow/deny decision came from: the user's own toggle, the org default, or ours. */
+export type PreferenceSource = "user" | "organization" | "platform";
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  "New Messages",
+  "Match Updates",
+  "Meeting Reminders",
+  "Goal Updates",
+  "System Alerts",
+];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<NotificationCategory, { email: boolean; push: boolean }> = {
+  "New Messages": { email: true, push: true },
+  "Match Updates": { email: true, push: true },
+  "Meeting Reminders": { email: true, push: true },
+  "Goal Updates": { email: true, push: false },
+  "System Alerts": { email: false, push: true },
+};
+
+export const NOTIFICATION_TYPE_CATEGORIES: Record<Notification["type"], NotificationCategory> = {
+  message: "New Messages",
+  match: "Match Updates",
+  meeting: "Meeting Reminders",
+  goal: "Goal Updates",
+  system: "System Alerts",
+};
+
+/** Digest users get one email at 8am their time (Mondays for weekly) instead of one per event. */
+export const EMAIL_DIGEST_OPTIONS: { value: EmailDigestFrequency; label: string }[] = [
+  { value: "immediate", label: "Immediately" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest (Mondays)" },
+];
+
+/** Whether a channel is on for a category: the user's toggle, else the org default, else ours. */
+export const resolveChannelPreference = (
+  userPrefs: NotificationPreferences | null | undefined,
+  orgDefaults: NotificationPreferences | null | undefined,
+  category: NotificationCategory,
+  channel: NotificationChannel
+): { allowed: boolean; source: PreferenceSource } => {
+  const userValue = userPrefs?.[category]?.[channel];
+  if (typeof userValue === "boolean") return { allowed: userValue, source: "user" };
+  const orgValue = orgDefaults?.[category]?.[channel];
+  if (typeof orgValue === "boolean") return { allowed: orgValue, source: "organization" };
+  return { allowed: DEFAULT_NOTIFICATION_PREFERENCES[category][channel], source: "platform" };
+};
+
+/** Every category with both channels resolved, for the settings toggles. */
+export const getEffectivePreferences = (
+  userPrefs: NotificationPreferences | null | undefined,
+  orgDefaults?: NotificationPreferences | null
+): Record<NotificationCategory, { email: boolean; push: boolean }> => {
+  const effective = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  for (const category of NOTIFICATION_CATEGORIES) {
+    effective[category] = {
+      email: resolveChannelPreference(userPrefs, orgDefaults, category, "email").allowed,
+      push: resolveChannelPreference(userPrefs, orgDefaults, category, "push").allowed,
+    };
+  }
+  return effective;
+};
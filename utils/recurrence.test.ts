@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { CalendarEvent } from "../types";
+import {
+  expandRecurringEvent,
+  generateOccurrenceDates,
+  getRecurrenceLines,
+  planRecurringDelete,
+  planRecurringEdit,
+} from "./recurrence";
+
+const series: CalendarEvent = {
+  id: "series1",
+  organizationId: "org1",
+  title: "Weekly check-in",
+  date: "2026-03-02",
+  startTime: "09:00",
+  timeZone: "America/New_York",
+  startsAt: "2026-03-02T14:00:00.000Z",
+  duration: "1h",
+  type: "Virtual",
+  recurrence: { frequency: "WEEKLY", count: 4 },
+  recurrenceExceptions: ["2026-03-16"],
+  googleCalendarEventId: "g1",
+  createdAt: "2026-02-01T00:00:00.000Z",
+};
+
+describe("recurrence", () => {
+  it("generates dates for each frequency, honouring count and until", () => {
+    expect([...generateOccurrenceDates("2026-01-30", { frequency: "DAILY", interval: 2, count: 3 })]).toEqual([
+      "2026-01-30",
+      "2026-02-01",
+      "2026-02-03",
+    ]);
+    expect([...generateOccurrenceDates("2026-01-31", { frequency: "MONTHLY", until: "2026-05-31" })]).toEqual([
+      "2026-01-31",
+      "2026-03-31",
+      "2026-05-31",
+    ]);
+  });
+
+  it("expands occurrences on the series' wall clock and skips exceptions", () => {
+    const occurrences = expandRecurringEvent(
+      series,
+      new Date("2026-03-01T00:00:00Z"),
+      new Date("2026-04-01T00:00:00Z")
+    );
+    expect(occurrences.map((o) => o.occurrenceDate)).toEqual(["2026-03-02", "2026-03-09", "2026-03-23"]);
+    // Same 9:00 local time after the DST change on 2026-03-08
+    expect(occurrences[1].startsAt).toBe("2026-03-09T13:00:00.000Z");
+  });
+
+  it("writes RRULE and EXDATE lines", () => {
+    expect(getRecurrenceLines(series)).toEqual([
+      "RRULE:FREQ=WEEKLY;COUNT=4",
+      "EXDATE;TZID=America/New_York:20260316T090000",
+    ]);
+    expect(
+      getRecurrenceLines({ ...series, recurrence: { frequency: "WEEKLY", interval: 2, until: "2026-06-01" } })[0]
+    ).toBe("RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20260601T130000Z");
+  });
+
+  it("plans edits for this, following and all occurrences", () => {
+    const thisOnly = planRecurringEdit(series, "2026-03-09", "this", { startTime: "10:00" });
+    expect(thisOnly.seriesUpdates).toEqual({ recurrenceExceptions: ["2026-03-09", "2026-03-16"] });
+    expect(thisOnly.newEvent).toMatchObject({ recurringEventId: "series1", originalOccurrenceDate: "2026-03-09", startTime: "10:00" });
+    expect(thisOnly.newEvent).not.toHaveProperty("recurrence");
+    expect(thisOnly.newEvent).not.toHaveProperty("googleCalendarEventId");
+
+    const following = planRecurringEdit(series, "2026-03-16", "following", { date: "2026-03-16", startTime: "10:00" });
+    expect(following.seriesUpdates).toEqual({ recurrence: { frequency: "WEEKLY", count: 2 }, recurrenceExceptions: [] });
+    expect(following.newEvent).toMatchObject({
+      date: "2026-03-16",
+      recurrence: { frequency: "WEEKLY", count: 2 },
+      recurrenceExceptions: ["2026-03-16"],
+    });
+
+    const all = planRecurringEdit(series, "2026-03-09", "all", { date: "2026-03-10", startTime: "10:00" });
+    expect(all.seriesUpdates).toMatchObject({ date: "2026-03-03", startTime: "10:00", recurrenceExceptions: ["2026-03-17"] });
+  });
+
+  it("plans deletes", () => {
+    expect(planRecurringDelete(series, "2026-03-02", "following")).toEqual({ deleteSeries: true });
+    expect(planRecurringDelete(series, "2026-03-09", "this").seriesUpdates).toEqual({
+      recurrenceExceptions: ["2026-03-09", "2026-03-16"],
+    });
+    expect(
+      planRecurringDelete({ ...series, recurrence: { frequency: "WEEKLY" } }, "2026-03-23", "following").seriesUpdates
+    ).toEqual({ recurrence: { frequency: "WEEKLY", until: "2026-03-22" }, recurrenceExceptions: ["2026-03-16"] });
+  });
+});
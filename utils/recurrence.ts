@@ -0,0 +1,290 @@
+import type { CalendarEvent, RecurrenceRule } from "../types";
+import {
+  resolveTimeZone,
+  toEventTiming,
+  utcToZonedDateTime,
+  zonedDateTimeToUtc,
+} from "./timeZones";
+
+/**
+ * Recurring calendar events are stored once, as a series: the first occurrence's date/startTime
+ * plus a `recurrence` rule and any `recurrenceExceptions`. Occurrences are expanded on read.
+ * Editing one occurrence stores an override event (`recurringEventId`) and excludes that date.
+ */
+
+export type RecurrenceEditScope = "this" | "following" | "all";
+
+export interface RecurrenceEditPlan {
+  /** Changes to write to the series event. */
+  seriesUpdates?: Partial<CalendarEvent>;
+  /** A new event to create: an override for "this", or the split-off series for "following". */
+  newEvent?: Omit<CalendarEvent, "id" | "createdAt">;
+  /** Delete the series event itself. */
+  deleteSeries?: boolean;
+}
+
+// Upper bound on generated dates so open-ended rules can't loop forever (~13 years of daily meetings)
+const MAX_ITERATIONS = 5000;
+
+const parseDate = (date: string) => date.split("-").map(Number) as [number, number, number];
+
+/** YYYY-MM-DD `days` calendar days after `date` (negative to go back). */
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = parseDate(date);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string): number => {
+  const [fy, fm, fd] = parseDate(from);
+  const [ty, tm, td] = parseDate(to);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+};
+
+const nthDate = (startDate: string, rule: RecurrenceRule, n: number): string | null => {
+  const interval = Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case "DAILY":
+      return addDays(startDate, n * interval);
+    case "WEEKLY":
+      return addDays(startDate, n * 7 * interval);
+    case "MONTHLY": {
+      const [year, month, day] = parseDate(startDate);
+      const target = new Date(Date.UTC(year, month - 1 + n * interval, 1));
+      const daysInMonth = new Date(
+        Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      // Like RRULE, months without the start day (e.g. the 31st) are skipped rather than clamped
+      if (day > daysInMonth) return null;
+      target.setUTCDate(day);
+      return target.toISOString().slice(0, 10);
+    }
+  }
+};
+
+/** Wall-clock dates the rule produces from `startDate`, in order, exceptions not yet removed. */
+export function* generateOccurrenceDates(
+  startDate: string,
+  rule: RecurrenceRule
+): Generator<string> {
+  let emitted = 0;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    if (rule.count !== undefined && emitted >= rule.count) return;
+    const date = nthDate(startDate, rule, n);
+    if (!date) continue;
+    if (rule.until && date > rule.until) return;
+    emitted++;
+    yield date;
+  }
+}
+
+/**
+ * Occurrences of a series that start in [rangeStart, rangeEnd), each a copy of the series with its
+ * own date/startsAt and `occurrenceDate`. Times stay fixed on the series' wall clock across DST.
+ */
+export const expandRecurringEvent = (
+  event: CalendarEvent,
+  rangeStart: Date,
+  rangeEnd: Date
+): CalendarEvent[] => {
+  if (!event.recurrence) return [event];
+  const timeZone = resolveTimeZone(event.timeZone);
+  const exceptions = new Set(event.recurrenceExceptions || []);
+  const occurrences: CalendarEvent[] = [];
+  for (const date of generateOccurrenceDates(event.date, event.recurrence)) {
+    const start = zonedDateTimeToUtc(date, event.startTime, timeZone);
+    if (start >= rangeEnd) break;
+    if (start < rangeStart || exceptions.has(date)) continue;
+    occurrences.push({
+      ...event,
+      ...toEventTiming(date, event.startTime, timeZone),
+      occurrenceDate: date,
+    });
+  }
+  return occurrences;
+};
+
+/** Replaces each series with its occurrences in range; single events pass through untouched. */
+export const expandCalendarEvents = (
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): CalendarEvent[] =>
+  events.flatMap((event) =>
+    event.recurrence ? expandRecurringEvent(event, rangeStart, rangeEnd) : [event]
+  );
+
+const toICSLocalDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, "")}T${time.replace(":", "")}00`;
+
+/**
+ * RFC 5545 lines for a series (RRULE plus EXDATE), for ICS files and Google Calendar's
+ * `recurrence` field. DTSTART must be written as TZID-local time in the event's zone to match.
+ */
+export const getRecurrenceLines = (event: CalendarEvent): string[] => {
+  const rule = event.recurrence;
+  if (!rule) return [];
+  const timeZone = resolveTimeZone(event.timeZone);
+  const parts = [`FREQ=${rule.frequency}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.until) {
+    // UNTIL has to be UTC when DTSTART carries a TZID; use the last day's start so it stays inclusive
+    const until = zonedDateTimeToUtc(rule.until, event.startTime, timeZone);
+    parts.push(`UNTIL=${until.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`);
+  }
+  const lines = [`RRULE:${parts.join(";")}`];
+  if (event.recurrenceExceptions?.length) {
+    lines.push(
+      `EXDATE;TZID=${timeZone}:${event.recurrenceExceptions
+        .map((date) => toICSLocalDateTime(date, event.startTime))
+        .join(",")}`
+    );
+  }
+  return lines;
+};
+
+/** An instant as an ICS local date-time (YYYYMMDDTHHmmss) on `timeZone`'s wall clock. */
+export const formatICSLocalDateTime = (instant: Date, timeZone: string): string => {
+  const { date, time } = utcToZonedDateTime(instant, timeZone);
+  return toICSLocalDateTime(date, time);
+};
+
+/** Short human summary such as "Every 2 weeks, 10 times". */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  else if (rule.until) text += `, until ${rule.until}`;
+  return text;
+};
+
+// Fields that describe one stored document (ids, sync state, reminder flags) rather than the meeting
+const PER_DOCUMENT_KEYS = new Set([
+  "id",
+  "createdAt",
+  "occurrenceDate",
+  "recurrence",
+  "recurrenceExceptions",
+  "googleCalendarEventId",
+  "outlookCalendarEventId",
+  "appleCalendarEventId",
+  "syncedToGoogle",
+  "syncedToOutlook",
+  "syncedToApple",
+  "reminder24hSent",
+  "reminder1hSent",
+  "occurrenceReminders",
+]);
+
+const toNewEventBase = (series: CalendarEvent): Omit<CalendarEvent, "id" | "createdAt"> =>
+  Object.fromEntries(
+    Object.entries(series).filter(([key]) => !PER_DOCUMENT_KEYS.has(key))
+  ) as Omit<CalendarEvent, "id" | "createdAt">;
+
+const countOccurrencesBefore = (series: CalendarEvent, date: string): number => {
+  let count = 0;
+  for (const occurrence of generateOccurrenceDates(series.date, series.recurrence!)) {
+    if (occurrence >= date) break;
+    count++;
+  }
+  return count;
+};
+
+/** The series rule cut off just before `occurrenceDate`, and the rule for what remains. */
+const splitRule = (series: CalendarEvent, occurrenceDate: string) => {
+  const { frequency, interval, count, until } = series.recurrence!;
+  const base: RecurrenceRule = interval && interval > 1 ? { frequency, interval } : { frequency };
+  if (count !== undefined) {
+    const before = countOccurrencesBefore(series, occurrenceDate);
+    return {
+      head: { ...base, count: before },
+      tail: { ...base, count: Math.max(1, count - before) },
+    };
+  }
+  return {
+    head: { ...base, until: addDays(occurrenceDate, -1) },
+    tail: until ? { ...base, until } : base,
+  };
+};
+
+/**
+ * How to apply `updates` (already in series form: date/startTime/timeZone/startsAt) to one occurrence
+ * of a series with the given scope. "following" from the first occurrence is the same as "all".
+ */
+export const planRecurringEdit = (
+  series: CalendarEvent,
+  occurrenceDate: string,
+  scope: RecurrenceEditScope,
+  updates: Partial<CalendarEvent>
+): RecurrenceEditPlan => {
+  const exceptions = series.recurrenceExceptions || [];
+
+  if (scope === "all" || (scope === "following" && occurrenceDate === series.date)) {
+    // Moving one occurrence's date moves the whole series by the same number of days
+    const shift = updates.date ? daysBetween(occurrenceDate, updates.date) : 0;
+    return {
+      seriesUpdates: {
+        ...updates,
+        date: addDays(series.date, shift),
+        ...(shift !== 0 && { recurrenceExceptions: exceptions.map((d) => addDays(d, shift)) }),
+      },
+    };
+  }
+
+  if (scope === "this") {
+    return {
+      seriesUpdates: {
+        recurrenceExceptions: Array.from(new Set([...exceptions, occurrenceDate])).sort(),
+      },
+      newEvent: {
+        ...toNewEventBase(series),
+        ...updates,
+        recurringEventId: series.id,
+        originalOccurrenceDate: occurrenceDate,
+      },
+    };
+  }
+
+  const { head, tail } = splitRule(series, occurrenceDate);
+  const moved = !!updates.date && updates.date !== occurrenceDate;
+  return {
+    seriesUpdates: {
+      recurrence: head,
+      recurrenceExceptions: exceptions.filter((d) => d < occurrenceDate),
+    },
+    newEvent: {
+      ...toNewEventBase(series),
+      ...updates,
+      recurrence: tail,
+      // Exceptions only line up with the new series if its dates didn't move
+      recurrenceExceptions: moved ? [] : exceptions.filter((d) => d >= occurrenceDate),
+    },
+  };
+};
+
+/** How to delete one occurrence of a series with the given scope. */
+export const planRecurringDelete = (
+  series: CalendarEvent,
+  occurrenceDate: string,
+  scope: RecurrenceEditScope
+): RecurrenceEditPlan => {
+  if (scope === "all" || (scope === "following" && occurrenceDate === series.date)) {
+    return { deleteSeries: true };
+  }
+  const exceptions = series.recurrenceExceptions || [];
+  if (scope === "this") {
+    return {
+      seriesUpdates: {
+        recurrenceExceptions: Array.from(new Set([...exceptions, occurrenceDate])).sort(),
+      },
+    };
+  }
+  return {
+    seriesUpdates: {
+      recurrence: splitRule(series, occurrenceDate).head,
+      recurrenceExceptions: exceptions.filter((d) => d < occurrenceDate),
+    },
+  };
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { CareerTemplate, DiscussionGuide, TrainingVideo } from "../types";
+import {
+  DEFAULT_LIBRARY_FILTERS,
+  getLengthBucket,
+  getMatchedInterests,
+  getViewerInterests,
+  indexLibrary,
+  LibraryFilters,
+  searchLibrary,
+} from "./resourceSearch";
+
+const guide: DiscussionGuide = {
+  id: "g1",
+  title: "The First Meeting Checklist",
+  readTime: "4 min read",
+  description: "Set expectations early.",
+  content: "<p>Agree on a <strong>cadence</strong> and how you&#39;ll give feedback.</p>",
+  author: "Dana",
+  date: "Jan 1, 2026",
+  tags: ["Leadership"],
+  isPlatform: true,
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+const template: CareerTemplate = {
+  id: "t1",
+  title: "Individual Development Plan",
+  type: "PDF",
+  size: "1.2 MB",
+  description: "Quarterly goals worksheet.",
+  content: "",
+  fileUrl: "https://files.example.com/idp.pdf",
+  tags: ["Career Planning"],
+  isPlatform: false,
+  organizationId: "org1",
+  createdAt: "2026-03-01T00:00:00.000Z",
+};
+
+const video: TrainingVideo = {
+  id: "v1",
+  title: "Leading Remote Teams",
+  duration: "",
+  description: "A webinar for new managers.",
+  thumbnail: "",
+  transcript: "Today we talk about asynchronous standups and psychological safety.",
+  lengthMinutes: 45,
+  tags: ["Team Management", "Public Speaking"],
+  isPlatform: false,
+  organizationId: "org1",
+  createdAt: "2026-02-01T00:00:00.000Z",
+};
+
+const index = indexLibrary([guide], [template], [video]);
+const search = (filters: Partial<LibraryFilters>, viewer?: Parameters<typeof searchLibrary>[2]) =>
+  searchLibrary(index, { ...DEFAULT_LIBRARY_FILTERS, ...filters }, viewer).map((r) => r.item.resource.id);
+
+describe("resourceSearch", () => {
+  it("searches titles, guide content and video transcripts", () => {
+    expect(search({ query: "checklist" })).toEqual(["g1"]);
+    expect(search({ query: "you'll give FEEDBACK" })).toEqual(["g1"]);
+    expect(search({ query: "psychological safety" })).toEqual(["v1"]);
+    expect(search({ query: "safety checklist" })).toEqual([]);
+  });
+
+  it("ranks title matches above body matches", () => {
+    const withBodyMatch = indexLibrary(
+      [{ ...guide, id: "g2", title: "Weekly sync", content: "<p>Leading by example</p>", createdAt: "2026-06-01T00:00:00.000Z" }],
+      [],
+      [video]
+    );
+    const results = searchLibrary(withBodyMatch, { ...DEFAULT_LIBRARY_FILTERS, query: "leading" });
+    expect(results.map((r) => r.item.resource.id)).toEqual(["v1", "g2"]);
+  });
+
+  it("filters by source, type, skill and length", () => {
+    expect(search({ source: "platform" })).toEqual(["g1"]);
+    expect(search({ type: "template" })).toEqual(["t1"]);
+    expect(search({ skill: "team management" })).toEqual(["v1"]);
+    expect(search({ length: "short" })).toEqual(["g1"]);
+    expect(search({ length: "long" })).toEqual(["v1"]);
+    // An uploaded document has no known length
+    expect(search({ length: "medium" })).toEqual([]);
+  });
+
+  it("sorts by newest, title and shortest", () => {
+    expect(search({ sort: "newest" })).toEqual(["t1", "v1", "g1"]);
+    expect(search({ sort: "title" })).toEqual(["t1", "v1", "g1"]);
+    expect(search({ sort: "shortest" })).toEqual(["g1", "v1", "t1"]);
+  });
+
+  it("ranks items tagged with the viewer's skills and goals first", () => {
+    expect(search({})).toEqual(["t1", "v1", "g1"]);
+    expect(search({}, { skills: ["Leadership"], goals: [] })).toEqual(["g1", "t1", "v1"]);
+
+    const [top] = searchLibrary(index, DEFAULT_LIBRARY_FILTERS, {
+      skills: [],
+      goals: ["Get better at public speaking"],
+    });
+    expect(top.item.resource.id).toBe("v1");
+    expect(top.matchedInterests).toEqual(["Public Speaking"]);
+  });
+
+  it("matches goal text on whole words only", () => {
+    const interests = getViewerInterests({ skills: [], goals: ["Stop being fragile"] });
+    expect(getMatchedInterests(["Agile"], interests)).toEqual([]);
+    expect(getMatchedInterests(["Node.js"], getViewerInterests({ skills: ["node.js"] }))).toEqual(["Node.js"]);
+  });
+
+  it("buckets lengths", () => {
+    expect(getLengthBucket(null)).toBeNull();
+    expect(getLengthBucket(10)).toBe("short");
+    expect(getLengthBucket(30)).toBe("medium");
+    expect(getLengthBucket(31)).toBe("long");
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Client-side search for the resource library: full-text matching across titles, descriptions,
+ * tags, guide/document bodies and video transcripts, filters by source, type, skill and length,
+ * and ranking that favours items tagged with the viewer's skills and goals.
+ */
+import { CareerTemplate, DiscussionGuide, TrainingVideo, User } from "../types";
+
+export type ResourceSource = "all" | "platform" | "organization";
+export type LibraryItemType = "guide" | "template" | "video";
+export type LibraryLength = "any" | "short" | "medium" | "long";
+export type LibrarySort = "relevance" | "newest" | "title" | "shortest";
+
+export interface LibraryFilters {
+  query: string;
+  source: ResourceSource;
+  type: LibraryItemType | "all";
+  skill: string; // "" = any skill
+  length: LibraryLength;
+  sort: LibrarySort;
+}
+
+export const DEFAULT_LIBRARY_FILTERS: LibraryFilters = {
+  query: "",
+  source: "all",
+  type: "all",
+  skill: "",
+  length: "any",
+  sort: "relevance",
+};
+
+/** Upper bound in minutes for each length bucket (long = anything above medium). */
+export const LENGTH_LIMITS = { short: 10, medium: 30 } as const;
+
+export type LibraryItem =
+  | { type: "guide"; resource: DiscussionGuide }
+  | { type: "template"; resource: CareerTemplate }
+  | { type: "video"; resource: TrainingVideo };
+
+export interface IndexedLibraryItem {
+  item: LibraryItem;
+  minutes: number | null; // Unknown for uploaded documents and videos without a length
+  tags: string[];
+  fields: { title: string; tags: string; description: string; body: string };
+}
+
+export interface LibraryResult {
+  item: LibraryItem;
+  minutes: number | null;
+  /** Item tags that are among the viewer's skills or goals */
+  matchedInterests: string[];
+  score: number;
+}
+
+export type LibraryViewer = Pick<User, "skills" | "goals" | "skillsToImprove">;
+
+const TEXT_ENTITIES: Record<string, string> = { nbsp: " ", amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'" };
+
+const normalize = (value: string): string =>
+  value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, (_entity, name: string) => TEXT_ENTITIES[name]);
+
+const countMinutes = (text: string): number | null => {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return words ? Math.max(1, Math.ceil(words / 200)) : null;
+};
+
+/** Minutes from labels like "5 min read"; null when there's no number. */
+export const parseMinutes = (label: string | undefined): number | null => {
+  const match = /(\d+)\s*(?:min|m\b)/i.exec(label || "");
+  return match ? Number(match[1]) : null;
+};
+
+/** Bucket for a running/reading time; unknown lengths only appear under "any". */
+export const getLengthBucket = (minutes: number | null): LibraryLength | null => {
+  if (minutes === null) return null;
+  if (minutes <= LENGTH_LIMITS.short) return "short";
+  if (minutes <= LENGTH_LIMITS.medium) return "medium";
+  return "long";
+};
+
+export const getItemKey = (item: LibraryItem): string => `${item.type}:${item.resource.id}`;
+
+/** Flattens the three library collections and precomputes what search and filters read. */
+export const indexLibrary = (
+  guides: DiscussionGuide[],
+  templates: CareerTemplate[],
+  videos: TrainingVideo[]
+): IndexedLibraryItem[] => {
+  const items: LibraryItem[] = [
+    ...guides.map((resource) => ({ type: "guide" as const, resource })),
+    ...templates.map((resource) => ({ type: "template" as const, resource })),
+    ...videos.map((resource) => ({ type: "video" as const, resource })),
+  ];
+
+  return items.map((item) => {
+    const { resource } = item;
+    const tags = resource.tags || [];
+    let body: string;
+    let minutes: number | null;
+    if (item.type === "guide") {
+      body = htmlToText(item.resource.content || "");
+      minutes = parseMinutes(item.resource.readTime) ?? countMinutes(body);
+    } else if (item.type === "template") {
+      body = htmlToText(item.resource.content || "");
+      // Uploaded files can't be measured; only in-app documents get a reading time
+      minutes = countMinutes(body);
+    } else {
+      body = item.resource.transcript || "";
+      minutes = item.resource.lengthMinutes || null;
+    }
+    return {
+      item,
+      minutes,
+      tags,
+      fields: {
+        title: normalize(resource.title || ""),
+        tags: normalize(tags.join(" ")),
+        description: normalize(resource.description || ""),
+        body: normalize(body),
+      },
+    };
+  });
+};
+
+// Weight of a query term found in each field; every term must match somewhere
+const FIELD_WEIGHTS = { title: 5, tags: 4, description: 2, body: 1 } as const;
+const INTEREST_WEIGHT = 3;
+
+const queryTerms = (query: string): string[] =>
+  normalize(query)
+    .split(/[^\p{L}\p{N}+#.]+/u)
+    .map((term) => term.replace(/^\.+|\.+$/g, ""))
+    .filter(Boolean);
+
+const scoreTerms = (entry: IndexedLibraryItem, terms: string[]): number | null => {
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+      if (entry.fields[field].includes(term)) termScore += FIELD_WEIGHTS[field];
+    }
+    if (!termScore) return null;
+    score += termScore;
+  }
+  return score;
+};
+
+/** Viewer's skills, skills to improve and goals, normalized for tag comparison. */
+export const getViewerInterests = (viewer: LibraryViewer | null | undefined): string[] =>
+  [...(viewer?.skills || []), ...(viewer?.skillsToImprove || []), ...(viewer?.goals || [])]
+    .map((interest) => normalize(interest.trim()))
+    .filter(Boolean);
+
+// Whole-word comparison: "agile" must not match inside "fragile"
+const asPhrase = (value: string): string => ` ${value.replace(/[^\p{L}\p{N}+#]+/gu, " ").trim()} `;
+
+/**
+ * Tags that match one of the viewer's interests. Skills match exactly; goals are free text,
+ * so a goal like "Get better at public speaking" matches the "Public Speaking" tag.
+ */
+export const getMatchedInterests = (tags: string[] | undefined, interests: string[]): string[] =>
+  (tags || []).filter((tag) => {
+    const phrase = asPhrase(normalize(tag));
+    return phrase.trim() !== "" && interests.some((interest) => asPhrase(interest).includes(phrase));
+  });
+
+const createdTime = (item: LibraryItem): number => Date.parse(item.resource.createdAt) || 0;
+
+const compareResults = (sort: LibrarySort) => (a: LibraryResult, b: LibraryResult): number => {
+  switch (sort) {
+    case "title":
+      return a.item.resource.title.localeCompare(b.item.resource.title, undefined, { sensitivity: "base" });
+    case "shortest":
+      // Unknown lengths sort last
+      return (a.minutes ?? Infinity) - (b.minutes ?? Infinity) || createdTime(b.item) - createdTime(a.item);
+    case "newest":
+      return createdTime(b.item) - createdTime(a.item);
+    default:
+      return b.score - a.score || createdTime(b.item) - createdTime(a.item);
+  }
+};
+
+/**
+ * Applies `filters` to an index from indexLibrary. Items tagged with the viewer's interests
+ * rank higher under "relevance", so with no query the list doubles as "picked for you".
+ */
+export const searchLibrary = (
+  index: IndexedLibraryItem[],
+  filters: LibraryFilters,
+  viewer?: LibraryViewer | null
+): LibraryResult[] => {
+  const terms = queryTerms(filters.query);
+  const skill = normalize(filters.skill.trim());
+  const interests = getViewerInterests(viewer);
+  const results: LibraryResult[] = [];
+
+  for (const entry of index) {
+    const { item } = entry;
+    if (filters.type !== "all" && item.type !== filters.type) continue;
+    if (filters.source === "platform" && !item.resource.isPlatform) continue;
+    if (filters.source === "organization" && item.resource.isPlatform) continue;
+    if (skill && !entry.tags.some((tag) => normalize(tag.trim()) === skill)) continue;
+    if (filters.length !== "any" && getLengthBucket(entry.minutes) !== filters.length) continue;
+
+    const termScore = scoreTerms(entry, terms);
+    if (termScore === null) continue;
+
+    const matchedInterests = getMatchedInterests(entry.tags, interests);
+    results.push({
+      item,
+      minutes: entry.minutes,
+      matchedInterests,
+      score: termScore + matchedInterests.length * INTEREST_WEIGHT,
+    });
+  }
+
+  return results.sort(compareResults(filters.sort));
+};
+
+/** True when anything narrows the list beyond the platform/organization toggle. */
+export const hasActiveSearch = (filters: LibraryFilters): boolean =>
+  !!filters.query.trim() || !!filters.skill || filters.length !== "any";
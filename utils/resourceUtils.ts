@@ -23,3 +23,14 @@ export const isWordDocument = (file: File): boolean => {
         file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
         file.type === 'application/msword';
 };
+
+/**
+ * Estimated reading time for HTML content at 200 words a minute, e.g. "4 min read".
+ */
+export const getReadTimeFromContent = (html: string): string => {
+    if (!html?.trim()) return '1 min read';
+    const text = html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+    const wordCount = text ? text.split(/\s+/).filter(Boolean).length : 0;
+    const minutes = Math.max(1, Math.ceil(wordCount / 200));
+    return `${minutes} min read`;
+};
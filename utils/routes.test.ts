@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  blogPostPath,
+  calendarEventPath,
+  chatPath,
+  goalPath,
+  notificationPage,
+  pageToPath,
+  pathToBlogSlug,
+  pathToPage,
+  pathToPublicRoute,
+} from "./routes";
+
+describe("routes", () => {
+  it("maps page keys onto paths", () => {
+    expect(pageToPath("dashboard")).toBe("/dashboard");
+    expect(pageToPath("settings:billing")).toBe("/settings/billing");
+    expect(pageToPath("chat:group one")).toBe("/chat/group%20one");
+    expect(pageToPath("settings:")).toBe("/settings");
+  });
+
+  it("round-trips paths back to page keys", () => {
+    for (const page of ["dashboard", "my-goals", "chat:abc123", "video-call:m:1", "user-management:organizations"]) {
+      expect(pathToPage(pageToPath(page))).toBe(page);
+    }
+    expect(pathToPage("/settings/billing/")).toBe("settings:billing");
+  });
+
+  it("accepts legacy email and OAuth paths", () => {
+    expect(pathToPage("/goals")).toBe("my-goals");
+    expect(pathToPage("/auth/outlook/callback")).toBe("settings:calendar");
+  });
+
+  it("builds deep links to a chat, goal or event", () => {
+    expect(chatPath("user 2")).toBe("/chat/user%202");
+    expect(pathToPage(goalPath("goal-1"))).toBe("my-goals:goal-1");
+    expect(pathToPage(calendarEventPath("event-1"))).toBe("calendar:event-1");
+  });
+
+  it("picks the page a notification opens", () => {
+    expect(notificationPage({ chatId: "user-2", eventId: "event-1" })).toBe("chat:user-2");
+    expect(notificationPage({ goalId: "goal-1" })).toBe("my-goals:goal-1");
+    expect(notificationPage({ eventId: "event-1" })).toBe("calendar:event-1");
+    expect(notificationPage({})).toBeNull();
+  });
+
+  it("leaves public and unknown paths to the public router", () => {
+    expect(pathToPage("/")).toBeNull();
+    expect(pathToPage("/pricing")).toBeNull();
+    expect(pathToPage("/nope")).toBeNull();
+    expect(pathToPublicRoute("/pricing")).toBe("pricing");
+    expect(pathToPublicRoute("/")).toBe("landing");
+    expect(pathToPublicRoute("/chat")).toBeNull();
+  });
+
+  it("routes blog article paths to the blog page", () => {
+    expect(blogPostPath("active-listening")).toBe("/blog/active-listening");
+    expect(pathToBlogSlug("/blog/active-listening/")).toBe("active-listening");
+    expect(pathToBlogSlug(blogPostPath("q&a"))).toBe("q&a");
+    expect(pathToBlogSlug("/blog")).toBeNull();
+    expect(pathToBlogSlug("/blog/a/b")).toBeNull();
+    expect(pathToPublicRoute("/blog/active-listening")).toBe("blog");
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * URL <-> page key mapping for the signed-in app.
+ *
+ * Page keys are the strings App.tsx switches on ("dashboard", "chat:<id>", "settings:billing",
+ * "video-call:<meetingId>"). Each maps onto a path by turning the first ":" into "/", so
+ * "settings:billing" lives at /settings/billing and emails / push notifications can link there.
+ */
+
+const POST_LOGIN_PAGE_KEY = "postLoginPage";
+
+/** First segment of every page key the app can render. */
+const APP_PAGE_KEYS = new Set([
+  "setup",
+  "mentor-onboarding",
+  "mentee-onboarding",
+  "dashboard",
+  "participants",
+  "matching",
+  "my-goals",
+  "resources",
+  "chat",
+  "chat-mentors",
+  "chat-mentees",
+  "calendar",
+  "referrals",
+  "notifications",
+  "moderation",
+  "platform-operator-management",
+  "user-management",
+  "settings",
+  "video-call",
+]);
+
+/** Paths that predate the page keys (email links, OAuth redirect URIs). */
+const PATH_ALIASES: Record<string, string> = {
+  "/goals": "my-goals",
+  "/auth/outlook/callback": "settings:calendar",
+  "/auth/apple/callback": "settings:calendar",
+};
+
+/** Marketing / auth pages shown while signed out. Signup and password reset are query-driven. */
+export const PUBLIC_ROUTE_PATHS = {
+  landing: "/",
+  auth: "/auth",
+  pricing: "/pricing",
+  legal: "/legal",
+  enterprise: "/enterprise",
+  features: "/features",
+  "how-it-works": "/how-it-works",
+  blog: "/blog",
+  community: "/community",
+  help: "/help",
+  contact: "/contact",
+  "forgot-password": "/forgot-password",
+} as const;
+
+export type RoutablePublicPage = keyof typeof PUBLIC_ROUTE_PATHS;
+
+const trimPath = (pathname: string) => pathname.replace(/\/+$/, "") || "/";
+
+export const pageToPath = (page: string): string => {
+  const separator = page.indexOf(":");
+  if (separator === -1) return `/${page}`;
+  const key = page.slice(0, separator);
+  const param = page.slice(separator + 1);
+  return param ? `/${key}/${encodeURIComponent(param)}` : `/${key}`;
+};
+
+/** Deep links for emails and push notifications: open the conversation, goal or event itself. */
+export const chatPath = (chatId: string): string => pageToPath(`chat:${chatId}`);
+export const goalPath = (goalId: string): string => pageToPath(`my-goals:${goalId}`);
+export const calendarEventPath = (eventId: string): string => pageToPath(`calendar:${eventId}`);
+
+/** Page a notification opens: its chat, goal or event, or null when it has nothing to link to. */
+export const notificationPage = (notification: {
+  chatId?: string;
+  goalId?: string;
+  eventId?: string;
+}): string | null => {
+  if (notification.chatId) return `chat:${notification.chatId}`;
+  if (notification.goalId) return `my-goals:${notification.goalId}`;
+  if (notification.eventId) return `calendar:${notification.eventId}`;
+  return null;
+};
+
+/** Page key for an in-app path, or null when the path is not an app page (e.g. "/" or "/pricing"). */
+export const pathToPage = (pathname: string): string | null => {
+  const path = trimPath(pathname);
+  if (PATH_ALIASES[path]) return PATH_ALIASES[path];
+
+  const [key, ...rest] = path.slice(1).split("/");
+  if (!APP_PAGE_KEYS.has(key)) return null;
+  if (rest.length === 0) return key;
+
+  try {
+    return `${key}:${decodeURIComponent(rest.join("/"))}`;
+  } catch {
+    return key;
+  }
+};
+
+/** Public article page: /blog/<slug>. */
+export const blogPostPath = (slug: string): string => `${PUBLIC_ROUTE_PATHS.blog}/${encodeURIComponent(slug)}`;
+
+/** Slug from an article path, or null for /blog itself and every other path. */
+export const pathToBlogSlug = (pathname: string): string | null => {
+  const match = /^\/blog\/([^/]+)$/.exec(trimPath(pathname));
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+};
+
+export const pathToPublicRoute = (pathname: string): RoutablePublicPage | null => {
+  const path = trimPath(pathname);
+  if (pathToBlogSlug(path)) return "blog";
+  const match = (Object.keys(PUBLIC_ROUTE_PATHS) as RoutablePublicPage[]).find(
+    (route) => PUBLIC_ROUTE_PATHS[route] === path
+  );
+  return match ?? null;
+};
+
+/** Remember the page a signed-out visitor asked for so login can send them there. */
+export function setPostLoginPage(page: string): void {
+  try {
+    sessionStorage.setItem(POST_LOGIN_PAGE_KEY, page);
+  } catch {
+    /* ignore quota / private mode */
+  }
+}
+
+/** Read and clear the page requested before login, if any. */
+export function consumePostLoginPage(): string | null {
+  try {
+    const page = sessionStorage.getItem(POST_LOGIN_PAGE_KEY);
+    sessionStorage.removeItem(POST_LOGIN_PAGE_KEY);
+    return page && page.trim() ? page : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Navigate from outside React (e.g. a foreground notification click); App listens for popstate. */
+export function navigateToPath(path: string): void {
+  window.history.pushState(null, "", path);
+  window.dispatchEvent(new PopStateEvent("popstate"));
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeHtml } from "./sanitizeHtml";
+
+describe("sanitizeHtml", () => {
+  it("keeps editor formatting, alignment and https images", () => {
+    const html =
+      '<h2>Agenda</h2><p style="text-align: center; color: red">Hi <strong>there</strong></p>' +
+      '<ul><li><em>One</em></li></ul><img src="https://storage.example.com/a.png" alt="Chart" class="rounded">';
+
+    expect(sanitizeHtml(html)).toBe(
+      '<h2>Agenda</h2><p style="text-align: center">Hi <strong>there</strong></p>' +
+        '<ul><li><em>One</em></li></ul><img src="https://storage.example.com/a.png" alt="Chart">'
+    );
+  });
+
+  it("opens safe links in a new tab without an opener", () => {
+    expect(sanitizeHtml('<a href="https://example.com/?a=1&amp;b=2" onclick="steal()">Read</a>')).toBe(
+      '<a href="https://example.com/?a=1&amp;b=2" target="_blank" rel="noopener noreferrer">Read</a>'
+    );
+    expect(sanitizeHtml('<a href="mailto:hi@example.com">Mail</a>')).toContain('href="mailto:hi@example.com"');
+  });
+
+  it.each([
+    '<a href="javascript:alert(1)">x</a>',
+    '<a href=" JaVaScRiPt:alert(1)">x</a>',
+    '<a href="java\tscript:alert(1)">x</a>',
+    '<a href="jav&#x09;ascript:alert(1)">x</a>',
+    '<a href="&#106;avascript:alert(1)">x</a>',
+    '<a href="&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74:alert(1)">x</a>',
+    '<a href="javascript&colon;alert(1)">x</a>',
+    "<a href=vbscript:msgbox(1)>x</a>",
+    '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  ])("drops the href from %s", (payload) => {
+    expect(sanitizeHtml(payload)).toBe("<a>x</a>");
+  });
+
+  it.each([
+    ["<script>alert(1)</script><p>ok</p>", "<p>ok</p>"],
+    ["<SCRIPT SRC=//evil.example/x.js></SCRIPT>ok", "ok"],
+    ["<img src=x onerror=alert(1)>", ""],
+    ['<img src="javascript:alert(1)">', ""],
+    ['<img src="http://insecure.example/a.png">', ""],
+    ["<svg><script>alert(1)</script><svg onload=alert(1)></svg>", ""],
+    ['<iframe src="https://evil.example"></iframe><p>ok</p>', "<p>ok</p>"],
+    ["<style>body{display:none}</style>ok", "ok"],
+    ['<p onmouseover="alert(1)" class="MsoNormal">ok</p>', "<p>ok</p>"],
+    ['<div style="background:url(javascript:alert(1))">ok</div>', "<div>ok</div>"],
+    ["<!--<img src=x onerror=alert(1)>-->ok", "ok"],
+    ["<scr<script>ipt>alert(1)</script>", "ipt&gt;alert(1)"],
+    ['<a title="&quot;><img src=x onerror=alert(1)>">x</a>', '<a title="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;">x</a>'],
+    ['<p>ok</p><img src="https://a.example/x.png" onerror="alert(1)', "<p>ok</p>"],
+    ["<form action=https://evil.example><input name=q></form>ok", "ok"],
+  ])("neutralises %s", (payload, expected) => {
+    expect(sanitizeHtml(payload)).toBe(expected);
+  });
+
+  it("escapes stray markup characters and closes open tags", () => {
+    expect(sanitizeHtml("<p>1 < 2 & 3 > 2 &nbsp;<strong>bold")).toBe(
+      "<p>1 &lt; 2 &amp; 3 &gt; 2 &nbsp;<strong>bold</strong></p>"
+    );
+    expect(sanitizeHtml("<ul><li>a</ul></li>")).toBe("<ul><li>a</li></ul>");
+    expect(sanitizeHtml(undefined)).toBe("");
+  });
+
+  // The write trigger re-runs on its own update and stops only when nothing changes
+  it("is stable when run on its own output", () => {
+    const once = sanitizeHtml(
+      '<p style="text-align:right">It&#39;s <a href="https://x.example/?q=&quot;a&quot;" title="A & B">here</a></p><li>open'
+    );
+    expect(sanitizeHtml(once)).toBe(once);
+  });
+});
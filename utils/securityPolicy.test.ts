@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { Role } from "../types";
+import type { OrgSecurityPolicy } from "../types";
+import {
+  buildSecurityPolicy,
+  getTotpGraceDaysLeft,
+  getTotpPolicyStatus,
+  isTotpRequiredForRole,
+} from "./securityPolicy";
+
+describe("securityPolicy", () => {
+  const now = new Date("2026-03-10T00:00:00.000Z");
+  const policy: OrgSecurityPolicy = {
+    requireTotp: "admins_and_mentors",
+    gracePeriodDays: 7,
+    enforcedAt: "2026-03-01T00:00:00.000Z",
+  };
+  const member = { createdAt: "2026-01-01T00:00:00.000Z", totpEnabled: false };
+
+  it("covers roles cumulatively", () => {
+    expect(isTotpRequiredForRole("admins", Role.ADMIN)).toBe(true);
+    expect(isTotpRequiredForRole("admins", Role.MENTOR)).toBe(false);
+    expect(isTotpRequiredForRole("admins_and_mentors", Role.MENTOR)).toBe(true);
+    expect(isTotpRequiredForRole("admins_and_mentors", Role.MENTEE)).toBe(false);
+    expect(isTotpRequiredForRole("everyone", Role.MENTEE)).toBe(true);
+    expect(isTotpRequiredForRole("off", Role.ADMIN)).toBe(false);
+    expect(isTotpRequiredForRole(undefined, Role.ADMIN)).toBe(false);
+  });
+
+  it("enforces once the grace period since the policy started is over", () => {
+    expect(getTotpPolicyStatus(policy, { ...member, role: Role.MENTEE }, now)).toBe("not_required");
+    expect(getTotpPolicyStatus(policy, { ...member, role: Role.MENTOR, totpEnabled: true }, now)).toBe("satisfied");
+    expect(getTotpPolicyStatus(policy, { ...member, role: Role.MENTOR }, new Date("2026-03-05T00:00:00.000Z"))).toBe("grace");
+    expect(getTotpPolicyStatus(policy, { ...member, role: Role.MENTOR }, now)).toBe("enforced");
+    expect(getTotpPolicyStatus(undefined, { ...member, role: Role.ADMIN }, now)).toBe("not_required");
+  });
+
+  it("gives members who join later their own grace period", () => {
+    const newcomer = { role: Role.ADMIN, createdAt: "2026-03-08T00:00:00.000Z", totpEnabled: false };
+    expect(getTotpPolicyStatus(policy, newcomer, now)).toBe("grace");
+    expect(getTotpGraceDaysLeft(policy, newcomer, now)).toBe(5);
+    expect(getTotpGraceDaysLeft(policy, member, now)).toBe(0);
+  });
+
+  it("restarts the grace clock only when the requirement changes", () => {
+    const later = new Date("2026-03-20T00:00:00.000Z");
+    expect(buildSecurityPolicy(policy, "admins_and_mentors", 14, later).enforcedAt).toBe(policy.enforcedAt);
+    expect(buildSecurityPolicy(policy, "everyone", 14, later).enforcedAt).toBe(later.toISOString());
+    expect(buildSecurityPolicy(undefined, "admins", 500, later).gracePeriodDays).toBe(90);
+    expect(buildSecurityPolicy(undefined, "admins", -3, later).gracePeriodDays).toBe(0);
+  });
+});
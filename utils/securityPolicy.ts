@@ -0,0 +1,91 @@
+import { Role } from "../types";
+import type { OrgSecurityPolicy, TotpRequirement, User } from "../types";
+
+/**
+ * Org-enforced two-factor policy. Server copy lives in functions/src/utils/securityPolicy.ts
+ * (used by sensitive Cloud Functions).
+ */
+
+export const TOTP_REQUIREMENT_OPTIONS: { value: TotpRequirement; label: string }[] = [
+  { value: "off", label: "Optional for everyone" },
+  { value: "admins", label: "Required for admins" },
+  { value: "admins_and_mentors", label: "Required for admins and mentors" },
+  { value: "everyone", label: "Required for everyone" },
+];
+
+export const DEFAULT_TOTP_GRACE_DAYS = 7;
+export const MAX_TOTP_GRACE_DAYS = 90;
+
+/**
+ * - not_required: the policy doesn't cover this user's role
+ * - satisfied: covered and TOTP is on
+ * - grace: covered, TOTP off, still inside the grace period
+ * - enforced: covered, TOTP off, grace period over — must set up TOTP before doing anything else
+ */
+export type TotpPolicyStatus = "not_required" | "satisfied" | "grace" | "enforced";
+
+const isAdminRole = (role: string) => role === Role.ADMIN || role === "ADMIN";
+
+export function isTotpRequiredForRole(requirement: TotpRequirement | undefined, role: Role | string): boolean {
+  switch (requirement) {
+    case "everyone":
+      return isAdminRole(role) || role === Role.MENTOR || role === Role.MENTEE;
+    case "admins_and_mentors":
+      return isAdminRole(role) || role === Role.MENTOR;
+    case "admins":
+      return isAdminRole(role);
+    default:
+      return false;
+  }
+}
+
+/** Grace runs from when the policy was turned on, or from when the user joined if that's later. */
+export function getTotpDeadline(
+  policy: OrgSecurityPolicy,
+  user: Pick<User, "createdAt">
+): Date {
+  const enforcedAt = Date.parse(policy.enforcedAt) || 0;
+  const joinedAt = Date.parse(user.createdAt) || 0;
+  const graceDays = Math.min(Math.max(policy.gracePeriodDays || 0, 0), MAX_TOTP_GRACE_DAYS);
+  return new Date(Math.max(enforcedAt, joinedAt) + graceDays * 24 * 60 * 60 * 1000);
+}
+
+export function getTotpPolicyStatus(
+  policy: OrgSecurityPolicy | undefined,
+  user: Pick<User, "role" | "totpEnabled" | "createdAt">,
+  now: Date = new Date()
+): TotpPolicyStatus {
+  if (!policy || !isTotpRequiredForRole(policy.requireTotp, user.role)) return "not_required";
+  if (user.totpEnabled) return "satisfied";
+  return getTotpDeadline(policy, user) > now ? "grace" : "enforced";
+}
+
+/** Whole days left before setup becomes mandatory (0 once enforced). */
+export function getTotpGraceDaysLeft(
+  policy: OrgSecurityPolicy,
+  user: Pick<User, "createdAt">,
+  now: Date = new Date()
+): number {
+  const msLeft = getTotpDeadline(policy, user).getTime() - now.getTime();
+  return Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)));
+}
+
+/**
+ * Policy to save for a new requirement/grace. `enforcedAt` restarts only when the requirement
+ * changes, so editing the grace period doesn't reset everyone's clock.
+ */
+export function buildSecurityPolicy(
+  previous: OrgSecurityPolicy | undefined,
+  requireTotp: TotpRequirement,
+  gracePeriodDays: number,
+  now: Date = new Date()
+): OrgSecurityPolicy {
+  const days = Math.round(Number.isFinite(gracePeriodDays) ? gracePeriodDays : DEFAULT_TOTP_GRACE_DAYS);
+  return {
+    requireTotp,
+    gracePeriodDays: Math.min(Math.max(days, 0), MAX_TOTP_GRACE_DAYS),
+    enforcedAt:
+      previous && previous.requireTotp === requireTotp ? previous.enforcedAt : now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,212 @@
+// @vitest-environment node
+/**
+ * The Cloud Functions can't import from the web app, so functions/src keeps its own copies of these
+ * rules. Each case runs the same input through both copies so they can't drift apart unnoticed.
+ * (The server's plan table is checked in functions/src/entitlements.test.ts.)
+ */
+import { describe, expect, it } from "vitest";
+import type { CalendarEvent, MentorAvailability } from "../types";
+import * as clientSanitize from "./sanitizeHtml";
+import * as serverSanitize from "../functions/src/utils/sanitizeHtml";
+import * as clientTemplates from "./emailTemplates";
+import * as serverTemplates from "../functions/src/utils/emailTemplates";
+import * as clientInvitations from "./invitations";
+import * as serverInvitations from "../functions/src/utils/invitations";
+import * as clientPreferences from "./notificationPreferences";
+import * as serverPreferences from "../functions/src/utils/notificationPreferences";
+import * as clientRecurrence from "./recurrence";
+import * as serverRecurrence from "../functions/src/utils/recurrence";
+import * as clientRoutes from "./routes";
+import * as serverRoutes from "../functions/src/utils/routes";
+import * as clientSecurity from "./securityPolicy";
+import * as serverSecurity from "../functions/src/utils/securityPolicy";
+import * as clientTimeZones from "./timeZones";
+import * as serverTimeZones from "../functions/src/utils/timeZones";
+import * as clientAvailability from "./availability";
+import * as serverAvailability from "../functions/src/utils/availability";
+import { parseDurationToHours } from "../services/utils";
+
+const now = new Date("2026-03-10T12:00:00.000Z");
+
+describe("server copies of client rules", () => {
+  it("sanitizeHtml", () => {
+    for (const html of [
+      "<p>Hello <strong>world</strong></p>",
+      '<a href="javascript:alert(1)" onclick="x()">link</a>',
+      '<img src="https://example.com/a.png" onerror="x()"><script>alert(1)</script>',
+      '<div style="color:red"><iframe src="https://evil.example"></iframe><em>kept</em></div>',
+      '<a href="https://example.com" target="_blank">safe</a>',
+      "",
+      null,
+    ]) {
+      expect(serverSanitize.sanitizeHtml(html)).toBe(clientSanitize.sanitizeHtml(html));
+    }
+  });
+
+  it("emailTemplates", () => {
+    expect(serverTemplates.EMAIL_TEMPLATE_DEFINITIONS).toEqual(clientTemplates.EMAIL_TEMPLATE_DEFINITIONS);
+    expect(serverTemplates.SAMPLE_TEMPLATE_VALUES).toEqual(clientTemplates.SAMPLE_TEMPLATE_VALUES);
+    for (const color of [undefined, "#123abc", "red; background:url(x)", "#FFF"]) {
+      expect(serverTemplates.resolveAccentColor(color)).toBe(clientTemplates.resolveAccentColor(color));
+    }
+    expect(serverTemplates.escapeHtml(`<b a="1">'&`)).toBe(clientTemplates.escapeHtml(`<b a="1">'&`));
+
+    const branding = { organizationName: "Acme", programName: "Acme Grow", logo: "https://acme.test/l.png", accentColor: "#123abc" };
+    for (const key of clientTemplates.EMAIL_TEMPLATE_KEYS) {
+      for (const override of [{}, { subject: "Hi {{name}}", body: "Line <one>\n\n{{unknownValue}}", buttonLabel: "Go" }]) {
+        expect(serverTemplates.validateTemplateOverride(key, override)).toEqual(
+          clientTemplates.validateTemplateOverride(key, override)
+        );
+        expect(
+          serverTemplates.renderBrandedEmail(key, override, branding, clientTemplates.SAMPLE_TEMPLATE_VALUES, "https://app.test/x?a=1&b=2")
+        ).toEqual(
+          clientTemplates.renderBrandedEmail(key, override, branding, clientTemplates.SAMPLE_TEMPLATE_VALUES, "https://app.test/x?a=1&b=2")
+        );
+      }
+    }
+  });
+
+  it("invitations", () => {
+    for (const days of [undefined, 0, 7, 7.6, 365, "14", "soon"]) {
+      expect(serverInvitations.getInvitationExpiry(days, now)).toBe(
+        clientInvitations.getInvitationExpiry({ invitationExpiryDays: days as number }, now)
+      );
+    }
+    for (const invitation of [
+      { status: "Pending", sentDate: "2026-02-01T00:00:00.000Z" },
+      { status: "Pending", sentDate: "2026-03-01T00:00:00.000Z", expiresAt: "2026-03-12T00:00:00.000Z" },
+      { status: "Pending", sentDate: "2026-03-09T00:00:00.000Z", expiresAt: "2026-03-11T00:00:00.000Z" },
+      { status: "Pending", expiresAt: "2026-03-12T00:00:00.000Z", reminderSentAt: "2026-03-09T00:00:00.000Z" },
+      { status: "Accepted", sentDate: "2026-02-01T00:00:00.000Z" },
+      { status: "Pending" },
+    ]) {
+      expect(serverInvitations.isInvitationExpired(invitation, now)).toBe(
+        clientInvitations.isInvitationExpired(invitation as never, now)
+      );
+      expect(serverInvitations.isInvitationReminderDue(invitation, now)).toBe(
+        clientInvitations.isInvitationReminderDue(invitation as never, now)
+      );
+    }
+  });
+
+  it("notificationPreferences", () => {
+    expect(serverPreferences.DEFAULT_NOTIFICATION_PREFERENCES).toEqual(clientPreferences.DEFAULT_NOTIFICATION_PREFERENCES);
+    expect(serverPreferences.NOTIFICATION_TYPE_CATEGORIES).toEqual(clientPreferences.NOTIFICATION_TYPE_CATEGORIES);
+    const user = { "Goal Updates": { email: false, push: true } };
+    const org = { "Match Updates": { email: false, push: false }, "Goal Updates": { email: true, push: false } };
+    for (const category of clientPreferences.NOTIFICATION_CATEGORIES) {
+      for (const channel of ["email", "push"] as const) {
+        for (const [userPrefs, orgDefaults] of [[user, org], [undefined, org], [user, null], [undefined, undefined]]) {
+          expect(serverPreferences.resolveChannelPreference(userPrefs, orgDefaults, category, channel)).toEqual(
+            clientPreferences.resolveChannelPreference(userPrefs, orgDefaults, category, channel)
+          );
+        }
+      }
+    }
+  });
+
+  it("recurrence", () => {
+    const series = {
+      id: "series-1",
+      organizationId: "org-1",
+      title: "Weekly sync",
+      date: "2026-02-24",
+      startTime: "09:30",
+      timeZone: "America/New_York",
+      duration: "1h",
+      type: "Virtual",
+      recurrence: { frequency: "WEEKLY", interval: 2, count: 6 },
+      recurrenceExceptions: ["2026-03-10"],
+    } as CalendarEvent;
+    for (const recurrence of [series.recurrence!, { frequency: "DAILY", until: "2026-03-12" }, { frequency: "MONTHLY" }] as const) {
+      const event = { ...series, recurrence };
+      const from = new Date("2026-02-01T00:00:00.000Z");
+      const to = new Date("2026-06-01T00:00:00.000Z");
+      expect(
+        serverRecurrence.getOccurrencesBetween(event, from, to).map(({ date, startsAt }) => [date, startsAt.toISOString()])
+      ).toEqual(clientRecurrence.expandRecurringEvent(event, from, to).map((occurrence) => [occurrence.date, occurrence.startsAt]));
+    }
+  });
+
+  it("routes", () => {
+    for (const page of ["dashboard", "settings:billing", "chat:group one", "settings:", "calendar:a/b"]) {
+      expect(serverRoutes.pageToPath(page)).toBe(clientRoutes.pageToPath(page));
+    }
+    expect(serverRoutes.chatPath("user-2")).toBe(clientRoutes.chatPath("user-2"));
+    expect(serverRoutes.goalPath("goal-1")).toBe(clientRoutes.goalPath("goal-1"));
+    expect(serverRoutes.calendarEventPath("event-1")).toBe(clientRoutes.calendarEventPath("event-1"));
+    for (const notification of [{ chatId: "c", goalId: "g" }, { goalId: "g", eventId: "e" }, { eventId: "e" }, {}]) {
+      expect(serverRoutes.notificationPage(notification)).toBe(clientRoutes.notificationPage(notification));
+    }
+  });
+
+  it("securityPolicy", () => {
+    for (const requireTotp of ["off", "admins", "admins_and_mentors", "everyone"] as const) {
+      const policy = { requireTotp, gracePeriodDays: 7, enforcedAt: "2026-03-01T00:00:00.000Z" };
+      for (const role of ["ORGANIZATION_ADMIN", "ADMIN", "MENTOR", "MENTEE", "PLATFORM_ADMIN"]) {
+        for (const user of [
+          { role, totpEnabled: false, createdAt: "2026-01-01T00:00:00.000Z" },
+          { role, totpEnabled: false, createdAt: "2026-03-08T00:00:00.000Z" },
+          { role, totpEnabled: true, createdAt: "2026-01-01T00:00:00.000Z" },
+        ]) {
+          expect(serverSecurity.getTotpPolicyStatus(policy, user as never, now)).toBe(
+            clientSecurity.getTotpPolicyStatus(policy, user as never, now)
+          );
+        }
+      }
+    }
+  });
+
+  it("timeZones", () => {
+    for (const zone of ["America/New_York", "Europe/London", "Asia/Kolkata", "UTC", "Not/A_Zone"]) {
+      expect(serverTimeZones.isValidTimeZone(zone)).toBe(clientTimeZones.isValidTimeZone(zone));
+    }
+    for (const [date, time, zone] of [
+      ["2026-03-08", "02:30", "America/New_York"],
+      ["2026-11-01", "01:30", "America/New_York"],
+      ["2026-06-15", "23:45", "Asia/Kolkata"],
+    ]) {
+      expect(serverTimeZones.zonedDateTimeToUtc(date, time, zone)).toEqual(clientTimeZones.zonedDateTimeToUtc(date, time, zone));
+      const instant = clientTimeZones.zonedDateTimeToUtc(date, time, zone);
+      expect(serverTimeZones.utcToZonedDateTime(instant, zone)).toEqual(clientTimeZones.utcToZonedDateTime(instant, zone));
+    }
+    const event = { date: "2026-03-10", startTime: "09:00", timeZone: "Europe/London" };
+    expect(serverTimeZones.getEventStart(event)).toEqual(clientTimeZones.getEventStart(event));
+    expect(serverTimeZones.getEventStart({ date: "2026-03-10", startTime: "09:00" }, "Asia/Kolkata")).toEqual(
+      clientTimeZones.getEventStart({ date: "2026-03-10", startTime: "09:00" }, "Asia/Kolkata")
+    );
+  });
+
+  it("availability: the server accepts exactly the slots the client offers", () => {
+    const availability: MentorAvailability = {
+      timeZone: "America/New_York",
+      windows: [
+        { weekday: 0, startTime: "01:00", endTime: "04:00" },
+        { weekday: 1, startTime: "09:00", endTime: "12:00" },
+        { weekday: 3, startTime: "13:30", endTime: "17:00" },
+      ],
+      sessionMinutes: 45,
+      bufferMinutes: 15,
+    };
+    const busy = [{ start: new Date("2026-03-09T14:30:00.000Z"), end: new Date("2026-03-09T15:00:00.000Z") }];
+    // Spans the spring-forward Sunday (8 March) so skipped wall-clock times are covered
+    const from = new Date("2026-03-07T00:00:00.000Z");
+    const to = new Date("2026-03-14T00:00:00.000Z");
+    const offered = new Set(
+      clientAvailability
+        .getAvailableSlots({ availability, busy, sessionStarts: [], from, to })
+        .map((slot) => slot.startsAt)
+    );
+    expect(offered.size).toBeGreaterThan(0);
+    for (let t = from.getTime(); t < to.getTime(); t += 15 * 60000) {
+      const start = new Date(t);
+      expect(serverAvailability.isSlotAvailable(availability, start, busy, 0), start.toISOString()).toBe(
+        offered.has(start.toISOString())
+      );
+    }
+    // The client reads session length through parseDurationToHours
+    for (const duration of ["1h", "30 min", "1h 30m", "1.5h", ""]) {
+      expect(serverAvailability.parseDurationMinutes(duration)).toBe(Math.round(parseDurationToHours(duration) * 60) || 60);
+    }
+  });
+});
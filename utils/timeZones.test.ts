@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatEventTime,
+  getEventLocalDateTime,
+  getEventStart,
+  getTimeZoneOffsetMinutes,
+  toEventTiming,
+  utcToZonedDateTime,
+  zonedDateTimeToUtc,
+} from "./timeZones";
+
+describe("timeZones", () => {
+  it("converts wall-clock times to UTC across DST", () => {
+    expect(zonedDateTimeToUtc("2026-01-15", "09:00", "America/New_York").toISOString()).toBe(
+      "2026-01-15T14:00:00.000Z"
+    );
+    expect(zonedDateTimeToUtc("2026-07-15", "09:00", "America/New_York").toISOString()).toBe(
+      "2026-07-15T13:00:00.000Z"
+    );
+    // Morning after the US spring-forward change (2026-03-08)
+    expect(zonedDateTimeToUtc("2026-03-08", "09:00", "America/New_York").toISOString()).toBe(
+      "2026-03-08T13:00:00.000Z"
+    );
+    expect(zonedDateTimeToUtc("2026-07-15", "09:00", "Asia/Kolkata").toISOString()).toBe(
+      "2026-07-15T03:30:00.000Z"
+    );
+    expect(getTimeZoneOffsetMinutes(new Date("2026-07-15T12:00:00Z"), "Europe/London")).toBe(60);
+  });
+
+  it("renders one instant on each viewer's wall clock", () => {
+    const event = toEventTiming("2026-07-15", "21:00", "America/Los_Angeles");
+    expect(event.startsAt).toBe("2026-07-16T04:00:00.000Z");
+    expect(getEventLocalDateTime(event, "Europe/Berlin")).toEqual({
+      date: "2026-07-16",
+      time: "06:00",
+    });
+    expect(utcToZonedDateTime(new Date(event.startsAt), "America/Los_Angeles")).toEqual({
+      date: "2026-07-15",
+      time: "21:00",
+    });
+    expect(formatEventTime(event, "America/New_York")).toBe("12:00 AM EDT");
+  });
+
+  it("reads legacy events without a zone in the fallback zone", () => {
+    const legacy = { date: "2026-01-15", startTime: "09:00" };
+    expect(getEventStart(legacy, "Europe/Paris").toISOString()).toBe("2026-01-15T08:00:00.000Z");
+    expect(getEventStart({ ...legacy, timeZone: "UTC" }, "Europe/Paris").toISOString()).toBe(
+      "2026-01-15T09:00:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import type { CalendarEvent } from "../types";
+
+/**
+ * Calendar events keep the wall-clock `date` + `startTime` they were scheduled in, the IANA
+ * `timeZone` of that wall clock, and the UTC instant `startsAt`. Everything that shows or
+ * exports an event goes through these helpers so each viewer sees their own local time.
+ * Server copy lives in functions/src/utils/timeZones.ts.
+ */
+
+export const getBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The viewer's zone: their profile setting, else the browser's. */
+export const resolveTimeZone = (timeZone?: string | null): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getBrowserTimeZone();
+
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+/** Minutes `timeZone` is ahead of UTC at `instant` (e.g. -240 for New York in summer). */
+export const getTimeZoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const p = getZonedParts(instant, timeZone);
+  const wallAsUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+  const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallAsUtc - instantSeconds) / 60000);
+};
+
+/** UTC instant for a wall-clock date (YYYY-MM-DD) and time (HH:mm) in `timeZone`. */
+export const zonedDateTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = (time || "00:00").split(":").map(Number);
+  const wallAsUtc = Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  // Two passes so times next to a DST change pick up the offset in effect at that moment
+  const firstGuess = wallAsUtc - getTimeZoneOffsetMinutes(new Date(wallAsUtc), timeZone) * 60000;
+  return new Date(
+    wallAsUtc - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000
+  );
+};
+
+/** Wall-clock date (YYYY-MM-DD) and time (HH:mm) of an instant in `timeZone`. */
+export const utcToZonedDateTime = (
+  instant: Date,
+  timeZone: string
+): { date: string; time: string } => {
+  const p = getZonedParts(instant, timeZone);
+  return { date: `${p.year}-${p.month}-${p.day}`, time: `${p.hour}:${p.minute}` };
+};
+
+type EventTiming = Pick<CalendarEvent, "date" | "startTime" | "timeZone" | "startsAt">;
+
+/**
+ * UTC start of an event. Events saved before time zones existed have no `startsAt`/`timeZone`;
+ * their wall clock is read in `fallbackTimeZone` (the viewer's zone, which is what they assumed).
+ */
+export const getEventStart = (event: EventTiming, fallbackTimeZone?: string): Date =>
+  event.startsAt
+    ? new Date(event.startsAt)
+    : zonedDateTimeToUtc(event.date, event.startTime, event.timeZone || resolveTimeZone(fallbackTimeZone));
+
+/** The event's date and start time on the viewer's wall clock. */
+export const getEventLocalDateTime = (
+  event: EventTiming,
+  viewerTimeZone: string
+): { date: string; time: string } =>
+  utcToZonedDateTime(getEventStart(event, viewerTimeZone), viewerTimeZone);
+
+/** Fields to store for a wall-clock date/time entered in `timeZone`. */
+export const toEventTiming = (
+  date: string,
+  startTime: string,
+  timeZone: string
+): Required<EventTiming> => ({
+  date,
+  startTime,
+  timeZone,
+  startsAt: zonedDateTimeToUtc(date, startTime, timeZone).toISOString(),
+});
+
+/** Short zone label such as "EST" or "GMT+5:30" at `instant`. */
+export const getTimeZoneAbbreviation = (instant: Date, timeZone: string): string => {
+  try {
+    return (
+      new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+        .formatToParts(instant)
+        .find((p) => p.type === "timeZoneName")?.value ?? timeZone
+    );
+  } catch {
+    return timeZone;
+  }
+};
+
+/** e.g. "3:00 PM EDT" in the viewer's zone. */
+export const formatEventTime = (event: EventTiming, viewerTimeZone: string): string => {
+  const start = getEventStart(event, viewerTimeZone);
+  const time = start.toLocaleTimeString("en-US", {
+    timeZone: viewerTimeZone,
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${time} ${getTimeZoneAbbreviation(start, viewerTimeZone)}`;
+};
+
+/** IANA zones for pickers; always includes the browser zone and UTC, which some engines omit. */
+export const getTimeZoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf("timeZone") : [];
+  const extras = [getBrowserTimeZone(), "UTC"].filter(
+    (zone, i, all) => !zones.includes(zone) && all.indexOf(zone) === i
+  );
+  return [...extras, ...zones];
+};
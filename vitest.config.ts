@@ -8,7 +8,8 @@ export default defineConfig({
     environment: "jsdom",
     setupFiles: ["./vitest.setup.ts"],
     include: ["**/*.{test,spec}.{ts,tsx}"],
-    exclude: ["node_modules", "dist", "functions"],
+    // Cloud Functions tests run here too (in node, see their @vitest-environment comment)
+    exclude: ["**/node_modules/**", "dist", "functions/lib"],
   },
   resolve: {
     alias: {